@@ -12,10 +12,15 @@ import {
   OrderTradeUpdateEvent,
   MarginCallEvent,
   SymbolInfo,
-  PositionInfo
+  PositionInfo,
+  SymbolLeverageBrackets
 } from './types';
 import { AsterSigner } from './signing';
 
+// Both hosts can be pointed elsewhere, e.g. at the local stand-in in tools/fake_aster.ts
+export const FUTURES_BASE_URL = process.env.ASTER_BASE_URL || 'https://fapi.asterdex.com';
+export const SPOT_BASE_URL = process.env.ASTER_SPOT_BASE_URL || 'https://sapi.asterdex.com';
+
 export class AsterApiClient {
   private axios: AxiosInstance;
   private baseUrl: string;
@@ -24,6 +29,8 @@ export class AsterApiClient {
   private exchangeInfo: ExchangeInfo | null = null;
   private symbolInfoCache = new Map<string, SymbolInfo>();
   private isMockMode: boolean;
+  // Hedge (dual side) position mode, looked up on first use; null until known
+  private dualSidePosition: boolean | null = null;
   
   constructor(baseUrl: string, apiKey: string, apiSecret: string, mockMode = false) {
     this.baseUrl = baseUrl;
@@ -193,9 +200,98 @@ export class AsterApiClient {
   async getPositionRisk(): Promise<PositionInfo[]> {
     const signedRequest = AsterSigner.signGetRequest('/fapi/v1/positionRisk', {}, this.apiSecret);
     const response = await this.axios.get<PositionInfo[]>(signedRequest.url);
+    // Rows say which mode the account is in: BOTH in one-way, LONG/SHORT in hedge mode.
+    // Rows without a recognised side leave the mode to getPositionMode().
+    const sides = response.data.map(p => p.positionSide);
+    if (sides.some(side => side === 'LONG' || side === 'SHORT')) {
+      this.dualSidePosition = true;
+    } else if (sides.includes('BOTH')) {
+      this.dualSidePosition = false;
+    }
     return response.data;
   }
 
+  /**
+   * Whether the account is in hedge mode, where each symbol has a LONG and a SHORT leg
+   */
+  async getPositionMode(): Promise<boolean> {
+    if (this.dualSidePosition === null) {
+      const signedRequest = AsterSigner.signGetRequest('/fapi/v1/positionSide/dual', {}, this.apiSecret);
+      const response = await this.axios.get<{ dualSidePosition: boolean | string }>(signedRequest.url);
+      this.dualSidePosition = String(response.data.dualSidePosition) === 'true';
+    }
+    return this.dualSidePosition;
+  }
+
+  /**
+   * Switch between one-way and hedge mode. The exchange refuses while any position or open
+   * order exists, and when the account is already in the requested mode
+   */
+  async changePositionMode(dualSidePosition: boolean): Promise<{ code: number; msg: string }> {
+    try {
+      const params = { dualSidePosition: String(dualSidePosition) };
+
+      const signedRequest = AsterSigner.signPostRequest('/fapi/v1/positionSide/dual', params, this.apiSecret);
+      const formData = new URLSearchParams(signedRequest.queryString);
+
+      console.log(`[API] POST /fapi/v1/positionSide/dual`);
+      const response = await this.axios.post('/fapi/v1/positionSide/dual', formData, {
+        headers: {
+          'X-MBX-APIKEY': this.apiKey,
+          'Content-Type': 'application/x-www-form-urlencoded'
+        }
+      });
+
+      this.dualSidePosition = dualSidePosition;
+      console.log(`[API] Changed position mode to ${dualSidePosition ? 'hedge' : 'one-way'}`);
+      return response.data;
+    } catch (error) {
+      throw this.handleApiError(error as AxiosError);
+    }
+  }
+
+  /**
+   * The open position for a symbol. In hedge mode a symbol can have a LONG and a SHORT leg
+   * at once, so positionSide picks one; without it, two open legs are ambiguous
+   */
+  static findPosition(positions: PositionInfo[], symbol: string, positionSide?: 'LONG' | 'SHORT'): PositionInfo | undefined {
+    const open = positions.filter(p => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+    if (positionSide) {
+      return open.find(p => AsterApiClient.legOf(p) === positionSide);
+    }
+    if (open.length > 1) {
+      throw new Error(`Both LONG and SHORT legs are open for ${symbol}; choose which one to act on`);
+    }
+    return open[0];
+  }
+
+  /**
+   * LONG or SHORT for a position row: the hedge leg it belongs to, or its sign in one-way mode
+   */
+  static legOf(position: PositionInfo): 'LONG' | 'SHORT' {
+    if (position.positionSide === 'LONG' || position.positionSide === 'SHORT') {
+      return position.positionSide;
+    }
+    return parseFloat(position.positionAmt) > 0 ? 'LONG' : 'SHORT';
+  }
+
+  /**
+   * Side and leg of an order that reduces a position; createOrder turns this into
+   * reduceOnly or positionSide depending on the account's mode
+   */
+  private static exitOrder(position: PositionInfo): Pick<NewOrderRequest, 'side' | 'positionSide' | 'reduceOnly'> {
+    const positionSide = AsterApiClient.legOf(position);
+    return { side: positionSide === 'LONG' ? 'SELL' : 'BUY', positionSide, reduceOnly: true };
+  }
+
+  async getLeverageBrackets(symbol?: string): Promise<SymbolLeverageBrackets[]> {
+    const params = symbol ? { symbol } : {};
+    const signedRequest = AsterSigner.signGetRequest('/fapi/v1/leverageBracket', params, this.apiSecret);
+    const response = await this.axios.get<SymbolLeverageBrackets | SymbolLeverageBrackets[]>(signedRequest.url);
+    // A single symbol comes back as an object rather than a one-element array
+    return Array.isArray(response.data) ? response.data : [response.data];
+  }
+
   async changeLeverage(symbol: string, leverage: number): Promise<any> {
     try {
       const params = {
@@ -227,9 +323,23 @@ export class AsterApiClient {
     }
 
     const clientOrderId = orderParams.newClientOrderId || AsterSigner.createClientOrderId();
-    
+
+    try {
+      return await this.submitOrder(orderParams, clientOrderId);
+    } catch (error) {
+      if (!/position side does not match/i.test((error as Error).message)) {
+        throw error;
+      }
+      // The position mode was switched outside the bot since it was cached; look it up again
+      this.dualSidePosition = null;
+      return this.submitOrder(orderParams, clientOrderId);
+    }
+  }
+
+  private async submitOrder(orderParams: Partial<NewOrderRequest>, clientOrderId: string): Promise<OrderResponse> {
     const params = {
       ...orderParams,
+      ...(await this.positionSideParams(orderParams)),
       newClientOrderId: clientOrderId,
       newOrderRespType: 'RESULT' as const,
     };
@@ -248,6 +358,30 @@ export class AsterApiClient {
     return response.data;
   }
 
+  /**
+   * One-way accounts take no positionSide. Hedge accounts need one on every order and reject
+   * reduceOnly, so an exit names the leg it closes and an entry the leg it opens
+   */
+  private async positionSideParams(orderParams: Partial<NewOrderRequest>): Promise<Partial<NewOrderRequest>> {
+    let hedgeMode: boolean;
+    try {
+      hedgeMode = await this.getPositionMode();
+    } catch (error) {
+      console.warn('[API] Could not read position mode, assuming one-way:', (error as Error).message);
+      hedgeMode = false;
+    }
+
+    if (!hedgeMode) {
+      return { positionSide: undefined };
+    }
+
+    const exit = !!(orderParams.reduceOnly || orderParams.closePosition);
+    const positionSide = orderParams.positionSide === 'LONG' || orderParams.positionSide === 'SHORT'
+      ? orderParams.positionSide
+      : (orderParams.side === 'BUY') !== exit ? 'LONG' : 'SHORT';
+    return { positionSide, reduceOnly: undefined };
+  }
+
   async cancelOrder(symbol: string, orderId?: number, clientOrderId?: string): Promise<OrderResponse> {
     if (!orderId && !clientOrderId) {
       throw new Error('Either orderId or clientOrderId must be provided');
@@ -262,6 +396,27 @@ export class AsterApiClient {
     return response.data;
   }
 
+  async getOrder(symbol: string, orderId?: number, clientOrderId?: string): Promise<OrderResponse> {
+    if (!orderId && !clientOrderId) {
+      throw new Error('Either orderId or clientOrderId must be provided');
+    }
+
+    const params: any = { symbol };
+    if (orderId) params.orderId = orderId;
+    if (clientOrderId) params.origClientOrderId = clientOrderId;
+
+    const signedRequest = AsterSigner.signGetRequest('/fapi/v1/order', params, this.apiSecret);
+    const response = await this.axios.get<OrderResponse>(signedRequest.url);
+    return response.data;
+  }
+
+  async getOpenOrders(symbol?: string): Promise<OrderResponse[]> {
+    const params = symbol ? { symbol } : {};
+    const signedRequest = AsterSigner.signGetRequest('/fapi/v1/openOrders', params, this.apiSecret);
+    const response = await this.axios.get<OrderResponse[]>(signedRequest.url);
+    return response.data;
+  }
+
   async cancelAllOrders(symbol?: string): Promise<{ code: number; msg: string }> {
     const params = symbol ? { symbol } : {};
     const signedRequest = AsterSigner.signDeleteRequest('/fapi/v1/allOpenOrders', params, this.apiSecret);
@@ -269,34 +424,60 @@ export class AsterApiClient {
     return response.data;
   }
 
-  async closePosition(symbol: string, percentage: number = 100): Promise<OrderResponse> {
+  async closePosition(
+    symbol: string,
+    percentage: number = 100,
+    clientOrderId?: string,
+    positionSide?: 'LONG' | 'SHORT'
+  ): Promise<OrderResponse> {
     const positions = await this.getPositionRisk();
-    const position = positions.find(p => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+    const position = AsterApiClient.findPosition(positions, symbol, positionSide);
     
     if (!position) {
-      throw new Error(`No open position found for ${symbol}`);
+      throw new Error(`No open ${positionSide ? positionSide + ' ' : ''}position found for ${symbol}`);
     }
 
     const positionAmt = Math.abs(parseFloat(position.positionAmt));
     const closeQuantity = (positionAmt * percentage / 100).toString();
-    const side = parseFloat(position.positionAmt) > 0 ? 'SELL' : 'BUY';
 
     const orderParams: Partial<NewOrderRequest> = {
       symbol,
-      side: side as any,
+      ...AsterApiClient.exitOrder(position),
       type: 'MARKET',
       quantity: closeQuantity,
-      reduceOnly: true
+      ...(clientOrderId ? { newClientOrderId: clientOrderId } : {})
     };
 
     return this.createOrder(orderParams);
   }
 
-  async modifyPositionMargin(symbol: string, amount: number, type: 1 | 2 = 1): Promise<{ amount: number; code: number; msg: string; type: number }> {
+  // User data stream listen keys (API key only, no signature)
+
+  async createListenKey(): Promise<string> {
+    const response = await this.axios.post<{ listenKey: string }>('/fapi/v1/listenKey');
+    return response.data.listenKey;
+  }
+
+  async keepAliveListenKey(): Promise<void> {
+    await this.axios.put('/fapi/v1/listenKey');
+  }
+
+  async closeListenKey(): Promise<void> {
+    await this.axios.delete('/fapi/v1/listenKey');
+  }
+
+  async modifyPositionMargin(
+    symbol: string,
+    amount: number,
+    type: 1 | 2 = 1,
+    positionSide?: 'LONG' | 'SHORT'
+  ): Promise<{ amount: number; code: number; msg: string; type: number }> {
+    const hedgeMode = positionSide ? await this.getPositionMode() : false;
     const params = {
       symbol,
       amount: amount.toString(),
-      type: type.toString()
+      type: type.toString(),
+      ...(hedgeMode ? { positionSide } : {})
     };
 
     const signedRequest = AsterSigner.signPostRequest('/fapi/v1/positionMargin', params, this.apiSecret);
@@ -304,17 +485,16 @@ export class AsterApiClient {
     return response.data;
   }
 
-  async setStopLoss(symbol: string, stopPrice: number, percentage?: number): Promise<OrderResponse> {
+  async setStopLoss(symbol: string, stopPrice: number, percentage?: number, positionSide?: 'LONG' | 'SHORT'): Promise<OrderResponse> {
     const positions = await this.getPositionRisk();
-    const position = positions.find(p => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+    const position = AsterApiClient.findPosition(positions, symbol, positionSide);
     
     if (!position) {
-      throw new Error(`No open position found for ${symbol}`);
+      throw new Error(`No open ${positionSide ? positionSide + ' ' : ''}position found for ${symbol}`);
     }
 
     const positionAmt = Math.abs(parseFloat(position.positionAmt));
     const rawQuantity = percentage ? (positionAmt * percentage / 100) : Math.abs(parseFloat(position.positionAmt));
-    const side = parseFloat(position.positionAmt) > 0 ? 'SELL' : 'BUY';
 
     // Format precision using exchange info
     const formattedQuantity = await this.formatQuantityWithPrecision(symbol, rawQuantity);
@@ -322,27 +502,25 @@ export class AsterApiClient {
 
     const orderParams: Partial<NewOrderRequest> = {
       symbol,
-      side: side as any,
+      ...AsterApiClient.exitOrder(position),
       type: 'STOP_MARKET',
       quantity: formattedQuantity,
-      stopPrice: formattedPrice,
-      reduceOnly: true
+      stopPrice: formattedPrice
     };
 
     return this.createOrder(orderParams);
   }
 
-  async setTakeProfit(symbol: string, price: number, percentage?: number): Promise<OrderResponse> {
+  async setTakeProfit(symbol: string, price: number, percentage?: number, positionSide?: 'LONG' | 'SHORT'): Promise<OrderResponse> {
     const positions = await this.getPositionRisk();
-    const position = positions.find(p => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+    const position = AsterApiClient.findPosition(positions, symbol, positionSide);
     
     if (!position) {
-      throw new Error(`No open position found for ${symbol}`);
+      throw new Error(`No open ${positionSide ? positionSide + ' ' : ''}position found for ${symbol}`);
     }
 
     const positionAmt = Math.abs(parseFloat(position.positionAmt));
     const rawQuantity = percentage ? (positionAmt * percentage / 100) : Math.abs(parseFloat(position.positionAmt));
-    const side = parseFloat(position.positionAmt) > 0 ? 'SELL' : 'BUY';
 
     // Format precision using exchange info
     const formattedQuantity = await this.formatQuantityWithPrecision(symbol, rawQuantity);
@@ -350,13 +528,84 @@ export class AsterApiClient {
 
     const orderParams: Partial<NewOrderRequest> = {
       symbol,
-      side: side as any,
+      ...AsterApiClient.exitOrder(position),
       type: 'TAKE_PROFIT_MARKET',
       quantity: formattedQuantity,
+      stopPrice: formattedPrice
+    };
+
+    return this.createOrder(orderParams);
+  }
+
+  /**
+   * Place a TP or SL leg that closes the whole position when triggered.
+   * closePosition orders can never open a new position in the other direction.
+   * In hedge mode the closing side implies the leg unless positionSide names it.
+   */
+  async setClosePositionTrigger(
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    type: 'STOP_MARKET' | 'TAKE_PROFIT_MARKET',
+    stopPrice: number,
+    positionSide?: 'LONG' | 'SHORT'
+  ): Promise<OrderResponse> {
+    const formattedPrice = await this.formatPriceWithPrecision(symbol, stopPrice);
+
+    return this.createOrder({
+      symbol,
+      side,
+      positionSide,
+      type,
       stopPrice: formattedPrice,
-      reduceOnly: true
+      closePosition: true,
+      workingType: 'MARK_PRICE'
+    });
+  }
+
+  /**
+   * Whether the exchange lists an order type for a futures symbol
+   */
+  async supportsOrderType(symbol: string, orderType: NewOrderRequest['type']): Promise<boolean> {
+    const exchangeInfo = await this.getExchangeInfo();
+    const symbolInfo = exchangeInfo.symbols.find(s => s.symbol === symbol);
+    return symbolInfo?.orderTypes?.includes(orderType) ?? false;
+  }
+
+  /**
+   * Place a native trailing stop that follows the mark price by callbackRate percent
+   */
+  async setTrailingStop(
+    symbol: string,
+    callbackRate: number,
+    activationPrice?: number,
+    percentage?: number,
+    positionSide?: 'LONG' | 'SHORT'
+  ): Promise<OrderResponse> {
+    const positions = await this.getPositionRisk();
+    const position = AsterApiClient.findPosition(positions, symbol, positionSide);
+    
+    if (!position) {
+      throw new Error(`No open ${positionSide ? positionSide + ' ' : ''}position found for ${symbol}`);
+    }
+
+    const positionAmt = Math.abs(parseFloat(position.positionAmt));
+    const rawQuantity = percentage ? (positionAmt * percentage / 100) : positionAmt;
+
+    const formattedQuantity = await this.formatQuantityWithPrecision(symbol, rawQuantity);
+
+    const orderParams: Partial<NewOrderRequest> = {
+      symbol,
+      ...AsterApiClient.exitOrder(position),
+      type: 'TRAILING_STOP_MARKET',
+      quantity: formattedQuantity,
+      callbackRate: callbackRate.toString(),
+      workingType: 'MARK_PRICE'
     };
 
+    if (activationPrice) {
+      orderParams.activationPrice = await this.formatPriceWithPrecision(symbol, activationPrice);
+    }
+
     return this.createOrder(orderParams);
   }
 
@@ -437,7 +686,7 @@ export class AsterApiClient {
     quoteVolume: string;
     priceChangePercent: string;
   }>> {
-    const spotBaseUrl = 'https://sapi.asterdex.com';
+    const spotBaseUrl = SPOT_BASE_URL;
     const spotAxios = axios.create({ 
       baseURL: spotBaseUrl,
       headers: {
@@ -486,7 +735,8 @@ export class AsterApiClient {
     quoteOrderQty?: string;
     price?: string;
     stopPrice?: string;
-    timeInForce?: 'GTC' | 'IOC' | 'FOK';
+    timeInForce?: 'GTC' | 'IOC' | 'FOK' | 'GTX';
+    newClientOrderId?: string;
   }): Promise<any> {
     // Validate symbol exists on spot exchange
     const isValidSymbol = await this.validateSpotSymbol(orderParams.symbol);
@@ -502,7 +752,7 @@ export class AsterApiClient {
     }
     
     // Use spot API base URL and endpoint
-    const spotBaseUrl = 'https://sapi.asterdex.com';
+    const spotBaseUrl = SPOT_BASE_URL;
     
     // Create proper request with signed parameters
     const signedRequest = AsterSigner.signPostRequest('/api/v1/order', orderParams, this.apiSecret);
@@ -526,7 +776,7 @@ export class AsterApiClient {
 
   async getSpotAccount(): Promise<{ balances: Array<{ asset: string; free: string; locked: string }> }> {
     // Use spot API base URL and endpoint
-    const spotBaseUrl = 'https://sapi.asterdex.com';
+    const spotBaseUrl = SPOT_BASE_URL;
     const signedRequest = AsterSigner.signGetRequest('/api/v1/account', {}, this.apiSecret);
     
     // Create axios instance for spot API
@@ -547,7 +797,7 @@ export class AsterApiClient {
 
   async getSpotExchangeInfo(): Promise<any> {
     // Get spot exchange info to validate symbols
-    const spotBaseUrl = 'https://sapi.asterdex.com';
+    const spotBaseUrl = SPOT_BASE_URL;
     const spotAxios = axios.create({ 
       baseURL: spotBaseUrl,
       headers: {
@@ -565,6 +815,116 @@ export class AsterApiClient {
     }
   }
 
+  async getSpotOrderBook(symbol: string, limit = 100): Promise<OrderBookDepth> {
+    const spotBaseUrl = SPOT_BASE_URL;
+    const spotAxios = axios.create({ 
+      baseURL: spotBaseUrl,
+      headers: {
+        'X-MBX-APIKEY': this.apiKey,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    try {
+      console.log(`[SPOT API] GET /api/v1/depth?symbol=${symbol}&limit=${limit}`);
+      const response = await spotAxios.get<OrderBookDepth>('/api/v1/depth', {
+        params: { symbol, limit }
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`[SPOT API] Failed to get order book for ${symbol}:`, error);
+      throw error;
+    }
+  }
+
+  async getSpotUserTrades(symbol: string, limit = 500): Promise<any[]> {
+    const spotBaseUrl = SPOT_BASE_URL;
+    const signedRequest = AsterSigner.signGetRequest('/api/v1/userTrades', { symbol, limit: limit.toString() }, this.apiSecret);
+    
+    const spotAxios = axios.create({ 
+      baseURL: spotBaseUrl,
+      headers: {
+        'X-MBX-APIKEY': this.apiKey,
+        'Content-Type': 'application/json'
+      }
+    });
+    
+    const response = await spotAxios.get<any[]>(`/api/v1/userTrades?${signedRequest.url.split('?')[1]}`);
+    return response.data;
+  }
+
+  async getSpotOpenOrders(symbol?: string): Promise<any[]> {
+    const spotBaseUrl = SPOT_BASE_URL;
+    const signedRequest = AsterSigner.signGetRequest('/api/v1/openOrders', symbol ? { symbol } : {}, this.apiSecret);
+
+    const spotAxios = axios.create({ 
+      baseURL: spotBaseUrl,
+      headers: {
+        'X-MBX-APIKEY': this.apiKey,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    const response = await spotAxios.get<any[]>(`/api/v1/openOrders?${signedRequest.url.split('?')[1]}`);
+    return response.data;
+  }
+
+  async getSpotOrder(symbol: string, orderId: number): Promise<any> {
+    const spotBaseUrl = SPOT_BASE_URL;
+    const signedRequest = AsterSigner.signGetRequest('/api/v1/order', { symbol, orderId }, this.apiSecret);
+
+    const spotAxios = axios.create({ 
+      baseURL: spotBaseUrl,
+      headers: {
+        'X-MBX-APIKEY': this.apiKey,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    const response = await spotAxios.get(`/api/v1/order?${signedRequest.url.split('?')[1]}`);
+    return response.data;
+  }
+
+  async cancelSpotOrder(symbol: string, orderId?: number, clientOrderId?: string): Promise<any> {
+    if (!orderId && !clientOrderId) {
+      throw new Error('Either orderId or clientOrderId must be provided');
+    }
+
+    const params: any = { symbol };
+    if (orderId) params.orderId = orderId;
+    if (clientOrderId) params.origClientOrderId = clientOrderId;
+
+    const spotBaseUrl = SPOT_BASE_URL;
+    const signedRequest = AsterSigner.signDeleteRequest('/api/v1/order', params, this.apiSecret);
+
+    const spotAxios = axios.create({ 
+      baseURL: spotBaseUrl,
+      headers: {
+        'X-MBX-APIKEY': this.apiKey,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    const response = await spotAxios.delete(`/api/v1/order?${signedRequest.url.split('?')[1]}`);
+    return response.data;
+  }
+
+  async cancelAllSpotOrders(symbol: string): Promise<any> {
+    const spotBaseUrl = SPOT_BASE_URL;
+    const signedRequest = AsterSigner.signDeleteRequest('/api/v1/allOpenOrders', { symbol }, this.apiSecret);
+
+    const spotAxios = axios.create({ 
+      baseURL: spotBaseUrl,
+      headers: {
+        'X-MBX-APIKEY': this.apiKey,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    const response = await spotAxios.delete(`/api/v1/allOpenOrders?${signedRequest.url.split('?')[1]}`);
+    return response.data;
+  }
+
   async validateSpotSymbol(symbol: string): Promise<boolean> {
     try {
       const exchangeInfo = await this.getSpotExchangeInfo();
@@ -578,7 +938,7 @@ export class AsterApiClient {
 
   async placeSpotOrder(orderRequest: NewOrderRequest): Promise<OrderResponse> {
     // Use spot API base URL and endpoint
-    const spotBaseUrl = 'https://sapi.asterdex.com';
+    const spotBaseUrl = SPOT_BASE_URL;
     const signedRequest = AsterSigner.signPostRequest('/api/v1/order', {
       symbol: orderRequest.symbol,
       side: orderRequest.side,
@@ -632,7 +992,7 @@ export class AsterApiClient {
    * Format quantity to exchange precision requirements
    * This prevents "Precision is over the maximum defined" errors
    */
-  private async formatQuantityWithPrecision(symbol: string, rawQuantity: number): Promise<string> {
+  async formatQuantityWithPrecision(symbol: string, rawQuantity: number): Promise<string> {
     try {
       const exchangeInfo = await this.getExchangeInfo();
       const symbolInfo = exchangeInfo.symbols.find((s: any) => s.symbol === symbol);
@@ -663,7 +1023,7 @@ export class AsterApiClient {
    * Format price to exchange precision requirements for TP/SL orders
    * This prevents "Precision is over the maximum defined" errors for prices
    */
-  private async formatPriceWithPrecision(symbol: string, rawPrice: number): Promise<string> {
+  async formatPriceWithPrecision(symbol: string, rawPrice: number): Promise<string> {
     try {
       const exchangeInfo = await this.getExchangeInfo();
       const symbolInfo = exchangeInfo.symbols.find((s: any) => s.symbol === symbol);
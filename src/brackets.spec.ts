@@ -0,0 +1,241 @@
+import { AsterApiClient } from './aster';
+import { DatabaseManager } from './db';
+import { ApiClientService } from './services/ApiClientService';
+import { BracketService } from './services/BracketService';
+import { OpenOrdersService } from './services/OpenOrdersService';
+import { OrderBracket } from './types';
+
+/**
+ * Bracket rows as order_brackets holds them, for one user whose mode can be switched
+ */
+class FakeBracketStore {
+  readonly brackets: OrderBracket[] = [];
+  paperMode = false;
+  // A copy of the rows taken before a relink, to replay a sweep that read them too early
+  staleSnapshot: OrderBracket[] | null = null;
+
+  add(fields: Pick<OrderBracket, 'id' | 'tp_order_id' | 'sl_order_id' | 'paper'>): OrderBracket {
+    const bracket: OrderBracket = {
+      user_id: 1,
+      symbol: 'BTCUSDT',
+      position_side: 'LONG',
+      status: 'active',
+      created_at: new Date(),
+      updated_at: new Date(),
+      ...fields
+    };
+    this.brackets.push(bracket);
+    return bracket;
+  }
+
+  async getActiveBrackets(): Promise<Array<OrderBracket & { tg_id: number }>> {
+    const rows = this.staleSnapshot ?? this.brackets;
+    return rows.filter(b => b.status === 'active' && b.paper === this.paperMode).map(b => ({ ...b, tg_id: 100 }));
+  }
+
+  async getUserActiveBrackets(userId: number, symbol?: string, paper?: boolean): Promise<OrderBracket[]> {
+    return this.brackets.filter(b =>
+      b.user_id === userId && b.status === 'active' && b.paper === (paper ?? this.paperMode) && (!symbol || b.symbol === symbol)
+    );
+  }
+
+  async closeBracket(id: number, status: OrderBracket['status'], legs?: Pick<OrderBracket, 'tp_order_id' | 'sl_order_id'>): Promise<boolean> {
+    const bracket = this.brackets.find(b => b.id === id && b.status === 'active');
+    if (!bracket) return false;
+    if (legs && (legs.tp_order_id !== bracket.tp_order_id || legs.sl_order_id !== bracket.sl_order_id)) return false;
+    bracket.status = status;
+    return true;
+  }
+
+  async relinkAmendedOrder(userId: number, market: string, symbol: string, previousOrderId: string, orderId: string): Promise<number> {
+    let relinked = 0;
+    for (const bracket of this.brackets.filter(b => b.status === 'active')) {
+      if (bracket.tp_order_id === previousOrderId) { bracket.tp_order_id = orderId; relinked++; }
+      if (bracket.sl_order_id === previousOrderId) { bracket.sl_order_id = orderId; relinked++; }
+    }
+    return relinked;
+  }
+
+  async updateOrderStatus(): Promise<void> {}
+  async getOrderByClientId(): Promise<null> { return null; }
+  async isPaperMode(): Promise<boolean> { return this.paperMode; }
+  async storeOrder(): Promise<void> {}
+}
+
+/**
+ * A futures account holding one long BTCUSDT position and its resting orders
+ */
+class FakeExchange {
+  readonly orders = new Map<number, any>();
+  readonly cancelled: number[] = [];
+  private nextOrderId = 500;
+  // Runs between the cancel and the reply, as a concurrent sweep would
+  onCancel: (() => Promise<void>) | null = null;
+
+  rest(orderId: number, type: string, stopPrice: string): void {
+    this.orders.set(orderId, {
+      symbol: 'BTCUSDT', orderId, clientOrderId: `bot_${orderId}`, side: 'SELL', type, price: '0', stopPrice,
+      origQty: '0', executedQty: '0', timeInForce: 'GTC', reduceOnly: true, closePosition: true, status: 'NEW'
+    });
+  }
+
+  async getOpenOrders(symbol?: string): Promise<any[]> {
+    return [...this.orders.values()].filter(o => !symbol || o.symbol === symbol);
+  }
+
+  async getPositionRisk(): Promise<any[]> {
+    return [{ symbol: 'BTCUSDT', positionAmt: '0.010', entryPrice: '50000', positionSide: 'BOTH' }];
+  }
+
+  async getExchangeInfo(): Promise<any> {
+    return { symbols: [] };
+  }
+
+  async cancelOrder(symbol: string, orderId: number): Promise<any> {
+    const order = this.orders.get(orderId);
+    this.orders.delete(orderId);
+    this.cancelled.push(orderId);
+    if (this.onCancel) await this.onCancel();
+    return { ...order, status: 'CANCELED' };
+  }
+
+  async createOrder(params: any): Promise<any> {
+    const orderId = this.nextOrderId++;
+    this.rest(orderId, params.type, String(params.stopPrice));
+    return { ...this.orders.get(orderId), clientOrderId: params.newClientOrderId };
+  }
+}
+
+class BracketsValidator {
+  private results: Array<{ test: string; status: 'PASS' | 'FAIL'; message: string }> = [];
+
+  private log(test: string, passed: boolean, message: string): void {
+    this.results.push({ test, status: passed ? 'PASS' : 'FAIL', message });
+    console.log(`${passed ? '✅' : '❌'} ${test}: ${message}`);
+  }
+
+  private setup() {
+    const store = new FakeBracketStore();
+    const live = new FakeExchange();
+    const paper = new FakeExchange();
+    const clients = {
+      getOrCreateClient: async () => (store.paperMode ? paper : live),
+      getClientForMode: async (userId: number, isPaper: boolean) => (isPaper ? paper : live)
+    };
+    const service = new BracketService(store as unknown as DatabaseManager, clients as unknown as ApiClientService);
+    return { store, live, paper, service };
+  }
+
+  async runAll(): Promise<boolean> {
+    console.log('🧪 Bracket Tests\n');
+
+    const legs = [
+      BracketService.legPrice(50000, 2, 'LONG', 'tp'),
+      BracketService.legPrice(50000, 1, 'LONG', 'sl'),
+      BracketService.legPrice(50000, 2, 'SHORT', 'tp'),
+      BracketService.legPrice(50000, 1, 'SHORT', 'sl')
+    ];
+    this.log(
+      'Legs sit on the right side of the entry',
+      legs[0] === 51000 && legs[1] === 49500 && legs[2] === 49000 && legs[3] === 50500,
+      legs.join(', ')
+    );
+
+    {
+      const { store, live, paper, service } = this.setup();
+      const bracket = store.add({ id: 1, tp_order_id: '11', sl_order_id: '12', paper: true });
+      paper.rest(11, 'TAKE_PROFIT_MARKET', '51000');
+      paper.rest(12, 'STOP_MARKET', '49500');
+
+      const resolution = await service.handleLegFilled(1, 'BTCUSDT', '11', true);
+      this.log(
+        'Paper fill resolves its bracket after switching to live',
+        resolution?.cancelledOrderId === '12' && bracket.status === 'closed'
+          && paper.cancelled.includes(12) && live.cancelled.length === 0,
+        `status=${bracket.status} paper=[${paper.cancelled}] live=[${live.cancelled}]`
+      );
+    }
+
+    {
+      const { store, live, service } = this.setup();
+      store.paperMode = true;
+      const bracket = store.add({ id: 2, tp_order_id: '21', sl_order_id: '22', paper: true });
+
+      const resolution = await service.handleLegFilled(1, 'BTCUSDT', '21', false);
+      this.log(
+        'Live fill leaves a paper bracket with the same IDs alone',
+        resolution === null && bracket.status === 'active' && live.cancelled.length === 0,
+        `status=${bracket.status}`
+      );
+    }
+
+    {
+      const { store, live, service } = this.setup();
+      const bracket = store.add({ id: 3, tp_order_id: '31', sl_order_id: '32', paper: false });
+      live.rest(31, 'TAKE_PROFIT_MARKET', '51000');
+      live.rest(32, 'STOP_MARKET', '49500');
+
+      let sweptMidAmend = -1;
+      live.onCancel = async () => {
+        sweptMidAmend = await service.sweep();
+      };
+      const amend = await new OpenOrdersService(store as unknown as DatabaseManager, live as unknown as AsterApiClient)
+        .amendPrice(1, 'perps', 'BTCUSDT', 32, 49000);
+      live.onCancel = null;
+      const sweptAfter = await service.sweep();
+
+      this.log(
+        'Sweep during an amend keeps the bracket',
+        sweptMidAmend === 0 && sweptAfter === 0 && bracket.status === 'active'
+          && bracket.sl_order_id === String(amend.response.orderId),
+        `mid=${sweptMidAmend} after=${sweptAfter} sl=${bracket.sl_order_id}`
+      );
+    }
+
+    {
+      const { store, live, service } = this.setup();
+      const bracket = store.add({ id: 4, tp_order_id: '41', sl_order_id: '42', paper: false });
+      store.staleSnapshot = [{ ...bracket }];
+      live.rest(41, 'TAKE_PROFIT_MARKET', '51000');
+      live.rest(43, 'STOP_MARKET', '49000');
+      bracket.sl_order_id = '43';
+
+      const swept = await service.sweep();
+      this.log(
+        'Sweep that read the legs before a relink keeps the bracket',
+        swept === 0 && bracket.status === 'active',
+        `closed=${swept} status=${bracket.status}`
+      );
+    }
+
+    {
+      const { store, live, service } = this.setup();
+      const bracket = store.add({ id: 5, tp_order_id: '51', sl_order_id: '52', paper: false });
+      live.rest(51, 'TAKE_PROFIT_MARKET', '51000');
+
+      const swept = await service.sweep();
+      this.log(
+        'Leg cancelled by hand still ends the bracket',
+        swept === 1 && bracket.status === 'cancelled' && !live.cancelled.includes(51),
+        `closed=${swept} status=${bracket.status}`
+      );
+    }
+
+    const passed = this.results.filter(r => r.status === 'PASS').length;
+    console.log(`\n🎯 ${passed}/${this.results.length} passed`);
+    return passed === this.results.length;
+  }
+}
+
+// Main execution
+async function main() {
+  const validator = new BracketsValidator();
+  const allPassed = await validator.runAll();
+  process.exitCode = allPassed ? 0 : 1;
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export { BracketsValidator };
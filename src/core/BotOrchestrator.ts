@@ -1,15 +1,39 @@
-import { Telegraf, Markup } from 'telegraf';
+import { Telegraf, Markup, MiddlewareFn } from 'telegraf';
 import express from 'express';
 
-import { BotConfig } from '../types';
+import { BotConfig, LadderDraft, LadderSpacing, LadderWeighting, LimitOrderDraft, LimitTimeInForce, OrderHistoryFilters, OrderResponse, PanicMode, PendingMarginAdjust, PendingMarketOrder, PendingPinAction, RiskSizingDraft, TradeCommand, TradePreview, UserSettings } from '../types';
 import { DatabaseManager } from '../db';
+import { AsterApiClient } from '../aster';
 import { EncryptionManager } from '../encryption';
-import { BotEventEmitter, EventTypes } from '../events/EventEmitter';
+import { AccountStreamEvent, BotEventEmitter, EventTypes, MarginAlertEvent, MarginCallStreamEvent, OrderStreamEvent, PriceAlertEvent, SpotExitEvent } from '../events/EventEmitter';
 import { AuthMiddleware, BotContext } from '../middleware/AuthMiddleware';
 import { NavigationHandler } from '../handlers/NavigationHandler';
 import { TradingHandler } from '../handlers/TradingHandler';
 import { ApiClientService } from '../services/ApiClientService';
 import { PriceService } from '../services/PriceService';
+import { MarketOrderCheck, PriceGuardService } from '../services/PriceGuardService';
+import { DailyLossService } from '../services/DailyLossService';
+import { OrderHistoryService, OrderRecordInput } from '../services/OrderHistoryService';
+import { IdempotencyService } from '../services/IdempotencyService';
+import { FlattenProgress, PanicService } from '../services/PanicService';
+import { UserDataStreamService } from '../services/UserDataStreamService';
+import { AlertService } from '../services/AlertService';
+import { WatchlistService } from '../services/WatchlistService';
+import { LimitOrderService, LimitPricePreset } from '../services/LimitOrderService';
+import { LadderService } from '../services/LadderService';
+import { RiskSizingService } from '../services/RiskSizingService';
+import { LeveragePolicyService } from '../services/LeveragePolicyService';
+import { OpenOrdersService } from '../services/OpenOrdersService';
+import { TrailingStopPlacement, TrailingStopService } from '../services/TrailingStopService';
+import { BracketService } from '../services/BracketService';
+import { SpotExitService } from '../services/SpotExitService';
+import { TpLadderService } from '../services/TpLadderService';
+import { MarginRiskService, PositionMarginMetrics } from '../services/MarginRiskService';
+import { PaperTradingService } from '../services/PaperTradingService';
+import { TradeParser, TradePreviewGenerator } from '../tradeparser';
+import { SettingsUpdateRequest } from '../settings';
+import { FiltersManager } from '../filters';
+import { PriceProtectionManager } from '../priceguard';
 
 /**
  * Main orchestrator that wires together all components
@@ -31,6 +55,14 @@ export class BotOrchestrator {
   // Services
   private apiClientService!: ApiClientService;
   private priceService!: PriceService;
+  private userDataStreamService!: UserDataStreamService;
+  private alertService!: AlertService;
+  private trailingStopService!: TrailingStopService;
+  private bracketService!: BracketService;
+  private spotExitService!: SpotExitService;
+  private tpLadderService!: TpLadderService;
+  private marginRiskService!: MarginRiskService;
+  private paperTradingService!: PaperTradingService;
   private publicApiClient!: any;
   
   // Handlers
@@ -63,6 +95,12 @@ export class BotOrchestrator {
    * Initialize business services
    */
   private initializeServices(): void {
+    this.paperTradingService = new PaperTradingService(
+      this.db,
+      new AsterApiClient(this.config.aster.baseUrl, '', ''),
+      this.eventEmitter
+    );
+
     this.apiClientService = new ApiClientService(
       this.db,
       this.encryption,
@@ -70,10 +108,25 @@ export class BotOrchestrator {
         baseUrl: this.config.aster.baseUrl,
         defaultRecvWindow: this.config.aster.defaultRecvWindow
       },
-      this.eventEmitter
+      this.eventEmitter,
+      this.paperTradingService
     );
     
     this.priceService = new PriceService(this.eventEmitter);
+
+    this.userDataStreamService = new UserDataStreamService(
+      this.db,
+      this.apiClientService,
+      this.eventEmitter,
+      { wsUrl: this.config.aster.wsUrl }
+    );
+
+    this.alertService = new AlertService(this.db, this.priceService, this.eventEmitter);
+    this.trailingStopService = new TrailingStopService(this.db, this.apiClientService, this.priceService);
+    this.bracketService = new BracketService(this.db, this.apiClientService);
+    this.spotExitService = new SpotExitService(this.db, this.apiClientService, this.priceService, this.eventEmitter);
+    this.tpLadderService = new TpLadderService(this.db, this.apiClientService);
+    this.marginRiskService = new MarginRiskService(this.db, this.apiClientService, this.eventEmitter);
     
     console.log('[Orchestrator] Business services initialized');
   }
@@ -128,10 +181,14 @@ export class BotOrchestrator {
    * Setup Telegram bot with middleware and handlers
    */
   private setupBot(): void {
-    this.bot = new Telegraf<BotContext>(this.config.telegram.token);
+    this.bot = new Telegraf<BotContext>(
+      this.config.telegram.token,
+      this.config.telegram.apiRoot ? { telegram: { apiRoot: this.config.telegram.apiRoot } } : {}
+    );
     
     // Global middleware
     this.bot.use(this.authMiddleware.middleware());
+    this.bot.use(this.paperBannerMiddleware());
     
     // Commands
     this.setupCommands();
@@ -231,10 +288,118 @@ export class BotOrchestrator {
     this.eventEmitter.onEvent(EventTypes.API_CALL_FAILED, (event: any) => {
       console.warn(`[API] Failed: ${event.method} ${event.endpoint} (${event.duration}ms)`);
     });
+
+    // User data stream lifecycle
+    this.eventEmitter.onEvent(EventTypes.USER_LINKED, async (event: any) => {
+      // Paper mode gets its fills from the simulator; the stream starts when the user switches back
+      if (await this.db.isPaperMode(event.userId)) return;
+      this.userDataStreamService.start(event.userId, event.telegramId).catch(error =>
+        console.error(`[UserDataStream] Failed to start stream for user ${event.userId}:`, error)
+      );
+    });
+
+    // User data stream notifications. Market fills are skipped because the
+    // bot already confirms them in chat when they are placed.
+    this.eventEmitter.onEvent<OrderStreamEvent>(EventTypes.ORDER_FILLED, async (event) => {
+      if (event.order.o === 'MARKET') return;
+      await this.notifyUser(event.telegramId, this.userDataStreamService.formatFillNotification(event.order), {}, event.paper);
+    });
+
+    this.eventEmitter.onEvent<OrderStreamEvent>(EventTypes.PROTECTIVE_ORDER_TRIGGERED, async (event) => {
+      await this.notifyUser(event.telegramId, this.userDataStreamService.formatProtectiveNotification(event.order), {}, event.paper);
+      await this.recordBackgroundRealizedPnl(event, parseFloat(event.order.rp || '0'));
+
+      const resolution = await this.bracketService.handleLegFilled(event.userId, event.order.s, String(event.order.i), event.paper);
+      if (resolution) {
+        await this.notifyUser(event.telegramId, this.bracketService.formatSiblingCancelled(resolution), {}, event.paper);
+      }
+    });
+
+    // Positions closed by hand or liquidated take their TP/SL bracket with them
+    this.eventEmitter.onEvent<AccountStreamEvent>(EventTypes.ACCOUNT_UPDATED, async (event) => {
+      for (const position of event.account.P.filter(p => parseFloat(p.pa) === 0)) {
+        await this.bracketService.handlePositionClosed(event.userId, position.s, position.ps, event.paper);
+      }
+    });
+
+    this.eventEmitter.onEvent<OrderStreamEvent>(EventTypes.POSITION_LIQUIDATED, async (event) => {
+      await this.notifyUser(event.telegramId, this.userDataStreamService.formatLiquidationNotification(event.order), {}, event.paper);
+      await this.recordBackgroundRealizedPnl(event, parseFloat(event.order.rp || '0'));
+    });
+
+    this.eventEmitter.onEvent<MarginCallStreamEvent>(EventTypes.MARGIN_CALL, async (event) => {
+      await this.notifyUser(event.telegramId, this.userDataStreamService.formatMarginCallNotification(event.positions));
+    });
+
+    this.eventEmitter.onEvent<MarginAlertEvent>(EventTypes.MARGIN_RATIO_ALERT, async (event) => {
+      await this.notifyUser(
+        event.telegramId,
+        this.marginRiskService.formatAlertNotification(event),
+        Markup.inlineKeyboard([
+          [
+            Markup.button.callback('📊 Positions', 'positions'),
+            Markup.button.callback('⚠️ Alert Levels', 'margin_alerts')
+          ]
+        ])
+      );
+    });
+
+    this.eventEmitter.onEvent<SpotExitEvent>(EventTypes.SPOT_EXIT_CLOSED, async (event) => {
+      await this.notifyUser(event.telegramId, this.spotExitService.formatClosedNotification(event), {}, event.paper);
+
+      const realizedPnl = SpotExitService.realizedPnl(event);
+      if (realizedPnl !== undefined) {
+        await this.recordBackgroundRealizedPnl(event, realizedPnl);
+      }
+    });
+
+    // Price alerts
+    this.eventEmitter.onEvent<PriceAlertEvent>(EventTypes.PRICE_ALERT_TRIGGERED, async (event) => {
+      await this.notifyUser(
+        event.telegramId,
+        this.alertService.formatTriggeredNotification(event.alert, event.value),
+        Markup.inlineKeyboard([
+          [
+            Markup.button.callback('📊 View Price', `price_token_${event.alert.symbol}`),
+            Markup.button.callback('🔔 My Alerts', 'alerts_list')
+          ]
+        ])
+      );
+    });
     
     console.log('[Orchestrator] Event listeners setup complete');
   }
 
+  /**
+   * Label every message sent to a user in paper mode so simulated balances and fills
+   * can't be mistaken for the real account. The mode is read when the message goes
+   * out, so a reply sent right after toggling already reflects the new mode.
+   */
+  private paperBannerMiddleware(): MiddlewareFn<BotContext> {
+    return (ctx, next) => {
+      const label = (text: unknown) =>
+        ctx.userState?.isPaper && typeof text === 'string' ? BotOrchestrator.withPaperLabel(text) : text;
+
+      const reply = ctx.reply.bind(ctx);
+      ctx.reply = ((text: string, extra?: any) => reply(label(text) as string, extra)) as typeof ctx.reply;
+
+      const editMessageText = ctx.editMessageText.bind(ctx);
+      ctx.editMessageText = ((text: string, extra?: any) => editMessageText(label(text) as string, extra)) as typeof ctx.editMessageText;
+
+      const telegram = Object.create(ctx.telegram) as typeof ctx.telegram;
+      const editViaApi = ctx.telegram.editMessageText.bind(ctx.telegram);
+      telegram.editMessageText = ((chatId: any, messageId: any, inlineMessageId: any, text: string, extra?: any) =>
+        editViaApi(chatId, messageId, inlineMessageId, label(text) as string, extra)) as typeof telegram.editMessageText;
+      Object.defineProperty(ctx, 'telegram', { value: telegram });
+
+      return next();
+    };
+  }
+
+  private static withPaperLabel(text: string): string {
+    return `🧪 PAPER MODE — simulated funds\n\n${text}`;
+  }
+
   /**
    * Setup bot commands
    */
@@ -269,6 +434,11 @@ export class BotOrchestrator {
       this.handleSettingsCommand(ctx)
     );
 
+    // Paper trading command
+    this.bot.command('paper', (ctx) => 
+      this.showPaperMenu(ctx)
+    );
+
     // Buy command
     this.bot.command('buy', (ctx) => 
       this.handleBuyCommand(ctx)
@@ -284,6 +454,25 @@ export class BotOrchestrator {
       this.handlePositionsCommand(ctx)
     );
 
+    // Orders command - order history
+    this.bot.command('orders', (ctx) => 
+      this.handleOrdersCommand(ctx)
+    );
+
+    // Open orders command - resting orders with cancel and amend
+    this.bot.command('openorders', (ctx) => 
+      this.showOpenOrders(ctx)
+    );
+
+    // Alert commands - create and manage price alerts
+    this.bot.command('alert', (ctx) => 
+      this.handleAlertCommand(ctx)
+    );
+
+    this.bot.command('alerts', (ctx) => 
+      this.showAlerts(ctx)
+    );
+
     // Balance command
     this.bot.command('balance', (ctx) => 
       this.handleBalanceCommand(ctx)
@@ -450,6 +639,89 @@ export class BotOrchestrator {
       this.handleTradeCancellation(ctx)
     );
 
+    // Price protection confirmation flow
+    this.bot.action('guard_confirm', (ctx) => 
+      this.handlePriceGuardConfirmation(ctx)
+    );
+
+    this.bot.action('guard_cancel', (ctx) => 
+      this.handlePriceGuardCancellation(ctx)
+    );
+
+    this.bot.action('pin_cancel', (ctx) => 
+      this.handlePinCancellation(ctx)
+    );
+
+    // Admin panic confirmations
+    this.bot.action('panic_arm', (ctx) => 
+      this.handlePanicArm(ctx)
+    );
+
+    this.bot.action('panic_execute', (ctx) => 
+      this.handlePanicExecute(ctx)
+    );
+
+    this.bot.action('panic_cancel', (ctx) => 
+      this.handlePanicCancel(ctx)
+    );
+
+    // Price alerts
+    this.bot.action('alerts_list', (ctx) => 
+      this.showAlerts(ctx)
+    );
+
+    this.bot.action(/^alert_(pause|resume|delete)_(\d+)$/, (ctx) => 
+      this.handleAlertAction(ctx, ctx.match[1] as 'pause' | 'resume' | 'delete', parseInt(ctx.match[2], 10))
+    );
+
+    this.bot.action(/^alert_quick_([A-Z0-9]+USDT)_(up|down)$/, (ctx) => 
+      this.handleQuickAlert(ctx, ctx.match[1], ctx.match[2] as 'up' | 'down')
+    );
+
+    // Open orders: oo_{cancel|amend}_{market}_{symbol}_{orderId} and oo_cancelall_{market}_{symbol}
+    this.bot.action('open_orders', (ctx) => 
+      this.showOpenOrders(ctx)
+    );
+
+    this.bot.action(/^oo_cancel_(spot|perps)_([A-Z0-9]+)_(\d+)$/, (ctx) => 
+      this.handleOpenOrderCancel(ctx, ctx.match[1] as 'spot' | 'perps', ctx.match[2], parseInt(ctx.match[3], 10))
+    );
+
+    this.bot.action(/^oo_cancelall_(spot|perps)_([A-Z0-9]+)$/, (ctx) => 
+      this.handleOpenOrderCancelAll(ctx, ctx.match[1] as 'spot' | 'perps', ctx.match[2])
+    );
+
+    this.bot.action(/^oo_amend_(spot|perps)_([A-Z0-9]+)_(\d+)$/, (ctx) => 
+      this.handleOpenOrderAmend(ctx, ctx.match[1] as 'spot' | 'perps', ctx.match[2], parseInt(ctx.match[3], 10))
+    );
+
+    this.bot.action('oo_amend_cancel', (ctx) => 
+      this.handleOpenOrderAmendCancel(ctx)
+    );
+
+    this.bot.action(/^spx_cancel_(\d+)$/, (ctx) => 
+      this.handleSpotExitStopCancel(ctx, parseInt(ctx.match[1], 10))
+    );
+
+    // Order history pagination: orders_page_{page}_{symbol}_{side}_{market}
+    this.bot.action(/^orders_page_(\d+)_([A-Z0-9-]+)_(BUY|SELL|-)_(spot|perps|-)$/, (ctx) => {
+      const filters = OrderHistoryService.decodeFilters(ctx.match[2], ctx.match[3], ctx.match[4]);
+      this.showOrderHistory(ctx, filters, parseInt(ctx.match[1]));
+    });
+
+    // Close all positions (confirm, then PIN when set)
+    this.bot.action('close_all_positions', (ctx) => 
+      this.handleCloseAllPositions(ctx)
+    );
+
+    this.bot.action('confirm_close_all', (ctx) => 
+      this.handleConfirmCloseAll(ctx)
+    );
+
+    this.bot.action('export_settings', (ctx) => 
+      this.handleExportSettings(ctx)
+    );
+
     // Basic trade actions
     this.bot.action('trade_buy', (ctx) => 
       this.navigationHandler.showTradingMenu(ctx)
@@ -484,49 +756,84 @@ export class BotOrchestrator {
     // Position management handlers
     this.bot.action(/^position_(.+)_(.+)$/, (ctx) => {
       const action = ctx.match[1];
-      const symbol = ctx.match[2];
-      this.handlePositionAction(ctx, action, symbol);
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[2]);
+      this.handlePositionAction(ctx, action, symbol, positionSide);
     });
 
+    // Isolated margin add/reduce
+    this.bot.action(/^margin_amt_(\d+(?:\.\d+)?)$/, (ctx) => 
+      this.handleMarginAmountPreset(ctx, parseFloat(ctx.match[1]))
+    );
+
+    this.bot.action('margin_confirm', (ctx) => 
+      this.handleMarginConfirm(ctx)
+    );
+
+    this.bot.action('margin_cancel', (ctx) => 
+      this.handleMarginCancel(ctx)
+    );
+
     // Refresh position P&L handler
     this.bot.action(/^refresh_position_(.+)$/, (ctx) => {
-      const symbol = ctx.match[1];
-      this.handleRefreshPosition(ctx, symbol);
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
+      this.handleRefreshPosition(ctx, symbol, positionSide);
     });
 
     // TP/SL action handlers
-    this.bot.action(/^sl_set_([A-Z0-9]+USDT)_([0-9.]+)_(\d+)$/, (ctx) => {
-      const symbol = ctx.match[1];
+    // Position callbacks carry SYMBOL or, for one leg of a hedged symbol, SYMBOL-LONG / SYMBOL-SHORT
+    this.bot.action(/^sl_set_([A-Z0-9]+USDT(?:-LONG|-SHORT)?)_([0-9.]+)_(\d+)$/, (ctx) => {
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
       const price = parseFloat(ctx.match[2]);
       const riskPercent = parseInt(ctx.match[3]);
-      this.handleExecuteStopLoss(ctx, symbol, price, riskPercent);
+      this.handleExecuteStopLoss(ctx, symbol, price, riskPercent, positionSide);
     });
 
-    this.bot.action(/^tp_set_([A-Z0-9]+USDT)_([0-9.]+)_(\d+)$/, (ctx) => {
-      const symbol = ctx.match[1];
+    this.bot.action(/^tp_set_([A-Z0-9]+USDT(?:-LONG|-SHORT)?)_([0-9.]+)_(\d+)$/, (ctx) => {
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
       const price = parseFloat(ctx.match[2]);
       const profitPercent = parseInt(ctx.match[3]);
-      this.handleExecuteTakeProfit(ctx, symbol, price, profitPercent);
+      this.handleExecuteTakeProfit(ctx, symbol, price, profitPercent, positionSide);
     });
 
-    this.bot.action(/^sl_custom_([A-Z0-9]+USDT)$/, (ctx) => {
-      const symbol = ctx.match[1];
-      this.handleCustomStopLoss(ctx, symbol);
+    this.bot.action(/^trail_set_([A-Z0-9]+USDT(?:-LONG|-SHORT)?)_([0-9.]+)$/, (ctx) => {
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
+      const callbackRate = parseFloat(ctx.match[2]);
+      this.handleExecuteTrailingStop(ctx, symbol, callbackRate, positionSide);
     });
 
-    this.bot.action(/^tp_custom_([A-Z0-9]+USDT)$/, (ctx) => {
-      const symbol = ctx.match[1];
-      this.handleCustomTakeProfit(ctx, symbol);
+    this.bot.action(/^trail_off_([A-Z0-9]+USDT(?:-LONG|-SHORT)?)$/, (ctx) => {
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
+      this.handleCancelTrailingStop(ctx, symbol, positionSide);
     });
 
-    this.bot.action(/^sl_market_([A-Z0-9]+USDT)$/, (ctx) => {
-      const symbol = ctx.match[1];
-      this.handleMarketStopLoss(ctx, symbol);
+    this.bot.action(/^tpl_place_([A-Z0-9]+USDT(?:-LONG|-SHORT)?)$/, (ctx) => {
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
+      this.handlePlaceTpLadder(ctx, symbol, positionSide);
     });
 
-    this.bot.action(/^tp_market_([A-Z0-9]+USDT)$/, (ctx) => {
-      const symbol = ctx.match[1];
-      this.handleMarketTakeProfit(ctx, symbol);
+    this.bot.action(/^tpl_cancel_([A-Z0-9]+USDT(?:-LONG|-SHORT)?)$/, (ctx) => {
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
+      this.handleCancelTpLadder(ctx, symbol, positionSide);
+    });
+
+    this.bot.action(/^sl_custom_([A-Z0-9]+USDT(?:-LONG|-SHORT)?)$/, (ctx) => {
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
+      this.handleCustomStopLoss(ctx, symbol, positionSide);
+    });
+
+    this.bot.action(/^tp_custom_([A-Z0-9]+USDT(?:-LONG|-SHORT)?)$/, (ctx) => {
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
+      this.handleCustomTakeProfit(ctx, symbol, positionSide);
+    });
+
+    this.bot.action(/^sl_market_([A-Z0-9]+USDT(?:-LONG|-SHORT)?)$/, (ctx) => {
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
+      this.handleMarketStopLoss(ctx, symbol, positionSide);
+    });
+
+    this.bot.action(/^tp_market_([A-Z0-9]+USDT(?:-LONG|-SHORT)?)$/, (ctx) => {
+      const { symbol, positionSide } = BotOrchestrator.parsePositionRef(ctx.match[1]);
+      this.handleMarketTakeProfit(ctx, symbol, positionSide);
     });
 
     // Spot sell percentage handlers
@@ -615,6 +922,15 @@ export class BotOrchestrator {
       this.handlePerpsTPSLSelection(ctx, symbol, action.toUpperCase() as 'BUY' | 'SELL', leverage, marginMode, percentage, 'percentage');
     });
 
+    this.bot.action(/^perps_amount_(buy|sell)_([A-Z0-9]+USDT)_(\d+)x_(cross|isolated)_(\d+)u$/, (ctx) => {
+      const action = ctx.match[1];
+      const symbol = ctx.match[2];
+      const leverage = parseInt(ctx.match[3]);
+      const marginMode = ctx.match[4] as 'cross' | 'isolated';
+      const amount = parseInt(ctx.match[5]);
+      this.handlePerpsTPSLSelection(ctx, symbol, action.toUpperCase() as 'BUY' | 'SELL', leverage, marginMode, amount, 'usdt');
+    });
+
     this.bot.action(/^spot_amount_(buy|sell)_([A-Z0-9]+USDT)_(\d+)pct$/, (ctx) => {
       const action = ctx.match[1];
       const symbol = ctx.match[2];
@@ -629,6 +945,105 @@ export class BotOrchestrator {
       }
     });
 
+    // Limit order flow: price, size, time in force, confirm
+    this.bot.action(/^limit_start_perps_(buy|sell)_([A-Z0-9]+USDT)_(\d+)x_(cross|isolated)$/, (ctx) => {
+      const side = ctx.match[1].toUpperCase() as 'BUY' | 'SELL';
+      const leverage = parseInt(ctx.match[3]);
+      const marginMode = ctx.match[4] as 'cross' | 'isolated';
+      this.handleLimitOrderStart(ctx, { market: 'perps', symbol: ctx.match[2], side, leverage, marginMode, timeInForce: 'GTC' });
+    });
+
+    this.bot.action(/^limit_start_spot_(buy|sell)_([A-Z0-9]+USDT)$/, (ctx) => {
+      const side = ctx.match[1].toUpperCase() as 'BUY' | 'SELL';
+      this.handleLimitOrderStart(ctx, { market: 'spot', symbol: ctx.match[2], side, timeInForce: 'GTC' });
+    });
+
+    this.bot.action(/^limit_price_(best|mid|offset)$/, (ctx) => 
+      this.handleLimitPricePreset(ctx, ctx.match[1] as LimitPricePreset)
+    );
+
+    this.bot.action(/^limit_amount_(\d+)$/, (ctx) => 
+      this.handleLimitAmount(ctx, parseInt(ctx.match[1], 10))
+    );
+
+    this.bot.action(/^limit_tif_(GTC|IOC|FOK|GTX)$/, (ctx) => 
+      this.handleLimitTimeInForce(ctx, ctx.match[1] as LimitTimeInForce)
+    );
+
+    this.bot.action('limit_confirm', (ctx) => 
+      this.handleLimitConfirm(ctx)
+    );
+
+    this.bot.action('limit_cancel', (ctx) => 
+      this.handleLimitCancel(ctx)
+    );
+
+    // Ladder flow: range, total size, level options, confirm
+    this.bot.action(/^ladder_start_perps_(buy|sell)_([A-Z0-9]+USDT)_(\d+)x_(cross|isolated)$/, (ctx) => {
+      const side = ctx.match[1].toUpperCase() as 'BUY' | 'SELL';
+      const leverage = parseInt(ctx.match[3]);
+      const marginMode = ctx.match[4] as 'cross' | 'isolated';
+      this.handleLadderStart(ctx, {
+        purpose: 'entry', symbol: ctx.match[2], side, leverage, marginMode, count: 3, spacing: 'linear', weighting: 'equal'
+      });
+    });
+
+    this.bot.action(/^ladder_amount_(\d+)$/, (ctx) => 
+      this.handleLadderAmount(ctx, parseInt(ctx.match[1], 10))
+    );
+
+    this.bot.action(/^ladder_count_(\d+)$/, (ctx) => 
+      this.handleLadderOption(ctx, { count: parseInt(ctx.match[1], 10) })
+    );
+
+    this.bot.action(/^ladder_spacing_(linear|geometric)$/, (ctx) => 
+      this.handleLadderOption(ctx, { spacing: ctx.match[1] as LadderSpacing })
+    );
+
+    this.bot.action(/^ladder_weight_(equal|pyramid|front)$/, (ctx) => 
+      this.handleLadderOption(ctx, { weighting: ctx.match[1] as LadderWeighting })
+    );
+
+    this.bot.action(/^ladder_close_(25|50|100)$/, (ctx) => 
+      this.handleLadderOption(ctx, { closePercent: parseInt(ctx.match[1], 10) })
+    );
+
+    this.bot.action(/^ladder_edit_(range|amount)$/, (ctx) => 
+      this.handleLadderEdit(ctx, ctx.match[1] as 'range' | 'amount')
+    );
+
+    this.bot.action('ladder_confirm', (ctx) => 
+      this.handleLadderConfirm(ctx)
+    );
+
+    this.bot.action('ladder_cancel', (ctx) => 
+      this.handleLadderCancel(ctx)
+    );
+
+    // Risk mode: size a perps entry from max loss and stop distance
+    this.bot.action(/^risk_start_perps_(buy|sell)_([A-Z0-9]+USDT)_(\d+)x_(cross|isolated)$/, (ctx) => {
+      const side = ctx.match[1].toUpperCase() as 'BUY' | 'SELL';
+      const leverage = parseInt(ctx.match[3]);
+      const marginMode = ctx.match[4] as 'cross' | 'isolated';
+      this.handleRiskSizingStart(ctx, { symbol: ctx.match[2], side, leverage, marginMode });
+    });
+
+    this.bot.action(/^risk_loss_(\d+(?:\.\d+)?)pct$/, (ctx) => 
+      this.handleRiskLossPreset(ctx, parseFloat(ctx.match[1]))
+    );
+
+    this.bot.action(/^risk_stop_(\d+(?:\.\d+)?)$/, (ctx) => 
+      this.handleRiskStopPreset(ctx, parseFloat(ctx.match[1]))
+    );
+
+    this.bot.action('risk_confirm', (ctx) => 
+      this.handleRiskConfirm(ctx)
+    );
+
+    this.bot.action('risk_cancel', (ctx) => 
+      this.handleRiskCancel(ctx)
+    );
+
     // Manual amount input handlers
     this.bot.action(/^perps_manual_usdt_(buy|sell)_([A-Z0-9]+USDT)_(\d+)x_(cross|isolated)$/, (ctx) => {
       const action = ctx.match[1];
@@ -715,6 +1130,19 @@ export class BotOrchestrator {
       this.handleTokenPrice(ctx, symbol);
     });
 
+    // Watchlist management
+    this.bot.action(/^wl_toggle_([A-Z0-9]+USDT)$/, (ctx) => 
+      this.handleWatchlistToggle(ctx, ctx.match[1])
+    );
+
+    this.bot.action('watchlist_edit', (ctx) => 
+      this.showWatchlistEditor(ctx)
+    );
+
+    this.bot.action(/^wl_(up|down|remove)_([A-Z0-9]+USDT)$/, (ctx) => 
+      this.handleWatchlistEdit(ctx, ctx.match[1] as 'up' | 'down' | 'remove', ctx.match[2])
+    );
+
     this.bot.action('price_compare', (ctx) => 
       this.handlePriceCompare(ctx)
     );
@@ -729,6 +1157,96 @@ export class BotOrchestrator {
       this.handleSettingsSubmenu(ctx, setting);
     });
 
+    // Settings menu buttons
+    this.bot.action(/^set_leverage_cap_(\d+)$/, (ctx) => 
+      this.applySettingsUpdate(ctx, { leverage_cap: parseInt(ctx.match[1]) }, 'leverage')
+    );
+
+    this.bot.action(/^set_default_leverage_(\d+)$/, (ctx) => 
+      this.applySettingsUpdate(ctx, { default_leverage: parseInt(ctx.match[1]) }, 'leverage')
+    );
+
+    this.bot.action(/^set_size_preset_(conservative|moderate|aggressive)$/, async (ctx) => {
+      const { SettingsManager } = await import('../settings');
+      const profile = ctx.match[1] as keyof typeof SettingsManager.SIZE_PRESET_PROFILES;
+      await this.applySettingsUpdate(ctx, { size_presets: SettingsManager.SIZE_PRESET_PROFILES[profile] }, 'size');
+    });
+
+    this.bot.action('set_size_preset_custom', (ctx) => 
+      this.handlePresetsEditStart(ctx, 'size_presets')
+    );
+
+    this.bot.action(/^edit_(tp|sl)_presets$/, (ctx) => 
+      this.handlePresetsEditStart(ctx, ctx.match[1] === 'tp' ? 'tp_presets' : 'sl_presets')
+    );
+
+    this.bot.action(/^set_daily_cap_(\d+)$/, (ctx) => 
+      this.applySettingsUpdate(ctx, { daily_loss_cap: parseInt(ctx.match[1]) }, 'risk')
+    );
+
+    this.bot.action('remove_daily_cap', (ctx) => 
+      this.applySettingsUpdate(ctx, { daily_loss_cap: null }, 'risk')
+    );
+
+    this.bot.action(/^set_slippage_(\d+)$/, (ctx) => 
+      this.applySettingsUpdate(ctx, { slippage_bps: parseInt(ctx.match[1]) }, 'risk')
+    );
+
+    this.bot.action(/^set_position_mode_(oneway|hedge)$/, (ctx) => 
+      this.handleChangePositionMode(ctx, ctx.match[1] === 'hedge')
+    );
+
+    this.bot.action('reset_risk_settings', (ctx) => 
+      this.handleResetRiskSettings(ctx)
+    );
+
+    this.bot.action('enable_pin', (ctx) => 
+      this.handleEnablePin(ctx)
+    );
+
+    this.bot.action('change_pin', (ctx) => 
+      this.handleChangePin(ctx)
+    );
+
+    this.bot.action('disable_pin', (ctx) => 
+      this.handleDisablePin(ctx)
+    );
+
+    this.bot.action('security_info', (ctx) => 
+      this.handleSecurityInfo(ctx)
+    );
+
+    this.bot.action('reset_security', (ctx) => 
+      this.handleResetSecurity(ctx)
+    );
+
+    // Paper trading
+    this.bot.action('paper_menu', (ctx) => 
+      this.showPaperMenu(ctx)
+    );
+
+    this.bot.action('paper_toggle', (ctx) => 
+      this.handlePaperToggle(ctx)
+    );
+
+    this.bot.action('paper_reset', (ctx) => 
+      this.handlePaperReset(ctx)
+    );
+
+    this.bot.action('paper_reset_confirm', (ctx) => 
+      this.handlePaperReset(ctx, true)
+    );
+
+    // Margin ratio alert levels
+    this.bot.action('margin_alerts', (ctx) => 
+      this.handleMarginAlertsMenu(ctx)
+    );
+
+    this.bot.action(/^set_margin_alerts_(off|\d+(?:_\d+)*)$/, (ctx) => {
+      const levels = ctx.match[1] === 'off' ? [] : ctx.match[1].split('_').map(level => parseInt(level));
+      this.handleSetMarginAlerts(ctx, levels);
+    });
+
     // Referral stats handler
     this.bot.action('referral_stats', (ctx) => 
       this.handleReferralStatsCommand(ctx)
@@ -776,34 +1294,97 @@ export class BotOrchestrator {
       console.log(`[Text] Received: ${ctx.message.text} from user ${ctx.userState?.userId}`);
       console.log(`[Text] Conversation state: ${ctx.userState?.conversationState?.step || 'none'}`);
       
+      // Check if expecting PIN input
+      if (ctx.userState?.conversationState?.step === 'waiting_pin') {
+        await this.handlePinInput(ctx, ctx.message.text);
+        return;
+      }
+
+      // Check if choosing a new PIN
+      if (ctx.userState?.conversationState?.step === 'waiting_new_pin') {
+        await this.handleNewPinInput(ctx, ctx.message.text);
+        return;
+      }
+
+      // Check if typing custom presets
+      if (ctx.userState?.conversationState?.step === 'waiting_settings_presets') {
+        await this.handlePresetsText(ctx, ctx.message.text);
+        return;
+      }
+
       // Check if expecting referral code input
       if (ctx.userState?.conversationState?.step === 'waiting_referral_code') {
         await this.handleReferralCodeText(ctx, ctx.message.text);
         return;
       }
-      
-      // Check if expecting custom pair input
-      if (ctx.userState?.conversationState?.step === 'waiting_custom_pair' && 
-          ctx.userState?.conversationState?.data?.action === 'pair_input') {
-        this.handleCustomPairText(ctx, ctx.message.text);
+
+      // Check if building a limit order
+      if (ctx.userState?.conversationState?.step === 'waiting_limit_price') {
+        await this.handleLimitPriceText(ctx, ctx.message.text);
         return;
       }
-      
-      // Check if expecting custom amount input
-      if (ctx.userState?.conversationState?.step === 'waiting_custom_amount') {
-        this.handleCustomAmountText(ctx, ctx.message.text);
+
+      if (ctx.userState?.conversationState?.step === 'waiting_limit_amount') {
+        await this.handleLimitAmountText(ctx, ctx.message.text);
         return;
       }
-      
-      // Check if expecting manual USDT input
-      if ((ctx.userState as any)?.expectingManualUSDT) {
-        this.handleManualUSDTText(ctx, ctx.message.text);
+
+      // Check if building a ladder
+      if (ctx.userState?.conversationState?.step === 'waiting_ladder_range') {
+        await this.handleLadderRangeText(ctx, ctx.message.text);
         return;
       }
-      
-      // Check if expecting manual token input
-      if ((ctx.userState as any)?.expectingManualToken) {
-        this.handleManualTokenText(ctx, ctx.message.text);
+
+      if (ctx.userState?.conversationState?.step === 'waiting_ladder_amount') {
+        await this.handleLadderAmountText(ctx, ctx.message.text);
+        return;
+      }
+
+      // Check if entering an isolated margin amount
+      if (ctx.userState?.conversationState?.step === 'waiting_margin_amount') {
+        await this.handleMarginAmountText(ctx, ctx.message.text);
+        return;
+      }
+
+      // Check if sizing a trade in risk mode
+      if (ctx.userState?.conversationState?.step === 'waiting_risk_loss') {
+        await this.handleRiskLossText(ctx, ctx.message.text);
+        return;
+      }
+
+      if (ctx.userState?.conversationState?.step === 'waiting_risk_stop') {
+        await this.handleRiskStopText(ctx, ctx.message.text);
+        return;
+      }
+
+      // Check if expecting a new price for an open order
+      if (ctx.userState?.conversationState?.step === 'waiting_amend_price') {
+        await this.handleAmendPriceText(ctx, ctx.message.text);
+        return;
+      }
+      
+      // Check if expecting custom pair input
+      if (ctx.userState?.conversationState?.step === 'waiting_custom_pair' && 
+          ctx.userState?.conversationState?.data?.action === 'pair_input') {
+        this.handleCustomPairText(ctx, ctx.message.text);
+        return;
+      }
+      
+      // Check if expecting custom amount input
+      if (ctx.userState?.conversationState?.step === 'waiting_custom_amount') {
+        this.handleCustomAmountText(ctx, ctx.message.text);
+        return;
+      }
+      
+      // Check if expecting manual USDT input
+      if ((ctx.userState as any)?.expectingManualUSDT) {
+        this.handleManualUSDTText(ctx, ctx.message.text);
+        return;
+      }
+      
+      // Check if expecting manual token input
+      if ((ctx.userState as any)?.expectingManualToken) {
+        this.handleManualTokenText(ctx, ctx.message.text);
         return;
       }
 
@@ -875,6 +1456,19 @@ export class BotOrchestrator {
       await this.db.connect();
       await this.db.initializeSchema();
 
+      // Open user data streams in the background; one bad key must not block startup
+      this.userDataStreamService.startAll().catch(error =>
+        console.error('[UserDataStream] Failed to start user streams:', error)
+      );
+
+      this.alertService.start();
+      this.paperTradingService.start();
+      this.trailingStopService.start();
+      this.bracketService.start();
+      this.spotExitService.start();
+      this.tpLadderService.start();
+      this.marginRiskService.start();
+
       // Start server
       const port = this.config.server.port;
       this.server.listen(port, '0.0.0.0', () => {
@@ -1001,25 +1595,57 @@ export class BotOrchestrator {
   }
 
   /**
-   * Handle spot trade execution
+   * Handle spot trade execution - resolves the order once it is placed, null otherwise
    */
   private async handleSpotExecuteAction(
     ctx: BotContext, 
     symbol: string, 
     side: 'BUY' | 'SELL', 
-    amount: number
-  ): Promise<void> {
+    amount: number,
+    riskOrders?: { tpValue: number | null; slValue: number | null },
+    guardConfirmed = false,
+    pinVerified = false,
+    resumedClientOrderId?: string
+  ): Promise<any | null> {
+    const clientOrderId = resumedClientOrderId ?? this.deriveClientOrderId(ctx, symbol);
+    let releaseClaim: (() => void) | null = null;
+
     try {
       if (!ctx.userState?.isLinked) {
         await ctx.answerCbQuery('❌ Please link your API credentials first!');
         await ctx.reply('❌ Please link your API credentials first using /link');
-        return;
+        return null;
+      }
+
+      releaseClaim = await this.claimSubmission(ctx, clientOrderId);
+      if (!releaseClaim) {
+        return null;
       }
 
       const action = side === 'BUY' ? 'Buy' : 'Sell';
       const emoji = side === 'BUY' ? '🟢' : '🔴';
+
+      if (side === 'BUY' && !(await this.passesTradingHaltCheck(ctx))) {
+        return null;
+      }
+
+      if (side === 'BUY' && !(await this.passesDailyLossCheck(ctx))) {
+        return null;
+      }
+
+      const pendingOrder: PendingMarketOrder = {
+        kind: 'spot_execute', symbol, side, amount, tpValue: riskOrders?.tpValue, slValue: riskOrders?.slValue, clientOrderId
+      };
+
+      if (!guardConfirmed && !(await this.passesPriceGuard(ctx, { market: 'spot', symbol, side, quoteAmount: amount }, pendingOrder))) {
+        return null;
+      }
+
+      if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'market_order', order: pendingOrder }, amount))) {
+        return null;
+      }
       
-      await ctx.answerCbQuery(`${emoji} Executing ${action} ${symbol} $${amount}...`);
+      if (ctx.callbackQuery) await ctx.answerCbQuery(`${emoji} Executing ${action} ${symbol} $${amount}...`);
       
       // Show processing message
       const processingMsg = await ctx.reply(
@@ -1035,13 +1661,20 @@ export class BotOrchestrator {
         // Get API client for user
         const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
 
+        // Sells realize PnL against the cost basis held before the order
+        const averageCost = side === 'SELL'
+          ? await new (await import('../services/SpotAccountService')).SpotAccountService(apiClient).getAverageEntryPrice(symbol)
+          : null;
+
         // Execute the trade using the ORIGINAL working approach
         const orderResult = await apiClient.createSpotOrder({
           symbol,
           side,
           type: 'MARKET',
-          quoteOrderQty: amount.toString() // ← Use original approach: direct USDT amount
+          quoteOrderQty: amount.toString(), // ← Use original approach: direct USDT amount
+          ...(clientOrderId ? { newClientOrderId: clientOrderId } : {})
         });
+        await this.recordOrder(ctx, { market: 'spot', purpose: side === 'BUY' ? 'entry' : 'sell', symbol, side, type: 'MARKET' }, orderResult);
 
         // Enhanced success message with position management
         const executedPrice = parseFloat(orderResult.avgPrice || orderResult.fills?.[0]?.price || '0');
@@ -1070,6 +1703,9 @@ export class BotOrchestrator {
           orderId: String(orderResult.orderId)
         });
 
+        await this.recordSpotSalePnl(ctx, averageCost, orderResult);
+
+        return orderResult;
       } catch (tradeError: any) {
         console.error('[Orchestrator] Spot trade execution failed:', tradeError);
         
@@ -1086,6 +1722,7 @@ export class BotOrchestrator {
           `🔙 Use /menu to return to main menu.`,
           { parse_mode: 'Markdown' }
         );
+        return null;
       }
 
     } catch (error) {
@@ -1099,30 +1736,69 @@ export class BotOrchestrator {
         error: error as Error,
         context: { type: 'spot_execute_action', symbol, side, amount }
       });
+      return null;
+    } finally {
+      releaseClaim?.();
     }
   }
 
   /**
-   * Handle perps trade execution
+   * Handle perps trade execution - resolves the entry order once it is placed, null otherwise
    */
   private async handlePerpsExecuteAction(
     ctx: BotContext, 
     symbol: string, 
     side: 'BUY' | 'SELL', 
     amount: number,
-    leverage: number
-  ): Promise<void> {
+    leverage: number,
+    riskOrders?: { tpValue: number | null; slValue: number | null },
+    guardConfirmed = false,
+    pinVerified = false,
+    resumedClientOrderId?: string
+  ): Promise<OrderResponse | null> {
+    const clientOrderId = resumedClientOrderId ?? this.deriveClientOrderId(ctx, symbol);
+    let releaseClaim: (() => void) | null = null;
+
     try {
       if (!ctx.userState?.isLinked) {
         await ctx.answerCbQuery('❌ Please link your API credentials first!');
         await ctx.reply('❌ Please link your API credentials first using /link');
-        return;
+        return null;
+      }
+
+      releaseClaim = await this.claimSubmission(ctx, clientOrderId);
+      if (!releaseClaim) {
+        return null;
       }
 
       const action = side === 'BUY' ? 'Long' : 'Short';
       const emoji = side === 'BUY' ? '📈' : '📉';
+
+      if (!(await this.passesTradingHaltCheck(ctx))) {
+        return null;
+      }
+
+      if (!(await this.passesDailyLossCheck(ctx))) {
+        return null;
+      }
+
+      if (!(await this.passesLeveragePolicy(ctx, symbol, leverage, amount))) {
+        return null;
+      }
+
+      const pendingOrder: PendingMarketOrder = {
+        kind: 'perps_execute', symbol, side, amount, leverage, tpValue: riskOrders?.tpValue, slValue: riskOrders?.slValue, clientOrderId
+      };
+
+      if (!guardConfirmed && !(await this.passesPriceGuard(ctx, { market: 'perps', symbol, side, quoteAmount: amount }, pendingOrder))) {
+        return null;
+      }
+
+      if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'market_order', order: pendingOrder }, amount))) {
+        return null;
+      }
       
-      await ctx.answerCbQuery(`${emoji} Executing ${action} ${symbol} $${amount} ${leverage}x...`);
+      if (ctx.callbackQuery) await ctx.answerCbQuery(`${emoji} Executing ${action} ${symbol} $${amount} ${leverage}x...`);
       
       // Show processing message
       const processingMsg = await ctx.reply(
@@ -1139,8 +1815,9 @@ export class BotOrchestrator {
         // Get API client for user
         const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
         
-        // Set leverage first
-        await apiClient.changeLeverage(symbol, leverage);
+        // Set leverage first, re-checked against the policy right before it reaches the exchange
+        const leveragePolicy = await this.getLeveragePolicy(ctx);
+        await leveragePolicy.apply(symbol, leverage, amount);
         
         // Calculate quantity using ORIGINAL working approach with proper precision
         const currentPrice = await this.priceService.getCurrentPrice(symbol);
@@ -1152,8 +1829,10 @@ export class BotOrchestrator {
           symbol,
           side,
           type: 'MARKET',
-          quantity
+          quantity,
+          ...(clientOrderId ? { newClientOrderId: clientOrderId } : {})
         });
+        await this.recordOrder(ctx, { market: 'perps', purpose: 'entry', symbol, side, type: 'MARKET', leverage, quantity }, orderResult);
 
         // Mark trade executed for position update timing (like original)
         try {
@@ -1179,7 +1858,8 @@ export class BotOrchestrator {
           leverage, 
           positionSizeUSDT, 
           executedPrice, 
-          String(orderResult.orderId)
+          String(orderResult.orderId),
+          orderResult.positionSide
         );
 
         this.eventEmitter.emitEvent({
@@ -1195,6 +1875,7 @@ export class BotOrchestrator {
           orderId: String(orderResult.orderId)
         });
 
+        return orderResult;
       } catch (tradeError: any) {
         console.error('[Orchestrator] Perps trade execution failed:', tradeError);
         
@@ -1211,6 +1892,7 @@ export class BotOrchestrator {
           `🔄 Please try again or contact support.`,
           { parse_mode: 'Markdown' }
         );
+        return null;
       }
 
     } catch (error) {
@@ -1224,6 +1906,9 @@ export class BotOrchestrator {
         error: error as Error,
         context: { type: 'perps_execute_action', symbol, side, amount, leverage }
       });
+      return null;
+    } finally {
+      releaseClaim?.();
     }
   }
 
@@ -1249,8 +1934,12 @@ Keys encrypted. Not your keys, not your coins.
 /start - Home panel
 /link - Connect API credentials
 /trade - Trading interface
+/buy, /sell - One-line trades (e.g. /buy ETH 100u x5)
 /balance - Account balance
 /positions - Open positions
+/orders - Order history (filter: /orders ETH sell perps)
+/openorders - Resting orders with cancel and amend
+/alert - Price alerts (e.g. /alert BTC > 70000, /alert ETH < -5% 24h)
 /help - This help menu
 /invite - Generate referral codes
 /team - View referral team
@@ -1288,8 +1977,8 @@ Keys encrypted. Not your keys, not your coins.
       return;
     }
 
-    // Check if already linked
-    if (ctx.userState?.isLinked) {
+    // Check if already linked; paper mode counts as linked without any keys
+    if (ctx.userState?.isLinked && (!ctx.userState.isPaper || await this.hasApiCredentials(ctx))) {
       await ctx.reply(
         '✅ **API Already Linked**\n\n' +
         'Your API credentials are already connected.\n\n' +
@@ -1316,6 +2005,8 @@ Keys encrypted. Not your keys, not your coins.
           tp_presets: [5, 10, 15],
           sl_presets: [5, 10, 15],
           daily_loss_cap: 500,
+          pin_order_threshold: 1000,
+          margin_alert_levels: [],
           pin_hash: null
         }
       };
@@ -1478,6 +2169,14 @@ Keys encrypted. Not your keys, not your coins.
       const encryptedSecret = this.encryption.encrypt(trimmedSecret);
       await this.db.storeApiCredentials(user.id, encryptedKey, encryptedSecret);
 
+      this.eventEmitter.emitEvent({
+        type: EventTypes.USER_LINKED,
+        timestamp: new Date(),
+        userId: user.id,
+        telegramId: ctx.from!.id,
+        correlationId: ctx.correlationId
+      });
+
       // Update user state
       ctx.userState!.isLinked = true;
       ctx.userState!.userId = user.id;
@@ -1543,7 +2242,7 @@ Keys encrypted. Not your keys, not your coins.
       return;
     }
 
-    if (!ctx.userState?.isLinked) {
+    if (!ctx.userState?.isLinked || (ctx.userState.isPaper && !(await this.hasApiCredentials(ctx)))) {
       await ctx.reply('❌ No API credentials are currently linked.');
       return;
     }
@@ -1582,24 +2281,33 @@ Keys encrypted. Not your keys, not your coins.
   /**
    * Handle confirm unlink
    */
-  private async handleConfirmUnlink(ctx: BotContext): Promise<void> {
+  private async handleConfirmUnlink(ctx: BotContext, pinVerified = false): Promise<void> {
     try {
-      if (!ctx.userState?.isLinked) {
-        await ctx.editMessageText('❌ No API credentials are currently linked.', { parse_mode: 'Markdown' });
+      if (!ctx.userState?.isLinked || (ctx.userState.isPaper && !(await this.hasApiCredentials(ctx)))) {
+        await this.safeEditMessageText(ctx, '❌ No API credentials are currently linked.', { parse_mode: 'Markdown' });
+        return;
+      }
+
+      if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'unlink' }))) {
         return;
       }
 
       // Show processing message
-      await ctx.editMessageText('⏳ **Unlinking API Credentials...**\n\nRemoving your credentials from our database...', { 
+      await this.safeEditMessageText(ctx, '⏳ **Unlinking API Credentials...**\n\nRemoving your credentials from our database...', { 
         parse_mode: 'Markdown' 
       });
 
+      // Stop streaming before the credentials behind the listen key disappear
+      await this.userDataStreamService.stop(ctx.userState.userId);
+
       // Remove credentials from database
       await this.db.removeApiCredentials(ctx.userState.userId);
 
-      // Update user state
-      ctx.userState.isLinked = false;
-      ctx.userState.userId = 0;
+      // Update user state; paper trading keeps working without keys
+      if (!ctx.userState.isPaper) {
+        ctx.userState.isLinked = false;
+        ctx.userState.userId = 0;
+      }
 
       // Success message
       const successText = [
@@ -1617,7 +2325,7 @@ Keys encrypted. Not your keys, not your coins.
         '• Use /menu to explore other features'
       ].join('\n');
 
-      await ctx.editMessageText(successText, { 
+      await this.safeEditMessageText(ctx, successText, { 
         parse_mode: 'Markdown',
         ...Markup.inlineKeyboard([
           [
@@ -1638,7 +2346,8 @@ Keys encrypted. Not your keys, not your coins.
 
     } catch (error: any) {
       console.error('Confirm unlink error:', error);
-      await ctx.editMessageText(
+      await this.safeEditMessageText(
+        ctx,
         '❌ **Unlink Failed**\n\n' +
         `Error: ${error.message || 'Unknown error'}\n\n` +
         'Please try again or contact support.',
@@ -1681,7 +2390,7 @@ Keys encrypted. Not your keys, not your coins.
       return;
     }
 
-    await ctx.reply('📈 **Quick Buy**\n\nUse /trade or the main menu to access the trading interface.');
+    await this.handleTradeCommand(ctx);
   }
 
   /**
@@ -1699,521 +2408,649 @@ Keys encrypted. Not your keys, not your coins.
       return;
     }
 
-    await ctx.reply('📉 **Quick Sell**\n\nUse /trade or the main menu to access the trading interface.');
+    await this.handleTradeCommand(ctx);
   }
 
   /**
-   * Handle positions command - FULL ORIGINAL IMPLEMENTATION
+   * Handle /orders command - paginated order history with optional filters
    */
-  private async handlePositionsCommand(ctx: BotContext): Promise<void> {
-    // Ensure this is only used in private chats for privacy
+  private async handleOrdersCommand(ctx: BotContext): Promise<void> {
     if (ctx.chat?.type !== 'private') {
       await ctx.reply(
         '🔒 **Privacy Protection**\n\n' +
-        'Position data is only available in private chats for your security.\n\n' +
-        '💬 **Please message me directly** to view your positions.',
+        'Order history is only available in private chats for your security.\n\n' +
+        '💬 **Please message me directly** to view your orders.',
         { parse_mode: 'Markdown' }
       );
       return;
     }
 
+    const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+    const filters = OrderHistoryService.parseFilters(text.trim().split(/\s+/).slice(1));
+    await this.showOrderHistory(ctx, filters, 1);
+  }
+
+  /**
+   * Show resting spot and futures orders grouped by symbol, with cancel and amend buttons.
+   * The notice answers the callback that led here, e.g. the result of a cancel.
+   */
+  private async showOpenOrders(ctx: BotContext, notice?: string): Promise<void> {
     if (!ctx.userState?.isLinked) {
       await ctx.reply('❌ Please link your API credentials first using /link');
       return;
     }
 
     try {
-      console.log('[POSITIONS] Fetching positions with enhanced data...');
       const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
-      const FuturesAccountService = await import('../services/FuturesAccountService');
-      const futuresService = new FuturesAccountService.FuturesAccountService(apiClient);
-      
-      const openPositions = await futuresService.getOpenPositions();
-      
-      if (openPositions.length === 0) {
-        const keyboard = Markup.inlineKeyboard([
-          [
-            Markup.button.callback('📈 Start Trading', 'unified_trade'),
-            Markup.button.callback('💰 Balance', 'balance')
-          ],
-          [
-            Markup.button.callback('🔙 Back', 'main_menu')
-          ]
-        ]);
-        
-        await ctx.reply('📊 **No Open Positions**\n\nYou don\'t have any open futures positions.\n\nUse the trading interface to open positions!', { parse_mode: 'Markdown', ...keyboard });
-        return;
+      const openOrders = new OpenOrdersService(this.db, apiClient);
+      const groups = OpenOrdersService.group(await openOrders.getOpenOrders());
+      const spotExits = await this.spotExitService.getActive(ctx.userState.userId);
+      const monitoredStops = spotExits.filter(exit => exit.sl_mode === 'monitored' && exit.sl_price);
+
+      // Telegram caps inline keyboards, so only the first orders get buttons
+      const maxButtons = 20;
+      const rows = [];
+      let index = 0;
+      for (const group of groups) {
+        for (const order of group.orders) {
+          index++;
+          if (index > maxButtons) break;
+
+          const row = [Markup.button.callback(`❌ Cancel #${index}`, `oo_cancel_${order.market}_${order.symbol}_${order.orderId}`)];
+          if (OpenOrdersService.isAmendable(order)) {
+            row.push(Markup.button.callback(`✏️ Amend #${index}`, `oo_amend_${order.market}_${order.symbol}_${order.orderId}`));
+          }
+          rows.push(row);
+        }
+
+        if (group.orders.length > 1) {
+          rows.push([Markup.button.callback(`🗑️ Cancel all ${group.symbol}${group.market === 'spot' ? ' (spot)' : ''}`, `oo_cancelall_${group.market}_${group.symbol}`)]);
+        }
       }
 
-      let positionsText = '📊 **Open Positions**\n\n';
-      
-      openPositions.forEach(position => {
-        const sideEmoji = position.side === 'LONG' ? '🟢' : '🔴';
-        const sideText = `${sideEmoji} ${position.side}`;
-        
-        // Use real-time PnL if available, fallback to API PnL
-        const displayPnl = position.realTimeUnrealizedPnl ?? position.unrealizedPnl;
-        const displayPnlPercent = position.realTimePnlPercent ?? position.pnlPercent;
-        
-        const pnlEmoji = displayPnl >= 0 ? '📈' : '📉';
-        const pnlColor = displayPnl >= 0 ? '🟢' : '🔴';
-        
-        // Debug logging
-        console.log(`[POSITIONS] ${position.symbol}: API PnL=${position.unrealizedPnl}, Real-time PnL=${position.realTimeUnrealizedPnl}, Current Price=${position.currentPrice}`);
-        
-        positionsText += [
-          `**${position.symbol}** ${sideText}`,
-          `• Size: ${position.notional.toFixed(2)} USDT`,
-          `• Entry: $${position.entryPrice.toFixed(4)}`,
-          position.currentPrice ? `• Current: $${position.currentPrice.toFixed(4)}` : '',
-          `• Leverage: ${position.leverage}x`,
-          `• ${pnlColor} ${pnlEmoji} PnL: ${displayPnl >= 0 ? '+' : ''}$${displayPnl.toFixed(2)} (${displayPnlPercent >= 0 ? '+' : ''}${displayPnlPercent.toFixed(1)}%)`,
-          position.currentPrice ? '' : '⚠️ (Real-time price unavailable)',
-          '',
-        ].filter(Boolean).join('\n');
+      monitoredStops.forEach((exit, stopIndex) => {
+        rows.push([Markup.button.callback(`❌ Cancel S${stopIndex + 1}`, `spx_cancel_${exit.id}`)]);
       });
 
-      // Enhanced positions with quick trading buttons and refresh functionality
       const keyboard = Markup.inlineKeyboard([
-        ...openPositions.map(pos => [
-          Markup.button.callback(`📊 ${pos.symbol}`, `position_manage_${pos.symbol}`),
-          Markup.button.callback(`⚡ Quick Trade`, `quick_trade_${pos.symbol}`)
-        ]),
+        ...rows,
         [
-          Markup.button.callback('🔄 Refresh', 'positions'),
-          Markup.button.callback('📈 P&L Analysis', 'pnl_analysis')
-        ]
+          Markup.button.callback('🔄 Refresh', 'open_orders'),
+          Markup.button.callback('📊 Positions', 'positions')
+        ],
+        [Markup.button.callback('🏠 Main Menu', 'main_menu')]
       ]);
 
-      try {
-        await ctx.editMessageText(positionsText, { parse_mode: 'Markdown', ...keyboard });
-        console.log('[POSITIONS] Successfully displayed enhanced position data via edit');
-      } catch (error) {
-        await ctx.reply(positionsText, { parse_mode: 'Markdown', ...keyboard });
-        console.log('[POSITIONS] Successfully displayed enhanced position data via reply');
+      let ordersText = openOrders.formatOpenOrders(groups);
+      const monitoredText = this.spotExitService.formatMonitoredStops(monitoredStops);
+      if (monitoredText) {
+        ordersText += `\n\n${monitoredText}`;
+      }
+      if (index > maxButtons) {
+        ordersText += `\n\n_Buttons are shown for the first ${maxButtons} orders._`;
+      }
+
+      if (ctx.callbackQuery) {
+        await ctx.answerCbQuery(notice);
+        try {
+          await ctx.editMessageText(ordersText, { parse_mode: 'Markdown', ...keyboard });
+        } catch (error) {
+          // Refreshing an unchanged list can't be edited; what's on screen is already current
+          console.warn('[Orchestrator] Could not edit open orders message:', error);
+        }
+        return;
       }
 
+      await ctx.reply(ordersText, { parse_mode: 'Markdown', ...keyboard });
     } catch (error) {
-      console.error('Positions command error:', error);
-      await ctx.reply('❌ Failed to fetch positions. Please try again.');
+      console.error('Show open orders error:', error);
+      await ctx.reply('❌ Failed to load your open orders. Please try again.');
     }
   }
 
   /**
-   * Handle balance command
+   * Stop watching a bot-monitored spot stop loss and refresh the list
    */
-  private async handleBalanceCommand(ctx: BotContext): Promise<void> {
-    // Ensure this is only used in private chats for privacy
-    if (ctx.chat?.type !== 'private') {
-      await ctx.reply(
-        '🔒 **Privacy Protection**\n\n' +
-        'Balance information is only available in private chats for your security.\n\n' +
-        '💬 **Please message me directly** to view your balance.',
-        { parse_mode: 'Markdown' }
-      );
-      return;
+  private async handleSpotExitStopCancel(ctx: BotContext, exitId: number): Promise<void> {
+    let notice: string;
+    try {
+      const cancelled = await this.spotExitService.cancelMonitoredStop(ctx.userState!.userId, exitId);
+      notice = cancelled ? '✅ Stop loss cancelled' : 'This stop is no longer active';
+    } catch (error) {
+      console.error('Cancel spot stop error:', error);
+      notice = '❌ Failed to cancel the stop loss';
     }
 
-    if (!ctx.userState?.isLinked) {
-      await ctx.reply('❌ Please link your API credentials first using /link');
-      return;
+    await this.showOpenOrders(ctx, notice);
+  }
+
+  /**
+   * Cancel one resting order and refresh the list
+   */
+  private async handleOpenOrderCancel(ctx: BotContext, market: 'spot' | 'perps', symbol: string, orderId: number): Promise<void> {
+    let notice: string;
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      await new OpenOrdersService(this.db, apiClient).cancel(ctx.userState!.userId, market, symbol, orderId);
+      notice = '✅ Order cancelled';
+    } catch (error: any) {
+      console.error('Cancel open order error:', error);
+      notice = `❌ ${error.message || 'Failed to cancel order'}`.slice(0, 200);
     }
 
+    await this.showOpenOrders(ctx, notice);
+  }
+
+  /**
+   * Cancel every resting order for one symbol and refresh the list
+   */
+  private async handleOpenOrderCancelAll(ctx: BotContext, market: 'spot' | 'perps', symbol: string): Promise<void> {
+    let notice: string;
     try {
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
-      
-      const [SpotAccountService, FuturesAccountService] = await Promise.all([
-        import('../services/SpotAccountService'),
-        import('../services/FuturesAccountService')
-      ]);
-      
-      const spotService = new SpotAccountService.SpotAccountService(apiClient);
-      const futuresService = new FuturesAccountService.FuturesAccountService(apiClient);
-      
-      const [spotSummary, futuresSummary] = await Promise.all([
-        spotService.getPortfolioSummary().catch(() => null),
-        futuresService.getPortfolioSummary().catch(() => null)
-      ]);
-      
-      let balanceText = '💰 **Account Balance**\n\n';
-      
-      if (spotSummary) {
-        balanceText += `🏪 **Spot**: $${spotSummary.totalUsdValue.toFixed(2)}\n`;
-      }
-      
-      if (futuresSummary) {
-        balanceText += `⚡ **Futures**: $${futuresSummary.totalWalletBalance.toFixed(2)}\n`;
-        if (futuresSummary.openPositions.length > 0) {
-          balanceText += `📊 Unrealized P&L: ${futuresSummary.totalUnrealizedPnl >= 0 ? '+' : ''}$${futuresSummary.totalUnrealizedPnl.toFixed(2)}\n`;
-        }
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const cancelled = await new OpenOrdersService(this.db, apiClient).cancelAll(ctx.userState!.userId, market, symbol);
+      notice = `✅ Cancelled ${cancelled} ${symbol} order${cancelled === 1 ? '' : 's'}`;
+    } catch (error: any) {
+      console.error('Cancel all open orders error:', error);
+      notice = `❌ ${error.message || 'Failed to cancel orders'}`.slice(0, 200);
+    }
+
+    await this.showOpenOrders(ctx, notice);
+  }
+
+  /**
+   * Ask for the new price of an order being amended
+   */
+  private async handleOpenOrderAmend(ctx: BotContext, market: 'spot' | 'perps', symbol: string, orderId: number): Promise<void> {
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const openOrders = new OpenOrdersService(this.db, apiClient);
+      const order = await openOrders.findOrder(market, symbol, orderId);
+
+      if (!order) {
+        await this.showOpenOrders(ctx, '❌ This order is no longer open');
+        return;
       }
-      
-      await ctx.reply(balanceText, { parse_mode: 'Markdown' });
+
+      const conversationState = {
+        step: 'waiting_amend_price' as const,
+        data: { amendOrder: { market, symbol, orderId } }
+      };
+      ctx.userState!.conversationState = conversationState;
+      await this.authMiddleware.setConversationState(ctx.userState!.telegramId, conversationState);
+
+      await ctx.answerCbQuery();
+      await ctx.reply(openOrders.formatAmendPrompt(order), {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'oo_amend_cancel')]])
+      });
     } catch (error) {
-      console.error('Balance command error:', error);
-      await ctx.reply('❌ Failed to load balance. Please try again.');
+      console.error('Amend open order error:', error);
+      await ctx.answerCbQuery('❌ Failed to load the order');
     }
   }
 
   /**
-   * Handle spot assets command - displays assets not positions
+   * Handle the typed price for an order amend: cancel and replace at the new price
    */
-  private async handleSpotAssetsCommand(ctx: BotContext): Promise<void> {
-    if (!ctx.userState?.isLinked) {
-      await ctx.reply('❌ Please link your API credentials first using /link');
-      return;
-    }
+  private async handleAmendPriceText(ctx: BotContext, text: string): Promise<void> {
+    const amend = ctx.userState?.conversationState?.data?.amendOrder;
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+    if (!amend) return;
 
     try {
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
-      const SpotAccountService = await import('../services/SpotAccountService');
-      const spotService = new SpotAccountService.SpotAccountService(apiClient);
-      
-      const spotSummary = await spotService.getPortfolioSummary();
-      
-      if (spotSummary.totalAssets === 0) {
-        const keyboard = Markup.inlineKeyboard([
-          [
-            Markup.button.callback('📈 Start Trading', 'trade_spot'),
-            Markup.button.callback('💰 Balance', 'balance')
-          ],
-          [
-            Markup.button.callback('🔙 Back', 'main_menu')
-          ]
-        ]);
-        
-        await ctx.reply('🏪 **No Spot Assets**\n\nYou don\'t have any spot assets.\n\nUse the trading interface to buy some assets!', { parse_mode: 'Markdown', ...keyboard });
-        return;
-      }
-
-      let assetsText = `🏪 **Spot Assets** • $${spotSummary.totalUsdValue.toFixed(2)}\n\n`;
-      
-      // Show main assets (>= $10 value)
-      if (spotSummary.mainAssets.length > 0) {
-        assetsText += '**📊 Main Assets:**\n';
-        spotSummary.mainAssets.forEach((asset, index) => {
-          const percentage = spotSummary.totalUsdValue > 0 ? (asset.usdValue! / spotSummary.totalUsdValue * 100) : 0;
-          const emoji = index === 0 ? '▸' : '▫';
-          assetsText += `${emoji} **${asset.asset}**: $${asset.usdValue!.toFixed(2)} (${percentage.toFixed(1)}%)\n`;
-          assetsText += `   Amount: ${asset.total.toFixed(6)}\n`;
-          if (parseFloat(asset.locked) > 0) {
-            assetsText += `   Locked: ${parseFloat(asset.locked).toFixed(6)}\n`;
-          }
-          assetsText += '\n';
-        });
-      }
-
-      // Show small balances if any
-      if (spotSummary.smallBalances.length > 0) {
-        const smallTotal = spotSummary.smallBalances.reduce((sum, b) => sum + (b.usdValue || 0), 0);
-        assetsText += `**🔹 Small Assets** (${spotSummary.smallBalances.length} assets):\n`;
-        assetsText += `Total Value: $${smallTotal.toFixed(2)}\n\n`;
-        
-        // Show first few small assets
-        spotSummary.smallBalances.slice(0, 5).forEach(asset => {
-          assetsText += `▫ ${asset.asset}: ${asset.total.toFixed(6)} ($${(asset.usdValue || 0).toFixed(2)})\n`;
-        });
-        
-        if (spotSummary.smallBalances.length > 5) {
-          assetsText += `▫ +${spotSummary.smallBalances.length - 5} more...\n`;
-        }
-      }
-
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('🔄 Refresh Assets', 'spot_assets'),
-          Markup.button.callback('📈 Trade Spot', 'trade_spot')
-        ],
-        [
-          Markup.button.callback('💰 Full Balance', 'balance'),
-          Markup.button.callback('🔙 Back', 'main_menu')
-        ]
-      ]);
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const openOrders = new OpenOrdersService(this.db, apiClient);
+      const result = await openOrders.amendPrice(
+        ctx.userState!.userId,
+        amend.market,
+        amend.symbol,
+        amend.orderId,
+        parseFloat(text.trim().replace(/[$,]/g, ''))
+      );
 
-      await ctx.reply(assetsText, { parse_mode: 'Markdown', ...keyboard });
+      await ctx.reply(openOrders.formatAmendResult(result), {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([[Markup.button.callback('📋 Open Orders', 'open_orders')]])
+      });
+    } catch (error: any) {
+      console.error('Amend price error:', error);
+      await ctx.reply(`❌ **Amend Failed**\n\n${error.message || 'Unknown error'}`, {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([[Markup.button.callback('📋 Open Orders', 'open_orders')]])
+      });
+    }
+  }
 
-    } catch (error) {
-      console.error('[Orchestrator] Spot assets command error:', error);
-      await ctx.reply('❌ Failed to load spot assets. Please try again.');
+  private async handleOpenOrderAmendCancel(ctx: BotContext): Promise<void> {
+    if (ctx.userState?.conversationState?.step === 'waiting_amend_price') {
+      ctx.userState.conversationState = undefined;
+      await this.authMiddleware.clearConversationState(ctx.userState.telegramId);
     }
+
+    await ctx.answerCbQuery('Cancelled');
+    await ctx.editMessageText('❌ **Amend Cancelled**\n\nThe order was left unchanged.', { parse_mode: 'Markdown' });
   }
 
   /**
-   * Handle P&L command
+   * Handle /alert command - create a price alert, or list alerts when no condition is given
    */
-  private async handlePnLCommand(ctx: BotContext): Promise<void> {
-    // Ensure this is only used in private chats for privacy
-    if (ctx.chat?.type !== 'private') {
-      await ctx.reply(
-        '🔒 **Privacy Protection**\n\n' +
-        'P&L information is only available in private chats for your security.\n\n' +
-        '💬 **Please message me directly** to view your P&L.',
-        { parse_mode: 'Markdown' }
-      );
+  private async handleAlertCommand(ctx: BotContext): Promise<void> {
+    const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+    const args = text.trim().split(/\s+/).slice(1);
+
+    if (args.length === 0) {
+      await this.showAlerts(ctx);
       return;
     }
 
-    await this.handlePositionsCommand(ctx); // Reuse positions display for now
+    const parsed = AlertService.parseAlertCommand(args);
+    if (!parsed.success) {
+      await ctx.reply(`❌ ${parsed.error}`, { parse_mode: 'Markdown' });
+      return;
+    }
+
+    try {
+      const alert = await this.alertService.createAlert(ctx.userState!.userId, parsed.alert);
+      await ctx.reply(
+        `✅ **Alert Created**\n\n🔔 ${AlertService.describeCondition(alert)}\n\nYou'll get one message when it triggers.`,
+        {
+          parse_mode: 'Markdown',
+          ...Markup.inlineKeyboard([[Markup.button.callback('🔔 My Alerts', 'alerts_list')]])
+        }
+      );
+    } catch (error: any) {
+      console.error('Create alert error:', error);
+      await ctx.reply(`❌ ${error.message || 'Failed to create alert. Please try again.'}`);
+    }
   }
 
   /**
-   * Handle spot command
+   * Show the user's price alerts with pause/resume/delete buttons
    */
-  private async handleSpotCommand(ctx: BotContext): Promise<void> {
-    await this.tradingHandler.handleSpotTrading(ctx);
+  private async showAlerts(ctx: BotContext): Promise<void> {
+    try {
+      const alerts = await this.alertService.getAlerts(ctx.userState!.userId);
+
+      const keyboard = Markup.inlineKeyboard([
+        ...alerts.map((alert, index) => [
+          alert.status === 'active'
+            ? Markup.button.callback(`⏸️ Pause #${index + 1}`, `alert_pause_${alert.id}`)
+            : Markup.button.callback(`▶️ ${alert.status === 'triggered' ? 'Re-arm' : 'Resume'} #${index + 1}`, `alert_resume_${alert.id}`),
+          Markup.button.callback(`🗑️ Delete #${index + 1}`, `alert_delete_${alert.id}`)
+        ]),
+        [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+      ]);
+
+      const alertsText = this.alertService.formatAlertList(alerts);
+
+      if (ctx.callbackQuery) {
+        await ctx.answerCbQuery();
+        try {
+          await ctx.editMessageText(alertsText, { parse_mode: 'Markdown', ...keyboard });
+          return;
+        } catch (error) {
+          // The alert message may be a notification we shouldn't overwrite; fall back to a new message
+        }
+      }
+
+      await ctx.reply(alertsText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error('Show alerts error:', error);
+      await ctx.reply('❌ Failed to load your alerts. Please try again.');
+    }
   }
 
   /**
-   * Handle price command
+   * Pause, resume or delete one of the user's alerts
    */
-  private async handlePriceCommand(ctx: BotContext): Promise<void> {
-    await this.handlePriceMenu(ctx);
+  private async handleAlertAction(ctx: BotContext, action: 'pause' | 'resume' | 'delete', alertId: number): Promise<void> {
+    try {
+      const userId = ctx.userState!.userId;
+      const updated = action === 'pause'
+        ? await this.alertService.pauseAlert(userId, alertId)
+        : action === 'resume'
+          ? await this.alertService.resumeAlert(userId, alertId)
+          : await this.alertService.deleteAlert(userId, alertId);
+
+      if (!updated) {
+        await ctx.answerCbQuery('❌ Alert not found');
+        return;
+      }
+
+      await this.showAlerts(ctx);
+    } catch (error: any) {
+      console.error(`Alert ${action} error:`, error);
+      await ctx.answerCbQuery(`❌ ${error.message || 'Failed to update alert'}`.slice(0, 200));
+    }
   }
 
   /**
-   * Handle panic command (admin only)
+   * Create a price alert 5% above or below the current price from the token price screen
    */
-  private async handlePanicCommand(ctx: BotContext): Promise<void> {
-    if (!this.config.telegram.adminIds.includes(ctx.from?.id || 0)) {
-      return; // Silently ignore non-admin users
+  private async handleQuickAlert(ctx: BotContext, symbol: string, direction: 'up' | 'down'): Promise<void> {
+    try {
+      const currentPrice = await this.priceService.getCurrentPrice(symbol);
+      const target = currentPrice * (direction === 'up' ? 1.05 : 0.95);
+      const threshold = parseFloat(target.toPrecision(6));
+
+      const alert = await this.alertService.createAlert(ctx.userState!.userId, {
+        symbol,
+        metric: 'price',
+        direction: direction === 'up' ? 'above' : 'below',
+        threshold
+      });
+
+      await ctx.answerCbQuery(`🔔 Alert set: ${AlertService.describeCondition(alert)}`);
+    } catch (error: any) {
+      console.error('Quick alert error:', error);
+      await ctx.answerCbQuery(`❌ ${error.message || 'Failed to create alert'}`.slice(0, 200));
     }
-    
-    await ctx.reply('🚨 **Admin Panic Command**\n\nPanic features coming soon!');
   }
 
   /**
-   * Handle position management actions
+   * Show one page of order history with pagination and market filter buttons
    */
-  private async handlePositionAction(ctx: BotContext, action: string, symbol: string): Promise<void> {
+  private async showOrderHistory(ctx: BotContext, filters: OrderHistoryFilters, page: number): Promise<void> {
     if (!ctx.userState?.isLinked) {
       await ctx.reply('❌ Please link your API credentials first using /link');
       return;
     }
 
     try {
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+      const orderHistory = new OrderHistoryService(this.db);
+      const history = await orderHistory.getHistoryPage(ctx.userState.userId, filters, page);
 
-      switch (action) {
-        case 'manage':
-          await this.showPositionManagementMenu(ctx, symbol, apiClient);
-          break;
-        case 'close':
-          await this.handleClosePosition(ctx, symbol, apiClient, 100);
-          break;
-        case 'close_25':
-          await this.handleClosePosition(ctx, symbol, apiClient, 25);
-          break;
-        case 'close_50':
-          await this.handleClosePosition(ctx, symbol, apiClient, 50);
-          break;
-        case 'close_75':
-          await this.handleClosePosition(ctx, symbol, apiClient, 75);
-          break;
-        case 'set_sl':
-          await this.handleSetStopLoss(ctx, symbol);
-          break;
-        case 'set_tp':
-          await this.handleSetTakeProfit(ctx, symbol);
-          break;
-        case 'add_margin':
-          await this.handlePlaceholderAction(ctx, `➕ Add Margin for ${symbol} - Feature coming soon!`);
-          break;
-        case 'reduce_margin':
-          await this.handlePlaceholderAction(ctx, `➖ Reduce Margin for ${symbol} - Feature coming soon!`);
-          break;
-        default:
-          await ctx.reply(`❌ Unknown position action: ${action}`);
+      const pageButton = (label: string, targetPage: number, targetFilters: OrderHistoryFilters) =>
+        Markup.button.callback(label, `orders_page_${targetPage}_${OrderHistoryService.encodeFilters(targetFilters)}`);
+
+      const navigation = [];
+      if (history.page > 1) navigation.push(pageButton('⬅️ Prev', history.page - 1, filters));
+      if (history.page < history.totalPages) navigation.push(pageButton('Next ➡️', history.page + 1, filters));
+
+      const keyboard = Markup.inlineKeyboard([
+        ...(navigation.length > 0 ? [navigation] : []),
+        [
+          pageButton(filters.market === undefined ? '• All •' : 'All', 1, { ...filters, market: undefined }),
+          pageButton(filters.market === 'spot' ? '• Spot •' : 'Spot', 1, { ...filters, market: 'spot' }),
+          pageButton(filters.market === 'perps' ? '• Perps •' : 'Perps', 1, { ...filters, market: 'perps' })
+        ],
+        [
+          Markup.button.callback('🔙 Back', 'main_menu')
+        ]
+      ]);
+
+      if (ctx.callbackQuery) {
+        await ctx.answerCbQuery();
+        try {
+          await ctx.editMessageText(orderHistory.formatHistoryPage(history), { parse_mode: 'Markdown', ...keyboard });
+        } catch (error) {
+          // Tapping the filter that is already active leaves the message unchanged
+          console.warn('[Orders] Could not update order history message:', error);
+        }
+      } else {
+        await ctx.reply(orderHistory.formatHistoryPage(history), { parse_mode: 'Markdown', ...keyboard });
       }
-    } catch (error: any) {
-      console.error(`Position action error for ${symbol}:`, error);
-      await ctx.reply(`❌ Failed to ${action} position for ${symbol}: ${error.message || 'Unknown error'}`);
+    } catch (error) {
+      console.error('Order history error:', error);
+      await ctx.reply('❌ Failed to load order history. Please try again.');
     }
   }
 
   /**
-   * Show position management menu
+   * Handle one-line /buy and /sell commands - parse, preview and ask for confirmation
    */
-  private async showPositionManagementMenu(ctx: BotContext, symbol: string, apiClient: any): Promise<void> {
+  private async handleTradeCommand(ctx: BotContext): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+
+    // Bare /buy or /sell - show usage
+    if (text.trim().split(/\s+/).length < 2) {
+      await ctx.reply(
+        '📝 **One-Line Trading**\n\n' +
+        '**Examples:**\n' +
+        TradeParser.generateExamples().map(example => `• \`${example}\``).join('\n') + '\n\n' +
+        '💡 Size as `100u` is USDT, a plain number is token quantity.',
+        { parse_mode: 'Markdown' }
+      );
+      return;
+    }
+
+    const parsed = TradeParser.parseTradeCommand(text);
+    if (!parsed.success || !parsed.command) {
+      await ctx.reply(
+        `❌ **Invalid Trade Command**\n\n` +
+        `${parsed.errors.map(error => `• ${error}`).join('\n')}\n\n` +
+        `💡 ${parsed.suggestions.join('\n💡 ')}`,
+        { parse_mode: 'Markdown' }
+      );
+      return;
+    }
+
+    const command = parsed.command;
+
+    if (!command.reduceOnly && !(await this.passesTradingHaltCheck(ctx))) {
+      return;
+    }
+
+    if (!command.reduceOnly && !(await this.passesDailyLossCheck(ctx))) {
+      return;
+    }
+
+    if (command.ladder) {
+      await this.handleLadderCommand(ctx, command);
+      return;
+    }
+
+    if (command.orderType === 'LIMIT' && !command.price) {
+      await ctx.reply('❌ Limit orders need a price and are not supported from the command line yet. Use a market order instead.');
+      return;
+    }
+
     try {
-      const positions = await apiClient.getPositionRisk();
-      const position = positions.find((p: any) => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
-      
-      if (!position) {
-        await ctx.reply(`❌ No open position found for ${symbol}`);
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+
+      const exchangeInfo = await apiClient.getExchangeInfo();
+      const symbolInfo = exchangeInfo.symbols.find(s => s.symbol === command.symbol);
+      if (!symbolInfo) {
+        await this.handleSymbolNotFound(ctx, command.symbol, 'perps');
         return;
       }
 
-      const positionAmt = parseFloat(position.positionAmt);
-      const side = positionAmt > 0 ? 'LONG' : 'SHORT';
-      const pnl = parseFloat(position.unrealizedPnl) || 0;
-      const pnlEmoji = pnl >= 0 ? '🟢' : '🔴';
-      
-      const positionText = [
-        `📊 **${symbol} Position Management**`,
+      const filtersManager = new FiltersManager();
+      filtersManager.loadSymbolFilters(symbolInfo);
+      const previewGenerator = new TradePreviewGenerator(filtersManager, new PriceProtectionManager(filtersManager));
+
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+      const userSettings = await settingsManager.getUserSettings(ctx.userState.userId);
+
+      const orderBook = await apiClient.getOrderBook(command.symbol, 50);
+      const result = await previewGenerator.generatePreview(command, orderBook, userSettings);
+
+      if (!result.success || !result.preview) {
+        await ctx.reply(
+          `❌ **Trade Rejected**\n\n` +
+          `**Symbol:** ${command.symbol}\n\n` +
+          `${result.errors.map(error => `• ${error}`).join('\n')}`,
+          { parse_mode: 'Markdown' }
+        );
+        return;
+      }
+
+      // The nonce keys the confirm button's order, so tapping it twice can't place this preview twice
+      const preview = { ...result.preview, nonce: IdempotencyService.newNonce() };
+
+      // Persist the preview so the confirm button works on the next request
+      const conversationState = {
+        step: 'confirming_trade' as const,
+        data: { pendingTrade: preview }
+      };
+      ctx.userState.conversationState = conversationState;
+      ctx.userState.pendingTrade = preview;
+      await this.authMiddleware.setConversationState(ctx.userState.telegramId, conversationState);
+
+      const previewText = [
+        '🧾 **Trade Preview**',
         '',
-        `**Side:** ${side}`,
-        `**Size:** ${Math.abs(positionAmt)}`,
-        `**Entry Price:** $${position.entryPrice}`,
-        `**Leverage:** ${position.leverage}x`,
-        `**${pnlEmoji} P&L:** $${pnl.toFixed(2)}`,
+        previewGenerator.formatPreviewForDisplay(preview),
+        ...(result.warnings.length > 0 ? ['', '⚠️ **Warnings:**', ...result.warnings.map(warning => `• ${warning}`)] : []),
         '',
-        'Choose an action:',
+        '⏳ *Preview expires in 10 minutes.*'
       ].join('\n');
 
       const keyboard = Markup.inlineKeyboard([
         [
-          Markup.button.callback('🔴 Close 25%', `position_close_25_${symbol}`),
-          Markup.button.callback('🔴 Close 50%', `position_close_50_${symbol}`)
-        ],
-        [
-          Markup.button.callback('🔴 Close 75%', `position_close_75_${symbol}`),
-          Markup.button.callback('🔴 Close 100%', `position_close_${symbol}`)
-        ],
-        [
-          Markup.button.callback('🛡️ Set Stop Loss', `position_set_sl_${symbol}`),
-          Markup.button.callback('🎯 Set Take Profit', `position_set_tp_${symbol}`)
-        ],
-        [
-          Markup.button.callback('➕ Add Margin', `position_add_margin_${symbol}`),
-          Markup.button.callback('➖ Reduce Margin', `position_reduce_margin_${symbol}`)
-        ],
-        [
-          Markup.button.callback('🔙 Back to Positions', 'positions')
+          Markup.button.callback('✅ Confirm', 'confirm_trade'),
+          Markup.button.callback('❌ Cancel', 'cancel_trade')
         ]
       ]);
 
-      await ctx.editMessageText(positionText, { parse_mode: 'Markdown', ...keyboard });
-    } catch (error) {
-      console.error('Position management menu error:', error);
-      await ctx.reply('❌ Failed to load position details. Please try again.');
+      await ctx.reply(previewText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error: any) {
+      console.error('[Orchestrator] Trade command error:', error);
+      await ctx.reply(`❌ Failed to prepare trade: ${error.message || 'Unknown error'}`);
     }
   }
 
   /**
-   * Show enhanced execution success message with position management interface
+   * Handle positions command - FULL ORIGINAL IMPLEMENTATION
    */
-  private async showExecutionSuccessWithPositionManagement(
-    ctx: BotContext, 
-    messageId: number,
-    type: 'spot' | 'perps',
-    symbol: string, 
-    action: string,
-    amount: number,
-    leverage?: number,
-    positionSizeUSDT?: number,
-    executedPrice?: number,
-    orderId?: string
-  ): Promise<void> {
+  private async handlePositionsCommand(ctx: BotContext): Promise<void> {
+    // Ensure this is only used in private chats for privacy
+    if (ctx.chat?.type !== 'private') {
+      await ctx.reply(
+        '🔒 **Privacy Protection**\n\n' +
+        'Position data is only available in private chats for your security.\n\n' +
+        '💬 **Please message me directly** to view your positions.',
+        { parse_mode: 'Markdown' }
+      );
+      return;
+    }
+
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
     try {
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      console.log('[POSITIONS] Fetching positions with enhanced data...');
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+      const FuturesAccountService = await import('../services/FuturesAccountService');
+      const futuresService = new FuturesAccountService.FuturesAccountService(apiClient);
       
-      // Get current position/balance info
-      let positionInfo = '';
-      let managementButtons: any[] = [];
+      const openPositions = await futuresService.getOpenPositions();
       
-      if (type === 'perps') {
-        // Get current perp position
-        const positions = await apiClient.getPositionRisk();
-        const position = positions.find((p: any) => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
-        
-        if (position) {
-          const positionAmt = parseFloat(position.positionAmt);
-          const side = positionAmt > 0 ? 'LONG' : 'SHORT';
-          const pnl = parseFloat(position.unrealizedPnl) || 0;
-          const pnlEmoji = pnl >= 0 ? '🟢' : '🔴';
-          const sideEmoji = side === 'LONG' ? '🟢' : '🔴';
-          
-          positionInfo = [
-            '',
-            '📊 **Current Position Status:**',
-            `${sideEmoji} **${side}** ${Math.abs(positionAmt).toFixed(4)} ${symbol.replace('USDT', '')}`,
-            `💰 **Entry Price:** $${position.entryPrice}`,
-            `⚡ **Leverage:** ${position.leverage}x`,
-            `${pnlEmoji} **Unrealized P&L:** ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)}`,
-            `📈 **Current Value:** $${(Math.abs(positionAmt) * parseFloat(position.entryPrice)).toFixed(2)}`
-          ].join('\n');
-          
-          managementButtons = [
-            [
-              Markup.button.callback('🔴 Close 25%', `position_close_25_${symbol}`),
-              Markup.button.callback('🔴 Close 50%', `position_close_50_${symbol}`)
-            ],
-            [
-              Markup.button.callback('🔴 Close 75%', `position_close_75_${symbol}`),
-              Markup.button.callback('🔴 Close All', `position_close_${symbol}`)
-            ]
-          ];
-        }
-      } else {
-        // Spot balance display simplified for now until full spot API is available
-        positionInfo = [
-          '',
-          '💼 **Spot Trade Completed**',
-          `✅ Order executed successfully`,
-          `📊 View your balances in the main menu`
-        ].join('\n');
-        
-        managementButtons = [
+      if (openPositions.length === 0) {
+        const keyboard = Markup.inlineKeyboard([
           [
-            Markup.button.callback('💰 View Balance', 'balance'),
-            Markup.button.callback('📈 Trade Again', 'trade_spot')
+            Markup.button.callback('📈 Start Trading', 'unified_trade'),
+            Markup.button.callback('💰 Balance', 'balance')
+          ],
+          [
+            Markup.button.callback('🔙 Back', 'main_menu')
           ]
-        ];
+        ]);
+        
+        await ctx.reply('📊 **No Open Positions**\n\nYou don\'t have any open futures positions.\n\nUse the trading interface to open positions!', { parse_mode: 'Markdown', ...keyboard });
+        return;
       }
-      
-      // Create success message
-      const actionEmoji = action.toLowerCase().includes('buy') || action.toLowerCase().includes('long') ? '🟢' : '🔴';
-      const typeLabel = type === 'perps' ? 'Futures' : 'Spot';
-      
-      let successText = [
-        `✅ **${typeLabel} ${action} Order Executed Successfully!**`,
-        '',
-        `${actionEmoji} **Symbol:** ${symbol}`,
-        `💰 **Amount:** $${(positionSizeUSDT || amount).toFixed(2)}`,
-        leverage ? `⚡ **Leverage:** ${leverage}x` : '',
-        executedPrice ? `💱 **Executed Price:** $${executedPrice.toFixed(4)}` : '',
-        orderId ? `🔗 **Order ID:** \`${orderId}\`` : ''
-      ].filter(line => line !== '').join('\n');
-      
-      // Add position info if available
-      if (positionInfo) {
-        successText += positionInfo;
+
+      // Margin analytics are extra detail; the positions still show if the account call fails
+      const marginReport = await this.marginRiskService.analyze(apiClient, openPositions).catch(error => {
+        console.warn('[POSITIONS] Margin analytics unavailable:', error);
+        return null;
+      });
+
+      let positionsText = '📊 **Open Positions**\n\n';
+      if (marginReport) {
+        positionsText += this.marginRiskService.formatAccountSummary(marginReport) + '\n\n';
       }
       
-      // Create keyboard with management options
+      openPositions.forEach((position, index) => {
+        const sideEmoji = position.side === 'LONG' ? '🟢' : '🔴';
+        const sideText = `${sideEmoji} ${position.side}${position.positionSide !== 'BOTH' ? ' (hedge)' : ''}`;
+        
+        // Use real-time PnL if available, fallback to API PnL
+        const displayPnl = position.realTimeUnrealizedPnl ?? position.unrealizedPnl;
+        const displayPnlPercent = position.realTimePnlPercent ?? position.pnlPercent;
+        
+        const pnlEmoji = displayPnl >= 0 ? '📈' : '📉';
+        const pnlColor = displayPnl >= 0 ? '🟢' : '🔴';
+        
+        // Debug logging
+        console.log(`[POSITIONS] ${position.symbol}: API PnL=${position.unrealizedPnl}, Real-time PnL=${position.realTimeUnrealizedPnl}, Current Price=${position.currentPrice}`);
+        
+        positionsText += [
+          `**${position.symbol}** ${sideText}`,
+          `• Size: ${position.notional.toFixed(2)} USDT`,
+          `• Entry: $${position.entryPrice.toFixed(4)}`,
+          position.currentPrice ? `• Current: $${position.currentPrice.toFixed(4)}` : '',
+          `• Leverage: ${position.leverage}x`,
+          `• ${pnlColor} ${pnlEmoji} PnL: ${displayPnl >= 0 ? '+' : ''}$${displayPnl.toFixed(2)} (${displayPnlPercent >= 0 ? '+' : ''}${displayPnlPercent.toFixed(1)}%)`,
+          ...(marginReport ? this.marginRiskService.formatPositionLines(marginReport.positions[index]) : []),
+          position.currentPrice ? '' : '⚠️ (Real-time price unavailable)',
+          '',
+        ].filter(Boolean).join('\n');
+      });
+
+      // Enhanced positions with quick trading buttons and refresh functionality
       const keyboard = Markup.inlineKeyboard([
-        ...managementButtons,
+        // Each leg of a hedged symbol is its own row, managed on its own
+        ...openPositions.map(pos => [
+          Markup.button.callback(
+            `📊 ${pos.symbol}${pos.positionSide !== 'BOTH' ? ` ${pos.side}` : ''}`,
+            `position_manage_${BotOrchestrator.positionRef(pos.symbol, pos.positionSide)}`
+          ),
+          Markup.button.callback(`⚡ Quick Trade`, `quick_trade_${pos.symbol}`)
+        ]),
         [
-          Markup.button.callback('🔄 Refresh P&L', `refresh_position_${symbol}`),
-          Markup.button.callback('📊 View All Positions', 'positions')
+          Markup.button.callback('🔄 Refresh', 'positions'),
+          Markup.button.callback('📈 P&L Analysis', 'pnl_analysis')
         ],
         [
-          Markup.button.callback('📈 Trade Again', type === 'perps' ? 'trade_perps' : 'trade_spot'),
-          Markup.button.callback('🏠 Main Menu', 'main_menu')
+          Markup.button.callback('📋 Open Orders', 'open_orders'),
+          Markup.button.callback('🚨 Close All Positions', 'close_all_positions')
+        ],
+        [
+          Markup.button.callback('⚠️ Margin Alerts', 'margin_alerts')
         ]
       ]);
-      
-      await ctx.telegram.editMessageText(
-        ctx.chat?.id,
-        messageId,
-        undefined,
-        successText,
-        { 
-          parse_mode: 'Markdown', 
-          ...keyboard 
-        }
-      );
-      
+
+      try {
+        await ctx.editMessageText(positionsText, { parse_mode: 'Markdown', ...keyboard });
+        console.log('[POSITIONS] Successfully displayed enhanced position data via edit');
+      } catch (error) {
+        await ctx.reply(positionsText, { parse_mode: 'Markdown', ...keyboard });
+        console.log('[POSITIONS] Successfully displayed enhanced position data via reply');
+      }
+
     } catch (error) {
-      console.error('Error showing execution success with position management:', error);
-      throw error;
+      console.error('Positions command error:', error);
+      await ctx.reply('❌ Failed to fetch positions. Please try again.');
     }
   }
 
   /**
-   * Handle quick trade for a symbol - provides quick trading options
+   * Handle balance command
    */
-  private async handleQuickTrade(ctx: BotContext, symbol: string): Promise<void> {
+  private async handleBalanceCommand(ctx: BotContext): Promise<void> {
+    // Ensure this is only used in private chats for privacy
+    if (ctx.chat?.type !== 'private') {
+      await ctx.reply(
+        '🔒 **Privacy Protection**\n\n' +
+        'Balance information is only available in private chats for your security.\n\n' +
+        '💬 **Please message me directly** to view your balance.',
+        { parse_mode: 'Markdown' }
+      );
+      return;
+    }
+
     if (!ctx.userState?.isLinked) {
       await ctx.reply('❌ Please link your API credentials first using /link');
       return;
@@ -2222,2262 +3059,6016 @@ Keys encrypted. Not your keys, not your coins.
     try {
       const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
       
-      // Get current position info
-      const positions = await apiClient.getPositionRisk();
-      const position = positions.find((p: any) => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+      const [SpotAccountService, FuturesAccountService] = await Promise.all([
+        import('../services/SpotAccountService'),
+        import('../services/FuturesAccountService')
+      ]);
       
-      // Get current price
-      const currentPrice = await this.priceService.getCurrentPrice(symbol);
+      const spotService = new SpotAccountService.SpotAccountService(apiClient);
+      const futuresService = new FuturesAccountService.FuturesAccountService(apiClient);
       
-      let quickTradeText = `⚡ **Quick Trade ${symbol}**\n\n`;
-      quickTradeText += `💵 **Current Price:** $${currentPrice.toFixed(6)}\n\n`;
+      const [spotSummary, futuresSummary] = await Promise.all([
+        spotService.getPortfolioSummary().catch(() => null),
+        futuresService.getPortfolioSummary().catch(() => null)
+      ]);
       
-      if (position) {
-        const positionAmt = parseFloat(position.positionAmt);
-        const side = positionAmt > 0 ? 'LONG' : 'SHORT';
-        const pnl = parseFloat(position.unrealizedPnl) || 0;
-        const pnlEmoji = pnl >= 0 ? '🟢' : '🔴';
-        
-        quickTradeText += `📊 **Current Position:**\n`;
-        quickTradeText += `• Side: ${side}\n`;
-        quickTradeText += `• Size: ${Math.abs(positionAmt)} (${(Math.abs(positionAmt) * parseFloat(position.entryPrice)).toFixed(2)} USDT)\n`;
-        quickTradeText += `• Entry: $${position.entryPrice}\n`;
-        quickTradeText += `• ${pnlEmoji} P&L: $${pnl.toFixed(2)}\n\n`;
-        
-        quickTradeText += `🎯 **Quick Actions:**`;
-      } else {
-        quickTradeText += `📊 **No Current Position**\n\n🎯 **Start Trading:**`;
+      let balanceText = '💰 **Account Balance**\n\n';
+      
+      if (spotSummary) {
+        balanceText += `🏪 **Spot**: $${spotSummary.totalUsdValue.toFixed(2)}\n`;
       }
-
-      // Create quick trading buttons
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('🟢 Long $25', `perps_execute_buy_${symbol}_25u_5x`),
-          Markup.button.callback('🔴 Short $25', `perps_execute_sell_${symbol}_25u_5x`)
-        ],
-        [
-          Markup.button.callback('🟢 Long $50', `perps_execute_buy_${symbol}_50u_5x`),
-          Markup.button.callback('🔴 Short $50', `perps_execute_sell_${symbol}_50u_5x`)
-        ],
-        [
-          Markup.button.callback('🟢 Long $100', `perps_execute_buy_${symbol}_100u_5x`),
-          Markup.button.callback('🔴 Short $100', `perps_execute_sell_${symbol}_100u_5x`)
-        ],
-        position ? [
-          Markup.button.callback('📊 Manage Position', `position_manage_${symbol}`),
-          Markup.button.callback('🔴 Close Position', `position_close_${symbol}`)
-        ] : [
-          Markup.button.callback('🎯 Custom Amount', `perps_custom_amount_buy_${symbol}`),
-          Markup.button.callback('📈 Full Trading', 'trade_perps')
-        ],
-        [
-          Markup.button.callback('🔙 Back to Positions', 'positions')
-        ]
-      ]);
-
-      await ctx.editMessageText(quickTradeText, { parse_mode: 'Markdown', ...keyboard });
-
+      
+      if (futuresSummary) {
+        balanceText += `⚡ **Futures**: $${futuresSummary.totalWalletBalance.toFixed(2)}\n`;
+        if (futuresSummary.openPositions.length > 0) {
+          balanceText += `📊 Unrealized P&L: ${futuresSummary.totalUnrealizedPnl >= 0 ? '+' : ''}$${futuresSummary.totalUnrealizedPnl.toFixed(2)}\n`;
+        }
+      }
+      
+      await ctx.reply(balanceText, { parse_mode: 'Markdown' });
     } catch (error) {
-      console.error('Quick trade error:', error);
-      await ctx.reply(`❌ Failed to load quick trade for ${symbol}. Please try again.`);
+      console.error('Balance command error:', error);
+      await ctx.reply('❌ Failed to load balance. Please try again.');
     }
   }
 
   /**
-   * Handle closing position (full or partial)
+   * Handle spot assets command - displays assets not positions
    */
-  private async handleClosePosition(ctx: BotContext, symbol: string, apiClient: any, percentage: number): Promise<void> {
-    try {
-      await ctx.answerCbQuery(`🔄 Closing ${percentage}% of ${symbol} position...`);
-      
-      const processingMsg = await ctx.reply(
-        `🔄 **Closing Position**\n\n` +
-        `**Symbol:** ${symbol}\n` +
-        `**Amount:** ${percentage}%\n\n` +
-        `⏳ Processing closure...`,
-        { parse_mode: 'Markdown' }
-      );
-
-      // Use the existing closePosition method from AsterApiClient
-      const result = await apiClient.closePosition(symbol, percentage);
-      
-      await ctx.telegram.editMessageText(
-        ctx.chat?.id,
-        processingMsg.message_id,
-        undefined,
-        `✅ **Position Closed Successfully**\n\n` +
-        `**Symbol:** ${symbol}\n` +
-        `**Amount:** ${percentage}%\n` +
-        `**Order ID:** ${result.orderId}\n` +
-        `**Status:** ${result.status}\n\n` +
-        `🎉 Position closure completed!\n\n` +
-        `Use /positions to view updated positions.`,
-        { parse_mode: 'Markdown' }
-      );
-
-      // Emit event
-      this.eventEmitter.emitEvent({
-        type: EventTypes.TRADE_EXECUTED,
-        timestamp: new Date(),
-        userId: ctx.userState!.userId,
-        telegramId: ctx.userState!.telegramId,
-        correlationId: ctx.correlationId,
-        symbol,
-        action: 'CLOSE',
-        amount: percentage,
-        orderId: result.orderId
-      });
-
-    } catch (error: any) {
-      console.error('Close position error:', error);
-      await ctx.reply(`❌ **Position Closure Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`);
+  private async handleSpotAssetsCommand(ctx: BotContext): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
     }
-  }
 
-  /**
-   * Handle setting stop loss for a position
-   */
-  private async handleSetStopLoss(ctx: BotContext, symbol: string): Promise<void> {
     try {
-      await ctx.answerCbQuery('🛡️ Setting up Stop Loss...');
-      
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+      const SpotAccountService = await import('../services/SpotAccountService');
+      const spotService = new SpotAccountService.SpotAccountService(apiClient);
       
-      // Get current position
-      const positions = await apiClient.getPositionRisk();
-      const position = positions.find((p: any) => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+      const spotSummary = await spotService.getPortfolioSummary();
       
-      if (!position) {
-        await ctx.reply(`❌ **No Open Position**\n\n**Symbol:** ${symbol}\n\nYou don't have an open position for this symbol.`);
+      if (spotSummary.totalAssets === 0) {
+        const keyboard = Markup.inlineKeyboard([
+          [
+            Markup.button.callback('📈 Start Trading', 'trade_spot'),
+            Markup.button.callback('💰 Balance', 'balance')
+          ],
+          [
+            Markup.button.callback('🔙 Back', 'main_menu')
+          ]
+        ]);
+        
+        await ctx.reply('🏪 **No Spot Assets**\n\nYou don\'t have any spot assets.\n\nUse the trading interface to buy some assets!', { parse_mode: 'Markdown', ...keyboard });
         return;
       }
+
+      let assetsText = `🏪 **Spot Assets** • $${spotSummary.totalUsdValue.toFixed(2)}\n\n`;
       
-      const positionSize = parseFloat(position.positionAmt);
-      const entryPrice = parseFloat(position.entryPrice);
-      const isLong = positionSize > 0;
-      
-      // Calculate suggested stop loss levels (risk percentages)
-      const risk5Pct = isLong ? entryPrice * 0.95 : entryPrice * 1.05;
-      const risk10Pct = isLong ? entryPrice * 0.90 : entryPrice * 1.10;
-      const risk15Pct = isLong ? entryPrice * 0.85 : entryPrice * 1.15;
-      const risk20Pct = isLong ? entryPrice * 0.80 : entryPrice * 1.20;
-      
-      const stopLossText = [
-        `🛡️ **Set Stop Loss for ${symbol}**`,
-        `📍 **Position:** ${isLong ? 'LONG' : 'SHORT'} ${Math.abs(positionSize)} ${symbol.replace('USDT', '')}`,
-        `💰 **Entry Price:** $${entryPrice.toFixed(6)}`,
-        `📊 **Current Price:** $${entryPrice.toFixed(6)}`,
-        `${isLong ? '📉' : '📈'} **Unrealized PnL:** ${parseFloat(position.unrealizedPnl).toFixed(2)} USDT`,
-        '',
-        '🎯 **Choose Stop Loss Level:**'
-      ].join('\n');
-      
+      // Show main assets (>= $10 value)
+      if (spotSummary.mainAssets.length > 0) {
+        assetsText += '**📊 Main Assets:**\n';
+        spotSummary.mainAssets.forEach((asset, index) => {
+          const percentage = spotSummary.totalUsdValue > 0 ? (asset.usdValue! / spotSummary.totalUsdValue * 100) : 0;
+          const emoji = index === 0 ? '▸' : '▫';
+          assetsText += `${emoji} **${asset.asset}**: $${asset.usdValue!.toFixed(2)} (${percentage.toFixed(1)}%)\n`;
+          assetsText += `   Amount: ${asset.total.toFixed(6)}\n`;
+          if (parseFloat(asset.locked) > 0) {
+            assetsText += `   Locked: ${parseFloat(asset.locked).toFixed(6)}\n`;
+          }
+          assetsText += '\n';
+        });
+      }
+
+      // Show small balances if any
+      if (spotSummary.smallBalances.length > 0) {
+        const smallTotal = spotSummary.smallBalances.reduce((sum, b) => sum + (b.usdValue || 0), 0);
+        assetsText += `**🔹 Small Assets** (${spotSummary.smallBalances.length} assets):\n`;
+        assetsText += `Total Value: $${smallTotal.toFixed(2)}\n\n`;
+        
+        // Show first few small assets
+        spotSummary.smallBalances.slice(0, 5).forEach(asset => {
+          assetsText += `▫ ${asset.asset}: ${asset.total.toFixed(6)} ($${(asset.usdValue || 0).toFixed(2)})\n`;
+        });
+        
+        if (spotSummary.smallBalances.length > 5) {
+          assetsText += `▫ +${spotSummary.smallBalances.length - 5} more...\n`;
+        }
+      }
+
       const keyboard = Markup.inlineKeyboard([
         [
-          Markup.button.callback(`5% Risk ($${risk5Pct.toFixed(6)})`, `sl_set_${symbol}_${risk5Pct.toFixed(6)}_5`),
-          Markup.button.callback(`10% Risk ($${risk10Pct.toFixed(6)})`, `sl_set_${symbol}_${risk10Pct.toFixed(6)}_10`)
-        ],
-        [
-          Markup.button.callback(`15% Risk ($${risk15Pct.toFixed(6)})`, `sl_set_${symbol}_${risk15Pct.toFixed(6)}_15`),
-          Markup.button.callback(`20% Risk ($${risk20Pct.toFixed(6)})`, `sl_set_${symbol}_${risk20Pct.toFixed(6)}_20`)
-        ],
-        [
-          Markup.button.callback('📝 Custom Price', `sl_custom_${symbol}`),
-          Markup.button.callback('📊 Market Price', `sl_market_${symbol}`)
+          Markup.button.callback('🔄 Refresh Assets', 'spot_assets'),
+          Markup.button.callback('📈 Trade Spot', 'trade_spot')
         ],
         [
-          Markup.button.callback('🔙 Back to Position', `position_${symbol}`)
+          Markup.button.callback('💰 Full Balance', 'balance'),
+          Markup.button.callback('🔙 Back', 'main_menu')
         ]
       ]);
-      
-      await this.safeEditMessageText(ctx, stopLossText, { parse_mode: 'Markdown', ...keyboard });
-      
-    } catch (error: any) {
-      console.error('Set stop loss error:', error);
-      await ctx.reply(`❌ **Stop Loss Setup Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`);
+
+      await ctx.reply(assetsText, { parse_mode: 'Markdown', ...keyboard });
+
+    } catch (error) {
+      console.error('[Orchestrator] Spot assets command error:', error);
+      await ctx.reply('❌ Failed to load spot assets. Please try again.');
     }
   }
 
   /**
-   * Handle setting take profit for a position
+   * Handle P&L command
    */
-  private async handleSetTakeProfit(ctx: BotContext, symbol: string): Promise<void> {
-    try {
-      await ctx.answerCbQuery('🎯 Setting up Take Profit...');
-      
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
-      
-      // Get current position
-      const positions = await apiClient.getPositionRisk();
-      const position = positions.find((p: any) => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
-      
-      if (!position) {
-        await ctx.reply(`❌ **No Open Position**\n\n**Symbol:** ${symbol}\n\nYou don't have an open position for this symbol.`);
-        return;
-      }
-      
-      const positionSize = parseFloat(position.positionAmt);
-      const entryPrice = parseFloat(position.entryPrice);
-      const isLong = positionSize > 0;
-      
-      // Calculate suggested take profit levels (profit percentages)
-      const profit10Pct = isLong ? entryPrice * 1.10 : entryPrice * 0.90;
-      const profit25Pct = isLong ? entryPrice * 1.25 : entryPrice * 0.75;
-      const profit50Pct = isLong ? entryPrice * 1.50 : entryPrice * 0.50;
-      const profit100Pct = isLong ? entryPrice * 2.00 : entryPrice * 0.50;
-      
-      const takeProfitText = [
-        `🎯 **Set Take Profit for ${symbol}**`,
-        `📍 **Position:** ${isLong ? 'LONG' : 'SHORT'} ${Math.abs(positionSize)} ${symbol.replace('USDT', '')}`,
-        `💰 **Entry Price:** $${entryPrice.toFixed(6)}`,
-        `📊 **Current Price:** $${entryPrice.toFixed(6)}`,
-        `${isLong ? '📈' : '📉'} **Unrealized PnL:** ${parseFloat(position.unrealizedPnl).toFixed(2)} USDT`,
-        '',
-        '💰 **Choose Take Profit Level:**'
-      ].join('\n');
-      
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback(`10% Profit ($${profit10Pct.toFixed(6)})`, `tp_set_${symbol}_${profit10Pct.toFixed(6)}_10`),
-          Markup.button.callback(`25% Profit ($${profit25Pct.toFixed(6)})`, `tp_set_${symbol}_${profit25Pct.toFixed(6)}_25`)
-        ],
-        [
-          Markup.button.callback(`50% Profit ($${profit50Pct.toFixed(6)})`, `tp_set_${symbol}_${profit50Pct.toFixed(6)}_50`),
-          Markup.button.callback(`100% Profit ($${profit100Pct.toFixed(6)})`, `tp_set_${symbol}_${profit100Pct.toFixed(6)}_100`)
-        ],
-        [
-          Markup.button.callback('📝 Custom Price', `tp_custom_${symbol}`),
-          Markup.button.callback('📊 Market Price', `tp_market_${symbol}`)
-        ],
-        [
-          Markup.button.callback('🔙 Back to Position', `position_${symbol}`)
-        ]
-      ]);
-      
-      await this.safeEditMessageText(ctx, takeProfitText, { parse_mode: 'Markdown', ...keyboard });
-      
-    } catch (error: any) {
-      console.error('Set take profit error:', error);
-      await ctx.reply(`❌ **Take Profit Setup Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`);
+  private async handlePnLCommand(ctx: BotContext): Promise<void> {
+    // Ensure this is only used in private chats for privacy
+    if (ctx.chat?.type !== 'private') {
+      await ctx.reply(
+        '🔒 **Privacy Protection**\n\n' +
+        'P&L information is only available in private chats for your security.\n\n' +
+        '💬 **Please message me directly** to view your P&L.',
+        { parse_mode: 'Markdown' }
+      );
+      return;
     }
+
+    await this.handlePositionsCommand(ctx); // Reuse positions display for now
   }
 
   /**
-   * Execute stop loss order
+   * Handle spot command
    */
-  private async handleExecuteStopLoss(ctx: BotContext, symbol: string, stopPrice: number, riskPercent: number): Promise<void> {
-    try {
-      await ctx.answerCbQuery(`🛡️ Setting ${riskPercent}% risk stop loss...`);
-      
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
-      
-      // Execute the stop loss order
-      const result = await apiClient.setStopLoss(symbol, stopPrice);
-      
-      const successText = [
-        `✅ **Stop Loss Set Successfully**`,
-        '',
-        `🛡️ **Symbol:** ${symbol}`,
-        `💰 **Stop Price:** $${await this.formatPriceWithPrecision(apiClient, symbol, stopPrice)}`,
-        `📊 **Risk Level:** ${riskPercent}%`,
-        `🆔 **Order ID:** ${result.orderId}`,
-        '',
-        '⚠️ *Your position is now protected with a stop loss order.*'
-      ].join('\n');
-      
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('📊 View Position', `position_${symbol}`),
-          Markup.button.callback('🎯 Set Take Profit', `position_set_tp_${symbol}`)
-        ],
-        [
-          Markup.button.callback('🔙 Back to Positions', 'positions_menu')
-        ]
-      ]);
-      
-      await this.safeEditMessageText(ctx, successText, { parse_mode: 'Markdown', ...keyboard });
-      
-      // Emit event
-      this.eventEmitter.emitEvent({
-        type: EventTypes.TRADE_EXECUTED,
-        timestamp: new Date(),
-        userId: ctx.userState!.userId,
-        telegramId: ctx.userState!.telegramId,
-        correlationId: ctx.correlationId,
-        symbol,
-        action: 'STOP_LOSS',
-        price: stopPrice.toString(),
-        orderId: result.orderId
-      });
-      
-    } catch (error: any) {
-      console.error('Execute stop loss error:', error);
-      await ctx.reply(`❌ **Stop Loss Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`);
-    }
+  private async handleSpotCommand(ctx: BotContext): Promise<void> {
+    await this.tradingHandler.handleSpotTrading(ctx);
   }
 
   /**
-   * Execute take profit order
+   * Handle price command
    */
-  private async handleExecuteTakeProfit(ctx: BotContext, symbol: string, targetPrice: number, profitPercent: number): Promise<void> {
-    try {
-      await ctx.answerCbQuery(`🎯 Setting ${profitPercent}% profit target...`);
-      
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
-      
-      // Execute the take profit order
-      const result = await apiClient.setTakeProfit(symbol, targetPrice);
-      
-      const successText = [
-        `✅ **Take Profit Set Successfully**`,
-        '',
-        `🎯 **Symbol:** ${symbol}`,
-        `💰 **Target Price:** $${await this.formatPriceWithPrecision(apiClient, symbol, targetPrice)}`,
-        `📊 **Profit Target:** ${profitPercent}%`,
-        `🆔 **Order ID:** ${result.orderId}`,
-        '',
-        '💰 *Your position will close automatically when target is reached.*'
-      ].join('\n');
-      
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('📊 View Position', `position_${symbol}`),
-          Markup.button.callback('🛡️ Set Stop Loss', `position_set_sl_${symbol}`)
-        ],
-        [
-          Markup.button.callback('🔙 Back to Positions', 'positions_menu')
-        ]
-      ]);
-      
-      await this.safeEditMessageText(ctx, successText, { parse_mode: 'Markdown', ...keyboard });
-      
-      // Emit event
-      this.eventEmitter.emitEvent({
-        type: EventTypes.TRADE_EXECUTED,
-        timestamp: new Date(),
-        userId: ctx.userState!.userId,
-        telegramId: ctx.userState!.telegramId,
-        correlationId: ctx.correlationId,
-        symbol,
-        action: 'TAKE_PROFIT',
-        price: targetPrice.toString(),
-        orderId: result.orderId
-      });
-      
-    } catch (error: any) {
-      console.error('Execute take profit error:', error);
-      await ctx.reply(`❌ **Take Profit Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`);
-    }
+  private async handlePriceCommand(ctx: BotContext): Promise<void> {
+    await this.handlePriceMenu(ctx);
   }
 
   /**
-   * Handle custom stop loss price input
+   * Handle panic command (admin only): /panic [halt|flatten|resume] [reason]
    */
-  private async handleCustomStopLoss(ctx: BotContext, symbol: string): Promise<void> {
-    try {
-      await ctx.answerCbQuery('📝 Enter custom stop loss price...');
-      
-      const customText = [
-        `📝 **Custom Stop Loss for ${symbol}**`,
-        '',
-        '🛡️ **Enter your stop loss price:**',
-        '',
-        '⚠️ *Please enter the exact price where you want the stop loss to trigger.*',
-        '',
-        '💡 **Tips:**',
-        '• For LONG positions: Enter price BELOW current price',
-        '• For SHORT positions: Enter price ABOVE current price',
-        '• Use decimal format (e.g. 42.1234)'
-      ].join('\n');
-      
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('🔙 Back to Stop Loss', `position_set_sl_${symbol}`)
-        ]
-      ]);
-      
-      await this.safeEditMessageText(ctx, customText, { parse_mode: 'Markdown', ...keyboard });
-      
-      // Set user state to expect SL price input
-      if (ctx.userState) {
-        ctx.userState.conversationState = {
-          step: 'waiting_custom_pair',
-          data: { symbol, action: 'stop_loss' }
-        };
-      }
-      
-    } catch (error: any) {
-      console.error('Custom stop loss error:', error);
-      await ctx.reply(`❌ **Setup Failed**\n\n**Error:** ${error.message || 'Unknown error'}`);
+  private async handlePanicCommand(ctx: BotContext): Promise<void> {
+    if (!this.isAdmin(ctx)) {
+      return; // Silently ignore non-admin users
+    }
+
+    const text = ctx.message && 'text' in ctx.message ? ctx.message.text : '';
+    const [, rawMode, ...reasonParts] = text.trim().split(/\s+/);
+    const mode = rawMode?.toLowerCase();
+    const panicService = new PanicService(this.db, this.apiClientService);
+
+    if (mode !== 'halt' && mode !== 'flatten' && mode !== 'resume') {
+      const haltState = await panicService.getHaltState();
+      await ctx.reply(
+        '🚨 **Admin Panic Controls**\n\n' +
+        `${panicService.formatHaltStatus(haltState)}\n\n` +
+        '**Usage:**\n' +
+        '`/panic halt [reason]` - Disable new orders for everyone\n' +
+        '`/panic flatten [reason]` - Halt, cancel all open orders and close all positions\n' +
+        '`/panic resume` - Lift the halt',
+        { parse_mode: 'Markdown' }
+      );
+      return;
     }
+
+    const reason = reasonParts.join(' ').trim() || null;
+    const conversationState = {
+      step: 'confirming_panic' as const,
+      data: { panic: { mode: mode as PanicMode, reason, armed: false } }
+    };
+
+    ctx.userState!.conversationState = conversationState;
+    await this.authMiddleware.setConversationState(ctx.userState!.telegramId, conversationState);
+
+    await ctx.reply(
+      `⚠️ **Confirm Panic ${this.describePanicMode(mode)}**\n\n` +
+      `${this.describePanicEffect(mode)}\n\n` +
+      (reason ? `**Reason:** ${reason}\n\n` : '') +
+      'Step 1 of 2: tap **Arm** to continue.',
+      {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('⚠️ Arm', 'panic_arm')],
+          [Markup.button.callback('❌ Cancel', 'panic_cancel')]
+        ])
+      }
+    );
   }
 
   /**
-   * Handle custom take profit price input
+   * First panic confirmation step: arm the pending mode
    */
-  private async handleCustomTakeProfit(ctx: BotContext, symbol: string): Promise<void> {
-    try {
-      await ctx.answerCbQuery('📝 Enter custom take profit price...');
-      
-      const customText = [
-        `📝 **Custom Take Profit for ${symbol}**`,
-        '',
-        '🎯 **Enter your take profit price:**',
-        '',
-        '⚠️ *Please enter the exact price where you want to take profits.*',
-        '',
-        '💡 **Tips:**',
-        '• For LONG positions: Enter price ABOVE current price',
-        '• For SHORT positions: Enter price BELOW current price',
-        '• Use decimal format (e.g. 42.1234)'
-      ].join('\n');
-      
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('🔙 Back to Take Profit', `position_set_tp_${symbol}`)
-        ]
-      ]);
-      
-      await this.safeEditMessageText(ctx, customText, { parse_mode: 'Markdown', ...keyboard });
-      
-      // Set user state to expect TP price input
-      if (ctx.userState) {
-        ctx.userState.conversationState = {
-          step: 'waiting_custom_pair',
-          data: { symbol, action: 'take_profit' }
-        };
-      }
-      
-    } catch (error: any) {
-      console.error('Custom take profit error:', error);
-      await ctx.reply(`❌ **Setup Failed**\n\n**Error:** ${error.message || 'Unknown error'}`);
+  private async handlePanicArm(ctx: BotContext): Promise<void> {
+    const panic = this.getPendingPanic(ctx);
+    if (!this.isAdmin(ctx) || !panic) {
+      await ctx.answerCbQuery('❌ No pending panic action');
+      return;
     }
+
+    const conversationState = {
+      step: 'confirming_panic' as const,
+      data: { panic: { ...panic, armed: true } }
+    };
+
+    ctx.userState!.conversationState = conversationState;
+    await this.authMiddleware.setConversationState(ctx.userState!.telegramId, conversationState);
+
+    await ctx.answerCbQuery('⚠️ Armed');
+    await ctx.editMessageText(
+      `🚨 **Panic ${this.describePanicMode(panic.mode)} Armed**\n\n` +
+      `${this.describePanicEffect(panic.mode)}\n\n` +
+      (panic.reason ? `**Reason:** ${panic.reason}\n\n` : '') +
+      'Step 2 of 2: tap **Execute** to run it now.',
+      {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback(`🚨 Execute ${this.describePanicMode(panic.mode)}`, 'panic_execute')],
+          [Markup.button.callback('❌ Cancel', 'panic_cancel')]
+        ])
+      }
+    );
   }
 
   /**
-   * Handle market price stop loss (current price)
+   * Second panic confirmation step: run the armed mode
    */
-  private async handleMarketStopLoss(ctx: BotContext, symbol: string): Promise<void> {
+  private async handlePanicExecute(ctx: BotContext): Promise<void> {
+    const panic = this.getPendingPanic(ctx);
+    if (!this.isAdmin(ctx) || !panic?.armed) {
+      await ctx.answerCbQuery('❌ No armed panic action');
+      return;
+    }
+
+    const adminId = ctx.from!.id;
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+    await ctx.answerCbQuery('🚨 Executing...');
+
+    const panicService = new PanicService(this.db, this.apiClientService);
+
     try {
-      await ctx.answerCbQuery('📊 Setting stop loss at market price...');
-      
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
-      
-      // Get current mark price
-      const ticker = await apiClient.get24hrTicker(symbol);
-      const currentPrice = parseFloat(ticker.lastPrice);
-      
-      // Execute stop loss at current market price
-      const result = await apiClient.setStopLoss(symbol, currentPrice);
-      
-      const successText = [
-        `✅ **Market Stop Loss Set**`,
-        '',
-        `🛡️ **Symbol:** ${symbol}`,
-        `💰 **Stop Price:** $${await this.formatPriceWithPrecision(apiClient, symbol, currentPrice)} (Market)`,
-        `🆔 **Order ID:** ${result.orderId}`,
-        '',
-        '⚠️ *Stop loss set at current market price.*'
-      ].join('\n');
-      
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('📊 View Position', `position_${symbol}`),
-          Markup.button.callback('🔙 Back to Positions', 'positions_menu')
-        ]
-      ]);
-      
-      await this.safeEditMessageText(ctx, successText, { parse_mode: 'Markdown', ...keyboard });
-      
+      if (panic.mode === 'halt') {
+        const haltState = await panicService.halt(adminId, panic.reason);
+        await ctx.editMessageText(
+          `${panicService.formatHaltStatus(haltState)}\n\nNew orders are disabled for all users. Closes and reduce-only orders still work.`,
+          { parse_mode: 'Markdown' }
+        );
+        return;
+      }
+
+      if (panic.mode === 'resume') {
+        await panicService.resume(adminId);
+        await ctx.editMessageText(`${panicService.formatHaltStatus(await panicService.getHaltState())}\n\nNew orders are enabled again.`, {
+          parse_mode: 'Markdown'
+        });
+        return;
+      }
+
+      await ctx.editMessageText('🚨 **Flattening All Accounts...**\n\nTrading halted. Starting...', { parse_mode: 'Markdown' });
+      const chatId = ctx.chat!.id;
+      const messageId = ctx.callbackQuery!.message!.message_id;
+
+      // Telegram rate-limits edits, so only stream progress every couple of seconds
+      let lastEditAt = 0;
+      const summary = await panicService.flatten(adminId, panic.reason, async (progress: FlattenProgress) => {
+        if (Date.now() - lastEditAt < 2000) return;
+        lastEditAt = Date.now();
+        try {
+          await ctx.telegram.editMessageText(chatId, messageId, undefined, panicService.formatFlattenProgress(progress), {
+            parse_mode: 'Markdown'
+          });
+        } catch (error) {
+          console.error('[Orchestrator] Failed to update flatten progress:', error);
+        }
+      });
+
+      await ctx.telegram.editMessageText(chatId, messageId, undefined, panicService.formatFlattenProgress(summary, true), {
+        parse_mode: 'Markdown'
+      });
+
+      for (const user of summary.affectedUsers) {
+        try {
+          await this.bot.telegram.sendMessage(
+            user.tgId,
+            '🚨 **Emergency Position Close**\n\n' +
+            'The bot operators closed your open positions and paused new orders due to an incident.\n\n' +
+            `**Closed:** ${user.closed.join(', ')}`,
+            { parse_mode: 'Markdown' }
+          );
+        } catch (error) {
+          console.error(`[Orchestrator] Failed to notify user ${user.tgId} of flatten:`, error);
+        }
+      }
     } catch (error: any) {
-      console.error('Market stop loss error:', error);
-      await ctx.reply(`❌ **Market Stop Loss Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}`);
+      console.error(`[Orchestrator] Panic ${panic.mode} failed:`, error);
+      await ctx.reply(`❌ **Panic ${this.describePanicMode(panic.mode)} Failed**\n\n**Error:** ${error.message || 'Unknown error'}`, {
+        parse_mode: 'Markdown'
+      });
     }
   }
 
   /**
-   * Handle market price take profit (current price)
+   * Abort a pending panic action
    */
-  private async handleMarketTakeProfit(ctx: BotContext, symbol: string): Promise<void> {
-    try {
-      await ctx.answerCbQuery('📊 Setting take profit at market price...');
-      
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
-      
-      // Get current mark price
-      const ticker = await apiClient.get24hrTicker(symbol);
-      const currentPrice = parseFloat(ticker.lastPrice);
-      
-      // Execute take profit at current market price
-      const result = await apiClient.setTakeProfit(symbol, currentPrice);
-      
-      const successText = [
-        `✅ **Market Take Profit Set**`,
-        '',
-        `🎯 **Symbol:** ${symbol}`,
-        `💰 **Target Price:** $${await this.formatPriceWithPrecision(apiClient, symbol, currentPrice)} (Market)`,
-        `🆔 **Order ID:** ${result.orderId}`,
-        '',
-        '💰 *Take profit set at current market price.*'
-      ].join('\n');
-      
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('📊 View Position', `position_${symbol}`),
-          Markup.button.callback('🔙 Back to Positions', 'positions_menu')
-        ]
-      ]);
-      
-      await this.safeEditMessageText(ctx, successText, { parse_mode: 'Markdown', ...keyboard });
-      
-    } catch (error: any) {
-      console.error('Market take profit error:', error);
-      await ctx.reply(`❌ **Market Take Profit Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}`);
+  private async handlePanicCancel(ctx: BotContext): Promise<void> {
+    if (ctx.userState?.conversationState?.step === 'confirming_panic') {
+      ctx.userState.conversationState = undefined;
+      await this.authMiddleware.clearConversationState(ctx.userState.telegramId);
     }
+
+    await ctx.answerCbQuery('Cancelled');
+    await ctx.editMessageText('❌ **Panic action cancelled.** Nothing was changed.', { parse_mode: 'Markdown' });
   }
 
-  /**
-   * Format quantity with proper precision based on symbol's LOT_SIZE filter
-   * This prevents "Precision is over the maximum defined" errors
-   */
-  private async formatQuantityWithPrecision(apiClient: any, symbol: string, rawQuantity: number): Promise<string> {
-    try {
-      const exchangeInfo = await apiClient.getExchangeInfo();
-      const symbolInfo = exchangeInfo.symbols.find((s: any) => s.symbol === symbol);
-      
-      if (symbolInfo) {
-        const lotSizeFilter = symbolInfo.filters.find((f: any) => f.filterType === 'LOT_SIZE');
-        if (lotSizeFilter) {
-          const stepSize = parseFloat(lotSizeFilter.stepSize);
-          const adjustedQuantity = Math.floor(rawQuantity / stepSize) * stepSize;
-          const decimalPlaces = lotSizeFilter.stepSize.split('.')[1]?.length || 0;
-          const formattedQuantity = adjustedQuantity.toFixed(decimalPlaces);
-          
-          console.log(`[PRECISION] ${symbol} - Raw: ${rawQuantity}, Adjusted: ${formattedQuantity}, StepSize: ${stepSize}`);
-          return formattedQuantity;
-        }
-      }
-      
-      // Fallback to 6 decimal places
-      console.warn(`[PRECISION] No LOT_SIZE filter found for ${symbol}, using default precision`);
-      return rawQuantity.toFixed(6);
-    } catch (error) {
-      console.warn(`[PRECISION] Failed to get precision for ${symbol}, using default:`, error);
-      return rawQuantity.toFixed(6);
+  private isAdmin(ctx: BotContext): boolean {
+    return this.config.telegram.adminIds.includes(ctx.from?.id || 0);
+  }
+
+  private getPendingPanic(ctx: BotContext): { mode: PanicMode; reason: string | null; armed: boolean } | undefined {
+    const state = ctx.userState?.conversationState;
+    return state?.step === 'confirming_panic' ? state.data?.panic : undefined;
+  }
+
+  private describePanicMode(mode: PanicMode): string {
+    switch (mode) {
+      case 'halt': return 'Halt';
+      case 'flatten': return 'Flatten';
+      case 'resume': return 'Resume';
+    }
+  }
+
+  private describePanicEffect(mode: PanicMode): string {
+    switch (mode) {
+      case 'halt': return 'This disables new orders for **all users** until resumed.';
+      case 'flatten': return 'This halts trading, then **cancels all open orders and closes every position** for all linked users at market.';
+      case 'resume': return 'This lifts the trading halt and re-enables new orders for all users.';
     }
   }
 
   /**
-   * Format price to exchange precision requirements for TP/SL orders
-   * This prevents "Precision is over the maximum defined" errors for prices
+   * Handle position management actions
    */
-  private async formatPriceWithPrecision(apiClient: any, symbol: string, rawPrice: number): Promise<string> {
-    try {
-      const exchangeInfo = await apiClient.getExchangeInfo();
-      const symbolInfo = exchangeInfo.symbols.find((s: any) => s.symbol === symbol);
-      
-      if (symbolInfo) {
-        const priceFilter = symbolInfo.filters.find((f: any) => f.filterType === 'PRICE_FILTER');
-        if (priceFilter) {
-          const tickSize = parseFloat(priceFilter.tickSize);
-          const adjustedPrice = Math.round(rawPrice / tickSize) * tickSize;
-          const decimalPlaces = priceFilter.tickSize.split('.')[1]?.length || 0;
-          const formattedPrice = adjustedPrice.toFixed(decimalPlaces);
-          
-          console.log(`[PRECISION] ${symbol} - Raw Price: ${rawPrice}, Adjusted: ${formattedPrice}, TickSize: ${tickSize}`);
-          return formattedPrice;
-        }
-      }
-      
-      // Fallback: format based on price range
-      const decimalPlaces = rawPrice < 1 ? 6 : rawPrice < 100 ? 4 : 2;
-      console.warn(`[PRECISION] No PRICE_FILTER found for ${symbol}, using fallback precision: ${decimalPlaces}`);
-      return rawPrice.toFixed(decimalPlaces);
-    } catch (error) {
-      console.warn(`[PRECISION] Failed to get price precision for ${symbol}, using fallback:`, error);
-      const decimalPlaces = rawPrice < 1 ? 6 : rawPrice < 100 ? 4 : 2;
-      return rawPrice.toFixed(decimalPlaces);
-    }
+  /**
+   * Callback reference for a position: the bare symbol in one-way mode, or SYMBOL-LONG /
+   * SYMBOL-SHORT for one leg of a hedged symbol
+   */
+  private static positionRef(symbol: string, positionSide?: string): string {
+    return positionSide === 'LONG' || positionSide === 'SHORT' ? `${symbol}-${positionSide}` : symbol;
+  }
+
+  private static parsePositionRef(ref: string): { symbol: string; positionSide?: 'LONG' | 'SHORT' } {
+    const match = ref.match(/^(.+)-(LONG|SHORT)$/);
+    return match ? { symbol: match[1], positionSide: match[2] as 'LONG' | 'SHORT' } : { symbol: ref };
   }
 
   /**
-   * Handle P&L Analysis - comprehensive profit/loss analysis
+   * The leg named by an order or position row, if it is one leg of a hedged symbol
    */
-  private async handlePnLAnalysis(ctx: BotContext): Promise<void> {
+  private static hedgeLeg(positionSide?: string): 'LONG' | 'SHORT' | undefined {
+    return positionSide === 'LONG' || positionSide === 'SHORT' ? positionSide : undefined;
+  }
+
+  private async handlePositionAction(ctx: BotContext, action: string, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
     if (!ctx.userState?.isLinked) {
       await ctx.reply('❌ Please link your API credentials first using /link');
       return;
     }
 
     try {
-      // Import and use the existing PnL module
-      const PnLModule = await import('../pnl');
       const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
-      const pnlCalculator = new PnLModule.PnLCalculator(apiClient);
-      
-      // Calculate comprehensive P&L
-      const pnlData = await pnlCalculator.calculateComprehensivePnL();
-      
-      let analysisText = '📈 **P&L Analysis**\n\n';
-      
-      // Overview
-      if (pnlData.success && pnlData.totalCurrentValue && pnlData.totalPnL !== undefined) {
-        analysisText += `💰 **Total Portfolio:** $${pnlData.totalCurrentValue.toFixed(2)}\n`;
-        analysisText += `📊 **Total P&L:** ${pnlData.totalPnL >= 0 ? '+' : ''}$${pnlData.totalPnL.toFixed(2)}\n`;
-        if (pnlData.totalPnLPercent !== undefined) {
-          analysisText += `📈 **Total ROI:** ${pnlData.totalPnLPercent >= 0 ? '+' : ''}${pnlData.totalPnLPercent.toFixed(2)}%\n\n`;
-        }
-        
-        // Display positions summary
-        if (pnlData.positions && pnlData.positions.length > 0) {
-          analysisText += `🏪 **Spot Positions:** ${pnlData.positions.length}\n`;
-        }
-        
-        if (pnlData.perpPositions && pnlData.perpPositions.length > 0) {
-          analysisText += `⚡ **Perp Positions:** ${pnlData.perpPositions.length}\n`;
-        }
-      } else {
-        analysisText += `❌ ${pnlData.message || 'Failed to calculate P&L'}\n`;
-      }
-      
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('🔄 Refresh', 'pnl_analysis'),
-          Markup.button.callback('📊 Positions', 'positions')
-        ],
-        [
-          Markup.button.callback('💰 Balance', 'balance'),
-          Markup.button.callback('🔙 Back', 'main_menu')
-        ]
-      ]);
-
-      await ctx.editMessageText(analysisText, { parse_mode: 'Markdown', ...keyboard });
 
-    } catch (error) {
-      console.error('[Orchestrator] P&L analysis error:', error);
-      await ctx.reply('❌ Failed to calculate P&L analysis. Please try again.');
+      switch (action) {
+        case 'manage':
+          await this.showPositionManagementMenu(ctx, symbol, apiClient, positionSide);
+          break;
+        case 'close':
+          await this.handleClosePosition(ctx, symbol, apiClient, 100, positionSide);
+          break;
+        case 'close_25':
+          await this.handleClosePosition(ctx, symbol, apiClient, 25, positionSide);
+          break;
+        case 'close_50':
+          await this.handleClosePosition(ctx, symbol, apiClient, 50, positionSide);
+          break;
+        case 'close_75':
+          await this.handleClosePosition(ctx, symbol, apiClient, 75, positionSide);
+          break;
+        case 'set_sl':
+          await this.handleSetStopLoss(ctx, symbol, positionSide);
+          break;
+        case 'set_tp':
+          await this.handleSetTakeProfit(ctx, symbol, positionSide);
+          break;
+        case 'set_trail':
+          await this.handleSetTrailingStop(ctx, symbol, positionSide);
+          break;
+        case 'ladder_tp':
+          await this.handleLadderTakeProfitStart(ctx, symbol, apiClient, positionSide);
+          break;
+        case 'tp_ladder':
+          await this.handleTpLadderMenu(ctx, symbol, apiClient, positionSide);
+          break;
+        case 'add_margin':
+          await this.handleMarginAdjustStart(ctx, symbol, 'add', apiClient, positionSide);
+          break;
+        case 'reduce_margin':
+          await this.handleMarginAdjustStart(ctx, symbol, 'reduce', apiClient, positionSide);
+          break;
+        default:
+          await ctx.reply(`❌ Unknown position action: ${action}`);
+      }
+    } catch (error: any) {
+      console.error(`Position action error for ${symbol}:`, error);
+      await ctx.reply(`❌ Failed to ${action} position for ${symbol}${positionSide ? ' ' + positionSide : ''}: ${error.message || 'Unknown error'}`);
     }
   }
 
   /**
-   * Handle Settings Menu - bot configuration settings
+   * Show position management menu
    */
-  private async handleSettingsMenu(ctx: BotContext): Promise<void> {
-    if (!ctx.userState?.isLinked) {
-      await ctx.reply('❌ Please link your API credentials first using /link');
-      return;
-    }
-
+  private async showPositionManagementMenu(ctx: BotContext, symbol: string, apiClient: any, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
     try {
-      // Import and use the existing Settings module
-      const SettingsModule = await import('../settings');
-      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
-
-      const userId = ctx.userState.userId;
-      const userSettings = await settingsManager.getUserSettings(userId);
-      
-      let settingsText = '⚙️ **Trading Configuration Center**\n\n';
-      settingsText += 'Customize your trading experience with professional risk management tools, security features, and personalized presets. Optimize your workflow and protect your capital.\n\n';
-      
-      // Display current settings
-      settingsText += `**🔧 Current Configuration:**\n`;
-      settingsText += `🎯 **Leverage Cap:** ${userSettings.leverage_cap}x\n`;
-      settingsText += `💰 **Default Leverage:** ${userSettings.default_leverage}x\n`;
-      settingsText += `📊 **Slippage Tolerance:** ${(userSettings.slippage_bps / 100).toFixed(2)}%\n`;
-      settingsText += `🛡️ **Daily Loss Cap:** ${userSettings.daily_loss_cap ? '$' + userSettings.daily_loss_cap : 'None'}\n`;
-      settingsText += `🔒 **PIN Protection:** ${userSettings.pin_hash ? 'Enabled' : 'Disabled'}\n\n`;
+      const positions = await apiClient.getPositionRisk();
+      const position = AsterApiClient.findPosition(positions, symbol, positionSide);
       
-      settingsText += '**🚀 Customization Options:**\n';
-      settingsText += '• **Risk Management** — Set leverage limits and loss caps\n';
-      settingsText += '• **Trade Presets** — Configure default sizes and quick amounts\n';
-      settingsText += '• **Slippage Control** — Fine-tune execution tolerance\n';
-      settingsText += '• **Security Features** — PIN protection and wallet safety\n\n';
-      settingsText += '**Select a category to configure:**';
+      if (!position) {
+        await ctx.reply(`❌ No open ${positionSide ? positionSide + ' ' : ''}position found for ${symbol}`);
+        return;
+      }
+
+      const positionAmt = parseFloat(position.positionAmt);
+      const side = AsterApiClient.legOf(position);
+      const hedged = !!BotOrchestrator.hedgeLeg(position.positionSide);
+      const pnl = parseFloat(position.unrealizedPnl) || 0;
+      const pnlEmoji = pnl >= 0 ? '🟢' : '🔴';
+      const tpLadder = await this.tpLadderService.getActive(ctx.userState!.userId, symbol, side);
+      const isolated = !!position.isolated;
+      const liquidationPrice = parseFloat(position.liquidationPrice || '0');
       
+      const positionText = [
+        `📊 **${symbol} Position Management**`,
+        '',
+        `**Side:** ${side}${hedged ? ' (hedge)' : ''}`,
+        `**Size:** ${Math.abs(positionAmt)}`,
+        `**Entry Price:** $${position.entryPrice}`,
+        `**Leverage:** ${position.leverage}x`,
+        `**Margin:** ${isolated ? `Isolated $${parseFloat(position.isolatedWallet).toFixed(2)}` : 'Cross'}`,
+        ...(liquidationPrice > 0 ? [`**Liq. Price:** $${liquidationPrice}`] : []),
+        `**${pnlEmoji} P&L:** $${pnl.toFixed(2)}`,
+        ...(tpLadder ? ['', this.tpLadderService.formatStatus(tpLadder.rungs)] : []),
+        '',
+        'Choose an action:',
+      ].join('\n');
+
       const keyboard = Markup.inlineKeyboard([
         [
-          Markup.button.callback('🎯 Leverage', 'settings_leverage'),
-          Markup.button.callback('💰 Size', 'settings_size')
+          Markup.button.callback('🔴 Close 25%', `position_close_25_${ref}`),
+          Markup.button.callback('🔴 Close 50%', `position_close_50_${ref}`)
         ],
         [
-          Markup.button.callback('🛡️ Risk', 'settings_risk'),
-          Markup.button.callback('🔒 Security', 'settings_security')
+          Markup.button.callback('🔴 Close 75%', `position_close_75_${ref}`),
+          Markup.button.callback('🔴 Close 100%', `position_close_${ref}`)
         ],
         [
-          Markup.button.callback('🔄 Refresh', 'settings'),
-          Markup.button.callback('🔙 Back', 'main_menu')
+          Markup.button.callback('🛡️ Set Stop Loss', `position_set_sl_${ref}`),
+          Markup.button.callback('🎯 Set Take Profit', `position_set_tp_${ref}`)
+        ],
+        [
+          Markup.button.callback('📉 Trailing Stop', `position_set_trail_${ref}`),
+          Markup.button.callback('🪜 Scaled TP', `position_ladder_tp_${ref}`)
+        ],
+        [
+          Markup.button.callback('📶 TP Ladder', `position_tp_ladder_${ref}`),
+          ...(tpLadder ? [Markup.button.callback('🗑️ Cancel TP Ladder', `tpl_cancel_${ref}`)] : [])
+        ],
+        ...(isolated ? [[
+          Markup.button.callback('➕ Add Margin', `position_add_margin_${ref}`),
+          Markup.button.callback('➖ Reduce Margin', `position_reduce_margin_${ref}`)
+        ]] : []),
+        [
+          Markup.button.callback('🔙 Back to Positions', 'positions')
         ]
       ]);
 
-      await ctx.editMessageText(settingsText, { parse_mode: 'Markdown', ...keyboard });
-
+      await ctx.editMessageText(positionText, { parse_mode: 'Markdown', ...keyboard });
     } catch (error) {
-      console.error('[Orchestrator] Settings menu error:', error);
-      await ctx.reply('❌ Failed to load settings. Please try again.');
+      console.error('Position management menu error:', error);
+      await ctx.reply('❌ Failed to load position details. Please try again.');
     }
   }
 
   /**
-   * Handle settings submenus
+   * Show enhanced execution success message with position management interface
    */
-  private async handleSettingsSubmenu(ctx: BotContext, setting: string): Promise<void> {
-    if (!ctx.userState?.isLinked) {
-      await ctx.reply('❌ Please link your API credentials first using /link');
-      return;
-    }
-
+  private async showExecutionSuccessWithPositionManagement(
+    ctx: BotContext, 
+    messageId: number,
+    type: 'spot' | 'perps',
+    symbol: string, 
+    action: string,
+    amount: number,
+    leverage?: number,
+    positionSizeUSDT?: number,
+    executedPrice?: number,
+    orderId?: string,
+    positionSide?: string
+  ): Promise<void> {
+    const leg = BotOrchestrator.hedgeLeg(positionSide);
+    const ref = BotOrchestrator.positionRef(symbol, leg);
     try {
-      const SettingsModule = await import('../settings');
-      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
-      const userSettings = await settingsManager.getUserSettings(ctx.userState.userId);
-
-      switch (setting) {
-        case 'leverage':
-          await this.handleLeverageSettings(ctx, userSettings, settingsManager);
-          break;
-        case 'size':
-          await this.handleSizeSettings(ctx, userSettings, settingsManager);
-          break;
-        case 'risk':
-          await this.handleRiskSettings(ctx, userSettings, settingsManager);
-          break;
-        case 'security':
-          await this.handleSecuritySettings(ctx, userSettings, settingsManager);
-          break;
-        default:
-          await ctx.reply(`❌ Unknown setting: ${setting}`);
-      }
-    } catch (error) {
-      console.error('Settings submenu error:', error);
-      await ctx.reply('❌ Failed to load settings submenu. Please try again.');
-    }
-  }
-
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      
+      // Get current position/balance info
+      let positionInfo = '';
+      let managementButtons: any[] = [];
+      
+      if (type === 'perps') {
+        // Get current perp position
+        // In hedge mode the order names the leg it traded; a one-way symbol has one position
+        const positions = await apiClient.getPositionRisk();
+        const position = AsterApiClient.findPosition(positions, symbol, leg);
+        
+        if (position) {
+          const positionAmt = parseFloat(position.positionAmt);
+          const side = AsterApiClient.legOf(position);
+          const pnl = parseFloat(position.unrealizedPnl) || 0;
+          const pnlEmoji = pnl >= 0 ? '🟢' : '🔴';
+          const sideEmoji = side === 'LONG' ? '🟢' : '🔴';
+          
+          positionInfo = [
+            '',
+            '📊 **Current Position Status:**',
+            `${sideEmoji} **${side}** ${Math.abs(positionAmt).toFixed(4)} ${symbol.replace('USDT', '')}`,
+            `💰 **Entry Price:** $${position.entryPrice}`,
+            `⚡ **Leverage:** ${position.leverage}x`,
+            `${pnlEmoji} **Unrealized P&L:** ${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)}`,
+            `📈 **Current Value:** $${(Math.abs(positionAmt) * parseFloat(position.entryPrice)).toFixed(2)}`
+          ].join('\n');
+          
+          managementButtons = [
+            [
+              Markup.button.callback('🔴 Close 25%', `position_close_25_${ref}`),
+              Markup.button.callback('🔴 Close 50%', `position_close_50_${ref}`)
+            ],
+            [
+              Markup.button.callback('🔴 Close 75%', `position_close_75_${ref}`),
+              Markup.button.callback('🔴 Close All', `position_close_${ref}`)
+            ]
+          ];
+        }
+      } else {
+        // Spot balance display simplified for now until full spot API is available
+        positionInfo = [
+          '',
+          '💼 **Spot Trade Completed**',
+          `✅ Order executed successfully`,
+          `📊 View your balances in the main menu`
+        ].join('\n');
+        
+        managementButtons = [
+          [
+            Markup.button.callback('💰 View Balance', 'balance'),
+            Markup.button.callback('📈 Trade Again', 'trade_spot')
+          ]
+        ];
+      }
+      
+      // Create success message
+      const actionEmoji = action.toLowerCase().includes('buy') || action.toLowerCase().includes('long') ? '🟢' : '🔴';
+      const typeLabel = type === 'perps' ? 'Futures' : 'Spot';
+      
+      let successText = [
+        `✅ **${typeLabel} ${action} Order Executed Successfully!**`,
+        '',
+        `${actionEmoji} **Symbol:** ${symbol}`,
+        `💰 **Amount:** $${(positionSizeUSDT || amount).toFixed(2)}`,
+        leverage ? `⚡ **Leverage:** ${leverage}x` : '',
+        executedPrice ? `💱 **Executed Price:** $${executedPrice.toFixed(4)}` : '',
+        orderId ? `🔗 **Order ID:** \`${orderId}\`` : ''
+      ].filter(line => line !== '').join('\n');
+      
+      // Add position info if available
+      if (positionInfo) {
+        successText += positionInfo;
+      }
+      
+      // Create keyboard with management options
+      const keyboard = Markup.inlineKeyboard([
+        ...managementButtons,
+        [
+          Markup.button.callback('🔄 Refresh P&L', `refresh_position_${ref}`),
+          Markup.button.callback('📊 View All Positions', 'positions')
+        ],
+        [
+          Markup.button.callback('📈 Trade Again', type === 'perps' ? 'trade_perps' : 'trade_spot'),
+          Markup.button.callback('🏠 Main Menu', 'main_menu')
+        ]
+      ]);
+      
+      await ctx.telegram.editMessageText(
+        ctx.chat?.id,
+        messageId,
+        undefined,
+        successText,
+        { 
+          parse_mode: 'Markdown', 
+          ...keyboard 
+        }
+      );
+      
+    } catch (error) {
+      console.error('Error showing execution success with position management:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle quick trade for a symbol - provides quick trading options
+   */
+  private async handleQuickTrade(ctx: BotContext, symbol: string): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+      
+      // Get current position info
+      // A hedged symbol can hold a LONG and a SHORT leg at once
+      const positions = await apiClient.getPositionRisk();
+      const legs = positions.filter(p => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+      
+      // Get current price
+      const currentPrice = await this.priceService.getCurrentPrice(symbol);
+      
+      let quickTradeText = `⚡ **Quick Trade ${symbol}**\n\n`;
+      quickTradeText += `💵 **Current Price:** $${currentPrice.toFixed(6)}\n\n`;
+      
+      if (legs.length > 0) {
+        for (const position of legs) {
+          const positionAmt = parseFloat(position.positionAmt);
+          const side = AsterApiClient.legOf(position);
+          const pnl = parseFloat(position.unrealizedPnl) || 0;
+          const pnlEmoji = pnl >= 0 ? '🟢' : '🔴';
+          
+          quickTradeText += `📊 **Current Position:**\n`;
+          quickTradeText += `• Side: ${side}\n`;
+          quickTradeText += `• Size: ${Math.abs(positionAmt)} (${(Math.abs(positionAmt) * parseFloat(position.entryPrice)).toFixed(2)} USDT)\n`;
+          quickTradeText += `• Entry: $${position.entryPrice}\n`;
+          quickTradeText += `• ${pnlEmoji} P&L: $${pnl.toFixed(2)}\n\n`;
+        }
+        
+        quickTradeText += `🎯 **Quick Actions:**`;
+      } else {
+        quickTradeText += `📊 **No Current Position**\n\n🎯 **Start Trading:**`;
+      }
+
+      // Create quick trading buttons from the user's size presets at their default leverage
+      const userSettings = await this.getTradingSettings(ctx);
+      const leverage = userSettings.default_leverage;
+      quickTradeText += `\n⚡ **Leverage:** ${leverage}x`;
+
+      const keyboard = Markup.inlineKeyboard([
+        ...userSettings.size_presets.slice(0, 3).map(amount => [
+          Markup.button.callback(`🟢 Long $${amount}`, `perps_execute_buy_${symbol}_${amount}u_${leverage}x`),
+          Markup.button.callback(`🔴 Short $${amount}`, `perps_execute_sell_${symbol}_${amount}u_${leverage}x`)
+        ]),
+        ...(legs.length > 0 ? legs.map(position => {
+          const leg = BotOrchestrator.hedgeLeg(position.positionSide);
+          const ref = BotOrchestrator.positionRef(symbol, leg);
+          return [
+            Markup.button.callback(`📊 Manage ${leg ?? 'Position'}`, `position_manage_${ref}`),
+            Markup.button.callback(`🔴 Close ${leg ?? 'Position'}`, `position_close_${ref}`)
+          ];
+        }) : [[
+          Markup.button.callback('🎯 Custom Amount', `perps_custom_amount_buy_${symbol}`),
+          Markup.button.callback('📈 Full Trading', 'trade_perps')
+        ]]),
+        [
+          Markup.button.callback('🔙 Back to Positions', 'positions')
+        ]
+      ]);
+
+      await ctx.editMessageText(quickTradeText, { parse_mode: 'Markdown', ...keyboard });
+
+    } catch (error) {
+      console.error('Quick trade error:', error);
+      await ctx.reply(`❌ Failed to load quick trade for ${symbol}. Please try again.`);
+    }
+  }
+
+  /**
+   * Handle closing position (full or partial)
+   */
+  private async handleClosePosition(
+    ctx: BotContext,
+    symbol: string,
+    apiClient: any,
+    percentage: number,
+    positionSide?: 'LONG' | 'SHORT',
+    guardConfirmed = false,
+    resumedClientOrderId?: string
+  ): Promise<void> {
+    const clientOrderId = resumedClientOrderId ?? this.deriveClientOrderId(ctx, symbol);
+    let releaseClaim: (() => void) | null = null;
+
+    try {
+      releaseClaim = await this.claimSubmission(ctx, clientOrderId);
+      if (!releaseClaim) {
+        return;
+      }
+
+      // Snapshot entry price before closing so the realized PnL can be tracked
+      const positions = await apiClient.getPositionRisk();
+      const position = AsterApiClient.findPosition(positions, symbol, positionSide);
+
+      if (position && !guardConfirmed) {
+        const check: MarketOrderCheck = {
+          market: 'perps',
+          symbol,
+          side: AsterApiClient.legOf(position) === 'LONG' ? 'SELL' : 'BUY',
+          baseQuantity: Math.abs(parseFloat(position.positionAmt)) * (percentage / 100)
+        };
+        const pendingOrder: PendingMarketOrder = { kind: 'position_close', symbol, percentage, ...(positionSide ? { positionSide } : {}), clientOrderId };
+        if (!(await this.passesPriceGuard(ctx, check, pendingOrder))) {
+          return;
+        }
+      }
+
+      if (ctx.callbackQuery) await ctx.answerCbQuery(`🔄 Closing ${percentage}% of ${symbol}${positionSide ? ' ' + positionSide : ''} position...`);
+      
+      const processingMsg = await ctx.reply(
+        `🔄 **Closing Position**\n\n` +
+        `**Symbol:** ${symbol}${positionSide ? ` (${positionSide})` : ''}\n` +
+        `**Amount:** ${percentage}%\n\n` +
+        `⏳ Processing closure...`,
+        { parse_mode: 'Markdown' }
+      );
+
+      // Use the existing closePosition method from AsterApiClient
+      const result = await apiClient.closePosition(symbol, percentage, clientOrderId, positionSide);
+      await this.recordOrder(ctx, {
+        market: 'perps', purpose: 'close', symbol, side: result.side === 'BUY' ? 'BUY' : 'SELL', type: 'MARKET', leverage: position ? parseInt(position.leverage) : undefined
+      }, result);
+      
+      await ctx.telegram.editMessageText(
+        ctx.chat?.id,
+        processingMsg.message_id,
+        undefined,
+        `✅ **Position Closed Successfully**\n\n` +
+        `**Symbol:** ${symbol}${positionSide ? ` (${positionSide})` : ''}\n` +
+        `**Amount:** ${percentage}%\n` +
+        `**Order ID:** ${result.orderId}\n` +
+        `**Status:** ${result.status}\n\n` +
+        `🎉 Position closure completed!\n\n` +
+        `Use /positions to view updated positions.`,
+        { parse_mode: 'Markdown' }
+      );
+
+      // Emit event
+      this.eventEmitter.emitEvent({
+        type: EventTypes.TRADE_EXECUTED,
+        timestamp: new Date(),
+        userId: ctx.userState!.userId,
+        telegramId: ctx.userState!.telegramId,
+        correlationId: ctx.correlationId,
+        symbol,
+        action: 'CLOSE',
+        amount: percentage,
+        orderId: result.orderId
+      });
+
+      if (position) {
+        await this.recordPositionClosePnl(ctx, position, result, percentage);
+      }
+
+    } catch (error: any) {
+      console.error('Close position error:', error);
+      await ctx.reply(`❌ **Position Closure Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`);
+    } finally {
+      releaseClaim?.();
+    }
+  }
+
+  /**
+   * Handle setting stop loss for a position
+   */
+  private async handleSetStopLoss(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery('🛡️ Setting up Stop Loss...');
+      
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      
+      // Get current position
+      const positions = await apiClient.getPositionRisk();
+      const position = AsterApiClient.findPosition(positions, symbol, positionSide);
+      
+      if (!position) {
+        await ctx.reply(`❌ **No Open Position**\n\n**Symbol:** ${symbol}\n\nYou don't have an open position for this symbol.`);
+        return;
+      }
+      
+      const positionSize = parseFloat(position.positionAmt);
+      const entryPrice = parseFloat(position.entryPrice);
+      const isLong = AsterApiClient.legOf(position) === 'LONG';
+      
+      // Calculate suggested stop loss levels (risk percentages)
+      const risk5Pct = isLong ? entryPrice * 0.95 : entryPrice * 1.05;
+      const risk10Pct = isLong ? entryPrice * 0.90 : entryPrice * 1.10;
+      const risk15Pct = isLong ? entryPrice * 0.85 : entryPrice * 1.15;
+      const risk20Pct = isLong ? entryPrice * 0.80 : entryPrice * 1.20;
+      
+      const stopLossText = [
+        `🛡️ **Set Stop Loss for ${symbol}**`,
+        `📍 **Position:** ${isLong ? 'LONG' : 'SHORT'} ${Math.abs(positionSize)} ${symbol.replace('USDT', '')}`,
+        `💰 **Entry Price:** $${entryPrice.toFixed(6)}`,
+        `📊 **Current Price:** $${entryPrice.toFixed(6)}`,
+        `${isLong ? '📉' : '📈'} **Unrealized PnL:** ${parseFloat(position.unrealizedPnl).toFixed(2)} USDT`,
+        '',
+        '🎯 **Choose Stop Loss Level:**'
+      ].join('\n');
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback(`5% Risk ($${risk5Pct.toFixed(6)})`, `sl_set_${ref}_${risk5Pct.toFixed(6)}_5`),
+          Markup.button.callback(`10% Risk ($${risk10Pct.toFixed(6)})`, `sl_set_${ref}_${risk10Pct.toFixed(6)}_10`)
+        ],
+        [
+          Markup.button.callback(`15% Risk ($${risk15Pct.toFixed(6)})`, `sl_set_${ref}_${risk15Pct.toFixed(6)}_15`),
+          Markup.button.callback(`20% Risk ($${risk20Pct.toFixed(6)})`, `sl_set_${ref}_${risk20Pct.toFixed(6)}_20`)
+        ],
+        [
+          Markup.button.callback('📝 Custom Price', `sl_custom_${ref}`),
+          Markup.button.callback('📊 Market Price', `sl_market_${ref}`)
+        ],
+        [
+          Markup.button.callback('🔙 Back to Position', `position_manage_${ref}`)
+        ]
+      ]);
+      
+      await this.safeEditMessageText(ctx, stopLossText, { parse_mode: 'Markdown', ...keyboard });
+      
+    } catch (error: any) {
+      console.error('Set stop loss error:', error);
+      await ctx.reply(`❌ **Stop Loss Setup Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`);
+    }
+  }
+
+  /**
+   * Handle setting take profit for a position
+   */
+  private async handleSetTakeProfit(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery('🎯 Setting up Take Profit...');
+      
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      
+      // Get current position
+      const positions = await apiClient.getPositionRisk();
+      const position = AsterApiClient.findPosition(positions, symbol, positionSide);
+      
+      if (!position) {
+        await ctx.reply(`❌ **No Open Position**\n\n**Symbol:** ${symbol}\n\nYou don't have an open position for this symbol.`);
+        return;
+      }
+      
+      const positionSize = parseFloat(position.positionAmt);
+      const entryPrice = parseFloat(position.entryPrice);
+      const isLong = AsterApiClient.legOf(position) === 'LONG';
+      
+      // Calculate suggested take profit levels (profit percentages)
+      const profit10Pct = isLong ? entryPrice * 1.10 : entryPrice * 0.90;
+      const profit25Pct = isLong ? entryPrice * 1.25 : entryPrice * 0.75;
+      const profit50Pct = isLong ? entryPrice * 1.50 : entryPrice * 0.50;
+      const profit100Pct = isLong ? entryPrice * 2.00 : entryPrice * 0.50;
+      
+      const takeProfitText = [
+        `🎯 **Set Take Profit for ${symbol}**`,
+        `📍 **Position:** ${isLong ? 'LONG' : 'SHORT'} ${Math.abs(positionSize)} ${symbol.replace('USDT', '')}`,
+        `💰 **Entry Price:** $${entryPrice.toFixed(6)}`,
+        `📊 **Current Price:** $${entryPrice.toFixed(6)}`,
+        `${isLong ? '📈' : '📉'} **Unrealized PnL:** ${parseFloat(position.unrealizedPnl).toFixed(2)} USDT`,
+        '',
+        '💰 **Choose Take Profit Level:**'
+      ].join('\n');
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback(`10% Profit ($${profit10Pct.toFixed(6)})`, `tp_set_${ref}_${profit10Pct.toFixed(6)}_10`),
+          Markup.button.callback(`25% Profit ($${profit25Pct.toFixed(6)})`, `tp_set_${ref}_${profit25Pct.toFixed(6)}_25`)
+        ],
+        [
+          Markup.button.callback(`50% Profit ($${profit50Pct.toFixed(6)})`, `tp_set_${ref}_${profit50Pct.toFixed(6)}_50`),
+          Markup.button.callback(`100% Profit ($${profit100Pct.toFixed(6)})`, `tp_set_${ref}_${profit100Pct.toFixed(6)}_100`)
+        ],
+        [
+          Markup.button.callback('📝 Custom Price', `tp_custom_${ref}`),
+          Markup.button.callback('📊 Market Price', `tp_market_${ref}`)
+        ],
+        [
+          Markup.button.callback('🔙 Back to Position', `position_manage_${ref}`)
+        ]
+      ]);
+      
+      await this.safeEditMessageText(ctx, takeProfitText, { parse_mode: 'Markdown', ...keyboard });
+      
+    } catch (error: any) {
+      console.error('Set take profit error:', error);
+      await ctx.reply(`❌ **Take Profit Setup Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`);
+    }
+  }
+
+  /**
+   * Execute stop loss order
+   */
+  private async handleExecuteStopLoss(ctx: BotContext, symbol: string, stopPrice: number, riskPercent: number, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery(`🛡️ Setting ${riskPercent}% risk stop loss...`);
+      
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      
+      // Execute the stop loss order
+      const result = await apiClient.setStopLoss(symbol, stopPrice, undefined, positionSide);
+      await this.recordProtectiveOrder(ctx, symbol, 'sl', result);
+      
+      const successText = [
+        `✅ **Stop Loss Set Successfully**`,
+        '',
+        `🛡️ **Symbol:** ${symbol}`,
+        `💰 **Stop Price:** $${await this.formatPriceWithPrecision(apiClient, symbol, stopPrice)}`,
+        `📊 **Risk Level:** ${riskPercent}%`,
+        `🆔 **Order ID:** ${result.orderId}`,
+        '',
+        '⚠️ *Your position is now protected with a stop loss order.*'
+      ].join('\n');
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('📊 View Position', `position_manage_${ref}`),
+          Markup.button.callback('🎯 Set Take Profit', `position_set_tp_${ref}`)
+        ],
+        [
+          Markup.button.callback('🔙 Back to Positions', 'positions_menu')
+        ]
+      ]);
+      
+      await this.safeEditMessageText(ctx, successText, { parse_mode: 'Markdown', ...keyboard });
+      
+      // Emit event
+      this.eventEmitter.emitEvent({
+        type: EventTypes.TRADE_EXECUTED,
+        timestamp: new Date(),
+        userId: ctx.userState!.userId,
+        telegramId: ctx.userState!.telegramId,
+        correlationId: ctx.correlationId,
+        symbol,
+        action: 'STOP_LOSS',
+        price: stopPrice.toString(),
+        orderId: result.orderId
+      });
+      
+    } catch (error: any) {
+      console.error('Execute stop loss error:', error);
+      await ctx.reply(`❌ **Stop Loss Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`);
+    }
+  }
+
+  /**
+   * Show trailing stop distance options for a position
+   */
+  private async handleSetTrailingStop(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    await ctx.answerCbQuery();
+
+    const active = await this.trailingStopService.getActive(ctx.userState!.userId, symbol, positionSide);
+    const rateButtons = TrailingStopService.PRESET_RATES.map(rate =>
+      Markup.button.callback(`${rate}%`, `trail_set_${ref}_${rate}`)
+    );
+
+    const keyboard = Markup.inlineKeyboard([
+      rateButtons,
+      ...(active ? [[Markup.button.callback('⏹️ Stop Trailing', `trail_off_${ref}`)]] : []),
+      [Markup.button.callback('🔙 Back to Position', `position_manage_${ref}`)]
+    ]);
+
+    await this.safeEditMessageText(ctx, this.trailingStopService.formatRateMenu(symbol, active), { parse_mode: 'Markdown', ...keyboard });
+  }
+
+  /**
+   * Preview a TP ladder built from the user's take profit presets
+   */
+  private async handleTpLadderMenu(ctx: BotContext, symbol: string, apiClient: any, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    await ctx.answerCbQuery();
+
+    const SettingsModule = await import('../settings');
+    const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+    const userSettings = await settingsManager.getUserSettings(ctx.userState!.userId);
+
+    const plan = await this.tpLadderService.plan(apiClient, symbol, userSettings.tp_presets, positionSide);
+    const active = await this.tpLadderService.getActive(ctx.userState!.userId, symbol, plan.positionSide);
+
+    const keyboard = Markup.inlineKeyboard([
+      [Markup.button.callback(`✅ Place ${plan.rungs.length} Take Profits`, `tpl_place_${ref}`)],
+      ...(active ? [[Markup.button.callback('🗑️ Cancel Active Ladder', `tpl_cancel_${ref}`)]] : []),
+      [Markup.button.callback('🔙 Back to Position', `position_manage_${ref}`)]
+    ]);
+
+    await this.safeEditMessageText(ctx, this.tpLadderService.formatPlanPreview(plan, active), { parse_mode: 'Markdown', ...keyboard });
+  }
+
+  /**
+   * Place the TP ladder from the preview, re-planned against the current position
+   */
+  private async handlePlaceTpLadder(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery('📶 Placing TP ladder...');
+
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+      const userSettings = await settingsManager.getUserSettings(ctx.userState!.userId);
+
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const plan = await this.tpLadderService.plan(apiClient, symbol, userSettings.tp_presets, positionSide);
+      const placement = await this.tpLadderService.place(ctx.userState!.userId, apiClient, plan);
+
+      for (const order of placement.orders) {
+        await this.recordOrder(ctx, {
+          market: 'perps',
+          purpose: 'tp',
+          symbol,
+          side: plan.positionSide === 'LONG' ? 'SELL' : 'BUY',
+          type: 'LIMIT',
+          quantity: order.origQty
+        }, order);
+      }
+
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('📊 View Position', `position_manage_${ref}`),
+          Markup.button.callback('📋 Open Orders', 'open_orders')
+        ]
+      ]);
+
+      await ctx.reply(this.tpLadderService.formatPlacement(placement), { parse_mode: 'Markdown', ...keyboard });
+    } catch (error: any) {
+      console.error('[Orchestrator] TP ladder error:', error);
+      await ctx.reply(`❌ **TP Ladder Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}`, { parse_mode: 'Markdown' });
+    }
+  }
+
+  /**
+   * Cancel the active TP ladder and its open rungs
+   */
+  private async handleCancelTpLadder(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery();
+
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const cancelled = await this.tpLadderService.cancel(ctx.userState!.userId, apiClient, symbol, positionSide);
+
+      await ctx.reply(
+        cancelled ? `✅ TP ladder on ${symbol} cancelled.` : `ℹ️ No active TP ladder on ${symbol}.`,
+        Markup.inlineKeyboard([[Markup.button.callback('📊 View Position', `position_manage_${ref}`)]])
+      );
+    } catch (error: any) {
+      console.error('[Orchestrator] Cancel TP ladder error:', error);
+      await ctx.reply(`❌ Failed to cancel the TP ladder: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Place a trailing stop chosen from the position menu
+   */
+  private async handleExecuteTrailingStop(ctx: BotContext, symbol: string, callbackRate: number, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery(`📉 Setting ${callbackRate}% trailing stop...`);
+
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const placement = await this.trailingStopService.placeTrailingStop(ctx.userState!.userId, apiClient, symbol, callbackRate, positionSide);
+      await this.recordTrailingStop(ctx, symbol, placement);
+
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('📊 View Position', `position_manage_${ref}`),
+          Markup.button.callback('🎯 Set Take Profit', `position_set_tp_${ref}`)
+        ],
+        [
+          Markup.button.callback('🔙 Back to Positions', 'positions')
+        ]
+      ]);
+
+      await this.safeEditMessageText(ctx, this.trailingStopService.formatPlaced(placement), { parse_mode: 'Markdown', ...keyboard });
+    } catch (error: any) {
+      console.error('Execute trailing stop error:', error);
+      await ctx.reply(`❌ **Trailing Stop Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`, { parse_mode: 'Markdown' });
+    }
+  }
+
+  /**
+   * Stop the bot-managed trailing stop for a symbol and cancel its stop order
+   */
+  private async handleCancelTrailingStop(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const cancelled = await this.trailingStopService.cancelManaged(ctx.userState!.userId, apiClient, symbol, positionSide);
+      await ctx.answerCbQuery(cancelled ? '⏹️ Trailing stop cancelled' : 'No active trailing stop');
+      await this.showPositionManagementMenu(ctx, symbol, apiClient, positionSide);
+    } catch (error: any) {
+      console.error('Cancel trailing stop error:', error);
+      await ctx.reply(`❌ Failed to cancel the trailing stop for ${symbol}: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Attach the trailing stop from a trade command (e.g. `trail1.5%`) once the position exists
+   */
+  private async placeCommandTrailingStop(ctx: BotContext, symbol: string, callbackRate: number, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+
+      // Wait a moment for the entry to fill and the position to appear
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      const placement = await this.trailingStopService.placeTrailingStop(ctx.userState!.userId, apiClient, symbol, callbackRate, positionSide);
+      await this.recordTrailingStop(ctx, symbol, placement);
+
+      const keyboard = Markup.inlineKeyboard([
+        [Markup.button.callback('📊 View Position', `position_manage_${ref}`)]
+      ]);
+
+      await ctx.reply(this.trailingStopService.formatPlaced(placement), { parse_mode: 'Markdown', ...keyboard });
+    } catch (error: any) {
+      console.error('Command trailing stop failed:', error);
+      await ctx.reply(
+        `⚠️ **Trailing Stop Not Set**\n\n**Error:** ${error.message || 'Unknown error'}\n\n💡 You can set it from the position menu.`,
+        { parse_mode: 'Markdown' }
+      );
+    }
+  }
+
+  private async recordTrailingStop(ctx: BotContext, symbol: string, placement: TrailingStopPlacement): Promise<void> {
+    await this.recordOrder(ctx, {
+      market: 'perps',
+      purpose: 'sl',
+      symbol,
+      side: placement.order?.side === 'BUY' ? 'BUY' : 'SELL',
+      type: placement.mode === 'native' ? 'TRAILING_STOP_MARKET' : 'STOP_MARKET'
+    }, placement.order);
+  }
+
+  /**
+   * Execute take profit order
+   */
+  private async handleExecuteTakeProfit(ctx: BotContext, symbol: string, targetPrice: number, profitPercent: number, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery(`🎯 Setting ${profitPercent}% profit target...`);
+      
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      
+      // Execute the take profit order
+      const result = await apiClient.setTakeProfit(symbol, targetPrice, undefined, positionSide);
+      await this.recordProtectiveOrder(ctx, symbol, 'tp', result);
+      
+      const successText = [
+        `✅ **Take Profit Set Successfully**`,
+        '',
+        `🎯 **Symbol:** ${symbol}`,
+        `💰 **Target Price:** $${await this.formatPriceWithPrecision(apiClient, symbol, targetPrice)}`,
+        `📊 **Profit Target:** ${profitPercent}%`,
+        `🆔 **Order ID:** ${result.orderId}`,
+        '',
+        '💰 *Your position will close automatically when target is reached.*'
+      ].join('\n');
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('📊 View Position', `position_manage_${ref}`),
+          Markup.button.callback('🛡️ Set Stop Loss', `position_set_sl_${ref}`)
+        ],
+        [
+          Markup.button.callback('🔙 Back to Positions', 'positions_menu')
+        ]
+      ]);
+      
+      await this.safeEditMessageText(ctx, successText, { parse_mode: 'Markdown', ...keyboard });
+      
+      // Emit event
+      this.eventEmitter.emitEvent({
+        type: EventTypes.TRADE_EXECUTED,
+        timestamp: new Date(),
+        userId: ctx.userState!.userId,
+        telegramId: ctx.userState!.telegramId,
+        correlationId: ctx.correlationId,
+        symbol,
+        action: 'TAKE_PROFIT',
+        price: targetPrice.toString(),
+        orderId: result.orderId
+      });
+      
+    } catch (error: any) {
+      console.error('Execute take profit error:', error);
+      await ctx.reply(`❌ **Take Profit Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`);
+    }
+  }
+
+  /**
+   * Handle custom stop loss price input
+   */
+  private async handleCustomStopLoss(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery('📝 Enter custom stop loss price...');
+      
+      const customText = [
+        `📝 **Custom Stop Loss for ${symbol}**`,
+        '',
+        '🛡️ **Enter your stop loss price:**',
+        '',
+        '⚠️ *Please enter the exact price where you want the stop loss to trigger.*',
+        '',
+        '💡 **Tips:**',
+        '• For LONG positions: Enter price BELOW current price',
+        '• For SHORT positions: Enter price ABOVE current price',
+        '• Use decimal format (e.g. 42.1234)'
+      ].join('\n');
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('🔙 Back to Stop Loss', `position_set_sl_${ref}`)
+        ]
+      ]);
+      
+      await this.safeEditMessageText(ctx, customText, { parse_mode: 'Markdown', ...keyboard });
+      
+      // Set user state to expect SL price input
+      if (ctx.userState) {
+        ctx.userState.conversationState = {
+          step: 'waiting_custom_pair',
+          data: { symbol, positionSide, action: 'stop_loss' }
+        };
+      }
+      
+    } catch (error: any) {
+      console.error('Custom stop loss error:', error);
+      await ctx.reply(`❌ **Setup Failed**\n\n**Error:** ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle custom take profit price input
+   */
+  private async handleCustomTakeProfit(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery('📝 Enter custom take profit price...');
+      
+      const customText = [
+        `📝 **Custom Take Profit for ${symbol}**`,
+        '',
+        '🎯 **Enter your take profit price:**',
+        '',
+        '⚠️ *Please enter the exact price where you want to take profits.*',
+        '',
+        '💡 **Tips:**',
+        '• For LONG positions: Enter price ABOVE current price',
+        '• For SHORT positions: Enter price BELOW current price',
+        '• Use decimal format (e.g. 42.1234)'
+      ].join('\n');
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('🔙 Back to Take Profit', `position_set_tp_${ref}`)
+        ]
+      ]);
+      
+      await this.safeEditMessageText(ctx, customText, { parse_mode: 'Markdown', ...keyboard });
+      
+      // Set user state to expect TP price input
+      if (ctx.userState) {
+        ctx.userState.conversationState = {
+          step: 'waiting_custom_pair',
+          data: { symbol, positionSide, action: 'take_profit' }
+        };
+      }
+      
+    } catch (error: any) {
+      console.error('Custom take profit error:', error);
+      await ctx.reply(`❌ **Setup Failed**\n\n**Error:** ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle market price stop loss (current price)
+   */
+  private async handleMarketStopLoss(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery('📊 Setting stop loss at market price...');
+      
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      
+      // Get current mark price
+      const ticker = await apiClient.get24hrTicker(symbol);
+      const currentPrice = parseFloat(ticker.lastPrice);
+      
+      // Execute stop loss at current market price
+      const result = await apiClient.setStopLoss(symbol, currentPrice, undefined, positionSide);
+      await this.recordProtectiveOrder(ctx, symbol, 'sl', result);
+      
+      const successText = [
+        `✅ **Market Stop Loss Set**`,
+        '',
+        `🛡️ **Symbol:** ${symbol}`,
+        `💰 **Stop Price:** $${await this.formatPriceWithPrecision(apiClient, symbol, currentPrice)} (Market)`,
+        `🆔 **Order ID:** ${result.orderId}`,
+        '',
+        '⚠️ *Stop loss set at current market price.*'
+      ].join('\n');
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('📊 View Position', `position_manage_${ref}`),
+          Markup.button.callback('🔙 Back to Positions', 'positions_menu')
+        ]
+      ]);
+      
+      await this.safeEditMessageText(ctx, successText, { parse_mode: 'Markdown', ...keyboard });
+      
+    } catch (error: any) {
+      console.error('Market stop loss error:', error);
+      await ctx.reply(`❌ **Market Stop Loss Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Handle market price take profit (current price)
+   */
+  private async handleMarketTakeProfit(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
+    try {
+      await ctx.answerCbQuery('📊 Setting take profit at market price...');
+      
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      
+      // Get current mark price
+      const ticker = await apiClient.get24hrTicker(symbol);
+      const currentPrice = parseFloat(ticker.lastPrice);
+      
+      // Execute take profit at current market price
+      const result = await apiClient.setTakeProfit(symbol, currentPrice, undefined, positionSide);
+      await this.recordProtectiveOrder(ctx, symbol, 'tp', result);
+      
+      const successText = [
+        `✅ **Market Take Profit Set**`,
+        '',
+        `🎯 **Symbol:** ${symbol}`,
+        `💰 **Target Price:** $${await this.formatPriceWithPrecision(apiClient, symbol, currentPrice)} (Market)`,
+        `🆔 **Order ID:** ${result.orderId}`,
+        '',
+        '💰 *Take profit set at current market price.*'
+      ].join('\n');
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('📊 View Position', `position_manage_${ref}`),
+          Markup.button.callback('🔙 Back to Positions', 'positions_menu')
+        ]
+      ]);
+      
+      await this.safeEditMessageText(ctx, successText, { parse_mode: 'Markdown', ...keyboard });
+      
+    } catch (error: any) {
+      console.error('Market take profit error:', error);
+      await ctx.reply(`❌ **Market Take Profit Failed**\n\n**Symbol:** ${symbol}\n**Error:** ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Format quantity with proper precision based on symbol's LOT_SIZE filter
+   * This prevents "Precision is over the maximum defined" errors
+   */
+  private async formatQuantityWithPrecision(apiClient: any, symbol: string, rawQuantity: number): Promise<string> {
+    try {
+      const exchangeInfo = await apiClient.getExchangeInfo();
+      const symbolInfo = exchangeInfo.symbols.find((s: any) => s.symbol === symbol);
+      
+      if (symbolInfo) {
+        const lotSizeFilter = symbolInfo.filters.find((f: any) => f.filterType === 'LOT_SIZE');
+        if (lotSizeFilter) {
+          const stepSize = parseFloat(lotSizeFilter.stepSize);
+          const adjustedQuantity = Math.floor(rawQuantity / stepSize) * stepSize;
+          const decimalPlaces = lotSizeFilter.stepSize.split('.')[1]?.length || 0;
+          const formattedQuantity = adjustedQuantity.toFixed(decimalPlaces);
+          
+          console.log(`[PRECISION] ${symbol} - Raw: ${rawQuantity}, Adjusted: ${formattedQuantity}, StepSize: ${stepSize}`);
+          return formattedQuantity;
+        }
+      }
+      
+      // Fallback to 6 decimal places
+      console.warn(`[PRECISION] No LOT_SIZE filter found for ${symbol}, using default precision`);
+      return rawQuantity.toFixed(6);
+    } catch (error) {
+      console.warn(`[PRECISION] Failed to get precision for ${symbol}, using default:`, error);
+      return rawQuantity.toFixed(6);
+    }
+  }
+
+  /**
+   * Format price to exchange precision requirements for TP/SL orders
+   * This prevents "Precision is over the maximum defined" errors for prices
+   */
+  private async formatPriceWithPrecision(apiClient: any, symbol: string, rawPrice: number): Promise<string> {
+    try {
+      const exchangeInfo = await apiClient.getExchangeInfo();
+      const symbolInfo = exchangeInfo.symbols.find((s: any) => s.symbol === symbol);
+      
+      if (symbolInfo) {
+        const priceFilter = symbolInfo.filters.find((f: any) => f.filterType === 'PRICE_FILTER');
+        if (priceFilter) {
+          const tickSize = parseFloat(priceFilter.tickSize);
+          const adjustedPrice = Math.round(rawPrice / tickSize) * tickSize;
+          const decimalPlaces = priceFilter.tickSize.split('.')[1]?.length || 0;
+          const formattedPrice = adjustedPrice.toFixed(decimalPlaces);
+          
+          console.log(`[PRECISION] ${symbol} - Raw Price: ${rawPrice}, Adjusted: ${formattedPrice}, TickSize: ${tickSize}`);
+          return formattedPrice;
+        }
+      }
+      
+      // Fallback: format based on price range
+      const decimalPlaces = rawPrice < 1 ? 6 : rawPrice < 100 ? 4 : 2;
+      console.warn(`[PRECISION] No PRICE_FILTER found for ${symbol}, using fallback precision: ${decimalPlaces}`);
+      return rawPrice.toFixed(decimalPlaces);
+    } catch (error) {
+      console.warn(`[PRECISION] Failed to get price precision for ${symbol}, using fallback:`, error);
+      const decimalPlaces = rawPrice < 1 ? 6 : rawPrice < 100 ? 4 : 2;
+      return rawPrice.toFixed(decimalPlaces);
+    }
+  }
+
+  /**
+   * Handle P&L Analysis - comprehensive profit/loss analysis
+   */
+  private async handlePnLAnalysis(ctx: BotContext): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    try {
+      // Import and use the existing PnL module
+      const PnLModule = await import('../pnl');
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+      const pnlCalculator = new PnLModule.PnLCalculator(apiClient);
+      
+      // Calculate comprehensive P&L
+      const pnlData = await pnlCalculator.calculateComprehensivePnL();
+      
+      let analysisText = '📈 **P&L Analysis**\n\n';
+      
+      // Overview
+      if (pnlData.success && pnlData.totalCurrentValue && pnlData.totalPnL !== undefined) {
+        analysisText += `💰 **Total Portfolio:** $${pnlData.totalCurrentValue.toFixed(2)}\n`;
+        analysisText += `📊 **Total P&L:** ${pnlData.totalPnL >= 0 ? '+' : ''}$${pnlData.totalPnL.toFixed(2)}\n`;
+        if (pnlData.totalPnLPercent !== undefined) {
+          analysisText += `📈 **Total ROI:** ${pnlData.totalPnLPercent >= 0 ? '+' : ''}${pnlData.totalPnLPercent.toFixed(2)}%\n\n`;
+        }
+        
+        // Display positions summary
+        if (pnlData.positions && pnlData.positions.length > 0) {
+          analysisText += `🏪 **Spot Positions:** ${pnlData.positions.length}\n`;
+        }
+        
+        if (pnlData.perpPositions && pnlData.perpPositions.length > 0) {
+          analysisText += `⚡ **Perp Positions:** ${pnlData.perpPositions.length}\n`;
+        }
+      } else {
+        analysisText += `❌ ${pnlData.message || 'Failed to calculate P&L'}\n`;
+      }
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('🔄 Refresh', 'pnl_analysis'),
+          Markup.button.callback('📊 Positions', 'positions')
+        ],
+        [
+          Markup.button.callback('💰 Balance', 'balance'),
+          Markup.button.callback('🔙 Back', 'main_menu')
+        ]
+      ]);
+
+      await ctx.editMessageText(analysisText, { parse_mode: 'Markdown', ...keyboard });
+
+    } catch (error) {
+      console.error('[Orchestrator] P&L analysis error:', error);
+      await ctx.reply('❌ Failed to calculate P&L analysis. Please try again.');
+    }
+  }
+
+  /**
+   * Handle Settings Menu - bot configuration settings
+   */
+  private async handleSettingsMenu(ctx: BotContext): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    try {
+      // Import and use the existing Settings module
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+
+      const userId = ctx.userState.userId;
+      const userSettings = await settingsManager.getUserSettings(userId);
+      
+      let settingsText = '⚙️ **Trading Configuration Center**\n\n';
+      settingsText += 'Customize your trading experience with professional risk management tools, security features, and personalized presets. Optimize your workflow and protect your capital.\n\n';
+      
+      // Display current settings
+      settingsText += `**🔧 Current Configuration:**\n`;
+      settingsText += `🧪 **Mode:** ${ctx.userState.isPaper ? 'Paper (simulated)' : 'Live'}\n`;
+      settingsText += `🎯 **Leverage Cap:** ${userSettings.leverage_cap}x\n`;
+      settingsText += `💰 **Default Leverage:** ${userSettings.default_leverage}x\n`;
+      settingsText += `📊 **Slippage Tolerance:** ${(userSettings.slippage_bps / 100).toFixed(2)}%\n`;
+      settingsText += `🛡️ **Daily Loss Cap:** ${userSettings.daily_loss_cap ? '$' + userSettings.daily_loss_cap : 'None'}\n`;
+      settingsText += `🔒 **PIN Protection:** ${userSettings.pin_hash ? 'Enabled' : 'Disabled'}\n\n`;
+      
+      settingsText += '**🚀 Customization Options:**\n';
+      settingsText += '• **Risk Management** — Set leverage limits and loss caps\n';
+      settingsText += '• **Trade Presets** — Configure default sizes and quick amounts\n';
+      settingsText += '• **Slippage Control** — Fine-tune execution tolerance\n';
+      settingsText += '• **Security Features** — PIN protection and wallet safety\n\n';
+      settingsText += '**Select a category to configure:**';
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('🎯 Leverage', 'settings_leverage'),
+          Markup.button.callback('💰 Size', 'settings_size')
+        ],
+        [
+          Markup.button.callback('🛡️ Risk', 'settings_risk'),
+          Markup.button.callback('🔒 Security', 'settings_security')
+        ],
+        [
+          Markup.button.callback('🧪 Paper Trading', 'paper_menu'),
+          Markup.button.callback('↔️ Position Mode', 'settings_position_mode')
+        ],
+        [
+          Markup.button.callback('🔄 Refresh', 'settings'),
+          Markup.button.callback('🔙 Back', 'main_menu')
+        ]
+      ]);
+
+      await ctx.editMessageText(settingsText, { parse_mode: 'Markdown', ...keyboard });
+
+    } catch (error) {
+      console.error('[Orchestrator] Settings menu error:', error);
+      await ctx.reply('❌ Failed to load settings. Please try again.');
+    }
+  }
+
+  /**
+   * Handle settings submenus
+   */
+  private async handleSettingsSubmenu(ctx: BotContext, setting: string): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    try {
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+      const userSettings = await settingsManager.getUserSettings(ctx.userState.userId);
+
+      switch (setting) {
+        case 'leverage':
+          await this.handleLeverageSettings(ctx, userSettings, settingsManager);
+          break;
+        case 'size':
+          await this.handleSizeSettings(ctx, userSettings, settingsManager);
+          break;
+        case 'risk':
+          await this.handleRiskSettings(ctx, userSettings, settingsManager);
+          break;
+        case 'security':
+          await this.handleSecuritySettings(ctx, userSettings, settingsManager);
+          break;
+        case 'position_mode':
+          await this.handlePositionModeSettings(ctx);
+          break;
+        default:
+          await ctx.reply(`❌ Unknown setting: ${setting}`);
+      }
+    } catch (error) {
+      console.error('Settings submenu error:', error);
+      await ctx.reply('❌ Failed to load settings submenu. Please try again.');
+    }
+  }
+
+  /**
+   * Handle leverage settings
+   */
+  private async handleLeverageSettings(ctx: BotContext, userSettings: any, settingsManager: any): Promise<void> {
+    const leverageText = [
+      '🎯 **Leverage Settings**',
+      '',
+      `**Current Leverage Cap:** ${userSettings.leverage_cap}x`,
+      `**Default Leverage:** ${userSettings.default_leverage}x`,
+      '',
+      '⚙️ **Configure leverage limits for safety:**',
+      '• Leverage Cap: Maximum allowed leverage',
+      '• Default Leverage: Used for quick trades',
+      '',
+      '💡 **Recommended:** Cap at 20x for safer trading'
+    ].join('\n');
+
+    const keyboard = Markup.inlineKeyboard([
+      [
+        Markup.button.callback('5x Cap', 'set_leverage_cap_5'),
+        Markup.button.callback('10x Cap', 'set_leverage_cap_10')
+      ],
+      [
+        Markup.button.callback('20x Cap', 'set_leverage_cap_20'),
+        Markup.button.callback('50x Cap', 'set_leverage_cap_50')
+      ],
+      [
+        Markup.button.callback('2x Default', 'set_default_leverage_2'),
+        Markup.button.callback('5x Default', 'set_default_leverage_5')
+      ],
+      [
+        Markup.button.callback('🔙 Back', 'settings')
+      ]
+    ]);
+
+    await ctx.editMessageText(leverageText, { parse_mode: 'Markdown', ...keyboard });
+  }
+
+  /**
+   * One-way or hedge position mode. This lives on the exchange account, so it is read from and
+   * switched on the exchange rather than kept with the user's settings
+   */
+  private async handlePositionModeSettings(ctx: BotContext): Promise<void> {
+    const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+    const hedgeMode = await apiClient.getPositionMode();
+
+    const modeText = [
+      '↔️ **Position Mode**',
+      '',
+      `**Current Mode:** ${hedgeMode ? 'Hedge' : 'One-way'}`,
+      '',
+      '• **One-way:** one position per symbol; selling reduces a long',
+      '• **Hedge:** a LONG and a SHORT leg per symbol, each protected and closed on its own',
+      '',
+      '⚠️ The exchange only switches modes while you have no open positions or orders.'
+    ].join('\n');
+
+    const keyboard = Markup.inlineKeyboard([
+      [
+        hedgeMode
+          ? Markup.button.callback('➡️ Switch to One-way', 'set_position_mode_oneway')
+          : Markup.button.callback('↔️ Switch to Hedge', 'set_position_mode_hedge')
+      ],
+      [
+        Markup.button.callback('🔙 Back', 'settings')
+      ]
+    ]);
+
+    await ctx.editMessageText(modeText, { parse_mode: 'Markdown', ...keyboard });
+  }
+
+  private async handleChangePositionMode(ctx: BotContext, hedgeMode: boolean): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+      await apiClient.changePositionMode(hedgeMode);
+      await ctx.answerCbQuery(`✅ Switched to ${hedgeMode ? 'hedge' : 'one-way'} mode`);
+      await this.handlePositionModeSettings(ctx);
+    } catch (error: any) {
+      // Open positions or orders, or already in that mode
+      console.error('[Orchestrator] Position mode change error:', error);
+      await ctx.answerCbQuery();
+      await ctx.reply(
+        `❌ **Position Mode Not Changed**\n\n${error.message || 'Unknown error'}`,
+        { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('🔙 Back', 'settings_position_mode')]]) }
+      );
+    }
+  }
+
+  /**
+   * Handle size settings
+   */
+  private async handleSizeSettings(ctx: BotContext, userSettings: any, settingsManager: any): Promise<void> {
+    const sizeText = [
+      '💰 **Size Settings**',
+      '',
+      `**Size Presets:** $${userSettings.size_presets.join(', $')}`,
+      '',
+      '⚙️ **Configure default trade sizes:**',
+      '• Quick access buttons for common amounts',
+      '• Customize based on your trading style',
+      '',
+      '💡 **Popular presets:** $25, $50, $100, $250'
+    ].join('\n');
+
+    const keyboard = Markup.inlineKeyboard([
+      [
+        Markup.button.callback('Conservative', 'set_size_preset_conservative'),
+        Markup.button.callback('Moderate', 'set_size_preset_moderate')
+      ],
+      [
+        Markup.button.callback('Aggressive', 'set_size_preset_aggressive'),
+        Markup.button.callback('Custom', 'set_size_preset_custom')
+      ],
+      [
+        Markup.button.callback('🔙 Back', 'settings')
+      ]
+    ]);
+
+    await ctx.editMessageText(sizeText, { parse_mode: 'Markdown', ...keyboard });
+  }
+
+  /**
+   * Handle risk settings
+   */
+  private async handleRiskSettings(ctx: BotContext, userSettings: any, settingsManager: any): Promise<void> {
+    const riskText = [
+      '🛡️ **Risk Management Settings**',
+      '',
+      `**Slippage Tolerance:** ${(userSettings.slippage_bps / 100).toFixed(2)}%`,
+      `**Daily Loss Cap:** ${userSettings.daily_loss_cap ? '$' + userSettings.daily_loss_cap : 'None'}`,
+      `**TP Presets:** ${userSettings.tp_presets.join('%, ')}%`,
+      `**SL Presets:** ${userSettings.sl_presets.join('%, ')}%`,
+      `**Margin Alerts:** ${userSettings.margin_alert_levels.length > 0 ? userSettings.margin_alert_levels.join('%, ') + '%' : 'Off'}`,
+      '',
+      '⚙️ **Configure risk management:**',
+      '• Set maximum daily losses',
+      '• Configure slippage tolerance',
+      '• Set take profit/stop loss presets'
+    ].join('\n');
+
+    const keyboard = Markup.inlineKeyboard([
+      [
+        Markup.button.callback('$100 Daily Cap', 'set_daily_cap_100'),
+        Markup.button.callback('$500 Daily Cap', 'set_daily_cap_500')
+      ],
+      [
+        Markup.button.callback('0.5% Slippage', 'set_slippage_50'),
+        Markup.button.callback('1% Slippage', 'set_slippage_100')
+      ],
+      [
+        Markup.button.callback('Remove Daily Cap', 'remove_daily_cap'),
+        Markup.button.callback('Reset to Default', 'reset_risk_settings')
+      ],
+      [
+        Markup.button.callback('🎯 Edit TP Presets', 'edit_tp_presets'),
+        Markup.button.callback('🛑 Edit SL Presets', 'edit_sl_presets')
+      ],
+      [
+        Markup.button.callback('⚠️ Margin Alerts', 'margin_alerts')
+      ],
+      [
+        Markup.button.callback('🔙 Back', 'settings')
+      ]
+    ]);
+
+    await ctx.editMessageText(riskText, { parse_mode: 'Markdown', ...keyboard });
+  }
+
+  /**
+   * Margin alert levels: pick the margin ratios that trigger a background warning
+   */
+  private async handleMarginAlertsMenu(ctx: BotContext): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.answerCbQuery('❌ Please link your API credentials first!');
+      return;
+    }
+
+    try {
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+      const userSettings = await settingsManager.getUserSettings(ctx.userState.userId);
+      const current = userSettings.margin_alert_levels.join('_');
+
+      const alertsText = [
+        '⚠️ **Margin Alerts**',
+        '',
+        `**Current Levels:** ${userSettings.margin_alert_levels.length > 0 ? userSettings.margin_alert_levels.map(level => `${level}%`).join(', ') : 'Off'}`,
+        '',
+        'Get a message when your margin ratio rises past a level. Liquidation happens at 100%.',
+        '',
+        '• The account ratio covers cross positions',
+        '• Isolated positions are checked on their own',
+        '• Each level fires once until the ratio drops back below it'
+      ].join('\n');
+
+      const keyboard = Markup.inlineKeyboard([
+        ...MarginRiskService.ALERT_LEVEL_PRESETS.map(levels => [
+          Markup.button.callback(
+            `${levels.join('_') === current ? '✅ ' : ''}${levels.join('% / ')}%`,
+            `set_margin_alerts_${levels.join('_')}`
+          )
+        ]),
+        [Markup.button.callback(`${current === '' ? '✅ ' : ''}Off`, 'set_margin_alerts_off')],
+        [
+          Markup.button.callback('📊 Positions', 'positions'),
+          Markup.button.callback('🔙 Back', 'settings_risk')
+        ]
+      ]);
+
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(alertsText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error('Margin alerts menu error:', error);
+      await ctx.reply('❌ Failed to load margin alerts. Please try again.');
+    }
+  }
+
+  private async handleSetMarginAlerts(ctx: BotContext, levels: number[]): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.answerCbQuery('❌ Please link your API credentials first!');
+      return;
+    }
+
+    const SettingsModule = await import('../settings');
+    const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+    const result = await settingsManager.updateSettings(ctx.userState.userId, { margin_alert_levels: levels });
+
+    if (!result.success) {
+      await ctx.answerCbQuery(`❌ ${result.errors[0] || 'Failed to save margin alerts'}`);
+      return;
+    }
+
+    await ctx.answerCbQuery(levels.length > 0 ? `⚠️ Alerts at ${levels.join('%, ')}%` : 'Margin alerts off');
+    await this.handleMarginAlertsMenu(ctx);
+  }
+
+  /**
+   * Save a settings change from a settings menu button and show the submenu again
+   */
+  private async applySettingsUpdate(ctx: BotContext, updates: SettingsUpdateRequest, submenu: 'leverage' | 'size' | 'risk' | 'security'): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.answerCbQuery('❌ Please link your API credentials first!');
+      return;
+    }
+
+    try {
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+      const result = await settingsManager.updateSettings(ctx.userState.userId, updates);
+
+      if (!result.success) {
+        await ctx.answerCbQuery(`❌ ${result.errors[0] || 'Failed to save settings'}`, { show_alert: true });
+        return;
+      }
+
+      await ctx.answerCbQuery(result.warnings.length > 0 ? `✅ Saved. ${result.warnings[0]}` : '✅ Settings saved', { show_alert: result.warnings.length > 0 });
+      await this.handleSettingsSubmenu(ctx, submenu);
+    } catch (error) {
+      console.error('Settings update error:', error);
+      await ctx.reply('❌ Failed to save settings. Please try again.');
+    }
+  }
+
+  private async handleResetRiskSettings(ctx: BotContext): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.answerCbQuery('❌ Please link your API credentials first!');
+      return;
+    }
+
+    const SettingsModule = await import('../settings');
+    const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+    const result = await settingsManager.resetRiskSettings(ctx.userState.userId);
+
+    await ctx.answerCbQuery(result.success ? '✅ Risk settings reset' : `❌ ${result.errors[0] || 'Failed to reset settings'}`);
+    if (result.success) {
+      await this.handleSettingsSubmenu(ctx, 'risk');
+    }
+  }
+
+  /**
+   * Ask for a typed list of size, take profit or stop loss presets
+   */
+  private async handlePresetsEditStart(ctx: BotContext, field: 'size_presets' | 'tp_presets' | 'sl_presets'): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.answerCbQuery('❌ Please link your API credentials first!');
+      return;
+    }
+
+    const prompts = {
+      size_presets: ['💰 **Custom Size Presets**', 'Send up to 10 USDT amounts separated by commas, e.g. `20, 75, 150`'],
+      tp_presets: ['🎯 **Take Profit Presets**', 'Send up to 10 percentages separated by commas, e.g. `1.5, 3, 6`'],
+      sl_presets: ['🛑 **Stop Loss Presets**', 'Send up to 10 percentages separated by commas, e.g. `1, 2.5`']
+    };
+
+    const conversationState = { step: 'waiting_settings_presets' as const, data: { settingsField: field } };
+    ctx.userState.conversationState = conversationState;
+    await this.authMiddleware.setConversationState(ctx.userState.telegramId, conversationState);
+
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(`${prompts[field][0]}\n\n${prompts[field][1]}`, {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard([
+        [Markup.button.callback('❌ Cancel', field === 'size_presets' ? 'settings_size' : 'settings_risk')]
+      ])
+    });
+  }
+
+  private async handlePresetsText(ctx: BotContext, text: string): Promise<void> {
+    const field = ctx.userState?.conversationState?.data?.settingsField;
+    if (!field) return;
+
+    const SettingsModule = await import('../settings');
+    const submenu = field === 'size_presets' ? 'settings_size' : 'settings_risk';
+    const values = SettingsModule.SettingsManager.parsePresetList(text);
+    if (!values) {
+      await ctx.reply(
+        '❌ **Invalid Presets**\n\nSend numbers separated by commas, e.g. `25, 50, 100`.',
+        { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', submenu)]]) }
+      );
+      return;
+    }
+
+    const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+    const result = await settingsManager.updateSettings(ctx.userState!.userId, { [field]: values });
+
+    if (!result.success) {
+      await ctx.reply(
+        `❌ **Presets Not Saved**\n\n${result.errors.map(error => `• ${error}`).join('\n')}\n\nSend the list again or cancel.`,
+        { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', submenu)]]) }
+      );
+      return;
+    }
+
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+
+    const saved = (await settingsManager.getUserSettings(ctx.userState!.userId))[field];
+    const unit = field === 'size_presets' ? '$' : '';
+    const suffix = field === 'size_presets' ? '' : '%';
+    await ctx.reply(
+      [
+        '✅ **Presets Saved**',
+        '',
+        saved.map(value => `${unit}${value}${suffix}`).join(', '),
+        ...result.warnings.map(warning => `⚠️ ${warning}`)
+      ].join('\n'),
+      { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('🔙 Back to Settings', submenu)]]) }
+    );
+  }
+
+  /**
+   * Enable PIN: ask for a new PIN
+   */
+  private async handleEnablePin(ctx: BotContext): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.answerCbQuery('❌ Please link your API credentials first!');
+      return;
+    }
+
+    const SettingsModule = await import('../settings');
+    const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+    if (await settingsManager.hasPinSet(ctx.userState.userId)) {
+      await ctx.answerCbQuery('🔒 PIN is already enabled. Use Change PIN instead.');
+      return;
+    }
+
+    await ctx.answerCbQuery();
+    await this.promptNewPin(ctx);
+  }
+
+  private async handleChangePin(ctx: BotContext, pinVerified = false): Promise<void> {
+    if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'change_pin' }))) {
+      return;
+    }
+
+    if (ctx.callbackQuery) await ctx.answerCbQuery();
+    await this.promptNewPin(ctx);
+  }
+
+  private async handleDisablePin(ctx: BotContext, pinVerified = false): Promise<void> {
+    if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'disable_pin' }))) {
+      return;
+    }
+
+    const SettingsModule = await import('../settings');
+    const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+    const result = await settingsManager.clearPin(ctx.userState!.userId);
+
+    if (ctx.callbackQuery) await ctx.answerCbQuery(result.success ? '🔓 PIN disabled' : '❌ Failed');
+    await ctx.reply(
+      result.success
+        ? '🔓 **PIN Disabled**\n\nUnlinking, closing all positions, exporting settings and large orders no longer ask for a PIN.'
+        : `❌ ${result.error}`,
+      { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('🔒 Security Settings', 'settings_security')]]) }
+    );
+  }
+
+  private async handleResetSecurity(ctx: BotContext, pinVerified = false): Promise<void> {
+    if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'reset_security' }))) {
+      return;
+    }
+
+    const SettingsModule = await import('../settings');
+    const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+    const result = await settingsManager.resetSecuritySettings(ctx.userState!.userId);
+    const userSettings = await settingsManager.getUserSettings(ctx.userState!.userId);
+
+    if (ctx.callbackQuery) await ctx.answerCbQuery(result.success ? '✅ Security settings reset' : '❌ Failed');
+    await ctx.reply(
+      result.success
+        ? `✅ **Security Settings Reset**\n\nOrders from $${userSettings.pin_order_threshold} ask for your PIN${userSettings.pin_hash ? '.' : ' once you enable one.'}`
+        : `❌ ${result.errors[0] || 'Failed to reset security settings'}`,
+      { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('🔒 Security Settings', 'settings_security')]]) }
+    );
+  }
+
+  private async handleSecurityInfo(ctx: BotContext): Promise<void> {
+    const { SettingsManager } = await import('../settings');
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(
+      [
+        '🔐 **How Your Account Is Protected**',
+        '',
+        '• API keys are encrypted at rest and never shown again after linking',
+        '• Your PIN is stored as a salted hash and its message is deleted once read',
+        `• PIN entry locks for ${SettingsManager.PIN_LOCKOUT_MINUTES} minutes after ${SettingsManager.MAX_PIN_ATTEMPTS} wrong attempts`,
+        '• Unlinking, closing all positions, exporting settings and large orders need the PIN',
+        '',
+        '💡 Use API keys without withdrawal permission.'
+      ].join('\n'),
+      { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('🔙 Back', 'settings_security')]]) }
+    );
+  }
+
+  private async promptNewPin(ctx: BotContext): Promise<void> {
+    const conversationState = { step: 'waiting_new_pin' as const, data: {} };
+    ctx.userState!.conversationState = conversationState;
+    await this.authMiddleware.setConversationState(ctx.userState!.telegramId, conversationState);
+
+    await ctx.reply(
+      '🔒 **Set Your PIN**\n\nSend a new PIN of 4-8 digits. The message will be deleted once it is read.',
+      { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'settings_security')]]) }
+    );
+  }
+
+  private async handleNewPinInput(ctx: BotContext, pin: string): Promise<void> {
+    try {
+      await ctx.deleteMessage();
+    } catch (error) {
+      console.warn('[Orchestrator] Could not delete PIN message:', error);
+    }
+
+    const SettingsModule = await import('../settings');
+    const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+    const result = await settingsManager.setPin(ctx.userState!.userId, pin.trim());
+
+    if (!result.success) {
+      await ctx.reply(
+        `❌ ${result.error}. Send another PIN or cancel.`,
+        Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'settings_security')]])
+      );
+      return;
+    }
+
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+    const userSettings = await settingsManager.getUserSettings(ctx.userState!.userId);
+    await ctx.reply(
+      `✅ **PIN Saved**\n\nYou'll be asked for it to unlink, close all positions, export settings${userSettings.pin_order_threshold !== null ? ` and place orders from $${userSettings.pin_order_threshold}` : ''}.`,
+      { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('🔒 Security Settings', 'settings_security')]]) }
+    );
+  }
+
+  private async hasApiCredentials(ctx: BotContext): Promise<boolean> {
+    if (!ctx.userState?.userId) return false;
+    return !!(await this.db.getApiCredentials(ctx.userState.userId));
+  }
+
+  /**
+   * Show the paper trading panel with the simulated account and the mode switch
+   */
+  private async showPaperMenu(ctx: BotContext): Promise<void> {
+    if (!ctx.userState?.userId) {
+      await ctx.reply('❌ Unable to load your account. Please use /start first.');
+      return;
+    }
+
+    try {
+      const enabled = ctx.userState.isPaper === true;
+      const summary = await this.paperTradingService.getSummary(ctx.userState.userId);
+
+      const keyboard = Markup.inlineKeyboard([
+        [Markup.button.callback(enabled ? '💰 Switch to Live' : '🧪 Switch to Paper', 'paper_toggle')],
+        [
+          Markup.button.callback('♻️ Reset Paper Account', 'paper_reset'),
+          Markup.button.callback('🔄 Refresh', 'paper_menu')
+        ],
+        [Markup.button.callback('🔙 Back', ctx.userState.isLinked ? 'settings' : 'main_menu')]
+      ]);
+
+      const text = this.paperTradingService.formatSummary(enabled, summary);
+      if (ctx.callbackQuery) {
+        await ctx.answerCbQuery();
+        await ctx.editMessageText(text, { parse_mode: 'Markdown', ...keyboard });
+      } else {
+        await ctx.reply(text, { parse_mode: 'Markdown', ...keyboard });
+      }
+    } catch (error) {
+      console.error('[Orchestrator] Paper menu error:', error);
+      await ctx.reply('❌ Failed to load paper trading. Please try again.');
+    }
+  }
+
+  /**
+   * Switch between paper and live trading. Refused while trailing stops, brackets, exits or
+   * ladders are active, since their workers would otherwise manage orders on the other account.
+   */
+  private async handlePaperToggle(ctx: BotContext): Promise<void> {
+    if (!ctx.userState?.userId) {
+      await ctx.answerCbQuery('❌ Please use /start first');
+      return;
+    }
+
+    const { userId, telegramId } = ctx.userState;
+    const enable = !ctx.userState.isPaper;
+
+    try {
+      const managedOrders = await this.db.countActiveManagedOrders(userId);
+      if (managedOrders > 0) {
+        await ctx.answerCbQuery('❌ Managed orders are active');
+        await ctx.reply(
+          `⚠️ **Can't Switch Mode Yet**\n\nYou have ${managedOrders} active trailing stop, bracket, exit or ladder order${managedOrders === 1 ? '' : 's'}. Cancel ${managedOrders === 1 ? 'it' : 'them'} before switching between paper and live trading.`,
+          { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('🔙 Paper Trading', 'paper_menu')]]) }
+        );
+        return;
+      }
+
+      const hasCredentials = await this.hasApiCredentials(ctx);
+      if (!enable && !hasCredentials) {
+        await ctx.answerCbQuery();
+        await ctx.reply(
+          '🔗 **Link API to Trade Live**\n\nLive trading needs your AsterDEX API credentials. Link them first, then switch back to live mode.',
+          { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('🔗 Link API', 'link_api')]]) }
+        );
+        return;
+      }
+
+      await this.db.setPaperMode(userId, enable);
+      ctx.userState.isPaper = enable;
+      ctx.userState.isLinked = enable || hasCredentials;
+
+      // Live fills would be mislabelled while in paper mode, so the exchange stream pauses
+      if (enable) {
+        await this.userDataStreamService.stop(userId);
+      } else {
+        this.userDataStreamService.start(userId, telegramId).catch(error =>
+          console.error(`[Orchestrator] Failed to resume user stream for ${userId}:`, error)
+        );
+      }
+
+      await this.showPaperMenu(ctx);
+    } catch (error) {
+      console.error('[Orchestrator] Paper toggle error:', error);
+      await ctx.reply('❌ Failed to switch trading mode. Please try again.');
+    }
+  }
+
+  /**
+   * Reset the paper account to the starting balances after a confirmation
+   */
+  private async handlePaperReset(ctx: BotContext, confirmed = false): Promise<void> {
+    if (!ctx.userState?.userId) {
+      await ctx.answerCbQuery('❌ Please use /start first');
+      return;
+    }
+
+    if (!confirmed) {
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(
+        `♻️ **Reset Paper Account?**\n\nAll paper positions, open orders and history are deleted and both wallets go back to $${PaperTradingService.STARTING_BALANCE.toLocaleString()} USDT. Your live account is not touched.`,
+        {
+          parse_mode: 'Markdown',
+          ...Markup.inlineKeyboard([[
+            Markup.button.callback('✅ Reset', 'paper_reset_confirm'),
+            Markup.button.callback('❌ Cancel', 'paper_menu')
+          ]])
+        }
+      );
+      return;
+    }
+
+    try {
+      await this.paperTradingService.reset(ctx.userState.userId);
+      await this.showPaperMenu(ctx);
+    } catch (error) {
+      console.error('[Orchestrator] Paper reset error:', error);
+      await ctx.reply('❌ Failed to reset the paper account. Please try again.');
+    }
+  }
+
+  /**
+   * Handle security settings
+   */
+  private async handleSecuritySettings(ctx: BotContext, userSettings: any, settingsManager: any): Promise<void> {
+    const securityText = [
+      '🔒 **Security Settings**',
+      '',
+      `**PIN Protection:** ${userSettings.pin_hash ? 'Enabled' : 'Disabled'}`,
+      `**PIN Required For:** unlink, close all, settings export${userSettings.pin_order_threshold !== null ? ` and orders from $${userSettings.pin_order_threshold}` : ''}`,
+      '',
+      '⚙️ **Security features:**',
+      '• PIN protection for trades',
+      '• Secure credential storage',
+      '• Session management',
+      '',
+      '💡 **Enable PIN for extra security on large trades**'
+    ].join('\n');
+
+    const keyboard = Markup.inlineKeyboard([
+      [
+        userSettings.pin_hash ? 
+          Markup.button.callback('🔓 Disable PIN', 'disable_pin') :
+          Markup.button.callback('🔒 Enable PIN', 'enable_pin'),
+        Markup.button.callback('🔄 Change PIN', 'change_pin')
+      ],
+      [
+        Markup.button.callback('🔐 Security Info', 'security_info'),
+        Markup.button.callback('⚠️ Reset Security', 'reset_security')
+      ],
+      [
+        Markup.button.callback('📤 Export Settings', 'export_settings')
+      ],
+      [
+        Markup.button.callback('🔙 Back', 'settings')
+      ]
+    ]);
+
+    await ctx.editMessageText(securityText, { parse_mode: 'Markdown', ...keyboard });
+  }
+
+  /**
+   * Handle price menu - main price tracking interface
+   */
+  private async handlePriceMenu(ctx: BotContext): Promise<void> {
+    try {
+      const priceText = [
+        '📊 **Live Market Intelligence Center**',
+        '',
+        'Real-time market data, price analysis, and trading insights powered by Aster DEX. Track market leaders, monitor volume surges, and discover trending opportunities.',
+        '',
+        '**🏆 Market Leaders:**',
+        '• Top cryptocurrencies by market capitalization',
+        '• Most liquid and established trading pairs',
+        '• Click any token for detailed analysis',
+        '',
+        '**📈 Volume Analytics:**',
+        '• Highest volume pairs with momentum indicators',
+        '• Real-time trading activity and price movements',
+        '• Identify market hotspots and trends',
+        '',
+        '**⭐ Smart Features:**',
+        '• Curated watchlist of key assets',
+        '• Multi-token price comparison tools',
+        '• Complete market overview and discovery',
+        '',
+        '**Choose your market analysis:**'
+      ].join('\n');
+
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('🏆 Top Market Cap', 'price_top_mcap'),
+          Markup.button.callback('📈 Top Volume', 'price_top_volume')
+        ],
+        [
+          Markup.button.callback('⭐ Watchlist', 'price_watchlist'),
+          Markup.button.callback('🔄 Compare Prices', 'price_compare')
+        ],
+        [
+          Markup.button.callback('🌐 All Markets', 'price_all_markets'),
+          Markup.button.callback('📈 Trade', 'unified_trade')
+        ],
+        [
+          Markup.button.callback('🔙 Back', 'main_menu')
+        ]
+      ]);
+
+      await this.safeEditMessageText(ctx, priceText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error('Price menu error:', error);
+      await ctx.reply('❌ Failed to load price menu. Please try again.');
+    }
+  }
+
+  /**
+   * Handle top market cap display
+   */
+  private async handleTopMarketCap(ctx: BotContext): Promise<void> {
+    try {
+      // Top symbols by market cap (most established and valuable cryptocurrencies)
+      const topSymbols = [
+        'BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'XRPUSDT', 'ADAUSDT', 
+        'SOLUSDT', 'DOTUSDT', 'LINKUSDT', 'AVAXUSDT', 'MATICUSDT'
+      ];
+      
+      let priceText = '🏆 **Top Market Cap Cryptocurrencies**\n💰 *Current Price • 24h Change (USD) • High/Low • Volume*\n\n';
+      
+      const pricePromises = topSymbols.map(async (symbol, index) => {
+        try {
+          const ticker = await this.publicApiClient.get24hrTicker(symbol);
+          const price = parseFloat(ticker.lastPrice);
+          const change24h = parseFloat(ticker.priceChangePercent);
+          const volume = parseFloat(ticker.volume);
+          const high24h = parseFloat(ticker.highPrice);
+          const low24h = parseFloat(ticker.lowPrice);
+          const openPrice = parseFloat(ticker.openPrice);
+          
+          const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
+          const changeText = change24h >= 0 ? '+' : '';
+          
+          // Format price based on value
+          const formattedPrice = price < 1 ? price.toFixed(6) : price < 100 ? price.toFixed(4) : price.toFixed(2);
+          
+          // Calculate price change in USD
+          const priceChange = price - openPrice;
+          const formattedPriceChange = Math.abs(priceChange) < 0.01 ? 
+            priceChange.toFixed(6) : priceChange.toFixed(2);
+          
+          // Format volume in appropriate units
+          const volumeText = volume > 1000000 ? 
+            `${(volume / 1000000).toFixed(1)}M` : 
+            volume > 1000 ? `${(volume / 1000).toFixed(1)}K` : volume.toFixed(0);
+          
+          return `${index + 1}. **${symbol.replace('USDT', '')}**\n` +
+                 `   💰 **$${formattedPrice}** ${changeEmoji} ${changeText}${change24h.toFixed(2)}% (${changeText}$${formattedPriceChange})\n` +
+                 `   📊 H: $${high24h.toFixed(price < 1 ? 6 : 2)} • L: $${low24h.toFixed(price < 1 ? 6 : 2)} • Vol: ${volumeText}\n`;
+        } catch (error) {
+          console.error(`Failed to fetch ticker for ${symbol}:`, error);
+          return `${index + 1}. **${symbol.replace('USDT', '')}** • ❌ Price unavailable\n`;
+        }
+      });
+      
+      const priceResults = await Promise.allSettled(pricePromises);
+      const successfulResults = priceResults.filter(result => result.status === 'fulfilled').map(result => result.value);
+      const failedCount = priceResults.length - successfulResults.length;
+      
+      if (successfulResults.length === 0) {
+        throw new Error('Failed to fetch price data for all cryptocurrencies');
+      }
+      
+      priceText += successfulResults.join('\n');
+      
+      if (failedCount > 0) {
+        priceText += `\n\n⚠️ ${failedCount} price(s) unavailable due to API issues`;
+      }
+      
+      // Add clickable token buttons for quick access
+      const tokenButtons = topSymbols.slice(0, 6).map(symbol => 
+        Markup.button.callback(symbol.replace('USDT', ''), `price_token_${symbol}`)
+      );
+      
+      const buttonRows = [];
+      for (let i = 0; i < tokenButtons.length; i += 3) {
+        buttonRows.push(tokenButtons.slice(i, i + 3));
+      }
+      
+      buttonRows.push([
+        Markup.button.callback('📈 Top Volume', 'price_top_volume'),
+        Markup.button.callback('🔄 Refresh', 'price_top_mcap')
+      ]);
+      buttonRows.push([
+        Markup.button.callback('📈 Trade', 'unified_trade'),
+        Markup.button.callback('🔙 Back', 'price_menu')
+      ]);
+      
+      const keyboard = Markup.inlineKeyboard(buttonRows);
+
+      await this.safeEditMessageText(ctx, priceText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error('Top market cap error:', error);
+      await ctx.reply('❌ Failed to load top market cap data. Please try again.');
+    }
+  }
+
+  /**
+   * Handle top volume display
+   */
+  private async handleTopVolume(ctx: BotContext): Promise<void> {
+    try {
+      const allTickers = await this.publicApiClient.getAllFuturesTickers();
+      
+      // Check if we actually got data
+      if (!allTickers || allTickers.length === 0) {
+        throw new Error('No ticker data received from API');
+      }
+      
+      // Sort by volume and take top 10
+      const topByVolume = allTickers
+        .filter((ticker: any) => ticker.symbol.endsWith('USDT'))
+        .sort((a: any, b: any) => parseFloat(b.volume) - parseFloat(a.volume))
+        .slice(0, 10);
+        
+      // Check if we have any USDT pairs
+      if (topByVolume.length === 0) {
+        throw new Error('No USDT trading pairs found in ticker data');
+      }
+      
+      let volumeText = '📈 **Highest Volume Trading Pairs (24h)**\n💰 *Current Price • 24h Change (USD) • High/Low • Volume*\n\n';
+      
+      // Get detailed ticker data for each top volume symbol
+      const detailedTickerPromises = topByVolume.slice(0, 10).map(async (ticker: any, index: number) => {
+        try {
+          const detailedTicker = await this.publicApiClient.get24hrTicker(ticker.symbol);
+          const price = parseFloat(detailedTicker.lastPrice);
+          const change24h = parseFloat(detailedTicker.priceChangePercent);
+          const volume = parseFloat(detailedTicker.volume);
+          const high24h = parseFloat(detailedTicker.highPrice);
+          const low24h = parseFloat(detailedTicker.lowPrice);
+          const openPrice = parseFloat(detailedTicker.openPrice);
+          
+          const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
+          const changeText = change24h >= 0 ? '+' : '';
+          
+          // Format price based on value
+          const formattedPrice = price < 1 ? price.toFixed(6) : price < 100 ? price.toFixed(4) : price.toFixed(2);
+          
+          // Calculate price change in USD
+          const priceChange = price - openPrice;
+          const formattedPriceChange = Math.abs(priceChange) < 0.01 ? 
+            priceChange.toFixed(6) : priceChange.toFixed(2);
+          
+          // Format volume in appropriate units
+          const volumeText = volume > 1000000 ? 
+            `${(volume / 1000000).toFixed(1)}M` : 
+            volume > 1000 ? `${(volume / 1000).toFixed(1)}K` : volume.toFixed(0);
+          
+          return `${index + 1}. **${ticker.symbol.replace('USDT', '')}**\n` +
+                 `   💰 **$${formattedPrice}** ${changeEmoji} ${changeText}${change24h.toFixed(2)}% (${changeText}$${formattedPriceChange})\n` +
+                 `   📊 H: $${high24h.toFixed(price < 1 ? 6 : 2)} • L: $${low24h.toFixed(price < 1 ? 6 : 2)} • Vol: ${volumeText}\n`;
+        } catch (error) {
+          console.error(`Failed to fetch detailed ticker for ${ticker.symbol}:`, error);
+          // Fallback to basic data from getAllFuturesTickers
+          const price = parseFloat(ticker.lastPrice);
+          const change24h = parseFloat(ticker.priceChangePercent);
+          const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
+          const changeText = change24h >= 0 ? '+' : '';
+          const volume = (parseFloat(ticker.volume) / 1000000).toFixed(1);
+          
+          return `${index + 1}. **${ticker.symbol.replace('USDT', '')}** • $${price.toFixed(price < 1 ? 6 : 2)}\n` +
+                 `   ${changeEmoji} ${changeText}${change24h.toFixed(2)}% • Vol: ${volume}M\n`;
+        }
+      });
+      
+      const detailedResults = await Promise.allSettled(detailedTickerPromises);
+      const successfulDetailedResults = detailedResults.filter(result => result.status === 'fulfilled').map(result => result.value);
+      
+      volumeText += successfulDetailedResults.join('\n');
+      
+      // Add clickable buttons for top volume tokens
+      const topTokenButtons = topByVolume.slice(0, 6).map((ticker: any) => 
+        Markup.button.callback(ticker.symbol.replace('USDT', ''), `price_token_${ticker.symbol}`)
+      );
+      
+      const buttonRows = [];
+      for (let i = 0; i < topTokenButtons.length; i += 3) {
+        buttonRows.push(topTokenButtons.slice(i, i + 3));
+      }
+      
+      buttonRows.push([
+        Markup.button.callback('🏆 Top Market Cap', 'price_top_mcap'),
+        Markup.button.callback('🔄 Refresh', 'price_top_volume')
+      ]);
+      buttonRows.push([
+        Markup.button.callback('📈 Trade', 'unified_trade'),
+        Markup.button.callback('🔙 Back', 'price_menu')
+      ]);
+      
+      const keyboard = Markup.inlineKeyboard(buttonRows);
+
+      await this.safeEditMessageText(ctx, volumeText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error('Top volume error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      
+      // Provide a more informative error message with a retry option
+      const retryKeyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('🔄 Retry', 'price_top_volume'),
+          Markup.button.callback('🔙 Back to Price Menu', 'price_menu')
+        ]
+      ]);
+      
+      await ctx.editMessageText(
+        `❌ **Failed to Load Top Volume Data**\n\n` +
+        `Error: ${errorMessage}\n\n` +
+        `This might be due to:\n` +
+        `• API connectivity issues\n` +
+        `• Exchange server maintenance\n` +
+        `• Temporary network problems\n\n` +
+        `Please try again in a moment.`,
+        { parse_mode: 'Markdown', ...retryKeyboard }
+      );
+    }
+  }
+
+  /**
+   * Handle price watchlist
+   */
+  private async handlePriceWatchlist(ctx: BotContext): Promise<void> {
+    try {
+      const { symbols: watchlist, isCustom } = await new WatchlistService(this.db).getWatchlist(ctx.userState!.userId);
+      
+      let watchlistText = '⭐ **Price Watchlist**\n\n';
+      if (!isCustom) {
+        watchlistText += '_Default list. Tap ⭐ on any token to build your own._\n\n';
+      } else if (watchlist.length === 0) {
+        watchlistText += '_Your watchlist is empty. Tap ⭐ on any token to add it._\n\n';
+      }
+      
+      const pricePromises = watchlist.map(async (symbol) => {
+        try {
+          const ticker = await this.publicApiClient.get24hrTicker(symbol);
+          const price = parseFloat(ticker.lastPrice);
+          const change24h = parseFloat(ticker.priceChangePercent);
+          const volume = parseFloat(ticker.volume);
+          const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
+          const changeText = change24h >= 0 ? '+' : '';
+          
+          return [
+            `**${symbol.replace('USDT', '')}** • $${price.toFixed(price < 1 ? 6 : 2)}`,
+            `${changeEmoji} ${changeText}${change24h.toFixed(2)}% • Vol: ${(volume / 1000000).toFixed(1)}M`,
+            ''
+          ].join('\n');
+        } catch (error) {
+          return `**${symbol.replace('USDT', '')}** • Price unavailable\n\n`;
+        }
+      });
+      
+      const watchlistResults = await Promise.all(pricePromises);
+      watchlistText += watchlistResults.join('');
+      
+      // Create price buttons for quick access
+      const priceButtons = watchlist.map(symbol => 
+        Markup.button.callback(symbol.replace('USDT', ''), `price_token_${symbol}`)
+      );
+      
+      // Arrange in rows of 3
+      const buttonRows = [];
+      for (let i = 0; i < priceButtons.length; i += 3) {
+        buttonRows.push(priceButtons.slice(i, i + 3));
+      }
+      
+      buttonRows.push([
+        Markup.button.callback('🔄 Refresh', 'price_watchlist'),
+        Markup.button.callback('✏️ Edit', 'watchlist_edit'),
+        Markup.button.callback('📈 Trade', 'unified_trade')
+      ]);
+      
+      buttonRows.push([
+        Markup.button.callback('🔙 Back', 'price_menu')
+      ]);
+      
+      const keyboard = Markup.inlineKeyboard(buttonRows);
+
+      await ctx.editMessageText(watchlistText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error('Price watchlist error:', error);
+      await ctx.reply('❌ Failed to load price watchlist. Please try again.');
+    }
+  }
+
+  /**
+   * Star/unstar button used on token screens
+   */
+  private watchlistToggleButton(symbol: string, isWatched: boolean) {
+    return Markup.button.callback(isWatched ? '✖️ Unwatch' : '⭐ Watch', `wl_toggle_${symbol}`);
+  }
+
+  /**
+   * Add or remove a symbol from the user's watchlist from a token screen
+   */
+  private async handleWatchlistToggle(ctx: BotContext, symbol: string): Promise<void> {
+    try {
+      const added = await new WatchlistService(this.db).toggle(ctx.userState!.userId, symbol);
+      const asset = symbol.replace('USDT', '');
+      await ctx.answerCbQuery(added ? `⭐ ${asset} added to your watchlist` : `✖️ ${asset} removed from your watchlist`);
+
+      // Flip the star on the message the user tapped
+      const message = ctx.callbackQuery?.message;
+      if (message && 'reply_markup' in message && message.reply_markup) {
+        const inlineKeyboard = message.reply_markup.inline_keyboard.map(row =>
+          row.map(button => 'callback_data' in button && button.callback_data === `wl_toggle_${symbol}`
+            ? this.watchlistToggleButton(symbol, added)
+            : button)
+        );
+        await ctx.editMessageReplyMarkup({ inline_keyboard: inlineKeyboard }).catch(() => {});
+      }
+    } catch (error: any) {
+      console.error(`Watchlist toggle error for ${symbol}:`, error);
+      await ctx.answerCbQuery(`❌ ${error.message || 'Failed to update watchlist'}`.slice(0, 200));
+    }
+  }
+
+  /**
+   * Show the watchlist editor with reorder and remove buttons
+   */
+  private async showWatchlistEditor(ctx: BotContext): Promise<void> {
+    try {
+      const { symbols, isCustom } = await new WatchlistService(this.db).getWatchlist(ctx.userState!.userId);
+
+      let editorText = '✏️ **Edit Watchlist**\n\n';
+      editorText += symbols.length > 0
+        ? symbols.map((symbol, index) => `${index + 1}. ${symbol.replace('USDT', '')}`).join('\n')
+        : 'Your watchlist is empty.';
+      editorText += `\n\n${symbols.length}/${WatchlistService.MAX_SYMBOLS} symbols`;
+      if (!isCustom) {
+        editorText += ' • default list';
+      }
+      editorText += '\n\n💡 Add symbols with the ⭐ button on any token screen.';
+
+      const keyboard = Markup.inlineKeyboard([
+        ...symbols.map(symbol => [
+          Markup.button.callback('⬆️', `wl_up_${symbol}`),
+          Markup.button.callback('⬇️', `wl_down_${symbol}`),
+          Markup.button.callback(`✖️ ${symbol.replace('USDT', '')}`, `wl_remove_${symbol}`)
+        ]),
+        [Markup.button.callback('✅ Done', 'price_watchlist')]
+      ]);
+
+      if (ctx.callbackQuery) await ctx.answerCbQuery();
+      try {
+        await ctx.editMessageText(editorText, { parse_mode: 'Markdown', ...keyboard });
+      } catch (error) {
+        // Moving the first symbol up leaves the message unchanged
+        console.warn('[Watchlist] Could not update watchlist editor:', error);
+      }
+    } catch (error) {
+      console.error('Watchlist editor error:', error);
+      await ctx.reply('❌ Failed to load your watchlist. Please try again.');
+    }
+  }
+
+  /**
+   * Reorder or remove a watchlist symbol, then redraw the editor
+   */
+  private async handleWatchlistEdit(ctx: BotContext, action: 'up' | 'down' | 'remove', symbol: string): Promise<void> {
+    try {
+      const watchlistService = new WatchlistService(this.db);
+      if (action === 'remove') {
+        await watchlistService.remove(ctx.userState!.userId, symbol);
+      } else {
+        await watchlistService.move(ctx.userState!.userId, symbol, action);
+      }
+
+      await this.showWatchlistEditor(ctx);
+    } catch (error) {
+      console.error(`Watchlist ${action} error for ${symbol}:`, error);
+      await ctx.answerCbQuery('❌ Failed to update watchlist');
+    }
+  }
+
+  /**
+   * Handle individual token price
+   */
+  private async handleTokenPrice(ctx: BotContext, symbol: string): Promise<void> {
+    try {
+      // Use public API client for market data
+      const AsterApiClient = await import('../aster');
+      const apiClient = new AsterApiClient.AsterApiClient(AsterApiClient.FUTURES_BASE_URL, '', '');
+      const [currentPrice, ticker, isWatched] = await Promise.all([
+        this.priceService.getCurrentPrice(symbol),
+        apiClient.get24hrTicker(symbol),
+        new WatchlistService(this.db).contains(ctx.userState!.userId, symbol)
+      ]);
+      
+      const change24h = parseFloat(ticker.priceChangePercent);
+      const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
+      const changeText = change24h >= 0 ? '+' : '';
+      const volume = (parseFloat(ticker.volume) / 1000000).toFixed(1);
+      
+      const priceText = [
+        `📊 **${symbol.replace('USDT', '')} Price Details**`,
+        '',
+        `💵 **Current Price:** $${currentPrice.toFixed(6)}`,
+        `${changeEmoji} **24h Change:** ${changeText}${change24h.toFixed(2)}%`,
+        `📈 **24h High:** $${parseFloat(ticker.highPrice).toFixed(6)}`,
+        `📉 **24h Low:** $${parseFloat(ticker.lowPrice).toFixed(6)}`,
+        `📊 **24h Volume:** ${volume}M USDT`,
+        `⏰ **Last Updated:** ${new Date().toLocaleTimeString()}`,
+        '',
+        '🎯 **Quick Actions:**'
+      ].join('\n');
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('🟢 Buy', `perps_buy_${symbol}`),
+          Markup.button.callback('🔴 Sell', `perps_sell_${symbol}`)
+        ],
+        [
+          Markup.button.callback('🔄 Refresh Price', `price_token_${symbol}`),
+          Markup.button.callback('📈 Full Trading', 'trade_perps')
+        ],
+        [
+          Markup.button.callback('🔔 Alert +5%', `alert_quick_${symbol}_up`),
+          Markup.button.callback('🔔 Alert -5%', `alert_quick_${symbol}_down`),
+          Markup.button.callback('🔔 My Alerts', 'alerts_list')
+        ],
+        [
+          this.watchlistToggleButton(symbol, isWatched),
+          Markup.button.callback('⭐ Watchlist', 'price_watchlist'),
+          Markup.button.callback('🔙 Back', 'price_menu')
+        ]
+      ]);
+
+      await this.safeEditMessageText(ctx, priceText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error(`Token price error for ${symbol}:`, error);
+      await ctx.reply(`❌ Failed to load price data for ${symbol}. Please try again.`);
+    }
+  }
+
+  /**
+   * Handle price comparison
+   */
+  private async handlePriceCompare(ctx: BotContext): Promise<void> {
+    try {
+      // Compare the same symbols the user follows on their watchlist, or the defaults if it is empty
+      const { symbols: watchedSymbols } = await new WatchlistService(this.db).getWatchlist(ctx.userState!.userId);
+      const compareSymbols = watchedSymbols.length > 0 ? watchedSymbols : WatchlistService.DEFAULT_SYMBOLS;
+      
+      let compareText = '🔄 **Price Comparison**\n\n';
+      
+      const comparisonPromises = compareSymbols.map(async (symbol) => {
+        try {
+          const [price, ticker] = await Promise.all([
+            this.priceService.getCurrentPrice(symbol),
+            (async () => {
+              const AsterApiClient = await import('../aster');
+              const publicClient = new AsterApiClient.AsterApiClient(AsterApiClient.FUTURES_BASE_URL, '', '');
+              return publicClient.get24hrTicker(symbol);
+            })()
+          ]);
+          
+          const change24h = parseFloat(ticker.priceChangePercent);
+          const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
+          const changeText = change24h >= 0 ? '+' : '';
+          
+          return {
+            symbol,
+            price,
+            change24h,
+            changeEmoji,
+            changeText,
+            text: `**${symbol.replace('USDT', '')}**\n$${price.toFixed(6)} ${changeEmoji} ${changeText}${change24h.toFixed(2)}%`
+          };
+        } catch (error) {
+          return {
+            symbol,
+            price: 0,
+            change24h: 0,
+            changeEmoji: '⚪',
+            changeText: '',
+            text: `**${symbol.replace('USDT', '')}**\nPrice unavailable`
+          };
+        }
+      });
+      
+      const comparisons = await Promise.all(comparisonPromises);
+      
+      // Sort by 24h change (best performers first)
+      comparisons.sort((a, b) => b.change24h - a.change24h);
+      
+      comparisons.forEach((comp, index) => {
+        const rank = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : '📊';
+        compareText += `${rank} ${comp.text}\n\n`;
+      });
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('🔄 Refresh', 'price_compare'),
+          Markup.button.callback('⭐ Watchlist', 'price_watchlist')
+        ],
+        [
+          Markup.button.callback('📈 Trade Best', 'unified_trade'),
+          Markup.button.callback('🔙 Back', 'price_menu')
+        ]
+      ]);
+
+      await ctx.editMessageText(compareText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error('Price comparison error:', error);
+      await ctx.reply('❌ Failed to load price comparison. Please try again.');
+    }
+  }
+
+  /**
+   * Handle all markets display
+   */
+  private async handleAllMarkets(ctx: BotContext): Promise<void> {
+    try {
+      // Use public API client for market data
+      const AsterApiClient = await import('../aster');
+      const apiClient = new AsterApiClient.AsterApiClient(AsterApiClient.FUTURES_BASE_URL, '', '');
+      const allTickers = await apiClient.getAllFuturesTickers();
+      
+      // Filter USDT pairs and sort by volume
+      const usdtPairs = allTickers
+        .filter((ticker: any) => ticker.symbol.endsWith('USDT'))
+        .sort((a: any, b: any) => parseFloat(b.volume) - parseFloat(a.volume))
+        .slice(0, 12); // Show top 12
+      
+      let marketsText = '🌐 **All Available Markets**\n\n';
+      marketsText += `📊 **Total USDT Pairs:** ${usdtPairs.length}\n\n`;
+      marketsText += '**🔥 Top Markets by Volume:**\n\n';
+      
+      usdtPairs.forEach((ticker: any, index: number) => {
+        const change24h = parseFloat(ticker.priceChangePercent);
+        const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
+        const changeText = change24h >= 0 ? '+' : '';
+        
+        marketsText += `${index + 1}. **${ticker.symbol.replace('USDT', '')}** $${parseFloat(ticker.lastPrice).toFixed(6)} ${changeEmoji} ${changeText}${change24h.toFixed(1)}%\n`;
+      });
+      
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('🔄 Refresh', 'price_all_markets'),
+          Markup.button.callback('📈 Trade', 'unified_trade')
+        ],
+        [
+          Markup.button.callback('🏆 Top Cap', 'price_top_mcap'),
+          Markup.button.callback('📈 Top Vol', 'price_top_volume')
+        ],
+        [
+          Markup.button.callback('🔙 Back', 'price_menu')
+        ]
+      ]);
+
+      await ctx.editMessageText(marketsText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error('All markets error:', error);
+      await ctx.reply('❌ Failed to load market data. Please try again.');
+    }
+  }
+
+  /**
+   * Handle custom amount input for trading
+   */
+  private async handleCustomAmount(ctx: BotContext, mode: 'spot' | 'perps', side: 'BUY' | 'SELL', symbol: string): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    const modeText = mode === 'spot' ? 'Spot' : 'Perps';
+    const sideText = side === 'BUY' ? 'Buy' : 'Sell';
+    const currentPrice = mode === 'spot' 
+      ? await this.getSpotPrice(symbol)
+      : await this.priceService.getCurrentPrice(symbol);
+      
+      const customText = [
+        `💰 **Custom ${modeText} ${sideText}**`,
+        `**Symbol:** ${symbol}`,
+        `**Current Price:** $${currentPrice.toFixed(6)}`,
+        '',
+        '✍️ **Type your custom amount:**',
+        '',
+        '📝 **Supported formats:**',
+        '• $100 (USD amount)',
+        '• 100u (USDT amount)',
+        '• 0.1 (token quantity)',
+        mode === 'perps' ? '• 100u 10x (with leverage)' : '',
+        '',
+        '⏳ **Waiting for your input...**'
+      ].filter(Boolean).join('\n');
+
+      const userSettings = await this.getTradingSettings(ctx);
+      const presetButtons = userSettings.size_presets.map(amount => 
+        Markup.button.callback(`$${amount}`, mode === 'spot'
+          ? `spot_execute_${side.toLowerCase()}_${symbol}_${amount}u`
+          : `perps_execute_${side.toLowerCase()}_${symbol}_${amount}u_${userSettings.default_leverage}x`)
+      );
+
+      const keyboard = Markup.inlineKeyboard([
+        ...this.chunkButtons(presetButtons, 2),
+        [
+          Markup.button.callback('🔙 Back', mode === 'spot' ? `spot_${side.toLowerCase()}_${symbol}` : `perps_${side.toLowerCase()}_${symbol}`)
+        ]
+      ]);
+
+      await ctx.editMessageText(customText, { parse_mode: 'Markdown', ...keyboard });
+
+      // Set conversation state for persistent storage
+      if (ctx.userState) {
+        const conversationState = {
+          step: 'waiting_custom_amount' as const,
+          data: { mode, side, symbol }
+        };
+        ctx.userState.conversationState = conversationState;
+        await this.authMiddleware.setConversationState(ctx.userState.telegramId, conversationState);
+      }
+
+  }
+
+  /**
+   * Handle custom amount text input
+   */
+  private async handleCustomAmountText(ctx: BotContext, text: string): Promise<void> {
+    const conversationState = ctx.userState?.conversationState;
+    if (!conversationState?.data) return;
+
+    // Clear conversation state
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+
+    const { mode, side, symbol } = conversationState.data;
+
+    // Validate required data
+    if (!mode || !side || !symbol) {
+      await ctx.reply('❌ **Invalid Session**\n\nPlease start the trading process again.');
+      return;
+    }
+
+    try {
+      // Parse the input
+      const parsed = this.parseAmountInput(text);
+      
+      if (!parsed.isValid) {
+        await ctx.reply(
+          `❌ **Invalid Amount Format**\n\n` +
+          `**Input:** ${text}\n` +
+          `**Error:** ${parsed.error}\n\n` +
+          `📝 **Valid formats:**\n` +
+          `• $100 or 100u (USDT amount)\n` +
+          `• 0.1 (token quantity)\n` +
+          `• 100u 10x (USDT with leverage)\n\n` +
+          `🔄 Use the trading menu to try again.`,
+          { parse_mode: 'Markdown' }
+        );
+        return;
+      }
+
+      // Execute the trade based on parsed input
+      if (mode === 'spot') {
+        if (parsed.usdtAmount) {
+          await this.handleSpotExecuteAction(ctx, symbol, side, parsed.usdtAmount);
+        } else {
+          await ctx.reply('❌ Spot trading requires USDT amount. Use formats like $100 or 100u.');
+        }
+      } else {
+        if (parsed.usdtAmount) {
+          const leverage = parsed.leverage ?? (await this.getTradingSettings(ctx)).default_leverage;
+          await this.handlePerpsExecuteAction(ctx, symbol, side, parsed.usdtAmount, leverage);
+        } else {
+          await ctx.reply('❌ Perps trading requires USDT amount and leverage. Use format like 100u 5x.');
+        }
+      }
+
+    } catch (error) {
+      console.error('Custom amount parsing error:', error);
+      await ctx.reply(`❌ Failed to process custom amount. Please try again with the trading menu.`);
+    }
+  }
+
+  /**
+   * Parse amount input in various formats
+   */
+  private parseAmountInput(input: string): { isValid: boolean; error?: string; usdtAmount?: number; tokenAmount?: number; leverage?: number } {
+    const trimmed = input.trim().toLowerCase();
+    
+    // Pattern 1: $100 or 100u (USDT amount)
+    const usdtMatch = trimmed.match(/^[\$]?(\d+(?:\.\d+)?)u?$/);
+    if (usdtMatch) {
+      const amount = parseFloat(usdtMatch[1]);
+      if (amount > 0 && amount <= 10000) {
+        return { isValid: true, usdtAmount: amount }; // Perps falls back to the user's default leverage
+      }
+    }
+
+    // Pattern 2: 100u 5x (USDT with leverage)
+    const leverageMatch = trimmed.match(/^(\d+(?:\.\d+)?)u?\s+(\d+)x$/);
+    if (leverageMatch) {
+      const amount = parseFloat(leverageMatch[1]);
+      const leverage = parseInt(leverageMatch[2]);
+      if (amount > 0 && amount <= 10000 && leverage >= 1 && leverage <= 125) {
+        return { isValid: true, usdtAmount: amount, leverage };
+      }
+    }
+
+    // Pattern 3: 0.1 (token quantity)
+    const tokenMatch = trimmed.match(/^(\d+(?:\.\d+)?)$/);
+    if (tokenMatch) {
+      const amount = parseFloat(tokenMatch[1]);
+      if (amount > 0) {
+        return { isValid: true, tokenAmount: amount };
+      }
+    }
+
+    return { 
+      isValid: false, 
+      error: 'Invalid format. Use $100, 100u, 0.1, or 100u 5x' 
+    };
+  }
+
+  /**
+   * Handle trade confirmation
+   */
+  private async handleTradeConfirmation(ctx: BotContext): Promise<void> {
+    const pendingTrade = ctx.userState?.conversationState?.step === 'confirming_trade'
+      ? ctx.userState.conversationState.data?.pendingTrade
+      : undefined;
+    if (!pendingTrade) {
+      await ctx.answerCbQuery('❌ No pending trade');
+      await ctx.reply('❌ No pending trade to confirm. The preview may have expired - send the command again.');
+      return;
+    }
+
+    // Clear pending trade before executing so a double tap can't submit twice
+    ctx.userState!.conversationState = undefined;
+    ctx.userState!.pendingTrade = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+
+    try {
+      await this.executeTradePreview(ctx, pendingTrade);
+    } catch (error) {
+      console.error('Trade confirmation error:', error);
+      await ctx.reply('❌ Failed to confirm trade. Please try again.');
+    }
+  }
+
+  /**
+   * Handle trade cancellation
+   */
+  private async handleTradeCancellation(ctx: BotContext): Promise<void> {
+    const pendingTrade = ctx.userState?.conversationState?.step === 'confirming_trade'
+      ? ctx.userState.conversationState.data?.pendingTrade
+      : undefined;
+    if (!pendingTrade) {
+      await ctx.answerCbQuery('❌ No pending trade');
+      await ctx.reply('❌ No pending trade to cancel.');
+      return;
+    }
+
+    // Clear pending trade
+    ctx.userState!.conversationState = undefined;
+    ctx.userState!.pendingTrade = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+
+    await ctx.answerCbQuery('Trade cancelled');
+    await ctx.editMessageText(
+      '❌ **Trade Cancelled**\n\n' +
+      `Your pending ${pendingTrade.side === 'BUY' ? 'buy' : 'sell'} of ${pendingTrade.symbol} has been cancelled.\n\n` +
+      '🔄 Send a new /buy or /sell command or use the trading menu.',
+      { 
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('📈 Trade Again', 'trade_perps')]
+        ])
+      }
+    );
+  }
+
+  /**
+   * Execute a confirmed trade preview as a perps market order
+   */
+  private async executeTradePreview(ctx: BotContext, preview: TradePreview, guardConfirmed = false, pinVerified = false): Promise<void> {
+    const { command, symbol, side, leverage } = preview;
+    const action = side === 'BUY' ? 'Long' : 'Short';
+    const emoji = side === 'BUY' ? '📈' : '📉';
+
+    // Trading may have been halted or the cap hit while the preview was waiting for confirmation
+    if (!command.reduceOnly && !(await this.passesTradingHaltCheck(ctx))) {
+      return;
+    }
+
+    if (!command.reduceOnly && !(await this.passesDailyLossCheck(ctx))) {
+      return;
+    }
+
+    if (!command.reduceOnly && !(await this.passesLeveragePolicy(ctx, symbol, leverage, parseFloat(preview.quoteSize)))) {
+      return;
+    }
+
+    const pendingOrder: PendingMarketOrder = { kind: 'command_trade', preview };
+
+    if (!guardConfirmed && !(await this.passesPriceGuard(ctx, { market: 'perps', symbol, side, baseQuantity: parseFloat(preview.baseSize) }, pendingOrder))) {
+      return;
+    }
+
+    if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'command_trade', preview }, parseFloat(preview.quoteSize)))) {
+      return;
+    }
+
+    const clientOrderId = this.deriveClientOrderId(ctx, symbol, preview.nonce);
+    const releaseClaim = await this.claimSubmission(ctx, clientOrderId);
+    if (!releaseClaim) {
+      return;
+    }
+
+    if (ctx.callbackQuery) await ctx.answerCbQuery(`${emoji} Executing ${action} ${symbol}...`);
+
+    const processingMsg = await ctx.reply(
+      `${emoji} **Processing Perps ${action} Order**\n\n` +
+      `**Symbol:** ${symbol}\n` +
+      `**Size:** ${preview.baseSize} (≈ $${preview.quoteSize})\n` +
+      `**Leverage:** ${leverage}x\n` +
+      `**Type:** Market ${action}${command.reduceOnly ? ' (Reduce Only)' : ''}\n\n` +
+      `⏳ Setting leverage and executing trade...`,
+      { parse_mode: 'Markdown' }
+    );
+
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+
+      // Reduce-only orders realize PnL against the current entry price; a sell reduces the long (leg)
+      const closingPosition = command.reduceOnly
+        ? AsterApiClient.findPosition(await apiClient.getPositionRisk(), symbol, side === 'SELL' ? 'LONG' : 'SHORT')
+        : undefined;
+
+      if (!command.reduceOnly) {
+        const leveragePolicy = await this.getLeveragePolicy(ctx);
+        await leveragePolicy.apply(symbol, leverage, parseFloat(preview.quoteSize));
+      }
+
+      const orderResult = await apiClient.createOrder({
+        symbol,
+        side,
+        type: 'MARKET',
+        quantity: preview.baseSize,
+        ...(command.reduceOnly ? { reduceOnly: true } : {}),
+        ...(clientOrderId ? { newClientOrderId: clientOrderId } : {})
+      });
+      await this.recordOrder(ctx, {
+        market: 'perps', purpose: command.reduceOnly ? 'close' : 'entry', symbol, side, type: 'MARKET', leverage, quantity: preview.baseSize
+      }, orderResult);
+
+      const executedPrice = parseFloat(orderResult.avgPrice || preview.estimatedPrice);
+      const executedQuantity = parseFloat(orderResult.executedQty || preview.baseSize);
+
+      await this.showExecutionSuccessWithPositionManagement(
+        ctx,
+        processingMsg.message_id,
+        'perps',
+        symbol,
+        action,
+        parseFloat(preview.quoteSize),
+        leverage,
+        executedQuantity * executedPrice,
+        executedPrice,
+        String(orderResult.orderId),
+        orderResult.positionSide
+      );
+
+      this.eventEmitter.emitEvent({
+        type: EventTypes.TRADE_EXECUTED,
+        timestamp: new Date(),
+        userId: ctx.userState!.userId,
+        telegramId: ctx.userState!.telegramId,
+        correlationId: ctx.correlationId,
+        symbol,
+        action: side,
+        amount: parseFloat(preview.quoteSize),
+        leverage,
+        orderId: String(orderResult.orderId)
+      });
+
+      if (closingPosition) {
+        const direction = parseFloat(closingPosition.positionAmt) > 0 ? 1 : -1;
+        await this.recordRealizedPnl(ctx, (executedPrice - parseFloat(closingPosition.entryPrice)) * executedQuantity * direction);
+      }
+
+      // Attach TP/SL from the command, if any
+      const tpValue = command.takeProfit ? parseFloat(command.takeProfit) : null;
+      const slValue = command.stopLoss ? parseFloat(command.stopLoss) : null;
+      if (!command.reduceOnly && (tpValue || slValue)) {
+        await this.placeTPSLOrders(ctx, symbol, tpValue, slValue, orderResult);
+      }
+
+      if (!command.reduceOnly && command.trailing) {
+        await this.placeCommandTrailingStop(ctx, symbol, parseFloat(command.trailing), BotOrchestrator.hedgeLeg(orderResult.positionSide));
+      }
+    } catch (tradeError: any) {
+      console.error('[Orchestrator] Command trade execution failed:', tradeError);
+
+      await ctx.telegram.editMessageText(
+        ctx.chat?.id,
+        processingMsg.message_id,
+        undefined,
+        `❌ **Perps ${action} Order Failed**\n\n` +
+        `**Symbol:** ${symbol}\n` +
+        `**Size:** ${preview.baseSize}\n` +
+        `**Leverage:** ${leverage}x\n` +
+        `**Error:** ${tradeError.message || 'Unknown error'}\n\n` +
+        `🔄 Please try again or contact support.`,
+        { parse_mode: 'Markdown' }
+      );
+
+      this.eventEmitter.emitEvent({
+        type: EventTypes.ERROR_OCCURRED,
+        timestamp: new Date(),
+        userId: ctx.userState?.userId || 0,
+        telegramId: ctx.userState?.telegramId || 0,
+        correlationId: ctx.correlationId,
+        error: tradeError as Error,
+        context: { type: 'command_trade_execute', symbol, side, leverage }
+      });
+    } finally {
+      releaseClaim();
+    }
+  }
+
+  /**
+   * Check a market order against the live order book before it is placed.
+   * Resolves true when the order may go ahead; otherwise the user has been
+   * told why it was blocked or asked to confirm the warning.
+   */
+  private async passesPriceGuard(ctx: BotContext, check: MarketOrderCheck, pendingOrder: PendingMarketOrder): Promise<boolean> {
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const priceGuard = new PriceGuardService(apiClient);
+
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+      const userSettings = await settingsManager.getUserSettings(ctx.userState!.userId);
+
+      const result = await priceGuard.checkMarketOrder(check, userSettings);
+
+      if (result.recommendation === 'REJECT') {
+        if (ctx.callbackQuery) await ctx.answerCbQuery('❌ Blocked by price protection');
+        await ctx.reply(
+          `🛡️ **Order Blocked by Price Protection**\n\n` +
+          `**Symbol:** ${check.symbol}\n` +
+          `**Side:** ${check.side}\n\n` +
+          `${priceGuard.formatSummary(result)}\n\n` +
+          `💡 Reduce the order size or raise your slippage tolerance in /settings.`,
+          { parse_mode: 'Markdown' }
+        );
+        return false;
+      }
+
+      if (result.requiresConfirmation) {
+        const conversationState = {
+          step: 'confirming_market_order' as const,
+          data: { pendingOrder }
+        };
+        ctx.userState!.conversationState = conversationState;
+        await this.authMiddleware.setConversationState(ctx.userState!.telegramId, conversationState);
+
+        if (ctx.callbackQuery) await ctx.answerCbQuery('⚠️ Confirmation required');
+        await ctx.reply(
+          `⚠️ **Price Protection Warning**\n\n` +
+          `**Symbol:** ${check.symbol}\n` +
+          `**Side:** ${check.side}\n\n` +
+          `${priceGuard.formatSummary(result)}\n\n` +
+          `Do you still want to place this market order?`,
+          {
+            parse_mode: 'Markdown',
+            ...Markup.inlineKeyboard([
+              [
+                Markup.button.callback('✅ Place Anyway', 'guard_confirm'),
+                Markup.button.callback('❌ Cancel', 'guard_cancel')
+              ]
+            ])
+          }
+        );
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('[Orchestrator] Price guard check failed:', error);
+      if (ctx.callbackQuery) await ctx.answerCbQuery('❌ Price check failed');
+      await ctx.reply('❌ Could not check market depth for this order, so it was not placed. Please try again.');
+      return false;
+    }
+  }
+
+  /**
+   * Refuse risk-increasing orders while an admin halt is active. Closes and
+   * reduce-only orders stay available so users can still exit.
+   */
+  private async passesTradingHaltCheck(ctx: BotContext): Promise<boolean> {
+    try {
+      const haltState = await new PanicService(this.db, this.apiClientService).getHaltState();
+      if (!haltState.halted) {
+        return true;
+      }
+
+      if (ctx.callbackQuery) await ctx.answerCbQuery('🔴 Trading is halted');
+      await ctx.reply(
+        '🔴 **Trading Temporarily Halted**\n\n' +
+        'New orders are disabled by the bot operators' +
+        (haltState.reason ? `: ${haltState.reason}` : '.') + '\n\n' +
+        'You can still close positions and sell spot holdings.',
+        {
+          parse_mode: 'Markdown',
+          ...Markup.inlineKeyboard([
+            [Markup.button.callback('📊 View Positions', 'positions')],
+            [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+          ])
+        }
+      );
+      return false;
+    } catch (error) {
+      console.error('[Orchestrator] Trading halt check failed:', error);
+      if (ctx.callbackQuery) await ctx.answerCbQuery('❌ Risk check failed');
+      await ctx.reply('❌ Could not verify trading status, so the order was not placed. Please try again.');
+      return false;
+    }
+  }
+
+  /**
+   * Refuse risk-increasing orders once the user's daily loss cap is hit.
+   * Resolves true when trading is allowed; otherwise the lockout message has been sent.
+   */
+  private async passesDailyLossCheck(ctx: BotContext): Promise<boolean> {
+    try {
+      const dailyLossService = new DailyLossService(this.db);
+      const status = await dailyLossService.getStatus(ctx.userState!.userId, ctx.userState!.settings?.daily_loss_cap);
+
+      ctx.userState!.dailyLossTracking = {
+        date: status.date,
+        lossAmount: status.lossAmount,
+        isBlocked: status.isBlocked
+      };
+
+      if (!status.isBlocked) {
+        return true;
+      }
+
+      if (ctx.callbackQuery) await ctx.answerCbQuery('🛑 Daily loss cap reached');
+      await ctx.reply(dailyLossService.formatLockoutMessage(status), {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('📊 View Positions', 'positions')],
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ])
+      });
+      return false;
+    } catch (error) {
+      console.error('[Orchestrator] Daily loss check failed:', error);
+      if (ctx.callbackQuery) await ctx.answerCbQuery('❌ Risk check failed');
+      await ctx.reply('❌ Could not verify your daily loss limit, so the order was not placed. Please try again.');
+      return false;
+    }
+  }
+
+  /**
+   * Refuse leverage above the user's cap, the bot maximum or the symbol's bracket.
+   * Resolves true when the leverage is allowed; otherwise the rejection has been sent.
+   */
+  private async passesLeveragePolicy(ctx: BotContext, symbol: string, leverage: number, notional?: number): Promise<boolean> {
+    try {
+      const leveragePolicy = await this.getLeveragePolicy(ctx);
+      const check = await leveragePolicy.check(symbol, leverage, notional);
+      if (check.success) {
+        return true;
+      }
+
+      if (ctx.callbackQuery) await ctx.answerCbQuery('🛡️ Leverage not allowed');
+      await ctx.reply(leveragePolicy.formatRejection(symbol, leverage, check.errors, check.limits), {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('⚙️ Leverage Settings', 'settings_leverage')],
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ])
+      });
+      return false;
+    } catch (error) {
+      console.error('[Orchestrator] Leverage policy check failed:', error);
+      if (ctx.callbackQuery) await ctx.answerCbQuery('❌ Risk check failed');
+      await ctx.reply('❌ Could not verify the leverage, so the order was not placed. Please try again.');
+      return false;
+    }
+  }
+
+  /**
+   * Record realized PnL from a close or spot sale against the daily loss cap,
+   * telling the user when this trade triggered the lockout
+   */
+  private async recordRealizedPnl(ctx: BotContext, realizedPnl: number): Promise<void> {
+    if (!ctx.userState || ctx.userState.isPaper || !Number.isFinite(realizedPnl) || realizedPnl === 0) return;
+
+    try {
+      const dailyLossService = new DailyLossService(this.db);
+      const dailyLossCap = ctx.userState.settings?.daily_loss_cap;
+      const wasBlocked = (await dailyLossService.getStatus(ctx.userState.userId, dailyLossCap)).isBlocked;
+      const status = await dailyLossService.recordRealizedPnl(ctx.userState.userId, realizedPnl, dailyLossCap);
+
+      ctx.userState.dailyLossTracking = {
+        date: status.date,
+        lossAmount: status.lossAmount,
+        isBlocked: status.isBlocked
+      };
+
+      if (status.isBlocked && !wasBlocked) {
+        await ctx.reply(dailyLossService.formatLockoutMessage(status), { parse_mode: 'Markdown' });
+      }
+    } catch (error) {
+      console.error('[Orchestrator] Failed to record realized PnL:', error);
+    }
+  }
+
+  /**
+   * Push a notification to a user outside of any request context. Paper notifications
+   * carry the PAPER label; when the caller doesn't know, the user's current mode decides.
+   */
+  private async notifyUser(telegramId: number, text: string, extra: object = {}, paper?: boolean): Promise<void> {
+    try {
+      const isPaper = paper ?? (await this.db.getUserByTelegramId(telegramId))?.paper_mode === true;
+      await this.bot.telegram.sendMessage(telegramId, isPaper ? BotOrchestrator.withPaperLabel(text) : text, { parse_mode: 'Markdown', ...extra });
+    } catch (error) {
+      console.error(`[Orchestrator] Failed to notify user ${telegramId}:`, error);
+    }
+  }
+
+  /**
+   * Count PnL realized by exchange-side closes (TP/SL triggers, liquidations) and
+   * spot exits against the daily loss cap, since the bot never sees those orders placed
+   */
+  private async recordBackgroundRealizedPnl(event: { userId: number; telegramId: number; paper?: boolean }, realizedPnl: number): Promise<void> {
+    // Simulated losses never count against the real daily loss cap
+    if (event.paper || !Number.isFinite(realizedPnl) || realizedPnl === 0) return;
+
+    try {
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+      const settings = await settingsManager.getUserSettings(event.userId);
+      const dailyLossService = new DailyLossService(this.db);
+      const wasBlocked = (await dailyLossService.getStatus(event.userId, settings.daily_loss_cap)).isBlocked;
+      const status = await dailyLossService.recordRealizedPnl(event.userId, realizedPnl, settings.daily_loss_cap);
+
+      if (status.isBlocked && !wasBlocked) {
+        await this.notifyUser(event.telegramId, dailyLossService.formatLockoutMessage(status));
+      }
+    } catch (error) {
+      console.error(`[Orchestrator] Failed to record background PnL for user ${event.userId}:`, error);
+    }
+  }
+
+  /**
+   * Deterministic client order ID for an order preview, so repeat taps on it map to one order.
+   * Drafts kept in conversation state pass their own nonce; one-tap buttons use the message they sit on.
+   * Without either (e.g. a typed amount) the exchange client picks a random ID.
+   */
+  private deriveClientOrderId(ctx: BotContext, scope: string, nonce?: string): string | undefined {
+    const userId = ctx.userState?.userId;
+    if (!userId) {
+      return undefined;
+    }
+    if (nonce) {
+      return IdempotencyService.clientOrderIdFor(userId, nonce, scope);
+    }
+
+    const callback = ctx.callbackQuery;
+    if (!callback || !('data' in callback)) {
+      return undefined;
+    }
+    return IdempotencyService.clientOrderIdFor(userId, callback.data, `${IdempotencyService.messageNonce(callback)}:${scope}`);
+  }
+
+  /**
+   * Claim a client order ID before submitting. Returns the release callback, or
+   * null when the tap repeats an order that is in flight or already placed.
+   */
+  private async claimSubmission(ctx: BotContext, clientOrderId?: string): Promise<(() => void) | null> {
+    if (!clientOrderId) {
+      return () => {};
+    }
+
+    const idempotency = new IdempotencyService(this.db);
+    const claim = await idempotency.claim(ctx.userState!.userId, clientOrderId);
+
+    if (claim.status === 'claimed') {
+      return () => idempotency.release(clientOrderId);
+    }
+
+    if (claim.status === 'in_flight') {
+      if (ctx.callbackQuery) await ctx.answerCbQuery('⏳ This order is already being placed');
+      return null;
+    }
+
+    if (ctx.callbackQuery) await ctx.answerCbQuery('🔁 Order already placed');
+    await ctx.reply(idempotency.formatDuplicateNotice(claim.order), { parse_mode: 'Markdown' });
+    return null;
+  }
+
+  /**
+   * Record a placed order in the user's order history
+   */
+  private async recordOrder(ctx: BotContext, input: OrderRecordInput, response: any): Promise<void> {
+    if (!ctx.userState) return;
+    await new OrderHistoryService(this.db).recordOrder(ctx.userState.userId, input, response);
+  }
+
+  /**
+   * Record a reduce-only TP/SL order placed for an open position
+   */
+  private async recordProtectiveOrder(ctx: BotContext, symbol: string, purpose: 'tp' | 'sl', response: any): Promise<void> {
+    await this.recordOrder(ctx, {
+      market: 'perps',
+      purpose,
+      symbol,
+      side: response?.side === 'BUY' ? 'BUY' : 'SELL',
+      type: purpose === 'tp' ? 'TAKE_PROFIT_MARKET' : 'STOP_MARKET'
+    }, response);
+  }
+
+  /**
+   * Record realized PnL of a position close from its pre-close snapshot
+   */
+  private async recordPositionClosePnl(ctx: BotContext, position: any, result: any, percentage: number): Promise<void> {
+    const entryPrice = parseFloat(position.entryPrice);
+    const exitPrice = parseFloat(result.avgPrice) || parseFloat(position.markPrice);
+    const closedQty = parseFloat(result.executedQty) || Math.abs(parseFloat(position.positionAmt)) * percentage / 100;
+    const direction = parseFloat(position.positionAmt) > 0 ? 1 : -1;
+    await this.recordRealizedPnl(ctx, (exitPrice - entryPrice) * closedQty * direction);
+  }
+
+  /**
+   * Record realized PnL of a spot sell against its pre-sale average cost
+   */
+  private async recordSpotSalePnl(ctx: BotContext, averageCost: number | null, orderResult: any, fallbackQuantity = 0): Promise<void> {
+    if (averageCost === null) return;
+
+    const soldQuantity = parseFloat(orderResult.executedQty) || fallbackQuantity;
+    const quoteReceived = parseFloat(orderResult.cummulativeQuoteQty || orderResult.cumQuote || '0');
+    const sellPrice = parseFloat(orderResult.avgPrice || '0') || (soldQuantity > 0 ? quoteReceived / soldQuantity : 0);
+    if (!soldQuantity || !sellPrice) return;
+
+    await this.recordRealizedPnl(ctx, (sellPrice - averageCost) * soldQuantity);
+  }
+
+  /**
+   * Ask for the user's PIN before a sensitive action. Resolves true when no PIN
+   * is needed; otherwise the action is parked until the PIN is entered.
+   * Pass a notional to only require the PIN for orders at or above the user's threshold.
+   */
+  private async passesPinCheck(ctx: BotContext, action: PendingPinAction, notional?: number): Promise<boolean> {
+    try {
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+      const userSettings = await settingsManager.getUserSettings(ctx.userState!.userId);
+
+      if (!userSettings.pin_hash) {
+        return true;
+      }
+      if (notional !== undefined && !settingsManager.requiresPinForOrder(userSettings, notional)) {
+        return true;
+      }
+
+      const lockedUntil = await settingsManager.getPinLockout(ctx.userState!.userId);
+      if (lockedUntil) {
+        if (ctx.callbackQuery) await ctx.answerCbQuery('🔒 PIN entry locked');
+        await ctx.reply(this.formatPinLockoutMessage(lockedUntil), { parse_mode: 'Markdown' });
+        return false;
+      }
+
+      const conversationState = {
+        step: 'waiting_pin' as const,
+        data: { pendingPinAction: action }
+      };
+      ctx.userState!.conversationState = conversationState;
+      await this.authMiddleware.setConversationState(ctx.userState!.telegramId, conversationState);
+
+      if (ctx.callbackQuery) await ctx.answerCbQuery('🔒 PIN required');
+      await ctx.reply(
+        `🔒 **PIN Required**\n\n` +
+        `${this.describePinAction(action)} needs your PIN.\n\n` +
+        `📝 Send your PIN now. The message will be deleted once it is read.`,
+        {
+          parse_mode: 'Markdown',
+          ...Markup.inlineKeyboard([
+            [Markup.button.callback('❌ Cancel', 'pin_cancel')]
+          ])
+        }
+      );
+      return false;
+    } catch (error) {
+      console.error('[Orchestrator] PIN check failed:', error);
+      if (ctx.callbackQuery) await ctx.answerCbQuery('❌ Security check failed');
+      await ctx.reply('❌ Could not verify your security settings, so the action was not performed. Please try again.');
+      return false;
+    }
+  }
+
+  /**
+   * Handle PIN text input for a parked sensitive action
+   */
+  private async handlePinInput(ctx: BotContext, pin: string): Promise<void> {
+    // Don't leave the PIN sitting in the chat history
+    try {
+      await ctx.deleteMessage();
+    } catch (error) {
+      console.warn('[Orchestrator] Could not delete PIN message:', error);
+    }
+
+    const action = ctx.userState?.conversationState?.data?.pendingPinAction;
+    if (!action) {
+      ctx.userState!.conversationState = undefined;
+      await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+      await ctx.reply('❌ Nothing is waiting for a PIN. Please start the action again.');
+      return;
+    }
+
+    const SettingsModule = await import('../settings');
+    const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+    const result = await settingsManager.verifyPinWithLockout(ctx.userState!.userId, pin.trim());
+
+    if (!result.success && result.attemptsRemaining !== undefined && result.attemptsRemaining > 0) {
+      await ctx.reply(
+        `❌ **Incorrect PIN**\n\n` +
+        `${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} remaining before PIN entry is locked.\n\n` +
+        `📝 Send your PIN again or cancel.`,
+        {
+          parse_mode: 'Markdown',
+          ...Markup.inlineKeyboard([
+            [Markup.button.callback('❌ Cancel', 'pin_cancel')]
+          ])
+        }
+      );
+      return;
+    }
+
+    // Success, lockout or error all end this PIN prompt
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+
+    if (!result.success) {
+      if (result.lockedUntil) {
+        console.warn(`[Orchestrator] PIN entry locked for user ${ctx.userState!.userId} until ${result.lockedUntil.toISOString()}`);
+        await ctx.reply(this.formatPinLockoutMessage(result.lockedUntil), { parse_mode: 'Markdown' });
+      } else {
+        await ctx.reply(`❌ ${result.error || 'PIN verification failed'}. The action was not performed.`);
+      }
+      return;
+    }
+
+    await ctx.reply('✅ PIN verified.');
+
+    try {
+      switch (action.kind) {
+        case 'unlink':
+          await this.handleConfirmUnlink(ctx, true);
+          break;
+        case 'close_all':
+          await this.handleConfirmCloseAll(ctx, true);
+          break;
+        case 'export_settings':
+          await this.handleExportSettings(ctx, true);
+          break;
+        case 'market_order':
+          await this.resumePendingMarketOrder(ctx, action.order, true);
+          break;
+        case 'command_trade':
+          await this.executeTradePreview(ctx, action.preview, true, true);
+          break;
+        case 'limit_order':
+          await this.executeLimitOrder(ctx, action.order, true);
+          break;
+        case 'ladder_order':
+          await this.executeLadder(ctx, action.draft, true);
+          break;
+        case 'change_pin':
+          await this.handleChangePin(ctx, true);
+          break;
+        case 'disable_pin':
+          await this.handleDisablePin(ctx, true);
+          break;
+        case 'reset_security':
+          await this.handleResetSecurity(ctx, true);
+          break;
+      }
+    } catch (error) {
+      console.error('PIN action resume error:', error);
+      await ctx.reply('❌ Failed to complete the action. Please try again.');
+    }
+  }
+
+  /**
+   * Handle cancellation of a PIN prompt
+   */
+  private async handlePinCancellation(ctx: BotContext): Promise<void> {
+    if (ctx.userState?.conversationState?.step === 'waiting_pin') {
+      ctx.userState.conversationState = undefined;
+      await this.authMiddleware.clearConversationState(ctx.userState.telegramId);
+    }
+
+    await ctx.answerCbQuery('Cancelled');
+    await ctx.editMessageText(
+      '❌ **Cancelled**\n\nNo action was performed.',
+      {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ])
+      }
+    );
+  }
+
+  /**
+   * Describe a parked action for the PIN prompt
+   */
+  private describePinAction(action: PendingPinAction): string {
+    switch (action.kind) {
+      case 'unlink':
+        return 'Unlinking your API credentials';
+      case 'close_all':
+        return 'Closing all positions';
+      case 'export_settings':
+        return 'Exporting your settings';
+      case 'market_order': {
+        const order = action.order;
+        if (order.kind === 'spot_sale') return `Selling ${order.percentage}% of your ${order.asset}`;
+        if (order.kind === 'spot_direct_sell') return `Selling ${order.symbol}`;
+        if (order.kind === 'command_trade') return `This ${order.preview.side === 'BUY' ? 'buy' : 'sell'} of ≈ $${order.preview.quoteSize} ${order.preview.symbol}`;
+        if (order.kind === 'position_close') return `Closing ${order.percentage}% of your ${order.symbol} position`;
+        return `This ${order.side === 'BUY' ? 'buy' : 'sell'} of $${order.amount} ${order.symbol}`;
+      }
+      case 'command_trade':
+        return `This ${action.preview.side === 'BUY' ? 'buy' : 'sell'} of ≈ $${action.preview.quoteSize} ${action.preview.symbol}`;
+      case 'limit_order':
+        return `This limit ${action.order.side === 'BUY' ? 'buy' : 'sell'} of $${action.order.quoteAmount} ${action.order.symbol} @ $${action.order.price}`;
+      case 'ladder_order':
+        return action.draft.purpose === 'take_profit'
+          ? `This ${action.draft.count}-level take profit on ${action.draft.symbol}`
+          : `This ${action.draft.count}-level ladder ${action.draft.side === 'BUY' ? 'buy' : 'sell'} of ${action.draft.symbol}`;
+      case 'change_pin':
+        return 'Changing your PIN';
+      case 'disable_pin':
+        return 'Disabling your PIN';
+      case 'reset_security':
+        return 'Resetting your security settings';
+    }
+  }
+
+  /**
+   * Build the message shown while PIN entry is locked
+   */
+  private formatPinLockoutMessage(lockedUntil: Date): string {
+    const minutesLeft = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+    return (
+      `🔒 **PIN Entry Locked**\n\n` +
+      `Too many incorrect PIN attempts.\n\n` +
+      `⏳ Try again in ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'}.`
+    );
+  }
+
+  /**
+   * Handle close all positions - asks for confirmation first
+   */
+  private async handleCloseAllPositions(ctx: BotContext): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.answerCbQuery('❌ Please link your API credentials first!');
+      return;
+    }
+
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+      const positions = (await apiClient.getPositionRisk()).filter(p => parseFloat(p.positionAmt) !== 0);
+
+      await ctx.answerCbQuery();
+
+      if (positions.length === 0) {
+        await ctx.reply('📊 You don\'t have any open positions to close.');
+        return;
+      }
+
+      await ctx.reply(
+        `🚨 **Close All Positions**\n\n` +
+        `This will market close all ${positions.length} open position${positions.length === 1 ? '' : 's'}:\n` +
+        positions.map(p => `• ${p.symbol} ${parseFloat(p.positionAmt) > 0 ? 'LONG' : 'SHORT'} ${Math.abs(parseFloat(p.positionAmt))}`).join('\n') +
+        `\n\n**This action cannot be undone.**`,
+        {
+          parse_mode: 'Markdown',
+          ...Markup.inlineKeyboard([
+            [
+              Markup.button.callback('✅ Close All', 'confirm_close_all'),
+              Markup.button.callback('❌ Cancel', 'positions')
+            ]
+          ])
+        }
+      );
+    } catch (error) {
+      console.error('Close all positions error:', error);
+      await ctx.reply('❌ Failed to load positions. Please try again.');
+    }
+  }
+
+  /**
+   * Handle confirmed close of every open position
+   */
+  private async handleConfirmCloseAll(ctx: BotContext, pinVerified = false): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'close_all' }))) {
+      return;
+    }
+
+    if (ctx.callbackQuery) await ctx.answerCbQuery('🚨 Closing all positions...');
+    const processingMsg = await ctx.reply('🚨 **Closing All Positions**\n\n⏳ Processing closures...', { parse_mode: 'Markdown' });
+
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+      const positions = (await apiClient.getPositionRisk()).filter(p => parseFloat(p.positionAmt) !== 0);
+
+      const results: string[] = [];
+      // Close-all is the emergency exit, so it skips price protection rather than stall on a thin book
+      for (const position of positions) {
+        // Hedged symbols have a row per leg, and each is closed on its own
+        const label = `${position.symbol}${BotOrchestrator.hedgeLeg(position.positionSide) ? ' ' + position.positionSide : ''}`;
+        try {
+          const result = await apiClient.closePosition(position.symbol, 100, undefined, AsterApiClient.legOf(position));
+          await this.recordOrder(ctx, {
+            market: 'perps', purpose: 'close', symbol: position.symbol, side: result.side === 'BUY' ? 'BUY' : 'SELL', type: 'MARKET', leverage: parseInt(position.leverage)
+          }, result);
+          results.push(`✅ ${label} closed (Order ${result.orderId})`);
+
+          this.eventEmitter.emitEvent({
+            type: EventTypes.TRADE_EXECUTED,
+            timestamp: new Date(),
+            userId: ctx.userState.userId,
+            telegramId: ctx.userState.telegramId,
+            correlationId: ctx.correlationId,
+            symbol: position.symbol,
+            action: 'CLOSE',
+            amount: 100,
+            orderId: String(result.orderId)
+          });
+
+          await this.recordPositionClosePnl(ctx, position, result, 100);
+        } catch (error: any) {
+          console.error(`Close all: failed to close ${label}:`, error);
+          results.push(`❌ ${label}: ${error.message || 'Unknown error'}`);
+        }
+      }
+
+      await ctx.telegram.editMessageText(
+        ctx.chat?.id,
+        processingMsg.message_id,
+        undefined,
+        `🚨 **Close All Positions**\n\n` +
+        (results.length > 0 ? results.join('\n') : 'No open positions to close.') +
+        `\n\nUse /positions to view updated positions.`,
+        { parse_mode: 'Markdown' }
+      );
+    } catch (error: any) {
+      console.error('Close all positions error:', error);
+      await ctx.telegram.editMessageText(
+        ctx.chat?.id,
+        processingMsg.message_id,
+        undefined,
+        `❌ **Close All Failed**\n\n**Error:** ${error.message || 'Unknown error'}\n\n🔄 Please try again.`,
+        { parse_mode: 'Markdown' }
+      );
+    }
+  }
+
+  /**
+   * Handle settings export - sends the user's settings as JSON
+   */
+  private async handleExportSettings(ctx: BotContext, pinVerified = false): Promise<void> {
+    if (!ctx.userState) return;
+
+    if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'export_settings' }))) {
+      return;
+    }
+
+    try {
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+      const exported = await settingsManager.exportSettings(ctx.userState.userId);
+
+      if (ctx.callbackQuery) await ctx.answerCbQuery('📤 Settings exported');
+      await ctx.reply(
+        `📤 **Settings Export**\n\n` +
+        '```\n' + JSON.stringify(exported, null, 2) + '\n```',
+        { parse_mode: 'Markdown' }
+      );
+    } catch (error) {
+      console.error('Export settings error:', error);
+      await ctx.reply('❌ Failed to export settings. Please try again.');
+    }
+  }
+
+  /**
+   * Handle confirmation of a market order held by price protection
+   */
+  private async handlePriceGuardConfirmation(ctx: BotContext): Promise<void> {
+    const pendingOrder = ctx.userState?.conversationState?.step === 'confirming_market_order'
+      ? ctx.userState.conversationState.data?.pendingOrder
+      : undefined;
+    if (!pendingOrder) {
+      await ctx.answerCbQuery('❌ No pending order');
+      await ctx.reply('❌ No pending order to confirm. It may have expired - please start the trade again.');
+      return;
+    }
+
+    // Clear before executing so a double tap can't submit twice
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+
+    try {
+      await this.resumePendingMarketOrder(ctx, pendingOrder);
+    } catch (error) {
+      console.error('Price guard confirmation error:', error);
+      await ctx.reply('❌ Failed to place the confirmed order. Please try again.');
+    }
+  }
+
+  /**
+   * Place a market order that already passed price protection, with its TP/SL follow-ups
+   */
+  private async resumePendingMarketOrder(ctx: BotContext, pendingOrder: PendingMarketOrder, pinVerified = false): Promise<void> {
+    switch (pendingOrder.kind) {
+      case 'spot_execute': {
+        const riskOrders = { tpValue: pendingOrder.tpValue ?? null, slValue: pendingOrder.slValue ?? null };
+        const executed = await this.handleSpotExecuteAction(
+          ctx, pendingOrder.symbol, pendingOrder.side, pendingOrder.amount, riskOrders, true, pinVerified, pendingOrder.clientOrderId
+        );
+        if (executed && (riskOrders.tpValue || riskOrders.slValue) && pendingOrder.side === 'BUY') {
+          await this.placeSpotExitOrders(ctx, pendingOrder.symbol, riskOrders.tpValue, riskOrders.slValue, executed);
+        }
+        break;
+      }
+      case 'perps_execute': {
+        const riskOrders = { tpValue: pendingOrder.tpValue ?? null, slValue: pendingOrder.slValue ?? null };
+        const executed = await this.handlePerpsExecuteAction(
+          ctx, pendingOrder.symbol, pendingOrder.side, pendingOrder.amount, pendingOrder.leverage, riskOrders, true, pinVerified, pendingOrder.clientOrderId
+        );
+        if (executed && (riskOrders.tpValue || riskOrders.slValue)) {
+          await this.placeTPSLOrders(ctx, pendingOrder.symbol, riskOrders.tpValue, riskOrders.slValue, executed);
+        }
+        break;
+      }
+      case 'spot_sale':
+        await this.executeSpotSale(ctx, pendingOrder.asset, pendingOrder.percentage, true, pinVerified, pendingOrder.clientOrderId);
+        break;
+      case 'spot_direct_sell':
+        await this.handleSpotDirectSell(ctx, pendingOrder.symbol, pendingOrder.amount, pendingOrder.amountType, true, pinVerified, pendingOrder.clientOrderId);
+        break;
+      case 'command_trade':
+        await this.executeTradePreview(ctx, pendingOrder.preview, true, pinVerified);
+        break;
+      case 'position_close': {
+        const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+        await this.handleClosePosition(ctx, pendingOrder.symbol, apiClient, pendingOrder.percentage, pendingOrder.positionSide, true, pendingOrder.clientOrderId);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Handle cancellation of a market order held by price protection
+   */
+  private async handlePriceGuardCancellation(ctx: BotContext): Promise<void> {
+    if (ctx.userState?.conversationState?.step === 'confirming_market_order') {
+      ctx.userState.conversationState = undefined;
+      await this.authMiddleware.clearConversationState(ctx.userState.telegramId);
+    }
+
+    await ctx.answerCbQuery('Order cancelled');
+    await ctx.editMessageText(
+      '❌ **Order Cancelled**\n\n' +
+      'No order was placed.\n\n' +
+      '🔄 Try a smaller size or use the trading menu.',
+      {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('📈 Trade Again', 'unified_trade')]
+        ])
+      }
+    );
+  }
+
+  /**
+   * Handle perps leverage selection (Step 1 of trading flow)
+   */
+  private async handlePerpsLeverageSelection(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL'): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    try {
+      const currentPrice = await this.priceService.getCurrentPrice(symbol);
+      const userSettings = await this.getTradingSettings(ctx);
+      const maxLeverage = await this.getMaxLeverage(ctx, symbol);
+      const sideText = side === 'BUY' ? 'Long' : 'Short';
+      const emoji = side === 'BUY' ? '🟢' : '🔴';
+      
+      const leverageText = [
+        `${emoji} **${sideText} ${symbol.replace('USDT', '')}**`,
+        `💵 **Current Price:** $${currentPrice.toFixed(6)}`,
+        `🛡️ **Max Leverage:** ${maxLeverage}x${maxLeverage < userSettings.leverage_cap ? ` (your cap is ${userSettings.leverage_cap}x)` : ''}`,
+        '',
+        '🎯 **Step 1: Select Leverage**',
+        '',
+        '⚡ **Choose your leverage multiplier:**'
+      ].join('\n');
+
+      // Standard steps up to the allowed max, plus the user's default and the max itself
+      const leverageOptions = [...new Set([2, 3, 5, 10, 20, 50, userSettings.default_leverage, maxLeverage])]
+        .filter(leverage => leverage >= 1 && leverage <= maxLeverage)
+        .sort((a, b) => a - b);
+
+      const leverageButtons = leverageOptions.map(leverage => 
+        Markup.button.callback(
+          leverage === userSettings.default_leverage ? `⭐ ${leverage}x` : `${leverage}x`,
+          `perps_leverage_${side.toLowerCase()}_${symbol}_${leverage}x`
+        )
+      );
+
+      const keyboard = Markup.inlineKeyboard([
+        ...this.chunkButtons(leverageButtons, 3),
+        [
+          Markup.button.callback('🔙 Back', 'trade_perps')
+        ]
+      ]);
+
+      await ctx.editMessageText(leverageText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error('Perps leverage selection error:', error);
+      await ctx.reply(`❌ Failed to load leverage selection for ${symbol}. Please try again.`);
+    }
+  }
+
+  /**
+   * Handle perps amount selection (Step 2 of trading flow)
+   */
+  private async handlePerpsAmountSelection(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL', leverage: number, marginMode: 'cross' | 'isolated'): Promise<void> {
+    try {
+      if (!(await this.passesLeveragePolicy(ctx, symbol, leverage))) {
+        return;
+      }
+
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const FuturesAccountService = await import('../services/FuturesAccountService');
+      const futuresService = new FuturesAccountService.FuturesAccountService(apiClient);
+      
+      const account = await futuresService.getFuturesAccount();
+      const usdtAsset = account.assets.find(a => a.asset === 'USDT');
+      const availableBalance = parseFloat(usdtAsset?.availableBalance || '0');
+      
+      const currentPrice = await this.priceService.getCurrentPrice(symbol);
+      const userSettings = await this.getTradingSettings(ctx);
+      const sideText = side === 'BUY' ? 'Long' : 'Short';
+      const emoji = side === 'BUY' ? '🟢' : '🔴';
+      
+      const marginEmoji = marginMode === 'cross' ? '🌐' : '🔒';
+      const amountText = [
+        `${emoji} **${sideText} ${symbol.replace('USDT', '')} ${leverage}x**`,
+        `${marginEmoji} **Margin Mode:** ${marginMode.charAt(0).toUpperCase() + marginMode.slice(1)}`,
+        `💵 **Current Price:** $${currentPrice.toFixed(6)}`,
+        `💰 **Available Balance:** $${availableBalance.toFixed(2)} USDT`,
+        '',
+        '🎯 **Step 3: Select Position Size**',
+        '',
+        '💵 **Your Size Presets** (margin in USDT) or 📊 **Percentage of Balance:**'
+      ].join('\n');
+
+      const presetButtons = userSettings.size_presets.map(preset => 
+        Markup.button.callback(`$${preset}`, `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_${preset}u`)
+      );
+
+      const keyboard = Markup.inlineKeyboard([
+        ...this.chunkButtons(presetButtons, 3),
+        [
+          Markup.button.callback(`25% ($${(availableBalance * 0.25).toFixed(2)})`, `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_25pct`),
+          Markup.button.callback(`50% ($${(availableBalance * 0.50).toFixed(2)})`, `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_50pct`)
+        ],
+        [
+          Markup.button.callback(`75% ($${(availableBalance * 0.75).toFixed(2)})`, `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_75pct`),
+          Markup.button.callback(`100% ($${availableBalance.toFixed(2)})`, `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_100pct`)
+        ],
+        [
+          Markup.button.callback('💰 Enter USDT Amount', `perps_manual_usdt_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`),
+          Markup.button.callback('🪙 Enter Token Amount', `perps_manual_token_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`)
+        ],
+        [
+          Markup.button.callback('📐 Limit Order', `limit_start_perps_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`),
+          Markup.button.callback('🪜 Ladder', `ladder_start_perps_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`)
+        ],
+        [
+          Markup.button.callback('🎯 Risk Mode (size by max loss)', `risk_start_perps_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`)
+        ],
+        [
+          Markup.button.callback('🔙 Back to Margin Mode', `perps_margin_${side.toLowerCase()}_${symbol}_${leverage}x`)
+        ]
+      ]);
+
+      await ctx.editMessageText(amountText, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      console.error('Perps amount selection error:', error);
+      await ctx.reply(`❌ Failed to load amount selection for ${symbol}. Please try again.`);
+    }
+  }
+
+  /**
+   * Handle spot trade choice (show holdings and direct buy/sell with quantity options)
+   */
+  private async handleSpotTradeChoice(ctx: BotContext, symbol: string): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+      const SpotAccountService = await import('../services/SpotAccountService');
+      const spotService = new SpotAccountService.SpotAccountService(apiClient);
+      
+      // Get current price and holdings
+      const currentPrice = await this.getSpotPrice(symbol);
+      const cleanSymbol = symbol.replace('USDT', '');
+      
+      // Get USDT balance for buying
+      const usdtBalance = await spotService.getUsdtBalance();
+      
+      // Get asset balance for selling
+      const assetBalance = await spotService.getAssetBalance(cleanSymbol);
+      const assetAmount = assetBalance?.total || 0;
+      const assetUsdValue = assetBalance?.usdValue || 0;
+      
+      // Build the display text
+      let tradeText = [
+        `🏪 **${cleanSymbol}/USDT**`,
+        `💵 **Price:** $${currentPrice.toFixed(6)}`,
+        ''
+      ];
+
+      // Show holdings
+      if (assetAmount > 0) {
+        tradeText.push(`💰 **Your ${cleanSymbol}:** ${assetAmount.toFixed(4)} ($${assetUsdValue.toFixed(2)})`);
+      } else {
+        tradeText.push(`💰 **Your ${cleanSymbol}:** 0`);
+      }
+      
+      tradeText.push(`💵 **Your USDT:** $${usdtBalance.toFixed(2)}`);
+      tradeText.push('');
+      tradeText.push('🎯 **Trading Options:**');
+
+      // Create keyboard with buy/sell options and quantities
+      const keyboard = [];
+      
+      // BUY section (if has USDT)
+      if (usdtBalance >= 1) {
+        keyboard.push([
+          Markup.button.callback('🟢 BUY', `spot_buy_${symbol}`)
+        ]);
+        
+        // Quick buy amounts from the user's size presets
+        const userSettings = await this.getTradingSettings(ctx);
+        const buyAmounts = userSettings.size_presets.filter(amount => amount <= usdtBalance);
+        if (buyAmounts.length > 0) {
+          const buyRow1 = buyAmounts.slice(0, 2).map(amount => 
+            Markup.button.callback(`Buy $${amount}`, `spot_execute_buy_${symbol}_${amount}u`)
+          );
+          const buyRow2 = buyAmounts.slice(2, 4).map(amount => 
+            Markup.button.callback(`Buy $${amount}`, `spot_execute_buy_${symbol}_${amount}u`)
+          );
+          
+          if (buyRow1.length > 0) keyboard.push(buyRow1);
+          if (buyRow2.length > 0) keyboard.push(buyRow2);
+        }
+        
+        keyboard.push([
+          Markup.button.callback('💰 Custom USDT Amount', `spot_custom_amount_buy_${symbol}`)
+        ]);
+      }
+
+      // SELL section (if has asset)
+      if (assetAmount >= 0.0001) {
+        keyboard.push([
+          Markup.button.callback('🔴 SELL', `spot_sell_${symbol}`)
+        ]);
+        
+        // Quick sell percentages
+        keyboard.push([
+          Markup.button.callback('Sell 25%', `spot_sell_${cleanSymbol}_25pct`),
+          Markup.button.callback('Sell 50%', `spot_sell_${cleanSymbol}_50pct`)
+        ]);
+        keyboard.push([
+          Markup.button.callback('Sell 75%', `spot_sell_${cleanSymbol}_75pct`),
+          Markup.button.callback('Sell 100%', `spot_sell_${cleanSymbol}_100pct`)
+        ]);
+        
+        keyboard.push([
+          Markup.button.callback('🪙 Custom Token Amount', `spot_custom_amount_sell_${symbol}`)
+        ]);
+      }
+
+      // Back button
+      keyboard.push([
+        Markup.button.callback('🔙 Back to Spot Trading', 'trade_spot')
+      ]);
+
+      try {
+        await ctx.editMessageText(tradeText.join('\n'), {
+          parse_mode: 'Markdown',
+          ...Markup.inlineKeyboard(keyboard)
+        });
+      } catch (editError) {
+        // If edit fails (no message to edit), send new message
+        try {
+          console.warn(`[SpotTradeChoice] Edit failed for ${symbol}, sending new message:`, editError);
+          await ctx.reply(tradeText.join('\n'), {
+            parse_mode: 'Markdown',
+            ...Markup.inlineKeyboard(keyboard)
+          });
+        } catch (parseError) {
+          // Final fallback without markdown
+          console.warn(`[SpotTradeChoice] Markdown parse error for ${symbol}, sending without markdown:`, parseError);
+          const plainText = tradeText.join('\n').replace(/\*\*/g, '');
+          await ctx.reply(plainText, {
+            ...Markup.inlineKeyboard(keyboard)
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`[SpotTradeChoice] Error for ${symbol}:`, error);
+      await ctx.reply(`❌ Unable to load ${symbol} trading options. Please try again.`);
+    }
+  }
+
   /**
-   * Handle leverage settings
+   * Handle comprehensive symbol analysis with price, holdings, and positions
    */
-  private async handleLeverageSettings(ctx: BotContext, userSettings: any, settingsManager: any): Promise<void> {
-    const leverageText = [
-      '🎯 **Leverage Settings**',
-      '',
-      `**Current Leverage Cap:** ${userSettings.leverage_cap}x`,
-      `**Default Leverage:** ${userSettings.default_leverage}x`,
+  private async handleSymbolAnalysis(ctx: BotContext, symbol: string): Promise<void> {
+    try {
+      if (!ctx.userState?.isLinked) {
+        await ctx.reply('❌ Please link your API credentials first using /link');
+        return;
+      }
+
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+      const cleanSymbol = symbol.replace('USDT', '');
+
+      // Check if symbol exists in spot or futures
+      const [spotTickers, futuresTickers] = await Promise.all([
+        apiClient.getAllSpotTickers().catch(() => []),
+        apiClient.getAllFuturesTickers().catch(() => [])
+      ]);
+
+      const spotData = spotTickers.find(t => t.symbol === symbol);
+      const futuresData = futuresTickers.find(t => t.symbol === symbol);
+
+      if (!spotData && !futuresData) {
+        console.log(`[SymbolAnalysis] ${symbol} not found in any market`);
+        return; // Symbol doesn't exist, don't respond
+      }
+
+      console.log(`[SymbolAnalysis] Found ${symbol} - Spot: ${!!spotData}, Futures: ${!!futuresData}`);
+
+      // Get current price and 24h data
+      const priceData = spotData || futuresData!;
+      const currentPrice = parseFloat(priceData.lastPrice);
+      const change24h = parseFloat(priceData.priceChangePercent);
+      const volume24h = parseFloat(priceData.quoteVolume || '0');
+
+      // Build analysis text
+      let analysisText = [
+        `📊 **${cleanSymbol}/USDT Analysis**`,
+        `💵 **Price:** $${currentPrice.toFixed(6)}`,
+        `📈 **24h Change:** ${change24h >= 0 ? '🟢' : '🔴'} ${change24h >= 0 ? '+' : ''}${change24h.toFixed(2)}%`,
+        `📊 **24h Volume:** $${(volume24h / 1000000).toFixed(2)}M`,
+        ''
+      ];
+
+      const keyboard = [];
+
+      // Check spot holdings
+      if (spotData) {
+        try {
+          const SpotAccountService = await import('../services/SpotAccountService');
+          const spotService = new SpotAccountService.SpotAccountService(apiClient);
+          const assetBalance = await spotService.getAssetBalance(cleanSymbol);
+          
+          if (assetBalance && assetBalance.total > 0.0001) {
+            analysisText.push(`🏪 **Spot Holdings:** ${assetBalance.total.toFixed(4)} ${cleanSymbol} ($${(assetBalance.usdValue || 0).toFixed(2)})`);
+          } else {
+            analysisText.push(`🏪 **Spot Holdings:** 0 ${cleanSymbol}`);
+          }
+        } catch (error) {
+          console.warn('[SymbolAnalysis] Error getting spot balance:', error);
+          analysisText.push(`🏪 **Spot:** Available for trading`);
+        }
+      }
+
+      // Check futures positions
+      if (futuresData) {
+        try {
+          const FuturesAccountService = await import('../services/FuturesAccountService');
+          const futuresService = new FuturesAccountService.FuturesAccountService(apiClient);
+          const position = await futuresService.getPosition(symbol);
+          
+          if (position && position.size > 0) {
+            const pnlEmoji = position.unrealizedPnl >= 0 ? '🟢' : '🔴';
+            analysisText.push(`⚡ **Futures Position:** ${position.side} $${position.notional.toFixed(2)} ${pnlEmoji} ${position.unrealizedPnl >= 0 ? '+' : ''}$${position.unrealizedPnl.toFixed(2)}`);
+          } else {
+            analysisText.push(`⚡ **Futures Position:** None`);
+          }
+        } catch (error) {
+          console.warn('[SymbolAnalysis] Error getting futures position:', error);
+          analysisText.push(`⚡ **Futures:** Available for trading`);
+        }
+      }
+
+      analysisText.push('');
+      analysisText.push('🎯 **Choose Trading Mode:**');
+
+      // Add trading buttons
+      const tradingButtons = [];
+      if (spotData) {
+        tradingButtons.push(Markup.button.callback('🏪 Spot Trading', `spot_trade_${symbol}`));
+      }
+      if (futuresData) {
+        tradingButtons.push(Markup.button.callback('⚡ Futures Trading', `perps_buy_${symbol}`));
+      }
+      
+      if (tradingButtons.length > 0) {
+        keyboard.push(tradingButtons);
+      }
+
+      // Quick action buttons
+      const quickActions = [];
+      if (spotData) {
+        quickActions.push(Markup.button.callback('💹 Quick Spot Buy', `spot_buy_${symbol}`));
+      }
+      if (futuresData) {
+        quickActions.push(Markup.button.callback('⚡ Quick Long', `perps_buy_${symbol}`));
+        quickActions.push(Markup.button.callback('📉 Quick Short', `perps_sell_${symbol}`));
+      }
+      
+      if (quickActions.length > 0) {
+        keyboard.push(quickActions.slice(0, 2)); // Limit to 2 per row
+        if (quickActions.length > 2) {
+          keyboard.push(quickActions.slice(2));
+        }
+      }
+
+      const isWatched = await new WatchlistService(this.db).contains(ctx.userState.userId, symbol);
+      keyboard.push([this.watchlistToggleButton(symbol, isWatched)]);
+
+      // Send the analysis
+      await ctx.reply(analysisText.join('\n'), {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard(keyboard)
+      });
+
+    } catch (error) {
+      console.error(`[SymbolAnalysis] Error analyzing ${symbol}:`, error);
+      // Don't send error message to avoid spam, just log it
+    }
+  }
+
+  /**
+   * Handle spot trading selection (single step for spot)
+   */
+  private async handleSpotTradingSelection(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL'): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.reply('❌ Please link your API credentials first using /link');
+      return;
+    }
+
+    const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
+    const SpotAccountService = await import('../services/SpotAccountService');
+    const spotService = new SpotAccountService.SpotAccountService(apiClient);
+    
+    let availableBalance = 0;
+    if (side === 'BUY') {
+      const usdtBalance = await spotService.getUsdtBalance();
+      availableBalance = usdtBalance;
+    } else {
+      const asset = symbol.replace('USDT', '');
+      const assetBalance = await spotService.getAssetBalance(asset);
+      if (assetBalance) {
+        availableBalance = assetBalance.usdValue || 0;
+      }
+    }
+    
+    const currentPrice = await this.getSpotPrice(symbol);
+    const sideText = side === 'BUY' ? 'Buy' : 'Sell';
+    const emoji = side === 'BUY' ? '🟢' : '🔴';
+    const balanceText = side === 'BUY' ? 'USDT Balance' : `${symbol.replace('USDT', '')} Value`;
+    
+    const spotText = [
+      `${emoji} **${sideText} ${symbol.replace('USDT', '')}**`,
+      `💵 **Current Price:** $${currentPrice.toFixed(6)}`,
+      `💰 **Available ${balanceText}:** $${availableBalance.toFixed(2)}`,
       '',
-      '⚙️ **Configure leverage limits for safety:**',
-      '• Leverage Cap: Maximum allowed leverage',
-      '• Default Leverage: Used for quick trades',
+      '🎯 **Select Position Size:**',
       '',
-      '💡 **Recommended:** Cap at 20x for safer trading'
+      '📊 **Quick Percentage Options:**'
     ].join('\n');
 
     const keyboard = Markup.inlineKeyboard([
       [
-        Markup.button.callback('5x Cap', 'set_leverage_cap_5'),
-        Markup.button.callback('10x Cap', 'set_leverage_cap_10')
+        Markup.button.callback(`25% ($${(availableBalance * 0.25).toFixed(2)})`, `spot_amount_${side.toLowerCase()}_${symbol}_25pct`),
+        Markup.button.callback(`50% ($${(availableBalance * 0.50).toFixed(2)})`, `spot_amount_${side.toLowerCase()}_${symbol}_50pct`)
       ],
       [
-        Markup.button.callback('20x Cap', 'set_leverage_cap_20'),
-        Markup.button.callback('50x Cap', 'set_leverage_cap_50')
+        Markup.button.callback(`75% ($${(availableBalance * 0.75).toFixed(2)})`, `spot_amount_${side.toLowerCase()}_${symbol}_75pct`),
+        Markup.button.callback(`100% ($${availableBalance.toFixed(2)})`, `spot_amount_${side.toLowerCase()}_${symbol}_100pct`)
       ],
       [
-        Markup.button.callback('2x Default', 'set_default_leverage_2'),
-        Markup.button.callback('5x Default', 'set_default_leverage_5')
+        Markup.button.callback('💰 Enter USDT Amount', `spot_manual_usdt_${side.toLowerCase()}_${symbol}`),
+        Markup.button.callback('🪙 Enter Token Amount', `spot_manual_token_${side.toLowerCase()}_${symbol}`)
       ],
       [
-        Markup.button.callback('🔙 Back', 'settings')
+        Markup.button.callback('📐 Limit Order', `limit_start_spot_${side.toLowerCase()}_${symbol}`)
+      ],
+      [
+        Markup.button.callback('🔙 Back', 'trade_spot')
       ]
     ]);
 
-    await ctx.editMessageText(leverageText, { parse_mode: 'Markdown', ...keyboard });
+    await ctx.editMessageText(spotText, { parse_mode: 'Markdown', ...keyboard });
   }
 
   /**
-   * Handle size settings
+   * Handle perps percentage execution
    */
-  private async handleSizeSettings(ctx: BotContext, userSettings: any, settingsManager: any): Promise<void> {
-    const sizeText = [
-      '💰 **Size Settings**',
-      '',
-      `**Size Presets:** $${userSettings.size_presets.join(', $')}`,
-      '',
-      '⚙️ **Configure default trade sizes:**',
-      '• Quick access buttons for common amounts',
-      '• Customize based on your trading style',
-      '',
-      '💡 **Popular presets:** $25, $50, $100, $250'
-    ].join('\n');
-
-    const keyboard = Markup.inlineKeyboard([
-      [
-        Markup.button.callback('Conservative', 'set_size_preset_conservative'),
-        Markup.button.callback('Moderate', 'set_size_preset_moderate')
-      ],
-      [
-        Markup.button.callback('Aggressive', 'set_size_preset_aggressive'),
-        Markup.button.callback('Custom', 'set_size_preset_custom')
-      ],
-      [
-        Markup.button.callback('🔙 Back', 'settings')
-      ]
-    ]);
+  private async handlePerpsPercentageExecute(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL', leverage: number, percentage: number): Promise<void> {
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const FuturesAccountService = await import('../services/FuturesAccountService');
+      const futuresService = new FuturesAccountService.FuturesAccountService(apiClient);
+      
+      const account = await futuresService.getFuturesAccount();
+      const usdtAsset = account.assets.find(a => a.asset === 'USDT');
+      const availableBalance = parseFloat(usdtAsset?.availableBalance || '0');
+      
+      const usdtAmount = Math.floor(availableBalance * (percentage / 100));
+      
+      if (usdtAmount < 1) {
+        await ctx.reply(`❌ Insufficient balance. You need at least $1 USDT to trade. Available: $${availableBalance.toFixed(2)}`);
+        return;
+      }
+      
+      await this.handlePerpsExecuteAction(ctx, symbol, side, usdtAmount, leverage);
+    } catch (error) {
+      console.error('Perps percentage execution error:', error);
+      await ctx.reply('❌ Failed to execute percentage trade. Please try again.');
+    }
+  }
 
-    await ctx.editMessageText(sizeText, { parse_mode: 'Markdown', ...keyboard });
+  /**
+   * Handle spot percentage execution
+   */
+  private async handleSpotPercentageExecute(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL', percentage: number): Promise<void> {
+    try {
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const SpotAccountService = await import('../services/SpotAccountService');
+      const spotService = new SpotAccountService.SpotAccountService(apiClient);
+      
+      let usdtAmount = 0;
+      if (side === 'BUY') {
+        const usdtBalance = await spotService.getUsdtBalance();
+        usdtAmount = Math.floor(usdtBalance * (percentage / 100));
+      } else {
+        const asset = symbol.replace('USDT', '');
+        const assetBalance = await spotService.getAssetBalance(asset);
+        if (assetBalance && assetBalance.usdValue) {
+          usdtAmount = Math.floor(assetBalance.usdValue * (percentage / 100));
+        }
+      }
+      
+      if (usdtAmount < 1) {
+        await ctx.reply(`❌ Insufficient balance. You need at least $1 USDT equivalent to trade.`);
+        return;
+      }
+      
+      await this.handleSpotExecuteAction(ctx, symbol, side, usdtAmount);
+    } catch (error) {
+      console.error('Spot percentage execution error:', error);
+      await ctx.reply('❌ Failed to execute percentage trade. Please try again.');
+    }
   }
 
   /**
-   * Handle risk settings
+   * Handle manual USDT input
    */
-  private async handleRiskSettings(ctx: BotContext, userSettings: any, settingsManager: any): Promise<void> {
-    const riskText = [
-      '🛡️ **Risk Management Settings**',
+  private async handleManualUSDTInput(ctx: BotContext, mode: 'spot' | 'perps', symbol: string, side: 'BUY' | 'SELL', leverage?: number, marginMode?: 'cross' | 'isolated'): Promise<void> {
+    const modeText = mode === 'spot' ? 'Spot' : 'Perps';
+    const sideText = side === 'BUY' ? (mode === 'spot' ? 'Buy' : 'Long') : (mode === 'spot' ? 'Sell' : 'Short');
+    const leverageText = leverage ? ` ${leverage}x` : '';
+    
+    const inputText = [
+      `💰 **Manual USDT Amount**`,
+      `**${modeText} ${sideText}${leverageText}:** ${symbol.replace('USDT', '')}`,
       '',
-      `**Slippage Tolerance:** ${(userSettings.slippage_bps / 100).toFixed(2)}%`,
-      `**Daily Loss Cap:** ${userSettings.daily_loss_cap ? '$' + userSettings.daily_loss_cap : 'None'}`,
-      `**TP Presets:** ${userSettings.tp_presets.join('%, ')}%`,
-      `**SL Presets:** ${userSettings.sl_presets.join('%, ')}%`,
+      '✍️ **Enter your USDT amount:**',
       '',
-      '⚙️ **Configure risk management:**',
-      '• Set maximum daily losses',
-      '• Configure slippage tolerance',
-      '• Set take profit/stop loss presets'
+      '📝 **Examples:**',
+      '• 25 (for $25 USDT)',
+      '• 100 (for $100 USDT)',
+      '• 500 (for $500 USDT)',
+      '',
+      '⏳ **Waiting for your input...**'
     ].join('\n');
 
+    const marginModeText = marginMode ? `_${marginMode}` : '';
+    const userSettings = await this.getTradingSettings(ctx);
+    const presetButtons = userSettings.size_presets.map(amount => 
+      Markup.button.callback(`$${amount}`, mode === 'spot'
+        ? `spot_execute_${side.toLowerCase()}_${symbol}_${amount}u`
+        : `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_${amount}u`)
+    );
+
     const keyboard = Markup.inlineKeyboard([
+      ...this.chunkButtons(presetButtons, 2),
       [
-        Markup.button.callback('$100 Daily Cap', 'set_daily_cap_100'),
-        Markup.button.callback('$500 Daily Cap', 'set_daily_cap_500')
-      ],
-      [
-        Markup.button.callback('0.5% Slippage', 'set_slippage_50'),
-        Markup.button.callback('1% Slippage', 'set_slippage_100')
-      ],
-      [
-        Markup.button.callback('Remove Daily Cap', 'remove_daily_cap'),
-        Markup.button.callback('Reset to Default', 'reset_risk_settings')
-      ],
-      [
-        Markup.button.callback('🔙 Back', 'settings')
+        Markup.button.callback('🔙 Back', mode === 'spot' ? `spot_${side.toLowerCase()}_${symbol}` : `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`)
       ]
     ]);
 
-    await ctx.editMessageText(riskText, { parse_mode: 'Markdown', ...keyboard });
+    await ctx.editMessageText(inputText, { parse_mode: 'Markdown', ...keyboard });
+
+    // Set conversation state
+    if (ctx.userState) {
+      (ctx.userState as any).expectingManualUSDT = { mode, symbol, side, leverage, marginMode };
+    }
   }
 
   /**
-   * Handle security settings
+   * Handle manual token input
    */
-  private async handleSecuritySettings(ctx: BotContext, userSettings: any, settingsManager: any): Promise<void> {
-    const securityText = [
-      '🔒 **Security Settings**',
+  private async handleManualTokenInput(ctx: BotContext, mode: 'spot' | 'perps', symbol: string, side: 'BUY' | 'SELL', leverage?: number, marginMode?: 'cross' | 'isolated'): Promise<void> {
+    const tokenSymbol = symbol.replace('USDT', '');
+    const modeText = mode === 'spot' ? 'Spot' : 'Perps';
+    const sideText = side === 'BUY' ? (mode === 'spot' ? 'Buy' : 'Long') : (mode === 'spot' ? 'Sell' : 'Short');
+    const leverageText = leverage ? ` ${leverage}x` : '';
+    
+    const inputText = [
+      `🪙 **Manual Token Amount**`,
+      `**${modeText} ${sideText}${leverageText}:** ${tokenSymbol}`,
       '',
-      `**PIN Protection:** ${userSettings.pin_hash ? 'Enabled' : 'Disabled'}`,
+      `✍️ **Enter your ${tokenSymbol} amount:**`,
       '',
-      '⚙️ **Security features:**',
-      '• PIN protection for trades',
-      '• Secure credential storage',
-      '• Session management',
+      '📝 **Examples:**',
+      '• 0.001 (for 0.001 BTC)',
+      '• 1 (for 1 ETH)',
+      '• 100 (for 100 ADA)',
       '',
-      '💡 **Enable PIN for extra security on large trades**'
+      '⏳ **Waiting for your input...**'
     ].join('\n');
 
     const keyboard = Markup.inlineKeyboard([
       [
-        userSettings.pin_hash ? 
-          Markup.button.callback('🔓 Disable PIN', 'disable_pin') :
-          Markup.button.callback('🔒 Enable PIN', 'enable_pin'),
-        Markup.button.callback('🔄 Change PIN', 'change_pin')
+        Markup.button.callback('0.001', ''),
+        Markup.button.callback('0.01', '')
       ],
       [
-        Markup.button.callback('🔐 Security Info', 'security_info'),
-        Markup.button.callback('⚠️ Reset Security', 'reset_security')
+        Markup.button.callback('0.1', ''),
+        Markup.button.callback('1', '')
       ],
       [
-        Markup.button.callback('🔙 Back', 'settings')
+        Markup.button.callback('🔙 Back', mode === 'spot' ? `spot_${side.toLowerCase()}_${symbol}` : `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`)
       ]
     ]);
 
-    await ctx.editMessageText(securityText, { parse_mode: 'Markdown', ...keyboard });
+    await ctx.editMessageText(inputText, { parse_mode: 'Markdown', ...keyboard });
+
+    // Set conversation state
+    if (ctx.userState) {
+      (ctx.userState as any).expectingManualToken = { mode, symbol, side, leverage, marginMode };
+    }
   }
 
   /**
-   * Handle price menu - main price tracking interface
+   * Handle manual USDT text input
    */
-  private async handlePriceMenu(ctx: BotContext): Promise<void> {
-    try {
-      const priceText = [
-        '📊 **Live Market Intelligence Center**',
-        '',
-        'Real-time market data, price analysis, and trading insights powered by Aster DEX. Track market leaders, monitor volume surges, and discover trending opportunities.',
-        '',
-        '**🏆 Market Leaders:**',
-        '• Top cryptocurrencies by market capitalization',
-        '• Most liquid and established trading pairs',
-        '• Click any token for detailed analysis',
-        '',
-        '**📈 Volume Analytics:**',
-        '• Highest volume pairs with momentum indicators',
-        '• Real-time trading activity and price movements',
-        '• Identify market hotspots and trends',
-        '',
-        '**⭐ Smart Features:**',
-        '• Curated watchlist of key assets',
-        '• Multi-token price comparison tools',
-        '• Complete market overview and discovery',
-        '',
-        '**Choose your market analysis:**'
-      ].join('\n');
+  private async handleManualUSDTText(ctx: BotContext, text: string): Promise<void> {
+    const state = (ctx.userState as any)?.expectingManualUSDT;
+    if (!state) return;
 
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('🏆 Top Market Cap', 'price_top_mcap'),
-          Markup.button.callback('📈 Top Volume', 'price_top_volume')
-        ],
-        [
-          Markup.button.callback('⭐ Watchlist', 'price_watchlist'),
-          Markup.button.callback('🔄 Compare Prices', 'price_compare')
-        ],
-        [
-          Markup.button.callback('🌐 All Markets', 'price_all_markets'),
-          Markup.button.callback('📈 Trade', 'unified_trade')
-        ],
-        [
-          Markup.button.callback('🔙 Back', 'main_menu')
-        ]
-      ]);
+    // Clear conversation state
+    delete (ctx.userState as any).expectingManualUSDT;
 
-      await this.safeEditMessageText(ctx, priceText, { parse_mode: 'Markdown', ...keyboard });
-    } catch (error) {
-      console.error('Price menu error:', error);
-      await ctx.reply('❌ Failed to load price menu. Please try again.');
+    const { mode, symbol, side, leverage, marginMode } = state;
+    const amount = parseFloat(text.trim());
+
+    if (isNaN(amount) || amount <= 0) {
+      await ctx.reply(
+        `❌ **Invalid Amount**\n\n` +
+        `Please enter a valid positive number for USDT amount.\n\n` +
+        `Example: 25, 100, 500`
+      );
+      return;
     }
-  }
 
-  /**
-   * Handle top market cap display
-   */
-  private async handleTopMarketCap(ctx: BotContext): Promise<void> {
-    try {
-      // Top symbols by market cap (most established and valuable cryptocurrencies)
-      const topSymbols = [
-        'BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'XRPUSDT', 'ADAUSDT', 
-        'SOLUSDT', 'DOTUSDT', 'LINKUSDT', 'AVAXUSDT', 'MATICUSDT'
-      ];
-      
-      let priceText = '🏆 **Top Market Cap Cryptocurrencies**\n💰 *Current Price • 24h Change (USD) • High/Low • Volume*\n\n';
-      
-      const pricePromises = topSymbols.map(async (symbol, index) => {
-        try {
-          const ticker = await this.publicApiClient.get24hrTicker(symbol);
-          const price = parseFloat(ticker.lastPrice);
-          const change24h = parseFloat(ticker.priceChangePercent);
-          const volume = parseFloat(ticker.volume);
-          const high24h = parseFloat(ticker.highPrice);
-          const low24h = parseFloat(ticker.lowPrice);
-          const openPrice = parseFloat(ticker.openPrice);
-          
-          const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
-          const changeText = change24h >= 0 ? '+' : '';
-          
-          // Format price based on value
-          const formattedPrice = price < 1 ? price.toFixed(6) : price < 100 ? price.toFixed(4) : price.toFixed(2);
-          
-          // Calculate price change in USD
-          const priceChange = price - openPrice;
-          const formattedPriceChange = Math.abs(priceChange) < 0.01 ? 
-            priceChange.toFixed(6) : priceChange.toFixed(2);
-          
-          // Format volume in appropriate units
-          const volumeText = volume > 1000000 ? 
-            `${(volume / 1000000).toFixed(1)}M` : 
-            volume > 1000 ? `${(volume / 1000).toFixed(1)}K` : volume.toFixed(0);
-          
-          return `${index + 1}. **${symbol.replace('USDT', '')}**\n` +
-                 `   💰 **$${formattedPrice}** ${changeEmoji} ${changeText}${change24h.toFixed(2)}% (${changeText}$${formattedPriceChange})\n` +
-                 `   📊 H: $${high24h.toFixed(price < 1 ? 6 : 2)} • L: $${low24h.toFixed(price < 1 ? 6 : 2)} • Vol: ${volumeText}\n`;
-        } catch (error) {
-          console.error(`Failed to fetch ticker for ${symbol}:`, error);
-          return `${index + 1}. **${symbol.replace('USDT', '')}** • ❌ Price unavailable\n`;
-        }
-      });
-      
-      const priceResults = await Promise.allSettled(pricePromises);
-      const successfulResults = priceResults.filter(result => result.status === 'fulfilled').map(result => result.value);
-      const failedCount = priceResults.length - successfulResults.length;
-      
-      if (successfulResults.length === 0) {
-        throw new Error('Failed to fetch price data for all cryptocurrencies');
-      }
-      
-      priceText += successfulResults.join('\n');
-      
-      if (failedCount > 0) {
-        priceText += `\n\n⚠️ ${failedCount} price(s) unavailable due to API issues`;
-      }
-      
-      // Add clickable token buttons for quick access
-      const tokenButtons = topSymbols.slice(0, 6).map(symbol => 
-        Markup.button.callback(symbol.replace('USDT', ''), `price_token_${symbol}`)
+    if (amount > 10000) {
+      await ctx.reply(
+        `❌ **Amount Too Large**\n\n` +
+        `Maximum amount is $10,000 USDT per trade.\n\n` +
+        `Please enter a smaller amount.`
       );
-      
-      const buttonRows = [];
-      for (let i = 0; i < tokenButtons.length; i += 3) {
-        buttonRows.push(tokenButtons.slice(i, i + 3));
-      }
-      
-      buttonRows.push([
-        Markup.button.callback('📈 Top Volume', 'price_top_volume'),
-        Markup.button.callback('🔄 Refresh', 'price_top_mcap')
-      ]);
-      buttonRows.push([
-        Markup.button.callback('📈 Trade', 'unified_trade'),
-        Markup.button.callback('🔙 Back', 'price_menu')
-      ]);
-      
-      const keyboard = Markup.inlineKeyboard(buttonRows);
+      return;
+    }
 
-      await this.safeEditMessageText(ctx, priceText, { parse_mode: 'Markdown', ...keyboard });
+    try {
+      if (mode === 'spot') {
+        if (side === 'SELL') {
+          // For spot selling, execute directly without TP/SL
+          await this.handleSpotDirectSell(ctx, symbol, amount, 'usdt');
+        } else {
+          // For spot buying, show TP/SL options
+          await this.handleSpotTPSLSelection(ctx, symbol, side, amount, 'usdt');
+        }
+      } else {
+        await this.handlePerpsTPSLSelection(ctx, symbol, side, leverage!, marginMode!, amount, 'usdt');
+      }
     } catch (error) {
-      console.error('Top market cap error:', error);
-      await ctx.reply('❌ Failed to load top market cap data. Please try again.');
+      console.error('Manual USDT execution error:', error);
+      await ctx.reply('❌ Failed to execute trade. Please try again.');
     }
   }
 
   /**
-   * Handle top volume display
+   * Handle manual token text input
    */
-  private async handleTopVolume(ctx: BotContext): Promise<void> {
+  private async handleManualTokenText(ctx: BotContext, text: string): Promise<void> {
+    const state = (ctx.userState as any)?.expectingManualToken;
+    if (!state) return;
+
+    // Clear conversation state
+    delete (ctx.userState as any).expectingManualToken;
+
+    const { mode, symbol, side, leverage, marginMode } = state;
+    const tokenAmount = parseFloat(text.trim());
+
+    if (isNaN(tokenAmount) || tokenAmount <= 0) {
+      await ctx.reply(
+        `❌ **Invalid Amount**\n\n` +
+        `Please enter a valid positive number for token amount.\n\n` +
+        `Example: 0.001, 1, 100`
+      );
+      return;
+    }
+
     try {
-      const allTickers = await this.publicApiClient.getAllFuturesTickers();
-      
-      // Check if we actually got data
-      if (!allTickers || allTickers.length === 0) {
-        throw new Error('No ticker data received from API');
-      }
-      
-      // Sort by volume and take top 10
-      const topByVolume = allTickers
-        .filter((ticker: any) => ticker.symbol.endsWith('USDT'))
-        .sort((a: any, b: any) => parseFloat(b.volume) - parseFloat(a.volume))
-        .slice(0, 10);
-        
-      // Check if we have any USDT pairs
-      if (topByVolume.length === 0) {
-        throw new Error('No USDT trading pairs found in ticker data');
+      // Convert token amount to USDT
+      const currentPrice = await this.priceService.getCurrentPrice(symbol);
+      const usdtAmount = tokenAmount * currentPrice;
+
+      if (usdtAmount > 50000) {
+        await ctx.reply(
+          `❌ **Amount Too Large**\n\n` +
+          `Token amount equivalent to $${usdtAmount.toFixed(2)} USDT is too large.\n\n` +
+          `Maximum is $50,000 USDT equivalent per trade.`
+        );
+        return;
       }
-      
-      let volumeText = '📈 **Highest Volume Trading Pairs (24h)**\n💰 *Current Price • 24h Change (USD) • High/Low • Volume*\n\n';
-      
-      // Get detailed ticker data for each top volume symbol
-      const detailedTickerPromises = topByVolume.slice(0, 10).map(async (ticker: any, index: number) => {
-        try {
-          const detailedTicker = await this.publicApiClient.get24hrTicker(ticker.symbol);
-          const price = parseFloat(detailedTicker.lastPrice);
-          const change24h = parseFloat(detailedTicker.priceChangePercent);
-          const volume = parseFloat(detailedTicker.volume);
-          const high24h = parseFloat(detailedTicker.highPrice);
-          const low24h = parseFloat(detailedTicker.lowPrice);
-          const openPrice = parseFloat(detailedTicker.openPrice);
-          
-          const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
-          const changeText = change24h >= 0 ? '+' : '';
-          
-          // Format price based on value
-          const formattedPrice = price < 1 ? price.toFixed(6) : price < 100 ? price.toFixed(4) : price.toFixed(2);
-          
-          // Calculate price change in USD
-          const priceChange = price - openPrice;
-          const formattedPriceChange = Math.abs(priceChange) < 0.01 ? 
-            priceChange.toFixed(6) : priceChange.toFixed(2);
-          
-          // Format volume in appropriate units
-          const volumeText = volume > 1000000 ? 
-            `${(volume / 1000000).toFixed(1)}M` : 
-            volume > 1000 ? `${(volume / 1000).toFixed(1)}K` : volume.toFixed(0);
-          
-          return `${index + 1}. **${ticker.symbol.replace('USDT', '')}**\n` +
-                 `   💰 **$${formattedPrice}** ${changeEmoji} ${changeText}${change24h.toFixed(2)}% (${changeText}$${formattedPriceChange})\n` +
-                 `   📊 H: $${high24h.toFixed(price < 1 ? 6 : 2)} • L: $${low24h.toFixed(price < 1 ? 6 : 2)} • Vol: ${volumeText}\n`;
-        } catch (error) {
-          console.error(`Failed to fetch detailed ticker for ${ticker.symbol}:`, error);
-          // Fallback to basic data from getAllFuturesTickers
-          const price = parseFloat(ticker.lastPrice);
-          const change24h = parseFloat(ticker.priceChangePercent);
-          const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
-          const changeText = change24h >= 0 ? '+' : '';
-          const volume = (parseFloat(ticker.volume) / 1000000).toFixed(1);
-          
-          return `${index + 1}. **${ticker.symbol.replace('USDT', '')}** • $${price.toFixed(price < 1 ? 6 : 2)}\n` +
-                 `   ${changeEmoji} ${changeText}${change24h.toFixed(2)}% • Vol: ${volume}M\n`;
+
+      if (mode === 'spot') {
+        if (side === 'SELL') {
+          // For spot selling, execute directly without TP/SL
+          await this.handleSpotDirectSell(ctx, symbol, tokenAmount, 'token');
+        } else {
+          // For spot buying, show TP/SL options
+          await this.handleSpotTPSLSelection(ctx, symbol, side, tokenAmount, 'token');
         }
-      });
-      
-      const detailedResults = await Promise.allSettled(detailedTickerPromises);
-      const successfulDetailedResults = detailedResults.filter(result => result.status === 'fulfilled').map(result => result.value);
-      
-      volumeText += successfulDetailedResults.join('\n');
-      
-      // Add clickable buttons for top volume tokens
-      const topTokenButtons = topByVolume.slice(0, 6).map((ticker: any) => 
-        Markup.button.callback(ticker.symbol.replace('USDT', ''), `price_token_${ticker.symbol}`)
-      );
-      
-      const buttonRows = [];
-      for (let i = 0; i < topTokenButtons.length; i += 3) {
-        buttonRows.push(topTokenButtons.slice(i, i + 3));
+      } else {
+        await this.handlePerpsTPSLSelection(ctx, symbol, side, leverage!, marginMode!, tokenAmount, 'token');
       }
-      
-      buttonRows.push([
-        Markup.button.callback('🏆 Top Market Cap', 'price_top_mcap'),
-        Markup.button.callback('🔄 Refresh', 'price_top_volume')
-      ]);
-      buttonRows.push([
-        Markup.button.callback('📈 Trade', 'unified_trade'),
-        Markup.button.callback('🔙 Back', 'price_menu')
-      ]);
-      
-      const keyboard = Markup.inlineKeyboard(buttonRows);
-
-      await this.safeEditMessageText(ctx, volumeText, { parse_mode: 'Markdown', ...keyboard });
     } catch (error) {
-      console.error('Top volume error:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      
-      // Provide a more informative error message with a retry option
-      const retryKeyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('🔄 Retry', 'price_top_volume'),
-          Markup.button.callback('🔙 Back to Price Menu', 'price_menu')
-        ]
-      ]);
-      
-      await ctx.editMessageText(
-        `❌ **Failed to Load Top Volume Data**\n\n` +
-        `Error: ${errorMessage}\n\n` +
-        `This might be due to:\n` +
-        `• API connectivity issues\n` +
-        `• Exchange server maintenance\n` +
-        `• Temporary network problems\n\n` +
-        `Please try again in a moment.`,
-        { parse_mode: 'Markdown', ...retryKeyboard }
-      );
+      console.error('Manual token execution error:', error);
+      await ctx.reply('❌ Failed to execute trade. Please try again.');
     }
   }
 
   /**
-   * Handle price watchlist
+   * Start a limit order: show the book and ask for the limit price
    */
-  private async handlePriceWatchlist(ctx: BotContext): Promise<void> {
+  private async handleLimitOrderStart(ctx: BotContext, draft: LimitOrderDraft): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.answerCbQuery('❌ Please link your API credentials first!');
+      return;
+    }
+
     try {
-      // Default watchlist symbols
-      const watchlist = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'XRPUSDT', 'ASTERUSDT'];
-      
-      let watchlistText = '⭐ **Price Watchlist**\n\n';
-      
-      const pricePromises = watchlist.map(async (symbol) => {
-        try {
-          const ticker = await this.publicApiClient.get24hrTicker(symbol);
-          const price = parseFloat(ticker.lastPrice);
-          const change24h = parseFloat(ticker.priceChangePercent);
-          const volume = parseFloat(ticker.volume);
-          const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
-          const changeText = change24h >= 0 ? '+' : '';
-          
-          return [
-            `**${symbol.replace('USDT', '')}** • $${price.toFixed(price < 1 ? 6 : 2)}`,
-            `${changeEmoji} ${changeText}${change24h.toFixed(2)}% • Vol: ${(volume / 1000000).toFixed(1)}M`,
-            ''
-          ].join('\n');
-        } catch (error) {
-          return `**${symbol.replace('USDT', '')}** • Price unavailable\n\n`;
-        }
-      });
-      
-      const watchlistResults = await Promise.all(pricePromises);
-      watchlistText += watchlistResults.join('');
-      
-      // Create price buttons for quick access
-      const priceButtons = watchlist.map(symbol => 
-        Markup.button.callback(symbol.replace('USDT', ''), `price_token_${symbol}`)
-      );
-      
-      // Arrange in rows of 3
-      const buttonRows = [];
-      for (let i = 0; i < priceButtons.length; i += 3) {
-        buttonRows.push(priceButtons.slice(i, i + 3));
-      }
-      
-      buttonRows.push([
-        Markup.button.callback('🔄 Refresh', 'price_watchlist'),
-        Markup.button.callback('📈 Trade', 'unified_trade')
-      ]);
-      
-      buttonRows.push([
-        Markup.button.callback('🔙 Back', 'price_menu')
-      ]);
-      
-      const keyboard = Markup.inlineKeyboard(buttonRows);
+      const limitService = await this.getLimitOrderService(ctx);
+      const quote = await limitService.getQuote(draft.market, draft.symbol);
 
-      await ctx.editMessageText(watchlistText, { parse_mode: 'Markdown', ...keyboard });
+      await this.setLimitOrderState(ctx, 'waiting_limit_price', draft);
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(limitService.formatPricePrompt(draft, quote), {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          (['best', 'mid', 'offset'] as const).map(preset =>
+            Markup.button.callback(LimitOrderService.describePreset(draft.side, preset), `limit_price_${preset}`)
+          ),
+          [Markup.button.callback('❌ Cancel', 'limit_cancel')]
+        ])
+      });
     } catch (error) {
-      console.error('Price watchlist error:', error);
-      await ctx.reply('❌ Failed to load price watchlist. Please try again.');
+      console.error('[Orchestrator] Limit order start error:', error);
+      await ctx.reply(`❌ Failed to load the order book for ${draft.symbol}. Please try again.`);
     }
   }
 
   /**
-   * Handle individual token price
+   * Handle a quick price button on the limit price prompt
+   */
+  private async handleLimitPricePreset(ctx: BotContext, preset: LimitPricePreset): Promise<void> {
+    const draft = this.getPendingLimitOrder(ctx, 'waiting_limit_price');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This limit order has expired');
+      return;
+    }
+
+    await ctx.answerCbQuery();
+    await this.applyLimitPrice(ctx, draft, preset);
+  }
+
+  /**
+   * Handle a typed limit price
+   */
+  private async handleLimitPriceText(ctx: BotContext, text: string): Promise<void> {
+    const draft = this.getPendingLimitOrder(ctx, 'waiting_limit_price');
+    if (!draft) return;
+
+    await this.applyLimitPrice(ctx, draft, parseFloat(text.trim().replace(/[$,]/g, '')));
+  }
+
+  /**
+   * Validate the limit price and move on to the order size
    */
-  private async handleTokenPrice(ctx: BotContext, symbol: string): Promise<void> {
+  private async applyLimitPrice(ctx: BotContext, draft: LimitOrderDraft, input: number | LimitPricePreset): Promise<void> {
     try {
-      // Use public API client for market data
-      const AsterApiClient = await import('../aster');
-      const apiClient = new AsterApiClient.AsterApiClient('https://fapi.asterdex.com', '', '');
-      const [currentPrice, ticker] = await Promise.all([
-        this.priceService.getCurrentPrice(symbol),
-        apiClient.get24hrTicker(symbol)
-      ]);
-      
-      const change24h = parseFloat(ticker.priceChangePercent);
-      const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
-      const changeText = change24h >= 0 ? '+' : '';
-      const volume = (parseFloat(ticker.volume) / 1000000).toFixed(1);
-      
-      const priceText = [
-        `📊 **${symbol.replace('USDT', '')} Price Details**`,
-        '',
-        `💵 **Current Price:** $${currentPrice.toFixed(6)}`,
-        `${changeEmoji} **24h Change:** ${changeText}${change24h.toFixed(2)}%`,
-        `📈 **24h High:** $${parseFloat(ticker.highPrice).toFixed(6)}`,
-        `📉 **24h Low:** $${parseFloat(ticker.lowPrice).toFixed(6)}`,
-        `📊 **24h Volume:** ${volume}M USDT`,
-        `⏰ **Last Updated:** ${new Date().toLocaleTimeString()}`,
-        '',
-        '🎯 **Quick Actions:**'
-      ].join('\n');
-      
+      const limitService = await this.getLimitOrderService(ctx);
+      const quote = await limitService.getQuote(draft.market, draft.symbol);
+      const rawPrice = typeof input === 'number' ? input : LimitOrderService.resolvePreset(quote, draft.side, input);
+      const result = await limitService.checkPrice(draft, rawPrice, quote);
+
+      if (!result.success) {
+        await ctx.reply(
+          `❌ **Invalid Limit Price**\n\n${result.errors.map(error => `• ${error}`).join('\n')}\n\n📝 Send another price or cancel.`,
+          { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'limit_cancel')]]) }
+        );
+        return;
+      }
+
+      const updated: LimitOrderDraft = { ...draft, price: result.price };
+      await this.setLimitOrderState(ctx, 'waiting_limit_amount', updated);
+
+      const text = limitService.formatAmountPrompt(updated, result.notes);
       const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('🟢 Buy', `perps_buy_${symbol}`),
-          Markup.button.callback('🔴 Sell', `perps_sell_${symbol}`)
-        ],
-        [
-          Markup.button.callback('🔄 Refresh Price', `price_token_${symbol}`),
-          Markup.button.callback('📈 Full Trading', 'trade_perps')
-        ],
-        [
-          Markup.button.callback('⭐ Watchlist', 'price_watchlist'),
-          Markup.button.callback('🔙 Back', 'price_menu')
-        ]
+        LimitOrderService.QUICK_AMOUNTS.map(amount => Markup.button.callback(`$${amount}`, `limit_amount_${amount}`)),
+        [Markup.button.callback('❌ Cancel', 'limit_cancel')]
       ]);
 
-      await this.safeEditMessageText(ctx, priceText, { parse_mode: 'Markdown', ...keyboard });
+      if (ctx.callbackQuery) {
+        await ctx.editMessageText(text, { parse_mode: 'Markdown', ...keyboard });
+      } else {
+        await ctx.reply(text, { parse_mode: 'Markdown', ...keyboard });
+      }
     } catch (error) {
-      console.error(`Token price error for ${symbol}:`, error);
-      await ctx.reply(`❌ Failed to load price data for ${symbol}. Please try again.`);
+      console.error('[Orchestrator] Limit price error:', error);
+      await ctx.reply('❌ Failed to check the limit price. Please try again.');
     }
   }
 
   /**
-   * Handle price comparison
+   * Handle a quick amount button on the limit size prompt
    */
-  private async handlePriceCompare(ctx: BotContext): Promise<void> {
+  private async handleLimitAmount(ctx: BotContext, amount: number): Promise<void> {
+    const draft = this.getPendingLimitOrder(ctx, 'waiting_limit_amount');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This limit order has expired');
+      return;
+    }
+
+    await ctx.answerCbQuery();
+    await this.applyLimitAmount(ctx, draft, amount);
+  }
+
+  /**
+   * Handle a typed USDT amount for a limit order
+   */
+  private async handleLimitAmountText(ctx: BotContext, text: string): Promise<void> {
+    const draft = this.getPendingLimitOrder(ctx, 'waiting_limit_amount');
+    if (!draft) return;
+
+    await this.applyLimitAmount(ctx, draft, parseFloat(text.trim().replace(/[$,]/g, '')));
+  }
+
+  /**
+   * Validate the size against the symbol filters and show the confirmation
+   */
+  private async applyLimitAmount(ctx: BotContext, draft: LimitOrderDraft, amount: number): Promise<void> {
+    if (!Number.isFinite(amount) || amount <= 0 || amount > 10000) {
+      await ctx.reply(
+        '❌ **Invalid Amount**\n\nEnter a USDT amount between 0 and 10,000, e.g. `100`.',
+        { parse_mode: 'Markdown' }
+      );
+      return;
+    }
+
     try {
-      const compareSymbols = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT'];
-      
-      let compareText = '🔄 **Price Comparison**\n\n';
-      
-      const comparisonPromises = compareSymbols.map(async (symbol) => {
-        try {
-          const [price, ticker] = await Promise.all([
-            this.priceService.getCurrentPrice(symbol),
-            (async () => {
-              const AsterApiClient = await import('../aster');
-              const publicClient = new AsterApiClient.AsterApiClient('https://fapi.asterdex.com', '', '');
-              return publicClient.get24hrTicker(symbol);
-            })()
-          ]);
-          
-          const change24h = parseFloat(ticker.priceChangePercent);
-          const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
-          const changeText = change24h >= 0 ? '+' : '';
-          
-          return {
-            symbol,
-            price,
-            change24h,
-            changeEmoji,
-            changeText,
-            text: `**${symbol.replace('USDT', '')}**\n$${price.toFixed(6)} ${changeEmoji} ${changeText}${change24h.toFixed(2)}%`
-          };
-        } catch (error) {
-          return {
-            symbol,
-            price: 0,
-            change24h: 0,
-            changeEmoji: '⚪',
-            changeText: '',
-            text: `**${symbol.replace('USDT', '')}**\nPrice unavailable`
-          };
-        }
-      });
-      
-      const comparisons = await Promise.all(comparisonPromises);
-      
-      // Sort by 24h change (best performers first)
-      comparisons.sort((a, b) => b.change24h - a.change24h);
-      
-      comparisons.forEach((comp, index) => {
-        const rank = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : '📊';
-        compareText += `${rank} ${comp.text}\n\n`;
-      });
-      
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('🔄 Refresh', 'price_compare'),
-          Markup.button.callback('⭐ Watchlist', 'price_watchlist')
-        ],
-        [
-          Markup.button.callback('📈 Trade Best', 'unified_trade'),
-          Markup.button.callback('🔙 Back', 'price_menu')
-        ]
-      ]);
+      const limitService = await this.getLimitOrderService(ctx);
+      const quote = await limitService.getQuote(draft.market, draft.symbol);
+      const result = await limitService.checkOrder({ ...draft, quoteAmount: amount }, quote);
 
-      await ctx.editMessageText(compareText, { parse_mode: 'Markdown', ...keyboard });
+      if (!result.success) {
+        await ctx.reply(
+          `❌ **Order Rejected**\n\n${result.errors.map(error => `• ${error}`).join('\n')}\n\n📝 Send another amount or cancel.`,
+          { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'limit_cancel')]]) }
+        );
+        return;
+      }
+
+      const updated: LimitOrderDraft = { ...draft, quoteAmount: amount, price: result.price, quantity: result.quantity };
+      await this.setLimitOrderState(ctx, 'confirming_limit_order', updated);
+      await this.showLimitConfirmation(ctx, updated, limitService);
     } catch (error) {
-      console.error('Price comparison error:', error);
-      await ctx.reply('❌ Failed to load price comparison. Please try again.');
+      console.error('[Orchestrator] Limit amount error:', error);
+      await ctx.reply('❌ Failed to check the order size. Please try again.');
     }
   }
 
   /**
-   * Handle all markets display
+   * Switch the time in force on the confirmation screen
    */
-  private async handleAllMarkets(ctx: BotContext): Promise<void> {
-    try {
-      // Use public API client for market data
-      const AsterApiClient = await import('../aster');
-      const apiClient = new AsterApiClient.AsterApiClient('https://fapi.asterdex.com', '', '');
-      const allTickers = await apiClient.getAllFuturesTickers();
-      
-      // Filter USDT pairs and sort by volume
-      const usdtPairs = allTickers
-        .filter((ticker: any) => ticker.symbol.endsWith('USDT'))
-        .sort((a: any, b: any) => parseFloat(b.volume) - parseFloat(a.volume))
-        .slice(0, 12); // Show top 12
-      
-      let marketsText = '🌐 **All Available Markets**\n\n';
-      marketsText += `📊 **Total USDT Pairs:** ${usdtPairs.length}\n\n`;
-      marketsText += '**🔥 Top Markets by Volume:**\n\n';
-      
-      usdtPairs.forEach((ticker: any, index: number) => {
-        const change24h = parseFloat(ticker.priceChangePercent);
-        const changeEmoji = change24h >= 0 ? '🟢' : '🔴';
-        const changeText = change24h >= 0 ? '+' : '';
-        
-        marketsText += `${index + 1}. **${ticker.symbol.replace('USDT', '')}** $${parseFloat(ticker.lastPrice).toFixed(6)} ${changeEmoji} ${changeText}${change24h.toFixed(1)}%\n`;
-      });
-      
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('🔄 Refresh', 'price_all_markets'),
-          Markup.button.callback('📈 Trade', 'unified_trade')
-        ],
-        [
-          Markup.button.callback('🏆 Top Cap', 'price_top_mcap'),
-          Markup.button.callback('📈 Top Vol', 'price_top_volume')
-        ],
-        [
-          Markup.button.callback('🔙 Back', 'price_menu')
-        ]
-      ]);
+  private async handleLimitTimeInForce(ctx: BotContext, timeInForce: LimitTimeInForce): Promise<void> {
+    const draft = this.getPendingLimitOrder(ctx, 'confirming_limit_order');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This limit order has expired');
+      return;
+    }
 
-      await ctx.editMessageText(marketsText, { parse_mode: 'Markdown', ...keyboard });
+    const updated: LimitOrderDraft = { ...draft, timeInForce };
+    await this.setLimitOrderState(ctx, 'confirming_limit_order', updated);
+    await ctx.answerCbQuery(LimitOrderService.describeTimeInForce(timeInForce));
+
+    try {
+      await this.showLimitConfirmation(ctx, updated, await this.getLimitOrderService(ctx));
     } catch (error) {
-      console.error('All markets error:', error);
-      await ctx.reply('❌ Failed to load market data. Please try again.');
+      // Tapping the already selected option leaves the message unchanged
+      console.warn('[Orchestrator] Could not update limit confirmation:', error);
+    }
+  }
+
+  private async showLimitConfirmation(ctx: BotContext, draft: LimitOrderDraft, limitService: LimitOrderService): Promise<void> {
+    const text = limitService.formatConfirmation(draft);
+    const keyboard = Markup.inlineKeyboard([
+      (Object.keys(LimitOrderService.TIME_IN_FORCE_LABELS) as LimitTimeInForce[]).map(timeInForce =>
+        Markup.button.callback(
+          `${draft.timeInForce === timeInForce ? '✅ ' : ''}${LimitOrderService.TIME_IN_FORCE_LABELS[timeInForce]}`,
+          `limit_tif_${timeInForce}`
+        )
+      ),
+      [Markup.button.callback('✅ Place Limit Order', 'limit_confirm')],
+      [Markup.button.callback('❌ Cancel', 'limit_cancel')]
+    ]);
+
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(text, { parse_mode: 'Markdown', ...keyboard });
+    } else {
+      await ctx.reply(text, { parse_mode: 'Markdown', ...keyboard });
     }
   }
 
   /**
-   * Handle custom amount input for trading
+   * Confirm button on the limit order summary
    */
-  private async handleCustomAmount(ctx: BotContext, mode: 'spot' | 'perps', side: 'BUY' | 'SELL', symbol: string): Promise<void> {
-    if (!ctx.userState?.isLinked) {
-      await ctx.reply('❌ Please link your API credentials first using /link');
+  private async handleLimitConfirm(ctx: BotContext): Promise<void> {
+    const draft = this.getPendingLimitOrder(ctx, 'confirming_limit_order');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This limit order has expired');
       return;
     }
 
-    const modeText = mode === 'spot' ? 'Spot' : 'Perps';
-    const sideText = side === 'BUY' ? 'Buy' : 'Sell';
-    const currentPrice = mode === 'spot' 
-      ? await this.getSpotPrice(symbol)
-      : await this.priceService.getCurrentPrice(symbol);
-      
-      const customText = [
-        `💰 **Custom ${modeText} ${sideText}**`,
-        `**Symbol:** ${symbol}`,
-        `**Current Price:** $${currentPrice.toFixed(6)}`,
-        '',
-        '✍️ **Type your custom amount:**',
-        '',
-        '📝 **Supported formats:**',
-        '• $100 (USD amount)',
-        '• 100u (USDT amount)',
-        '• 0.1 (token quantity)',
-        mode === 'perps' ? '• 100u 10x (with leverage)' : '',
-        '',
-        '⏳ **Waiting for your input...**'
-      ].filter(Boolean).join('\n');
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+    await this.executeLimitOrder(ctx, draft);
+  }
 
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('$25', mode === 'spot' ? `spot_execute_${side.toLowerCase()}_${symbol}_25u` : `perps_execute_${side.toLowerCase()}_${symbol}_25u_5x`),
-          Markup.button.callback('$50', mode === 'spot' ? `spot_execute_${side.toLowerCase()}_${symbol}_50u` : `perps_execute_${side.toLowerCase()}_${symbol}_50u_5x`)
-        ],
-        [
-          Markup.button.callback('$100', mode === 'spot' ? `spot_execute_${side.toLowerCase()}_${symbol}_100u` : `perps_execute_${side.toLowerCase()}_${symbol}_100u_5x`),
-          Markup.button.callback('$250', mode === 'spot' ? `spot_execute_${side.toLowerCase()}_${symbol}_250u` : `perps_execute_${side.toLowerCase()}_${symbol}_250u_5x`)
-        ],
-        [
-          Markup.button.callback('🔙 Back', mode === 'spot' ? `spot_${side.toLowerCase()}_${symbol}` : `perps_${side.toLowerCase()}_${symbol}`)
-        ]
-      ]);
+  private async handleLimitCancel(ctx: BotContext): Promise<void> {
+    if (this.getPendingLimitOrder(ctx)) {
+      ctx.userState!.conversationState = undefined;
+      await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+    }
 
-      await ctx.editMessageText(customText, { parse_mode: 'Markdown', ...keyboard });
+    await ctx.answerCbQuery('Cancelled');
+    await ctx.editMessageText(
+      '❌ **Limit Order Cancelled**\n\nNo order was placed.',
+      {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ])
+      }
+    );
+  }
 
-      // Set conversation state for persistent storage
-      if (ctx.userState) {
-        const conversationState = {
-          step: 'waiting_custom_amount' as const,
-          data: { mode, side, symbol }
-        };
-        ctx.userState.conversationState = conversationState;
-        await this.authMiddleware.setConversationState(ctx.userState.telegramId, conversationState);
+  /**
+   * Place a confirmed limit order - resolves true once it is on the book
+   */
+  private async executeLimitOrder(ctx: BotContext, draft: LimitOrderDraft, pinVerified = false): Promise<boolean> {
+    const clientOrderId = this.deriveClientOrderId(ctx, draft.symbol, draft.nonce);
+    let releaseClaim: (() => void) | null = null;
+
+    try {
+      if (!ctx.userState?.isLinked) {
+        await ctx.reply('❌ Please link your API credentials first using /link');
+        return false;
+      }
+
+      releaseClaim = await this.claimSubmission(ctx, clientOrderId);
+      if (!releaseClaim) {
+        return false;
       }
 
-  }
+      // Spot sells only reduce exposure, everything else opens or adds to it
+      const increasesRisk = draft.market === 'perps' || draft.side === 'BUY';
 
-  /**
-   * Handle custom amount text input
-   */
-  private async handleCustomAmountText(ctx: BotContext, text: string): Promise<void> {
-    const conversationState = ctx.userState?.conversationState;
-    if (!conversationState?.data) return;
+      if (increasesRisk && !(await this.passesTradingHaltCheck(ctx))) {
+        return false;
+      }
 
-    // Clear conversation state
-    ctx.userState!.conversationState = undefined;
-    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+      if (increasesRisk && !(await this.passesDailyLossCheck(ctx))) {
+        return false;
+      }
 
-    const { mode, side, symbol } = conversationState.data;
+      if (draft.market === 'perps' && draft.leverage && !(await this.passesLeveragePolicy(ctx, draft.symbol, draft.leverage, draft.quoteAmount))) {
+        return false;
+      }
 
-    // Validate required data
-    if (!mode || !side || !symbol) {
-      await ctx.reply('❌ **Invalid Session**\n\nPlease start the trading process again.');
-      return;
-    }
+      if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'limit_order', order: draft }, draft.quoteAmount))) {
+        return false;
+      }
 
-    try {
-      // Parse the input
-      const parsed = this.parseAmountInput(text);
-      
-      if (!parsed.isValid) {
+      if (ctx.callbackQuery) await ctx.answerCbQuery(`📐 Placing limit ${draft.side === 'BUY' ? 'buy' : 'sell'}...`);
+
+      const limitService = await this.getLimitOrderService(ctx);
+
+      // The book may have moved since the confirmation, e.g. into a post-only price
+      const quote = await limitService.getQuote(draft.market, draft.symbol);
+      const check = await limitService.checkOrder(draft, quote);
+      if (!check.success) {
         await ctx.reply(
-          `❌ **Invalid Amount Format**\n\n` +
-          `**Input:** ${text}\n` +
-          `**Error:** ${parsed.error}\n\n` +
-          `📝 **Valid formats:**\n` +
-          `• $100 or 100u (USDT amount)\n` +
-          `• 0.1 (token quantity)\n` +
-          `• 100u 10x (USDT with leverage)\n\n` +
-          `🔄 Use the trading menu to try again.`,
+          `❌ **Limit Order Not Placed**\n\n${check.errors.map(error => `• ${error}`).join('\n')}`,
           { parse_mode: 'Markdown' }
         );
-        return;
+        return false;
       }
 
-      // Execute the trade based on parsed input
-      if (mode === 'spot') {
-        if (parsed.usdtAmount) {
-          await this.handleSpotExecuteAction(ctx, symbol, side, parsed.usdtAmount);
-        } else {
-          await ctx.reply('❌ Spot trading requires USDT amount. Use formats like $100 or 100u.');
-        }
-      } else {
-        if (parsed.usdtAmount && parsed.leverage) {
-          await this.handlePerpsExecuteAction(ctx, symbol, side, parsed.usdtAmount, parsed.leverage);
-        } else {
-          await ctx.reply('❌ Perps trading requires USDT amount and leverage. Use format like 100u 5x.');
-        }
-      }
+      const order: LimitOrderDraft = { ...draft, price: check.price, quantity: check.quantity };
+      const processingMsg = await ctx.reply(
+        `📐 **Placing Limit ${LimitOrderService.describeOrder(order)}**\n\n` +
+        `**Price:** $${order.price}\n` +
+        `**Quantity:** ${order.quantity}\n\n` +
+        `⏳ Submitting order...`,
+        { parse_mode: 'Markdown' }
+      );
+
+      try {
+        const orderResult = await limitService.place(order, clientOrderId);
+        await this.recordOrder(ctx, {
+          market: order.market,
+          purpose: order.market === 'spot' && order.side === 'SELL' ? 'sell' : 'entry',
+          symbol: order.symbol,
+          side: order.side,
+          type: 'LIMIT',
+          leverage: order.leverage,
+          quantity: order.quantity
+        }, orderResult);
 
+        await ctx.telegram.editMessageText(
+          ctx.chat?.id,
+          processingMsg.message_id,
+          undefined,
+          limitService.formatPlaced(order, orderResult),
+          {
+            parse_mode: 'Markdown',
+            ...Markup.inlineKeyboard([
+              [
+                Markup.button.callback('📋 Open Orders', 'open_orders'),
+                Markup.button.callback('📜 Order History', `orders_page_1_${OrderHistoryService.encodeFilters({ symbol: order.symbol })}`)
+              ],
+              [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+            ])
+          }
+        );
+        return true;
+      } catch (orderError: any) {
+        console.error('[Orchestrator] Limit order placement failed:', orderError);
+        await ctx.telegram.editMessageText(
+          ctx.chat?.id,
+          processingMsg.message_id,
+          undefined,
+          `❌ **Limit Order Failed**\n\n` +
+          `**${LimitOrderService.describeOrder(order)}** @ $${order.price}\n` +
+          `**Error:** ${orderError.message || 'Unknown error'}\n\n` +
+          `🔄 Please try again or contact support.`,
+          { parse_mode: 'Markdown' }
+        );
+        return false;
+      }
     } catch (error) {
-      console.error('Custom amount parsing error:', error);
-      await ctx.reply(`❌ Failed to process custom amount. Please try again with the trading menu.`);
+      console.error('[Orchestrator] Limit order execute error:', error);
+      this.eventEmitter.emitEvent({
+        type: EventTypes.ERROR_OCCURRED,
+        timestamp: new Date(),
+        userId: ctx.userState?.userId || 0,
+        telegramId: ctx.userState?.telegramId || 0,
+        correlationId: ctx.correlationId,
+        error: error as Error,
+        context: { type: 'limit_order_execute', symbol: draft.symbol, side: draft.side, market: draft.market }
+      });
+      await ctx.reply('❌ Failed to place the limit order. Please try again.');
+      return false;
+    } finally {
+      releaseClaim?.();
     }
   }
 
+  private async getLimitOrderService(ctx: BotContext): Promise<LimitOrderService> {
+    const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+    return new LimitOrderService(apiClient, await this.getLeveragePolicy(ctx));
+  }
+
+  private async setLimitOrderState(
+    ctx: BotContext,
+    step: 'waiting_limit_price' | 'waiting_limit_amount' | 'confirming_limit_order',
+    draft: LimitOrderDraft
+  ): Promise<void> {
+    // A draft reaching its confirmation screen gets the nonce its order ID is derived from
+    const limitOrder = step === 'confirming_limit_order' && !draft.nonce ? { ...draft, nonce: IdempotencyService.newNonce() } : draft;
+    const conversationState = { step, data: { limitOrder } };
+    ctx.userState!.conversationState = conversationState;
+    await this.authMiddleware.setConversationState(ctx.userState!.telegramId, conversationState);
+  }
+
+  private getPendingLimitOrder(ctx: BotContext, step?: 'waiting_limit_price' | 'waiting_limit_amount' | 'confirming_limit_order'): LimitOrderDraft | undefined {
+    const state = ctx.userState?.conversationState;
+    if (!state?.data?.limitOrder) return undefined;
+    if (step ? state.step !== step : !state.step.includes('limit')) return undefined;
+    return state.data.limitOrder;
+  }
+
   /**
-   * Parse amount input in various formats
+   * Start a ladder from the amount screen or the position menu: ask for the price range
    */
-  private parseAmountInput(input: string): { isValid: boolean; error?: string; usdtAmount?: number; tokenAmount?: number; leverage?: number } {
-    const trimmed = input.trim().toLowerCase();
-    
-    // Pattern 1: $100 or 100u (USDT amount)
-    const usdtMatch = trimmed.match(/^[\$]?(\d+(?:\.\d+)?)u?$/);
-    if (usdtMatch) {
-      const amount = parseFloat(usdtMatch[1]);
-      if (amount > 0 && amount <= 10000) {
-        return { isValid: true, usdtAmount: amount, leverage: 5 }; // Default 5x leverage
-      }
+  private async handleLadderStart(ctx: BotContext, draft: LadderDraft): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.answerCbQuery('❌ Please link your API credentials first!');
+      return;
     }
 
-    // Pattern 2: 100u 5x (USDT with leverage)
-    const leverageMatch = trimmed.match(/^(\d+(?:\.\d+)?)u?\s+(\d+)x$/);
-    if (leverageMatch) {
-      const amount = parseFloat(leverageMatch[1]);
-      const leverage = parseInt(leverageMatch[2]);
-      if (amount > 0 && amount <= 10000 && leverage >= 1 && leverage <= 125) {
-        return { isValid: true, usdtAmount: amount, leverage };
-      }
-    }
+    try {
+      const ladderService = await this.getLadderService(ctx);
+      const markPrice = await ladderService.getMarkPrice(draft.symbol);
 
-    // Pattern 3: 0.1 (token quantity)
-    const tokenMatch = trimmed.match(/^(\d+(?:\.\d+)?)$/);
-    if (tokenMatch) {
-      const amount = parseFloat(tokenMatch[1]);
-      if (amount > 0) {
-        return { isValid: true, tokenAmount: amount };
-      }
+      await this.setLadderState(ctx, 'waiting_ladder_range', draft);
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(ladderService.formatRangePrompt(draft, markPrice), {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'ladder_cancel')]])
+      });
+    } catch (error) {
+      console.error('[Orchestrator] Ladder start error:', error);
+      await ctx.reply(`❌ Failed to load the mark price for ${draft.symbol}. Please try again.`);
     }
-
-    return { 
-      isValid: false, 
-      error: 'Invalid format. Use $100, 100u, 0.1, or 100u 5x' 
-    };
   }
 
   /**
-   * Handle trade confirmation
+   * Scaled take-profit for an open position, closing on the opposite side
    */
-  private async handleTradeConfirmation(ctx: BotContext): Promise<void> {
-    const pendingTrade = (ctx.userState as any)?.pendingTrade;
-    if (!pendingTrade) {
-      await ctx.reply('❌ No pending trade to confirm.');
+  private async handleLadderTakeProfitStart(ctx: BotContext, symbol: string, apiClient: any, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const positions = await apiClient.getPositionRisk();
+    const position = AsterApiClient.findPosition(positions, symbol, positionSide);
+    if (!position) {
+      await ctx.answerCbQuery();
+      await ctx.reply(`❌ No open position found for ${symbol}`);
       return;
     }
 
+    await this.handleLadderStart(ctx, {
+      purpose: 'take_profit',
+      symbol,
+      side: AsterApiClient.legOf(position) === 'LONG' ? 'SELL' : 'BUY',
+      closePercent: 100,
+      count: 3,
+      spacing: 'linear',
+      weighting: 'equal'
+    });
+  }
+
+  /**
+   * Build a ladder straight from a trade command, e.g. /buy ETH 500u ladder 3 from 3200 to 3000
+   */
+  private async handleLadderCommand(ctx: BotContext, command: TradeCommand): Promise<void> {
     try {
-      // Execute the confirmed trade
-      const { mode, side, symbol, amount, leverage } = pendingTrade;
-      
-      // Clear pending trade
-      delete (ctx.userState as any).pendingTrade;
+      const SettingsModule = await import('../settings');
+      const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+      const userSettings = await settingsManager.getUserSettings(ctx.userState!.userId);
 
-      if (mode === 'spot') {
-        await this.handleSpotExecuteAction(ctx, symbol, side, amount);
-      } else {
-        await this.handlePerpsExecuteAction(ctx, symbol, side, amount, leverage);
+      const leverage = command.leverage || userSettings.default_leverage;
+      if (leverage > userSettings.leverage_cap) {
+        await ctx.reply(`❌ Leverage ${leverage}x exceeds your cap of ${userSettings.leverage_cap}x`);
+        return;
       }
 
-    } catch (error) {
-      console.error('Trade confirmation error:', error);
-      await ctx.reply('❌ Failed to confirm trade. Please try again.');
+      const ladder = command.ladder!;
+      const draft: LadderDraft = {
+        purpose: 'entry',
+        symbol: command.symbol,
+        side: command.action,
+        leverage,
+        count: ladder.count,
+        from: ladder.from,
+        to: ladder.to,
+        spacing: ladder.spacing,
+        weighting: ladder.weighting,
+        ...(command.sizeType === 'QUOTE' ? { quoteAmount: parseFloat(command.size!) } : { baseQuantity: command.size })
+      };
+
+      const ignored = [
+        command.stopLoss && 'stop loss',
+        command.takeProfit && 'take profit',
+        command.trailing && 'trailing stop',
+        command.reduceOnly && 'reduce only'
+      ].filter((option): option is string => !!option);
+      const notes = ignored.length > 0
+        ? [`Ignored for ladders: ${ignored.join(', ')}. Add protection from the position menu once levels fill.`]
+        : [];
+
+      await this.setLadderState(ctx, 'confirming_ladder', draft);
+      await this.showLadderPreview(ctx, draft, await this.getLadderService(ctx), notes);
+    } catch (error: any) {
+      console.error('[Orchestrator] Ladder command error:', error);
+      await ctx.reply(`❌ Failed to prepare ladder: ${error.message || 'Unknown error'}`);
     }
   }
 
   /**
-   * Handle trade cancellation
+   * Handle a typed price range for a ladder
    */
-  private async handleTradeCancellation(ctx: BotContext): Promise<void> {
-    const pendingTrade = (ctx.userState as any)?.pendingTrade;
-    if (!pendingTrade) {
-      await ctx.reply('❌ No pending trade to cancel.');
+  private async handleLadderRangeText(ctx: BotContext, text: string): Promise<void> {
+    const draft = this.getPendingLadder(ctx, 'waiting_ladder_range');
+    if (!draft) return;
+
+    const range = LadderService.parseRange(text);
+    if (!range) {
+      await ctx.reply(
+        '❌ **Invalid Range**\n\nSend two different prices, e.g. `3200 3000`.',
+        { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'ladder_cancel')]]) }
+      );
       return;
     }
 
-    // Clear pending trade
-    delete (ctx.userState as any).pendingTrade;
+    const updated: LadderDraft = { ...draft, ...range };
 
-    const { mode, symbol } = pendingTrade;
-    
-    await ctx.editMessageText(
-      '❌ **Trade Cancelled**\n\n' +
-      'Your pending trade has been cancelled.\n\n' +
-      '🔄 Use the trading menu to place a new trade.',
-      { 
-        parse_mode: 'Markdown',
-        ...Markup.inlineKeyboard([
-          [Markup.button.callback('📈 Trade Again', mode === 'spot' ? 'trade_spot' : 'trade_perps')]
-        ])
+    try {
+      const ladderService = await this.getLadderService(ctx);
+
+      if (updated.purpose === 'entry' && !updated.quoteAmount && !updated.baseQuantity) {
+        await this.setLadderState(ctx, 'waiting_ladder_amount', updated);
+        await this.showLadderAmountPrompt(ctx, updated, ladderService);
+        return;
       }
-    );
+
+      await this.setLadderState(ctx, 'confirming_ladder', updated);
+      await this.showLadderPreview(ctx, updated, ladderService);
+    } catch (error) {
+      console.error('[Orchestrator] Ladder range error:', error);
+      await ctx.reply('❌ Failed to check the ladder. Please try again.');
+    }
   }
 
   /**
-   * Handle perps leverage selection (Step 1 of trading flow)
+   * Handle a quick amount button on the ladder size prompt
    */
-  private async handlePerpsLeverageSelection(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL'): Promise<void> {
-    if (!ctx.userState?.isLinked) {
-      await ctx.reply('❌ Please link your API credentials first using /link');
+  private async handleLadderAmount(ctx: BotContext, amount: number): Promise<void> {
+    const draft = this.getPendingLadder(ctx, 'waiting_ladder_amount');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This ladder has expired');
       return;
     }
 
-    try {
-      const currentPrice = await this.priceService.getCurrentPrice(symbol);
-      const sideText = side === 'BUY' ? 'Long' : 'Short';
-      const emoji = side === 'BUY' ? '🟢' : '🔴';
-      
-      const leverageText = [
-        `${emoji} **${sideText} ${symbol.replace('USDT', '')}**`,
-        `💵 **Current Price:** $${currentPrice.toFixed(6)}`,
-        '',
-        '🎯 **Step 1: Select Leverage**',
-        '',
-        '⚡ **Choose your leverage multiplier:**'
-      ].join('\n');
+    await ctx.answerCbQuery();
+    await this.applyLadderAmount(ctx, draft, amount);
+  }
 
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback('2x', `perps_leverage_${side.toLowerCase()}_${symbol}_2x`),
-          Markup.button.callback('3x', `perps_leverage_${side.toLowerCase()}_${symbol}_3x`),
-          Markup.button.callback('5x', `perps_leverage_${side.toLowerCase()}_${symbol}_5x`)
-        ],
-        [
-          Markup.button.callback('10x', `perps_leverage_${side.toLowerCase()}_${symbol}_10x`),
-          Markup.button.callback('20x', `perps_leverage_${side.toLowerCase()}_${symbol}_20x`),
-          Markup.button.callback('50x', `perps_leverage_${side.toLowerCase()}_${symbol}_50x`)
-        ],
-        [
-          Markup.button.callback('🔙 Back', 'trade_perps')
-        ]
-      ]);
+  /**
+   * Handle a typed USDT amount for a ladder
+   */
+  private async handleLadderAmountText(ctx: BotContext, text: string): Promise<void> {
+    const draft = this.getPendingLadder(ctx, 'waiting_ladder_amount');
+    if (!draft) return;
 
-      await ctx.editMessageText(leverageText, { parse_mode: 'Markdown', ...keyboard });
+    await this.applyLadderAmount(ctx, draft, parseFloat(text.trim().replace(/[$,]/g, '')));
+  }
+
+  private async applyLadderAmount(ctx: BotContext, draft: LadderDraft, amount: number): Promise<void> {
+    if (!Number.isFinite(amount) || amount <= 0 || amount > 10000) {
+      await ctx.reply(
+        '❌ **Invalid Amount**\n\nEnter a USDT amount between 0 and 10,000, e.g. `500`.',
+        { parse_mode: 'Markdown' }
+      );
+      return;
+    }
+
+    const updated: LadderDraft = { ...draft, quoteAmount: amount, baseQuantity: undefined };
+
+    try {
+      await this.setLadderState(ctx, 'confirming_ladder', updated);
+      await this.showLadderPreview(ctx, updated, await this.getLadderService(ctx));
     } catch (error) {
-      console.error('Perps leverage selection error:', error);
-      await ctx.reply(`❌ Failed to load leverage selection for ${symbol}. Please try again.`);
+      console.error('[Orchestrator] Ladder amount error:', error);
+      await ctx.reply('❌ Failed to check the ladder. Please try again.');
     }
   }
 
   /**
-   * Handle perps amount selection (Step 2 of trading flow)
+   * Change the level count, spacing, weighting or close share on the ladder preview
    */
-  private async handlePerpsAmountSelection(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL', leverage: number, marginMode: 'cross' | 'isolated'): Promise<void> {
-    try {
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
-      const FuturesAccountService = await import('../services/FuturesAccountService');
-      const futuresService = new FuturesAccountService.FuturesAccountService(apiClient);
-      
-      const account = await futuresService.getFuturesAccount();
-      const usdtAsset = account.assets.find(a => a.asset === 'USDT');
-      const availableBalance = parseFloat(usdtAsset?.availableBalance || '0');
-      
-      const currentPrice = await this.priceService.getCurrentPrice(symbol);
-      const sideText = side === 'BUY' ? 'Long' : 'Short';
-      const emoji = side === 'BUY' ? '🟢' : '🔴';
-      
-      const marginEmoji = marginMode === 'cross' ? '🌐' : '🔒';
-      const amountText = [
-        `${emoji} **${sideText} ${symbol.replace('USDT', '')} ${leverage}x**`,
-        `${marginEmoji} **Margin Mode:** ${marginMode.charAt(0).toUpperCase() + marginMode.slice(1)}`,
-        `💵 **Current Price:** $${currentPrice.toFixed(6)}`,
-        `💰 **Available Balance:** $${availableBalance.toFixed(2)} USDT`,
-        '',
-        '🎯 **Step 3: Select Position Size**',
-        '',
-        '📊 **Quick Percentage Options:**'
-      ].join('\n');
+  private async handleLadderOption(ctx: BotContext, changes: Partial<LadderDraft>): Promise<void> {
+    const draft = this.getPendingLadder(ctx, 'confirming_ladder');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This ladder has expired');
+      return;
+    }
 
-      const keyboard = Markup.inlineKeyboard([
-        [
-          Markup.button.callback(`25% ($${(availableBalance * 0.25).toFixed(2)})`, `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_25pct`),
-          Markup.button.callback(`50% ($${(availableBalance * 0.50).toFixed(2)})`, `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_50pct`)
-        ],
-        [
-          Markup.button.callback(`75% ($${(availableBalance * 0.75).toFixed(2)})`, `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_75pct`),
-          Markup.button.callback(`100% ($${availableBalance.toFixed(2)})`, `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_100pct`)
-        ],
-        [
-          Markup.button.callback('💰 Enter USDT Amount', `perps_manual_usdt_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`),
-          Markup.button.callback('🪙 Enter Token Amount', `perps_manual_token_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`)
-        ],
-        [
-          Markup.button.callback('🔙 Back to Margin Mode', `perps_margin_${side.toLowerCase()}_${symbol}_${leverage}x`)
-        ]
-      ]);
+    const updated: LadderDraft = { ...draft, ...changes };
+    await this.setLadderState(ctx, 'confirming_ladder', updated);
+    await ctx.answerCbQuery();
 
-      await ctx.editMessageText(amountText, { parse_mode: 'Markdown', ...keyboard });
+    try {
+      await this.showLadderPreview(ctx, updated, await this.getLadderService(ctx));
     } catch (error) {
-      console.error('Perps amount selection error:', error);
-      await ctx.reply(`❌ Failed to load amount selection for ${symbol}. Please try again.`);
+      // Tapping the already selected option leaves the message unchanged
+      console.warn('[Orchestrator] Could not update ladder preview:', error);
     }
   }
 
   /**
-   * Handle spot trade choice (show holdings and direct buy/sell with quantity options)
+   * Go back from the preview to the range or size step
    */
-  private async handleSpotTradeChoice(ctx: BotContext, symbol: string): Promise<void> {
-    if (!ctx.userState?.isLinked) {
-      await ctx.reply('❌ Please link your API credentials first using /link');
+  private async handleLadderEdit(ctx: BotContext, field: 'range' | 'amount'): Promise<void> {
+    const draft = this.getPendingLadder(ctx, 'confirming_ladder');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This ladder has expired');
       return;
     }
 
-    try {
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
-      const SpotAccountService = await import('../services/SpotAccountService');
-      const spotService = new SpotAccountService.SpotAccountService(apiClient);
-      
-      // Get current price and holdings
-      const currentPrice = await this.getSpotPrice(symbol);
-      const cleanSymbol = symbol.replace('USDT', '');
-      
-      // Get USDT balance for buying
-      const usdtBalance = await spotService.getUsdtBalance();
-      
-      // Get asset balance for selling
-      const assetBalance = await spotService.getAssetBalance(cleanSymbol);
-      const assetAmount = assetBalance?.total || 0;
-      const assetUsdValue = assetBalance?.usdValue || 0;
-      
-      // Build the display text
-      let tradeText = [
-        `🏪 **${cleanSymbol}/USDT**`,
-        `💵 **Price:** $${currentPrice.toFixed(6)}`,
-        ''
-      ];
+    await ctx.answerCbQuery();
 
-      // Show holdings
-      if (assetAmount > 0) {
-        tradeText.push(`💰 **Your ${cleanSymbol}:** ${assetAmount.toFixed(4)} ($${assetUsdValue.toFixed(2)})`);
-      } else {
-        tradeText.push(`💰 **Your ${cleanSymbol}:** 0`);
+    try {
+      const ladderService = await this.getLadderService(ctx);
+      if (field === 'amount') {
+        await this.setLadderState(ctx, 'waiting_ladder_amount', draft);
+        await this.showLadderAmountPrompt(ctx, draft, ladderService);
+        return;
       }
-      
-      tradeText.push(`💵 **Your USDT:** $${usdtBalance.toFixed(2)}`);
-      tradeText.push('');
-      tradeText.push('🎯 **Trading Options:**');
 
-      // Create keyboard with buy/sell options and quantities
-      const keyboard = [];
-      
-      // BUY section (if has USDT)
-      if (usdtBalance >= 1) {
-        keyboard.push([
-          Markup.button.callback('🟢 BUY', `spot_buy_${symbol}`)
-        ]);
-        
-        // Quick buy amounts
-        const buyAmounts = [10, 25, 50, 100].filter(amount => amount <= usdtBalance);
-        if (buyAmounts.length > 0) {
-          const buyRow1 = buyAmounts.slice(0, 2).map(amount => 
-            Markup.button.callback(`Buy $${amount}`, `spot_execute_buy_${symbol}_${amount}u`)
-          );
-          const buyRow2 = buyAmounts.slice(2, 4).map(amount => 
-            Markup.button.callback(`Buy $${amount}`, `spot_execute_buy_${symbol}_${amount}u`)
-          );
-          
-          if (buyRow1.length > 0) keyboard.push(buyRow1);
-          if (buyRow2.length > 0) keyboard.push(buyRow2);
-        }
-        
-        keyboard.push([
-          Markup.button.callback('💰 Custom USDT Amount', `spot_custom_amount_buy_${symbol}`)
-        ]);
-      }
+      // Keep the size so the range step goes straight back to the preview
+      await this.setLadderState(ctx, 'waiting_ladder_range', draft);
+      await ctx.editMessageText(ladderService.formatRangePrompt(draft, await ladderService.getMarkPrice(draft.symbol)), {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'ladder_cancel')]])
+      });
+    } catch (error) {
+      console.error('[Orchestrator] Ladder edit error:', error);
+      await ctx.reply('❌ Failed to update the ladder. Please try again.');
+    }
+  }
 
-      // SELL section (if has asset)
-      if (assetAmount >= 0.0001) {
-        keyboard.push([
-          Markup.button.callback('🔴 SELL', `spot_sell_${symbol}`)
-        ]);
-        
-        // Quick sell percentages
-        keyboard.push([
-          Markup.button.callback('Sell 25%', `spot_sell_${cleanSymbol}_25pct`),
-          Markup.button.callback('Sell 50%', `spot_sell_${cleanSymbol}_50pct`)
-        ]);
-        keyboard.push([
-          Markup.button.callback('Sell 75%', `spot_sell_${cleanSymbol}_75pct`),
-          Markup.button.callback('Sell 100%', `spot_sell_${cleanSymbol}_100pct`)
-        ]);
-        
-        keyboard.push([
-          Markup.button.callback('🪙 Custom Token Amount', `spot_custom_amount_sell_${symbol}`)
-        ]);
-      }
+  private async showLadderAmountPrompt(ctx: BotContext, draft: LadderDraft, ladderService: LadderService): Promise<void> {
+    const text = ladderService.formatAmountPrompt(draft);
+    const keyboard = Markup.inlineKeyboard([
+      LadderService.QUICK_AMOUNTS.map(amount => Markup.button.callback(`$${amount}`, `ladder_amount_${amount}`)),
+      [Markup.button.callback('❌ Cancel', 'ladder_cancel')]
+    ]);
 
-      // Back button
-      keyboard.push([
-        Markup.button.callback('🔙 Back to Spot Trading', 'trade_spot')
-      ]);
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(text, { parse_mode: 'Markdown', ...keyboard });
+    } else {
+      await ctx.reply(text, { parse_mode: 'Markdown', ...keyboard });
+    }
+  }
 
-      try {
-        await ctx.editMessageText(tradeText.join('\n'), {
-          parse_mode: 'Markdown',
-          ...Markup.inlineKeyboard(keyboard)
-        });
-      } catch (editError) {
-        // If edit fails (no message to edit), send new message
-        try {
-          console.warn(`[SpotTradeChoice] Edit failed for ${symbol}, sending new message:`, editError);
-          await ctx.reply(tradeText.join('\n'), {
-            parse_mode: 'Markdown',
-            ...Markup.inlineKeyboard(keyboard)
-          });
-        } catch (parseError) {
-          // Final fallback without markdown
-          console.warn(`[SpotTradeChoice] Markdown parse error for ${symbol}, sending without markdown:`, parseError);
-          const plainText = tradeText.join('\n').replace(/\*\*/g, '');
-          await ctx.reply(plainText, {
-            ...Markup.inlineKeyboard(keyboard)
-          });
-        }
-      }
-    } catch (error) {
-      console.error(`[SpotTradeChoice] Error for ${symbol}:`, error);
-      await ctx.reply(`❌ Unable to load ${symbol} trading options. Please try again.`);
+  /**
+   * Plan the ladder and show the levels with their options. Only a valid plan gets a confirm button.
+   */
+  private async showLadderPreview(ctx: BotContext, draft: LadderDraft, ladderService: LadderService, notes: string[] = []): Promise<void> {
+    const plan = await ladderService.plan(draft);
+
+    const text = plan.success
+      ? [ladderService.formatPreview(draft, plan), ...notes.map(note => `\nℹ️ ${note}`)].join('\n')
+      : `❌ **${LadderService.describe(draft)} Rejected**\n\n${plan.errors.map(error => `• ${error}`).join('\n')}\n\n` +
+        '📝 Adjust the options below or cancel.';
+
+    const marked = (selected: boolean, label: string) => `${selected ? '✅ ' : ''}${label}`;
+    const keyboard = Markup.inlineKeyboard([
+      LadderService.COUNT_OPTIONS.map(count =>
+        Markup.button.callback(marked(draft.count === count, `${count}`), `ladder_count_${count}`)
+      ),
+      (['linear', 'geometric'] as const).map(spacing =>
+        Markup.button.callback(marked(draft.spacing === spacing, spacing === 'linear' ? 'Linear' : 'Geometric'), `ladder_spacing_${spacing}`)
+      ),
+      (Object.keys(LadderService.WEIGHTING_LABELS) as LadderWeighting[]).map(weighting =>
+        Markup.button.callback(marked(draft.weighting === weighting, LadderService.WEIGHTING_LABELS[weighting]), `ladder_weight_${weighting}`)
+      ),
+      ...(draft.purpose === 'take_profit'
+        ? [LadderService.CLOSE_OPTIONS.map(percent =>
+            Markup.button.callback(marked(draft.closePercent === percent, `${percent}%`), `ladder_close_${percent}`)
+          )]
+        : []),
+      [
+        Markup.button.callback('✏️ Edit Range', 'ladder_edit_range'),
+        ...(draft.purpose === 'entry' ? [Markup.button.callback('✏️ Edit Size', 'ladder_edit_amount')] : [])
+      ],
+      ...(plan.success ? [[Markup.button.callback(`✅ Place ${draft.count} Orders`, 'ladder_confirm')]] : []),
+      [Markup.button.callback('❌ Cancel', 'ladder_cancel')]
+    ]);
+
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(text, { parse_mode: 'Markdown', ...keyboard });
+    } else {
+      await ctx.reply(text, { parse_mode: 'Markdown', ...keyboard });
     }
   }
 
   /**
-   * Handle comprehensive symbol analysis with price, holdings, and positions
+   * Confirm button on the ladder preview
    */
-  private async handleSymbolAnalysis(ctx: BotContext, symbol: string): Promise<void> {
+  private async handleLadderConfirm(ctx: BotContext): Promise<void> {
+    const draft = this.getPendingLadder(ctx, 'confirming_ladder');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This ladder has expired');
+      return;
+    }
+
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+    await this.executeLadder(ctx, draft);
+  }
+
+  private async handleLadderCancel(ctx: BotContext): Promise<void> {
+    if (this.getPendingLadder(ctx)) {
+      ctx.userState!.conversationState = undefined;
+      await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+    }
+
+    await ctx.answerCbQuery('Cancelled');
+    await ctx.editMessageText(
+      '❌ **Ladder Cancelled**\n\nNo orders were placed.',
+      {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ])
+      }
+    );
+  }
+
+  /**
+   * Re-plan a confirmed ladder against the current market and place every level - resolves true if any level is on the book
+   */
+  private async executeLadder(ctx: BotContext, draft: LadderDraft, pinVerified = false): Promise<boolean> {
+    const clientOrderId = this.deriveClientOrderId(ctx, draft.symbol, draft.nonce);
+    let releaseClaim: (() => void) | null = null;
+
     try {
       if (!ctx.userState?.isLinked) {
         await ctx.reply('❌ Please link your API credentials first using /link');
-        return;
+        return false;
       }
 
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
-      const cleanSymbol = symbol.replace('USDT', '');
+      releaseClaim = await this.claimSubmission(ctx, clientOrderId);
+      if (!releaseClaim) {
+        return false;
+      }
 
-      // Check if symbol exists in spot or futures
-      const [spotTickers, futuresTickers] = await Promise.all([
-        apiClient.getAllSpotTickers().catch(() => []),
-        apiClient.getAllFuturesTickers().catch(() => [])
-      ]);
+      // Scaled take-profits are reduce-only and never add exposure
+      const increasesRisk = draft.purpose === 'entry';
 
-      const spotData = spotTickers.find(t => t.symbol === symbol);
-      const futuresData = futuresTickers.find(t => t.symbol === symbol);
+      if (increasesRisk && !(await this.passesTradingHaltCheck(ctx))) {
+        return false;
+      }
 
-      if (!spotData && !futuresData) {
-        console.log(`[SymbolAnalysis] ${symbol} not found in any market`);
-        return; // Symbol doesn't exist, don't respond
+      if (increasesRisk && !(await this.passesDailyLossCheck(ctx))) {
+        return false;
       }
 
-      console.log(`[SymbolAnalysis] Found ${symbol} - Spot: ${!!spotData}, Futures: ${!!futuresData}`);
+      const ladderService = await this.getLadderService(ctx);
+      const plan = await ladderService.plan(draft);
+      if (!plan.success) {
+        if (ctx.callbackQuery) await ctx.answerCbQuery();
+        await ctx.reply(
+          `❌ **Ladder Not Placed**\n\n${plan.errors.map(error => `• ${error}`).join('\n')}`,
+          { parse_mode: 'Markdown' }
+        );
+        return false;
+      }
 
-      // Get current price and 24h data
-      const priceData = spotData || futuresData!;
-      const currentPrice = parseFloat(priceData.lastPrice);
-      const change24h = parseFloat(priceData.priceChangePercent);
-      const volume24h = parseFloat(priceData.quoteVolume || '0');
+      if (increasesRisk && draft.leverage && !(await this.passesLeveragePolicy(ctx, draft.symbol, draft.leverage, plan.totalNotional))) {
+        return false;
+      }
 
-      // Build analysis text
-      let analysisText = [
-        `📊 **${cleanSymbol}/USDT Analysis**`,
-        `💵 **Price:** $${currentPrice.toFixed(6)}`,
-        `📈 **24h Change:** ${change24h >= 0 ? '🟢' : '🔴'} ${change24h >= 0 ? '+' : ''}${change24h.toFixed(2)}%`,
-        `📊 **24h Volume:** $${(volume24h / 1000000).toFixed(2)}M`,
-        ''
-      ];
+      if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'ladder_order', draft }, plan.totalNotional))) {
+        return false;
+      }
 
-      const keyboard = [];
+      if (ctx.callbackQuery) await ctx.answerCbQuery(`🪜 Placing ${plan.levels.length} orders...`);
 
-      // Check spot holdings
-      if (spotData) {
-        try {
-          const SpotAccountService = await import('../services/SpotAccountService');
-          const spotService = new SpotAccountService.SpotAccountService(apiClient);
-          const assetBalance = await spotService.getAssetBalance(cleanSymbol);
-          
-          if (assetBalance && assetBalance.total > 0.0001) {
-            analysisText.push(`🏪 **Spot Holdings:** ${assetBalance.total.toFixed(4)} ${cleanSymbol} ($${(assetBalance.usdValue || 0).toFixed(2)})`);
-          } else {
-            analysisText.push(`🏪 **Spot Holdings:** 0 ${cleanSymbol}`);
-          }
-        } catch (error) {
-          console.warn('[SymbolAnalysis] Error getting spot balance:', error);
-          analysisText.push(`🏪 **Spot:** Available for trading`);
-        }
+      const processingMsg = await ctx.reply(
+        `🪜 **Placing ${LadderService.describe(draft)}**\n\n` +
+        `**Levels:** ${plan.levels.length}\n` +
+        `**Value:** ≈ $${plan.totalNotional.toFixed(2)}\n\n` +
+        `⏳ Submitting orders...`,
+        { parse_mode: 'Markdown' }
+      );
+
+      const results = await ladderService.place(draft, plan.levels, clientOrderId);
+      for (const result of results) {
+        if (!result.order) continue;
+        await this.recordOrder(ctx, {
+          market: 'perps',
+          purpose: draft.purpose === 'entry' ? 'entry' : 'tp',
+          symbol: draft.symbol,
+          side: draft.side,
+          type: 'LIMIT',
+          leverage: draft.leverage,
+          quantity: result.level.quantity
+        }, result.order);
       }
 
-      // Check futures positions
-      if (futuresData) {
-        try {
-          const FuturesAccountService = await import('../services/FuturesAccountService');
-          const futuresService = new FuturesAccountService.FuturesAccountService(apiClient);
-          const position = await futuresService.getPosition(symbol);
-          
-          if (position && position.size > 0) {
-            const pnlEmoji = position.unrealizedPnl >= 0 ? '🟢' : '🔴';
-            analysisText.push(`⚡ **Futures Position:** ${position.side} $${position.notional.toFixed(2)} ${pnlEmoji} ${position.unrealizedPnl >= 0 ? '+' : ''}$${position.unrealizedPnl.toFixed(2)}`);
-          } else {
-            analysisText.push(`⚡ **Futures Position:** None`);
-          }
-        } catch (error) {
-          console.warn('[SymbolAnalysis] Error getting futures position:', error);
-          analysisText.push(`⚡ **Futures:** Available for trading`);
+      await ctx.telegram.editMessageText(
+        ctx.chat?.id,
+        processingMsg.message_id,
+        undefined,
+        ladderService.formatPlaced(draft, results),
+        {
+          parse_mode: 'Markdown',
+          ...Markup.inlineKeyboard([
+            [
+              Markup.button.callback('📋 Open Orders', 'open_orders'),
+              Markup.button.callback('📜 Order History', `orders_page_1_${OrderHistoryService.encodeFilters({ symbol: draft.symbol })}`)
+            ],
+            [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+          ])
         }
-      }
+      );
+      return results.some(result => result.order);
+    } catch (error) {
+      console.error('[Orchestrator] Ladder execute error:', error);
+      this.eventEmitter.emitEvent({
+        type: EventTypes.ERROR_OCCURRED,
+        timestamp: new Date(),
+        userId: ctx.userState?.userId || 0,
+        telegramId: ctx.userState?.telegramId || 0,
+        correlationId: ctx.correlationId,
+        error: error as Error,
+        context: { type: 'ladder_execute', symbol: draft.symbol, side: draft.side, purpose: draft.purpose }
+      });
+      await ctx.reply('❌ Failed to place the ladder. Please try again.');
+      return false;
+    } finally {
+      releaseClaim?.();
+    }
+  }
+
+  private async getLadderService(ctx: BotContext): Promise<LadderService> {
+    const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+    return new LadderService(apiClient, await this.getLeveragePolicy(ctx));
+  }
 
-      analysisText.push('');
-      analysisText.push('🎯 **Choose Trading Mode:**');
+  private async setLadderState(
+    ctx: BotContext,
+    step: 'waiting_ladder_range' | 'waiting_ladder_amount' | 'confirming_ladder',
+    draft: LadderDraft
+  ): Promise<void> {
+    const ladder = step === 'confirming_ladder' && !draft.nonce ? { ...draft, nonce: IdempotencyService.newNonce() } : draft;
+    const conversationState = { step, data: { ladder } };
+    ctx.userState!.conversationState = conversationState;
+    await this.authMiddleware.setConversationState(ctx.userState!.telegramId, conversationState);
+  }
 
-      // Add trading buttons
-      const tradingButtons = [];
-      if (spotData) {
-        tradingButtons.push(Markup.button.callback('🏪 Spot Trading', `spot_trade_${symbol}`));
-      }
-      if (futuresData) {
-        tradingButtons.push(Markup.button.callback('⚡ Futures Trading', `perps_buy_${symbol}`));
-      }
-      
-      if (tradingButtons.length > 0) {
-        keyboard.push(tradingButtons);
-      }
+  private getPendingLadder(ctx: BotContext, step?: 'waiting_ladder_range' | 'waiting_ladder_amount' | 'confirming_ladder'): LadderDraft | undefined {
+    const state = ctx.userState?.conversationState;
+    if (!state?.data?.ladder) return undefined;
+    if (step ? state.step !== step : !state.step.includes('ladder')) return undefined;
+    return state.data.ladder;
+  }
 
-      // Quick action buttons
-      const quickActions = [];
-      if (spotData) {
-        quickActions.push(Markup.button.callback('💹 Quick Spot Buy', `spot_buy_${symbol}`));
-      }
-      if (futuresData) {
-        quickActions.push(Markup.button.callback('⚡ Quick Long', `perps_buy_${symbol}`));
-        quickActions.push(Markup.button.callback('📉 Quick Short', `perps_sell_${symbol}`));
-      }
-      
-      if (quickActions.length > 0) {
-        keyboard.push(quickActions.slice(0, 2)); // Limit to 2 per row
-        if (quickActions.length > 2) {
-          keyboard.push(quickActions.slice(2));
-        }
-      }
+  /**
+   * Start risk mode from the perps amount screen: ask for the max loss
+   */
+  private async handleRiskSizingStart(ctx: BotContext, draft: RiskSizingDraft): Promise<void> {
+    if (!ctx.userState?.isLinked) {
+      await ctx.answerCbQuery('❌ Please link your API credentials first!');
+      return;
+    }
 
-      // Send the analysis
-      await ctx.reply(analysisText.join('\n'), {
+    try {
+      const riskService = await this.getRiskSizingService(ctx);
+      const equity = await riskService.getEquity();
+
+      await this.setRiskSizingState(ctx, 'waiting_risk_loss', draft);
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(riskService.formatLossPrompt(draft, equity), {
         parse_mode: 'Markdown',
-        ...Markup.inlineKeyboard(keyboard)
+        ...Markup.inlineKeyboard([
+          RiskSizingService.LOSS_PRESETS.map(percent =>
+            Markup.button.callback(`${percent}% ($${(equity * percent / 100).toFixed(2)})`, `risk_loss_${percent}pct`)
+          ),
+          [Markup.button.callback('❌ Cancel', 'risk_cancel')]
+        ])
       });
-
     } catch (error) {
-      console.error(`[SymbolAnalysis] Error analyzing ${symbol}:`, error);
-      // Don't send error message to avoid spam, just log it
+      console.error('[Orchestrator] Risk mode start error:', error);
+      await ctx.reply('❌ Failed to load your futures account. Please try again.');
     }
   }
 
   /**
-   * Handle spot trading selection (single step for spot)
+   * Handle a max loss preset button
    */
-  private async handleSpotTradingSelection(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL'): Promise<void> {
-    if (!ctx.userState?.isLinked) {
-      await ctx.reply('❌ Please link your API credentials first using /link');
+  private async handleRiskLossPreset(ctx: BotContext, percent: number): Promise<void> {
+    const draft = this.getPendingRiskSizing(ctx, 'waiting_risk_loss');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This risk calculation has expired');
       return;
     }
 
-    const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
-    const SpotAccountService = await import('../services/SpotAccountService');
-    const spotService = new SpotAccountService.SpotAccountService(apiClient);
-    
-    let availableBalance = 0;
-    if (side === 'BUY') {
-      const usdtBalance = await spotService.getUsdtBalance();
-      availableBalance = usdtBalance;
-    } else {
-      const asset = symbol.replace('USDT', '');
-      const assetBalance = await spotService.getAssetBalance(asset);
-      if (assetBalance) {
-        availableBalance = assetBalance.usdValue || 0;
+    await ctx.answerCbQuery();
+    await this.applyRiskLoss(ctx, draft, { type: 'percent', value: percent });
+  }
+
+  /**
+   * Handle a typed max loss, e.g. 1% or $20
+   */
+  private async handleRiskLossText(ctx: BotContext, text: string): Promise<void> {
+    const draft = this.getPendingRiskSizing(ctx, 'waiting_risk_loss');
+    if (!draft) return;
+
+    const maxLoss = RiskSizingService.parseMaxLoss(text);
+    if (!maxLoss) {
+      await ctx.reply(
+        `❌ **Invalid Max Loss**\n\nEnter a share of equity up to ${RiskSizingService.MAX_LOSS_PERCENT}% or a USDT amount, e.g. \`1%\` or \`$20\`.`,
+        { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'risk_cancel')]]) }
+      );
+      return;
+    }
+
+    await this.applyRiskLoss(ctx, draft, maxLoss);
+  }
+
+  private async applyRiskLoss(ctx: BotContext, draft: RiskSizingDraft, maxLoss: NonNullable<RiskSizingDraft['maxLoss']>): Promise<void> {
+    try {
+      const updated: RiskSizingDraft = { ...draft, maxLoss };
+      const riskService = await this.getRiskSizingService(ctx);
+      const price = await riskService.getMarkPrice(updated.symbol);
+
+      await this.setRiskSizingState(ctx, 'waiting_risk_stop', updated);
+
+      const text = riskService.formatStopPrompt(updated, price);
+      const keyboard = Markup.inlineKeyboard([
+        RiskSizingService.STOP_PRESETS.map(percent => Markup.button.callback(`${percent}%`, `risk_stop_${percent}`)),
+        [Markup.button.callback('❌ Cancel', 'risk_cancel')]
+      ]);
+
+      if (ctx.callbackQuery) {
+        await ctx.editMessageText(text, { parse_mode: 'Markdown', ...keyboard });
+      } else {
+        await ctx.reply(text, { parse_mode: 'Markdown', ...keyboard });
       }
+    } catch (error) {
+      console.error('[Orchestrator] Risk loss error:', error);
+      await ctx.reply('❌ Failed to load the mark price. Please try again.');
     }
-    
-    const currentPrice = await this.getSpotPrice(symbol);
-    const sideText = side === 'BUY' ? 'Buy' : 'Sell';
-    const emoji = side === 'BUY' ? '🟢' : '🔴';
-    const balanceText = side === 'BUY' ? 'USDT Balance' : `${symbol.replace('USDT', '')} Value`;
-    
-    const spotText = [
-      `${emoji} **${sideText} ${symbol.replace('USDT', '')}**`,
-      `💵 **Current Price:** $${currentPrice.toFixed(6)}`,
-      `💰 **Available ${balanceText}:** $${availableBalance.toFixed(2)}`,
-      '',
-      '🎯 **Select Position Size:**',
-      '',
-      '📊 **Quick Percentage Options:**'
-    ].join('\n');
+  }
 
-    const keyboard = Markup.inlineKeyboard([
-      [
-        Markup.button.callback(`25% ($${(availableBalance * 0.25).toFixed(2)})`, `spot_amount_${side.toLowerCase()}_${symbol}_25pct`),
-        Markup.button.callback(`50% ($${(availableBalance * 0.50).toFixed(2)})`, `spot_amount_${side.toLowerCase()}_${symbol}_50pct`)
-      ],
-      [
-        Markup.button.callback(`75% ($${(availableBalance * 0.75).toFixed(2)})`, `spot_amount_${side.toLowerCase()}_${symbol}_75pct`),
-        Markup.button.callback(`100% ($${availableBalance.toFixed(2)})`, `spot_amount_${side.toLowerCase()}_${symbol}_100pct`)
-      ],
-      [
-        Markup.button.callback('💰 Enter USDT Amount', `spot_manual_usdt_${side.toLowerCase()}_${symbol}`),
-        Markup.button.callback('🪙 Enter Token Amount', `spot_manual_token_${side.toLowerCase()}_${symbol}`)
-      ],
-      [
-        Markup.button.callback('🔙 Back', 'trade_spot')
-      ]
-    ]);
+  /**
+   * Handle a stop distance preset button
+   */
+  private async handleRiskStopPreset(ctx: BotContext, stopPercent: number): Promise<void> {
+    const draft = this.getPendingRiskSizing(ctx, 'waiting_risk_stop');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This risk calculation has expired');
+      return;
+    }
 
-    await ctx.editMessageText(spotText, { parse_mode: 'Markdown', ...keyboard });
+    await ctx.answerCbQuery();
+    await this.applyRiskStop(ctx, draft, stopPercent);
   }
 
   /**
-   * Handle perps percentage execution
+   * Handle a typed stop distance or stop price
    */
-  private async handlePerpsPercentageExecute(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL', leverage: number, percentage: number): Promise<void> {
+  private async handleRiskStopText(ctx: BotContext, text: string): Promise<void> {
+    const draft = this.getPendingRiskSizing(ctx, 'waiting_risk_stop');
+    if (!draft) return;
+
     try {
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
-      const FuturesAccountService = await import('../services/FuturesAccountService');
-      const futuresService = new FuturesAccountService.FuturesAccountService(apiClient);
-      
-      const account = await futuresService.getFuturesAccount();
-      const usdtAsset = account.assets.find(a => a.asset === 'USDT');
-      const availableBalance = parseFloat(usdtAsset?.availableBalance || '0');
-      
-      const usdtAmount = Math.floor(availableBalance * (percentage / 100));
-      
-      if (usdtAmount < 1) {
-        await ctx.reply(`❌ Insufficient balance. You need at least $1 USDT to trade. Available: $${availableBalance.toFixed(2)}`);
+      const riskService = await this.getRiskSizingService(ctx);
+      const stopPercent = RiskSizingService.parseStop(text, await riskService.getMarkPrice(draft.symbol), draft.side);
+      if (stopPercent === null) {
+        await ctx.reply(
+          `❌ **Invalid Stop**\n\nEnter a distance like \`2%\` or a stop price ${draft.side === 'BUY' ? 'below' : 'above'} the current price.`,
+          { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'risk_cancel')]]) }
+        );
         return;
       }
-      
-      await this.handlePerpsExecuteAction(ctx, symbol, side, usdtAmount, leverage);
+
+      await this.applyRiskStop(ctx, draft, stopPercent);
     } catch (error) {
-      console.error('Perps percentage execution error:', error);
-      await ctx.reply('❌ Failed to execute percentage trade. Please try again.');
+      console.error('[Orchestrator] Risk stop error:', error);
+      await ctx.reply('❌ Failed to check the stop. Please try again.');
     }
   }
 
   /**
-   * Handle spot percentage execution
+   * Run the calculator and show the sized order, or the reasons it cannot be placed
    */
-  private async handleSpotPercentageExecute(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL', percentage: number): Promise<void> {
+  private async applyRiskStop(ctx: BotContext, draft: RiskSizingDraft, stopPercent: number): Promise<void> {
     try {
-      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
-      const SpotAccountService = await import('../services/SpotAccountService');
-      const spotService = new SpotAccountService.SpotAccountService(apiClient);
-      
-      let usdtAmount = 0;
-      if (side === 'BUY') {
-        const usdtBalance = await spotService.getUsdtBalance();
-        usdtAmount = Math.floor(usdtBalance * (percentage / 100));
+      const updated: RiskSizingDraft = { ...draft, stopPercent };
+      const riskService = await this.getRiskSizingService(ctx);
+      const result = await riskService.calculate(updated, await this.getMaxLeverage(ctx, updated.symbol));
+
+      let text: string;
+      let keyboard;
+      if (result.success) {
+        await this.setRiskSizingState(ctx, 'confirming_risk_order', updated);
+        text = riskService.formatPlan(updated, result.plan);
+        keyboard = Markup.inlineKeyboard([
+          [Markup.button.callback(
+            `✅ ${draft.side === 'BUY' ? 'Long' : 'Short'} ${result.plan.quantity} ${draft.symbol.replace('USDT', '')} at ${result.plan.leverage}x`,
+            'risk_confirm'
+          )],
+          [Markup.button.callback('❌ Cancel', 'risk_cancel')]
+        ]);
       } else {
-        const asset = symbol.replace('USDT', '');
-        const assetBalance = await spotService.getAssetBalance(asset);
-        if (assetBalance && assetBalance.usdValue) {
-          usdtAmount = Math.floor(assetBalance.usdValue * (percentage / 100));
-        }
+        // Stay on the stop step so another distance can be tried
+        text = `❌ **Cannot Size This Trade**\n\n${result.errors.map(error => `• ${error}`).join('\n')}\n\n📝 Pick or type another stop distance.`;
+        keyboard = Markup.inlineKeyboard([
+          RiskSizingService.STOP_PRESETS.map(percent => Markup.button.callback(`${percent}%`, `risk_stop_${percent}`)),
+          [Markup.button.callback('❌ Cancel', 'risk_cancel')]
+        ]);
       }
-      
-      if (usdtAmount < 1) {
-        await ctx.reply(`❌ Insufficient balance. You need at least $1 USDT equivalent to trade.`);
-        return;
+
+      if (ctx.callbackQuery) {
+        await ctx.editMessageText(text, { parse_mode: 'Markdown', ...keyboard });
+      } else {
+        await ctx.reply(text, { parse_mode: 'Markdown', ...keyboard });
       }
-      
-      await this.handleSpotExecuteAction(ctx, symbol, side, usdtAmount);
     } catch (error) {
-      console.error('Spot percentage execution error:', error);
-      await ctx.reply('❌ Failed to execute percentage trade. Please try again.');
+      console.error('[Orchestrator] Risk sizing error:', error);
+      await ctx.reply('❌ Failed to size the trade. Please try again.');
     }
   }
 
   /**
-   * Handle manual USDT input
+   * Confirm button on the risk mode summary: re-size at the current price and open the position with its stop
    */
-  private async handleManualUSDTInput(ctx: BotContext, mode: 'spot' | 'perps', symbol: string, side: 'BUY' | 'SELL', leverage?: number, marginMode?: 'cross' | 'isolated'): Promise<void> {
-    const modeText = mode === 'spot' ? 'Spot' : 'Perps';
-    const sideText = side === 'BUY' ? (mode === 'spot' ? 'Buy' : 'Long') : (mode === 'spot' ? 'Sell' : 'Short');
-    const leverageText = leverage ? ` ${leverage}x` : '';
-    
-    const inputText = [
-      `💰 **Manual USDT Amount**`,
-      `**${modeText} ${sideText}${leverageText}:** ${symbol.replace('USDT', '')}`,
-      '',
-      '✍️ **Enter your USDT amount:**',
-      '',
-      '📝 **Examples:**',
-      '• 25 (for $25 USDT)',
-      '• 100 (for $100 USDT)',
-      '• 500 (for $500 USDT)',
-      '',
-      '⏳ **Waiting for your input...**'
-    ].join('\n');
+  private async handleRiskConfirm(ctx: BotContext): Promise<void> {
+    const draft = this.getPendingRiskSizing(ctx, 'confirming_risk_order');
+    if (!draft) {
+      await ctx.answerCbQuery('❌ This risk calculation has expired');
+      return;
+    }
 
-    const marginModeText = marginMode ? `_${marginMode}` : '';
-    const keyboard = Markup.inlineKeyboard([
-      [
-        Markup.button.callback('$25', mode === 'spot' ? `spot_amount_${side.toLowerCase()}_${symbol}_25pct` : `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_25pct`),
-        Markup.button.callback('$50', mode === 'spot' ? `spot_amount_${side.toLowerCase()}_${symbol}_50pct` : `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_50pct`)
-      ],
-      [
-        Markup.button.callback('$100', mode === 'spot' ? `spot_amount_${side.toLowerCase()}_${symbol}_75pct` : `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_75pct`),
-        Markup.button.callback('$250', mode === 'spot' ? `spot_amount_${side.toLowerCase()}_${symbol}_100pct` : `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}_100pct`)
-      ],
-      [
-        Markup.button.callback('🔙 Back', mode === 'spot' ? `spot_${side.toLowerCase()}_${symbol}` : `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`)
-      ]
-    ]);
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
 
-    await ctx.editMessageText(inputText, { parse_mode: 'Markdown', ...keyboard });
+    try {
+      const riskService = await this.getRiskSizingService(ctx);
+      const result = await riskService.calculate(draft, await this.getMaxLeverage(ctx, draft.symbol));
+      if (!result.success) {
+        await ctx.answerCbQuery();
+        await ctx.reply(
+          `❌ **Order Not Placed**\n\n${result.errors.map(error => `• ${error}`).join('\n')}`,
+          { parse_mode: 'Markdown' }
+        );
+        return;
+      }
 
-    // Set conversation state
-    if (ctx.userState) {
-      (ctx.userState as any).expectingManualUSDT = { mode, symbol, side, leverage, marginMode };
+      const amount = Math.floor(result.plan.notional * 100) / 100;
+      const riskOrders = { tpValue: null, slValue: result.plan.stopPercent };
+      const executed = await this.handlePerpsExecuteAction(ctx, draft.symbol, draft.side, amount, result.plan.leverage, riskOrders);
+      if (executed) {
+        await this.placeTPSLOrders(ctx, draft.symbol, null, result.plan.stopPercent, executed);
+      }
+    } catch (error) {
+      console.error('[Orchestrator] Risk mode execute error:', error);
+      await ctx.reply('❌ Failed to place the risk-sized order. Please try again.');
     }
   }
 
-  /**
-   * Handle manual token input
-   */
-  private async handleManualTokenInput(ctx: BotContext, mode: 'spot' | 'perps', symbol: string, side: 'BUY' | 'SELL', leverage?: number, marginMode?: 'cross' | 'isolated'): Promise<void> {
-    const tokenSymbol = symbol.replace('USDT', '');
-    const modeText = mode === 'spot' ? 'Spot' : 'Perps';
-    const sideText = side === 'BUY' ? (mode === 'spot' ? 'Buy' : 'Long') : (mode === 'spot' ? 'Sell' : 'Short');
-    const leverageText = leverage ? ` ${leverage}x` : '';
-    
-    const inputText = [
-      `🪙 **Manual Token Amount**`,
-      `**${modeText} ${sideText}${leverageText}:** ${tokenSymbol}`,
-      '',
-      `✍️ **Enter your ${tokenSymbol} amount:**`,
-      '',
-      '📝 **Examples:**',
-      '• 0.001 (for 0.001 BTC)',
-      '• 1 (for 1 ETH)',
-      '• 100 (for 100 ADA)',
-      '',
-      '⏳ **Waiting for your input...**'
-    ].join('\n');
+  private async handleRiskCancel(ctx: BotContext): Promise<void> {
+    if (this.getPendingRiskSizing(ctx)) {
+      ctx.userState!.conversationState = undefined;
+      await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+    }
 
-    const keyboard = Markup.inlineKeyboard([
-      [
-        Markup.button.callback('0.001', ''),
-        Markup.button.callback('0.01', '')
-      ],
-      [
-        Markup.button.callback('0.1', ''),
-        Markup.button.callback('1', '')
-      ],
-      [
-        Markup.button.callback('🔙 Back', mode === 'spot' ? `spot_${side.toLowerCase()}_${symbol}` : `perps_amount_${side.toLowerCase()}_${symbol}_${leverage}x_${marginMode}`)
-      ]
+    await ctx.answerCbQuery('Cancelled');
+    await ctx.editMessageText(
+      '❌ **Risk Mode Cancelled**\n\nNo order was placed.',
+      {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('🏠 Main Menu', 'main_menu')]
+        ])
+      }
+    );
+  }
+
+  /**
+   * Leverage policy for the user, built from their stored cap rather than anything in the callback
+   */
+  private async getLeveragePolicy(ctx: BotContext): Promise<LeveragePolicyService> {
+    const [apiClient, userSettings] = await Promise.all([
+      this.apiClientService.getOrCreateClient(ctx.userState!.userId),
+      this.getTradingSettings(ctx)
     ]);
+    return new LeveragePolicyService(apiClient, userSettings.leverage_cap, this.config.aster.maxLeverage);
+  }
 
-    await ctx.editMessageText(inputText, { parse_mode: 'Markdown', ...keyboard });
+  private async getMaxLeverage(ctx: BotContext, symbol: string): Promise<number> {
+    const leveragePolicy = await this.getLeveragePolicy(ctx);
+    return (await leveragePolicy.getLimits(symbol)).maxLeverage;
+  }
 
-    // Set conversation state
-    if (ctx.userState) {
-      (ctx.userState as any).expectingManualToken = { mode, symbol, side, leverage, marginMode };
+  private async getTradingSettings(ctx: BotContext): Promise<UserSettings> {
+    const SettingsModule = await import('../settings');
+    const settingsManager = new SettingsModule.SettingsManager(this.db, this.encryption);
+    return settingsManager.getUserSettings(ctx.userState!.userId);
+  }
+
+  private chunkButtons<T>(buttons: T[], size: number): T[][] {
+    const rows: T[][] = [];
+    for (let i = 0; i < buttons.length; i += size) {
+      rows.push(buttons.slice(i, i + size));
     }
+    return rows;
+  }
+
+  private async getRiskSizingService(ctx: BotContext): Promise<RiskSizingService> {
+    const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+    return new RiskSizingService(apiClient);
+  }
+
+  private async setRiskSizingState(
+    ctx: BotContext,
+    step: 'waiting_risk_loss' | 'waiting_risk_stop' | 'confirming_risk_order',
+    draft: RiskSizingDraft
+  ): Promise<void> {
+    const conversationState = { step, data: { riskSizing: draft } };
+    ctx.userState!.conversationState = conversationState;
+    await this.authMiddleware.setConversationState(ctx.userState!.telegramId, conversationState);
+  }
+
+  private getPendingRiskSizing(ctx: BotContext, step?: 'waiting_risk_loss' | 'waiting_risk_stop' | 'confirming_risk_order'): RiskSizingDraft | undefined {
+    const state = ctx.userState?.conversationState;
+    if (!state?.data?.riskSizing) return undefined;
+    if (step ? state.step !== step : !state.step.includes('risk')) return undefined;
+    return state.data.riskSizing;
   }
 
   /**
-   * Handle manual USDT text input
+   * Add or reduce isolated margin: show the position's margin and ask for an amount
    */
-  private async handleManualUSDTText(ctx: BotContext, text: string): Promise<void> {
-    const state = (ctx.userState as any)?.expectingManualUSDT;
-    if (!state) return;
+  private async handleMarginAdjustStart(
+    ctx: BotContext,
+    symbol: string,
+    marginType: 'add' | 'reduce',
+    apiClient: any,
+    positionSide?: 'LONG' | 'SHORT'
+  ): Promise<void> {
+    const metrics = await this.getPositionMarginMetrics(apiClient, symbol, positionSide);
+    if (!metrics) {
+      await ctx.answerCbQuery(`❌ No open position found for ${symbol}`);
+      return;
+    }
+    if (metrics.position.marginType !== 'isolated') {
+      await ctx.answerCbQuery('Margin can only be adjusted on isolated positions');
+      return;
+    }
 
-    // Clear conversation state
-    delete (ctx.userState as any).expectingManualUSDT;
+    const limit = await this.getMarginLimit(apiClient, metrics, marginType);
+    if (limit <= 0) {
+      await ctx.answerCbQuery(marginType === 'add' ? '❌ No available balance to add' : '❌ No margin can be removed from this position');
+      return;
+    }
 
-    const { mode, symbol, side, leverage, marginMode } = state;
-    const amount = parseFloat(text.trim());
+    const presets = marginType === 'add'
+      ? MarginRiskService.ADD_MARGIN_PRESETS.filter(amount => amount <= limit)
+      : MarginRiskService.REDUCE_MARGIN_SHARES.map(share => Math.floor(limit * share) / 100).filter(amount => amount > 0);
 
-    if (isNaN(amount) || amount <= 0) {
-      await ctx.reply(
-        `❌ **Invalid Amount**\n\n` +
-        `Please enter a valid positive number for USDT amount.\n\n` +
-        `Example: 25, 100, 500`
-      );
+    await this.setMarginState(ctx, 'waiting_margin_amount', { symbol, positionSide, marginType });
+    await ctx.answerCbQuery();
+    await ctx.editMessageText(this.marginRiskService.formatMarginPrompt(metrics, marginType, limit), {
+      parse_mode: 'Markdown',
+      ...Markup.inlineKeyboard([
+        ...(presets.length > 0 ? [[...new Set(presets)].map(amount => Markup.button.callback(`$${amount}`, `margin_amt_${amount}`))] : []),
+        [Markup.button.callback('❌ Cancel', 'margin_cancel')]
+      ])
+    });
+  }
+
+  /**
+   * Handle a margin amount preset button
+   */
+  private async handleMarginAmountPreset(ctx: BotContext, amount: number): Promise<void> {
+    const pending = this.getPendingMargin(ctx, 'waiting_margin_amount');
+    if (!pending) {
+      await ctx.answerCbQuery('❌ This margin change has expired');
       return;
     }
 
-    if (amount > 10000) {
+    await ctx.answerCbQuery();
+    await this.showMarginPreview(ctx, pending, amount);
+  }
+
+  /**
+   * Handle a typed margin amount in USDT
+   */
+  private async handleMarginAmountText(ctx: BotContext, text: string): Promise<void> {
+    const pending = this.getPendingMargin(ctx, 'waiting_margin_amount');
+    if (!pending) return;
+
+    const amount = parseFloat(text.trim().replace(/[$,]/g, '').replace(/\s*(u|usdt)$/i, ''));
+    if (!Number.isFinite(amount) || amount <= 0) {
       await ctx.reply(
-        `❌ **Amount Too Large**\n\n` +
-        `Maximum amount is $10,000 USDT per trade.\n\n` +
-        `Please enter a smaller amount.`
+        '❌ **Invalid Amount**\n\nEnter the margin in USDT, e.g. `15`.',
+        { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'margin_cancel')]]) }
       );
       return;
     }
 
+    await this.showMarginPreview(ctx, pending, Math.floor(amount * 100) / 100);
+  }
+
+  /**
+   * Preview the margin ratio and liquidation price after the change, then ask for confirmation
+   */
+  private async showMarginPreview(ctx: BotContext, pending: PendingMarginAdjust, amount: number): Promise<void> {
+    const { symbol, positionSide, marginType } = pending;
     try {
-      if (mode === 'spot') {
-        if (side === 'SELL') {
-          // For spot selling, execute directly without TP/SL
-          await this.handleSpotDirectSell(ctx, symbol, amount, 'usdt');
-        } else {
-          // For spot buying, show TP/SL options
-          await this.handleSpotTPSLSelection(ctx, symbol, side, amount, 'usdt');
-        }
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const metrics = await this.getPositionMarginMetrics(apiClient, symbol, positionSide);
+      if (!metrics) {
+        ctx.userState!.conversationState = undefined;
+        await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+        await ctx.reply(`❌ No open position found for ${symbol}`);
+        return;
+      }
+
+      const limit = await this.getMarginLimit(apiClient, metrics, marginType);
+      if (amount > limit) {
+        await ctx.reply(
+          `❌ **Amount Too Large**\n\n${marginType === 'add' ? 'Available balance' : 'Max removable margin'} is $${limit.toFixed(2)}. Enter a smaller amount.`,
+          { parse_mode: 'Markdown', ...Markup.inlineKeyboard([[Markup.button.callback('❌ Cancel', 'margin_cancel')]]) }
+        );
+        return;
+      }
+
+      const preview = MarginRiskService.previewMarginChange(metrics, marginType === 'add' ? amount : -amount);
+      await this.setMarginState(ctx, 'confirming_margin', { symbol, positionSide, marginType, amount });
+
+      const text = this.marginRiskService.formatMarginPreview(metrics, marginType, amount, preview);
+      const keyboard = Markup.inlineKeyboard([
+        [Markup.button.callback(`✅ ${marginType === 'add' ? 'Add' : 'Remove'} $${amount}`, 'margin_confirm')],
+        [Markup.button.callback('❌ Cancel', 'margin_cancel')]
+      ]);
+
+      if (ctx.callbackQuery) {
+        await ctx.editMessageText(text, { parse_mode: 'Markdown', ...keyboard });
       } else {
-        await this.handlePerpsTPSLSelection(ctx, symbol, side, leverage!, marginMode!, amount, 'usdt');
+        await ctx.reply(text, { parse_mode: 'Markdown', ...keyboard });
       }
     } catch (error) {
-      console.error('Manual USDT execution error:', error);
-      await ctx.reply('❌ Failed to execute trade. Please try again.');
+      console.error('[Orchestrator] Margin preview error:', error);
+      await ctx.reply('❌ Failed to preview the margin change. Please try again.');
     }
   }
 
   /**
-   * Handle manual token text input
+   * Confirm button on the margin preview: move the margin and refresh the position
    */
-  private async handleManualTokenText(ctx: BotContext, text: string): Promise<void> {
-    const state = (ctx.userState as any)?.expectingManualToken;
-    if (!state) return;
+  private async handleMarginConfirm(ctx: BotContext): Promise<void> {
+    const pending = this.getPendingMargin(ctx, 'confirming_margin');
+    if (!pending || !pending.amount) {
+      await ctx.answerCbQuery('❌ This margin change has expired');
+      return;
+    }
 
-    // Clear conversation state
-    delete (ctx.userState as any).expectingManualToken;
+    ctx.userState!.conversationState = undefined;
+    await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
 
-    const { mode, symbol, side, leverage, marginMode } = state;
-    const tokenAmount = parseFloat(text.trim());
+    const { symbol, positionSide, marginType, amount } = pending;
+    try {
+      await ctx.answerCbQuery('⏳ Updating margin...');
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const response = await apiClient.modifyPositionMargin(symbol, amount, marginType === 'add' ? 1 : 2, positionSide);
+      if (response.code !== undefined && response.code !== 200) {
+        throw new Error(response.msg || `Exchange returned code ${response.code}`);
+      }
 
-    if (isNaN(tokenAmount) || tokenAmount <= 0) {
       await ctx.reply(
-        `❌ **Invalid Amount**\n\n` +
-        `Please enter a valid positive number for token amount.\n\n` +
-        `Example: 0.001, 1, 100`
+        `✅ **Margin ${marginType === 'add' ? 'Added' : 'Reduced'}**\n\n$${amount} ${marginType === 'add' ? 'added to' : 'removed from'} your ${symbol} position.`,
+        { parse_mode: 'Markdown' }
       );
-      return;
+      await this.showPositionManagementMenu(ctx, symbol, apiClient, positionSide);
+    } catch (error: any) {
+      console.error('[Orchestrator] Modify margin error:', error);
+      await ctx.reply(`❌ **Margin Change Failed**\n\n${error.message || 'Unknown error'}`, { parse_mode: 'Markdown' });
+
+      this.eventEmitter.emitEvent({
+        type: EventTypes.ERROR_OCCURRED,
+        timestamp: new Date(),
+        userId: ctx.userState?.userId || 0,
+        telegramId: ctx.userState?.telegramId || 0,
+        correlationId: ctx.correlationId,
+        error: error as Error,
+        context: { action: 'modify_margin', symbol, marginType, amount }
+      });
     }
+  }
 
-    try {
-      // Convert token amount to USDT
-      const currentPrice = await this.priceService.getCurrentPrice(symbol);
-      const usdtAmount = tokenAmount * currentPrice;
+  private async handleMarginCancel(ctx: BotContext): Promise<void> {
+    const pending = this.getPendingMargin(ctx);
+    if (pending) {
+      ctx.userState!.conversationState = undefined;
+      await this.authMiddleware.clearConversationState(ctx.userState!.telegramId);
+    }
 
-      if (usdtAmount > 50000) {
-        await ctx.reply(
-          `❌ **Amount Too Large**\n\n` +
-          `Token amount equivalent to $${usdtAmount.toFixed(2)} USDT is too large.\n\n` +
-          `Maximum is $50,000 USDT equivalent per trade.`
-        );
-        return;
+    await ctx.answerCbQuery('Cancelled');
+    await ctx.editMessageText(
+      '❌ **Margin Change Cancelled**\n\nYour position margin is unchanged.',
+      {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          [Markup.button.callback('📊 Back to Position', pending ? `position_manage_${BotOrchestrator.positionRef(pending.symbol, pending.positionSide)}` : 'positions')]
+        ])
       }
+    );
+  }
 
-      if (mode === 'spot') {
-        if (side === 'SELL') {
-          // For spot selling, execute directly without TP/SL
-          await this.handleSpotDirectSell(ctx, symbol, tokenAmount, 'token');
-        } else {
-          // For spot buying, show TP/SL options
-          await this.handleSpotTPSLSelection(ctx, symbol, side, tokenAmount, 'token');
-        }
-      } else {
-        await this.handlePerpsTPSLSelection(ctx, symbol, side, leverage!, marginMode!, tokenAmount, 'token');
-      }
-    } catch (error) {
-      console.error('Manual token execution error:', error);
-      await ctx.reply('❌ Failed to execute trade. Please try again.');
+  private async getPositionMarginMetrics(apiClient: any, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<PositionMarginMetrics | null> {
+    const report = await this.marginRiskService.analyze(apiClient);
+    return report.positions.find(metrics =>
+      metrics.position.symbol === symbol && (!positionSide || metrics.position.side === positionSide)
+    ) || null;
+  }
+
+  /**
+   * Most margin that can be added (free balance) or removed from the position
+   */
+  private async getMarginLimit(apiClient: any, metrics: PositionMarginMetrics, marginType: 'add' | 'reduce'): Promise<number> {
+    if (marginType === 'reduce') {
+      return MarginRiskService.maxRemovableMargin(metrics);
     }
+    const account = await apiClient.getAccountInfo();
+    return Math.floor(parseFloat(account.availableBalance) * 100) / 100;
+  }
+
+  private async setMarginState(
+    ctx: BotContext,
+    step: 'waiting_margin_amount' | 'confirming_margin',
+    marginAdjust: PendingMarginAdjust
+  ): Promise<void> {
+    const conversationState = { step, data: { marginAdjust } };
+    ctx.userState!.conversationState = conversationState;
+    await this.authMiddleware.setConversationState(ctx.userState!.telegramId, conversationState);
+  }
+
+  private getPendingMargin(
+    ctx: BotContext,
+    step?: 'waiting_margin_amount' | 'confirming_margin'
+  ): PendingMarginAdjust | undefined {
+    const state = ctx.userState?.conversationState;
+    if (!state?.data?.marginAdjust) return undefined;
+    if (step ? state.step !== step : !state.step.includes('margin')) return undefined;
+    return state.data.marginAdjust;
   }
 
   /**
@@ -4486,7 +9077,7 @@ Keys encrypted. Not your keys, not your coins.
   private async handleCustomTPSLPriceText(ctx: BotContext, text: string): Promise<void> {
     if (!ctx.userState?.conversationState?.data) return;
     
-    const { symbol, action } = ctx.userState.conversationState.data;
+    const { symbol, positionSide, action } = ctx.userState.conversationState.data;
     if (!symbol || !action) return;
     const price = parseFloat(text.trim());
     
@@ -4503,7 +9094,8 @@ Keys encrypted. Not your keys, not your coins.
       
       // Get current position to validate the price
       const positions = await apiClient.getPositionRisk();
-      const position = positions.find((p: any) => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+      const position = AsterApiClient.findPosition(positions, symbol, positionSide);
+      const ref = BotOrchestrator.positionRef(symbol, positionSide);
       
       if (!position) {
         await ctx.reply(`❌ **No Open Position**\n\n**Symbol:** ${symbol}\n\nPosition may have been closed.`);
@@ -4512,7 +9104,7 @@ Keys encrypted. Not your keys, not your coins.
       
       const positionSize = parseFloat(position.positionAmt);
       const entryPrice = parseFloat(position.entryPrice);
-      const isLong = positionSize > 0;
+      const isLong = AsterApiClient.legOf(position) === 'LONG';
       
       // Validate price direction
       if (action === 'stop_loss') {
@@ -4530,7 +9122,8 @@ Keys encrypted. Not your keys, not your coins.
         }
         
         // Execute stop loss
-        const result = await apiClient.setStopLoss(symbol, price);
+        const result = await apiClient.setStopLoss(symbol, price, undefined, positionSide);
+        await this.recordProtectiveOrder(ctx, symbol, 'sl', result);
         const riskPercent = Math.abs((price - entryPrice) / entryPrice * 100);
         
         const successText = [
@@ -4546,8 +9139,8 @@ Keys encrypted. Not your keys, not your coins.
         
         const keyboard = Markup.inlineKeyboard([
           [
-            Markup.button.callback('📊 View Position', `position_${symbol}`),
-            Markup.button.callback('🎯 Set Take Profit', `position_set_tp_${symbol}`)
+            Markup.button.callback('📊 View Position', `position_manage_${ref}`),
+            Markup.button.callback('🎯 Set Take Profit', `position_set_tp_${ref}`)
           ],
           [
             Markup.button.callback('🔙 Back to Positions', 'positions_menu')
@@ -4584,7 +9177,8 @@ Keys encrypted. Not your keys, not your coins.
         }
         
         // Execute take profit
-        const result = await apiClient.setTakeProfit(symbol, price);
+        const result = await apiClient.setTakeProfit(symbol, price, undefined, positionSide);
+        await this.recordProtectiveOrder(ctx, symbol, 'tp', result);
         const profitPercent = Math.abs((price - entryPrice) / entryPrice * 100);
         
         const successText = [
@@ -4600,8 +9194,8 @@ Keys encrypted. Not your keys, not your coins.
         
         const keyboard = Markup.inlineKeyboard([
           [
-            Markup.button.callback('📊 View Position', `position_${symbol}`),
-            Markup.button.callback('🛡️ Set Stop Loss', `position_set_sl_${symbol}`)
+            Markup.button.callback('📊 View Position', `position_manage_${ref}`),
+            Markup.button.callback('🛡️ Set Stop Loss', `position_set_sl_${ref}`)
           ],
           [
             Markup.button.callback('🔙 Back to Positions', 'positions_menu')
@@ -4789,22 +9383,27 @@ Keys encrypted. Not your keys, not your coins.
   /**
    * Execute spot asset sale
    */
-  private async executeSpotSale(ctx: BotContext, asset: string, percentage: number): Promise<void> {
+  private async executeSpotSale(
+    ctx: BotContext,
+    asset: string,
+    percentage: number,
+    guardConfirmed = false,
+    pinVerified = false,
+    resumedClientOrderId?: string
+  ): Promise<void> {
     if (!ctx.userState?.isLinked) {
       await ctx.reply('❌ Please link your API credentials first using /link');
       return;
     }
 
+    const clientOrderId = resumedClientOrderId ?? this.deriveClientOrderId(ctx, asset);
+    let releaseClaim: (() => void) | null = null;
+
     try {
-      await ctx.answerCbQuery(`🔄 Selling ${percentage}% of ${asset}...`);
-      
-      const processingMsg = await ctx.reply(
-        `🔄 **Processing Sell Order**\n\n` +
-        `**Asset:** ${asset}\n` +
-        `**Amount:** ${percentage}% of holdings\n\n` +
-        `⏳ Calculating quantity and executing...`,
-        { parse_mode: 'Markdown' }
-      );
+      releaseClaim = await this.claimSubmission(ctx, clientOrderId);
+      if (!releaseClaim) {
+        return;
+      }
 
       const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState.userId);
       const SpotAccountService = await import('../services/SpotAccountService');
@@ -4820,16 +9419,41 @@ Keys encrypted. Not your keys, not your coins.
       const sellQuantity = assetBalance.total * (percentage / 100);
       const symbol = `${asset}USDT`;
 
+      const pendingOrder: PendingMarketOrder = { kind: 'spot_sale', asset, percentage, clientOrderId };
+
+      if (!guardConfirmed && !(await this.passesPriceGuard(ctx, { market: 'spot', symbol, side: 'SELL', baseQuantity: sellQuantity }, pendingOrder))) {
+        return;
+      }
+
+      if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'market_order', order: pendingOrder }, sellQuantity * await this.getSpotPrice(symbol)))) {
+        return;
+      }
+
+      if (ctx.callbackQuery) await ctx.answerCbQuery(`🔄 Selling ${percentage}% of ${asset}...`);
+      
+      const processingMsg = await ctx.reply(
+        `🔄 **Processing Sell Order**\n\n` +
+        `**Asset:** ${asset}\n` +
+        `**Amount:** ${percentage}% of holdings\n\n` +
+        `⏳ Calculating quantity and executing...`,
+        { parse_mode: 'Markdown' }
+      );
+
       // Format quantity with precision
       const formattedQuantity = await this.formatQuantityWithPrecision(apiClient, symbol, sellQuantity);
 
+      // Cost basis must be read before the sale changes the holding
+      const averageCost = await spotService.getAverageEntryPrice(symbol);
+
       // Execute sell order
       const orderResult = await apiClient.createSpotOrder({
         symbol,
         side: 'SELL',
         type: 'MARKET',
-        quantity: formattedQuantity
+        quantity: formattedQuantity,
+        ...(clientOrderId ? { newClientOrderId: clientOrderId } : {})
       });
+      await this.recordOrder(ctx, { market: 'spot', purpose: 'sell', symbol, side: 'SELL', type: 'MARKET', quantity: formattedQuantity }, orderResult);
 
       // Calculate proceeds
       const executedQty = parseFloat(orderResult.executedQty);
@@ -4865,6 +9489,8 @@ Keys encrypted. Not your keys, not your coins.
         orderId: orderResult.orderId
       });
 
+      await this.recordSpotSalePnl(ctx, averageCost, orderResult, parseFloat(formattedQuantity));
+
     } catch (error: any) {
       console.error('Spot sell execution error:', error);
       await ctx.reply(
@@ -4875,6 +9501,8 @@ Keys encrypted. Not your keys, not your coins.
         `🔄 Please try again or contact support.`,
         { parse_mode: 'Markdown' }
       );
+    } finally {
+      releaseClaim?.();
     }
   }
 
@@ -5008,7 +9636,7 @@ Keys encrypted. Not your keys, not your coins.
   private async getSpotPrice(symbol: string): Promise<number> {
     try {
       const AsterApiClient = await import('../aster');
-      const spotClient = new AsterApiClient.AsterApiClient('https://sapi.asterdex.com', '', '');
+      const spotClient = new AsterApiClient.AsterApiClient(AsterApiClient.SPOT_BASE_URL, '', '');
       const tickers = await spotClient.getAllSpotTickers();
       const ticker = tickers.find(t => t.symbol === symbol);
       
@@ -5205,14 +9833,17 @@ Keys encrypted. Not your keys, not your coins.
         `${sideEmoji} **${side} ${symbol.replace('USDT', '')}**`,
         `Amount: ${amountDisplay}`,
         '',
-        '🎯 **Take Profit Setup** (Spot Trading)',
+        '🎯 **Take Profit & Stop Loss Setup** (Spot Trading)',
         '',
-        'For spot trading, set take profit levels to automatically sell when your target price is reached. Stop losses are handled differently in spot trading.',
+        'Take profit rests as a limit sell at your target. Stop loss sells when price drops to your limit.',
         '',
         '**🟢 Take Profit Presets:**',
         userSettings.tp_presets.map(tp => `• ${tp}% profit target`).join('\n'),
         '',
-        side === 'BUY' ? '**Note:** TP orders will sell your position at profit targets' : '**Note:** This is a direct sell order',
+        '**🔴 Stop Loss Presets:**',
+        userSettings.sl_presets.map(sl => `• ${sl}% maximum loss`).join('\n'),
+        '',
+        side === 'BUY' ? '**Note:** TP/SL orders sell the coins you buy' : '**Note:** This is a direct sell order',
         '',
         '**Choose your setup:**'
       ].join('\n');
@@ -5221,8 +9852,18 @@ Keys encrypted. Not your keys, not your coins.
         Markup.button.callback(`TP ${tp}%`, `spot_tpsl_${side.toLowerCase()}_${symbol}_${amount}_${amountType}_tp${tp}_slnone`)
       );
 
+      const slButtons = userSettings.sl_presets.slice(0, 3).map(sl => 
+        Markup.button.callback(`SL ${sl}%`, `spot_tpsl_${side.toLowerCase()}_${symbol}_${amount}_${amountType}_tpnone_sl${sl}`)
+      );
+
+      const combinedButtons = userSettings.tp_presets.slice(0, 2).map((tp, index) => {
+        const sl = userSettings.sl_presets[Math.min(index, userSettings.sl_presets.length - 1)];
+        return Markup.button.callback(`TP ${tp}% / SL ${sl}%`, `spot_tpsl_${side.toLowerCase()}_${symbol}_${amount}_${amountType}_tp${tp}_sl${sl}`);
+      });
+
       const keyboard = Markup.inlineKeyboard([
         tpButtons,
+        ...(side === 'BUY' ? [slButtons, combinedButtons] : []),
         [
           Markup.button.callback('🚀 Execute Without TP', `spot_tpsl_${side.toLowerCase()}_${symbol}_${amount}_${amountType}_tpnone_slnone`),
           Markup.button.callback('⚙️ Custom TP', `spot_custom_tpsl_${side.toLowerCase()}_${symbol}_${amount}_${amountType}`)
@@ -5242,8 +9883,24 @@ Keys encrypted. Not your keys, not your coins.
   /**
    * Handle direct spot sell without TP/SL options
    */
-  private async handleSpotDirectSell(ctx: BotContext, symbol: string, amount: number, amountType: string): Promise<void> {
+  private async handleSpotDirectSell(
+    ctx: BotContext,
+    symbol: string,
+    amount: number,
+    amountType: string,
+    guardConfirmed = false,
+    pinVerified = false,
+    resumedClientOrderId?: string
+  ): Promise<void> {
+    const clientOrderId = resumedClientOrderId ?? this.deriveClientOrderId(ctx, symbol);
+    let releaseClaim: (() => void) | null = null;
+
     try {
+      releaseClaim = await this.claimSubmission(ctx, clientOrderId);
+      if (!releaseClaim) {
+        return;
+      }
+
       const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
       const SpotAccountService = await import('../services/SpotAccountService');
       const spotService = new SpotAccountService.SpotAccountService(apiClient);
@@ -5265,6 +9922,16 @@ Keys encrypted. Not your keys, not your coins.
         finalAmount = amount / currentPrice;
       }
       // For 'token' type, finalAmount is already the token amount
+
+      const pendingOrder: PendingMarketOrder = { kind: 'spot_direct_sell', symbol, amount, amountType, clientOrderId };
+
+      if (!guardConfirmed && !(await this.passesPriceGuard(ctx, { market: 'spot', symbol, side: 'SELL', baseQuantity: finalAmount }, pendingOrder))) {
+        return;
+      }
+
+      if (!pinVerified && !(await this.passesPinCheck(ctx, { kind: 'market_order', order: pendingOrder }, finalAmount * await this.getSpotPrice(symbol)))) {
+        return;
+      }
       
       // Execute the sell order directly with correct parameters
       const processingMsg = await ctx.reply(
@@ -5277,12 +9944,16 @@ Keys encrypted. Not your keys, not your coins.
       );
 
       try {
+        const averageCost = await spotService.getAverageEntryPrice(symbol);
+
         const orderResult = await apiClient.createSpotOrder({
           symbol,
           side: 'SELL',
           type: 'MARKET',
-          quantity: finalAmount.toString() // Use quantity for selling (token amount)
+          quantity: finalAmount.toString(), // Use quantity for selling (token amount)
+          ...(clientOrderId ? { newClientOrderId: clientOrderId } : {})
         });
+        await this.recordOrder(ctx, { market: 'spot', purpose: 'sell', symbol, side: 'SELL', type: 'MARKET', quantity: finalAmount.toString() }, orderResult);
 
         // Enhanced success message
         const executedPrice = parseFloat(orderResult.avgPrice || orderResult.fills?.[0]?.price || '0');
@@ -5302,6 +9973,8 @@ Keys encrypted. Not your keys, not your coins.
           { parse_mode: 'Markdown' }
         );
 
+        await this.recordSpotSalePnl(ctx, averageCost, orderResult, finalAmount);
+
       } catch (tradeError: any) {
         console.error('[SpotDirectSell] Spot sell execution failed:', tradeError);
         
@@ -5320,6 +9993,8 @@ Keys encrypted. Not your keys, not your coins.
     } catch (error) {
       console.error('Spot direct sell error:', error);
       await ctx.reply('❌ Failed to execute sell order. Please try again.');
+    } finally {
+      releaseClaim?.();
     }
   }
 
@@ -5342,11 +10017,11 @@ Keys encrypted. Not your keys, not your coins.
       }
 
       // Execute the main trade first
-      await this.handlePerpsExecuteAction(ctx, symbol, side, finalAmount, leverage);
+      const executed = await this.handlePerpsExecuteAction(ctx, symbol, side, finalAmount, leverage, { tpValue, slValue });
 
       // If TP or SL is set, place additional orders
-      if (tpValue || slValue) {
-        await this.placeTPSLOrders(ctx, symbol, side, leverage, tpValue, slValue);
+      if (executed && (tpValue || slValue)) {
+        await this.placeTPSLOrders(ctx, symbol, tpValue, slValue, executed);
       }
 
     } catch (error) {
@@ -5380,11 +10055,11 @@ Keys encrypted. Not your keys, not your coins.
       }
 
       // Execute the main trade first
-      await this.handleSpotExecuteAction(ctx, symbol, side, finalAmount);
+      const executed = await this.handleSpotExecuteAction(ctx, symbol, side, finalAmount, { tpValue, slValue });
 
-      // If TP is set for buy orders, place TP sell order
-      if (tpValue && side === 'BUY') {
-        await this.placeSpotTPOrder(ctx, symbol, tpValue);
+      // Protect buys with TP/SL sell orders
+      if (executed && (tpValue || slValue) && side === 'BUY') {
+        await this.placeSpotExitOrders(ctx, symbol, tpValue, slValue, executed);
       }
 
     } catch (error) {
@@ -5394,65 +10069,48 @@ Keys encrypted. Not your keys, not your coins.
   }
 
   /**
-   * Place TP/SL orders for futures positions
+   * Place TP/SL for a futures entry as a linked bracket: once one leg fills the other is cancelled
    */
-  private async placeTPSLOrders(ctx: BotContext, symbol: string, side: 'BUY' | 'SELL', leverage: number, tpValue: number | null, slValue: number | null): Promise<void> {
+  private async placeTPSLOrders(ctx: BotContext, symbol: string, tpValue: number | null, slValue: number | null, entryOrder?: OrderResponse): Promise<void> {
     try {
       const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
-      
-      // Wait a moment for the main order to be filled and position to be updated
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Get current position to calculate TP/SL prices
-      const positions = await apiClient.getPositionRisk();
-      const position = positions.find((p: any) => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
-      
-      if (!position) {
-        await ctx.reply('⚠️ Position not found. TP/SL orders could not be placed. Please set them manually from positions menu.');
-        return;
-      }
+      const placement = await this.bracketService.placeBracket(
+        ctx.userState!.userId,
+        apiClient,
+        symbol,
+        { tpPercent: tpValue, slPercent: slValue },
+        entryOrder
+      );
 
-      const entryPrice = parseFloat(position.entryPrice);
-      let tpOrderResult = null;
-      let slOrderResult = null;
       const results = [];
 
-      // Place Take Profit order using dedicated API method
-      if (tpValue) {
-        const tpPrice = side === 'BUY' ? 
-          entryPrice * (1 + tpValue / 100) : 
-          entryPrice * (1 - tpValue / 100);
-        
-        try {
-          tpOrderResult = await apiClient.setTakeProfit(symbol, tpPrice);
-          const formattedPrice = await this.formatPriceWithPrecision(apiClient, symbol, tpPrice);
-          results.push(`🎯 **Take Profit:** ${tpValue}% @ $${formattedPrice} (ID: ${tpOrderResult.orderId})`);
-        } catch (tpError: any) {
-          console.error('Take profit order placement failed:', tpError);
-          results.push(`❌ **Take Profit Failed:** ${tpError.message || 'Unknown error'}`);
+      if (placement.tp) {
+        const formattedPrice = await this.formatPriceWithPrecision(apiClient, symbol, placement.tp.price);
+        if (placement.tp.order) {
+          await this.recordProtectiveOrder(ctx, symbol, 'tp', placement.tp.order);
+          results.push(`🎯 **Take Profit:** ${tpValue}% @ $${formattedPrice} (ID: ${placement.tp.order.orderId})`);
+        } else {
+          results.push(`❌ **Take Profit Failed:** ${placement.tp.error}`);
         }
       }
 
-      // Place Stop Loss order using dedicated API method
-      if (slValue) {
-        const slPrice = side === 'BUY' ? 
-          entryPrice * (1 - slValue / 100) : 
-          entryPrice * (1 + slValue / 100);
-        
-        try {
-          slOrderResult = await apiClient.setStopLoss(symbol, slPrice);
-          const formattedPrice = await this.formatPriceWithPrecision(apiClient, symbol, slPrice);
-          results.push(`🛡️ **Stop Loss:** ${slValue}% @ $${formattedPrice} (ID: ${slOrderResult.orderId})`);
-        } catch (slError: any) {
-          console.error('Stop loss order placement failed:', slError);
-          results.push(`❌ **Stop Loss Failed:** ${slError.message || 'Unknown error'}`);
+      if (placement.sl) {
+        const formattedPrice = await this.formatPriceWithPrecision(apiClient, symbol, placement.sl.price);
+        if (placement.sl.order) {
+          await this.recordProtectiveOrder(ctx, symbol, 'sl', placement.sl.order);
+          results.push(`🛡️ **Stop Loss:** ${slValue}% @ $${formattedPrice} (ID: ${placement.sl.order.orderId})`);
+        } else {
+          results.push(`❌ **Stop Loss Failed:** ${placement.sl.error}`);
         }
       }
 
       // Send comprehensive confirmation message
       let confirmText = '';
-      if (tpOrderResult || slOrderResult) {
-        confirmText = `✅ **Risk Management Orders Placed**\n\n${results.join('\n')}\n\n⚠️ *Orders are active and will execute automatically when price targets are reached.*`;
+      if (placement.bracket) {
+        const linked = placement.tp?.order && placement.sl?.order
+          ? '🔗 *TP and SL are linked: when one fills, the other is cancelled automatically.*'
+          : '⚠️ *Orders are active and will execute automatically when price targets are reached.*';
+        confirmText = `✅ **Risk Management Orders Placed**\n\n${results.join('\n')}\n\n${linked}`;
       } else {
         confirmText = `⚠️ **TP/SL Orders Failed**\n\n${results.join('\n')}\n\n💡 *You can set them manually from the positions menu.*`;
       }
@@ -5470,7 +10128,7 @@ Keys encrypted. Not your keys, not your coins.
       await ctx.reply(confirmText, { parse_mode: 'Markdown', ...keyboard });
 
       // Emit events for successful orders
-      if (tpOrderResult) {
+      if (placement.tp?.order) {
         this.eventEmitter.emitEvent({
           type: EventTypes.TRADE_EXECUTED,
           timestamp: new Date(),
@@ -5479,11 +10137,11 @@ Keys encrypted. Not your keys, not your coins.
           correlationId: ctx.correlationId,
           symbol,
           action: 'TAKE_PROFIT',
-          orderId: tpOrderResult.orderId
+          orderId: placement.tp.order.orderId
         });
       }
 
-      if (slOrderResult) {
+      if (placement.sl?.order) {
         this.eventEmitter.emitEvent({
           type: EventTypes.TRADE_EXECUTED,
           timestamp: new Date(),
@@ -5492,7 +10150,7 @@ Keys encrypted. Not your keys, not your coins.
           correlationId: ctx.correlationId,
           symbol,
           action: 'STOP_LOSS',
-          orderId: slOrderResult.orderId
+          orderId: placement.sl.order.orderId
         });
       }
 
@@ -5503,21 +10161,42 @@ Keys encrypted. Not your keys, not your coins.
   }
 
   /**
-   * Place TP order for spot positions
+   * Place TP/SL sells for a filled spot buy
    */
-  private async placeSpotTPOrder(ctx: BotContext, symbol: string, tpValue: number): Promise<void> {
+  private async placeSpotExitOrders(ctx: BotContext, symbol: string, tpValue: number | null, slValue: number | null, entryOrder: any): Promise<void> {
     try {
-      // For spot trading, we'll set up a simple limit sell order at TP price
-      await ctx.reply(`✅ **Trade executed!** Set a manual sell order at ${tpValue}% profit when ready.`, { parse_mode: 'Markdown' });
-    } catch (error) {
-      console.error('Spot TP order error:', error);
+      const apiClient = await this.apiClientService.getOrCreateClient(ctx.userState!.userId);
+      const placement = await this.spotExitService.place(ctx.userState!.userId, apiClient, symbol, entryOrder, {
+        tpPercent: tpValue,
+        slPercent: slValue
+      });
+
+      if (placement.tp?.order) {
+        await this.recordOrder(ctx, { market: 'spot', purpose: 'tp', symbol, side: 'SELL', type: 'LIMIT', quantity: placement.quantity }, placement.tp.order);
+      }
+      if (placement.sl?.order) {
+        await this.recordOrder(ctx, { market: 'spot', purpose: 'sl', symbol, side: 'SELL', type: 'STOP_LOSS_LIMIT', quantity: placement.quantity }, placement.sl.order);
+      }
+
+      const keyboard = Markup.inlineKeyboard([
+        [
+          Markup.button.callback('📋 Open Orders', 'open_orders'),
+          Markup.button.callback('📈 New Trade', 'unified_trade')
+        ]
+      ]);
+
+      await ctx.reply(this.spotExitService.formatPlacement(placement), { parse_mode: 'Markdown', ...keyboard });
+    } catch (error: any) {
+      console.error('Spot TP/SL order error:', error);
+      await ctx.reply(`⚠️ **Spot TP/SL Failed**\n\n**Error:** ${error.message || 'Unknown error'}\n\n💡 *Your buy was executed. Place a sell order manually when ready.*`, { parse_mode: 'Markdown' });
     }
   }
 
   /**
    * Handle refresh position P&L - updates the current position display
    */
-  private async handleRefreshPosition(ctx: BotContext, symbol: string): Promise<void> {
+  private async handleRefreshPosition(ctx: BotContext, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<void> {
+    const ref = BotOrchestrator.positionRef(symbol, positionSide);
     try {
       if (!ctx.userState?.isLinked) {
         await ctx.reply('❌ Please link your API credentials first using /link');
@@ -5528,7 +10207,7 @@ Keys encrypted. Not your keys, not your coins.
       
       // Get fresh position data
       const positions = await apiClient.getPositionRisk();
-      const position = positions.find((p: any) => p.symbol === symbol && parseFloat(p.positionAmt) !== 0);
+      const position = AsterApiClient.findPosition(positions, symbol, positionSide);
       
       if (!position) {
         await ctx.editMessageText('❌ No open position found for this symbol', { parse_mode: 'Markdown' });
@@ -5536,7 +10215,7 @@ Keys encrypted. Not your keys, not your coins.
       }
 
       const positionAmt = parseFloat(position.positionAmt);
-      const side = positionAmt > 0 ? 'LONG' : 'SHORT';
+      const side = AsterApiClient.legOf(position);
       const pnl = parseFloat(position.unrealizedPnl) || 0;
       const pnlEmoji = pnl >= 0 ? '🟢' : '🔴';
       const sideEmoji = side === 'LONG' ? '🟢' : '🔴';
@@ -5557,15 +10236,15 @@ Keys encrypted. Not your keys, not your coins.
 
       const keyboard = Markup.inlineKeyboard([
         [
-          Markup.button.callback('🔴 Close 25%', `position_close_25_${symbol}`),
-          Markup.button.callback('🔴 Close 50%', `position_close_50_${symbol}`)
+          Markup.button.callback('🔴 Close 25%', `position_close_25_${ref}`),
+          Markup.button.callback('🔴 Close 50%', `position_close_50_${ref}`)
         ],
         [
-          Markup.button.callback('🔴 Close 75%', `position_close_75_${symbol}`),
-          Markup.button.callback('🔴 Close All', `position_close_${symbol}`)
+          Markup.button.callback('🔴 Close 75%', `position_close_75_${ref}`),
+          Markup.button.callback('🔴 Close All', `position_close_${ref}`)
         ],
         [
-          Markup.button.callback('🔄 Refresh Again', `refresh_position_${symbol}`),
+          Markup.button.callback('🔄 Refresh Again', `refresh_position_${ref}`),
           Markup.button.callback('📊 All Positions', 'positions')
         ],
         [
@@ -5713,6 +10392,14 @@ Keys encrypted. Not your keys, not your coins.
     }
 
     this.bot.stop();
+    this.alertService.stop();
+    this.paperTradingService.stop();
+    this.trailingStopService.stop();
+    this.bracketService.stop();
+    this.spotExitService.stop();
+    this.tpLadderService.stop();
+    this.marginRiskService.stop();
+    await this.userDataStreamService.stopAll();
     await this.db.disconnect();
     
     console.log('Bot stopped gracefully');
@@ -5728,10 +10415,17 @@ Keys encrypted. Not your keys, not your coins.
         { command: 'start', description: '🚀 Start the bot and get welcome message' },
         { command: 'menu', description: '📋 Open main trading menu' },
         { command: 'trade', description: '💹 Quick access to trading interface' },
+        { command: 'buy', description: '🟢 One-line buy, e.g. /buy ETH 100u x5 sl1% tp3%' },
+        { command: 'sell', description: '🔴 One-line sell, e.g. /sell ETH 0.25 x3 reduce' },
         { command: 'portfolio', description: '💼 View your portfolio and positions' },
         { command: 'positions', description: '📊 Check your open positions' },
+        { command: 'orders', description: '📜 Order history, e.g. /orders ETH sell perps' },
+        { command: 'openorders', description: '📋 Open orders with cancel and amend' },
+        { command: 'alert', description: '🔔 Price alert, e.g. /alert BTC > 70000' },
+        { command: 'alerts', description: '🔔 List, pause and delete your price alerts' },
         { command: 'prices', description: '📈 Check current market prices' },
         { command: 'settings', description: '⚙️ Configure bot preferences and trading limits' },
+        { command: 'paper', description: '🧪 Practise with simulated funds' },
         { command: 'link', description: '🔗 Link your API credentials securely' },
         { command: 'unlink', description: '🔓 Remove your API credentials' },
         { command: 'help', description: '❓ Get help and feature overview' }
@@ -5773,6 +10467,10 @@ Keys encrypted. Not your keys, not your coins.
 /trade - Trading interface
 /balance - Account balance
 /positions - Open positions
+/orders - Order history
+/openorders - Open orders
+/alerts - Price alerts
+/paper - Paper trading
 /help - Help menu
 /invite - Generate referral codes
 /team - View referral team
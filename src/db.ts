@@ -4,7 +4,26 @@ import {
   ApiCredentials, 
   UserSettings, 
  
-  Order 
+  Order,
+  OrderHistoryFilters,
+  PriceAlert,
+  AlertStatus,
+  TrailingStop,
+  TrailingStopStatus,
+  OrderBracket,
+  BracketStatus,
+  SpotExit,
+  SpotExitStatus,
+  TpLadder,
+  TpLadderRung,
+  TpLadderRungStatus,
+  TpLadderStatus,
+  PaperAccountChanges,
+  PaperBalance,
+  PaperIncome,
+  PaperOrder,
+  PaperPosition,
+  PaperTrade
 } from './types';
 
 export class DatabaseManager {
@@ -128,6 +147,18 @@ export class DatabaseManager {
         CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
       `);
 
+      // Order history details for /orders
+      await client.query(`
+        ALTER TABLE orders
+        ADD COLUMN IF NOT EXISTS market VARCHAR(10) NOT NULL DEFAULT 'perps',
+        ADD COLUMN IF NOT EXISTS order_type VARCHAR(30),
+        ADD COLUMN IF NOT EXISTS purpose VARCHAR(10),
+        ADD COLUMN IF NOT EXISTS price DECIMAL(18,8),
+        ADD COLUMN IF NOT EXISTS filled_qty DECIMAL(18,8);
+        
+        CREATE INDEX IF NOT EXISTS idx_orders_user_symbol ON orders(user_id, symbol);
+      `);
+
       // Create daily_loss_tracking table
       await client.query(`
         CREATE TABLE IF NOT EXISTS daily_loss_tracking (
@@ -144,6 +175,23 @@ export class DatabaseManager {
         CREATE INDEX IF NOT EXISTS idx_daily_loss_user_date ON daily_loss_tracking(user_id, date);
       `);
 
+      // Notional above which orders need the user's PIN
+      await client.query(`
+        ALTER TABLE settings
+        ADD COLUMN IF NOT EXISTS pin_order_threshold DECIMAL(18,8) DEFAULT 1000;
+      `);
+
+      // Create pin_attempts table
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS pin_attempts (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE UNIQUE,
+          failed_attempts INTEGER DEFAULT 0,
+          locked_until TIMESTAMP WITH TIME ZONE,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+      `);
+
       // Create conversation_states table
       await client.query(`
         CREATE TABLE IF NOT EXISTS conversation_states (
@@ -186,6 +234,300 @@ export class DatabaseManager {
         CREATE INDEX IF NOT EXISTS idx_referrals_referral_code ON referrals(referral_code);
       `);
 
+      // Create system_state table for global flags such as the trading halt
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS system_state (
+          key VARCHAR(50) PRIMARY KEY,
+          value JSONB NOT NULL,
+          updated_by BIGINT,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+      `);
+
+      // Create admin_audit_log table
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS admin_audit_log (
+          id SERIAL PRIMARY KEY,
+          admin_tg_id BIGINT NOT NULL,
+          action VARCHAR(50) NOT NULL,
+          details JSONB,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+        
+        CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at);
+      `);
+
+      // Create alerts table
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS alerts (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          symbol VARCHAR(20) NOT NULL,
+          metric VARCHAR(20) NOT NULL,
+          direction VARCHAR(10) NOT NULL,
+          threshold DECIMAL(24,8) NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'active',
+          triggered_at TIMESTAMP WITH TIME ZONE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+        
+        CREATE INDEX IF NOT EXISTS idx_alerts_user_id ON alerts(user_id);
+        CREATE INDEX IF NOT EXISTS idx_alerts_status ON alerts(status);
+      `);
+
+      // Create watchlists table
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS watchlists (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          symbol VARCHAR(20) NOT NULL,
+          position INTEGER NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          UNIQUE(user_id, symbol)
+        );
+        
+        CREATE INDEX IF NOT EXISTS idx_watchlists_user_position ON watchlists(user_id, position);
+      `);
+
+      // Set once the user edits their watchlist, so an emptied list stays empty instead of showing the defaults
+      await client.query(`
+        ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS watchlist_customized BOOLEAN DEFAULT FALSE;
+
+        UPDATE users SET watchlist_customized = TRUE
+        WHERE NOT watchlist_customized AND id IN (SELECT user_id FROM watchlists);
+      `);
+
+      // Create trailing stops table (bot-managed trailing stops)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS trailing_stops (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          symbol VARCHAR(20) NOT NULL,
+          position_side VARCHAR(10) NOT NULL,
+          callback_rate DECIMAL(10,4) NOT NULL,
+          best_price DECIMAL(24,8) NOT NULL,
+          stop_price DECIMAL(24,8) NOT NULL,
+          stop_order_id VARCHAR(50),
+          status VARCHAR(20) NOT NULL DEFAULT 'active',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+        
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_trailing_stops_active ON trailing_stops(user_id, symbol) WHERE status = 'active';
+      `);
+
+      // Create order brackets table (linked TP/SL legs)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS order_brackets (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          symbol VARCHAR(20) NOT NULL,
+          position_side VARCHAR(10) NOT NULL,
+          tp_order_id VARCHAR(50),
+          sl_order_id VARCHAR(50),
+          status VARCHAR(20) NOT NULL DEFAULT 'active',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+        
+        CREATE INDEX IF NOT EXISTS idx_order_brackets_active ON order_brackets(user_id, symbol) WHERE status = 'active';
+      `);
+
+      // Create spot exits table (TP/SL sells for spot buys)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS spot_exits (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          symbol VARCHAR(20) NOT NULL,
+          quantity DECIMAL(24,8) NOT NULL,
+          entry_price DECIMAL(24,8) NOT NULL,
+          tp_price DECIMAL(24,8),
+          tp_order_id VARCHAR(50),
+          sl_price DECIMAL(24,8),
+          sl_mode VARCHAR(20),
+          sl_order_id VARCHAR(50),
+          status VARCHAR(20) NOT NULL DEFAULT 'active',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+        
+        CREATE INDEX IF NOT EXISTS idx_spot_exits_active ON spot_exits(user_id, symbol) WHERE status = 'active';
+      `);
+
+      // Create TP ladder tables (partial take-profits on a position)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS tp_ladders (
+          id SERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          symbol VARCHAR(20) NOT NULL,
+          position_side VARCHAR(10) NOT NULL,
+          entry_price DECIMAL(24,8) NOT NULL,
+          status VARCHAR(20) NOT NULL DEFAULT 'active',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+        
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_tp_ladders_active ON tp_ladders(user_id, symbol) WHERE status = 'active';
+
+        CREATE TABLE IF NOT EXISTS tp_ladder_rungs (
+          id SERIAL PRIMARY KEY,
+          ladder_id INTEGER REFERENCES tp_ladders(id) ON DELETE CASCADE,
+          rung_index INTEGER NOT NULL,
+          target_percent DECIMAL(10,4) NOT NULL,
+          share_percent DECIMAL(10,4) NOT NULL,
+          price DECIMAL(24,8) NOT NULL,
+          quantity DECIMAL(24,8) NOT NULL,
+          order_id VARCHAR(50),
+          status VARCHAR(20) NOT NULL DEFAULT 'open',
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+        
+        CREATE INDEX IF NOT EXISTS idx_tp_ladder_rungs_ladder ON tp_ladder_rungs(ladder_id, rung_index);
+      `);
+
+      // Margin ratio levels (in percent) that trigger a background warning
+      await client.query(`
+        ALTER TABLE settings
+        ADD COLUMN IF NOT EXISTS margin_alert_levels JSONB DEFAULT '[]';
+      `);
+
+      // Highest margin alert level already sent, per account or isolated position
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS margin_alert_states (
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          scope VARCHAR(30) NOT NULL,
+          level DECIMAL(10,4) NOT NULL,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          PRIMARY KEY (user_id, scope)
+        );
+      `);
+
+      // Paper trading: per-user toggle and a flag on order history rows
+      await client.query(`
+        ALTER TABLE users
+        ADD COLUMN IF NOT EXISTS paper_mode BOOLEAN DEFAULT FALSE;
+
+        ALTER TABLE orders
+        ADD COLUMN IF NOT EXISTS paper BOOLEAN DEFAULT FALSE;
+      `);
+
+      // Bot-managed orders belong to the paper or live account that placed them; workers
+      // only act on rows matching the user's current mode, and one of each per symbol per mode
+      await client.query(`
+        ALTER TABLE trailing_stops
+        ADD COLUMN IF NOT EXISTS paper BOOLEAN DEFAULT FALSE;
+
+        ALTER TABLE order_brackets
+        ADD COLUMN IF NOT EXISTS paper BOOLEAN DEFAULT FALSE;
+
+        ALTER TABLE spot_exits
+        ADD COLUMN IF NOT EXISTS paper BOOLEAN DEFAULT FALSE;
+
+        ALTER TABLE tp_ladders
+        ADD COLUMN IF NOT EXISTS paper BOOLEAN DEFAULT FALSE;
+
+        DROP INDEX IF EXISTS idx_trailing_stops_active;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_trailing_stops_active_mode ON trailing_stops(user_id, paper, symbol) WHERE status = 'active';
+
+        DROP INDEX IF EXISTS idx_tp_ladders_active;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_tp_ladders_active_mode ON tp_ladders(user_id, paper, symbol) WHERE status = 'active';
+      `);
+
+      // Hedge accounts can trail or ladder both legs of a symbol at once
+      await client.query(`
+        DROP INDEX IF EXISTS idx_trailing_stops_active_mode;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_trailing_stops_active_leg ON trailing_stops(user_id, paper, symbol, position_side) WHERE status = 'active';
+
+        DROP INDEX IF EXISTS idx_tp_ladders_active_mode;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_tp_ladders_active_leg ON tp_ladders(user_id, paper, symbol, position_side) WHERE status = 'active';
+      `);
+
+      // Simulated exchange state for paper trading
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS paper_balances (
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          wallet VARCHAR(10) NOT NULL,
+          asset VARCHAR(20) NOT NULL,
+          free DECIMAL(28,10) NOT NULL DEFAULT 0,
+          locked DECIMAL(28,10) NOT NULL DEFAULT 0,
+          PRIMARY KEY (user_id, wallet, asset)
+        );
+
+        CREATE TABLE IF NOT EXISTS paper_positions (
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          symbol VARCHAR(20) NOT NULL,
+          position_amt DECIMAL(28,10) NOT NULL DEFAULT 0,
+          entry_price DECIMAL(28,10) NOT NULL DEFAULT 0,
+          leverage INTEGER NOT NULL DEFAULT 20,
+          last_funding_at TIMESTAMP WITH TIME ZONE,
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          PRIMARY KEY (user_id, symbol)
+        );
+
+        CREATE TABLE IF NOT EXISTS paper_orders (
+          id BIGSERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          market VARCHAR(10) NOT NULL,
+          symbol VARCHAR(20) NOT NULL,
+          client_order_id TEXT NOT NULL,
+          side VARCHAR(10) NOT NULL,
+          type VARCHAR(30) NOT NULL,
+          orig_type VARCHAR(30) NOT NULL,
+          time_in_force VARCHAR(10),
+          price DECIMAL(28,10),
+          stop_price DECIMAL(28,10),
+          quantity DECIMAL(28,10) NOT NULL,
+          quote_quantity DECIMAL(28,10),
+          executed_qty DECIMAL(28,10) NOT NULL DEFAULT 0,
+          cum_quote DECIMAL(28,10) NOT NULL DEFAULT 0,
+          reduce_only BOOLEAN DEFAULT FALSE,
+          close_position BOOLEAN DEFAULT FALSE,
+          callback_rate DECIMAL(10,4),
+          activation_price DECIMAL(28,10),
+          best_price DECIMAL(28,10),
+          status VARCHAR(20) NOT NULL,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+          updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_paper_orders_open ON paper_orders(status) WHERE status IN ('NEW', 'PARTIALLY_FILLED');
+        CREATE INDEX IF NOT EXISTS idx_paper_orders_user ON paper_orders(user_id, symbol);
+
+        CREATE TABLE IF NOT EXISTS paper_trades (
+          id BIGSERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          market VARCHAR(10) NOT NULL,
+          symbol VARCHAR(20) NOT NULL,
+          order_id BIGINT NOT NULL,
+          side VARCHAR(10) NOT NULL,
+          price DECIMAL(28,10) NOT NULL,
+          qty DECIMAL(28,10) NOT NULL,
+          quote_qty DECIMAL(28,10) NOT NULL,
+          commission DECIMAL(28,10) NOT NULL DEFAULT 0,
+          commission_asset VARCHAR(20) NOT NULL,
+          realized_pnl DECIMAL(28,10) NOT NULL DEFAULT 0,
+          is_maker BOOLEAN DEFAULT FALSE,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_paper_trades_user ON paper_trades(user_id, market, symbol);
+
+        CREATE TABLE IF NOT EXISTS paper_income (
+          id BIGSERIAL PRIMARY KEY,
+          user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+          symbol VARCHAR(20) NOT NULL,
+          income_type VARCHAR(20) NOT NULL,
+          amount DECIMAL(28,10) NOT NULL,
+          asset VARCHAR(20) NOT NULL,
+          order_id BIGINT,
+          created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_paper_income_user ON paper_income(user_id, created_at);
+      `);
+
       await client.query('COMMIT');
       console.log('[DB] Database schema initialized successfully');
       
@@ -308,12 +650,14 @@ export class DatabaseManager {
 
   async storeOrder(order: Omit<Order, 'id' | 'created_at'>): Promise<void> {
     const query = `
-      INSERT INTO orders (user_id, client_order_id, side, symbol, size, leverage, status, tx)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      INSERT INTO orders (user_id, client_order_id, side, symbol, size, leverage, status, tx, market, order_type, purpose, price, filled_qty, paper)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
       ON CONFLICT (user_id, client_order_id)
       DO UPDATE SET
         status = EXCLUDED.status,
-        tx = EXCLUDED.tx
+        tx = EXCLUDED.tx,
+        price = COALESCE(EXCLUDED.price, orders.price),
+        filled_qty = COALESCE(EXCLUDED.filled_qty, orders.filled_qty)
     `;
     
     await this.pool.query(query, [
@@ -324,7 +668,13 @@ export class DatabaseManager {
       order.size,
       order.leverage,
       order.status,
-      order.tx
+      order.tx,
+      order.market ?? 'perps',
+      order.order_type ?? null,
+      order.purpose ?? null,
+      order.price ?? null,
+      order.filled_qty ?? null,
+      order.paper ?? false
     ]);
   }
 
@@ -334,6 +684,12 @@ export class DatabaseManager {
     return result.rows[0] || null;
   }
 
+  async updateOrderStatus(userId: number, clientOrderId: string, status: string): Promise<boolean> {
+    const query = 'UPDATE orders SET status = $3 WHERE user_id = $1 AND client_order_id = $2';
+    const result = await this.pool.query(query, [userId, clientOrderId, status]);
+    return (result.rowCount || 0) > 0;
+  }
+
   async getUserOrders(userId: number, limit = 50): Promise<Order[]> {
     const query = `
       SELECT * FROM orders 
@@ -345,6 +701,46 @@ export class DatabaseManager {
     return result.rows;
   }
 
+  async getOrderHistory(
+    userId: number, 
+    filters: OrderHistoryFilters, 
+    limit: number, 
+    offset: number
+  ): Promise<{ orders: Order[]; total: number }> {
+    const conditions = ['user_id = $1'];
+    const values: any[] = [userId];
+
+    if (filters.symbol) {
+      values.push(filters.symbol);
+      conditions.push(`symbol = $${values.length}`);
+    }
+    if (filters.side) {
+      values.push(filters.side);
+      conditions.push(`side = $${values.length}`);
+    }
+    if (filters.market) {
+      values.push(filters.market);
+      conditions.push(`market = $${values.length}`);
+    }
+    if (filters.paper !== undefined) {
+      values.push(filters.paper);
+      conditions.push(`COALESCE(paper, false) = $${values.length}`);
+    }
+
+    const where = conditions.join(' AND ');
+    const countResult = await this.pool.query(`SELECT COUNT(*) FROM orders WHERE ${where}`, values);
+
+    const query = `
+      SELECT * FROM orders 
+      WHERE ${where} 
+      ORDER BY created_at DESC 
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+    `;
+    const result = await this.pool.query(query, [...values, limit, offset]);
+
+    return { orders: result.rows, total: parseInt(countResult.rows[0].count, 10) };
+  }
+
   // ========== Daily Loss Tracking ==========
 
   async updateDailyLoss(userId: number, lossAmount: number, date?: string): Promise<void> {
@@ -386,6 +782,60 @@ export class DatabaseManager {
   }
 
 
+  // ========== PIN Attempts ==========
+
+  async getPinAttempts(userId: number): Promise<{ failed_attempts: number; locked_until: Date | null }> {
+    const query = 'SELECT failed_attempts, locked_until FROM pin_attempts WHERE user_id = $1';
+    const result = await this.pool.query(query, [userId]);
+    return result.rows[0] || { failed_attempts: 0, locked_until: null };
+  }
+
+  async recordFailedPinAttempt(
+    userId: number, 
+    maxAttempts: number, 
+    lockoutMinutes: number
+  ): Promise<{ failed_attempts: number; locked_until: Date | null }> {
+    // Counter restarts after a lockout has expired; hitting the limit locks and resets it
+    const query = `
+      INSERT INTO pin_attempts (user_id, failed_attempts)
+      VALUES ($1, 1)
+      ON CONFLICT (user_id)
+      DO UPDATE SET
+        failed_attempts = CASE
+          WHEN pin_attempts.locked_until IS NOT NULL AND pin_attempts.locked_until <= NOW() THEN 1
+          ELSE pin_attempts.failed_attempts + 1
+        END,
+        locked_until = CASE
+          WHEN pin_attempts.locked_until <= NOW() THEN NULL
+          ELSE pin_attempts.locked_until
+        END,
+        updated_at = NOW()
+      RETURNING failed_attempts, locked_until
+    `;
+    
+    const result = await this.pool.query(query, [userId]);
+    const row = result.rows[0];
+
+    if (row.failed_attempts >= maxAttempts) {
+      const lockQuery = `
+        UPDATE pin_attempts
+        SET locked_until = NOW() + ($2 || ' minutes')::INTERVAL, updated_at = NOW()
+        WHERE user_id = $1
+        RETURNING failed_attempts, locked_until
+      `;
+      const lockResult = await this.pool.query(lockQuery, [userId, lockoutMinutes]);
+      return lockResult.rows[0];
+    }
+
+    return row;
+  }
+
+  async resetPinAttempts(userId: number): Promise<void> {
+    const query = 'DELETE FROM pin_attempts WHERE user_id = $1';
+    await this.pool.query(query, [userId]);
+  }
+
+
   // ========== Conversation State Management ==========
 
   async setConversationState(
@@ -446,6 +896,766 @@ export class DatabaseManager {
     return result.rowCount || 0;
   }
 
+  // ========== Admin Controls ==========
+
+  async getSystemState<T>(key: string): Promise<T | null> {
+    const query = 'SELECT value FROM system_state WHERE key = $1';
+    const result = await this.pool.query(query, [key]);
+    return result.rows[0]?.value ?? null;
+  }
+
+  async setSystemState(key: string, value: any, updatedBy: number): Promise<void> {
+    const query = `
+      INSERT INTO system_state (key, value, updated_by, updated_at)
+      VALUES ($1, $2, $3, NOW())
+      ON CONFLICT (key)
+      DO UPDATE SET
+        value = EXCLUDED.value,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = NOW()
+    `;
+    
+    await this.pool.query(query, [key, JSON.stringify(value), updatedBy]);
+  }
+
+  async recordAdminAudit(adminTelegramId: number, action: string, details: Record<string, any>): Promise<void> {
+    const query = 'INSERT INTO admin_audit_log (admin_tg_id, action, details) VALUES ($1, $2, $3)';
+    await this.pool.query(query, [adminTelegramId, action, JSON.stringify(details)]);
+  }
+
+  async getLinkedUsers(): Promise<Array<{ user_id: number; tg_id: number; paper_mode: boolean }>> {
+    const query = `
+      SELECT u.id AS user_id, u.tg_id, COALESCE(u.paper_mode, false) AS paper_mode 
+      FROM users u 
+      JOIN api_credentials c ON c.user_id = u.id 
+      ORDER BY u.id
+    `;
+    const result = await this.pool.query(query);
+    return result.rows.map(row => ({ user_id: row.user_id, tg_id: Number(row.tg_id), paper_mode: row.paper_mode }));
+  }
+
+  // ========== Price Alerts ==========
+
+  async createAlert(alert: Pick<PriceAlert, 'user_id' | 'symbol' | 'metric' | 'direction' | 'threshold'>): Promise<PriceAlert> {
+    const query = `
+      INSERT INTO alerts (user_id, symbol, metric, direction, threshold)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+    
+    const result = await this.pool.query(query, [alert.user_id, alert.symbol, alert.metric, alert.direction, alert.threshold]);
+    return result.rows[0];
+  }
+
+  async getUserAlerts(userId: number): Promise<PriceAlert[]> {
+    const query = 'SELECT * FROM alerts WHERE user_id = $1 ORDER BY created_at';
+    const result = await this.pool.query(query, [userId]);
+    return result.rows;
+  }
+
+  async countUserAlerts(userId: number): Promise<number> {
+    const query = 'SELECT COUNT(*) FROM alerts WHERE user_id = $1';
+    const result = await this.pool.query(query, [userId]);
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  async getActiveAlerts(): Promise<Array<PriceAlert & { tg_id: number }>> {
+    const query = `
+      SELECT a.*, u.tg_id 
+      FROM alerts a 
+      JOIN users u ON u.id = a.user_id 
+      WHERE a.status = 'active'
+    `;
+    const result = await this.pool.query(query);
+    return result.rows.map(row => ({ ...row, tg_id: Number(row.tg_id) }));
+  }
+
+  async setAlertStatus(userId: number, alertId: number, status: AlertStatus): Promise<boolean> {
+    const query = `
+      UPDATE alerts 
+      SET status = $3, triggered_at = CASE WHEN $3 = 'active' THEN NULL ELSE triggered_at END 
+      WHERE id = $1 AND user_id = $2
+    `;
+    const result = await this.pool.query(query, [alertId, userId, status]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Atomically move an active alert to triggered. Only one caller wins, which
+   * keeps delivery to a single notification per crossing.
+   */
+  async markAlertTriggered(alertId: number): Promise<boolean> {
+    const query = `
+      UPDATE alerts 
+      SET status = 'triggered', triggered_at = NOW() 
+      WHERE id = $1 AND status = 'active'
+    `;
+    const result = await this.pool.query(query, [alertId]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async deleteAlert(userId: number, alertId: number): Promise<boolean> {
+    const query = 'DELETE FROM alerts WHERE id = $1 AND user_id = $2';
+    const result = await this.pool.query(query, [alertId, userId]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ========== Watchlists ==========
+
+  /**
+   * Stored watchlist symbols in order, and whether the user has ever edited the list
+   */
+  async getWatchlist(userId: number): Promise<{ symbols: string[]; customized: boolean }> {
+    const query = `
+      SELECT u.watchlist_customized, w.symbol
+      FROM users u
+      LEFT JOIN watchlists w ON w.user_id = u.id
+      WHERE u.id = $1
+      ORDER BY w.position, w.id
+    `;
+    const result = await this.pool.query(query, [userId]);
+    return {
+      symbols: result.rows.filter(row => row.symbol !== null).map(row => row.symbol),
+      customized: result.rows[0]?.watchlist_customized === true
+    };
+  }
+
+  /**
+   * Replace a user's watchlist with the given symbols, in order, marking it as customized
+   */
+  async replaceWatchlist(userId: number, symbols: string[]): Promise<void> {
+    const client = await this.pool.connect();
+    
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM watchlists WHERE user_id = $1', [userId]);
+      await client.query('UPDATE users SET watchlist_customized = TRUE WHERE id = $1', [userId]);
+      
+      for (let position = 0; position < symbols.length; position++) {
+        await client.query(
+          'INSERT INTO watchlists (user_id, symbol, position) VALUES ($1, $2, $3)',
+          [userId, symbols[position], position]
+        );
+      }
+      
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ========== Trailing Stops ==========
+
+  /**
+   * Start a bot-managed trailing stop, replacing any active one for the same leg of the symbol in the same mode
+   */
+  async createTrailingStop(stop: Pick<TrailingStop, 'user_id' | 'symbol' | 'position_side' | 'callback_rate' | 'best_price' | 'stop_price' | 'stop_order_id' | 'paper'>): Promise<TrailingStop> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE trailing_stops SET status = 'cancelled', updated_at = NOW() 
+         WHERE user_id = $1 AND symbol = $2 AND paper = $3 AND position_side = $4 AND status = 'active'`,
+        [stop.user_id, stop.symbol, stop.paper, stop.position_side]
+      );
+      const result = await client.query(
+        `INSERT INTO trailing_stops (user_id, symbol, position_side, callback_rate, best_price, stop_price, stop_order_id, paper)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [stop.user_id, stop.symbol, stop.position_side, stop.callback_rate, stop.best_price, stop.stop_price, stop.stop_order_id, stop.paper]
+      );
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getActiveTrailingStops(): Promise<Array<TrailingStop & { tg_id: number }>> {
+    const query = `
+      SELECT t.*, u.tg_id 
+      FROM trailing_stops t 
+      JOIN users u ON u.id = t.user_id 
+      WHERE t.status = 'active' AND t.paper = COALESCE(u.paper_mode, false)
+    `;
+    const result = await this.pool.query(query);
+    return result.rows.map(row => ({ ...row, tg_id: Number(row.tg_id) }));
+  }
+
+  /**
+   * Active trailing stop on a symbol, on the given leg or the newest on any leg
+   */
+  async getActiveTrailingStop(userId: number, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<TrailingStop | null> {
+    const query = `
+      SELECT * FROM trailing_stops 
+      WHERE user_id = $1 AND symbol = $2 AND status = 'active' 
+        AND paper = (SELECT COALESCE(paper_mode, false) FROM users WHERE id = $1)
+        ${positionSide ? 'AND position_side = $3' : ''}
+      ORDER BY created_at DESC 
+      LIMIT 1
+    `;
+    const result = await this.pool.query(query, positionSide ? [userId, symbol, positionSide] : [userId, symbol]);
+    return result.rows[0] || null;
+  }
+
+  async updateTrailingStop(id: number, bestPrice: string, stopPrice: string, stopOrderId: string | null): Promise<void> {
+    const query = `
+      UPDATE trailing_stops 
+      SET best_price = $2, stop_price = $3, stop_order_id = $4, updated_at = NOW() 
+      WHERE id = $1
+    `;
+    await this.pool.query(query, [id, bestPrice, stopPrice, stopOrderId]);
+  }
+
+  async setTrailingStopStatus(id: number, status: TrailingStopStatus): Promise<void> {
+    const query = 'UPDATE trailing_stops SET status = $2, updated_at = NOW() WHERE id = $1';
+    await this.pool.query(query, [id, status]);
+  }
+
+  // ========== Order Brackets ==========
+
+  async createBracket(bracket: Pick<OrderBracket, 'user_id' | 'symbol' | 'position_side' | 'tp_order_id' | 'sl_order_id' | 'paper'>): Promise<OrderBracket> {
+    const query = `
+      INSERT INTO order_brackets (user_id, symbol, position_side, tp_order_id, sl_order_id, paper)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `;
+    const result = await this.pool.query(query, [
+      bracket.user_id, bracket.symbol, bracket.position_side, bracket.tp_order_id, bracket.sl_order_id, bracket.paper
+    ]);
+    return result.rows[0];
+  }
+
+  async getActiveBrackets(): Promise<Array<OrderBracket & { tg_id: number }>> {
+    const query = `
+      SELECT b.*, u.tg_id 
+      FROM order_brackets b 
+      JOIN users u ON u.id = b.user_id 
+      WHERE b.status = 'active' AND b.paper = COALESCE(u.paper_mode, false)
+    `;
+    const result = await this.pool.query(query);
+    return result.rows.map(row => ({ ...row, tg_id: Number(row.tg_id) }));
+  }
+
+  /**
+   * Active brackets in the given mode, or in the user's current mode when none is given
+   */
+  async getUserActiveBrackets(userId: number, symbol?: string, paper?: boolean): Promise<OrderBracket[]> {
+    const params: any[] = [userId, paper ?? null];
+    const query = `
+      SELECT * FROM order_brackets 
+      WHERE user_id = $1 AND status = 'active' 
+        AND paper = COALESCE($2::boolean, (SELECT COALESCE(paper_mode, false) FROM users WHERE id = $1))
+        ${symbol ? 'AND symbol = $3' : ''}
+    `;
+    const result = await this.pool.query(query, symbol ? [...params, symbol] : params);
+    return result.rows;
+  }
+
+  /**
+   * Close an active bracket. Only the caller that flips the status gets true,
+   * so the stream handler and the sweep never cancel the sibling twice.
+   */
+  /**
+   * Close an active bracket. Given its legs, only if they are still the ones linked, so an
+   * amend that relinked a leg in the meantime keeps the bracket.
+   */
+  async closeBracket(id: number, status: Exclude<BracketStatus, 'active'>, legs?: Pick<OrderBracket, 'tp_order_id' | 'sl_order_id'>): Promise<boolean> {
+    const query = `
+      UPDATE order_brackets SET status = $2, updated_at = NOW() 
+      WHERE id = $1 AND status = 'active'
+        ${legs ? 'AND tp_order_id IS NOT DISTINCT FROM $3 AND sl_order_id IS NOT DISTINCT FROM $4' : ''}
+    `;
+    const result = await this.pool.query(query, legs ? [id, status, legs.tp_order_id, legs.sl_order_id] : [id, status]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ========== Spot Exits ==========
+
+  async createSpotExit(exit: Pick<SpotExit, 'user_id' | 'symbol' | 'quantity' | 'entry_price' | 'tp_price' | 'tp_order_id' | 'sl_price' | 'sl_mode' | 'sl_order_id' | 'paper'>): Promise<SpotExit> {
+    const query = `
+      INSERT INTO spot_exits (user_id, symbol, quantity, entry_price, tp_price, tp_order_id, sl_price, sl_mode, sl_order_id, paper)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `;
+    const result = await this.pool.query(query, [
+      exit.user_id, exit.symbol, exit.quantity, exit.entry_price,
+      exit.tp_price, exit.tp_order_id, exit.sl_price, exit.sl_mode, exit.sl_order_id, exit.paper
+    ]);
+    return result.rows[0];
+  }
+
+  async getActiveSpotExits(): Promise<Array<SpotExit & { tg_id: number }>> {
+    const query = `
+      SELECT e.*, u.tg_id 
+      FROM spot_exits e 
+      JOIN users u ON u.id = e.user_id 
+      WHERE e.status = 'active' AND e.paper = COALESCE(u.paper_mode, false)
+    `;
+    const result = await this.pool.query(query);
+    return result.rows.map(row => ({ ...row, tg_id: Number(row.tg_id) }));
+  }
+
+  async getUserActiveSpotExits(userId: number): Promise<SpotExit[]> {
+    const query = `
+      SELECT * FROM spot_exits 
+      WHERE user_id = $1 AND status = 'active' 
+        AND paper = (SELECT COALESCE(paper_mode, false) FROM users WHERE id = $1)
+      ORDER BY created_at
+    `;
+    const result = await this.pool.query(query, [userId]);
+    return result.rows;
+  }
+
+  /**
+   * Drop one leg of a spot exit after it was cancelled on the exchange or by the user
+   */
+  async clearSpotExitLeg(id: number, leg: 'tp' | 'sl'): Promise<void> {
+    const query = leg === 'tp'
+      ? 'UPDATE spot_exits SET tp_price = NULL, tp_order_id = NULL, updated_at = NOW() WHERE id = $1'
+      : 'UPDATE spot_exits SET sl_price = NULL, sl_mode = NULL, sl_order_id = NULL, updated_at = NOW() WHERE id = $1';
+    await this.pool.query(query, [id]);
+  }
+
+  /**
+   * Close an active spot exit. Only the caller that flips the status gets true.
+   */
+  async closeSpotExit(id: number, status: Exclude<SpotExitStatus, 'active'>): Promise<boolean> {
+    const query = `
+      UPDATE spot_exits SET status = $2, updated_at = NOW() 
+      WHERE id = $1 AND status = 'active'
+    `;
+    const result = await this.pool.query(query, [id, status]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ========== TP Ladders ==========
+
+  /**
+   * Store a ladder and its placed rungs, cancelling any active ladder on the same leg of the symbol in the same mode
+   */
+  async createTpLadder(
+    ladder: Pick<TpLadder, 'user_id' | 'symbol' | 'position_side' | 'entry_price' | 'paper'>,
+    rungs: Array<Pick<TpLadderRung, 'rung_index' | 'target_percent' | 'share_percent' | 'price' | 'quantity' | 'order_id'>>
+  ): Promise<{ ladder: TpLadder; rungs: TpLadderRung[] }> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `UPDATE tp_ladders SET status = 'cancelled', updated_at = NOW() 
+         WHERE user_id = $1 AND symbol = $2 AND paper = $3 AND position_side = $4 AND status = 'active'`,
+        [ladder.user_id, ladder.symbol, ladder.paper, ladder.position_side]
+      );
+      const ladderResult = await client.query(
+        `INSERT INTO tp_ladders (user_id, symbol, position_side, entry_price, paper)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [ladder.user_id, ladder.symbol, ladder.position_side, ladder.entry_price, ladder.paper]
+      );
+      const created: TpLadder = ladderResult.rows[0];
+
+      const createdRungs: TpLadderRung[] = [];
+      for (const rung of rungs) {
+        const rungResult = await client.query(
+          `INSERT INTO tp_ladder_rungs (ladder_id, rung_index, target_percent, share_percent, price, quantity, order_id)
+           VALUES ($1, $2, $3, $4, $5, $6, $7)
+           RETURNING *`,
+          [created.id, rung.rung_index, rung.target_percent, rung.share_percent, rung.price, rung.quantity, rung.order_id]
+        );
+        createdRungs.push(rungResult.rows[0]);
+      }
+
+      await client.query('COMMIT');
+      return { ladder: created, rungs: createdRungs };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getActiveTpLadders(): Promise<Array<TpLadder & { tg_id: number }>> {
+    const query = `
+      SELECT l.*, u.tg_id 
+      FROM tp_ladders l 
+      JOIN users u ON u.id = l.user_id 
+      WHERE l.status = 'active' AND l.paper = COALESCE(u.paper_mode, false)
+    `;
+    const result = await this.pool.query(query);
+    return result.rows.map(row => ({ ...row, tg_id: Number(row.tg_id) }));
+  }
+
+  /**
+   * Active TP ladder on a symbol, on the given leg or the newest on any leg
+   */
+  async getActiveTpLadder(userId: number, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<TpLadder | null> {
+    const query = `
+      SELECT * FROM tp_ladders 
+      WHERE user_id = $1 AND symbol = $2 AND status = 'active' 
+        AND paper = (SELECT COALESCE(paper_mode, false) FROM users WHERE id = $1)
+        ${positionSide ? 'AND position_side = $3' : ''}
+      ORDER BY created_at DESC 
+      LIMIT 1
+    `;
+    const result = await this.pool.query(query, positionSide ? [userId, symbol, positionSide] : [userId, symbol]);
+    return result.rows[0] || null;
+  }
+
+  async getTpLadderRungs(ladderId: number): Promise<TpLadderRung[]> {
+    const query = `SELECT * FROM tp_ladder_rungs WHERE ladder_id = $1 ORDER BY rung_index`;
+    const result = await this.pool.query(query, [ladderId]);
+    return result.rows;
+  }
+
+  async updateTpLadderRung(id: number, quantity: string, orderId: string): Promise<void> {
+    const query = `
+      UPDATE tp_ladder_rungs SET quantity = $2, order_id = $3, updated_at = NOW() 
+      WHERE id = $1
+    `;
+    await this.pool.query(query, [id, quantity, orderId]);
+  }
+
+  async setTpLadderRungStatus(id: number, status: Exclude<TpLadderRungStatus, 'open'>): Promise<boolean> {
+    const query = `
+      UPDATE tp_ladder_rungs SET status = $2, updated_at = NOW() 
+      WHERE id = $1 AND status = 'open'
+    `;
+    const result = await this.pool.query(query, [id, status]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  async closeTpLadder(id: number, status: Exclude<TpLadderStatus, 'active'>): Promise<boolean> {
+    const query = `
+      UPDATE tp_ladders SET status = $2, updated_at = NOW() 
+      WHERE id = $1 AND status = 'active'
+    `;
+    const result = await this.pool.query(query, [id, status]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  // ========== Amended Orders ==========
+
+  /**
+   * Point the bracket, spot exit, TP ladder rung or trailing stop that tracked an order at the
+   * order that replaced it in an amend, so the sweeps don't take the amend for a manual cancel.
+   * Resolves the number of rows updated.
+   */
+  async relinkAmendedOrder(
+    userId: number,
+    market: 'spot' | 'perps',
+    symbol: string,
+    previousOrderId: string,
+    orderId: string,
+    price: string
+  ): Promise<number> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const ids = [userId, symbol, previousOrderId, orderId];
+      const updates: Array<[string, unknown[]]> = market === 'spot'
+        ? [
+          [`UPDATE spot_exits SET
+             tp_price = CASE WHEN tp_order_id = $3 THEN $5 ELSE tp_price END,
+             tp_order_id = CASE WHEN tp_order_id = $3 THEN $4 ELSE tp_order_id END,
+             sl_order_id = CASE WHEN sl_order_id = $3 THEN $4 ELSE sl_order_id END,
+             updated_at = NOW()
+           WHERE user_id = $1 AND symbol = $2 AND status = 'active' AND $3 IN (tp_order_id, sl_order_id)`, [...ids, price]]
+        ]
+        : [
+          [`UPDATE order_brackets SET
+             tp_order_id = CASE WHEN tp_order_id = $3 THEN $4 ELSE tp_order_id END,
+             sl_order_id = CASE WHEN sl_order_id = $3 THEN $4 ELSE sl_order_id END,
+             updated_at = NOW()
+           WHERE user_id = $1 AND symbol = $2 AND status = 'active' AND $3 IN (tp_order_id, sl_order_id)`, ids],
+          [`UPDATE tp_ladder_rungs r SET order_id = $4, price = $5, updated_at = NOW()
+           FROM tp_ladders l
+           WHERE r.ladder_id = l.id AND l.user_id = $1 AND l.symbol = $2 AND l.status = 'active'
+             AND r.status = 'open' AND r.order_id = $3`, [...ids, price]],
+          [`UPDATE trailing_stops SET stop_order_id = $4, stop_price = $5, updated_at = NOW()
+           WHERE user_id = $1 AND symbol = $2 AND status = 'active' AND stop_order_id = $3`, [...ids, price]]
+        ];
+
+      let updated = 0;
+      for (const [query, params] of updates) {
+        updated += (await client.query(query, params)).rowCount || 0;
+      }
+
+      await client.query('COMMIT');
+      return updated;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // ========== Margin Alerts ==========
+
+  async getMarginAlertSubscribers(): Promise<Array<{ user_id: number; tg_id: number; margin_alert_levels: number[] }>> {
+    const query = `
+      SELECT u.id AS user_id, u.tg_id, s.margin_alert_levels 
+      FROM settings s 
+      JOIN users u ON u.id = s.user_id 
+      WHERE jsonb_array_length(COALESCE(s.margin_alert_levels, '[]'::jsonb)) > 0
+        AND (u.paper_mode OR EXISTS (SELECT 1 FROM api_credentials c WHERE c.user_id = u.id))
+    `;
+    const result = await this.pool.query(query);
+    return result.rows.map(row => ({ ...row, tg_id: Number(row.tg_id) }));
+  }
+
+  async getMarginAlertStates(userId: number): Promise<Map<string, number>> {
+    const query = 'SELECT scope, level FROM margin_alert_states WHERE user_id = $1';
+    const result = await this.pool.query(query, [userId]);
+    return new Map(result.rows.map(row => [row.scope, parseFloat(row.level)]));
+  }
+
+  async setMarginAlertState(userId: number, scope: string, level: number): Promise<void> {
+    const query = `
+      INSERT INTO margin_alert_states (user_id, scope, level)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id, scope)
+      DO UPDATE SET level = EXCLUDED.level, updated_at = NOW()
+    `;
+    await this.pool.query(query, [userId, scope, level]);
+  }
+
+  async clearMarginAlertState(userId: number, scope: string): Promise<void> {
+    const query = 'DELETE FROM margin_alert_states WHERE user_id = $1 AND scope = $2';
+    await this.pool.query(query, [userId, scope]);
+  }
+
+  // ========== Paper Trading ==========
+
+  async setPaperMode(userId: number, enabled: boolean): Promise<void> {
+    await this.pool.query('UPDATE users SET paper_mode = $2 WHERE id = $1', [userId, enabled]);
+  }
+
+  async isPaperMode(userId: number): Promise<boolean> {
+    const result = await this.pool.query('SELECT paper_mode FROM users WHERE id = $1', [userId]);
+    return result.rows[0]?.paper_mode === true;
+  }
+
+  /**
+   * Balances, positions and working orders the simulator needs for one user
+   */
+  async getPaperAccount(userId: number): Promise<{ balances: PaperBalance[]; positions: PaperPosition[]; openOrders: PaperOrder[] }> {
+    const [balances, positions, openOrders] = await Promise.all([
+      this.pool.query('SELECT * FROM paper_balances WHERE user_id = $1 ORDER BY wallet, asset', [userId]),
+      this.pool.query('SELECT * FROM paper_positions WHERE user_id = $1 ORDER BY symbol', [userId]),
+      this.pool.query(
+        `SELECT * FROM paper_orders WHERE user_id = $1 AND status IN ('NEW', 'PARTIALLY_FILLED') ORDER BY id`,
+        [userId]
+      )
+    ]);
+    return {
+      balances: balances.rows,
+      positions: positions.rows,
+      openOrders: openOrders.rows.map(row => ({ ...row, id: Number(row.id) }))
+    };
+  }
+
+  async getPaperOrder(userId: number, symbol: string, orderId?: number, clientOrderId?: string): Promise<PaperOrder | null> {
+    const query = `
+      SELECT * FROM paper_orders 
+      WHERE user_id = $1 AND symbol = $2 AND (id = $3 OR client_order_id = $4)
+      ORDER BY id DESC 
+      LIMIT 1
+    `;
+    const result = await this.pool.query(query, [userId, symbol, orderId ?? null, clientOrderId ?? null]);
+    return result.rows[0] ? { ...result.rows[0], id: Number(result.rows[0].id) } : null;
+  }
+
+  /**
+   * Users with working paper orders or open paper positions, for the simulator sweep
+   */
+  async getActivePaperUsers(): Promise<Array<{ user_id: number; tg_id: number }>> {
+    const query = `
+      SELECT u.id AS user_id, u.tg_id 
+      FROM users u 
+      WHERE EXISTS (SELECT 1 FROM paper_orders o WHERE o.user_id = u.id AND o.status IN ('NEW', 'PARTIALLY_FILLED'))
+         OR EXISTS (SELECT 1 FROM paper_positions p WHERE p.user_id = u.id AND p.position_amt <> 0)
+    `;
+    const result = await this.pool.query(query);
+    return result.rows.map(row => ({ user_id: row.user_id, tg_id: Number(row.tg_id) }));
+  }
+
+  async getPaperTrades(userId: number, market: PaperTrade['market'], symbol: string, limit: number): Promise<PaperTrade[]> {
+    const query = `
+      SELECT * FROM paper_trades 
+      WHERE user_id = $1 AND market = $2 AND symbol = $3 
+      ORDER BY id DESC 
+      LIMIT $4
+    `;
+    const result = await this.pool.query(query, [userId, market, symbol, limit]);
+    return result.rows.reverse().map(row => ({ ...row, id: Number(row.id), order_id: Number(row.order_id) }));
+  }
+
+  async getPaperIncome(
+    userId: number,
+    filters: { symbol?: string; incomeType?: string; startTime?: number; endTime?: number },
+    limit: number
+  ): Promise<PaperIncome[]> {
+    const conditions = ['user_id = $1'];
+    const values: any[] = [userId];
+
+    if (filters.symbol) {
+      values.push(filters.symbol);
+      conditions.push(`symbol = $${values.length}`);
+    }
+    if (filters.incomeType) {
+      values.push(filters.incomeType);
+      conditions.push(`income_type = $${values.length}`);
+    }
+    if (filters.startTime) {
+      values.push(new Date(filters.startTime));
+      conditions.push(`created_at >= $${values.length}`);
+    }
+    if (filters.endTime) {
+      values.push(new Date(filters.endTime));
+      conditions.push(`created_at <= $${values.length}`);
+    }
+
+    const query = `
+      SELECT * FROM paper_income 
+      WHERE ${conditions.join(' AND ')} 
+      ORDER BY id DESC 
+      LIMIT $${values.length + 1}
+    `;
+    const result = await this.pool.query(query, [...values, limit]);
+    return result.rows.reverse().map(row => ({ ...row, id: Number(row.id) }));
+  }
+
+  async nextPaperOrderId(): Promise<number> {
+    const result = await this.pool.query(`SELECT nextval(pg_get_serial_sequence('paper_orders', 'id')) AS id`);
+    return Number(result.rows[0].id);
+  }
+
+  /**
+   * Write one simulator step so balances, positions and orders never disagree
+   */
+  async savePaperChanges(userId: number, changes: PaperAccountChanges): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      for (const balance of changes.balances) {
+        await client.query(
+          `INSERT INTO paper_balances (user_id, wallet, asset, free, locked)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (user_id, wallet, asset)
+           DO UPDATE SET free = EXCLUDED.free, locked = EXCLUDED.locked`,
+          [userId, balance.wallet, balance.asset, balance.free, balance.locked]
+        );
+      }
+
+      for (const position of changes.positions) {
+        await client.query(
+          `INSERT INTO paper_positions (user_id, symbol, position_amt, entry_price, leverage, last_funding_at)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (user_id, symbol)
+           DO UPDATE SET position_amt = EXCLUDED.position_amt, entry_price = EXCLUDED.entry_price,
+             leverage = EXCLUDED.leverage, last_funding_at = EXCLUDED.last_funding_at, updated_at = NOW()`,
+          [userId, position.symbol, position.position_amt, position.entry_price, position.leverage, position.last_funding_at]
+        );
+      }
+
+      for (const order of changes.orders) {
+        await client.query(
+          `INSERT INTO paper_orders (id, user_id, market, symbol, client_order_id, side, type, orig_type, time_in_force,
+             price, stop_price, quantity, quote_quantity, executed_qty, cum_quote, reduce_only, close_position,
+             callback_rate, activation_price, best_price, status, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22)
+           ON CONFLICT (id)
+           DO UPDATE SET type = EXCLUDED.type, price = EXCLUDED.price, executed_qty = EXCLUDED.executed_qty,
+             cum_quote = EXCLUDED.cum_quote, best_price = EXCLUDED.best_price, status = EXCLUDED.status, updated_at = NOW()`,
+          [
+            order.id, userId, order.market, order.symbol, order.client_order_id, order.side, order.type, order.orig_type,
+            order.time_in_force, order.price, order.stop_price, order.quantity, order.quote_quantity, order.executed_qty,
+            order.cum_quote, order.reduce_only, order.close_position, order.callback_rate, order.activation_price,
+            order.best_price, order.status, order.created_at
+          ]
+        );
+      }
+
+      for (const trade of changes.trades) {
+        await client.query(
+          `INSERT INTO paper_trades (user_id, market, symbol, order_id, side, price, qty, quote_qty, commission,
+             commission_asset, realized_pnl, is_maker)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+          [
+            userId, trade.market, trade.symbol, trade.order_id, trade.side, trade.price, trade.qty, trade.quote_qty,
+            trade.commission, trade.commission_asset, trade.realized_pnl, trade.is_maker
+          ]
+        );
+      }
+
+      for (const income of changes.income) {
+        await client.query(
+          `INSERT INTO paper_income (user_id, symbol, income_type, amount, asset, order_id)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [userId, income.symbol, income.income_type, income.amount, income.asset, income.order_id]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Wipe the simulated account and fund it again. Paper order history rows go too.
+   */
+  async resetPaperAccount(userId: number, balances: PaperAccountChanges['balances']): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const table of ['paper_balances', 'paper_positions', 'paper_orders', 'paper_trades', 'paper_income']) {
+        await client.query(`DELETE FROM ${table} WHERE user_id = $1`, [userId]);
+      }
+      await client.query('DELETE FROM orders WHERE user_id = $1 AND paper = true', [userId]);
+      for (const balance of balances) {
+        await client.query(
+          'INSERT INTO paper_balances (user_id, wallet, asset, free, locked) VALUES ($1, $2, $3, $4, $5)',
+          [userId, balance.wallet, balance.asset, balance.free, balance.locked]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Trailing stops, brackets, spot exits and TP ladders still being managed for a user.
+   * They run against whichever account is active, so switching modes waits until they finish.
+   */
+  async countActiveManagedOrders(userId: number): Promise<number> {
+    const query = `
+      SELECT 
+        (SELECT COUNT(*) FROM trailing_stops WHERE user_id = $1 AND status = 'active') +
+        (SELECT COUNT(*) FROM order_brackets WHERE user_id = $1 AND status = 'active') +
+        (SELECT COUNT(*) FROM spot_exits WHERE user_id = $1 AND status = 'active') +
+        (SELECT COUNT(*) FROM tp_ladders WHERE user_id = $1 AND status = 'active') AS count
+    `;
+    const result = await this.pool.query(query, [userId]);
+    return parseInt(result.rows[0].count, 10);
+  }
+
   // ========== Health Checks ==========
 
   async healthCheck(): Promise<{ postgres: boolean }> {
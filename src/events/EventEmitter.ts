@@ -1,4 +1,5 @@
 import { EventEmitter as NodeEventEmitter } from 'events';
+import { AccountUpdateEvent, MarginCallEvent, OrderTradeUpdateEvent, PriceAlert, SpotExit } from '../types';
 
 export interface BaseEvent {
   type: string;
@@ -36,11 +37,54 @@ export interface ApiEvent extends UserEvent {
   duration?: number;
 }
 
+export interface OrderStreamEvent extends UserEvent {
+  order: OrderTradeUpdateEvent['o'];
+  // Raised by the paper trading simulator rather than the exchange stream
+  paper?: boolean;
+}
+
+export interface AccountStreamEvent extends UserEvent {
+  account: AccountUpdateEvent['a'];
+  paper?: boolean;
+}
+
+export interface MarginCallStreamEvent extends UserEvent {
+  crossWalletBalance: string;
+  positions: MarginCallEvent['p'];
+}
+
+export interface PriceAlertEvent extends UserEvent {
+  alert: PriceAlert;
+  value: number;
+}
+
+export interface MarginAlertEvent extends UserEvent {
+  // Isolated position that crossed the level; undefined for the account-wide ratio
+  symbol?: string;
+  level: number;
+  marginRatio: number;
+  liquidationDistancePercent: number | null;
+}
+
+export interface SpotExitEvent extends UserEvent {
+  exit: SpotExit;
+  reason: 'tp_filled' | 'sl_filled' | 'sold_manually';
+  // Average fill price of the exit sell, when known
+  price?: number;
+  paper?: boolean;
+}
+
 export type BotEvent = 
   | TradingEvent 
   | NavigationEvent 
   | ErrorEvent 
   | ApiEvent
+  | OrderStreamEvent
+  | AccountStreamEvent
+  | MarginCallStreamEvent
+  | PriceAlertEvent
+  | MarginAlertEvent
+  | SpotExitEvent
   | UserEvent;
 
 export class BotEventEmitter extends NodeEventEmitter {
@@ -91,6 +135,23 @@ export const EventTypes = {
   API_CALL_FAILED: 'api.call.failed',
   API_CLIENT_CREATED: 'api.client.created',
   
+  // User Data Stream Events
+  STREAM_CONNECTED: 'stream.connected',
+  STREAM_DISCONNECTED: 'stream.disconnected',
+  ORDER_UPDATED: 'stream.order.updated',
+  ORDER_FILLED: 'stream.order.filled',
+  PROTECTIVE_ORDER_TRIGGERED: 'stream.order.protective_triggered',
+  POSITION_LIQUIDATED: 'stream.position.liquidated',
+  ACCOUNT_UPDATED: 'stream.account.updated',
+  MARGIN_CALL: 'stream.margin_call',
+  
+  // Alert Events
+  PRICE_ALERT_TRIGGERED: 'alert.price.triggered',
+  MARGIN_RATIO_ALERT: 'alert.margin_ratio',
+
+  // Spot Exit Events
+  SPOT_EXIT_CLOSED: 'spot_exit.closed',
+  
   // Error Events
   ERROR_OCCURRED: 'error.occurred',
   ERROR_RECOVERED: 'error.recovered',
@@ -46,7 +46,8 @@ export class FiltersManager {
     price: string,
     quantity: string,
     orderType: 'MARKET' | 'LIMIT',
-    isReduceOnly = false
+    isReduceOnly = false,
+    referencePrice?: number
   ): FilterValidationResult {
     const filters = this.getSymbolFilters(symbol);
     if (!filters) {
@@ -56,7 +57,7 @@ export class FiltersManager {
       };
     }
 
-    return filters.validateOrder(price, quantity, orderType, isReduceOnly);
+    return filters.validateOrder(price, quantity, orderType, isReduceOnly, referencePrice);
   }
 
   // Calculate price impact and slippage
@@ -171,11 +172,13 @@ export class SymbolFilters {
     });
   }
 
+  // referencePrice (mark or average price) enables the PERCENT_PRICE check for LIMIT orders
   validateOrder(
     price: string,
     quantity: string,
     orderType: 'MARKET' | 'LIMIT',
-    isReduceOnly = false
+    isReduceOnly = false,
+    referencePrice?: number
   ): FilterValidationResult {
     const errors: string[] = [];
     let adjustedPrice = price;
@@ -216,7 +219,7 @@ export class SymbolFilters {
 
     // Percent price validation (for LIMIT orders)
     if (orderType === 'LIMIT' && this.percentPriceFilter) {
-      const percentValidation = this.validatePercentPrice(price);
+      const percentValidation = this.validatePercentPrice(adjustedPrice, referencePrice);
       if (!percentValidation.isValid) {
         errors.push(...percentValidation.errors);
       }
@@ -335,14 +338,36 @@ export class SymbolFilters {
     return { isValid: true, errors: [] };
   }
 
-  private validatePercentPrice(price: string): { isValid: boolean; errors: string[] } {
-    if (!this.percentPriceFilter) return { isValid: true, errors: [] };
+  private validatePercentPrice(price: string, referencePrice?: number): { isValid: boolean; errors: string[] } {
+    if (!this.percentPriceFilter || !referencePrice || referencePrice <= 0) return { isValid: true, errors: [] };
+
+    const { upper, lower } = this.getPercentPriceBounds(referencePrice);
+    const priceNum = parseFloat(price);
+    const precision = this.getPricePrecision();
+
+    if (priceNum > upper) {
+      return { isValid: false, errors: [`Price ${price} is above the allowed maximum ${upper.toFixed(precision)} for the current market`] };
+    }
+
+    if (priceNum < lower) {
+      return { isValid: false, errors: [`Price ${price} is below the allowed minimum ${lower.toFixed(precision)} for the current market`] };
+    }
 
-    // This would require mark price from the API
-    // For now, just return valid - implement when mark price is available
     return { isValid: true, errors: [] };
   }
 
+  // Allowed LIMIT price band around a reference price
+  getPercentPriceBounds(referencePrice: number): { upper: number; lower: number } {
+    if (!this.percentPriceFilter) {
+      return { upper: Infinity, lower: 0 };
+    }
+
+    return {
+      upper: referencePrice * parseFloat(this.percentPriceFilter.multiplierUp),
+      lower: referencePrice * parseFloat(this.percentPriceFilter.multiplierDown),
+    };
+  }
+
   // Helper methods
   getTickSize(): number {
     return this.priceFilter ? parseFloat(this.priceFilter.tickSize) : 0;
@@ -410,6 +435,18 @@ export class SymbolFilters {
     const rounded = Math.round(quantity / stepSize) * stepSize;
     return rounded.toFixed(precision);
   }
+
+  // Round quantity down to step size, so selling a held balance never asks for more than is there
+  floorQuantity(quantity: number): string {
+    if (!this.lotSizeFilter) return quantity.toString();
+
+    const stepSize = parseFloat(this.lotSizeFilter.stepSize);
+    const precision = this.getQuantityPrecision();
+
+    // The epsilon keeps exact multiples like 0.3 / 0.1 from flooring one step short
+    const floored = Math.floor(quantity / stepSize + 1e-9) * stepSize;
+    return floored.toFixed(precision);
+  }
 }
 
 // Utility functions for price calculations
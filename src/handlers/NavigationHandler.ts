@@ -39,7 +39,8 @@ Trade spot and perpetuals on **AsterDEX** instantly, right from Telegram. **Zero
           [
             Markup.button.callback('Trade', 'unified_trade'),
             Markup.button.callback('Functions', 'show_commands')
-          ]
+          ],
+          [Markup.button.callback('Paper Trading', 'paper_menu')]
         ]);
         
         await this.emitNavigation(ctx, 'unknown', 'welcome');
@@ -92,7 +93,8 @@ Your trading control center for AsterDEX. Execute trades, monitor portfolio, and
           [
             Markup.button.callback('Trade', 'unified_trade'),
             Markup.button.callback('Functions', 'show_commands')
-          ]
+          ],
+          [Markup.button.callback('Paper Trading', 'paper_menu')]
         ]);
         
         await this.emitNavigation(ctx, 'unknown', 'main_menu');
@@ -158,6 +160,9 @@ Real-time P&L tracking, position management, and balance monitoring.
             Markup.button.callback('View Positions', 'positions'),
             Markup.button.callback('Check Balance', 'balance')
           ],
+          [
+            Markup.button.callback('Open Orders', 'open_orders')
+          ],
           [
             Markup.button.callback('Back to Home', 'back_to_home')
           ]
@@ -67,7 +67,7 @@ export class TradingHandler extends BaseHandler {
   private async getSpotPriceDirect(symbol: string): Promise<number> {
     try {
       const AsterApiClient = await import('../aster');
-      const spotClient = new AsterApiClient.AsterApiClient('https://sapi.asterdex.com', '', '');
+      const spotClient = new AsterApiClient.AsterApiClient(AsterApiClient.SPOT_BASE_URL, '', '');
       const tickers = await spotClient.getAllSpotTickers();
       const ticker = tickers.find(t => t.symbol === symbol);
       
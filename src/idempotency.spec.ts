@@ -0,0 +1,111 @@
+import { DatabaseManager } from './db';
+import { IdempotencyService } from './services/IdempotencyService';
+import { Order } from './types';
+
+/**
+ * Order history keyed by client order ID, as getOrderByClientId reads it
+ */
+class FakeOrderHistory {
+  readonly orders = new Map<string, Order>();
+  failing = false;
+
+  async getOrderByClientId(userId: number, clientOrderId: string): Promise<Order | null> {
+    if (this.failing) throw new Error('connection refused');
+    const order = this.orders.get(clientOrderId);
+    return order && order.user_id === userId ? order : null;
+  }
+}
+
+class IdempotencyValidator {
+  private results: Array<{ test: string; status: 'PASS' | 'FAIL'; message: string }> = [];
+
+  private log(test: string, passed: boolean, message: string): void {
+    this.results.push({ test, status: passed ? 'PASS' : 'FAIL', message });
+    console.log(`${passed ? '✅' : '❌'} ${test}: ${message}`);
+  }
+
+  async runAll(): Promise<boolean> {
+    console.log('🧪 Idempotency Tests\n');
+
+    const id = IdempotencyService.clientOrderIdFor(7, 'perps_execute_buy_BTCUSDT_100u_5x', '42.1700000000:BTCUSDT');
+    this.log(
+      'Client order ID is deterministic and fits the exchange',
+      id === IdempotencyService.clientOrderIdFor(7, 'perps_execute_buy_BTCUSDT_100u_5x', '42.1700000000:BTCUSDT')
+        && /^bot_[0-9a-f]{32}$/.test(id) && id.length <= 36,
+      id
+    );
+
+    const variants = new Set([
+      id,
+      IdempotencyService.clientOrderIdFor(8, 'perps_execute_buy_BTCUSDT_100u_5x', '42.1700000000:BTCUSDT'),
+      IdempotencyService.clientOrderIdFor(7, 'perps_execute_sell_BTCUSDT_100u_5x', '42.1700000000:BTCUSDT'),
+      IdempotencyService.clientOrderIdFor(7, 'perps_execute_buy_BTCUSDT_100u_5x', '42.1700000060:BTCUSDT')
+    ]);
+    this.log('User, payload and preview each change the ID', variants.size === 4, `${variants.size} distinct`);
+
+    const nonces = new Set(Array.from({ length: 50 }, () => IdempotencyService.newNonce()));
+    this.log('Preview nonces are unique', nonces.size === 50 && [...nonces].every(n => /^[0-9a-f]{16}$/.test(n)), `${nonces.size} distinct`);
+
+    const sent = IdempotencyService.messageNonce({ message: { message_id: 42, date: 1700000000 } });
+    const redrawn = IdempotencyService.messageNonce({ message: { message_id: 42, date: 1700000000, edit_date: 1700000060 } });
+    const inline = IdempotencyService.messageNonce({ inline_message_id: 'AAQ42' });
+    this.log(
+      'Redrawing a message starts a new preview',
+      sent === '42.1700000000' && redrawn === '42.1700000060' && inline === 'AAQ42',
+      `sent=${sent} redrawn=${redrawn} inline=${inline}`
+    );
+
+    const history = new FakeOrderHistory();
+    const service = new IdempotencyService(history as unknown as DatabaseManager);
+
+    const first = await service.claim(7, id);
+    const second = await service.claim(7, id);
+    this.log('Second claim while in flight', first.status === 'claimed' && second.status === 'in_flight', `${first.status}, ${second.status}`);
+
+    // The first submission failed before reaching the exchange
+    service.release(id);
+    const retry = await service.claim(7, id);
+    this.log('Released ID can be claimed again', retry.status === 'claimed', retry.status);
+
+    history.orders.set(id, { user_id: 7, client_order_id: id, symbol: 'BTCUSDT', side: 'BUY', status: 'FILLED' } as unknown as Order);
+    service.release(id);
+    const repeat = await service.claim(7, id);
+    this.log(
+      'Placed order answers the repeat',
+      repeat.status === 'duplicate' && repeat.order.symbol === 'BTCUSDT' && (await service.claim(7, id)).status === 'duplicate',
+      repeat.status
+    );
+
+    const otherUser = await service.claim(8, id);
+    service.release(id);
+    this.log("Another user's history doesn't match", otherUser.status === 'claimed', otherUser.status);
+
+    history.failing = true;
+    const fresh = IdempotencyService.clientOrderIdFor(7, 'spot_sell_ETH_50pct', '43.1700000000:ETH');
+    const offline = await service.claim(7, fresh);
+    const offlineRepeat = await service.claim(7, fresh);
+    service.release(fresh);
+    this.log(
+      'History outage still blocks in-flight repeats',
+      offline.status === 'claimed' && offlineRepeat.status === 'in_flight',
+      `${offline.status}, ${offlineRepeat.status}`
+    );
+
+    const passed = this.results.filter(r => r.status === 'PASS').length;
+    console.log(`\n🎯 ${passed}/${this.results.length} passed`);
+    return passed === this.results.length;
+  }
+}
+
+// Main execution
+async function main() {
+  const validator = new IdempotencyValidator();
+  const allPassed = await validator.runAll();
+  process.exitCode = allPassed ? 0 : 1;
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export { IdempotencyValidator };
@@ -0,0 +1,126 @@
+import { AsterApiClient } from './aster';
+import { DatabaseManager } from './db';
+import { ApiClientService } from './services/ApiClientService';
+import { LadderService } from './services/LadderService';
+import { TpLadderService } from './services/TpLadderService';
+import { NewOrderRequest, TpLadder, TpLadderRung } from './types';
+
+const near = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+const allNear = (actual: number[], expected: number[]) =>
+  actual.length === expected.length && actual.every((value, i) => near(value, expected[i]));
+
+/**
+ * A long TP ladder whose first rung filled and whose position was then trimmed by hand
+ */
+function trimmedLadderFixture() {
+  const ladder = { id: 1, user_id: 7, symbol: 'BTCUSDT', position_side: 'LONG', entry_price: '50000', status: 'active' } as TpLadder;
+  const rung = (id: number, share: string, price: string, quantity: string): TpLadderRung => ({
+    id, ladder_id: 1, rung_index: id - 1, target_percent: '0', share_percent: share, price, quantity,
+    order_id: String(100 + id), status: 'open', created_at: new Date(), updated_at: new Date()
+  });
+  const rungs = [rung(1, '25', '51000', '0.250'), rung(2, '25', '52000', '0.250'), rung(3, '50', '53000', '0.500')];
+
+  const statusChanges: Array<[number, string]> = [];
+  const updates: Array<[number, string, string]> = [];
+  const db = {
+    getActiveTpLadders: async () => [ladder],
+    getTpLadderRungs: async () => rungs,
+    setTpLadderRungStatus: async (id: number, status: string) => { statusChanges.push([id, status]); },
+    updateTpLadderRung: async (id: number, quantity: string, orderId: string) => { updates.push([id, quantity, orderId]); },
+    closeTpLadder: async () => true
+  } as unknown as DatabaseManager;
+
+  const cancelled: number[] = [];
+  const placed: NewOrderRequest[] = [];
+  const apiClient = {
+    getPositionRisk: async () => [{ symbol: 'BTCUSDT', positionAmt: '0.6', entryPrice: '50000', positionSide: 'BOTH' }],
+    getOpenOrders: async () => [
+      { orderId: 102, origQty: '0.250', executedQty: '0' },
+      { orderId: 103, origQty: '0.500', executedQty: '0' }
+    ],
+    getOrder: async () => ({ status: 'FILLED' }),
+    cancelOrder: async (_symbol: string, orderId: number) => { cancelled.push(orderId); },
+    createOrder: async (order: NewOrderRequest) => {
+      placed.push(order);
+      return { orderId: 200 + placed.length, origQty: order.quantity };
+    },
+    formatQuantityWithPrecision: async (_symbol: string, quantity: number) => (Math.floor(quantity * 1000 + 1e-9) / 1000).toFixed(3)
+  } as unknown as AsterApiClient;
+  const apiClientService = { getOrCreateClient: async () => apiClient } as unknown as ApiClientService;
+
+  return { service: new TpLadderService(db, apiClientService), statusChanges, updates, cancelled, placed };
+}
+
+class LadderValidator {
+  private results: Array<{ test: string; status: 'PASS' | 'FAIL'; message: string }> = [];
+
+  private log(test: string, passed: boolean, message: string): void {
+    this.results.push({ test, status: passed ? 'PASS' : 'FAIL', message });
+    console.log(`${passed ? '✅' : '❌'} ${test}: ${message}`);
+  }
+
+  async runAll(): Promise<boolean> {
+    console.log('🧪 Ladder Math Tests\n');
+
+    const linear = LadderService.levelPrices(3200, 3000, 5, 'linear');
+    this.log('Linear levels', allNear(linear, [3200, 3150, 3100, 3050, 3000]), linear.join(', '));
+
+    const geometric = LadderService.levelPrices(100, 400, 3, 'geometric');
+    this.log('Geometric levels', allNear(geometric, [100, 200, 400]), geometric.join(', '));
+
+    const equal = LadderService.weights(4, 'equal');
+    const pyramid = LadderService.weights(3, 'pyramid');
+    const front = LadderService.weights(3, 'front');
+    this.log(
+      'Level weights',
+      allNear(equal, [0.25, 0.25, 0.25, 0.25]) && allNear(pyramid, [1 / 6, 2 / 6, 3 / 6]) && allNear(front, [3 / 6, 2 / 6, 1 / 6]),
+      `equal=${equal.map(w => w.toFixed(3))} pyramid=${pyramid.map(w => w.toFixed(3))} front=${front.map(w => w.toFixed(3))}`
+    );
+
+    const ranges = ['3200 3000', '3,200-3,000', '$3200 to $3000'].map(text => LadderService.parseRange(text));
+    this.log(
+      'Parses price ranges',
+      ranges.every(range => range?.from === 3200 && range.to === 3000)
+        && LadderService.parseRange('3200 3200') === null && LadderService.parseRange('3200') === null,
+      JSON.stringify(ranges)
+    );
+
+    this.log(
+      'TP rung shares keep a runner',
+      allNear(TpLadderService.rungShares(3), [25, 25, 50]) && allNear(TpLadderService.rungShares(1), [100])
+        && allNear(TpLadderService.rungShares(2), [50, 50]),
+      `3 rungs: ${TpLadderService.rungShares(3).join('/')}`
+    );
+
+    // Rung 1 filled 0.25 of 1 BTC, then the position was cut to 0.6: the 25/50 rungs become 0.2/0.4
+    const fixture = trimmedLadderFixture();
+    const resized = await fixture.service.sweep();
+    this.log(
+      'Trimmed position re-sizes open rungs',
+      resized === 2
+        && fixture.statusChanges.some(([id, status]) => id === 1 && status === 'filled')
+        && fixture.cancelled.join() === '102,103'
+        && fixture.placed.map(order => `${order.side} ${order.quantity}@${order.price}`).join() === 'SELL 0.200@52000,SELL 0.400@53000'
+        && fixture.placed.every(order => order.positionSide === 'LONG' && order.reduceOnly)
+        && fixture.updates.map(([id, quantity]) => `${id}:${quantity}`).join() === '2:0.200,3:0.400',
+      `resized=${resized} placed=${fixture.placed.map(order => order.quantity).join('/')}`
+    );
+
+    const passed = this.results.filter(r => r.status === 'PASS').length;
+    console.log(`\n🎯 ${passed}/${this.results.length} passed`);
+    return passed === this.results.length;
+  }
+}
+
+// Main execution
+async function main() {
+  const validator = new LadderValidator();
+  const allPassed = await validator.runAll();
+  process.exitCode = allPassed ? 0 : 1;
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export { LadderValidator };
@@ -0,0 +1,130 @@
+import { AsterApiClient } from './aster';
+import { LeveragePolicyService } from './services/LeveragePolicyService';
+import { LeverageBracket } from './types';
+
+function bracket(index: number, initialLeverage: number, notionalFloor: number, notionalCap: number): LeverageBracket {
+  return { bracket: index, initialLeverage, notionalFloor, notionalCap, maintMarginRatio: 0.005 * index, cum: 0 };
+}
+
+// Listed out of order, as nothing guarantees the exchange sorts them
+const BTC_BRACKETS = [
+  bracket(3, 20, 250000, 1000000),
+  bracket(1, 125, 0, 50000),
+  bracket(2, 50, 50000, 250000)
+];
+
+/**
+ * Leverage endpoints of the exchange: brackets per symbol and the leverage last set
+ */
+class FakeLeverageExchange {
+  readonly changes: Array<{ symbol: string; leverage: number }> = [];
+  failing = false;
+
+  async getLeverageBrackets(symbol: string): Promise<Array<{ symbol: string; brackets: LeverageBracket[] }>> {
+    if (this.failing) throw new Error('Request timeout');
+    return [{ symbol, brackets: BTC_BRACKETS }];
+  }
+
+  async changeLeverage(symbol: string, leverage: number): Promise<any> {
+    this.changes.push({ symbol, leverage });
+    return { symbol, leverage };
+  }
+}
+
+class LeveragePolicyValidator {
+  private results: Array<{ test: string; status: 'PASS' | 'FAIL'; message: string }> = [];
+
+  private log(test: string, passed: boolean, message: string): void {
+    this.results.push({ test, status: passed ? 'PASS' : 'FAIL', message });
+    console.log(`${passed ? '✅' : '❌'} ${test}: ${message}`);
+  }
+
+  async runAll(): Promise<boolean> {
+    console.log('🧪 Leverage Policy Tests\n');
+
+    const overall = LeveragePolicyService.bracketMaxLeverage(BTC_BRACKETS);
+    const small = LeveragePolicyService.bracketMaxLeverage(BTC_BRACKETS, 1000);
+    const edge = LeveragePolicyService.bracketMaxLeverage(BTC_BRACKETS, 50000);
+    const beyond = LeveragePolicyService.bracketMaxLeverage(BTC_BRACKETS, 5000000);
+    this.log(
+      'Bracket limit follows the order notional',
+      overall === 125 && small === 125 && edge === 50 && beyond === 20,
+      `none=${overall} $1k=${small} $50k=${edge} $5M=${beyond}`
+    );
+    this.log('No brackets means no symbol limit', LeveragePolicyService.bracketMaxLeverage([]) === null, 'null');
+
+    const exchange = new FakeLeverageExchange();
+    const policy = new LeveragePolicyService(exchange as unknown as AsterApiClient, 20, 50);
+
+    const within = await policy.check('BTCUSDT', 10, 1000);
+    this.log(
+      'Leverage within every cap passes',
+      within.success && within.leverage === 10 && within.limits.maxLeverage === 20,
+      `max=${within.limits.maxLeverage}x`
+    );
+
+    const overUser = await policy.check('BTCUSDT', 25, 1000);
+    this.log(
+      'User cap is enforced',
+      !overUser.success && overUser.errors.length === 1 && overUser.errors[0].includes('your leverage cap of 20x'),
+      overUser.success ? 'passed' : overUser.errors.join('; ')
+    );
+
+    const loose = new LeveragePolicyService(exchange as unknown as AsterApiClient, 125, 100);
+    const overAll = await loose.check('BTCUSDT', 110, 300000);
+    this.log(
+      'Bot maximum and symbol bracket are both reported',
+      !overAll.success && overAll.errors.length === 2 && overAll.limits.symbolMax === 20
+        && overAll.errors[1].includes('$300000.00 position'),
+      overAll.success ? 'passed' : overAll.errors.join('; ')
+    );
+
+    const fractional = await policy.check('BTCUSDT', 2.5);
+    const zero = await policy.check('BTCUSDT', 0);
+    this.log(
+      'Leverage must be a whole number of at least 1x',
+      !fractional.success && !zero.success && fractional.errors[0].includes('whole number'),
+      fractional.success ? 'passed' : fractional.errors[0]
+    );
+
+    exchange.failing = true;
+    const offline = await policy.check('BTCUSDT', 15, 1000);
+    this.log(
+      'Bracket outage falls back to the user and bot caps',
+      offline.success && offline.limits.symbolMax === null && offline.limits.maxLeverage === 20,
+      `symbolMax=${offline.limits.symbolMax}`
+    );
+    exchange.failing = false;
+
+    let rejected = '';
+    try {
+      await policy.apply('BTCUSDT', 30, 1000);
+    } catch (error: any) {
+      rejected = error.message;
+    }
+    const applied = await policy.apply('BTCUSDT', 5, 1000);
+    this.log(
+      'Apply only sets leverage the policy accepts',
+      rejected.startsWith('Leverage rejected') && applied === 5
+        && exchange.changes.length === 1 && exchange.changes[0].leverage === 5,
+      `changes=${exchange.changes.map(c => c.leverage).join(',')}`
+    );
+
+    const passed = this.results.filter(r => r.status === 'PASS').length;
+    console.log(`\n🎯 ${passed}/${this.results.length} passed`);
+    return passed === this.results.length;
+  }
+}
+
+// Main execution
+async function main() {
+  const validator = new LeveragePolicyValidator();
+  const allPassed = await validator.runAll();
+  process.exitCode = allPassed ? 0 : 1;
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export { LeveragePolicyValidator };
@@ -13,9 +13,11 @@ function loadConfig(): BotConfig {
     telegram: {
       token: process.env.TELEGRAM_BOT_TOKEN!,
       adminIds: process.env.ADMIN_IDS?.split(',').map(id => parseInt(id.trim())).filter(id => !isNaN(id)) || [],
+      apiRoot: process.env.TELEGRAM_API_ROOT || undefined,
     },
     aster: {
       baseUrl: process.env.ASTER_BASE_URL || 'https://fapi.asterdex.com',
+      wsUrl: process.env.ASTER_WS_URL || 'wss://fstream.asterdex.com',
       defaultRecvWindow: parseInt(process.env.DEFAULT_RECV_WINDOW || '5000'),
       maxLeverage: parseInt(process.env.MAX_LEVERAGE || '20'),
     },
@@ -226,7 +226,9 @@ export class AuthMiddleware {
       const userState: UserState = {
         userId: user.id,
         telegramId: user.tg_id,
-        isLinked: !!credentials,
+        // Paper mode trades on the simulator, so it counts as linked without API keys
+        isLinked: !!credentials || user.paper_mode === true,
+        isPaper: user.paper_mode === true,
         settings,
         rateLimitRemaining: 100, // Default rate limit
         // Add other fields as needed
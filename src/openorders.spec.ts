@@ -0,0 +1,96 @@
+import { OpenOrder, OpenOrdersService } from './services/OpenOrdersService';
+
+function order(overrides: Partial<OpenOrder>): OpenOrder {
+  return {
+    market: 'perps',
+    symbol: 'BTCUSDT',
+    orderId: 1001,
+    clientOrderId: '',
+    side: 'BUY',
+    type: 'LIMIT',
+    price: '50000',
+    stopPrice: '0',
+    origQty: '0.010',
+    executedQty: '0',
+    timeInForce: 'GTC',
+    reduceOnly: false,
+    closePosition: false,
+    ...overrides
+  };
+}
+
+class OpenOrdersValidator {
+  private results: Array<{ test: string; status: 'PASS' | 'FAIL'; message: string }> = [];
+
+  private log(test: string, passed: boolean, message: string): void {
+    this.results.push({ test, status: passed ? 'PASS' : 'FAIL', message });
+    console.log(`${passed ? '✅' : '❌'} ${test}: ${message}`);
+  }
+
+  async runAll(): Promise<boolean> {
+    console.log('🧪 Open Orders Tests\n');
+
+    const first = OpenOrdersService.nextClientOrderId('bot_abc');
+    this.log('First amend starts the lineage', first === 'bot_abc_r1', first);
+
+    const second = OpenOrdersService.nextClientOrderId(first);
+    const tenth = OpenOrdersService.nextClientOrderId('bot_abc_r9');
+    this.log(
+      'Later amends bump the revision instead of stacking suffixes',
+      second === 'bot_abc_r2' && tenth === 'bot_abc_r10',
+      `${second}, ${tenth}`
+    );
+
+    const botId = `bot_${'f'.repeat(32)}`;
+    const chain = [botId];
+    for (let i = 0; i < 12; i++) chain.push(OpenOrdersService.nextClientOrderId(chain[chain.length - 1]));
+    const max = OpenOrdersService.MAX_CLIENT_ORDER_ID_LENGTH;
+    this.log(
+      'Lineage stays within the exchange length limit',
+      chain.every(id => id.length <= max) && chain[1].endsWith('_r1') && chain[12].endsWith('_r12'),
+      `${chain[1]} … ${chain[12]}`
+    );
+    const base = chain[12].replace(/_r\d+$/, '');
+    this.log(
+      'Trimmed IDs still keep their lineage base',
+      chain.every(id => id.startsWith(base)) && new Set(chain).size === chain.length,
+      `${new Set(chain).size} distinct`
+    );
+
+    const fallback = OpenOrdersService.nextClientOrderId(`perps_${order({}).orderId}`);
+    this.log('Orders without a client ID amend off the order ID', fallback === 'perps_1001_r1', fallback);
+
+    const partlyFilled = order({ origQty: '0.010', executedQty: '0.004' });
+    const remaining = (OpenOrdersService as any).remainingQuantity(partlyFilled);
+    this.log('Replacement carries only the unfilled quantity', remaining === '0.006', remaining);
+
+    const amendable = [
+      order({}),
+      order({ type: 'STOP_MARKET', stopPrice: '48000' }),
+      order({ market: 'spot', type: 'LIMIT' })
+    ].every(o => OpenOrdersService.isAmendable(o));
+    const trigger = OpenOrdersService.amendablePrice(order({ type: 'STOP_MARKET', stopPrice: '48000' }));
+    this.log(
+      'Limit and trigger orders amend their own price',
+      amendable && !OpenOrdersService.isAmendable(order({ type: 'MARKET' })) && trigger === '48000',
+      `trigger=${trigger}`
+    );
+
+    const passed = this.results.filter(r => r.status === 'PASS').length;
+    console.log(`\n🎯 ${passed}/${this.results.length} passed`);
+    return passed === this.results.length;
+  }
+}
+
+// Main execution
+async function main() {
+  const validator = new OpenOrdersValidator();
+  const allPassed = await validator.runAll();
+  process.exitCode = allPassed ? 0 : 1;
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export { OpenOrdersValidator };
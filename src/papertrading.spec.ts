@@ -0,0 +1,87 @@
+import { PaperTradingService } from './services/PaperTradingService';
+
+const near = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+
+class PaperTradingValidator {
+  private results: Array<{ test: string; status: 'PASS' | 'FAIL'; message: string }> = [];
+
+  private log(test: string, passed: boolean, message: string): void {
+    this.results.push({ test, status: passed ? 'PASS' : 'FAIL', message });
+    console.log(`${passed ? '✅' : '❌'} ${test}: ${message}`);
+  }
+
+  async runAll(): Promise<boolean> {
+    console.log('🧪 Paper Trading Math Tests\n');
+
+    const asks: [string, string][] = [['100', '1'], ['101', '2'], ['102', '5']];
+    const bids: [string, string][] = [['99', '1'], ['98', '2']];
+
+    let fill = PaperTradingService.walkBook(asks, 2.5, null, 'BUY');
+    this.log('Market buy walks the asks', near(fill.quantity, 2.5) && near(fill.cost, 251.5), `qty=${fill.quantity} cost=${fill.cost}`);
+
+    fill = PaperTradingService.walkBook(asks, 2.5, 100.5, 'BUY');
+    this.log('Limit buy stops at its price', near(fill.quantity, 1) && near(fill.cost, 100), `qty=${fill.quantity} cost=${fill.cost}`);
+
+    // 8 from the book, the last 2 at the deepest ask
+    fill = PaperTradingService.walkBook(asks, 10, null, 'BUY');
+    this.log('Market buy beyond the book', near(fill.quantity, 10) && near(fill.cost, 1016), `qty=${fill.quantity} cost=${fill.cost}`);
+
+    fill = PaperTradingService.walkBook(bids, 3, 98.5, 'SELL');
+    this.log('Limit sell stops at its price', near(fill.quantity, 1) && near(fill.cost, 99), `qty=${fill.quantity} cost=${fill.cost}`);
+
+    fill = PaperTradingService.walkBookByQuote(asks, 201);
+    this.log('Quote buy spends the amount', near(fill.quantity, 2) && near(fill.cost, 201), `qty=${fill.quantity} cost=${fill.cost}`);
+
+    fill = PaperTradingService.walkBookByQuote([['100', '1']], 300);
+    this.log('Quote buy beyond the book', near(fill.quantity, 3) && near(fill.cost, 300), `qty=${fill.quantity} cost=${fill.cost}`);
+
+    // Equity 5000 + (P - 50000) meets maintenance 0.5% of P
+    const longLiq = PaperTradingService.liquidationPrice(1, 50000, 5000, 0, 0);
+    const shortLiq = PaperTradingService.liquidationPrice(-1, 50000, 5000, 0, 0);
+    this.log(
+      'Cross liquidation price',
+      near(longLiq, 45000 / 0.995) && near(shortLiq, 55000 / 1.005),
+      `long=${longLiq.toFixed(2)} short=${shortLiq.toFixed(2)}`
+    );
+
+    // Another position's loss and maintenance eat into the same wallet
+    const sharedLiq = PaperTradingService.liquidationPrice(1, 50000, 5000, -1000, 100);
+    this.log('Other positions move liquidation closer', near(sharedLiq, 46100 / 0.995), `liq=${sharedLiq.toFixed(2)}`);
+
+    this.log(
+      'Overcollateralized long never liquidates',
+      PaperTradingService.liquidationPrice(1, 50000, 60000, 0, 0) === 0 && PaperTradingService.liquidationPrice(0, 50000, 5000, 0, 0) === 0,
+      'liq=0'
+    );
+
+    const stopSell = { orig_type: 'STOP_MARKET', side: 'SELL', stop_price: '49000' } as const;
+    const tpSell = { orig_type: 'TAKE_PROFIT_MARKET', side: 'SELL', stop_price: '51000' } as const;
+    const stopBuy = { orig_type: 'STOP', side: 'BUY', stop_price: '51000' } as const;
+    const triggers = [
+      PaperTradingService.isTriggered(stopSell, 48900),
+      PaperTradingService.isTriggered(stopSell, 49100),
+      PaperTradingService.isTriggered(tpSell, 51000),
+      PaperTradingService.isTriggered(tpSell, 50900),
+      PaperTradingService.isTriggered(stopBuy, 51100),
+      PaperTradingService.isTriggered({ orig_type: 'LIMIT', side: 'BUY', stop_price: null }, 1)
+    ];
+    this.log('Conditional triggers', triggers.join() === 'true,false,true,false,true,false', triggers.join(', '));
+
+    const passed = this.results.filter(r => r.status === 'PASS').length;
+    console.log(`\n🎯 ${passed}/${this.results.length} passed`);
+    return passed === this.results.length;
+  }
+}
+
+// Main execution
+async function main() {
+  const validator = new PaperTradingValidator();
+  const allPassed = await validator.runAll();
+  process.exitCode = allPassed ? 0 : 1;
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export { PaperTradingValidator };
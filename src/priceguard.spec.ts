@@ -141,6 +141,8 @@ class PriceGuardValidator {
       tp_presets: [2, 4, 8],
       sl_presets: [1, 2],
       daily_loss_cap: null,
+      pin_order_threshold: 1000,
+      margin_alert_levels: [],
       pin_hash: null
     };
   }
@@ -0,0 +1,191 @@
+import { AsterApiClient } from './aster';
+import { RiskSizingCheck, RiskSizingService } from './services/RiskSizingService';
+import { RiskSizingDraft } from './types';
+
+/**
+ * Account and market data for one sizing run, served the way the exchange client returns them
+ */
+class FakeSizingClient {
+  constructor(private equity: number, private available: number, private markPrice: number) {}
+
+  async getAccountInfo() {
+    return {
+      totalWalletBalance: String(this.equity),
+      totalUnrealizedPnl: '0',
+      totalMarginBalance: String(this.equity),
+      totalPositionInitialMargin: '0',
+      totalOpenOrderInitialMargin: '0',
+      availableBalance: String(this.available),
+      assets: []
+    };
+  }
+
+  async getPositionRisk() {
+    return [];
+  }
+
+  async getMarkPrice(symbol: string) {
+    return [{ symbol, markPrice: String(this.markPrice) }];
+  }
+
+  async getExchangeInfo() {
+    return {
+      symbols: [{
+        symbol: 'BTCUSDT',
+        status: 'TRADING',
+        baseAsset: 'BTC',
+        baseAssetPrecision: 8,
+        quoteAsset: 'USDT',
+        quotePrecision: 8,
+        quoteAssetPrecision: 8,
+        orderTypes: ['LIMIT', 'MARKET'],
+        timeInForce: ['GTC', 'IOC', 'FOK'],
+        filters: [
+          { filterType: 'PRICE_FILTER', minPrice: '0.1', maxPrice: '1000000', tickSize: '0.1' },
+          { filterType: 'LOT_SIZE', minQty: '0.001', maxQty: '1000', stepSize: '0.001' },
+          { filterType: 'MARKET_LOT_SIZE', minQty: '0.001', maxQty: '100', stepSize: '0.001' },
+          { filterType: 'MIN_NOTIONAL', notional: '5' }
+        ]
+      }]
+    };
+  }
+}
+
+class RiskSizingValidator {
+  private results: Array<{ test: string; status: 'PASS' | 'FAIL'; message: string }> = [];
+
+  private log(test: string, passed: boolean, message: string): void {
+    this.results.push({ test, status: passed ? 'PASS' : 'FAIL', message });
+    console.log(`${passed ? '✅' : '❌'} ${test}: ${message}`);
+  }
+
+  private async size(
+    account: { equity: number; available: number },
+    draft: Partial<RiskSizingDraft>,
+    leverageCap = 20
+  ): Promise<RiskSizingCheck> {
+    const client = new FakeSizingClient(account.equity, account.available, 50000) as unknown as AsterApiClient;
+    return new RiskSizingService(client).calculate({
+      symbol: 'BTCUSDT',
+      side: 'BUY',
+      leverage: 1,
+      marginMode: 'cross',
+      ...draft
+    }, leverageCap);
+  }
+
+  private static describe(check: RiskSizingCheck): string {
+    if (!check.success) return check.errors.join('; ');
+    const { plan } = check;
+    return `qty=${plan.quantity} notional=${plan.notional} lev=${plan.leverage}x risk=${plan.actualRisk} stop=${plan.stopPrice}`;
+  }
+
+  async runAll(): Promise<boolean> {
+    console.log('🧪 Risk Sizing Tests\n');
+
+    // $100 at a 2% stop on $50,000 is 0.1 BTC; $5,000 notional fits $10,000 free at 1x
+    let check = await this.size({ equity: 10000, available: 10000 }, { maxLoss: { type: 'percent', value: 1 }, stopPercent: 2 });
+    this.log(
+      'Quantity from max loss and stop',
+      check.success && check.plan.quantity === '0.100' && check.plan.leverage === 1 && !check.plan.leverageRaised
+        && Math.abs(check.plan.stopPrice - 49000) < 1e-6,
+      RiskSizingValidator.describe(check)
+    );
+
+    check = await this.size({ equity: 10000, available: 10000 }, { side: 'SELL', maxLoss: { type: 'usdt', value: 100 }, stopPercent: 2 });
+    this.log(
+      'Short stop sits above the price',
+      check.success && Math.abs(check.plan.stopPrice - 51000) < 1e-6,
+      RiskSizingValidator.describe(check)
+    );
+
+    // 0.0075 BTC floors to the 0.001 step, so the loss at the stop is below the max loss
+    check = await this.size({ equity: 10000, available: 10000 }, { maxLoss: { type: 'usdt', value: 7.5 }, stopPercent: 2 });
+    this.log(
+      'Quantity rounds down to the lot step',
+      check.success && check.plan.quantity === '0.007' && Math.abs(check.plan.actualRisk - 7) < 1e-6,
+      RiskSizingValidator.describe(check)
+    );
+
+    check = await this.size({ equity: 10000, available: 10000 }, { maxLoss: { type: 'usdt', value: 0.5 }, stopPercent: 2 });
+    this.log(
+      'Max loss below the minimum lot',
+      !check.success && /too small/.test(check.errors[0]),
+      RiskSizingValidator.describe(check)
+    );
+
+    // $50 at a 1% stop is $5,000 notional against $1,000 free, so 2x is raised to 5x
+    check = await this.size({ equity: 1000, available: 1000 }, { leverage: 2, maxLoss: { type: 'usdt', value: 50 }, stopPercent: 1 });
+    this.log(
+      'Leverage raised to fit free margin',
+      check.success && check.plan.leverage === 5 && check.plan.leverageRaised && Math.abs(check.plan.margin - 1000) < 1e-6,
+      RiskSizingValidator.describe(check)
+    );
+
+    check = await this.size({ equity: 1000, available: 1000 }, { leverage: 10, maxLoss: { type: 'usdt', value: 50 }, stopPercent: 1 });
+    this.log(
+      'Higher selected leverage is kept',
+      check.success && check.plan.leverage === 10 && !check.plan.leverageRaised,
+      RiskSizingValidator.describe(check)
+    );
+
+    check = await this.size({ equity: 1000, available: 1000 }, { leverage: 2, maxLoss: { type: 'usdt', value: 50 }, stopPercent: 1 }, 3);
+    this.log(
+      'Required leverage above the cap',
+      !check.success && /needs 5x/.test(check.errors[0]) && /cap of 3x/.test(check.errors[0]),
+      RiskSizingValidator.describe(check)
+    );
+
+    // Isolated at 20x liquidates about 4.5% away, inside a 10% stop
+    check = await this.size({ equity: 1000, available: 1000 }, { leverage: 20, marginMode: 'isolated', maxLoss: { type: 'usdt', value: 100 }, stopPercent: 10 });
+    this.log(
+      'Stop beyond liquidation is rejected',
+      !check.success && /beyond the estimated liquidation at 4\.50%/.test(check.errors[0]),
+      RiskSizingValidator.describe(check)
+    );
+
+    // Cross at 1x can lose all $1,000 free on $1,000 notional before liquidation
+    check = await this.size({ equity: 1000, available: 1000 }, { maxLoss: { type: 'usdt', value: 100 }, stopPercent: 10 });
+    this.log(
+      'Cross margin draws on free balance',
+      check.success && Math.abs(check.plan.liquidationPercent - 99.5) < 1e-6,
+      RiskSizingValidator.describe(check)
+    );
+
+    check = await this.size({ equity: 1000, available: 1000 }, { maxLoss: { type: 'usdt', value: 2000 }, stopPercent: 2 });
+    this.log('Max loss above equity', !check.success && /more than your equity/.test(check.errors[0]), RiskSizingValidator.describe(check));
+
+    const maxLoss = RiskSizingService.parseMaxLoss('1.5%');
+    const usdtLoss = RiskSizingService.parseMaxLoss('$20');
+    this.log(
+      'Parses max loss',
+      maxLoss?.type === 'percent' && maxLoss.value === 1.5 && usdtLoss?.type === 'usdt' && usdtLoss.value === 20
+        && RiskSizingService.parseMaxLoss('25%') === null,
+      `${JSON.stringify(maxLoss)} ${JSON.stringify(usdtLoss)}`
+    );
+
+    const stopFromPrice = RiskSizingService.parseStop('49000', 50000, 'BUY');
+    this.log(
+      'Parses stop from a price on the losing side',
+      stopFromPrice === 2 && RiskSizingService.parseStop('51000', 50000, 'BUY') === null,
+      `stop=${stopFromPrice}`
+    );
+
+    const passed = this.results.filter(r => r.status === 'PASS').length;
+    console.log(`\n🎯 ${passed}/${this.results.length} passed`);
+    return passed === this.results.length;
+  }
+}
+
+// Main execution
+async function main() {
+  const validator = new RiskSizingValidator();
+  const allPassed = await validator.runAll();
+  process.exitCode = allPassed ? 0 : 1;
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export { RiskSizingValidator };
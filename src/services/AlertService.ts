@@ -0,0 +1,253 @@
+import { DatabaseManager } from '../db';
+import { BotEventEmitter, EventTypes } from '../events/EventEmitter';
+import { PriceService } from './PriceService';
+import { AlertDirection, AlertMetric, PriceAlert } from '../types';
+
+export interface AlertRequest {
+  symbol: string;
+  metric: AlertMetric;
+  direction: AlertDirection;
+  threshold: number;
+}
+
+export type AlertParseResult =
+  | { success: true; alert: AlertRequest }
+  | { success: false; error: string };
+
+export class AlertService {
+  static readonly MAX_ALERTS_PER_USER = 20;
+  static readonly DEFAULT_INTERVAL_MS = 30 * 1000;
+
+  private db: DatabaseManager;
+  private priceService: PriceService;
+  private eventEmitter: BotEventEmitter;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private evaluating = false;
+
+  constructor(db: DatabaseManager, priceService: PriceService, eventEmitter: BotEventEmitter) {
+    this.db = db;
+    this.priceService = priceService;
+    this.eventEmitter = eventEmitter;
+  }
+
+  /**
+   * Parse /alert arguments, e.g. "BTC > 70000" or "ETH < -5% 24h"
+   */
+  static parseAlertCommand(args: string[]): AlertParseResult {
+    const input = args.join(' ').trim();
+    const match = input.match(/^([A-Za-z0-9]{2,20})\s*(>|<)\s*([+-]?\d+(?:\.\d+)?)\s*(%)?\s*(24h)?$/i);
+
+    if (!match) {
+      return { success: false, error: 'Could not read that alert. Try `/alert BTC > 70000` or `/alert ETH < -5% 24h`.' };
+    }
+
+    const [, rawSymbol, operator, rawThreshold, percent, window] = match;
+    const symbol = rawSymbol.toUpperCase().endsWith('USDT') ? rawSymbol.toUpperCase() : `${rawSymbol.toUpperCase()}USDT`;
+    const metric: AlertMetric = percent || window ? 'change_24h' : 'price';
+    const threshold = parseFloat(rawThreshold);
+
+    if (metric === 'price' && threshold <= 0) {
+      return { success: false, error: 'Price alerts need a positive price.' };
+    }
+
+    if (metric === 'change_24h' && Math.abs(threshold) > 1000) {
+      return { success: false, error: '24h change alerts must be between -1000% and 1000%.' };
+    }
+
+    return {
+      success: true,
+      alert: { symbol, metric, direction: operator === '>' ? 'above' : 'below', threshold }
+    };
+  }
+
+  async createAlert(userId: number, request: AlertRequest): Promise<PriceAlert> {
+    const count = await this.db.countUserAlerts(userId);
+    if (count >= AlertService.MAX_ALERTS_PER_USER) {
+      throw new Error(`You can have at most ${AlertService.MAX_ALERTS_PER_USER} alerts. Delete one first.`);
+    }
+
+    if (!(await this.priceService.validateSymbol(request.symbol))) {
+      throw new Error(`${request.symbol} is not a tradeable symbol.`);
+    }
+
+    await this.assertNotYetMet({ ...request, threshold: String(request.threshold) });
+
+    return this.db.createAlert({
+      user_id: userId,
+      symbol: request.symbol,
+      metric: request.metric,
+      direction: request.direction,
+      threshold: String(request.threshold)
+    });
+  }
+
+  async getAlerts(userId: number): Promise<PriceAlert[]> {
+    return this.db.getUserAlerts(userId);
+  }
+
+  async pauseAlert(userId: number, alertId: number): Promise<boolean> {
+    return this.db.setAlertStatus(userId, alertId, 'paused');
+  }
+
+  /**
+   * Re-activate a paused or already triggered alert
+   */
+  async resumeAlert(userId: number, alertId: number): Promise<boolean> {
+    const alert = (await this.db.getUserAlerts(userId)).find(a => a.id === alertId);
+    if (!alert) return false;
+
+    await this.assertNotYetMet(alert);
+    return this.db.setAlertStatus(userId, alertId, 'active');
+  }
+
+  async deleteAlert(userId: number, alertId: number): Promise<boolean> {
+    return this.db.deleteAlert(userId, alertId);
+  }
+
+  /**
+   * Start the background worker that evaluates active alerts
+   */
+  start(intervalMs = AlertService.DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.evaluate().catch(error => console.error('[AlertService] Evaluation failed:', error));
+    }, intervalMs);
+
+    console.log(`[AlertService] Worker started (every ${intervalMs / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check every active alert once and emit PRICE_ALERT_TRIGGERED for those that crossed
+   */
+  async evaluate(): Promise<number> {
+    // A slow price fetch must not overlap the next tick and double-fire alerts
+    if (this.evaluating) return 0;
+    this.evaluating = true;
+
+    try {
+      const alerts = await this.db.getActiveAlerts();
+      if (alerts.length === 0) return 0;
+
+      const priceSymbols = [...new Set(alerts.filter(a => a.metric === 'price').map(a => a.symbol))];
+      const changeSymbols = [...new Set(alerts.filter(a => a.metric === 'change_24h').map(a => a.symbol))];
+
+      const [prices, changes] = await Promise.all([
+        priceSymbols.length > 0 ? this.priceService.getMultiplePrices(priceSymbols) : Promise.resolve(new Map<string, number>()),
+        this.priceService.get24hChanges(changeSymbols)
+      ]);
+
+      let triggered = 0;
+      for (const alert of alerts) {
+        const value = alert.metric === 'price' ? prices.get(alert.symbol) : changes.get(alert.symbol);
+        if (value === undefined || !Number.isFinite(value) || !AlertService.isConditionMet(alert, value)) {
+          continue;
+        }
+
+        // Only the caller that flips the status delivers the notification
+        if (!(await this.db.markAlertTriggered(alert.id))) {
+          continue;
+        }
+
+        triggered++;
+        this.eventEmitter.emitEvent({
+          type: EventTypes.PRICE_ALERT_TRIGGERED,
+          timestamp: new Date(),
+          userId: alert.user_id,
+          telegramId: alert.tg_id,
+          alert,
+          value
+        });
+      }
+
+      return triggered;
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  /**
+   * Alerts fire once the price reaches the threshold, so one that is already past it would
+   * fire on the next check instead of on a crossing; refuse it. A failed lookup lets it through.
+   */
+  private async assertNotYetMet(alert: Pick<PriceAlert, 'symbol' | 'metric' | 'direction' | 'threshold'>): Promise<void> {
+    let value: number | undefined;
+    try {
+      value = alert.metric === 'price'
+        ? await this.priceService.getCurrentPrice(alert.symbol)
+        : (await this.priceService.get24hChanges([alert.symbol])).get(alert.symbol);
+    } catch (error) {
+      console.error(`[AlertService] Current value lookup failed for ${alert.symbol}:`, error);
+      return;
+    }
+
+    if (value !== undefined && Number.isFinite(value) && AlertService.isConditionMet(alert, value)) {
+      const current = alert.metric === 'change_24h'
+        ? `${value > 0 ? '+' : ''}${value.toFixed(2)}%`
+        : `$${AlertService.formatPrice(value)}`;
+      throw new Error(`${AlertService.describeCondition(alert)} is already true (now ${current}). Pick a level it has not reached yet.`);
+    }
+  }
+
+  static isConditionMet(alert: Pick<PriceAlert, 'direction' | 'threshold'>, value: number): boolean {
+    const threshold = parseFloat(alert.threshold);
+    return alert.direction === 'above' ? value >= threshold : value <= threshold;
+  }
+
+  static describeCondition(alert: Pick<PriceAlert, 'symbol' | 'metric' | 'direction' | 'threshold'>): string {
+    const asset = alert.symbol.replace('USDT', '');
+    const operator = alert.direction === 'above' ? '≥' : '≤';
+    const threshold = parseFloat(alert.threshold);
+
+    if (alert.metric === 'change_24h') {
+      return `${asset} 24h change ${operator} ${threshold > 0 ? '+' : ''}${threshold}%`;
+    }
+    return `${asset} ${operator} $${AlertService.formatPrice(threshold)}`;
+  }
+
+  formatAlertList(alerts: PriceAlert[]): string {
+    let output = '🔔 **Price Alerts**\n\n';
+
+    if (alerts.length === 0) {
+      output += 'You have no alerts yet.\n\n';
+      output += '💡 Create one with `/alert BTC > 70000` or `/alert ETH < -5% 24h`, ';
+      output += 'or use the alert buttons on a token price screen.';
+      return output;
+    }
+
+    alerts.forEach((alert, index) => {
+      const statusEmoji = alert.status === 'active' ? '🟢' : alert.status === 'paused' ? '⏸️' : '✅';
+      const statusText = alert.status === 'triggered' ? ' (triggered)' : alert.status === 'paused' ? ' (paused)' : '';
+      output += `${index + 1}. ${statusEmoji} ${AlertService.describeCondition(alert)}${statusText}\n`;
+    });
+
+    output += `\n${alerts.length}/${AlertService.MAX_ALERTS_PER_USER} alerts • checked every ${AlertService.DEFAULT_INTERVAL_MS / 1000}s`;
+    return output;
+  }
+
+  formatTriggeredNotification(alert: PriceAlert, value: number): string {
+    const current = alert.metric === 'change_24h'
+      ? `${value > 0 ? '+' : ''}${value.toFixed(2)}%`
+      : `$${AlertService.formatPrice(value)}`;
+
+    return [
+      '🔔 **Price Alert Triggered**',
+      '',
+      `**Condition:** ${AlertService.describeCondition(alert)}`,
+      `**Now:** ${current}`,
+      '',
+      'This alert is now off. Re-enable it from /alerts.'
+    ].join('\n');
+  }
+
+  private static formatPrice(price: number): string {
+    return price < 1 ? price.toFixed(6) : price.toFixed(2);
+  }
+}
@@ -2,6 +2,8 @@ import { AsterApiClient } from '../aster';
 import { DatabaseManager } from '../db';
 import { EncryptionManager } from '../encryption';
 import { BotEventEmitter, EventTypes } from '../events/EventEmitter';
+import { PaperApiClient } from './PaperApiClient';
+import { PaperTradingService } from './PaperTradingService';
 
 export interface ApiClientServiceConfig {
   baseUrl: string;
@@ -13,29 +15,54 @@ export class ApiClientService {
   private encryption: EncryptionManager;
   private config: ApiClientServiceConfig;
   private eventEmitter: BotEventEmitter;
+  private paperTrading: PaperTradingService;
 
   constructor(
     db: DatabaseManager,
     encryption: EncryptionManager,
     config: ApiClientServiceConfig,
-    eventEmitter: BotEventEmitter
+    eventEmitter: BotEventEmitter,
+    paperTrading: PaperTradingService
   ) {
     this.db = db;
     this.encryption = encryption;
     this.config = config;
     this.eventEmitter = eventEmitter;
+    this.paperTrading = paperTrading;
   }
 
   /**
    * Get or create an API client for a user
-   * This is the main entry point for all API operations
+   * This is the main entry point for all API operations.
+   * Users in paper mode get a client backed by the simulator.
    */
   async getOrCreateClient(userId: number): Promise<AsterApiClient> {
+    return this.createClient(userId);
+  }
+
+  /**
+   * Client for the user's real exchange account, whatever mode they are in
+   */
+  async getLiveClient(userId: number): Promise<AsterApiClient> {
+    return this.createClient(userId, false);
+  }
+
+  /**
+   * Client for the paper or live account a bot-managed order was placed on, whatever mode the user is in now
+   */
+  async getClientForMode(userId: number, paper: boolean): Promise<AsterApiClient> {
+    return this.createClient(userId, paper);
+  }
+
+  private async createClient(userId: number, paper?: boolean): Promise<AsterApiClient> {
     const startTime = Date.now();
     
     try {
-      // Create fresh client from database credentials
-      const client = await this.createClientFromDatabase(userId);
+      const user = paper === false ? null : await this.db.getUserById(userId);
+      const client = user && (paper ?? user.paper_mode)
+        ? new PaperApiClient(this.config.baseUrl, this.paperTrading, userId, Number(user.tg_id))
+        // Create fresh client from database credentials
+        : await this.createClientFromDatabase(userId);
       
       this.eventEmitter.emitEvent({
         type: EventTypes.API_CLIENT_CREATED,
@@ -0,0 +1,312 @@
+import { AsterApiClient } from '../aster';
+import { DatabaseManager } from '../db';
+import { ApiClientService } from './ApiClientService';
+import { OpenOrdersService } from './OpenOrdersService';
+import { PaperApiClient } from './PaperApiClient';
+import { OrderBracket, OrderResponse, PositionInfo } from '../types';
+
+export interface BracketRequest {
+  // Distance from the entry price, in percent
+  tpPercent: number | null;
+  slPercent: number | null;
+}
+
+export interface BracketLegResult {
+  price: number;
+  order?: OrderResponse;
+  error?: string;
+}
+
+export interface BracketPlacement {
+  symbol: string;
+  positionSide: 'LONG' | 'SHORT';
+  entryPrice: number;
+  tp?: BracketLegResult;
+  sl?: BracketLegResult;
+  bracket: OrderBracket | null;
+}
+
+export interface BracketResolution {
+  bracket: OrderBracket;
+  filledLeg: 'tp' | 'sl';
+  cancelledOrderId: string | null;
+}
+
+export class BracketService {
+  static readonly ENTRY_FILL_TIMEOUT_MS = 15 * 1000;
+  static readonly POLL_INTERVAL_MS = 1000;
+  static readonly DEFAULT_INTERVAL_MS = 30 * 1000;
+
+  private static readonly DEAD_ORDER_STATUSES = ['CANCELED', 'EXPIRED', 'REJECTED'];
+
+  private db: DatabaseManager;
+  private apiClientService: ApiClientService;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping = false;
+
+  constructor(db: DatabaseManager, apiClientService: ApiClientService) {
+    this.db = db;
+    this.apiClientService = apiClientService;
+  }
+
+  /**
+   * Wait until the entry order has filled and the position shows up, polling the exchange.
+   * In hedge mode the entry order names the leg it opened.
+   */
+  async waitForEntryFill(apiClient: AsterApiClient, symbol: string, entryOrder?: OrderResponse): Promise<PositionInfo> {
+    const leg = BracketService.hedgeLeg(entryOrder?.positionSide);
+    const deadline = Date.now() + BracketService.ENTRY_FILL_TIMEOUT_MS;
+
+    let status = entryOrder?.status;
+    while (entryOrder && status !== 'FILLED') {
+      if (status && BracketService.DEAD_ORDER_STATUSES.includes(status)) {
+        throw new Error(`Entry order was ${status.toLowerCase()}, so no TP/SL was placed`);
+      }
+      if (Date.now() >= deadline) {
+        throw new Error('Entry order has not filled yet. Set TP/SL from the positions menu once it does.');
+      }
+
+      await BracketService.sleep(BracketService.POLL_INTERVAL_MS);
+      status = (await apiClient.getOrder(symbol, entryOrder.orderId)).status;
+    }
+
+    while (true) {
+      const positions = await apiClient.getPositionRisk();
+      const position = AsterApiClient.findPosition(positions, symbol, leg);
+      if (position) return position;
+
+      if (Date.now() >= deadline) {
+        throw new Error(`No open position found for ${symbol}`);
+      }
+      await BracketService.sleep(BracketService.POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Place TP and SL as closePosition legs and link them, replacing any active bracket on the symbol
+   */
+  async placeBracket(userId: number, apiClient: AsterApiClient, symbol: string, request: BracketRequest, entryOrder?: OrderResponse): Promise<BracketPlacement> {
+    const position = await this.waitForEntryFill(apiClient, symbol, entryOrder);
+    const positionSide = AsterApiClient.legOf(position);
+    const hedgeLeg = BracketService.hedgeLeg(position.positionSide);
+    const closeSide = positionSide === 'LONG' ? 'SELL' : 'BUY';
+    const entryPrice = parseFloat(position.entryPrice);
+    const paper = apiClient instanceof PaperApiClient;
+
+    // The exchange allows a single closePosition trigger of each type per symbol, or per leg in hedge mode
+    for (const existing of await this.db.getUserActiveBrackets(userId, symbol, paper)) {
+      if (hedgeLeg && existing.position_side !== hedgeLeg) continue;
+      if (await this.db.closeBracket(existing.id, 'cancelled')) {
+        await this.cancelLegs(apiClient, existing);
+      }
+    }
+
+    const placement: BracketPlacement = { symbol, positionSide, entryPrice, bracket: null };
+
+    if (request.tpPercent) {
+      const price = BracketService.legPrice(entryPrice, request.tpPercent, positionSide, 'tp');
+      placement.tp = await this.placeLeg(apiClient, symbol, closeSide, 'TAKE_PROFIT_MARKET', price, hedgeLeg);
+    }
+
+    if (request.slPercent) {
+      const price = BracketService.legPrice(entryPrice, request.slPercent, positionSide, 'sl');
+      placement.sl = await this.placeLeg(apiClient, symbol, closeSide, 'STOP_MARKET', price, hedgeLeg);
+    }
+
+    if (placement.tp?.order || placement.sl?.order) {
+      placement.bracket = await this.db.createBracket({
+        user_id: userId,
+        symbol,
+        position_side: positionSide,
+        tp_order_id: placement.tp?.order ? String(placement.tp.order.orderId) : null,
+        sl_order_id: placement.sl?.order ? String(placement.sl.order.orderId) : null,
+        paper
+      });
+    }
+
+    return placement;
+  }
+
+  private static hedgeLeg(positionSide?: string): 'LONG' | 'SHORT' | undefined {
+    return positionSide === 'LONG' || positionSide === 'SHORT' ? positionSide : undefined;
+  }
+
+  static legPrice(entryPrice: number, percent: number, positionSide: 'LONG' | 'SHORT', leg: 'tp' | 'sl'): number {
+    const direction = (positionSide === 'LONG') === (leg === 'tp') ? 1 : -1;
+    return entryPrice * (1 + direction * percent / 100);
+  }
+
+  /**
+   * A protective order filled: close its bracket and cancel the sibling leg.
+   * The fill's mode picks the account, since the user may have switched since placing it.
+   */
+  async handleLegFilled(userId: number, symbol: string, orderId: string, paper = false): Promise<BracketResolution | null> {
+    const brackets = await this.db.getUserActiveBrackets(userId, symbol, paper);
+    const bracket = brackets.find(b => b.tp_order_id === orderId || b.sl_order_id === orderId);
+    if (!bracket || !(await this.db.closeBracket(bracket.id, 'closed'))) {
+      return null;
+    }
+
+    const filledLeg = bracket.tp_order_id === orderId ? 'tp' : 'sl';
+    const siblingId = filledLeg === 'tp' ? bracket.sl_order_id : bracket.tp_order_id;
+    if (siblingId) {
+      const apiClient = await this.apiClientService.getClientForMode(userId, paper);
+      await this.cancelLeg(apiClient, symbol, siblingId);
+    }
+
+    return { bracket, filledLeg, cancelledOrderId: siblingId };
+  }
+
+  /**
+   * The position went flat without either leg filling (manual close, liquidation): cancel both legs.
+   * In hedge mode only the brackets on the leg that closed are touched.
+   */
+  async handlePositionClosed(userId: number, symbol: string, positionSide?: string, paper = false): Promise<OrderBracket[]> {
+    const hedgeLeg = BracketService.hedgeLeg(positionSide);
+    const closed: OrderBracket[] = [];
+
+    for (const bracket of await this.db.getUserActiveBrackets(userId, symbol, paper)) {
+      if (hedgeLeg && bracket.position_side !== hedgeLeg) continue;
+      if (await this.db.closeBracket(bracket.id, 'closed')) {
+        closed.push(bracket);
+      }
+    }
+
+    if (closed.length > 0) {
+      const apiClient = await this.apiClientService.getClientForMode(userId, paper);
+      for (const bracket of closed) {
+        await this.cancelLegs(apiClient, bracket);
+      }
+    }
+
+    return closed;
+  }
+
+  /**
+   * Start the background sweep that catches fills and closes the user stream missed
+   */
+  start(intervalMs = BracketService.DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => console.error('[BracketService] Sweep failed:', error));
+    }, intervalMs);
+
+    console.log(`[BracketService] Worker started (every ${intervalMs / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Reconcile every active bracket with the exchange. Resolves the number of brackets closed.
+   */
+  async sweep(): Promise<number> {
+    if (this.sweeping) return 0;
+    this.sweeping = true;
+
+    try {
+      const brackets = await this.db.getActiveBrackets();
+      const byUser = new Map<number, OrderBracket[]>();
+      brackets.forEach(bracket => byUser.set(bracket.user_id, [...(byUser.get(bracket.user_id) || []), bracket]));
+
+      let closed = 0;
+      for (const [userId, userBrackets] of byUser) {
+        try {
+          const apiClient = await this.apiClientService.getOrCreateClient(userId);
+          const [positions, openOrders] = await Promise.all([apiClient.getPositionRisk(), apiClient.getOpenOrders()]);
+          const openIds = new Set(openOrders.map(order => String(order.orderId)));
+
+          for (const bracket of userBrackets) {
+            if (await this.reconcile(apiClient, bracket, positions, openIds)) {
+              closed++;
+            }
+          }
+        } catch (error) {
+          console.warn(`[BracketService] Skipping user ${userId}:`, error);
+        }
+      }
+
+      return closed;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async reconcile(apiClient: AsterApiClient, bracket: OrderBracket, positions: PositionInfo[], openIds: Set<string>): Promise<boolean> {
+    const position = AsterApiClient.findPosition(positions, bracket.symbol, bracket.position_side);
+
+    if (!position) {
+      if (!(await this.db.closeBracket(bracket.id, 'closed'))) return false;
+      await this.cancelLegs(apiClient, bracket);
+      return true;
+    }
+
+    // A closePosition leg that fills also flattens the position, so a missing leg
+    // next to an open position was cancelled by hand. Leave the other leg alone.
+    const legs = [bracket.tp_order_id, bracket.sl_order_id].filter((id): id is string => !!id);
+    if (legs.some(id => !openIds.has(id))) {
+      // An amend cancels a leg before placing and linking its replacement
+      if (legs.some(id => OpenOrdersService.isAmending(id))) return false;
+      return this.db.closeBracket(bracket.id, 'cancelled', bracket);
+    }
+
+    return false;
+  }
+
+  private async placeLeg(
+    apiClient: AsterApiClient,
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    type: 'STOP_MARKET' | 'TAKE_PROFIT_MARKET',
+    price: number,
+    positionSide?: 'LONG' | 'SHORT'
+  ): Promise<BracketLegResult> {
+    try {
+      const order = await apiClient.setClosePositionTrigger(symbol, side, type, price, positionSide);
+      return { price: parseFloat(order.stopPrice) || price, order };
+    } catch (error: any) {
+      console.error(`[BracketService] ${type} leg failed for ${symbol}:`, error);
+      return { price, error: error.message || 'Unknown error' };
+    }
+  }
+
+  private async cancelLegs(apiClient: AsterApiClient, bracket: OrderBracket): Promise<void> {
+    for (const orderId of [bracket.tp_order_id, bracket.sl_order_id]) {
+      if (orderId) {
+        await this.cancelLeg(apiClient, bracket.symbol, orderId);
+      }
+    }
+  }
+
+  private async cancelLeg(apiClient: AsterApiClient, symbol: string, orderId: string): Promise<void> {
+    try {
+      await apiClient.cancelOrder(symbol, Number(orderId));
+    } catch (error) {
+      // Already filled, cancelled or expired on the exchange
+      console.warn(`[BracketService] Could not cancel leg ${orderId} for ${symbol}:`, error);
+    }
+  }
+
+  private static sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  formatSiblingCancelled(resolution: BracketResolution): string {
+    const filled = resolution.filledLeg === 'tp' ? 'Take profit' : 'Stop loss';
+    const cancelled = resolution.filledLeg === 'tp' ? 'stop loss' : 'take profit';
+
+    return [
+      '🔗 **Bracket Closed**',
+      '',
+      `**Symbol:** ${resolution.bracket.symbol}`,
+      resolution.cancelledOrderId
+        ? `${filled} filled, so the ${cancelled} order was cancelled.`
+        : `${filled} filled.`
+    ].join('\n');
+  }
+}
@@ -0,0 +1,85 @@
+import { DatabaseManager } from '../db';
+
+export interface DailyLossStatus {
+  date: string;
+  lossAmount: number;
+  cap: number | null;
+  isBlocked: boolean;
+  resetsAt: Date;
+}
+
+export class DailyLossService {
+  private db: DatabaseManager;
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * Current day's realized loss and whether new risk is blocked
+   */
+  async getStatus(userId: number, dailyLossCap: number | string | null | undefined): Promise<DailyLossStatus> {
+    const date = DailyLossService.currentDate();
+    const cap = dailyLossCap !== null && dailyLossCap !== undefined ? parseFloat(String(dailyLossCap)) : null;
+    const row = await this.db.getDailyLoss(userId, date);
+    const lossAmount = parseFloat(String(row?.loss_amount ?? 0)) || 0;
+
+    // Judged against the current cap, so raising or clearing it lifts a block the same day.
+    // The stored is_blocked flag only records that the cap was hit.
+    const isBlocked = cap !== null && cap > 0 && lossAmount >= cap;
+
+    return { date, lossAmount, cap, isBlocked, resetsAt: DailyLossService.nextResetTime() };
+  }
+
+  /**
+   * Feed realized PnL into today's tracking (losses positive, profits offset)
+   * and block trading once the cap is reached
+   */
+  async recordRealizedPnl(userId: number, realizedPnl: number, dailyLossCap: number | string | null | undefined): Promise<DailyLossStatus> {
+    const date = DailyLossService.currentDate();
+    await this.db.updateDailyLoss(userId, -realizedPnl, date);
+
+    const status = await this.getStatus(userId, dailyLossCap);
+    if (status.isBlocked) {
+      await this.db.blockUserTrading(userId, date);
+      console.log(`[DailyLossService] User ${userId} blocked for ${date}: loss $${status.lossAmount.toFixed(2)} >= cap $${status.cap}`);
+    }
+
+    return status;
+  }
+
+  /**
+   * Build the lockout message shown when a risk-increasing order is refused
+   */
+  formatLockoutMessage(status: DailyLossStatus): string {
+    const msLeft = Math.max(0, status.resetsAt.getTime() - Date.now());
+    const hours = Math.floor(msLeft / 3600000);
+    const minutes = Math.floor((msLeft % 3600000) / 60000);
+
+    return [
+      '🛑 **Daily Loss Cap Reached**',
+      '',
+      `**Realized Loss Today:** $${status.lossAmount.toFixed(2)}`,
+      `**Your Cap:** ${status.cap !== null ? '$' + status.cap.toFixed(2) : 'None'}`,
+      '',
+      'New positions and buys are locked for the rest of the day.',
+      `🔓 **Resets:** ${status.resetsAt.toISOString().replace('T', ' ').slice(0, 16)} UTC (in ${hours}h ${minutes}m)`,
+      '',
+      '✅ You can still close positions and sell spot holdings.'
+    ].join('\n');
+  }
+
+  /**
+   * Tracking day key (UTC), matching the daily_loss_tracking date column
+   */
+  static currentDate(now: Date = new Date()): string {
+    return now.toISOString().split('T')[0];
+  }
+
+  /**
+   * Next UTC midnight, when the tracking day rolls over
+   */
+  static nextResetTime(now: Date = new Date()): Date {
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  }
+}
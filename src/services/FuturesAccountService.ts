@@ -1,9 +1,11 @@
 import { AsterApiClient } from '../aster';
-import { AccountInfo, PositionInfo } from '../types';
+import { AccountInfo, PositionInfo, PositionSide } from '../types';
 
 export interface FuturesPosition {
   symbol: string;
   side: 'LONG' | 'SHORT' | 'NONE';
+  // BOTH for a one-way position; LONG or SHORT for one leg of a hedged symbol
+  positionSide: PositionSide;
   size: number;
   entryPrice: number;
   currentPrice?: number;
@@ -15,6 +17,8 @@ export interface FuturesPosition {
   notional: number;
   marginType: 'isolated' | 'cross';
   isolatedWallet?: number;
+  // Exchange-reported liquidation price, when positionRisk returns one
+  liquidationPrice?: number;
 }
 
 export interface FuturesPortfolioSummary {
@@ -132,6 +136,7 @@ export class FuturesAccountService {
           openPositions.push({
             symbol: position.symbol,
             side,
+            positionSide: position.positionSide || 'BOTH',
             size: Math.abs(positionAmt),
             entryPrice,
             currentPrice,
@@ -142,7 +147,8 @@ export class FuturesAccountService {
             realTimePnlPercent,
             notional,
             marginType: position.isolated ? 'isolated' : 'cross',
-            isolatedWallet: position.isolated ? parseFloat(position.isolatedWallet) : undefined
+            isolatedWallet: position.isolated ? parseFloat(position.isolatedWallet) : undefined,
+            liquidationPrice: parseFloat(position.liquidationPrice || '0') > 0 ? parseFloat(position.liquidationPrice!) : undefined
           });
         }
       }
@@ -194,10 +200,14 @@ export class FuturesAccountService {
     }
   }
 
-  async getPosition(symbol: string): Promise<FuturesPosition | null> {
+  /**
+   * An open position by symbol; in hedge mode positionSide picks the leg, otherwise the
+   * largest leg is returned
+   */
+  async getPosition(symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<FuturesPosition | null> {
     try {
       const positions = await this.getOpenPositions();
-      return positions.find(p => p.symbol === symbol) || null;
+      return positions.find(p => p.symbol === symbol && (!positionSide || p.side === positionSide)) || null;
     } catch (error) {
       console.error(`[FuturesAccountService] Failed to get position for ${symbol}:`, error);
       return null;
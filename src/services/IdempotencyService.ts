@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import { DatabaseManager } from '../db';
+import { CryptoUtils } from '../encryption';
+import { Order } from '../types';
+
+export type SubmissionClaim =
+  | { status: 'claimed' }
+  | { status: 'in_flight' }
+  | { status: 'duplicate'; order: Order };
+
+export class IdempotencyService {
+  // Client order IDs currently being submitted by this process
+  private static inFlight = new Set<string>();
+
+  private db: DatabaseManager;
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * Deterministic client order ID for a user action, e.g. a callback payload
+   * on a specific message. Fits the exchange's 36 character limit.
+   */
+  static clientOrderIdFor(userId: number, payload: string, scope: string): string {
+    const key = CryptoUtils.generateIdempotencyKey(userId, payload, scope);
+    return `bot_${key.split(':')[1].slice(0, 32)}`;
+  }
+
+  /**
+   * Random nonce for a new order preview. Kept with the preview's draft or pending order, it ties
+   * every tap on that preview (including the resume after a PIN or price warning) to one order ID.
+   */
+  static newNonce(): string {
+    return crypto.randomBytes(8).toString('hex');
+  }
+
+  /**
+   * Nonce for a one-tap order button, taken from the message it sits on. Repeat taps on the
+   * same message share it; sending or redrawing the message (which sets edit_date) starts a new one.
+   */
+  static messageNonce(callback: { message?: { message_id: number; date: number; edit_date?: number }; inline_message_id?: string }): string {
+    const message = callback.message;
+    return message ? `${message.message_id}.${message.edit_date ?? message.date}` : callback.inline_message_id ?? '';
+  }
+
+  /**
+   * Claim a client order ID before submitting. Repeats of an order that is
+   * still being placed, or that was already placed, are not claimed.
+   */
+  async claim(userId: number, clientOrderId: string): Promise<SubmissionClaim> {
+    if (IdempotencyService.inFlight.has(clientOrderId)) {
+      return { status: 'in_flight' };
+    }
+    IdempotencyService.inFlight.add(clientOrderId);
+
+    try {
+      const existing = await this.db.getOrderByClientId(userId, clientOrderId);
+      if (existing) {
+        IdempotencyService.inFlight.delete(clientOrderId);
+        return { status: 'duplicate', order: existing };
+      }
+    } catch (error) {
+      // History lookup failing shouldn't block trading; the in-flight claim still applies
+      console.error(`[IdempotencyService] Order lookup failed for ${clientOrderId}:`, error);
+    }
+
+    return { status: 'claimed' };
+  }
+
+  release(clientOrderId: string): void {
+    IdempotencyService.inFlight.delete(clientOrderId);
+  }
+
+  formatDuplicateNotice(order: Order): string {
+    const filled = parseFloat(order.filled_qty || '0');
+    const price = parseFloat(order.price || '0');
+
+    return [
+      '🔁 **Order Already Placed**',
+      '',
+      'This preview was already used, so no new order was sent. Open a fresh one to place another order.',
+      '',
+      `**Symbol:** ${order.symbol}`,
+      `**Side:** ${order.side}`,
+      `**Filled:** ${filled > 0 ? filled : parseFloat(order.size)}${price > 0 ? ` @ $${price.toFixed(price < 1 ? 6 : 2)}` : ''}`,
+      `**Status:** ${order.status}`,
+      `**Order ID:** ${order.tx || 'N/A'}`,
+      '',
+      '📜 Use /orders to see your order history.'
+    ].join('\n');
+  }
+}
@@ -0,0 +1,352 @@
+import { AsterApiClient } from '../aster';
+import { SymbolFilters } from '../filters';
+import { LeveragePolicyService } from './LeveragePolicyService';
+import { LadderDraft, LadderSpacing, LadderWeighting, OrderResponse } from '../types';
+
+export interface LadderLevel {
+  price: string;
+  quantity: string;
+  notional: number;
+}
+
+export type LadderPlan =
+  | {
+      success: true;
+      levels: LadderLevel[];
+      totalQuantity: number;
+      totalNotional: number;
+      averagePrice: number;
+      markPrice: number;
+      warnings: string[];
+    }
+  | { success: false; errors: string[] };
+
+export interface LadderLevelResult {
+  level: LadderLevel;
+  order?: OrderResponse;
+  error?: string;
+}
+
+export class LadderService {
+  static readonly MIN_LEVELS = 2;
+  static readonly MAX_LEVELS = 10;
+  static readonly COUNT_OPTIONS = [3, 5, 7, 10];
+  static readonly QUICK_AMOUNTS = [100, 250, 500, 1000];
+  static readonly CLOSE_OPTIONS = [25, 50, 100];
+  static readonly WEIGHTING_LABELS: Record<LadderWeighting, string> = {
+    equal: 'Equal',
+    pyramid: 'Pyramid',
+    front: 'Front'
+  };
+
+  private apiClient: AsterApiClient;
+  private leveragePolicy: LeveragePolicyService;
+  private filtersCache = new Map<string, SymbolFilters | null>();
+
+  constructor(apiClient: AsterApiClient, leveragePolicy: LeveragePolicyService) {
+    this.apiClient = apiClient;
+    this.leveragePolicy = leveragePolicy;
+  }
+
+  /**
+   * Level prices from `from` to `to` inclusive, evenly spaced in price or in percent
+   */
+  static levelPrices(from: number, to: number, count: number, spacing: LadderSpacing): number[] {
+    return Array.from({ length: count }, (_, i) => {
+      const t = i / (count - 1);
+      return spacing === 'geometric' ? from * Math.pow(to / from, t) : from + (to - from) * t;
+    });
+  }
+
+  /**
+   * Share of the total size at each level, summing to 1
+   */
+  static weights(count: number, weighting: LadderWeighting): number[] {
+    const raw = Array.from({ length: count }, (_, i) => {
+      switch (weighting) {
+        case 'equal': return 1;
+        case 'pyramid': return i + 1;
+        case 'front': return count - i;
+      }
+    });
+    const total = raw.reduce((sum, value) => sum + value, 0);
+    return raw.map(value => value / total);
+  }
+
+  /**
+   * Accepts "3200 3000", "3200-3000" or "3200 to 3000"
+   */
+  static parseRange(text: string): { from: number; to: number } | null {
+    const match = text.trim().replace(/[$,]/g, '').match(/^(\d+(?:\.\d+)?)\s*(?:-|to|\s)\s*(\d+(?:\.\d+)?)$/i);
+    if (!match) return null;
+
+    const from = parseFloat(match[1]);
+    const to = parseFloat(match[2]);
+    return from > 0 && to > 0 && from !== to ? { from, to } : null;
+  }
+
+  async getMarkPrice(symbol: string): Promise<number> {
+    const markPrices = await this.apiClient.getMarkPrice(symbol);
+    return parseFloat(markPrices[0]?.markPrice || '0');
+  }
+
+  /**
+   * Split the draft into rounded levels and check every one against the symbol filters
+   */
+  async plan(draft: LadderDraft): Promise<LadderPlan> {
+    if (!draft.from || !draft.to) {
+      return { success: false, errors: ['Price range is required'] };
+    }
+    if (draft.count < LadderService.MIN_LEVELS || draft.count > LadderService.MAX_LEVELS) {
+      return { success: false, errors: [`A ladder needs between ${LadderService.MIN_LEVELS} and ${LadderService.MAX_LEVELS} levels`] };
+    }
+
+    const [filters, markPrice] = await Promise.all([
+      this.getFilters(draft.symbol),
+      this.getMarkPrice(draft.symbol)
+    ]);
+    if (!filters) {
+      return { success: false, errors: [`No trading rules found for ${draft.symbol}`] };
+    }
+    if (markPrice <= 0) {
+      return { success: false, errors: [`No mark price available for ${draft.symbol}`] };
+    }
+
+    const prices = LadderService.levelPrices(draft.from, draft.to, draft.count, draft.spacing).map(price => filters.roundPrice(price));
+    if (new Set(prices).size < prices.length) {
+      return {
+        success: false,
+        errors: [`The range is too narrow for ${draft.count} levels at tick size ${filters.getTickSize()}. Widen it or use fewer levels.`]
+      };
+    }
+
+    const sizing = await this.sizeLevels(draft, prices, filters);
+    if ('error' in sizing) {
+      return { success: false, errors: [sizing.error] };
+    }
+
+    const reduceOnly = draft.purpose === 'take_profit';
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const levels: LadderLevel[] = [];
+
+    prices.forEach((price, i) => {
+      const quantity = sizing.quantities[i];
+      const priceNum = parseFloat(price);
+      const label = `Level ${i + 1} ($${price})`;
+
+      if (parseFloat(quantity) <= 0) {
+        errors.push(`${label}: size is below the minimum lot of ${draft.symbol.replace('USDT', '')}`);
+        return;
+      }
+
+      const validation = filters.validateOrder(price, quantity, 'LIMIT', reduceOnly, markPrice);
+      errors.push(...validation.errors.map(error => `${label}: ${error}`));
+
+      // A limit on the wrong side of the market fills straight away as a taker
+      if (draft.side === 'BUY' ? priceNum >= markPrice : priceNum <= markPrice) {
+        warnings.push(`${label} is ${draft.side === 'BUY' ? 'above' : 'below'} the mark price and will fill immediately`);
+      }
+
+      levels.push({ price, quantity, notional: priceNum * parseFloat(quantity) });
+    });
+
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    warnings.push(...sizing.warnings);
+
+    const totalQuantity = levels.reduce((sum, level) => sum + parseFloat(level.quantity), 0);
+    const totalNotional = levels.reduce((sum, level) => sum + level.notional, 0);
+
+    return {
+      success: true,
+      levels,
+      totalQuantity,
+      totalNotional,
+      averagePrice: totalNotional / totalQuantity,
+      markPrice,
+      warnings
+    };
+  }
+
+  /**
+   * Submit every level as a GTC limit. Entries set leverage first; take-profits are reduce-only.
+   * Keeps going after a failed level so the caller can report partial ladders.
+   */
+  async place(draft: LadderDraft, levels: LadderLevel[], clientOrderIdBase?: string): Promise<LadderLevelResult[]> {
+    if (draft.purpose === 'entry' && draft.leverage) {
+      const totalNotional = levels.reduce((sum, level) => sum + level.notional, 0);
+      await this.leveragePolicy.apply(draft.symbol, draft.leverage, totalNotional);
+    }
+
+    const results: LadderLevelResult[] = [];
+    for (const [i, level] of levels.entries()) {
+      try {
+        const order = await this.apiClient.createOrder({
+          symbol: draft.symbol,
+          side: draft.side,
+          type: 'LIMIT',
+          price: level.price,
+          quantity: level.quantity,
+          timeInForce: 'GTC',
+          ...(draft.purpose === 'take_profit' ? { reduceOnly: true } : {}),
+          ...(clientOrderIdBase ? { newClientOrderId: `${clientOrderIdBase.slice(0, 32)}_l${i}` } : {})
+        });
+        results.push({ level, order });
+      } catch (error: any) {
+        console.error(`[LadderService] Level ${i + 1} failed for ${draft.symbol}:`, error);
+        results.push({ level, error: error.message || 'Unknown error' });
+      }
+    }
+
+    return results;
+  }
+
+  formatRangePrompt(draft: LadderDraft, markPrice: number): string {
+    const example = draft.side === 'BUY'
+      ? `${(markPrice * 0.99).toFixed(2)} ${(markPrice * 0.95).toFixed(2)}`
+      : `${(markPrice * 1.01).toFixed(2)} ${(markPrice * 1.05).toFixed(2)}`;
+
+    return [
+      `🪜 **${LadderService.describe(draft)}**`,
+      '',
+      `**Mark Price:** $${markPrice}`,
+      '',
+      '🎯 **Step 1: Price Range**',
+      '',
+      'Send the first and last level prices, e.g. `' + example + '`'
+    ].join('\n');
+  }
+
+  formatAmountPrompt(draft: LadderDraft): string {
+    return [
+      `🪜 **${LadderService.describe(draft)}**`,
+      '',
+      `**Range:** $${draft.from} → $${draft.to}`,
+      '',
+      '🎯 **Step 2: Total Size**',
+      '',
+      'Pick an amount or type a USDT amount to spread across the levels, e.g. `500`'
+    ].join('\n');
+  }
+
+  formatPreview(draft: LadderDraft, plan: Extract<LadderPlan, { success: true }>): string {
+    const asset = draft.symbol.replace('USDT', '');
+    const averageLabel = draft.purpose === 'entry' ? 'Avg Entry' : 'Avg Exit';
+
+    const lines = [
+      `🪜 **Confirm ${LadderService.describe(draft)}**`,
+      '',
+      `**Levels:** ${draft.count} • ${draft.spacing === 'geometric' ? 'Geometric' : 'Linear'} spacing • ${LadderService.WEIGHTING_LABELS[draft.weighting]} sizing`,
+      ...(draft.purpose === 'take_profit' ? [`**Closes:** ${draft.closePercent}% of the position`] : []),
+      '',
+      ...plan.levels.map((level, i) => `${i + 1}. $${level.price} × ${level.quantity} (≈ $${level.notional.toFixed(2)})`),
+      '',
+      `**Total:** ${LadderService.formatQuantity(plan.totalQuantity)} ${asset} (≈ $${plan.totalNotional.toFixed(2)})`,
+      `**${averageLabel}:** $${plan.averagePrice.toFixed(4)} if every level fills`,
+      `**Mark Price:** $${plan.markPrice}`
+    ];
+
+    if (plan.warnings.length > 0) {
+      lines.push('', '⚠️ **Warnings:**', ...plan.warnings.map(warning => `• ${warning}`));
+    }
+
+    lines.push('', '⏳ Each level rests on the book until it fills or you cancel it.');
+    return lines.join('\n');
+  }
+
+  formatPlaced(draft: LadderDraft, results: LadderLevelResult[]): string {
+    const placed = results.filter(result => result.order);
+    const failed = results.filter(result => result.error);
+
+    const lines = [
+      failed.length === 0 ? '✅ **Ladder Placed**' : placed.length > 0 ? '⚠️ **Ladder Partially Placed**' : '❌ **Ladder Failed**',
+      '',
+      `**${LadderService.describe(draft)}**`,
+      '',
+      ...results.map((result, i) => result.order
+        ? `✅ ${i + 1}. $${result.order.price || result.level.price} × ${result.order.origQty || result.level.quantity} • ID ${result.order.orderId}`
+        : `❌ ${i + 1}. $${result.level.price} × ${result.level.quantity} • ${result.error}`)
+    ];
+
+    if (placed.length > 0) {
+      lines.push('', '🔔 You will be notified as levels fill.');
+    }
+    return lines.join('\n');
+  }
+
+  static describe(draft: LadderDraft): string {
+    const asset = draft.symbol.replace('USDT', '');
+    if (draft.purpose === 'take_profit') {
+      return `Scaled Take Profit ${asset}`;
+    }
+    return `Ladder ${draft.side === 'BUY' ? 'Long' : 'Short'} ${asset} ${draft.leverage}x`;
+  }
+
+  private static formatQuantity(quantity: number): string {
+    return parseFloat(quantity.toFixed(8)).toString();
+  }
+
+  /**
+   * Base quantity per level. USDT entries split the notional, base entries and take-profits split the quantity.
+   */
+  private async sizeLevels(
+    draft: LadderDraft,
+    prices: string[],
+    filters: SymbolFilters
+  ): Promise<{ quantities: string[]; warnings: string[] } | { error: string }> {
+    const weights = LadderService.weights(draft.count, draft.weighting);
+
+    if (draft.purpose === 'take_profit') {
+      const positions = await this.apiClient.getPositionRisk();
+      // A sell ladder takes profit on the long (leg), a buy ladder on the short
+      const position = AsterApiClient.findPosition(positions, draft.symbol, draft.side === 'SELL' ? 'LONG' : 'SHORT');
+      if (!position) {
+        return { error: `No open position to take profit on for ${draft.symbol}` };
+      }
+
+      const total = Math.abs(parseFloat(position.positionAmt)) * (draft.closePercent ?? 100) / 100;
+      const quantities = weights.slice(0, -1).map(weight => filters.floorQuantity(total * weight));
+      const allocated = quantities.reduce((sum, quantity) => sum + parseFloat(quantity), 0);
+      // The last level takes the rounding remainder so the ladder closes the full share
+      quantities.push(filters.floorQuantity(total - allocated));
+
+      const entryPrice = parseFloat(position.entryPrice);
+      const losing = prices.filter(price => draft.side === 'SELL' ? parseFloat(price) <= entryPrice : parseFloat(price) >= entryPrice);
+      const warnings = losing.length > 0
+        ? [`${losing.length} level(s) are not in profit against the entry price $${position.entryPrice}`]
+        : [];
+
+      return { quantities, warnings };
+    }
+
+    if (draft.quoteAmount) {
+      return {
+        quantities: prices.map((price, i) => filters.floorQuantity(draft.quoteAmount! * weights[i] / parseFloat(price))),
+        warnings: []
+      };
+    }
+
+    if (draft.baseQuantity) {
+      const total = parseFloat(draft.baseQuantity);
+      return { quantities: weights.map(weight => filters.floorQuantity(total * weight)), warnings: [] };
+    }
+
+    return { error: 'Order size is required' };
+  }
+
+  private async getFilters(symbol: string): Promise<SymbolFilters | null> {
+    if (this.filtersCache.has(symbol)) {
+      return this.filtersCache.get(symbol)!;
+    }
+
+    const exchangeInfo = await this.apiClient.getExchangeInfo();
+    const symbolInfo = exchangeInfo.symbols.find(s => s.symbol === symbol);
+    const filters = symbolInfo ? new SymbolFilters(symbolInfo) : null;
+
+    this.filtersCache.set(symbol, filters);
+    return filters;
+  }
+}
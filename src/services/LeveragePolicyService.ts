@@ -0,0 +1,113 @@
+import { AsterApiClient } from '../aster';
+import { LeverageBracket } from '../types';
+
+export interface LeverageLimits {
+  userCap: number;
+  globalMax: number;
+  // Exchange bracket limit for the order's notional, null when the brackets could not be loaded
+  symbolMax: number | null;
+  maxLeverage: number;
+}
+
+export type LeverageCheck =
+  | { success: true; leverage: number; limits: LeverageLimits }
+  | { success: false; errors: string[]; limits: LeverageLimits };
+
+/**
+ * Single gate for futures leverage. Every leverage change goes through apply(), which
+ * re-checks against the user's cap, the bot-wide max and the symbol's bracket so a
+ * leverage carried in callback data or typed text is never trusted as-is.
+ */
+export class LeveragePolicyService {
+  private apiClient: AsterApiClient;
+  private userCap: number;
+  private globalMax: number;
+
+  constructor(apiClient: AsterApiClient, userCap: number, globalMax: number) {
+    this.apiClient = apiClient;
+    this.userCap = userCap;
+    this.globalMax = globalMax;
+  }
+
+  /**
+   * Highest initial leverage the exchange allows for a position of this notional.
+   * Without a notional the first bracket's leverage is the symbol's overall max.
+   */
+  static bracketMaxLeverage(brackets: LeverageBracket[], notional?: number): number | null {
+    if (brackets.length === 0) return null;
+
+    const sorted = [...brackets].sort((a, b) => a.notionalFloor - b.notionalFloor);
+    if (!notional || notional <= 0) {
+      return Math.max(...sorted.map(bracket => bracket.initialLeverage));
+    }
+
+    const bracket = sorted.find(b => notional >= b.notionalFloor && notional < b.notionalCap) ?? sorted[sorted.length - 1];
+    return bracket.initialLeverage;
+  }
+
+  async getLimits(symbol: string, notional?: number): Promise<LeverageLimits> {
+    let symbolMax: number | null = null;
+    try {
+      const [symbolBrackets] = await this.apiClient.getLeverageBrackets(symbol);
+      symbolMax = LeveragePolicyService.bracketMaxLeverage(symbolBrackets?.brackets ?? [], notional);
+    } catch (error) {
+      // The exchange still enforces its own brackets, so the user and global caps are enough to proceed
+      console.warn(`[LeveragePolicy] Could not load leverage brackets for ${symbol}:`, error);
+    }
+
+    const maxLeverage = Math.min(this.userCap, this.globalMax, symbolMax ?? Infinity);
+    return { userCap: this.userCap, globalMax: this.globalMax, symbolMax, maxLeverage };
+  }
+
+  async check(symbol: string, leverage: number, notional?: number): Promise<LeverageCheck> {
+    const limits = await this.getLimits(symbol, notional);
+
+    if (!Number.isInteger(leverage) || leverage < 1) {
+      return { success: false, errors: [`Leverage must be a whole number of at least 1x, got ${leverage}x`], limits };
+    }
+
+    const errors: string[] = [];
+    if (leverage > limits.userCap) {
+      errors.push(`${leverage}x is above your leverage cap of ${limits.userCap}x`);
+    }
+    if (leverage > limits.globalMax) {
+      errors.push(`${leverage}x is above the bot maximum of ${limits.globalMax}x`);
+    }
+    if (limits.symbolMax !== null && leverage > limits.symbolMax) {
+      errors.push(
+        notional
+          ? `${symbol} allows at most ${limits.symbolMax}x for a $${notional.toFixed(2)} position`
+          : `${symbol} allows at most ${limits.symbolMax}x`
+      );
+    }
+
+    return errors.length > 0 ? { success: false, errors, limits } : { success: true, leverage, limits };
+  }
+
+  /**
+   * Check the leverage and set it on the exchange. Throws when the policy rejects it,
+   * so callers never go on to submit the order.
+   */
+  async apply(symbol: string, leverage: number, notional?: number): Promise<number> {
+    const check = await this.check(symbol, leverage, notional);
+    if (!check.success) {
+      throw new Error(`Leverage rejected: ${check.errors.join('; ')}`);
+    }
+
+    await this.apiClient.changeLeverage(symbol, check.leverage);
+    return check.leverage;
+  }
+
+  formatRejection(symbol: string, leverage: number, errors: string[], limits: LeverageLimits): string {
+    return [
+      '🛡️ **Leverage Not Allowed**',
+      '',
+      `**Requested:** ${leverage}x on ${symbol}`,
+      ...errors.map(error => `• ${error}`),
+      '',
+      `**Highest allowed here:** ${limits.maxLeverage}x`,
+      '',
+      'Pick a lower leverage, or raise your cap in ⚙️ Settings → Leverage.'
+    ].join('\n');
+  }
+}
@@ -0,0 +1,305 @@
+import { AsterApiClient } from '../aster';
+import { SymbolFilters } from '../filters';
+import { LeveragePolicyService } from './LeveragePolicyService';
+import { LimitOrderDraft, LimitTimeInForce } from '../types';
+
+export interface LimitQuote {
+  bid: number;
+  ask: number;
+  mid: number;
+  // Price the exchange anchors PERCENT_PRICE to: mark price for perps, mid for spot
+  reference: number;
+  pricePrecision: number;
+}
+
+export type LimitPricePreset = 'best' | 'mid' | 'offset';
+
+export type LimitCheckResult =
+  | { success: true; price: string; quantity?: string; notes: string[] }
+  | { success: false; errors: string[] };
+
+export class LimitOrderService {
+  static readonly OFFSET_PERCENT = 1;
+  static readonly QUICK_AMOUNTS = [25, 50, 100, 250];
+  static readonly TIME_IN_FORCE_LABELS: Record<LimitTimeInForce, string> = {
+    GTC: 'GTC',
+    IOC: 'IOC',
+    FOK: 'FOK',
+    GTX: 'Post-only'
+  };
+
+  private apiClient: AsterApiClient;
+  private leveragePolicy: LeveragePolicyService;
+  private filtersCache = new Map<string, SymbolFilters | null>();
+
+  constructor(apiClient: AsterApiClient, leveragePolicy: LeveragePolicyService) {
+    this.apiClient = apiClient;
+    this.leveragePolicy = leveragePolicy;
+  }
+
+  /**
+   * Top of book plus the PERCENT_PRICE reference for a symbol
+   */
+  async getQuote(market: 'spot' | 'perps', symbol: string): Promise<LimitQuote> {
+    const [orderBook, filters, markPrices] = await Promise.all([
+      market === 'spot' ? this.apiClient.getSpotOrderBook(symbol, 5) : this.apiClient.getOrderBook(symbol, 5),
+      this.getFilters(market, symbol),
+      market === 'perps' ? this.apiClient.getMarkPrice(symbol) : Promise.resolve([])
+    ]);
+
+    const bid = parseFloat(orderBook.bids[0]?.[0] || '0');
+    const ask = parseFloat(orderBook.asks[0]?.[0] || '0');
+    if (bid <= 0 || ask <= 0) {
+      throw new Error(`No order book available for ${symbol}`);
+    }
+
+    const mid = (bid + ask) / 2;
+    const markPrice = parseFloat(markPrices[0]?.markPrice || '0');
+
+    return {
+      bid,
+      ask,
+      mid,
+      reference: markPrice > 0 ? markPrice : mid,
+      pricePrecision: filters?.getPricePrecision() ?? 8
+    };
+  }
+
+  /**
+   * Price for a quick button: best bid/ask on our side of the book, mid, or 1% away from mid
+   */
+  static resolvePreset(quote: LimitQuote, side: 'BUY' | 'SELL', preset: LimitPricePreset): number {
+    switch (preset) {
+      case 'best':
+        return side === 'BUY' ? quote.bid : quote.ask;
+      case 'mid':
+        return quote.mid;
+      case 'offset': {
+        const factor = LimitOrderService.OFFSET_PERCENT / 100;
+        return side === 'BUY' ? quote.mid * (1 - factor) : quote.mid * (1 + factor);
+      }
+    }
+  }
+
+  static describePreset(side: 'BUY' | 'SELL', preset: LimitPricePreset): string {
+    switch (preset) {
+      case 'best':
+        return side === 'BUY' ? 'Best Bid' : 'Best Ask';
+      case 'mid':
+        return 'Mid';
+      case 'offset':
+        return `${side === 'BUY' ? '-' : '+'}${LimitOrderService.OFFSET_PERCENT}%`;
+    }
+  }
+
+  /**
+   * Round a raw price to the tick size and check it against the price bounds and PERCENT_PRICE
+   */
+  async checkPrice(draft: LimitOrderDraft, rawPrice: number, quote: LimitQuote): Promise<LimitCheckResult> {
+    if (!Number.isFinite(rawPrice) || rawPrice <= 0) {
+      return { success: false, errors: ['Price must be a positive number'] };
+    }
+
+    const filters = await this.getFilters(draft.market, draft.symbol);
+    if (!filters) {
+      return { success: false, errors: [`No trading rules found for ${draft.symbol}`] };
+    }
+
+    const price = filters.roundPrice(rawPrice);
+    const priceNum = parseFloat(price);
+    const notes: string[] = [];
+    const errors: string[] = [];
+
+    if (priceNum <= 0) {
+      errors.push(`Price ${rawPrice} is below the tick size ${filters.getTickSize()}`);
+    } else if (priceNum !== rawPrice) {
+      notes.push(`Price rounded to ${price} (tick size ${filters.getTickSize()})`);
+    }
+
+    if (filters.getMinPrice() > 0 && priceNum < filters.getMinPrice()) {
+      errors.push(`Price is below the minimum ${filters.getMinPrice()}`);
+    }
+    if (filters.getMaxPrice() > 0 && priceNum > filters.getMaxPrice()) {
+      errors.push(`Price is above the maximum ${filters.getMaxPrice()}`);
+    }
+
+    const { upper, lower } = filters.getPercentPriceBounds(quote.reference);
+    if (priceNum > upper || priceNum < lower) {
+      errors.push(
+        `Price must be between $${lower.toFixed(quote.pricePrecision)} and $${upper.toFixed(quote.pricePrecision)} ` +
+        `at the current market price`
+      );
+    }
+
+    return errors.length > 0 ? { success: false, errors } : { success: true, price, notes };
+  }
+
+  /**
+   * Validate the full order (price, quantity and notional) before it is confirmed or placed
+   */
+  async checkOrder(draft: LimitOrderDraft, quote: LimitQuote): Promise<LimitCheckResult> {
+    if (!draft.price || !draft.quoteAmount) {
+      return { success: false, errors: ['Price and amount are required'] };
+    }
+
+    const filters = await this.getFilters(draft.market, draft.symbol);
+    if (!filters) {
+      return { success: false, errors: [`No trading rules found for ${draft.symbol}`] };
+    }
+
+    const price = parseFloat(draft.price);
+    const quantity = filters.roundQuantity(draft.quoteAmount / price);
+    const validation = filters.validateOrder(draft.price, quantity, 'LIMIT', false, quote.reference);
+
+    const errors = [...validation.errors];
+    if (parseFloat(validation.adjustedQuantity ?? quantity) <= 0) {
+      errors.push(`Amount is too small for the minimum lot of ${draft.symbol.replace('USDT', '')}`);
+    }
+
+    // Post-only orders are rejected by the exchange if they would match on arrival
+    if (draft.timeInForce === 'GTX' && ((draft.side === 'BUY' && price >= quote.ask) || (draft.side === 'SELL' && price <= quote.bid))) {
+      errors.push(`A post-only ${draft.side === 'BUY' ? 'buy' : 'sell'} at this price would fill immediately. Pick a price ${draft.side === 'BUY' ? 'below the best ask' : 'above the best bid'}.`);
+    }
+
+    if (errors.length > 0) {
+      return { success: false, errors };
+    }
+
+    return {
+      success: true,
+      price: validation.adjustedPrice ?? draft.price,
+      quantity: validation.adjustedQuantity ?? quantity,
+      notes: []
+    };
+  }
+
+  /**
+   * Submit a validated draft. Perps orders set the draft's leverage first.
+   */
+  async place(draft: LimitOrderDraft, clientOrderId?: string): Promise<any> {
+    if (!draft.price || !draft.quantity) {
+      throw new Error('Limit order is missing a price or quantity');
+    }
+
+    if (draft.market === 'spot') {
+      return this.apiClient.createSpotOrder({
+        symbol: draft.symbol,
+        side: draft.side,
+        type: 'LIMIT',
+        price: draft.price,
+        quantity: draft.quantity,
+        timeInForce: draft.timeInForce,
+        ...(clientOrderId ? { newClientOrderId: clientOrderId } : {})
+      });
+    }
+
+    if (draft.leverage) {
+      await this.leveragePolicy.apply(draft.symbol, draft.leverage, parseFloat(draft.price) * parseFloat(draft.quantity));
+    }
+
+    return this.apiClient.createOrder({
+      symbol: draft.symbol,
+      side: draft.side,
+      type: 'LIMIT',
+      price: draft.price,
+      quantity: draft.quantity,
+      timeInForce: draft.timeInForce,
+      ...(clientOrderId ? { newClientOrderId: clientOrderId } : {})
+    });
+  }
+
+  formatPricePrompt(draft: LimitOrderDraft, quote: LimitQuote): string {
+    const precision = quote.pricePrecision;
+
+    return [
+      `📐 **Limit ${LimitOrderService.describeOrder(draft)}**`,
+      '',
+      `**Best Bid:** $${quote.bid.toFixed(precision)}`,
+      `**Best Ask:** $${quote.ask.toFixed(precision)}`,
+      `**Mid:** $${quote.mid.toFixed(precision)}`,
+      '',
+      '🎯 **Step 1: Limit Price**',
+      '',
+      'Pick a quick price or type your own, e.g. `' + quote.mid.toFixed(precision) + '`'
+    ].join('\n');
+  }
+
+  formatAmountPrompt(draft: LimitOrderDraft, notes: string[] = []): string {
+    return [
+      `📐 **Limit ${LimitOrderService.describeOrder(draft)}**`,
+      '',
+      `**Limit Price:** $${draft.price}`,
+      ...notes.map(note => `ℹ️ ${note}`),
+      '',
+      '🎯 **Step 2: Order Size**',
+      '',
+      'Pick an amount or type a USDT amount, e.g. `100`'
+    ].join('\n');
+  }
+
+  formatConfirmation(draft: LimitOrderDraft): string {
+    const price = parseFloat(draft.price || '0');
+    const quantity = parseFloat(draft.quantity || '0');
+
+    return [
+      `📐 **Confirm Limit ${LimitOrderService.describeOrder(draft)}**`,
+      '',
+      `**Limit Price:** $${draft.price}`,
+      `**Quantity:** ${draft.quantity} ${draft.symbol.replace('USDT', '')}`,
+      `**Value:** ≈ $${(price * quantity).toFixed(2)}`,
+      `**Time in Force:** ${LimitOrderService.describeTimeInForce(draft.timeInForce)}`,
+      '',
+      '⏳ The order rests on the book until it fills or you cancel it.'
+    ].join('\n');
+  }
+
+  formatPlaced(draft: LimitOrderDraft, response: any): string {
+    const filled = parseFloat(response?.executedQty || '0');
+
+    return [
+      '✅ **Limit Order Placed**',
+      '',
+      `**${LimitOrderService.describeOrder(draft)}**`,
+      `**Price:** $${response?.price || draft.price}`,
+      `**Quantity:** ${response?.origQty || draft.quantity}`,
+      `**Time in Force:** ${LimitOrderService.describeTimeInForce(draft.timeInForce)}`,
+      `**Status:** ${response?.status || 'NEW'}${filled > 0 ? ` (${filled} filled)` : ''}`,
+      `**Order ID:** ${response?.orderId ?? 'N/A'}`,
+      '',
+      '🔔 You will be notified when it fills.'
+    ].join('\n');
+  }
+
+  static describeOrder(draft: LimitOrderDraft): string {
+    const asset = draft.symbol.replace('USDT', '');
+    if (draft.market === 'spot') {
+      return `${draft.side === 'BUY' ? 'Buy' : 'Sell'} ${asset}`;
+    }
+    return `${draft.side === 'BUY' ? 'Long' : 'Short'} ${asset} ${draft.leverage}x`;
+  }
+
+  static describeTimeInForce(timeInForce: LimitTimeInForce): string {
+    switch (timeInForce) {
+      case 'GTC': return 'Good till cancelled';
+      case 'IOC': return 'Immediate or cancel';
+      case 'FOK': return 'Fill or kill';
+      case 'GTX': return 'Post-only (maker)';
+    }
+  }
+
+  private async getFilters(market: 'spot' | 'perps', symbol: string): Promise<SymbolFilters | null> {
+    const key = `${market}:${symbol}`;
+    if (this.filtersCache.has(key)) {
+      return this.filtersCache.get(key)!;
+    }
+
+    const exchangeInfo = market === 'spot'
+      ? await this.apiClient.getSpotExchangeInfo()
+      : await this.apiClient.getExchangeInfo();
+    const symbolInfo = exchangeInfo.symbols?.find((s: any) => s.symbol === symbol);
+    const filters = symbolInfo ? new SymbolFilters(symbolInfo) : null;
+
+    this.filtersCache.set(key, filters);
+    return filters;
+  }
+}
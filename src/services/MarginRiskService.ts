@@ -0,0 +1,408 @@
+import { AsterApiClient } from '../aster';
+import { DatabaseManager } from '../db';
+import { BotEventEmitter, EventTypes, MarginAlertEvent } from '../events/EventEmitter';
+import { ApiClientService } from './ApiClientService';
+import { FuturesAccountService, FuturesPosition } from './FuturesAccountService';
+import { AccountInfo } from '../types';
+
+export interface PositionMarginMetrics {
+  position: FuturesPosition;
+  markPrice: number;
+  maintMargin: number;
+  // Equity backing the position: its isolated wallet plus PnL, or the shared cross balance
+  marginBalance: number;
+  // Maintenance margin as a percent of margin balance; liquidation happens at 100%
+  marginRatio: number;
+  liquidationPrice: number | null;
+  liquidationEstimated: boolean;
+  liquidationDistancePercent: number | null;
+}
+
+export interface AccountMarginReport {
+  marginBalance: number;
+  maintMargin: number;
+  marginRatio: number;
+  crossMarginBalance: number;
+  crossMaintMargin: number;
+  crossMarginRatio: number;
+  positions: PositionMarginMetrics[];
+}
+
+export interface MarginChangePreview {
+  isolatedMargin: number;
+  marginRatio: number;
+  liquidationPrice: number | null;
+  liquidationDistancePercent: number | null;
+}
+
+export class MarginRiskService {
+  static readonly DEFAULT_INTERVAL_MS = 60 * 1000;
+  static readonly ALERT_LEVEL_PRESETS = [[50, 80], [30, 60, 90], [70, 90]];
+  static readonly ADD_MARGIN_PRESETS = [10, 25, 50, 100];
+  static readonly REDUCE_MARGIN_SHARES = [25, 50, 100];
+  static readonly WARNING_MARGIN_RATIO = 50;
+  static readonly DANGER_MARGIN_RATIO = 80;
+  static readonly WARNING_LIQUIDATION_DISTANCE = 10;
+  // Used when the account endpoint does not report a position's maintenance margin
+  static readonly MAINTENANCE_MARGIN_RATE = 0.005;
+
+  private static readonly ACCOUNT_SCOPE = 'account';
+
+  private db: DatabaseManager;
+  private apiClientService: ApiClientService;
+  private eventEmitter: BotEventEmitter;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping = false;
+
+  constructor(db: DatabaseManager, apiClientService: ApiClientService, eventEmitter: BotEventEmitter) {
+    this.db = db;
+    this.apiClientService = apiClientService;
+    this.eventEmitter = eventEmitter;
+  }
+
+  /**
+   * Margin ratio and liquidation distance for the account and each open position
+   */
+  async analyze(apiClient: AsterApiClient, openPositions?: FuturesPosition[]): Promise<AccountMarginReport> {
+    const futuresService = new FuturesAccountService(apiClient);
+    const [account, positions] = await Promise.all([
+      futuresService.getFuturesAccount(),
+      openPositions ? Promise.resolve(openPositions) : futuresService.getOpenPositions()
+    ]);
+
+    return MarginRiskService.buildReport(account, positions);
+  }
+
+  static buildReport(account: AccountInfo, positions: FuturesPosition[]): AccountMarginReport {
+    // Keyed by leg as well, since a hedged symbol has a LONG and a SHORT row
+    const reportedMaint = new Map(
+      (account.positions || [])
+        .filter(p => parseFloat(p.positionAmt) !== 0)
+        .map(p => [`${p.symbol}:${p.positionSide || 'BOTH'}`, parseFloat(p.maintMargin)])
+    );
+
+    const withMaint = positions.map(position => {
+      const markPrice = position.currentPrice || position.entryPrice;
+      const reported = reportedMaint.get(`${position.symbol}:${position.positionSide}`);
+      const maintMargin = reported !== undefined && reported > 0
+        ? reported
+        : position.size * markPrice * MarginRiskService.MAINTENANCE_MARGIN_RATE;
+      return { position, markPrice, maintMargin };
+    });
+
+    const crossMarginBalance = parseFloat(account.totalCrossWalletBalance) + parseFloat(account.totalCrossUnPnl || '0');
+    const crossMaintMargin = withMaint
+      .filter(({ position }) => position.marginType === 'cross')
+      .reduce((sum, { maintMargin }) => sum + maintMargin, 0);
+
+    const metrics = withMaint.map(({ position, markPrice, maintMargin }): PositionMarginMetrics => {
+      const isolated = position.marginType === 'isolated';
+      const pnl = position.realTimeUnrealizedPnl ?? position.unrealizedPnl;
+      const marginBalance = isolated ? (position.isolatedWallet ?? 0) + pnl : crossMarginBalance;
+      const scopeMaint = isolated ? maintMargin : crossMaintMargin;
+
+      const liquidationPrice = position.liquidationPrice
+        ?? MarginRiskService.estimateLiquidationPrice(position.side, markPrice, position.size, marginBalance - scopeMaint);
+
+      return {
+        position,
+        markPrice,
+        maintMargin,
+        marginBalance,
+        marginRatio: MarginRiskService.ratio(scopeMaint, marginBalance),
+        liquidationPrice,
+        liquidationEstimated: position.liquidationPrice === undefined,
+        liquidationDistancePercent: liquidationPrice !== null
+          ? MarginRiskService.liquidationDistance(position.side, markPrice, liquidationPrice)
+          : null
+      };
+    });
+
+    const marginBalance = parseFloat(account.totalMarginBalance);
+    const maintMargin = account.totalMaintMargin !== undefined
+      ? parseFloat(account.totalMaintMargin)
+      : withMaint.reduce((sum, { maintMargin }) => sum + maintMargin, 0);
+
+    return {
+      marginBalance,
+      maintMargin,
+      marginRatio: MarginRiskService.ratio(maintMargin, marginBalance),
+      crossMarginBalance,
+      crossMaintMargin,
+      crossMarginRatio: MarginRiskService.ratio(crossMaintMargin, crossMarginBalance),
+      positions: metrics
+    };
+  }
+
+  /**
+   * Price at which the margin above maintenance is used up, assuming nothing else in the account moves
+   */
+  static estimateLiquidationPrice(side: FuturesPosition['side'], markPrice: number, size: number, buffer: number): number | null {
+    if (size <= 0 || side === 'NONE') return null;
+
+    const price = side === 'LONG' ? markPrice - buffer / size : markPrice + buffer / size;
+    return price > 0 ? price : null;
+  }
+
+  static liquidationDistance(side: FuturesPosition['side'], markPrice: number, liquidationPrice: number): number {
+    const distance = side === 'LONG' ? markPrice - liquidationPrice : liquidationPrice - markPrice;
+    return Math.max(0, distance / markPrice * 100);
+  }
+
+  /**
+   * Margin ratio and liquidation price after adding (positive delta) or removing (negative) isolated margin
+   */
+  static previewMarginChange(metrics: PositionMarginMetrics, delta: number): MarginChangePreview {
+    const { side, size } = metrics.position;
+    const marginBalance = metrics.marginBalance + delta;
+
+    // Each USDT of margin moves the liquidation price by 1/size
+    let liquidationPrice: number | null;
+    if (metrics.liquidationPrice !== null) {
+      const shifted = side === 'LONG' ? metrics.liquidationPrice - delta / size : metrics.liquidationPrice + delta / size;
+      liquidationPrice = shifted > 0 ? shifted : null;
+    } else {
+      liquidationPrice = MarginRiskService.estimateLiquidationPrice(side, metrics.markPrice, size, marginBalance - metrics.maintMargin);
+    }
+
+    return {
+      isolatedMargin: (metrics.position.isolatedWallet ?? 0) + delta,
+      marginRatio: MarginRiskService.ratio(metrics.maintMargin, marginBalance),
+      liquidationPrice,
+      liquidationDistancePercent: liquidationPrice !== null
+        ? MarginRiskService.liquidationDistance(side, metrics.markPrice, liquidationPrice)
+        : null
+    };
+  }
+
+  /**
+   * Isolated margin that can be taken out while keeping the initial margin the position needs.
+   * Unrealized profit cannot be withdrawn, unrealized loss reduces what can.
+   */
+  static maxRemovableMargin(metrics: PositionMarginMetrics): number {
+    const initialMargin = metrics.position.size * metrics.markPrice / metrics.position.leverage;
+    const withdrawable = Math.min(metrics.position.isolatedWallet ?? 0, metrics.marginBalance) - initialMargin;
+    return Math.max(0, Math.floor(withdrawable * 100) / 100);
+  }
+
+  private static ratio(maintMargin: number, marginBalance: number): number {
+    if (maintMargin <= 0) return 0;
+    return marginBalance > 0 ? maintMargin / marginBalance * 100 : 100;
+  }
+
+  /**
+   * Highest configured level the margin ratio has reached, if any
+   */
+  static highestCrossed(levels: number[], marginRatio: number): number | null {
+    const crossed = levels.filter(level => marginRatio >= level);
+    return crossed.length > 0 ? Math.max(...crossed) : null;
+  }
+
+  static warningFor(metrics: PositionMarginMetrics): string | null {
+    if (metrics.marginRatio >= MarginRiskService.DANGER_MARGIN_RATIO) {
+      return `🚨 Margin ratio ${metrics.marginRatio.toFixed(1)}%: liquidation is close. Add margin or reduce the position.`;
+    }
+    if (metrics.marginRatio >= MarginRiskService.WARNING_MARGIN_RATIO) {
+      return `⚠️ Margin ratio ${metrics.marginRatio.toFixed(1)}%: consider adding margin or a stop loss.`;
+    }
+    if (metrics.liquidationDistancePercent !== null && metrics.liquidationDistancePercent < MarginRiskService.WARNING_LIQUIDATION_DISTANCE) {
+      return `⚠️ Liquidation is only ${metrics.liquidationDistancePercent.toFixed(1)}% away.`;
+    }
+    return null;
+  }
+
+  static ratioEmoji(marginRatio: number): string {
+    if (marginRatio >= MarginRiskService.DANGER_MARGIN_RATIO) return '🔴';
+    if (marginRatio >= MarginRiskService.WARNING_MARGIN_RATIO) return '🟠';
+    return '🟢';
+  }
+
+  /**
+   * Start the background worker that warns users whose margin ratio crosses their alert levels
+   */
+  start(intervalMs = MarginRiskService.DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => console.error('[MarginRiskService] Sweep failed:', error));
+    }, intervalMs);
+
+    console.log(`[MarginRiskService] Worker started (every ${intervalMs / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check every subscribed user once. Resolves the number of warnings sent.
+   */
+  async sweep(): Promise<number> {
+    if (this.sweeping) return 0;
+    this.sweeping = true;
+
+    try {
+      let sent = 0;
+      for (const subscriber of await this.db.getMarginAlertSubscribers()) {
+        try {
+          const apiClient = await this.apiClientService.getOrCreateClient(subscriber.user_id);
+          const report = await this.analyze(apiClient);
+          sent += await this.checkLevels(subscriber, report);
+        } catch (error) {
+          console.warn(`[MarginRiskService] Skipping user ${subscriber.user_id}:`, error);
+        }
+      }
+      return sent;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async checkLevels(
+    subscriber: { user_id: number; tg_id: number; margin_alert_levels: number[] },
+    report: AccountMarginReport
+  ): Promise<number> {
+    const states = await this.db.getMarginAlertStates(subscriber.user_id);
+
+    // The account ratio covers cross positions; isolated positions are checked on their own
+    const readings = new Map<string, { marginRatio: number; metrics?: PositionMarginMetrics }>();
+    if (report.positions.length > 0) {
+      readings.set(MarginRiskService.ACCOUNT_SCOPE, { marginRatio: report.marginRatio });
+    }
+    report.positions
+      .filter(metrics => metrics.position.marginType === 'isolated')
+      .forEach(metrics => readings.set(metrics.position.symbol, { marginRatio: metrics.marginRatio, metrics }));
+
+    let sent = 0;
+    for (const [scope, reading] of readings) {
+      const crossed = MarginRiskService.highestCrossed(subscriber.margin_alert_levels, reading.marginRatio);
+      const previous = states.get(scope);
+
+      if (crossed === null) {
+        if (previous !== undefined) {
+          await this.db.clearMarginAlertState(subscriber.user_id, scope);
+        }
+        continue;
+      }
+
+      if (previous === undefined || crossed > previous) {
+        await this.db.setMarginAlertState(subscriber.user_id, scope, crossed);
+        this.eventEmitter.emitEvent<MarginAlertEvent>({
+          type: EventTypes.MARGIN_RATIO_ALERT,
+          timestamp: new Date(),
+          userId: subscriber.user_id,
+          telegramId: subscriber.tg_id,
+          symbol: reading.metrics?.position.symbol,
+          level: crossed,
+          marginRatio: reading.marginRatio,
+          liquidationDistancePercent: reading.metrics?.liquidationDistancePercent ?? null
+        });
+        sent++;
+      } else if (crossed < previous) {
+        // The ratio recovered past a level, so that level can fire again
+        await this.db.setMarginAlertState(subscriber.user_id, scope, crossed);
+      }
+    }
+
+    // Closed positions re-arm their levels
+    for (const scope of states.keys()) {
+      if (!readings.has(scope)) {
+        await this.db.clearMarginAlertState(subscriber.user_id, scope);
+      }
+    }
+
+    return sent;
+  }
+
+  formatAccountSummary(report: AccountMarginReport): string {
+    return [
+      `${MarginRiskService.ratioEmoji(report.marginRatio)} **Account Margin Ratio:** ${report.marginRatio.toFixed(2)}%`,
+      `• Maintenance: $${report.maintMargin.toFixed(2)} of $${report.marginBalance.toFixed(2)} margin balance`
+    ].join('\n');
+  }
+
+  formatPositionLines(metrics: PositionMarginMetrics): string[] {
+    const lines: string[] = [];
+    const price = metrics.markPrice;
+
+    if (metrics.liquidationPrice !== null && metrics.liquidationDistancePercent !== null) {
+      lines.push(
+        `• Liq. Price: ${metrics.liquidationEstimated ? '≈ ' : ''}$${metrics.liquidationPrice.toFixed(price < 1 ? 6 : 4)} (${metrics.liquidationDistancePercent.toFixed(1)}% away)`
+      );
+    } else {
+      lines.push('• Liq. Price: none at current margin');
+    }
+
+    lines.push(
+      `• Maint. Margin: $${metrics.maintMargin.toFixed(2)}`,
+      `• ${MarginRiskService.ratioEmoji(metrics.marginRatio)} Margin Ratio: ${metrics.marginRatio.toFixed(2)}% (${metrics.position.marginType})`
+    );
+
+    const warning = MarginRiskService.warningFor(metrics);
+    if (warning) {
+      lines.push(warning);
+    }
+
+    return lines;
+  }
+
+  formatMarginPrompt(metrics: PositionMarginMetrics, marginType: 'add' | 'reduce', limit: number): string {
+    const { position } = metrics;
+
+    return [
+      `${marginType === 'add' ? '➕ **Add Margin**' : '➖ **Reduce Margin**'}: ${position.symbol} ${position.side} ${position.leverage}x`,
+      '',
+      `**Isolated Margin:** $${(position.isolatedWallet ?? 0).toFixed(2)}`,
+      ...this.formatPositionLines(metrics),
+      '',
+      marginType === 'add'
+        ? `**Available Balance:** $${limit.toFixed(2)}`
+        : `**Max Removable:** $${limit.toFixed(2)}`,
+      '',
+      '💬 Pick an amount or type one in USDT, e.g. `15`'
+    ].join('\n');
+  }
+
+  formatMarginPreview(metrics: PositionMarginMetrics, marginType: 'add' | 'reduce', amount: number, preview: MarginChangePreview): string {
+    const { position } = metrics;
+    const decimals = metrics.markPrice < 1 ? 6 : 4;
+    const liquidation = (price: number | null, distance: number | null) =>
+      price !== null && distance !== null ? `$${price.toFixed(decimals)} (${distance.toFixed(1)}% away)` : 'none';
+
+    const lines = [
+      `${marginType === 'add' ? '➕ **Add Margin**' : '➖ **Reduce Margin**'}: ${position.symbol} ${position.side} ${position.leverage}x`,
+      '',
+      `**Amount:** $${amount.toFixed(2)}`,
+      `**Isolated Margin:** $${(position.isolatedWallet ?? 0).toFixed(2)} → $${preview.isolatedMargin.toFixed(2)}`,
+      `**Margin Ratio:** ${metrics.marginRatio.toFixed(2)}% → ${MarginRiskService.ratioEmoji(preview.marginRatio)} ${preview.marginRatio.toFixed(2)}%`,
+      `**Liq. Price:** ${liquidation(metrics.liquidationPrice, metrics.liquidationDistancePercent)}`,
+      `**New Liq. Price:** ≈ ${liquidation(preview.liquidationPrice, preview.liquidationDistancePercent)}`
+    ];
+
+    if (marginType === 'reduce' && preview.marginRatio >= MarginRiskService.WARNING_MARGIN_RATIO) {
+      lines.push('', '⚠️ This leaves the position close to liquidation.');
+    }
+
+    return lines.join('\n');
+  }
+
+  formatAlertNotification(event: MarginAlertEvent): string {
+    const lines = [
+      event.level >= MarginRiskService.DANGER_MARGIN_RATIO ? '🚨 **Margin Ratio Alert**' : '⚠️ **Margin Ratio Alert**',
+      '',
+      event.symbol
+        ? `**${event.symbol}** (isolated) margin ratio is ${event.marginRatio.toFixed(2)}%, past your ${event.level}% level.`
+        : `Your account margin ratio is ${event.marginRatio.toFixed(2)}%, past your ${event.level}% level.`
+    ];
+
+    if (event.liquidationDistancePercent !== null) {
+      lines.push(`Liquidation is about ${event.liquidationDistancePercent.toFixed(1)}% away.`);
+    }
+
+    lines.push('', '💡 Liquidation happens at 100%. Add margin, reduce the position or set a stop loss.');
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,418 @@
+import { AsterApiClient } from '../aster';
+import { DatabaseManager } from '../db';
+import { SymbolFilters } from '../filters';
+import { OrderPurpose } from '../types';
+import { OrderHistoryService } from './OrderHistoryService';
+
+export interface OpenOrder {
+  market: 'spot' | 'perps';
+  symbol: string;
+  orderId: number;
+  clientOrderId: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  price: string;
+  stopPrice: string;
+  origQty: string;
+  executedQty: string;
+  timeInForce: string;
+  reduceOnly: boolean;
+  closePosition: boolean;
+  workingType?: string;
+  // Hedge-mode leg the order opens or closes; absent in one-way mode
+  positionSide?: 'LONG' | 'SHORT';
+}
+
+export interface OpenOrderGroup {
+  market: 'spot' | 'perps';
+  symbol: string;
+  orders: OpenOrder[];
+}
+
+export interface AmendResult {
+  previous: OpenOrder;
+  price: string;
+  clientOrderId: string;
+  response: any;
+}
+
+export class OpenOrdersService {
+  // Orders whose price can be amended: the limit price, or the trigger of a market stop
+  static readonly AMENDABLE_TYPES: Record<'spot' | 'perps', string[]> = {
+    spot: ['LIMIT'],
+    perps: ['LIMIT', 'STOP_MARKET', 'TAKE_PROFIT_MARKET']
+  };
+  static readonly MAX_CLIENT_ORDER_ID_LENGTH = 36;
+
+  // Orders between cancel and relink; workers must not read their absence as a manual cancel
+  private static readonly amending = new Set<string>();
+
+  private db: DatabaseManager;
+  private apiClient: AsterApiClient;
+
+  constructor(db: DatabaseManager, apiClient: AsterApiClient) {
+    this.db = db;
+    this.apiClient = apiClient;
+  }
+
+  /**
+   * Resting orders across spot and futures. A failing spot query doesn't hide futures orders.
+   */
+  async getOpenOrders(): Promise<OpenOrder[]> {
+    const [perpsOrders, spotOrders] = await Promise.all([
+      this.apiClient.getOpenOrders(),
+      this.apiClient.getSpotOpenOrders().catch(error => {
+        console.warn('[OpenOrdersService] Spot open orders unavailable:', error?.message || error);
+        return [];
+      })
+    ]);
+
+    return [
+      ...perpsOrders.map(order => OpenOrdersService.normalize('perps', order)),
+      ...spotOrders.map(order => OpenOrdersService.normalize('spot', order))
+    ];
+  }
+
+  async findOrder(market: 'spot' | 'perps', symbol: string, orderId: number): Promise<OpenOrder | null> {
+    const orders = market === 'spot'
+      ? await this.apiClient.getSpotOpenOrders(symbol)
+      : await this.apiClient.getOpenOrders(symbol);
+
+    const order = orders.find((o: any) => Number(o.orderId) === orderId);
+    return order ? OpenOrdersService.normalize(market, order) : null;
+  }
+
+  /**
+   * Group orders by market and symbol, futures first
+   */
+  static group(orders: OpenOrder[]): OpenOrderGroup[] {
+    const groups = new Map<string, OpenOrderGroup>();
+
+    for (const order of orders) {
+      const key = `${order.market}:${order.symbol}`;
+      if (!groups.has(key)) {
+        groups.set(key, { market: order.market, symbol: order.symbol, orders: [] });
+      }
+      groups.get(key)!.orders.push(order);
+    }
+
+    return [...groups.values()].sort((a, b) =>
+      a.market === b.market ? a.symbol.localeCompare(b.symbol) : a.market === 'perps' ? -1 : 1
+    );
+  }
+
+  async cancel(userId: number, market: 'spot' | 'perps', symbol: string, orderId: number): Promise<any> {
+    const response = market === 'spot'
+      ? await this.apiClient.cancelSpotOrder(symbol, orderId)
+      : await this.apiClient.cancelOrder(symbol, orderId);
+
+    await this.markCancelled(userId, response?.clientOrderId);
+    return response;
+  }
+
+  /**
+   * Cancel every resting order for one symbol. Resolves the number of orders cancelled.
+   */
+  async cancelAll(userId: number, market: 'spot' | 'perps', symbol: string): Promise<number> {
+    const orders = market === 'spot'
+      ? await this.apiClient.getSpotOpenOrders(symbol)
+      : await this.apiClient.getOpenOrders(symbol);
+
+    if (orders.length === 0) return 0;
+
+    if (market === 'spot') {
+      await this.apiClient.cancelAllSpotOrders(symbol);
+    } else {
+      await this.apiClient.cancelAllOrders(symbol);
+    }
+
+    for (const order of orders) {
+      await this.markCancelled(userId, order.clientOrderId);
+    }
+    return orders.length;
+  }
+
+  /**
+   * Move an order to a new price by cancelling it and placing a replacement.
+   * The replacement's client order ID extends the original's, e.g. bot_abc -> bot_abc_r1 -> bot_abc_r2.
+   */
+  async amendPrice(userId: number, market: 'spot' | 'perps', symbol: string, orderId: number, rawPrice: number): Promise<AmendResult> {
+    const order = await this.findOrder(market, symbol, orderId);
+    if (!order) {
+      throw new Error('This order is no longer open. It may have filled or been cancelled.');
+    }
+    if (!OpenOrdersService.isAmendable(order)) {
+      throw new Error(`${OpenOrdersService.describeType(order.type)} orders can't be amended here. Cancel it and place a new order instead.`);
+    }
+
+    const price = await this.validateAmendPrice(order, rawPrice);
+    const clientOrderId = OpenOrdersService.nextClientOrderId(order.clientOrderId || `${market}_${order.orderId}`);
+    const remaining = OpenOrdersService.remainingQuantity(order);
+
+    let response: any;
+    OpenOrdersService.amending.add(String(orderId));
+    try {
+      // Cancel first: if this fails the original order is untouched
+      await this.cancel(userId, market, symbol, orderId);
+
+      try {
+        response = await this.placeReplacement(order, price, remaining, clientOrderId);
+      } catch (error: any) {
+        throw new Error(`The original order was cancelled but the replacement failed: ${error?.message || 'Unknown error'}. Please place it again.`);
+      }
+
+      await this.relinkReplacement(userId, order, response, price);
+    } finally {
+      OpenOrdersService.amending.delete(String(orderId));
+    }
+
+    const original = order.clientOrderId ? await this.db.getOrderByClientId(userId, order.clientOrderId) : null;
+    await new OrderHistoryService(this.db).recordOrder(userId, {
+      market,
+      purpose: original?.purpose ?? OpenOrdersService.inferPurpose(order),
+      symbol,
+      side: order.side,
+      type: order.type,
+      leverage: original?.leverage,
+      quantity: remaining,
+      clientOrderId
+    }, response);
+
+    return { previous: order, price, clientOrderId, response };
+  }
+
+  static isAmending(orderId: string): boolean {
+    return OpenOrdersService.amending.has(orderId);
+  }
+
+  static isAmendable(order: OpenOrder): boolean {
+    return OpenOrdersService.AMENDABLE_TYPES[order.market].includes(order.type);
+  }
+
+  /**
+   * The price a user amends: the limit price for limit orders, otherwise the trigger
+   */
+  static amendablePrice(order: OpenOrder): string {
+    return order.type === 'LIMIT' ? order.price : order.stopPrice;
+  }
+
+  /**
+   * Next client order ID in an amend lineage, trimmed to the exchange's length limit
+   */
+  static nextClientOrderId(clientOrderId: string): string {
+    const match = clientOrderId.match(/^(.*)_r(\d+)$/);
+    const base = match ? match[1] : clientOrderId;
+    const suffix = `_r${match ? parseInt(match[2], 10) + 1 : 1}`;
+    return base.slice(0, OpenOrdersService.MAX_CLIENT_ORDER_ID_LENGTH - suffix.length) + suffix;
+  }
+
+  formatOpenOrders(groups: OpenOrderGroup[]): string {
+    let output = '📋 **Open Orders**\n\n';
+
+    if (groups.length === 0) {
+      return output + 'You have no resting orders.\n\n💡 Limit orders and TP/SL orders show up here until they fill or are cancelled.';
+    }
+
+    let index = 0;
+    for (const group of groups) {
+      output += `**${group.symbol}** • ${group.market === 'spot' ? 'Spot' : 'Futures'}\n`;
+      for (const order of group.orders) {
+        index++;
+        output += `${index}. ${OpenOrdersService.formatOrderLine(order)}\n`;
+      }
+      output += '\n';
+    }
+
+    return output.trim();
+  }
+
+  static formatOrderLine(order: OpenOrder): string {
+    const emoji = order.side === 'BUY' ? '🟢' : '🔴';
+    const price = parseFloat(order.price);
+    const stopPrice = parseFloat(order.stopPrice || '0');
+    const filled = parseFloat(order.executedQty || '0');
+
+    const parts = [`${emoji} ${order.side} ${OpenOrdersService.describeType(order.type)}`];
+    parts.push(order.closePosition ? 'close position' : `${order.origQty}${filled > 0 ? ` (${filled} filled)` : ''}`);
+    if (price > 0) parts.push(`@ $${order.price}`);
+    if (stopPrice > 0) parts.push(`trigger $${order.stopPrice}`);
+    if (order.positionSide) parts.push(`${order.positionSide} leg`);
+    if (OpenOrdersService.isExit(order)) parts.push('reduce-only');
+
+    return parts.join(' • ');
+  }
+
+  // Underscores would break Markdown, e.g. TAKE_PROFIT_MARKET
+  static describeType(type: string): string {
+    return type.replace(/_/g, ' ');
+  }
+
+  formatAmendPrompt(order: OpenOrder): string {
+    const label = order.type === 'LIMIT' ? 'limit price' : 'trigger price';
+
+    return [
+      '✏️ **Amend Order**',
+      '',
+      `**${order.symbol}** • ${OpenOrdersService.formatOrderLine(order)}`,
+      '',
+      `Current ${label}: $${OpenOrdersService.amendablePrice(order)}`,
+      '',
+      `✍️ Send the new ${label}, e.g. \`${OpenOrdersService.amendablePrice(order)}\``
+    ].join('\n');
+  }
+
+  formatAmendResult(result: AmendResult): string {
+    return [
+      '✅ **Order Amended**',
+      '',
+      `**${result.previous.symbol}** • ${result.previous.side} ${OpenOrdersService.describeType(result.previous.type)}`,
+      `**Price:** $${OpenOrdersService.amendablePrice(result.previous)} → $${result.price}`,
+      `**Status:** ${result.response?.status || 'NEW'}`,
+      `**Order ID:** ${result.response?.orderId ?? 'N/A'}`,
+      `**Client ID:** \`${result.clientOrderId}\``
+    ].join('\n');
+  }
+
+  private async validateAmendPrice(order: OpenOrder, rawPrice: number): Promise<string> {
+    if (!Number.isFinite(rawPrice) || rawPrice <= 0) {
+      throw new Error('Price must be a positive number');
+    }
+
+    const exchangeInfo = order.market === 'spot'
+      ? await this.apiClient.getSpotExchangeInfo()
+      : await this.apiClient.getExchangeInfo();
+    const symbolInfo = exchangeInfo.symbols?.find((s: any) => s.symbol === order.symbol);
+    if (!symbolInfo) {
+      return String(rawPrice);
+    }
+
+    const filters = new SymbolFilters(symbolInfo);
+    const price = filters.roundPrice(rawPrice);
+    if (parseFloat(price) <= 0) {
+      throw new Error(`Price is below the tick size ${filters.getTickSize()}`);
+    }
+
+    if (order.type === 'LIMIT') {
+      const reference = await this.getReferencePrice(order);
+      const { upper, lower } = filters.getPercentPriceBounds(reference);
+      if (parseFloat(price) > upper || parseFloat(price) < lower) {
+        const precision = filters.getPricePrecision();
+        throw new Error(`Price must be between $${lower.toFixed(precision)} and $${upper.toFixed(precision)} at the current market price`);
+      }
+    }
+
+    return price;
+  }
+
+  private async getReferencePrice(order: OpenOrder): Promise<number> {
+    if (order.market === 'perps') {
+      const [mark] = await this.apiClient.getMarkPrice(order.symbol);
+      return parseFloat(mark?.markPrice || '0');
+    }
+
+    const book = await this.apiClient.getSpotOrderBook(order.symbol, 5);
+    const bid = parseFloat(book.bids[0]?.[0] || '0');
+    const ask = parseFloat(book.asks[0]?.[0] || '0');
+    return bid > 0 && ask > 0 ? (bid + ask) / 2 : 0;
+  }
+
+  private async placeReplacement(order: OpenOrder, price: string, quantity: string, clientOrderId: string): Promise<any> {
+
+    if (order.market === 'spot') {
+      return this.apiClient.createSpotOrder({
+        symbol: order.symbol,
+        side: order.side,
+        type: 'LIMIT',
+        price,
+        quantity,
+        timeInForce: (order.timeInForce || 'GTC') as 'GTC' | 'IOC' | 'FOK' | 'GTX',
+        newClientOrderId: clientOrderId
+      });
+    }
+
+    const isLimit = order.type === 'LIMIT';
+    return this.apiClient.createOrder({
+      symbol: order.symbol,
+      side: order.side,
+      type: order.type as 'LIMIT' | 'STOP_MARKET' | 'TAKE_PROFIT_MARKET',
+      ...(isLimit
+        ? { price, timeInForce: (order.timeInForce || 'GTC') as 'GTC' | 'IOC' | 'FOK' | 'GTX' }
+        : { stopPrice: price, workingType: (order.workingType || 'CONTRACT_PRICE') as 'MARK_PRICE' | 'CONTRACT_PRICE' }),
+      ...(order.closePosition ? { closePosition: true } : { quantity }),
+      ...(order.reduceOnly && !order.closePosition ? { reduceOnly: true } : {}),
+      // Hedge exits carry no reduceOnly flag, so without the leg a stop or take-profit would open the other side
+      ...(order.positionSide ? { positionSide: order.positionSide } : {}),
+      newClientOrderId: clientOrderId
+    });
+  }
+
+  /**
+   * Unfilled part of the order, keeping the precision of the original quantity
+   */
+  private static remainingQuantity(order: OpenOrder): string {
+    const executed = parseFloat(order.executedQty || '0');
+    if (executed <= 0) return order.origQty;
+
+    const decimals = Math.max(...[order.origQty, order.executedQty].map(value => value.split('.')[1]?.length || 0));
+    return (parseFloat(order.origQty) - executed).toFixed(decimals);
+  }
+
+  /**
+   * Keep a bracket, spot exit, TP ladder or trailing stop that tracked the amended order
+   * following its replacement
+   */
+  private async relinkReplacement(userId: number, order: OpenOrder, response: any, price: string): Promise<void> {
+    if (response?.orderId === undefined) return;
+
+    try {
+      await this.db.relinkAmendedOrder(userId, order.market, order.symbol, String(order.orderId), String(response.orderId), price);
+    } catch (error) {
+      console.error(`[OpenOrdersService] Failed to relink amended order ${order.orderId}:`, error);
+    }
+  }
+
+  private async markCancelled(userId: number, clientOrderId?: string): Promise<void> {
+    if (!clientOrderId) return;
+
+    try {
+      await this.db.updateOrderStatus(userId, clientOrderId, 'CANCELED');
+    } catch (error) {
+      console.error(`[OpenOrdersService] Failed to mark ${clientOrderId} cancelled:`, error);
+    }
+  }
+
+  private static inferPurpose(order: OpenOrder): OrderPurpose {
+    if (order.type.startsWith('TAKE_PROFIT')) return 'tp';
+    if (order.type.startsWith('STOP')) return 'sl';
+    if (order.market === 'spot' && order.side === 'SELL') return 'sell';
+    return OpenOrdersService.isExit(order) ? 'close' : 'entry';
+  }
+
+  /**
+   * Reduce-only in one-way mode; in hedge mode a sell on the LONG leg or a buy on the SHORT leg
+   */
+  private static isExit(order: OpenOrder): boolean {
+    if (order.reduceOnly || order.closePosition) return true;
+    return order.positionSide !== undefined && (order.positionSide === 'LONG') === (order.side === 'SELL');
+  }
+
+  private static normalize(market: 'spot' | 'perps', order: any): OpenOrder {
+    return {
+      market,
+      symbol: order.symbol,
+      orderId: Number(order.orderId),
+      clientOrderId: order.clientOrderId || '',
+      side: order.side === 'BUY' ? 'BUY' : 'SELL',
+      type: order.type || order.origType,
+      price: order.price || '0',
+      stopPrice: order.stopPrice || '0',
+      origQty: order.origQty || '0',
+      executedQty: order.executedQty || '0',
+      timeInForce: order.timeInForce || 'GTC',
+      reduceOnly: order.reduceOnly === true || order.reduceOnly === 'true',
+      closePosition: order.closePosition === true || order.closePosition === 'true',
+      workingType: order.workingType,
+      positionSide: order.positionSide === 'LONG' || order.positionSide === 'SHORT' ? order.positionSide : undefined
+    };
+  }
+}
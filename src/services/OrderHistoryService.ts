@@ -0,0 +1,173 @@
+import { DatabaseManager } from '../db';
+import { Order, OrderHistoryFilters, OrderPurpose } from '../types';
+
+export interface OrderRecordInput {
+  market: 'spot' | 'perps';
+  purpose: OrderPurpose;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  leverage?: number;
+  quantity?: string;
+  clientOrderId?: string;
+  // Defaults to the user's current mode
+  paper?: boolean;
+}
+
+export interface OrderHistoryPage {
+  orders: Order[];
+  total: number;
+  page: number;
+  totalPages: number;
+  filters: OrderHistoryFilters;
+}
+
+export class OrderHistoryService {
+  static readonly PAGE_SIZE = 10;
+
+  private db: DatabaseManager;
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * Store a placed order from its exchange response. Never throws - a failed
+   * history write must not look like a failed trade.
+   */
+  async recordOrder(userId: number, input: OrderRecordInput, response: any): Promise<void> {
+    try {
+      const filledQty = parseFloat(response?.executedQty || '0');
+      const quoteFilled = parseFloat(response?.cummulativeQuoteQty || response?.cumQuote || '0');
+
+      // Spot responses carry no avgPrice, so derive it from the quote filled
+      const price = [response?.avgPrice, response?.price, response?.stopPrice]
+        .map(value => parseFloat(value || '0'))
+        .find(value => value > 0)
+        ?? (filledQty > 0 && quoteFilled > 0 ? quoteFilled / filledQty : null);
+
+      const paper = input.paper ?? await this.db.isPaperMode(userId);
+
+      await this.db.storeOrder({
+        user_id: userId,
+        client_order_id: response?.clientOrderId || input.clientOrderId || `${input.market}_${response?.orderId}`,
+        side: input.side,
+        symbol: input.symbol,
+        size: response?.origQty || input.quantity || response?.executedQty || '0',
+        leverage: input.leverage ?? 1,
+        status: response?.status || 'NEW',
+        tx: response?.orderId !== undefined ? String(response.orderId) : null,
+        market: input.market,
+        order_type: response?.type || input.type,
+        purpose: input.purpose,
+        price: price !== null ? String(price) : null,
+        filled_qty: response?.executedQty ?? null,
+        paper
+      });
+    } catch (error) {
+      console.error(`[OrderHistoryService] Failed to record ${input.market} ${input.purpose} order for ${input.symbol}:`, error);
+    }
+  }
+
+  /**
+   * Load one page of a user's order history, newest first. Only orders from the
+   * user's current mode are shown, so paper fills never mix with live ones.
+   */
+  async getHistoryPage(userId: number, filters: OrderHistoryFilters, page: number): Promise<OrderHistoryPage> {
+    const pageSize = OrderHistoryService.PAGE_SIZE;
+    const safePage = Math.max(1, page);
+    const paper = await this.db.isPaperMode(userId);
+    const { orders, total } = await this.db.getOrderHistory(userId, { ...filters, paper }, pageSize, (safePage - 1) * pageSize);
+
+    return {
+      orders,
+      total,
+      page: safePage,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+      filters
+    };
+  }
+
+  /**
+   * Parse /orders arguments, e.g. "/orders eth sell perps"
+   */
+  static parseFilters(args: string[]): OrderHistoryFilters {
+    const filters: OrderHistoryFilters = {};
+
+    for (const raw of args) {
+      const arg = raw.trim().toUpperCase();
+      if (!arg) continue;
+
+      if (arg === 'BUY' || arg === 'SELL') {
+        filters.side = arg;
+      } else if (arg === 'SPOT' || arg === 'PERPS') {
+        filters.market = arg.toLowerCase() as 'spot' | 'perps';
+      } else if (/^[A-Z0-9]{2,20}$/.test(arg)) {
+        filters.symbol = arg.endsWith('USDT') ? arg : `${arg}USDT`;
+      }
+    }
+
+    return filters;
+  }
+
+  /**
+   * Encode filters into callback data for pagination buttons
+   */
+  static encodeFilters(filters: OrderHistoryFilters): string {
+    return `${filters.symbol || '-'}_${filters.side || '-'}_${filters.market || '-'}`;
+  }
+
+  /**
+   * Decode filters from pagination callback data
+   */
+  static decodeFilters(symbol: string, side: string, market: string): OrderHistoryFilters {
+    return {
+      ...(symbol !== '-' ? { symbol } : {}),
+      ...(side === 'BUY' || side === 'SELL' ? { side } : {}),
+      ...(market === 'spot' || market === 'perps' ? { market } : {})
+    };
+  }
+
+  formatHistoryPage(history: OrderHistoryPage): string {
+    const { filters } = history;
+    const activeFilters = [filters.symbol, filters.side, filters.market].filter(Boolean).join(' • ');
+
+    let output = '📜 **Order History**\n';
+    if (activeFilters) {
+      output += `🔎 ${activeFilters}\n`;
+    }
+    output += '\n';
+
+    if (history.orders.length === 0) {
+      output += 'No orders found.\n\n';
+      output += '💡 Orders placed through the bot will appear here.';
+      return output;
+    }
+
+    history.orders.forEach(order => {
+      const sideEmoji = order.side === 'BUY' ? '🟢' : '🔴';
+      const market = order.market === 'spot' ? 'Spot' : 'Perps';
+      const purpose = order.purpose ? ` ${this.formatPurpose(order.purpose)}` : '';
+      const filled = parseFloat(order.filled_qty || '0');
+      const price = parseFloat(order.price || '0');
+      const time = new Date(order.created_at).toISOString().replace('T', ' ').slice(5, 16);
+
+      output += `${sideEmoji} **${order.side} ${order.symbol}** • ${market}${purpose} • ${order.order_type || 'MARKET'}\n`;
+      output += `   ${filled > 0 ? filled : parseFloat(order.size)}${price > 0 ? ` @ $${price.toFixed(price < 1 ? 6 : 2)}` : ''}`;
+      output += ` • ${order.status} • ${time} UTC\n`;
+    });
+
+    output += `\nPage ${history.page}/${history.totalPages} • ${history.total} order${history.total === 1 ? '' : 's'}`;
+    return output;
+  }
+
+  private formatPurpose(purpose: OrderPurpose): string {
+    switch (purpose) {
+      case 'entry': return 'Entry';
+      case 'tp': return 'TP';
+      case 'sl': return 'SL';
+      case 'close': return 'Close';
+      case 'sell': return 'Sell';
+    }
+  }
+}
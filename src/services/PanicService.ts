@@ -0,0 +1,217 @@
+import { AsterApiClient } from '../aster';
+import { DatabaseManager } from '../db';
+import { ApiClientService } from './ApiClientService';
+import { OrderHistoryService } from './OrderHistoryService';
+import { TradingHaltState } from '../types';
+
+export interface FlattenProgress {
+  usersTotal: number;
+  usersProcessed: number;
+  positionsClosed: number;
+  symbolsCancelled: number;
+  errors: string[];
+}
+
+export interface FlattenSummary extends FlattenProgress {
+  // Users whose positions were closed, for notification
+  affectedUsers: Array<{ tgId: number; closed: string[] }>;
+  durationMs: number;
+}
+
+export class PanicService {
+  private static readonly HALT_KEY = 'trading_halt';
+  private static readonly HALT_CACHE_MS = 5000;
+
+  // The halt flag is read before every order, so keep it briefly in memory
+  private static haltCache: { state: TradingHaltState; fetchedAt: number } | null = null;
+
+  private db: DatabaseManager;
+  private apiClientService: ApiClientService;
+
+  constructor(db: DatabaseManager, apiClientService: ApiClientService) {
+    this.db = db;
+    this.apiClientService = apiClientService;
+  }
+
+  /**
+   * Current halt state. Fails open to "not halted" only when nothing was ever stored.
+   */
+  async getHaltState(): Promise<TradingHaltState> {
+    const cached = PanicService.haltCache;
+    if (cached && Date.now() - cached.fetchedAt < PanicService.HALT_CACHE_MS) {
+      return cached.state;
+    }
+
+    const stored = await this.db.getSystemState<TradingHaltState>(PanicService.HALT_KEY);
+    const state = stored ?? { halted: false, reason: null, since: null, by: null };
+    PanicService.haltCache = { state, fetchedAt: Date.now() };
+    return state;
+  }
+
+  /**
+   * Globally disable new orders
+   */
+  async halt(adminTelegramId: number, reason: string | null): Promise<TradingHaltState> {
+    const state: TradingHaltState = {
+      halted: true,
+      reason,
+      since: new Date().toISOString(),
+      by: adminTelegramId
+    };
+
+    await this.setHaltState(state, adminTelegramId);
+    await this.db.recordAdminAudit(adminTelegramId, 'panic_halt', { reason });
+    console.warn(`[PanicService] Trading halted by admin ${adminTelegramId}: ${reason || 'no reason given'}`);
+    return state;
+  }
+
+  /**
+   * Lift the halt
+   */
+  async resume(adminTelegramId: number): Promise<void> {
+    const previous = await this.getHaltState();
+
+    await this.setHaltState({ halted: false, reason: null, since: null, by: adminTelegramId }, adminTelegramId);
+    await this.db.recordAdminAudit(adminTelegramId, 'panic_resume', {
+      previousReason: previous.reason,
+      haltedSince: previous.since
+    });
+    console.warn(`[PanicService] Trading resumed by admin ${adminTelegramId}`);
+  }
+
+  /**
+   * Halt trading, then cancel open orders and close every position for all linked users
+   */
+  async flatten(
+    adminTelegramId: number,
+    reason: string | null,
+    onProgress: (progress: FlattenProgress) => Promise<void>
+  ): Promise<FlattenSummary> {
+    const startedAt = Date.now();
+
+    // Freeze first so nobody reopens while we are closing
+    await this.halt(adminTelegramId, reason);
+
+    const users = await this.db.getLinkedUsers();
+    const orderHistory = new OrderHistoryService(this.db);
+    const summary: FlattenSummary = {
+      usersTotal: users.length,
+      usersProcessed: 0,
+      positionsClosed: 0,
+      symbolsCancelled: 0,
+      errors: [],
+      affectedUsers: [],
+      durationMs: 0
+    };
+
+    for (const user of users) {
+      const closed: string[] = [];
+
+      try {
+        // Panic always flattens the real account, even for users practising in paper mode
+        const apiClient = await this.apiClientService.getLiveClient(user.user_id);
+
+        // Cancel resting orders first so TP/SL legs can't reopen anything
+        const openOrders = await apiClient.getOpenOrders();
+        const symbols = [...new Set(openOrders.map(order => order.symbol))];
+        for (const symbol of symbols) {
+          try {
+            await apiClient.cancelAllOrders(symbol);
+            summary.symbolsCancelled++;
+          } catch (error: any) {
+            summary.errors.push(`User ${user.user_id} cancel ${symbol}: ${error.message || 'Unknown error'}`);
+          }
+        }
+
+        // Flattening is an emergency path and deliberately skips price protection
+        const positions = (await apiClient.getPositionRisk()).filter(p => parseFloat(p.positionAmt) !== 0);
+        for (const position of positions) {
+          // Hedged symbols have a row per leg, and each is closed on its own
+          const label = position.positionSide === 'LONG' || position.positionSide === 'SHORT'
+            ? `${position.symbol} ${position.positionSide}`
+            : position.symbol;
+          try {
+            const result = await apiClient.closePosition(position.symbol, 100, undefined, AsterApiClient.legOf(position));
+            await orderHistory.recordOrder(user.user_id, {
+              market: 'perps',
+              purpose: 'close',
+              symbol: position.symbol,
+              side: result.side === 'BUY' ? 'BUY' : 'SELL',
+              type: 'MARKET',
+              leverage: parseInt(position.leverage),
+              paper: false
+            }, result);
+            closed.push(label);
+            summary.positionsClosed++;
+          } catch (error: any) {
+            summary.errors.push(`User ${user.user_id} close ${label}: ${error.message || 'Unknown error'}`);
+          }
+        }
+      } catch (error: any) {
+        summary.errors.push(`User ${user.user_id}: ${error.message || 'Unknown error'}`);
+      }
+
+      if (closed.length > 0) {
+        summary.affectedUsers.push({ tgId: user.tg_id, closed });
+      }
+
+      summary.usersProcessed++;
+      await onProgress(summary);
+    }
+
+    summary.durationMs = Date.now() - startedAt;
+
+    await this.db.recordAdminAudit(adminTelegramId, 'panic_flatten', {
+      reason,
+      usersTotal: summary.usersTotal,
+      positionsClosed: summary.positionsClosed,
+      symbolsCancelled: summary.symbolsCancelled,
+      errors: summary.errors,
+      durationMs: summary.durationMs
+    });
+    console.warn(`[PanicService] Flatten by admin ${adminTelegramId} closed ${summary.positionsClosed} positions with ${summary.errors.length} errors`);
+
+    return summary;
+  }
+
+  formatHaltStatus(state: TradingHaltState): string {
+    if (!state.halted) {
+      return '🟢 **Trading Active**';
+    }
+
+    return [
+      '🔴 **Trading Halted**',
+      `**Since:** ${state.since ? state.since.replace('T', ' ').slice(0, 16) + ' UTC' : 'Unknown'}`,
+      `**Reason:** ${state.reason || 'Not given'}`
+    ].join('\n');
+  }
+
+  formatFlattenProgress(progress: FlattenProgress, done = false): string {
+    const lines = [
+      done ? '✅ **Flatten Complete**' : '🚨 **Flattening All Accounts...**',
+      '',
+      `**Users:** ${progress.usersProcessed}/${progress.usersTotal}`,
+      `**Positions Closed:** ${progress.positionsClosed}`,
+      `**Symbols With Orders Cancelled:** ${progress.symbolsCancelled}`,
+      `**Errors:** ${progress.errors.length}`
+    ];
+
+    if (done && progress.errors.length > 0) {
+      lines.push('', ...progress.errors.slice(0, 10).map(error => `• ${error}`));
+      if (progress.errors.length > 10) {
+        lines.push(`• ...and ${progress.errors.length - 10} more (see audit log)`);
+      }
+    }
+
+    if (done) {
+      lines.push('', '🔴 Trading remains halted. Use `/panic resume` to lift it.');
+    }
+
+    return lines.join('\n');
+  }
+
+  private async setHaltState(state: TradingHaltState, adminTelegramId: number): Promise<void> {
+    await this.db.setSystemState(PanicService.HALT_KEY, state, adminTelegramId);
+    PanicService.haltCache = { state, fetchedAt: Date.now() };
+  }
+}
@@ -0,0 +1,183 @@
+import { AsterApiClient } from '../aster';
+import { AccountInfo, NewOrderRequest, OrderResponse, PaperTrade, PositionInfo, SymbolLeverageBrackets } from '../types';
+import { PaperTradingService } from './PaperTradingService';
+
+/**
+ * Drop-in AsterApiClient for a user in paper mode. Market data still comes from the public
+ * endpoints; anything that touches the account goes to the simulator instead.
+ */
+export class PaperApiClient extends AsterApiClient {
+  private engine: PaperTradingService;
+  private userId: number;
+  private telegramId: number;
+
+  constructor(baseUrl: string, engine: PaperTradingService, userId: number, telegramId: number) {
+    super(baseUrl, '', '', true);
+    this.engine = engine;
+    this.userId = userId;
+    this.telegramId = telegramId;
+  }
+
+  // ========== Futures ==========
+
+  async getAccountInfo(): Promise<AccountInfo> {
+    return this.engine.getFuturesAccount(this.userId);
+  }
+
+  async getPositionRisk(): Promise<PositionInfo[]> {
+    return this.engine.getPositionRisk(this.userId);
+  }
+
+  async getLeverageBrackets(symbol?: string): Promise<SymbolLeverageBrackets[]> {
+    // Paper accounts have a flat maintenance rate and no brackets
+    return symbol ? [{ symbol, brackets: [] }] : [];
+  }
+
+  async changeLeverage(symbol: string, leverage: number): Promise<any> {
+    return this.engine.changeLeverage(this.userId, symbol, leverage);
+  }
+
+  async getPositionMode(): Promise<boolean> {
+    return false;
+  }
+
+  async changePositionMode(): Promise<{ code: number; msg: string }> {
+    throw new Error('Paper accounts only trade in one-way mode.');
+  }
+
+  async createOrder(orderParams: Partial<NewOrderRequest>): Promise<OrderResponse> {
+    return this.engine.placeFuturesOrder(this.userId, this.telegramId, orderParams);
+  }
+
+  async cancelOrder(symbol: string, orderId?: number, clientOrderId?: string): Promise<OrderResponse> {
+    if (!orderId && !clientOrderId) {
+      throw new Error('Either orderId or clientOrderId must be provided');
+    }
+    return this.engine.cancelOrder(this.userId, this.telegramId, 'perps', symbol, orderId, clientOrderId);
+  }
+
+  async getOrder(symbol: string, orderId?: number, clientOrderId?: string): Promise<OrderResponse> {
+    if (!orderId && !clientOrderId) {
+      throw new Error('Either orderId or clientOrderId must be provided');
+    }
+    return this.engine.getOrder(this.userId, 'perps', symbol, orderId, clientOrderId);
+  }
+
+  async getOpenOrders(symbol?: string): Promise<OrderResponse[]> {
+    return this.engine.getOpenOrders(this.userId, 'perps', symbol);
+  }
+
+  async cancelAllOrders(symbol?: string): Promise<{ code: number; msg: string }> {
+    return this.engine.cancelAllOrders(this.userId, this.telegramId, 'perps', symbol);
+  }
+
+  async modifyPositionMargin(): Promise<{ amount: number; code: number; msg: string; type: number }> {
+    throw new Error('Paper positions use cross margin, so there is no isolated margin to adjust.');
+  }
+
+  async getIncomeHistory(params: {
+    symbol?: string;
+    incomeType?: 'TRANSFER' | 'WELCOME_BONUS' | 'REALIZED_PNL' | 'FUNDING_FEE' | 'COMMISSION' | 'INSURANCE_CLEAR';
+    startTime?: number;
+    endTime?: number;
+    limit?: number;
+  } = {}): Promise<any[]> {
+    const income = await this.engine.getIncome(this.userId, params, params.limit || 100);
+    return income.map(row => ({
+      symbol: row.symbol,
+      incomeType: row.income_type,
+      income: row.amount,
+      asset: row.asset,
+      info: '',
+      time: new Date(row.created_at).getTime(),
+      tranId: row.id,
+      tradeId: row.order_id !== null ? String(row.order_id) : ''
+    }));
+  }
+
+  // User data stream: paper fills are raised by the simulator directly
+
+  async createListenKey(): Promise<string> {
+    throw new Error('Paper accounts have no user data stream');
+  }
+
+  async keepAliveListenKey(): Promise<void> {}
+
+  async closeListenKey(): Promise<void> {}
+
+  // ========== Spot ==========
+
+  async getSpotAccount(): Promise<{ balances: Array<{ asset: string; free: string; locked: string }> }> {
+    return this.engine.getSpotAccount(this.userId);
+  }
+
+  async createSpotOrder(orderParams: Parameters<AsterApiClient['createSpotOrder']>[0]): Promise<any> {
+    if (!(await this.validateSpotSymbol(orderParams.symbol))) {
+      throw new Error(`Symbol ${orderParams.symbol} is not available for spot trading. Please check the symbol or use futures trading instead.`);
+    }
+    return this.engine.placeSpotOrder(this.userId, orderParams);
+  }
+
+  async placeSpotOrder(orderRequest: NewOrderRequest): Promise<OrderResponse> {
+    return this.engine.placeSpotOrder(this.userId, {
+      symbol: orderRequest.symbol,
+      side: orderRequest.side,
+      type: orderRequest.type,
+      quantity: orderRequest.quantity,
+      newClientOrderId: orderRequest.newClientOrderId
+    });
+  }
+
+  async getSpotOpenOrders(symbol?: string): Promise<any[]> {
+    return this.engine.getOpenOrders(this.userId, 'spot', symbol);
+  }
+
+  async getSpotOrder(symbol: string, orderId: number): Promise<any> {
+    return this.engine.getOrder(this.userId, 'spot', symbol, orderId);
+  }
+
+  async cancelSpotOrder(symbol: string, orderId?: number, clientOrderId?: string): Promise<any> {
+    if (!orderId && !clientOrderId) {
+      throw new Error('Either orderId or clientOrderId must be provided');
+    }
+    return this.engine.cancelOrder(this.userId, this.telegramId, 'spot', symbol, orderId, clientOrderId);
+  }
+
+  async cancelAllSpotOrders(symbol: string): Promise<any> {
+    return this.engine.cancelAllOrders(this.userId, this.telegramId, 'spot', symbol);
+  }
+
+  async getSpotUserTrades(symbol: string, limit = 500): Promise<any[]> {
+    const trades = await this.engine.getTrades(this.userId, 'spot', symbol, limit);
+    return trades.map(PaperApiClient.toTrade);
+  }
+
+  async getMyTrades(symbol: string, limit = 500): Promise<any[]> {
+    const trades = await this.engine.getTrades(this.userId, 'spot', symbol, limit);
+    return trades.map(PaperApiClient.toTrade);
+  }
+
+  async validateApiCredentials(): Promise<boolean> {
+    return true;
+  }
+
+  private static toTrade(trade: PaperTrade) {
+    return {
+      symbol: trade.symbol,
+      id: trade.id,
+      orderId: trade.order_id,
+      side: trade.side,
+      price: trade.price,
+      qty: trade.qty,
+      quoteQty: trade.quote_qty,
+      commission: trade.commission,
+      commissionAsset: trade.commission_asset,
+      realizedPnl: trade.realized_pnl,
+      time: new Date(trade.created_at).getTime(),
+      isBuyer: trade.side === 'BUY',
+      buyer: trade.side === 'BUY',
+      isMaker: trade.is_maker,
+      maker: trade.is_maker
+    };
+  }
+}
@@ -0,0 +1,1361 @@
+import { AsterApiClient } from '../aster';
+import { DatabaseManager } from '../db';
+import { BotEventEmitter, EventTypes } from '../events/EventEmitter';
+import { UserDataStreamService } from './UserDataStreamService';
+import {
+  AccountInfo,
+  AccountUpdateEvent,
+  BotError,
+  NewOrderRequest,
+  OrderBookDepth,
+  OrderResponse,
+  OrderTradeUpdateEvent,
+  PaperAccountChanges,
+  PaperBalance,
+  PaperIncome,
+  PaperOrder,
+  PaperPosition,
+  PaperTrade,
+  PaperWallet,
+  PositionInfo
+} from '../types';
+
+export type PaperMarket = PaperOrder['market'];
+
+export interface SpotOrderParams {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  quantity?: string;
+  quoteOrderQty?: string;
+  price?: string;
+  stopPrice?: string;
+  timeInForce?: string;
+  newClientOrderId?: string;
+}
+
+export interface PaperAccountSummary {
+  futuresWallet: number;
+  futuresEquity: number;
+  spotUsdt: number;
+  openPositions: number;
+  openOrders: number;
+}
+
+interface MarkData {
+  markPrice: number;
+  fundingRate: number;
+}
+
+// Prices for one sweep, fetched once and shared by every user
+interface MarketSnapshot {
+  marks: Map<string, MarkData>;
+  spotPrices: Map<string, number>;
+}
+
+interface BookFill {
+  quantity: number;
+  cost: number;
+}
+
+// Loaded account for one simulator step; every change is collected and saved together
+interface PaperSession {
+  userId: number;
+  telegramId: number;
+  balances: Map<string, { wallet: PaperWallet; asset: string; free: number; locked: number }>;
+  positions: Map<string, { symbol: string; amt: number; entry: number; leverage: number; lastFundingAt: Date | null }>;
+  openOrders: PaperOrder[];
+  marks: Map<string, MarkData>;
+  touchedBalances: Set<string>;
+  touchedPositions: Set<string>;
+  touchedOrders: Map<number, PaperOrder>;
+  trades: PaperAccountChanges['trades'];
+  income: PaperAccountChanges['income'];
+  orderEvents: OrderTradeUpdateEvent['o'][];
+  accountEvents: AccountUpdateEvent['a'][];
+}
+
+/**
+ * In-process exchange for paper trading. Orders fill against the public order book and
+ * mark price, and balances, positions, fees, funding and liquidations live in Postgres.
+ * Futures positions are one-way cross margin in USDT.
+ */
+export class PaperTradingService {
+  static readonly STARTING_BALANCE = 10000;
+  static readonly FUTURES_TAKER_FEE = 0.0005;
+  static readonly FUTURES_MAKER_FEE = 0.0002;
+  static readonly SPOT_FEE = 0.001;
+  static readonly MAINTENANCE_MARGIN_RATE = 0.005;
+  static readonly FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+  static readonly DEFAULT_LEVERAGE = 20;
+  static readonly MAX_LEVERAGE = 125;
+  static readonly DEFAULT_INTERVAL_MS = 5 * 1000;
+
+  private static readonly EPSILON = 1e-9;
+  private static readonly STOP_TYPES = ['STOP', 'STOP_MARKET', 'STOP_LOSS', 'STOP_LOSS_LIMIT'];
+  private static readonly TAKE_PROFIT_TYPES = ['TAKE_PROFIT', 'TAKE_PROFIT_MARKET', 'TAKE_PROFIT_LIMIT'];
+  private static readonly MARKET_ON_TRIGGER = ['STOP_MARKET', 'TAKE_PROFIT_MARKET', 'TRAILING_STOP_MARKET', 'STOP_LOSS', 'TAKE_PROFIT'];
+
+  private db: DatabaseManager;
+  private marketData: AsterApiClient;
+  private eventEmitter: BotEventEmitter;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping = false;
+  private locks = new Map<number, Promise<unknown>>();
+
+  constructor(db: DatabaseManager, marketData: AsterApiClient, eventEmitter: BotEventEmitter) {
+    this.db = db;
+    this.marketData = marketData;
+    this.eventEmitter = eventEmitter;
+  }
+
+  static splitSpotSymbol(symbol: string): { base: string; quote: string } {
+    const match = symbol.match(/^(.+?)(USDT|USDC|USD1|BUSD)$/);
+    return match ? { base: match[1], quote: match[2] } : { base: symbol.replace(/USDT$/, ''), quote: 'USDT' };
+  }
+
+  /**
+   * Walk one side of the book. Market orders without a limit take the last level for any remainder.
+   */
+  static walkBook(levels: [string, string][], quantity: number, limitPrice: number | null, side: 'BUY' | 'SELL'): BookFill {
+    let filled = 0;
+    let cost = 0;
+    for (const [rawPrice, rawQty] of levels) {
+      const price = parseFloat(rawPrice);
+      if (limitPrice !== null && (side === 'BUY' ? price > limitPrice : price < limitPrice)) break;
+
+      const take = Math.min(parseFloat(rawQty), quantity - filled);
+      filled += take;
+      cost += take * price;
+      if (quantity - filled <= PaperTradingService.EPSILON) break;
+    }
+
+    if (limitPrice === null && quantity - filled > PaperTradingService.EPSILON && levels.length > 0) {
+      const lastPrice = parseFloat(levels[levels.length - 1][0]);
+      cost += (quantity - filled) * lastPrice;
+      filled = quantity;
+    }
+
+    return { quantity: filled, cost };
+  }
+
+  /**
+   * Walk asks until a quote amount is spent, for spot market buys by quoteOrderQty
+   */
+  static walkBookByQuote(asks: [string, string][], quoteAmount: number): BookFill {
+    let filled = 0;
+    let cost = 0;
+    for (const [rawPrice, rawQty] of asks) {
+      const price = parseFloat(rawPrice);
+      const take = Math.min(parseFloat(rawQty), (quoteAmount - cost) / price);
+      filled += take;
+      cost += take * price;
+      if (quoteAmount - cost <= PaperTradingService.EPSILON) break;
+    }
+
+    if (quoteAmount - cost > PaperTradingService.EPSILON && asks.length > 0) {
+      const lastPrice = parseFloat(asks[asks.length - 1][0]);
+      filled += (quoteAmount - cost) / lastPrice;
+      cost = quoteAmount;
+    }
+
+    return { quantity: filled, cost };
+  }
+
+  /**
+   * Mark price at which a cross position is liquidated, holding every other position's PnL fixed
+   */
+  static liquidationPrice(amt: number, entry: number, wallet: number, otherUnrealized: number, otherMaint: number): number {
+    const denominator = amt - Math.abs(amt) * PaperTradingService.MAINTENANCE_MARGIN_RATE;
+    if (amt === 0 || denominator === 0) return 0;
+
+    const price = (otherMaint - wallet - otherUnrealized + amt * entry) / denominator;
+    return price > 0 ? price : 0;
+  }
+
+  /**
+   * Whether a conditional order fires at this price
+   */
+  static isTriggered(order: Pick<PaperOrder, 'orig_type' | 'side' | 'stop_price'>, price: number): boolean {
+    const stopPrice = parseFloat(order.stop_price || '0');
+    if (PaperTradingService.STOP_TYPES.includes(order.orig_type)) {
+      return order.side === 'BUY' ? price >= stopPrice : price <= stopPrice;
+    }
+    if (PaperTradingService.TAKE_PROFIT_TYPES.includes(order.orig_type)) {
+      return order.side === 'BUY' ? price <= stopPrice : price >= stopPrice;
+    }
+    return false;
+  }
+
+  // ========== Futures ==========
+
+  async getFuturesAccount(userId: number): Promise<AccountInfo> {
+    return this.withLock(userId, async () => {
+      const session = await this.load(userId, 0, true);
+      await this.save(session);
+
+      const positions = this.buildPositions(session);
+      const totals = this.futuresTotals(session);
+      const wallet = this.balance(session, 'futures', 'USDT').free;
+      const asset = {
+        asset: 'USDT',
+        walletBalance: dec(wallet),
+        unrealizedPnl: dec(totals.unrealized),
+        marginBalance: dec(wallet + totals.unrealized),
+        maintMargin: dec(totals.maintMargin),
+        initialMargin: dec(totals.positionMargin + totals.orderMargin),
+        positionInitialMargin: dec(totals.positionMargin),
+        openOrderInitialMargin: dec(totals.orderMargin),
+        crossWalletBalance: dec(wallet),
+        crossUnPnl: dec(totals.unrealized),
+        availableBalance: dec(totals.available),
+        maxWithdrawAmount: dec(totals.available)
+      };
+
+      return {
+        feeTier: 0,
+        canTrade: true,
+        canDeposit: false,
+        canWithdraw: false,
+        updateTime: Date.now(),
+        totalWalletBalance: asset.walletBalance,
+        totalUnrealizedPnl: asset.unrealizedPnl,
+        totalMarginBalance: asset.marginBalance,
+        totalPositionInitialMargin: asset.positionInitialMargin,
+        totalOpenOrderInitialMargin: asset.openOrderInitialMargin,
+        totalCrossWalletBalance: asset.crossWalletBalance,
+        totalCrossUnPnl: asset.crossUnPnl,
+        totalMaintMargin: asset.maintMargin,
+        availableBalance: asset.availableBalance,
+        maxWithdrawAmount: asset.maxWithdrawAmount,
+        assets: [asset],
+        positions
+      };
+    });
+  }
+
+  async getPositionRisk(userId: number): Promise<PositionInfo[]> {
+    return this.withLock(userId, async () => {
+      const session = await this.load(userId, 0, true);
+      return this.buildPositions(session);
+    });
+  }
+
+  async changeLeverage(userId: number, symbol: string, leverage: number): Promise<{ symbol: string; leverage: number; maxNotionalValue: string }> {
+    if (!Number.isInteger(leverage) || leverage < 1 || leverage > PaperTradingService.MAX_LEVERAGE) {
+      throw rejection(`Leverage ${leverage} is not valid`);
+    }
+
+    return this.withLock(userId, async () => {
+      const session = await this.load(userId, 0, false);
+      const position = this.position(session, symbol);
+      position.leverage = leverage;
+      session.touchedPositions.add(symbol);
+      await this.save(session);
+      return { symbol, leverage, maxNotionalValue: 'INF' };
+    });
+  }
+
+  async placeFuturesOrder(userId: number, telegramId: number, params: Partial<NewOrderRequest>): Promise<OrderResponse> {
+    const { symbol, side, type } = params;
+    if (!symbol || !side || !type) {
+      throw new Error('Missing required order parameters: symbol, side, type');
+    }
+
+    const quantity = parseFloat(params.quantity || '0');
+    if (!params.closePosition && !(quantity > 0)) throw rejection('Quantity must be greater than zero.');
+    if (params.closePosition && type !== 'STOP_MARKET' && type !== 'TAKE_PROFIT_MARKET') {
+      throw rejection('closePosition is only supported for STOP_MARKET and TAKE_PROFIT_MARKET orders.');
+    }
+    if (['LIMIT', 'STOP', 'TAKE_PROFIT'].includes(type) && !(parseFloat(params.price || '0') > 0)) {
+      throw rejection('Price is required for this order type.');
+    }
+    if (['STOP', 'STOP_MARKET', 'TAKE_PROFIT', 'TAKE_PROFIT_MARKET'].includes(type) && !(parseFloat(params.stopPrice || '0') > 0)) {
+      throw rejection('Stop price is required for this order type.');
+    }
+    const callbackRate = parseFloat(params.callbackRate || '0');
+    if (type === 'TRAILING_STOP_MARKET' && !(callbackRate >= 0.1 && callbackRate <= 5)) {
+      throw rejection('Callback rate must be between 0.1 and 5.');
+    }
+
+    return this.withLock(userId, async () => {
+      const session = await this.load(userId, telegramId, true);
+      const mark = this.markFor(session, symbol);
+      const position = this.position(session, symbol);
+
+      const order = await this.newOrder({
+        market: 'perps',
+        symbol,
+        client_order_id: params.newClientOrderId,
+        side,
+        type,
+        time_in_force: type === 'MARKET' ? null : params.timeInForce ?? 'GTC',
+        price: params.price ?? null,
+        stop_price: params.stopPrice ?? null,
+        quantity: params.closePosition ? '0' : dec(quantity),
+        reduce_only: !!(params.reduceOnly || params.closePosition),
+        close_position: !!params.closePosition,
+        callback_rate: type === 'TRAILING_STOP_MARKET' ? String(callbackRate) : null,
+        activation_price: params.activationPrice ?? null
+      });
+
+      if (order.reduce_only && (type === 'MARKET' || type === 'LIMIT') && this.closableQuantity(position.amt, side) <= 0) {
+        throw rejection('ReduceOnly Order is rejected.');
+      }
+
+      if (type === 'MARKET') {
+        const fill = await this.fillMarket(session, order);
+        if (fill === 'insufficient') throw rejection('Margin is insufficient.');
+      } else if (type === 'LIMIT') {
+        if (await this.placeLimit(session, order) === 'insufficient') throw rejection('Margin is insufficient.');
+      } else if (type === 'TRAILING_STOP_MARKET') {
+        const activation = parseFloat(order.activation_price || '0');
+        if (!(activation > 0)) order.best_price = dec(mark.markPrice);
+        this.rest(session, order);
+      } else {
+        if (PaperTradingService.isTriggered(order, mark.markPrice)) {
+          throw rejection('Order would immediately trigger.');
+        }
+        this.rest(session, order);
+      }
+
+      await this.save(session);
+      return this.toResponse(order);
+    });
+  }
+
+  // ========== Spot ==========
+
+  async getSpotAccount(userId: number): Promise<{ balances: Array<{ asset: string; free: string; locked: string }> }> {
+    return this.withLock(userId, async () => {
+      const session = await this.load(userId, 0, false);
+      await this.save(session);
+
+      const balances = [...session.balances.values()]
+        .filter(balance => balance.wallet === 'spot' && balance.free + balance.locked > PaperTradingService.EPSILON)
+        .map(balance => ({ asset: balance.asset, free: dec(balance.free), locked: dec(balance.locked) }));
+      return { balances };
+    });
+  }
+
+  async placeSpotOrder(userId: number, params: SpotOrderParams): Promise<any> {
+    const quantity = parseFloat(params.quantity || '0');
+    const quoteOrderQty = parseFloat(params.quoteOrderQty || '0');
+    if (!(quantity > 0) && !(params.type === 'MARKET' && params.side === 'BUY' && quoteOrderQty > 0)) {
+      throw rejection('Quantity must be greater than zero.');
+    }
+    if (params.type.includes('LIMIT') && !(parseFloat(params.price || '0') > 0)) {
+      throw rejection('Price is required for this order type.');
+    }
+    if (params.type !== 'MARKET' && params.type !== 'LIMIT' && !(parseFloat(params.stopPrice || '0') > 0)) {
+      throw rejection('Stop price is required for this order type.');
+    }
+
+    return this.withLock(userId, async () => {
+      const session = await this.load(userId, 0, false);
+      const order = await this.newOrder({
+        market: 'spot',
+        symbol: params.symbol,
+        client_order_id: params.newClientOrderId,
+        side: params.side,
+        type: params.type,
+        time_in_force: params.type === 'MARKET' ? null : params.timeInForce ?? 'GTC',
+        price: params.price ?? null,
+        stop_price: params.stopPrice ?? null,
+        quantity: quantity > 0 ? dec(quantity) : '0',
+        quote_quantity: quoteOrderQty > 0 ? dec(quoteOrderQty) : null,
+        reduce_only: false,
+        close_position: false,
+        callback_rate: null,
+        activation_price: null
+      });
+
+      if (params.type === 'MARKET') {
+        const fill = await this.fillMarket(session, order);
+        if (fill === 'insufficient') throw rejection('Account has insufficient balance for requested action.');
+      } else if (params.type === 'LIMIT') {
+        if (!this.lockSpotFunds(session, order) || await this.placeLimit(session, order) === 'insufficient') {
+          throw rejection('Account has insufficient balance for requested action.');
+        }
+      } else {
+        const book = await this.getBook('spot', order.symbol);
+        if (PaperTradingService.isTriggered(order, midPrice(book))) {
+          throw rejection('Order would immediately trigger.');
+        }
+        if (!this.lockSpotFunds(session, order)) throw rejection('Account has insufficient balance for requested action.');
+        this.rest(session, order);
+      }
+
+      await this.save(session);
+
+      const executed = parseFloat(order.executed_qty);
+      const trades = session.trades.filter(trade => trade.order_id === order.id);
+      return {
+        ...this.toResponse(order),
+        transactTime: Date.now(),
+        cummulativeQuoteQty: order.cum_quote,
+        fills: executed > 0
+          ? trades.map(trade => ({ price: trade.price, qty: trade.qty, commission: trade.commission, commissionAsset: trade.commission_asset }))
+          : []
+      };
+    });
+  }
+
+  // ========== Orders (both markets) ==========
+
+  async getOrder(userId: number, market: PaperMarket, symbol: string, orderId?: number, clientOrderId?: string): Promise<OrderResponse> {
+    const order = await this.db.getPaperOrder(userId, symbol, orderId, clientOrderId);
+    if (!order || order.market !== market) throw rejection('Order does not exist.');
+    return this.toResponse(order);
+  }
+
+  async getOpenOrders(userId: number, market: PaperMarket, symbol?: string): Promise<OrderResponse[]> {
+    const { openOrders } = await this.db.getPaperAccount(userId);
+    return openOrders
+      .filter(order => order.market === market && (!symbol || order.symbol === symbol))
+      .map(order => this.toResponse(order));
+  }
+
+  async cancelOrder(userId: number, telegramId: number, market: PaperMarket, symbol: string, orderId?: number, clientOrderId?: string): Promise<OrderResponse> {
+    return this.withLock(userId, async () => {
+      const session = await this.load(userId, telegramId, false);
+      const order = session.openOrders.find(o =>
+        o.market === market && o.symbol === symbol && (o.id === orderId || (!!clientOrderId && o.client_order_id === clientOrderId))
+      );
+      if (!order) throw rejection('Unknown order sent.');
+
+      this.close(session, order, 'CANCELED');
+      await this.save(session);
+      return this.toResponse(order);
+    });
+  }
+
+  async cancelAllOrders(userId: number, telegramId: number, market: PaperMarket, symbol?: string): Promise<{ code: number; msg: string }> {
+    return this.withLock(userId, async () => {
+      const session = await this.load(userId, telegramId, false);
+      session.openOrders
+        .filter(order => order.market === market && (!symbol || order.symbol === symbol))
+        .forEach(order => this.close(session, order, 'CANCELED'));
+      await this.save(session);
+      return { code: 200, msg: 'The operation of cancel all open order is done.' };
+    });
+  }
+
+  async getTrades(userId: number, market: PaperMarket, symbol: string, limit: number): Promise<PaperTrade[]> {
+    return this.db.getPaperTrades(userId, market, symbol, limit);
+  }
+
+  async getIncome(
+    userId: number,
+    filters: { symbol?: string; incomeType?: string; startTime?: number; endTime?: number },
+    limit: number
+  ): Promise<PaperIncome[]> {
+    return this.db.getPaperIncome(userId, filters, limit);
+  }
+
+  // ========== Account ==========
+
+  /**
+   * Wipe the paper account and start again with the default balances
+   */
+  async reset(userId: number): Promise<void> {
+    await this.withLock(userId, () => this.db.resetPaperAccount(userId, PaperTradingService.startingBalances()));
+  }
+
+  async getSummary(userId: number): Promise<PaperAccountSummary> {
+    const account = await this.getFuturesAccount(userId);
+    const spot = await this.getSpotAccount(userId);
+    const { openOrders } = await this.db.getPaperAccount(userId);
+    const spotUsdt = spot.balances.find(balance => balance.asset === 'USDT');
+
+    return {
+      futuresWallet: parseFloat(account.totalWalletBalance),
+      futuresEquity: parseFloat(account.totalMarginBalance),
+      spotUsdt: spotUsdt ? parseFloat(spotUsdt.free) + parseFloat(spotUsdt.locked) : 0,
+      openPositions: account.positions.filter(p => parseFloat(p.positionAmt) !== 0).length,
+      openOrders: openOrders.length
+    };
+  }
+
+  formatSummary(enabled: boolean, summary: PaperAccountSummary): string {
+    const pnl = summary.futuresEquity - PaperTradingService.STARTING_BALANCE;
+    return [
+      '🧪 **Paper Trading**',
+      '',
+      `**Mode:** ${enabled ? '🧪 Paper (simulated)' : '💰 Live'}`,
+      '',
+      `**Futures Wallet:** $${summary.futuresWallet.toFixed(2)}`,
+      `**Futures Equity:** $${summary.futuresEquity.toFixed(2)} (${pnl >= 0 ? '+' : ''}$${pnl.toFixed(2)})`,
+      `**Spot USDT:** $${summary.spotUsdt.toFixed(2)}`,
+      `**Open Positions:** ${summary.openPositions} • **Open Orders:** ${summary.openOrders}`,
+      '',
+      `Paper orders fill against live AsterDEX prices and order books with exchange fees, funding every 8h and cross-margin liquidation. Every account starts with $${PaperTradingService.STARTING_BALANCE.toLocaleString()} USDT in futures and in spot.`,
+      '',
+      enabled
+        ? 'Trades you place now are simulated. Live fill notifications pause until you switch back.'
+        : 'Switch to paper mode to practise without risking funds. No API keys needed.'
+    ].join('\n');
+  }
+
+  // ========== Worker ==========
+
+  /**
+   * Start the background worker that triggers, fills, funds and liquidates paper accounts
+   */
+  start(intervalMs = PaperTradingService.DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => console.error('[PaperTradingService] Sweep failed:', error));
+    }, intervalMs);
+
+    console.log(`[PaperTradingService] Worker started (every ${intervalMs / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one pass over every paper account with working orders or open positions.
+   * Resolves the number of accounts processed.
+   */
+  async sweep(): Promise<number> {
+    // Overlapping ticks would fill the same order twice
+    if (this.sweeping) return 0;
+    this.sweeping = true;
+
+    try {
+      const users = await this.db.getActivePaperUsers();
+      if (users.length === 0) return 0;
+
+      const snapshot: MarketSnapshot = { marks: await this.getMarks(), spotPrices: new Map() };
+      const spotTickers = await this.marketData.getAllSpotTickers();
+      spotTickers.forEach(ticker => snapshot.spotPrices.set(ticker.symbol, parseFloat(ticker.lastPrice)));
+
+      let processed = 0;
+      for (const user of users) {
+        try {
+          await this.withLock(user.user_id, () => this.processAccount(user.user_id, user.tg_id, snapshot));
+          processed++;
+        } catch (error) {
+          console.warn(`[PaperTradingService] Skipping user ${user.user_id}:`, error);
+        }
+      }
+
+      return processed;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async processAccount(userId: number, telegramId: number, snapshot: MarketSnapshot): Promise<void> {
+    const session = await this.load(userId, telegramId, false);
+    session.marks = snapshot.marks;
+
+    for (const order of [...session.openOrders]) {
+      const price = order.market === 'perps' ? snapshot.marks.get(order.symbol)?.markPrice : snapshot.spotPrices.get(order.symbol);
+      if (price === undefined || !(price > 0)) continue;
+      await this.evaluateOrder(session, order, price);
+    }
+
+    this.applyFunding(session);
+    await this.checkLiquidation(session);
+    await this.save(session);
+  }
+
+  private async evaluateOrder(session: PaperSession, order: PaperOrder, price: number): Promise<void> {
+    if (order.type === 'LIMIT') {
+      const limit = parseFloat(order.price || '0');
+      if (order.side === 'BUY' ? price <= limit : price >= limit) {
+        const remaining = parseFloat(order.quantity) - parseFloat(order.executed_qty);
+        const result = this.fill(session, order, remaining, limit, true);
+        if (result === 'insufficient') this.close(session, order, 'EXPIRED');
+      }
+      return;
+    }
+
+    if (order.orig_type === 'TRAILING_STOP_MARKET') {
+      if (!this.trailingTriggered(session, order, price)) return;
+    } else if (!PaperTradingService.isTriggered(order, price)) {
+      return;
+    }
+
+    if (PaperTradingService.MARKET_ON_TRIGGER.includes(order.orig_type)) {
+      order.type = 'MARKET';
+      session.touchedOrders.set(order.id, order);
+      const result = await this.fillMarket(session, order);
+      if (result !== 'filled') this.close(session, order, 'EXPIRED');
+    } else {
+      // Stop-limit orders become plain limit orders once triggered
+      order.type = 'LIMIT';
+      session.touchedOrders.set(order.id, order);
+      if (await this.placeLimit(session, order) === 'insufficient') this.close(session, order, 'EXPIRED');
+    }
+  }
+
+  /**
+   * Track the best price since activation and report whether the callback distance was hit
+   */
+  private trailingTriggered(session: PaperSession, order: PaperOrder, price: number): boolean {
+    if (order.best_price === null) {
+      const activation = parseFloat(order.activation_price || '0');
+      const activated = order.side === 'SELL' ? price >= activation : price <= activation;
+      if (!activated) return false;
+      order.best_price = dec(price);
+      session.touchedOrders.set(order.id, order);
+      return false;
+    }
+
+    const best = parseFloat(order.best_price);
+    const callback = parseFloat(order.callback_rate || '0') / 100;
+    if (order.side === 'SELL' ? price > best : price < best) {
+      order.best_price = dec(price);
+      session.touchedOrders.set(order.id, order);
+      return false;
+    }
+
+    return order.side === 'SELL' ? price <= best * (1 - callback) : price >= best * (1 + callback);
+  }
+
+  private applyFunding(session: PaperSession): void {
+    const now = Date.now();
+    for (const position of session.positions.values()) {
+      if (position.amt === 0) continue;
+
+      const last = position.lastFundingAt?.getTime();
+      if (last === undefined) {
+        position.lastFundingAt = new Date(now);
+        session.touchedPositions.add(position.symbol);
+        continue;
+      }
+      if (now - last < PaperTradingService.FUNDING_INTERVAL_MS) continue;
+
+      const mark = session.marks.get(position.symbol);
+      if (!mark) continue;
+
+      // Longs pay shorts when the rate is positive
+      const funding = -position.amt * mark.markPrice * mark.fundingRate;
+      const wallet = this.balance(session, 'futures', 'USDT');
+      wallet.free += funding;
+      session.touchedBalances.add('futures:USDT');
+      position.lastFundingAt = new Date(now);
+      session.touchedPositions.add(position.symbol);
+      session.income.push({ symbol: position.symbol, income_type: 'FUNDING_FEE', amount: dec(funding), asset: 'USDT', order_id: null });
+      session.accountEvents.push(this.accountEvent(session, 'FUNDING_FEE', [position.symbol]));
+    }
+  }
+
+  /**
+   * Close every futures position at the mark price once margin balance falls to the maintenance margin
+   */
+  private async checkLiquidation(session: PaperSession): Promise<void> {
+    const open = [...session.positions.values()].filter(position => position.amt !== 0);
+    if (open.length === 0 || open.some(position => !session.marks.has(position.symbol))) return;
+
+    const totals = this.futuresTotals(session);
+    const wallet = this.balance(session, 'futures', 'USDT');
+    if (wallet.free + totals.unrealized > totals.maintMargin) return;
+
+    session.openOrders
+      .filter(order => order.market === 'perps')
+      .forEach(order => this.close(session, order, 'CANCELED'));
+
+    for (const position of open) {
+      const order = await this.newOrder({
+        market: 'perps',
+        symbol: position.symbol,
+        client_order_id: `autoclose-${Date.now()}-${position.symbol}`,
+        side: position.amt > 0 ? 'SELL' : 'BUY',
+        type: 'LIQUIDATION',
+        time_in_force: 'IOC',
+        price: null,
+        stop_price: null,
+        quantity: dec(Math.abs(position.amt)),
+        reduce_only: true,
+        close_position: false,
+        callback_rate: null,
+        activation_price: null
+      });
+      this.fill(session, order, Math.abs(position.amt), session.marks.get(position.symbol)!.markPrice, false, true);
+    }
+
+    // Losses beyond the wallet are absorbed by the insurance fund
+    if (wallet.free < 0) {
+      session.income.push({ symbol: open[0].symbol, income_type: 'INSURANCE_CLEAR', amount: dec(-wallet.free), asset: 'USDT', order_id: null });
+      wallet.free = 0;
+      session.touchedBalances.add('futures:USDT');
+    }
+  }
+
+  // ========== Matching ==========
+
+  /**
+   * Fill a market order against the book. closePosition orders size themselves from the position
+   * and reduce-only orders are clipped to it.
+   */
+  private async fillMarket(session: PaperSession, order: PaperOrder): Promise<'filled' | 'insufficient' | 'nothing'> {
+    const book = await this.getBook(order.market, order.symbol);
+    const levels = order.side === 'BUY' ? book.asks : book.bids;
+    if (levels.length === 0) {
+      throw rejection(`No liquidity in the ${order.symbol} order book.`);
+    }
+
+    let quantity = parseFloat(order.quantity) - parseFloat(order.executed_qty);
+    if (order.market === 'perps') {
+      const position = this.position(session, order.symbol);
+      if (order.close_position) {
+        quantity = this.closableQuantity(position.amt, order.side);
+        order.quantity = dec(quantity);
+      } else if (order.reduce_only) {
+        quantity = Math.min(quantity, this.closableQuantity(position.amt, order.side));
+      }
+      if (quantity <= PaperTradingService.EPSILON) return 'nothing';
+    }
+
+    const bookFill = order.quote_quantity && !(quantity > 0)
+      ? PaperTradingService.walkBookByQuote(book.asks, parseFloat(order.quote_quantity))
+      : PaperTradingService.walkBook(levels, quantity, null, order.side);
+    if (bookFill.quantity <= PaperTradingService.EPSILON) return 'nothing';
+
+    if (!(parseFloat(order.quantity) > 0)) order.quantity = dec(bookFill.quantity);
+
+    const result = this.fill(session, order, bookFill.quantity, bookFill.cost / bookFill.quantity, false);
+    return result === 'insufficient' ? 'insufficient' : 'filled';
+  }
+
+  /**
+   * Match a limit order against the book by its time in force, resting whatever remains for GTC and GTX
+   */
+  private async placeLimit(session: PaperSession, order: PaperOrder): Promise<'placed' | 'insufficient'> {
+    const book = await this.getBook(order.market, order.symbol);
+    const limit = parseFloat(order.price || '0');
+    const levels = order.side === 'BUY' ? book.asks : book.bids;
+    const best = parseFloat(levels[0]?.[0] || '0');
+    const marketable = best > 0 && (order.side === 'BUY' ? best <= limit : best >= limit);
+
+    if (!marketable) {
+      if (order.time_in_force === 'IOC' || order.time_in_force === 'FOK') {
+        this.close(session, order, 'EXPIRED');
+        return 'placed';
+      }
+      return this.restWithMarginCheck(session, order);
+    }
+
+    // Post-only orders never take liquidity
+    if (order.time_in_force === 'GTX') {
+      this.close(session, order, 'EXPIRED');
+      return 'placed';
+    }
+
+    const remaining = parseFloat(order.quantity) - parseFloat(order.executed_qty);
+    const bookFill = PaperTradingService.walkBook(levels, remaining, limit, order.side);
+    if (order.time_in_force === 'FOK' && bookFill.quantity < remaining - PaperTradingService.EPSILON) {
+      this.close(session, order, 'EXPIRED');
+      return 'placed';
+    }
+
+    if (this.fill(session, order, bookFill.quantity, bookFill.cost / bookFill.quantity, false) === 'insufficient') {
+      return 'insufficient';
+    }
+
+    if (order.status === 'FILLED') return 'placed';
+    if (order.time_in_force === 'IOC') {
+      this.close(session, order, 'EXPIRED');
+      return 'placed';
+    }
+    return this.restWithMarginCheck(session, order);
+  }
+
+  private restWithMarginCheck(session: PaperSession, order: PaperOrder): 'placed' | 'insufficient' {
+    if (order.market === 'perps' && !order.reduce_only) {
+      const remaining = parseFloat(order.quantity) - parseFloat(order.executed_qty);
+      const leverage = this.position(session, order.symbol).leverage;
+      if (this.futuresTotals(session, order.id).available < remaining * parseFloat(order.price || '0') / leverage) {
+        return 'insufficient';
+      }
+    }
+    this.rest(session, order);
+    return 'placed';
+  }
+
+  private rest(session: PaperSession, order: PaperOrder): void {
+    session.touchedOrders.set(order.id, order);
+    if (session.openOrders.includes(order)) return;
+
+    session.openOrders.push(order);
+    if (order.market === 'perps' && parseFloat(order.executed_qty) === 0) {
+      session.orderEvents.push(this.orderEvent(order, 'NEW'));
+    }
+  }
+
+  /**
+   * Apply one fill to the account. Returns 'insufficient' without changing anything
+   * when the margin or balance is not there.
+   */
+  private fill(
+    session: PaperSession,
+    order: PaperOrder,
+    quantity: number,
+    price: number,
+    isMaker: boolean,
+    liquidation = false
+  ): 'filled' | 'partial' | 'insufficient' | 'nothing' {
+    if (quantity <= PaperTradingService.EPSILON) return 'nothing';
+
+    const result = order.market === 'perps'
+      ? this.fillFutures(session, order, quantity, price, isMaker, liquidation)
+      : this.fillSpot(session, order, quantity, price, isMaker);
+    if (result === 'insufficient' || result === 'nothing') return result;
+
+    order.executed_qty = dec(parseFloat(order.executed_qty) + result.quantity);
+    order.cum_quote = dec(parseFloat(order.cum_quote) + result.quantity * price);
+    // Market and liquidation orders are complete after their one fill, even when reduce-only clipped them
+    const done = parseFloat(order.executed_qty) >= parseFloat(order.quantity) - PaperTradingService.EPSILON;
+    order.status = done || order.type === 'MARKET' || order.type === 'LIQUIDATION' ? 'FILLED' : 'PARTIALLY_FILLED';
+    session.touchedOrders.set(order.id, order);
+    if (order.status === 'FILLED') {
+      session.openOrders = session.openOrders.filter(o => o !== order);
+    }
+
+    session.trades.push({
+      market: order.market,
+      symbol: order.symbol,
+      order_id: order.id,
+      side: order.side,
+      price: dec(price),
+      qty: dec(result.quantity),
+      quote_qty: dec(result.quantity * price),
+      commission: dec(result.commission),
+      commission_asset: result.commissionAsset,
+      realized_pnl: dec(result.realized),
+      is_maker: isMaker
+    });
+
+    if (order.market === 'perps') {
+      session.orderEvents.push(this.orderEvent(order, 'TRADE', {
+        quantity: result.quantity,
+        price,
+        commission: result.commission,
+        realized: result.realized,
+        isMaker
+      }));
+      session.accountEvents.push(this.accountEvent(session, 'ORDER', [order.symbol]));
+    }
+
+    return order.status === 'FILLED' ? 'filled' : 'partial';
+  }
+
+  private fillFutures(
+    session: PaperSession,
+    order: PaperOrder,
+    quantity: number,
+    price: number,
+    isMaker: boolean,
+    liquidation: boolean
+  ): { quantity: number; commission: number; commissionAsset: string; realized: number } | 'insufficient' | 'nothing' {
+    const position = this.position(session, order.symbol);
+    if (order.reduce_only) {
+      quantity = Math.min(quantity, this.closableQuantity(position.amt, order.side));
+      if (quantity <= PaperTradingService.EPSILON) return 'nothing';
+    }
+
+    const signed = order.side === 'BUY' ? quantity : -quantity;
+    const closing = Math.sign(position.amt) === -Math.sign(signed) ? Math.min(quantity, Math.abs(position.amt)) : 0;
+    const opening = quantity - closing;
+    const feeRate = isMaker ? PaperTradingService.FUTURES_MAKER_FEE : PaperTradingService.FUTURES_TAKER_FEE;
+    const commission = quantity * price * feeRate;
+
+    if (opening > 0 && !liquidation) {
+      // The order's own reserved margin is released by the fill, so leave it out
+      const available = this.futuresTotals(session, order.id).available;
+      if (available < opening * price / position.leverage + commission) return 'insufficient';
+    }
+
+    const realized = closing * (price - position.entry) * Math.sign(position.amt);
+    const newAmt = roundQty(position.amt + signed);
+    if (newAmt === 0) {
+      position.entry = 0;
+    } else if (closing === 0) {
+      position.entry = (Math.abs(position.amt) * position.entry + quantity * price) / Math.abs(newAmt);
+    } else if (Math.sign(newAmt) !== Math.sign(position.amt)) {
+      position.entry = price;
+    }
+    if (position.amt === 0 && newAmt !== 0) position.lastFundingAt = new Date();
+    position.amt = newAmt;
+    session.touchedPositions.add(order.symbol);
+
+    const wallet = this.balance(session, 'futures', 'USDT');
+    wallet.free += realized - commission;
+    session.touchedBalances.add('futures:USDT');
+
+    if (realized !== 0) {
+      session.income.push({ symbol: order.symbol, income_type: 'REALIZED_PNL', amount: dec(realized), asset: 'USDT', order_id: order.id });
+    }
+    session.income.push({ symbol: order.symbol, income_type: 'COMMISSION', amount: dec(-commission), asset: 'USDT', order_id: order.id });
+
+    return { quantity, commission, commissionAsset: 'USDT', realized };
+  }
+
+  private fillSpot(
+    session: PaperSession,
+    order: PaperOrder,
+    quantity: number,
+    price: number,
+    isMaker: boolean
+  ): { quantity: number; commission: number; commissionAsset: string; realized: number } | 'insufficient' {
+    const { base, quote } = PaperTradingService.splitSpotSymbol(order.symbol);
+    const baseBalance = this.balance(session, 'spot', base);
+    const quoteBalance = this.balance(session, 'spot', quote);
+    const cost = quantity * price;
+
+    // Funds locked for a resting order are released for the filled part, then spent
+    const lock = this.spotLockAmount(order, quantity);
+    const lockBalance = order.side === 'BUY' ? quoteBalance : baseBalance;
+    const spendable = lockBalance.free + Math.min(lock, lockBalance.locked);
+    if (spendable < (order.side === 'BUY' ? cost : quantity) - PaperTradingService.EPSILON) return 'insufficient';
+
+    const released = Math.min(lock, lockBalance.locked);
+    lockBalance.locked -= released;
+    lockBalance.free += released;
+
+    const commission = (order.side === 'BUY' ? quantity : cost) * PaperTradingService.SPOT_FEE;
+    if (order.side === 'BUY') {
+      quoteBalance.free -= cost;
+      baseBalance.free += quantity - commission;
+    } else {
+      baseBalance.free -= quantity;
+      quoteBalance.free += cost - commission;
+    }
+    session.touchedBalances.add(`spot:${base}`);
+    session.touchedBalances.add(`spot:${quote}`);
+
+    return { quantity, commission, commissionAsset: order.side === 'BUY' ? base : quote, realized: 0 };
+  }
+
+  /**
+   * Funds a resting spot order holds for this quantity: quote at the order price for buys, base for sells
+   */
+  private spotLockAmount(order: PaperOrder, quantity: number): number {
+    if (order.market !== 'spot' || (order.type === 'MARKET' && order.orig_type === 'MARKET')) return 0;
+    return order.side === 'BUY' ? quantity * parseFloat(order.price || order.stop_price || '0') : quantity;
+  }
+
+  private lockSpotFunds(session: PaperSession, order: PaperOrder): boolean {
+    const { base, quote } = PaperTradingService.splitSpotSymbol(order.symbol);
+    const asset = order.side === 'BUY' ? quote : base;
+    const balance = this.balance(session, 'spot', asset);
+    const amount = this.spotLockAmount(order, parseFloat(order.quantity));
+    if (balance.free < amount - PaperTradingService.EPSILON) return false;
+
+    balance.free -= amount;
+    balance.locked += amount;
+    session.touchedBalances.add(`spot:${asset}`);
+    return true;
+  }
+
+  /**
+   * Take an order off the book, releasing any spot funds it still holds
+   */
+  private close(session: PaperSession, order: PaperOrder, status: 'CANCELED' | 'EXPIRED'): void {
+    if (order.market === 'spot') {
+      const remaining = parseFloat(order.quantity) - parseFloat(order.executed_qty);
+      const { base, quote } = PaperTradingService.splitSpotSymbol(order.symbol);
+      const asset = order.side === 'BUY' ? quote : base;
+      const balance = this.balance(session, 'spot', asset);
+      const released = Math.min(this.spotLockAmount(order, remaining), balance.locked);
+      balance.locked -= released;
+      balance.free += released;
+      session.touchedBalances.add(`spot:${asset}`);
+    }
+
+    order.status = status;
+    session.openOrders = session.openOrders.filter(o => o !== order);
+    session.touchedOrders.set(order.id, order);
+    if (order.market === 'perps') {
+      session.orderEvents.push(this.orderEvent(order, status));
+    }
+  }
+
+  private closableQuantity(positionAmt: number, side: 'BUY' | 'SELL'): number {
+    return side === 'BUY' ? Math.max(0, -positionAmt) : Math.max(0, positionAmt);
+  }
+
+  // ========== Margin ==========
+
+  /**
+   * Cross-margin totals at the session's mark prices. excludeOrderId leaves one order's
+   * reserved margin out, for checking that order's own fill.
+   */
+  private futuresTotals(session: PaperSession, excludeOrderId?: number): {
+    unrealized: number;
+    positionMargin: number;
+    orderMargin: number;
+    maintMargin: number;
+    available: number;
+  } {
+    let unrealized = 0;
+    let positionMargin = 0;
+    let maintMargin = 0;
+    for (const position of session.positions.values()) {
+      if (position.amt === 0) continue;
+      const markPrice = session.marks.get(position.symbol)?.markPrice ?? position.entry;
+      const notional = Math.abs(position.amt) * markPrice;
+      unrealized += position.amt * (markPrice - position.entry);
+      positionMargin += notional / position.leverage;
+      maintMargin += notional * PaperTradingService.MAINTENANCE_MARGIN_RATE;
+    }
+
+    const orderMargin = session.openOrders
+      .filter(order => order.market === 'perps' && order.type === 'LIMIT' && !order.reduce_only && order.id !== excludeOrderId)
+      .reduce((sum, order) => {
+        const remaining = parseFloat(order.quantity) - parseFloat(order.executed_qty);
+        return sum + remaining * parseFloat(order.price || '0') / this.position(session, order.symbol).leverage;
+      }, 0);
+
+    const wallet = this.balance(session, 'futures', 'USDT').free;
+    const available = Math.max(0, wallet + unrealized - positionMargin - orderMargin);
+    return { unrealized, positionMargin, orderMargin, maintMargin, available };
+  }
+
+  private buildPositions(session: PaperSession): Array<PositionInfo & { marginType: string }> {
+    const wallet = this.balance(session, 'futures', 'USDT').free;
+    const all = [...session.positions.values()];
+
+    return all.map(position => {
+      const markPrice = session.marks.get(position.symbol)?.markPrice ?? position.entry;
+      const notional = position.amt * markPrice;
+      const unrealized = position.amt * (markPrice - position.entry);
+      const others = all.filter(other => other !== position && other.amt !== 0);
+      const otherUnrealized = others.reduce((sum, other) => {
+        const otherMark = session.marks.get(other.symbol)?.markPrice ?? other.entry;
+        return sum + other.amt * (otherMark - other.entry);
+      }, 0);
+      const otherMaint = others.reduce((sum, other) => {
+        const otherMark = session.marks.get(other.symbol)?.markPrice ?? other.entry;
+        return sum + Math.abs(other.amt) * otherMark * PaperTradingService.MAINTENANCE_MARGIN_RATE;
+      }, 0);
+      const initialMargin = Math.abs(notional) / position.leverage;
+
+      return {
+        symbol: position.symbol,
+        initialMargin: dec(initialMargin),
+        maintMargin: dec(Math.abs(notional) * PaperTradingService.MAINTENANCE_MARGIN_RATE),
+        unrealizedPnl: dec(unrealized),
+        positionInitialMargin: dec(initialMargin),
+        openOrderInitialMargin: '0',
+        leverage: String(position.leverage),
+        isolated: false,
+        marginType: 'cross',
+        entryPrice: dec(position.entry),
+        maxNotional: '0',
+        positionSide: 'BOTH',
+        positionAmt: dec(position.amt),
+        notional: dec(notional),
+        isolatedWallet: '0',
+        updateTime: Date.now(),
+        bidNotional: '0',
+        askNotional: '0',
+        markPrice: dec(markPrice),
+        liquidationPrice: dec(PaperTradingService.liquidationPrice(position.amt, position.entry, wallet, otherUnrealized, otherMaint))
+      };
+    });
+  }
+
+  // ========== Session ==========
+
+  /**
+   * Run one account operation at a time per user so a sweep never races a new order
+   */
+  private async withLock<T>(userId: number, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(userId) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.locks.set(userId, run);
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(userId) === run) this.locks.delete(userId);
+    }
+  }
+
+  private async load(userId: number, telegramId: number, withMarks: boolean): Promise<PaperSession> {
+    const [account, marks] = await Promise.all([
+      this.db.getPaperAccount(userId),
+      withMarks ? this.getMarks() : Promise.resolve(new Map<string, MarkData>())
+    ]);
+
+    const session: PaperSession = {
+      userId,
+      telegramId,
+      balances: new Map(),
+      positions: new Map(),
+      openOrders: account.openOrders,
+      marks,
+      touchedBalances: new Set(),
+      touchedPositions: new Set(),
+      touchedOrders: new Map(),
+      trades: [],
+      income: [],
+      orderEvents: [],
+      accountEvents: []
+    };
+
+    // First use funds the account
+    const balances: Array<Pick<PaperBalance, 'wallet' | 'asset' | 'free' | 'locked'>> = account.balances.length > 0
+      ? account.balances
+      : PaperTradingService.startingBalances();
+    for (const balance of balances) {
+      session.balances.set(`${balance.wallet}:${balance.asset}`, {
+        wallet: balance.wallet,
+        asset: balance.asset,
+        free: parseFloat(balance.free),
+        locked: parseFloat(balance.locked)
+      });
+      if (account.balances.length === 0) session.touchedBalances.add(`${balance.wallet}:${balance.asset}`);
+    }
+
+    account.positions.forEach((position: PaperPosition) => session.positions.set(position.symbol, {
+      symbol: position.symbol,
+      amt: parseFloat(position.position_amt),
+      entry: parseFloat(position.entry_price),
+      leverage: position.leverage,
+      lastFundingAt: position.last_funding_at ? new Date(position.last_funding_at) : null
+    }));
+
+    return session;
+  }
+
+  /**
+   * Persist the session, then raise its stream events so listeners see committed state
+   */
+  private async save(session: PaperSession): Promise<void> {
+    const changes: PaperAccountChanges = {
+      balances: [...session.touchedBalances].map(key => {
+        const balance = session.balances.get(key)!;
+        return { wallet: balance.wallet, asset: balance.asset, free: dec(balance.free), locked: dec(balance.locked) };
+      }),
+      positions: [...session.touchedPositions].map(symbol => {
+        const position = session.positions.get(symbol)!;
+        return {
+          symbol,
+          position_amt: dec(position.amt),
+          entry_price: dec(position.entry),
+          leverage: position.leverage,
+          last_funding_at: position.lastFundingAt
+        };
+      }),
+      orders: [...session.touchedOrders.values()],
+      trades: session.trades,
+      income: session.income
+    };
+
+    const empty = Object.values(changes).every(list => list.length === 0);
+    if (!empty) {
+      await this.db.savePaperChanges(session.userId, changes);
+    }
+
+    if (session.telegramId === 0) return;
+
+    const base = { timestamp: new Date(), userId: session.userId, telegramId: session.telegramId, paper: true };
+    for (const order of session.orderEvents) {
+      UserDataStreamService.emitOrderUpdate(this.eventEmitter, base, order);
+    }
+    for (const account of session.accountEvents) {
+      this.eventEmitter.emitEvent({ type: EventTypes.ACCOUNT_UPDATED, ...base, account });
+    }
+  }
+
+  private balance(session: PaperSession, wallet: PaperWallet, asset: string) {
+    const key = `${wallet}:${asset}`;
+    let balance = session.balances.get(key);
+    if (!balance) {
+      balance = { wallet, asset, free: 0, locked: 0 };
+      session.balances.set(key, balance);
+    }
+    return balance;
+  }
+
+  private position(session: PaperSession, symbol: string) {
+    let position = session.positions.get(symbol);
+    if (!position) {
+      position = { symbol, amt: 0, entry: 0, leverage: PaperTradingService.DEFAULT_LEVERAGE, lastFundingAt: null };
+      session.positions.set(symbol, position);
+    }
+    return position;
+  }
+
+  private async newOrder(
+    fields: Pick<PaperOrder, 'market' | 'symbol' | 'side' | 'type' | 'time_in_force' | 'price' | 'stop_price' | 'quantity' |
+      'reduce_only' | 'close_position' | 'callback_rate' | 'activation_price'> &
+      { client_order_id?: string; quote_quantity?: string | null }
+  ): Promise<PaperOrder> {
+    const id = await this.db.nextPaperOrderId();
+    const now = new Date();
+    return {
+      ...fields,
+      id,
+      user_id: 0,
+      client_order_id: fields.client_order_id || `paper_${id}`,
+      orig_type: fields.type,
+      quote_quantity: fields.quote_quantity ?? null,
+      executed_qty: '0',
+      cum_quote: '0',
+      best_price: null,
+      status: 'NEW',
+      created_at: now,
+      updated_at: now
+    };
+  }
+
+  static startingBalances(): PaperAccountChanges['balances'] {
+    const amount = String(PaperTradingService.STARTING_BALANCE);
+    return [
+      { wallet: 'futures', asset: 'USDT', free: amount, locked: '0' },
+      { wallet: 'spot', asset: 'USDT', free: amount, locked: '0' }
+    ];
+  }
+
+  // ========== Market Data ==========
+
+  private async getMarks(): Promise<Map<string, MarkData>> {
+    const entries: any[] = await this.marketData.getMarkPrice();
+    const marks = new Map<string, MarkData>();
+    for (const entry of entries) {
+      marks.set(entry.symbol, { markPrice: parseFloat(entry.markPrice), fundingRate: parseFloat(entry.lastFundingRate || '0') });
+    }
+    return marks;
+  }
+
+  private markFor(session: PaperSession, symbol: string): MarkData {
+    const mark = session.marks.get(symbol);
+    if (!mark || !(mark.markPrice > 0)) {
+      throw rejection(`No mark price available for ${symbol}`);
+    }
+    return mark;
+  }
+
+  private async getBook(market: PaperMarket, symbol: string): Promise<OrderBookDepth> {
+    return market === 'spot' ? this.marketData.getSpotOrderBook(symbol, 100) : this.marketData.getOrderBook(symbol, 100);
+  }
+
+  // ========== Responses ==========
+
+  private toResponse(order: PaperOrder): OrderResponse {
+    const executed = parseFloat(order.executed_qty);
+    return {
+      orderId: order.id,
+      symbol: order.symbol,
+      status: order.status,
+      clientOrderId: order.client_order_id,
+      price: order.price ?? '0',
+      avgPrice: executed > 0 ? dec(parseFloat(order.cum_quote) / executed) : '0',
+      origQty: order.quantity,
+      executedQty: order.executed_qty,
+      cumQty: order.executed_qty,
+      cumQuote: order.cum_quote,
+      timeInForce: order.time_in_force ?? 'GTC',
+      type: order.type,
+      reduceOnly: order.reduce_only,
+      closePosition: order.close_position,
+      side: order.side,
+      positionSide: 'BOTH',
+      stopPrice: order.stop_price ?? '0',
+      workingType: 'MARK_PRICE',
+      priceProtect: false,
+      origType: order.orig_type,
+      updateTime: Date.now()
+    };
+  }
+
+  private orderEvent(
+    order: PaperOrder,
+    execution: 'NEW' | 'TRADE' | 'CANCELED' | 'EXPIRED',
+    last?: { quantity: number; price: number; commission: number; realized: number; isMaker: boolean }
+  ): OrderTradeUpdateEvent['o'] {
+    const executed = parseFloat(order.executed_qty);
+    return {
+      s: order.symbol,
+      c: order.client_order_id,
+      S: order.side,
+      o: order.type,
+      f: order.time_in_force ?? 'GTC',
+      q: order.quantity,
+      p: order.price ?? '0',
+      ap: executed > 0 ? dec(parseFloat(order.cum_quote) / executed) : '0',
+      sp: order.stop_price ?? '0',
+      x: execution,
+      X: order.status,
+      i: order.id,
+      l: last ? dec(last.quantity) : '0',
+      z: order.executed_qty,
+      L: last ? dec(last.price) : '0',
+      N: 'USDT',
+      n: last ? dec(last.commission) : '0',
+      T: Date.now(),
+      t: last ? Date.now() : 0,
+      b: '0',
+      a: '0',
+      m: last?.isMaker ?? false,
+      R: order.reduce_only,
+      wt: 'MARK_PRICE',
+      ot: order.orig_type,
+      ps: 'BOTH',
+      cp: order.close_position,
+      AP: order.activation_price ?? '0',
+      cr: order.callback_rate ?? '0',
+      rp: last ? dec(last.realized) : '0'
+    };
+  }
+
+  private accountEvent(session: PaperSession, reason: string, symbols: string[]): AccountUpdateEvent['a'] {
+    const wallet = dec(this.balance(session, 'futures', 'USDT').free);
+    return {
+      m: reason,
+      B: [{ a: 'USDT', wb: wallet, cw: wallet, bc: '0' }],
+      P: symbols.map(symbol => {
+        const position = this.position(session, symbol);
+        const markPrice = session.marks.get(symbol)?.markPrice ?? position.entry;
+        return {
+          s: symbol,
+          pa: dec(position.amt),
+          ep: dec(position.entry),
+          cr: '0',
+          up: dec(position.amt * (markPrice - position.entry)),
+          mt: 'cross',
+          iw: '0',
+          ps: 'BOTH'
+        };
+      })
+    };
+  }
+}
+
+/**
+ * Plain decimal string without exponent notation or trailing zeros
+ */
+function dec(value: number): string {
+  if (!Number.isFinite(value)) return '0';
+  const fixed = value.toFixed(10).replace(/\.?0+$/, '');
+  return fixed === '-0' ? '0' : fixed;
+}
+
+function roundQty(value: number): number {
+  const rounded = parseFloat(value.toFixed(10));
+  return Math.abs(rounded) < 1e-9 ? 0 : rounded;
+}
+
+function midPrice(book: OrderBookDepth): number {
+  const bid = parseFloat(book.bids[0]?.[0] || '0');
+  const ask = parseFloat(book.asks[0]?.[0] || '0');
+  return bid > 0 && ask > 0 ? (bid + ask) / 2 : bid || ask;
+}
+
+function rejection(message: string): BotError {
+  const error = new Error(message) as BotError;
+  error.code = 'PAPER_ORDER_REJECTED';
+  error.isRetryable = false;
+  return error;
+}
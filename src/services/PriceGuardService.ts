@@ -0,0 +1,87 @@
+import { AsterApiClient } from '../aster';
+import { FiltersManager } from '../filters';
+import { PriceProtectionManager, PriceProtectionResult } from '../priceguard';
+import { OrderBookDepth, UserSettings } from '../types';
+
+export interface MarketOrderCheck {
+  market: 'spot' | 'perps';
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  baseQuantity?: number;
+  quoteAmount?: number;
+}
+
+export interface MarketOrderCheckResult extends PriceProtectionResult {
+  baseQuantity: string;
+}
+
+export class PriceGuardService {
+  private apiClient: AsterApiClient;
+  private priceProtection: PriceProtectionManager;
+
+  constructor(apiClient: AsterApiClient) {
+    this.apiClient = apiClient;
+    this.priceProtection = new PriceProtectionManager(new FiltersManager());
+  }
+
+  /**
+   * Run price protection against the live order book before a market order
+   */
+  async checkMarketOrder(check: MarketOrderCheck, userSettings: UserSettings): Promise<MarketOrderCheckResult> {
+    const orderBook = check.market === 'spot'
+      ? await this.apiClient.getSpotOrderBook(check.symbol, 50)
+      : await this.apiClient.getOrderBook(check.symbol, 50);
+
+    const baseQuantity = check.baseQuantity !== undefined
+      ? check.baseQuantity
+      : this.quoteToBaseQuantity(orderBook, check.side, check.quoteAmount || 0);
+
+    const result = await this.priceProtection.analyzeMarketOrder(
+      check.symbol,
+      check.side,
+      baseQuantity.toString(),
+      orderBook,
+      userSettings
+    );
+
+    console.log(`[PriceGuardService] ${check.market} ${check.side} ${check.symbol} qty ${baseQuantity}: ${result.recommendation} (${result.slippageBps.toFixed(1)} bps)`);
+
+    return { ...result, baseQuantity: baseQuantity.toString() };
+  }
+
+  /**
+   * Format a check result for display
+   */
+  formatSummary(result: PriceProtectionResult): string {
+    return this.priceProtection.generateProtectionSummary(result);
+  }
+
+  /**
+   * Convert a USDT amount to base quantity by walking the book
+   */
+  private quoteToBaseQuantity(orderBook: OrderBookDepth, side: 'BUY' | 'SELL', quoteAmount: number): number {
+    const levels = side === 'BUY' ? orderBook.asks : orderBook.bids;
+    let remainingQuote = quoteAmount;
+    let baseQuantity = 0;
+    let lastPrice = 0;
+
+    for (const [priceStr, qtyStr] of levels) {
+      if (remainingQuote <= 0) break;
+
+      const price = parseFloat(priceStr);
+      const levelQuote = price * parseFloat(qtyStr);
+      const fillQuote = Math.min(remainingQuote, levelQuote);
+
+      baseQuantity += fillQuote / price;
+      remainingQuote -= fillQuote;
+      lastPrice = price;
+    }
+
+    // Book exhausted - keep the unfilled remainder so the guard flags the partial fill
+    if (remainingQuote > 0 && lastPrice > 0) {
+      baseQuantity += remainingQuote / lastPrice;
+    }
+
+    return baseQuantity;
+  }
+}
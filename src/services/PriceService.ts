@@ -85,6 +85,74 @@ export class PriceService {
     return prices;
   }
 
+  /**
+   * Get 24h price change percentages for several symbols from one futures ticker call
+   */
+  async get24hChanges(symbols: string[]): Promise<Map<string, number>> {
+    const changes = new Map<string, number>();
+    if (symbols.length === 0) return changes;
+
+    try {
+      const AsterApiClient = await import('../aster');
+      const futuresClient = new AsterApiClient.AsterApiClient(AsterApiClient.FUTURES_BASE_URL, '', '');
+      const tickers = await futuresClient.getAllFuturesTickers();
+      const wanted = new Set(symbols);
+
+      tickers
+        .filter(ticker => wanted.has(ticker.symbol))
+        .forEach(ticker => changes.set(ticker.symbol, parseFloat(ticker.priceChangePercent)));
+    } catch (error) {
+      console.warn('[PriceService] Failed to get 24h changes:', error);
+    }
+
+    return changes;
+  }
+
+  /**
+   * Get spot last prices for several symbols from one ticker call
+   */
+  async getSpotPrices(symbols: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    if (symbols.length === 0) return prices;
+
+    try {
+      const AsterApiClient = await import('../aster');
+      const spotClient = new AsterApiClient.AsterApiClient(AsterApiClient.SPOT_BASE_URL, '', '');
+      const tickers = await spotClient.getAllSpotTickers();
+      const wanted = new Set(symbols);
+
+      tickers
+        .filter(ticker => wanted.has(ticker.symbol))
+        .forEach(ticker => prices.set(ticker.symbol, parseFloat(ticker.lastPrice)));
+    } catch (error) {
+      console.warn('[PriceService] Failed to get spot prices:', error);
+    }
+
+    return prices;
+  }
+
+  /**
+   * Get futures mark prices for several symbols from one premium index call
+   */
+  async getMarkPrices(symbols: string[]): Promise<Map<string, number>> {
+    const prices = new Map<string, number>();
+    if (symbols.length === 0) return prices;
+
+    try {
+      const AsterApiClient = await import('../aster');
+      const futuresClient = new AsterApiClient.AsterApiClient(AsterApiClient.FUTURES_BASE_URL, '', '');
+      const markPrices = await futuresClient.getMarkPrice();
+      const wanted = new Set(symbols);
+
+      markPrices
+        .filter(entry => wanted.has(entry.symbol))
+        .forEach(entry => prices.set(entry.symbol, parseFloat(entry.markPrice)));
+    } catch (error) {
+      console.warn('[PriceService] Failed to get mark prices:', error);
+    }
+
+    return prices;
+  }
 
   /**
    * Fetch price from AsterDEX API with proper connection handling
@@ -97,7 +165,7 @@ export class PriceService {
       // Try spot API first (sapi.asterdex.com) since most trading pairs are available on spot
       try {
         console.log(`[PriceService] Trying spot API for ${symbol}`);
-        const spotClient = new AsterApiClient.AsterApiClient('https://sapi.asterdex.com', '', '');
+        const spotClient = new AsterApiClient.AsterApiClient(AsterApiClient.SPOT_BASE_URL, '', '');
         const spotTickers = await spotClient.getAllSpotTickers();
         const spotTicker = spotTickers.find((t: any) => t.symbol === symbol);
         
@@ -114,7 +182,7 @@ export class PriceService {
       
       // If spot fails, try futures API (fapi.asterdex.com)
       console.log(`[PriceService] Trying futures API for ${symbol}`);
-      const futuresClient = new AsterApiClient.AsterApiClient('https://fapi.asterdex.com', '', '');
+      const futuresClient = new AsterApiClient.AsterApiClient(AsterApiClient.FUTURES_BASE_URL, '', '');
       const ticker = await futuresClient.get24hrTicker(symbol);
       const price = parseFloat(ticker.lastPrice);
       
@@ -0,0 +1,244 @@
+import { AsterApiClient } from '../aster';
+import { SymbolFilters } from '../filters';
+import { FuturesAccountService } from './FuturesAccountService';
+import { RiskSizingDraft } from '../types';
+
+export interface RiskSizingPlan {
+  equity: number;
+  availableBalance: number;
+  price: number;
+  // Max loss the user asked for and the loss at the stop after rounding the quantity down
+  riskAmount: number;
+  actualRisk: number;
+  stopPercent: number;
+  stopPrice: number;
+  quantity: string;
+  notional: number;
+  leverage: number;
+  leverageRaised: boolean;
+  margin: number;
+  liquidationPercent: number;
+  liquidationPrice: number;
+  warnings: string[];
+}
+
+export type RiskSizingCheck =
+  | { success: true; plan: RiskSizingPlan }
+  | { success: false; errors: string[] };
+
+export class RiskSizingService {
+  static readonly LOSS_PRESETS = [0.5, 1, 2];
+  static readonly STOP_PRESETS = [1, 2, 3, 5];
+  static readonly MAX_LOSS_PERCENT = 10;
+  static readonly MAX_STOP_PERCENT = 50;
+  // First maintenance margin tier, used for the liquidation estimate
+  static readonly MAINTENANCE_MARGIN_RATE = 0.005;
+
+  private apiClient: AsterApiClient;
+
+  constructor(apiClient: AsterApiClient) {
+    this.apiClient = apiClient;
+  }
+
+  /**
+   * Accepts "1%" as a share of equity, "$20" or "20" as USDT
+   */
+  static parseMaxLoss(text: string): RiskSizingDraft['maxLoss'] | null {
+    const match = text.trim().replace(/,/g, '').match(/^(\$)?\s*(\d+(?:\.\d+)?)\s*(%|u|usdt)?$/i);
+    if (!match) return null;
+
+    const value = parseFloat(match[2]);
+    if (!(value > 0)) return null;
+
+    if (match[3] === '%') {
+      return value <= RiskSizingService.MAX_LOSS_PERCENT ? { type: 'percent', value } : null;
+    }
+    return { type: 'usdt', value };
+  }
+
+  /**
+   * Stop distance in percent from "2%" or from a stop price on the losing side of the current price
+   */
+  static parseStop(text: string, price: number, side: 'BUY' | 'SELL'): number | null {
+    const match = text.trim().replace(/[$,]/g, '').match(/^(\d+(?:\.\d+)?)\s*(%)?$/);
+    if (!match) return null;
+
+    const value = parseFloat(match[1]);
+    const percent = match[2]
+      ? value
+      : (side === 'BUY' ? price - value : value - price) / price * 100;
+
+    return percent > 0 && percent <= RiskSizingService.MAX_STOP_PERCENT ? percent : null;
+  }
+
+  static describeMaxLoss(maxLoss: NonNullable<RiskSizingDraft['maxLoss']>): string {
+    return maxLoss.type === 'percent' ? `${maxLoss.value}% of equity` : `$${maxLoss.value}`;
+  }
+
+  async getEquity(): Promise<number> {
+    const summary = await new FuturesAccountService(this.apiClient).getPortfolioSummary();
+    return summary.totalMarginBalance;
+  }
+
+  async getMarkPrice(symbol: string): Promise<number> {
+    const markPrices = await this.apiClient.getMarkPrice(symbol);
+    return parseFloat(markPrices[0]?.markPrice || '0');
+  }
+
+  /**
+   * Size the position so a stop-out loses the chosen amount, then pick the lowest leverage
+   * (at least the one selected) whose margin fits the available balance
+   */
+  async calculate(draft: RiskSizingDraft, leverageCap: number): Promise<RiskSizingCheck> {
+    if (!draft.maxLoss || !draft.stopPercent) {
+      return { success: false, errors: ['Max loss and stop distance are required'] };
+    }
+
+    const [summary, price, filters] = await Promise.all([
+      new FuturesAccountService(this.apiClient).getPortfolioSummary(),
+      this.getMarkPrice(draft.symbol),
+      this.getFilters(draft.symbol)
+    ]);
+
+    if (!filters) {
+      return { success: false, errors: [`No trading rules found for ${draft.symbol}`] };
+    }
+    if (price <= 0) {
+      return { success: false, errors: [`No mark price available for ${draft.symbol}`] };
+    }
+
+    const equity = summary.totalMarginBalance;
+    const availableBalance = summary.availableBalance;
+    if (availableBalance <= 0) {
+      return { success: false, errors: ['No available margin in your futures wallet'] };
+    }
+
+    const riskAmount = draft.maxLoss.type === 'percent' ? equity * draft.maxLoss.value / 100 : draft.maxLoss.value;
+    if (riskAmount > equity) {
+      return { success: false, errors: [`Max loss $${riskAmount.toFixed(2)} is more than your equity of $${equity.toFixed(2)}`] };
+    }
+
+    const stopFraction = draft.stopPercent / 100;
+    const quantity = filters.floorQuantity(riskAmount / (price * stopFraction));
+    if (parseFloat(quantity) <= 0) {
+      return { success: false, errors: [`Max loss is too small for the minimum lot of ${draft.symbol.replace('USDT', '')}. Raise it or tighten the stop.`] };
+    }
+
+    const validation = filters.validateOrder(filters.roundPrice(price), quantity, 'MARKET');
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    const notional = parseFloat(quantity) * price;
+    const requiredLeverage = Math.max(1, Math.ceil(notional / availableBalance));
+    const leverage = Math.max(draft.leverage, requiredLeverage);
+    if (leverage > leverageCap) {
+      return {
+        success: false,
+        errors: [`This size needs ${leverage}x to fit your available margin, above your cap of ${leverageCap}x. Lower the max loss or widen the stop.`]
+      };
+    }
+
+    // Isolated margin only has the position's own margin to lose; cross can draw on all free margin
+    const lossCapacity = draft.marginMode === 'isolated' ? 1 / leverage : availableBalance / notional;
+    const liquidationPercent = (lossCapacity - RiskSizingService.MAINTENANCE_MARGIN_RATE) * 100;
+    const direction = draft.side === 'BUY' ? -1 : 1;
+
+    if (draft.stopPercent >= liquidationPercent) {
+      return {
+        success: false,
+        errors: [`The stop at ${draft.stopPercent.toFixed(2)}% is beyond the estimated liquidation at ${Math.max(liquidationPercent, 0).toFixed(2)}%. Tighten the stop or lower the max loss.`]
+      };
+    }
+
+    const warnings: string[] = [];
+    if (draft.stopPercent > liquidationPercent * 0.8) {
+      warnings.push('The stop is close to the estimated liquidation price. Slippage on the stop could reach it.');
+    }
+
+    return {
+      success: true,
+      plan: {
+        equity,
+        availableBalance,
+        price,
+        riskAmount,
+        actualRisk: notional * stopFraction,
+        stopPercent: draft.stopPercent,
+        stopPrice: price * (1 + direction * stopFraction),
+        quantity,
+        notional,
+        leverage,
+        leverageRaised: leverage > draft.leverage,
+        margin: notional / leverage,
+        liquidationPercent,
+        liquidationPrice: price * (1 + direction * liquidationPercent / 100),
+        warnings
+      }
+    };
+  }
+
+  formatLossPrompt(draft: RiskSizingDraft, equity: number): string {
+    return [
+      `🎯 **Risk Mode: ${RiskSizingService.describe(draft)}**`,
+      '',
+      `**Equity:** $${equity.toFixed(2)}`,
+      '',
+      '🎯 **Step 1: Max Loss**',
+      '',
+      'How much are you willing to lose if the stop is hit?',
+      'Pick a share of equity or type one, e.g. `1%` or `$20`'
+    ].join('\n');
+  }
+
+  formatStopPrompt(draft: RiskSizingDraft, price: number): string {
+    return [
+      `🎯 **Risk Mode: ${RiskSizingService.describe(draft)}**`,
+      '',
+      `**Max Loss:** ${RiskSizingService.describeMaxLoss(draft.maxLoss!)}`,
+      `**Mark Price:** $${price}`,
+      '',
+      '🎯 **Step 2: Stop Distance**',
+      '',
+      'Pick a distance or type one as a percent or a stop price, e.g. `2%` or `' +
+        (draft.side === 'BUY' ? (price * 0.98).toFixed(2) : (price * 1.02).toFixed(2)) + '`'
+    ].join('\n');
+  }
+
+  formatPlan(draft: RiskSizingDraft, plan: RiskSizingPlan): string {
+    const asset = draft.symbol.replace('USDT', '');
+
+    const lines = [
+      `🎯 **Risk Mode: ${RiskSizingService.describe({ ...draft, leverage: plan.leverage })}**`,
+      '',
+      `**Max Loss:** ${RiskSizingService.describeMaxLoss(draft.maxLoss!)} ($${plan.riskAmount.toFixed(2)})`,
+      `**Stop:** ${plan.stopPercent.toFixed(2)}% at ≈ $${plan.stopPrice.toFixed(4)}`,
+      '',
+      `**Quantity:** ${plan.quantity} ${asset}`,
+      `**Position Value:** ≈ $${plan.notional.toFixed(2)}`,
+      `**Leverage:** ${plan.leverage}x${plan.leverageRaised ? ` (raised from ${draft.leverage}x to fit your margin)` : ''}`,
+      `**Margin:** ≈ $${plan.margin.toFixed(2)} of $${plan.availableBalance.toFixed(2)} available`,
+      `**Loss at Stop:** ≈ $${plan.actualRisk.toFixed(2)}`,
+      '',
+      `**Est. Liquidation:** ≈ $${plan.liquidationPrice.toFixed(4)} (${plan.liquidationPercent.toFixed(2)}% away, ${draft.marginMode})`,
+      '✅ Stop triggers before liquidation'
+    ];
+
+    if (plan.warnings.length > 0) {
+      lines.push('', '⚠️ **Warnings:**', ...plan.warnings.map(warning => `• ${warning}`));
+    }
+
+    lines.push('', 'The stop loss is placed with the order. Fees and slippage are not included.');
+    return lines.join('\n');
+  }
+
+  static describe(draft: RiskSizingDraft): string {
+    return `${draft.side === 'BUY' ? 'Long' : 'Short'} ${draft.symbol.replace('USDT', '')} ${draft.leverage}x`;
+  }
+
+  private async getFilters(symbol: string): Promise<SymbolFilters | null> {
+    const exchangeInfo = await this.apiClient.getExchangeInfo();
+    const symbolInfo = exchangeInfo.symbols.find(s => s.symbol === symbol);
+    return symbolInfo ? new SymbolFilters(symbolInfo) : null;
+  }
+}
@@ -102,6 +102,39 @@ export class SpotAccountService {
     }
   }
 
+  /**
+   * Average cost of the current holding, from trade history (moving average).
+   * Returns null when there is no buy history to base it on.
+   */
+  async getAverageEntryPrice(symbol: string): Promise<number | null> {
+    try {
+      const trades = await this.apiClient.getSpotUserTrades(symbol);
+      const sorted = [...trades].sort((a, b) => a.time - b.time);
+
+      let held = 0;
+      let cost = 0;
+      for (const trade of sorted) {
+        const qty = parseFloat(trade.qty);
+        const price = parseFloat(trade.price);
+        const isBuy = trade.isBuyer ?? trade.buyer ?? trade.side === 'BUY';
+
+        if (isBuy) {
+          held += qty;
+          cost += qty * price;
+        } else if (held > 0) {
+          const sold = Math.min(qty, held);
+          cost -= (cost / held) * sold;
+          held -= sold;
+        }
+      }
+
+      return held > 0 ? cost / held : null;
+    } catch (error) {
+      console.error(`[SpotAccountService] Failed to get average entry for ${symbol}:`, error);
+      return null;
+    }
+  }
+
   private async getUsdValue(asset: string, amount: number): Promise<number> {
     if (asset === 'USDT' || asset === 'USDC') {
       return amount;
@@ -0,0 +1,406 @@
+import { AsterApiClient } from '../aster';
+import { DatabaseManager } from '../db';
+import { BotEventEmitter, EventTypes, SpotExitEvent } from '../events/EventEmitter';
+import { SymbolFilters } from '../filters';
+import { ApiClientService } from './ApiClientService';
+import { OrderHistoryService } from './OrderHistoryService';
+import { PaperApiClient } from './PaperApiClient';
+import { PriceService } from './PriceService';
+import { SpotExit } from '../types';
+
+export interface SpotExitRequest {
+  // Distance from the entry price, in percent
+  tpPercent: number | null;
+  slPercent: number | null;
+}
+
+export interface SpotExitLegResult {
+  price: string;
+  order?: any;
+  error?: string;
+}
+
+export interface SpotExitPlacement {
+  symbol: string;
+  quantity: string;
+  entryPrice: number;
+  tp?: SpotExitLegResult;
+  sl?: SpotExitLegResult & { mode: 'exchange' | 'monitored' };
+  exit: SpotExit | null;
+}
+
+export class SpotExitService {
+  static readonly DEFAULT_INTERVAL_MS = 15 * 1000;
+  // STOP_LOSS_LIMIT rests its limit this far below the trigger so it still fills on a fast drop
+  static readonly STOP_LIMIT_SLIPPAGE_PERCENT = 0.5;
+  // Dust and fee rounding left after a partial manual sale
+  static readonly BALANCE_TOLERANCE = 0.01;
+
+  private db: DatabaseManager;
+  private apiClientService: ApiClientService;
+  private priceService: PriceService;
+  private eventEmitter: BotEventEmitter;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private evaluating = false;
+
+  constructor(db: DatabaseManager, apiClientService: ApiClientService, priceService: PriceService, eventEmitter: BotEventEmitter) {
+    this.db = db;
+    this.apiClientService = apiClientService;
+    this.priceService = priceService;
+    this.eventEmitter = eventEmitter;
+  }
+
+  /**
+   * Protect a filled spot buy with a LIMIT take-profit sell and a stop-loss.
+   * The stop rests on the exchange as STOP_LOSS_LIMIT when the symbol supports it and the
+   * balance isn't already locked by the take-profit; otherwise the bot watches the price.
+   */
+  async place(userId: number, apiClient: AsterApiClient, symbol: string, entryOrder: any, request: SpotExitRequest): Promise<SpotExitPlacement> {
+    const exchangeInfo = await apiClient.getSpotExchangeInfo();
+    const symbolInfo = exchangeInfo.symbols?.find((s: any) => s.symbol === symbol);
+    if (!symbolInfo) {
+      throw new Error(`No trading rules found for ${symbol}`);
+    }
+    const filters = new SymbolFilters(symbolInfo);
+
+    const entryPrice = SpotExitService.averageFillPrice(entryOrder);
+    if (entryPrice <= 0) {
+      throw new Error('Could not determine the entry price of the buy');
+    }
+
+    // Commission taken in the base asset leaves less than executedQty in the wallet
+    const asset = symbol.replace('USDT', '');
+    const account = await apiClient.getSpotAccount();
+    const free = parseFloat(account.balances.find(b => b.asset === asset)?.free || '0');
+    const quantity = filters.floorQuantity(Math.min(parseFloat(entryOrder.executedQty || '0'), free));
+    if (parseFloat(quantity) <= 0) {
+      throw new Error(`No ${asset} balance available to protect`);
+    }
+
+    const placement: SpotExitPlacement = { symbol, quantity, entryPrice, exit: null };
+
+    if (request.tpPercent) {
+      const price = filters.roundPrice(entryPrice * (1 + request.tpPercent / 100));
+      placement.tp = await this.placeTakeProfit(apiClient, filters, symbol, quantity, price, entryPrice);
+    }
+
+    if (request.slPercent) {
+      const stopPrice = filters.roundPrice(entryPrice * (1 - request.slPercent / 100));
+      const canRest = (symbolInfo.orderTypes || []).includes('STOP_LOSS_LIMIT') && !placement.tp?.order;
+      placement.sl = canRest
+        ? { mode: 'exchange', ...(await this.placeStopLossLimit(apiClient, filters, symbol, quantity, stopPrice)) }
+        : { mode: 'monitored', price: stopPrice };
+    }
+
+    const hasSl = placement.sl && !placement.sl.error;
+    if (placement.tp?.order || hasSl) {
+      placement.exit = await this.db.createSpotExit({
+        user_id: userId,
+        symbol,
+        quantity,
+        entry_price: String(entryPrice),
+        tp_price: placement.tp?.order ? placement.tp.price : null,
+        tp_order_id: placement.tp?.order ? String(placement.tp.order.orderId) : null,
+        sl_price: hasSl ? placement.sl!.price : null,
+        sl_mode: hasSl ? placement.sl!.mode : null,
+        sl_order_id: placement.sl?.order ? String(placement.sl.order.orderId) : null,
+        paper: apiClient instanceof PaperApiClient
+      });
+    }
+
+    return placement;
+  }
+
+  async getActive(userId: number): Promise<SpotExit[]> {
+    return this.db.getUserActiveSpotExits(userId);
+  }
+
+  /**
+   * Stop watching a bot-monitored stop. The exit closes if no take-profit is left.
+   */
+  async cancelMonitoredStop(userId: number, exitId: number): Promise<boolean> {
+    const exit = (await this.db.getUserActiveSpotExits(userId)).find(e => e.id === exitId);
+    if (!exit || exit.sl_mode !== 'monitored') return false;
+
+    if (exit.tp_order_id) {
+      await this.db.clearSpotExitLeg(exit.id, 'sl');
+      return true;
+    }
+    return this.db.closeSpotExit(exit.id, 'cancelled');
+  }
+
+  /**
+   * Start the background worker that triggers monitored stops and reconciles exits
+   */
+  start(intervalMs = SpotExitService.DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.evaluate().catch(error => console.error('[SpotExitService] Evaluation failed:', error));
+    }, intervalMs);
+
+    console.log(`[SpotExitService] Worker started (every ${intervalMs / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check every active exit once. Resolves the number of exits closed.
+   */
+  async evaluate(): Promise<number> {
+    // Overlapping ticks could market-sell the same stop twice
+    if (this.evaluating) return 0;
+    this.evaluating = true;
+
+    try {
+      const exits = await this.db.getActiveSpotExits();
+      if (exits.length === 0) return 0;
+
+      const prices = await this.priceService.getSpotPrices([...new Set(exits.map(e => e.symbol))]);
+      const byUser = new Map<number, Array<SpotExit & { tg_id: number }>>();
+      exits.forEach(exit => byUser.set(exit.user_id, [...(byUser.get(exit.user_id) || []), exit]));
+
+      let closed = 0;
+      for (const [userId, userExits] of byUser) {
+        try {
+          const apiClient = await this.apiClientService.getOrCreateClient(userId);
+          const [account, openOrders] = await Promise.all([apiClient.getSpotAccount(), apiClient.getSpotOpenOrders()]);
+          const openById = new Map(openOrders.map((order: any) => [String(order.orderId), order]));
+
+          for (const exit of userExits) {
+            if (await this.reconcile(apiClient, exit, account.balances, openById, prices.get(exit.symbol))) {
+              closed++;
+            }
+          }
+        } catch (error) {
+          console.warn(`[SpotExitService] Skipping user ${userId}:`, error);
+        }
+      }
+
+      return closed;
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  private async reconcile(
+    apiClient: AsterApiClient,
+    exit: SpotExit & { tg_id: number },
+    balances: Array<{ asset: string; free: string; locked: string }>,
+    openById: Map<string, any>,
+    price: number | undefined
+  ): Promise<boolean> {
+    // A resting leg that left the book either filled (close the exit) or was cancelled (drop the leg)
+    for (const leg of ['tp', 'sl'] as const) {
+      const orderId = leg === 'tp' ? exit.tp_order_id : exit.sl_order_id;
+      if (!orderId || openById.has(orderId)) continue;
+
+      const order = await apiClient.getSpotOrder(exit.symbol, Number(orderId));
+      if (order?.status === 'FILLED') {
+        const fillPrice = SpotExitService.averageFillPrice(order) || parseFloat(order.price) || undefined;
+        return this.close(apiClient, exit, leg === 'tp' ? 'tp_filled' : 'sl_filled', fillPrice);
+      }
+
+      await this.db.clearSpotExitLeg(exit.id, leg);
+      if (leg === 'tp') { exit.tp_order_id = null; exit.tp_price = null; }
+      else { exit.sl_order_id = null; exit.sl_price = null; exit.sl_mode = null; }
+    }
+
+    if (!exit.tp_order_id && !exit.sl_price) {
+      return this.db.closeSpotExit(exit.id, 'cancelled');
+    }
+
+    // Less held than the exit covers (net of a partially filled take-profit) means it was sold by hand
+    const asset = exit.symbol.replace('USDT', '');
+    const balance = balances.find(b => b.asset === asset);
+    const held = parseFloat(balance?.free || '0') + parseFloat(balance?.locked || '0');
+    const tpFilled = parseFloat(exit.tp_order_id ? openById.get(exit.tp_order_id)?.executedQty || '0' : '0');
+    const expected = parseFloat(exit.quantity) - tpFilled;
+    if (held < expected * (1 - SpotExitService.BALANCE_TOLERANCE)) {
+      return this.close(apiClient, exit, 'sold_manually');
+    }
+
+    if (exit.sl_mode === 'monitored' && exit.sl_price && price !== undefined && Number.isFinite(price) && price <= parseFloat(exit.sl_price)) {
+      return this.triggerMonitoredStop(apiClient, exit, price);
+    }
+
+    return false;
+  }
+
+  /**
+   * Sell at market once the price hits a monitored stop, releasing the take-profit's locked balance first
+   */
+  private async triggerMonitoredStop(apiClient: AsterApiClient, exit: SpotExit & { tg_id: number }, price: number): Promise<boolean> {
+    if (!(await this.db.closeSpotExit(exit.id, 'sl_filled'))) return false;
+
+    if (exit.tp_order_id) {
+      await this.cancelLeg(apiClient, exit.symbol, exit.tp_order_id);
+    }
+
+    let fillPrice = price;
+    try {
+      const exchangeInfo = await apiClient.getSpotExchangeInfo();
+      const symbolInfo = exchangeInfo.symbols?.find((s: any) => s.symbol === exit.symbol);
+      const account = await apiClient.getSpotAccount();
+      const free = parseFloat(account.balances.find(b => b.asset === exit.symbol.replace('USDT', ''))?.free || '0');
+      const rawQuantity = Math.min(parseFloat(exit.quantity), free);
+      const quantity = symbolInfo ? new SymbolFilters(symbolInfo).floorQuantity(rawQuantity) : String(rawQuantity);
+
+      const response = await apiClient.createSpotOrder({ symbol: exit.symbol, side: 'SELL', type: 'MARKET', quantity });
+      await new OrderHistoryService(this.db).recordOrder(exit.user_id, {
+        market: 'spot', purpose: 'sl', symbol: exit.symbol, side: 'SELL', type: 'MARKET', quantity, paper: exit.paper
+      }, response);
+      fillPrice = SpotExitService.averageFillPrice(response) || price;
+    } catch (error) {
+      console.error(`[SpotExitService] Stop-loss sell failed for exit ${exit.id}:`, error);
+    }
+
+    this.emitClosed(exit, 'sl_filled', fillPrice);
+    return true;
+  }
+
+  private async close(apiClient: AsterApiClient, exit: SpotExit & { tg_id: number }, reason: SpotExitEvent['reason'], price?: number): Promise<boolean> {
+    if (!(await this.db.closeSpotExit(exit.id, reason === 'sold_manually' ? 'cancelled' : reason))) return false;
+
+    for (const orderId of [exit.tp_order_id, exit.sl_order_id]) {
+      if (orderId) {
+        await this.cancelLeg(apiClient, exit.symbol, orderId);
+      }
+    }
+
+    this.emitClosed(exit, reason, price);
+    return true;
+  }
+
+  private emitClosed(exit: SpotExit & { tg_id: number }, reason: SpotExitEvent['reason'], price?: number): void {
+    this.eventEmitter.emitEvent<SpotExitEvent>({
+      type: EventTypes.SPOT_EXIT_CLOSED,
+      timestamp: new Date(),
+      userId: exit.user_id,
+      telegramId: exit.tg_id,
+      exit,
+      reason,
+      price,
+      paper: exit.paper
+    });
+  }
+
+  private async placeTakeProfit(apiClient: AsterApiClient, filters: SymbolFilters, symbol: string, quantity: string, price: string, entryPrice: number): Promise<SpotExitLegResult> {
+    const validation = filters.validateOrder(price, quantity, 'LIMIT', false, entryPrice);
+    if (!validation.isValid) {
+      return { price, error: validation.errors.join('; ') };
+    }
+
+    try {
+      const order = await apiClient.createSpotOrder({ symbol, side: 'SELL', type: 'LIMIT', price, quantity, timeInForce: 'GTC' });
+      return { price, order };
+    } catch (error: any) {
+      console.error(`[SpotExitService] Take-profit failed for ${symbol}:`, error);
+      return { price, error: error.message || 'Unknown error' };
+    }
+  }
+
+  private async placeStopLossLimit(apiClient: AsterApiClient, filters: SymbolFilters, symbol: string, quantity: string, stopPrice: string): Promise<SpotExitLegResult> {
+    const limitPrice = filters.roundPrice(parseFloat(stopPrice) * (1 - SpotExitService.STOP_LIMIT_SLIPPAGE_PERCENT / 100));
+
+    try {
+      const order = await apiClient.createSpotOrder({
+        symbol, side: 'SELL', type: 'STOP_LOSS_LIMIT', price: limitPrice, stopPrice, quantity, timeInForce: 'GTC'
+      });
+      return { price: stopPrice, order };
+    } catch (error: any) {
+      console.error(`[SpotExitService] Stop-loss failed for ${symbol}:`, error);
+      return { price: stopPrice, error: error.message || 'Unknown error' };
+    }
+  }
+
+  private async cancelLeg(apiClient: AsterApiClient, symbol: string, orderId: string): Promise<void> {
+    try {
+      await apiClient.cancelSpotOrder(symbol, Number(orderId));
+    } catch (error) {
+      // Already filled or cancelled on the exchange
+      console.warn(`[SpotExitService] Could not cancel order ${orderId} for ${symbol}:`, error);
+    }
+  }
+
+  static averageFillPrice(order: any): number {
+    const quantity = parseFloat(order?.executedQty || '0');
+    const quote = parseFloat(order?.cummulativeQuoteQty || order?.cumQuote || '0');
+    if (quantity > 0 && quote > 0) return quote / quantity;
+    return parseFloat(order?.avgPrice || order?.fills?.[0]?.price || '0');
+  }
+
+  formatPlacement(placement: SpotExitPlacement): string {
+    const asset = placement.symbol.replace('USDT', '');
+    const lines = [
+      placement.exit ? '✅ **Spot Exit Orders Placed**' : '⚠️ **Spot TP/SL Failed**',
+      '',
+      `**Symbol:** ${placement.symbol}`,
+      `**Quantity:** ${placement.quantity} ${asset}`,
+      `**Entry:** $${placement.entryPrice.toFixed(6)}`
+    ];
+
+    if (placement.tp) {
+      lines.push(placement.tp.order
+        ? `🎯 **Take Profit:** limit sell @ $${placement.tp.price} (ID: ${placement.tp.order.orderId})`
+        : `❌ **Take Profit Failed:** ${placement.tp.error}`);
+    }
+
+    if (placement.sl) {
+      if (placement.sl.error) {
+        lines.push(`❌ **Stop Loss Failed:** ${placement.sl.error}`);
+      } else if (placement.sl.mode === 'exchange') {
+        lines.push(`🛡️ **Stop Loss:** stop-limit @ $${placement.sl.price} (ID: ${placement.sl.order?.orderId})`);
+      } else {
+        lines.push(`🛡️ **Stop Loss:** $${placement.sl.price}, watched by the bot and sold at market`);
+      }
+    }
+
+    lines.push('');
+    lines.push(placement.exit
+      ? '🔗 *When one side fills the other is cancelled. Selling the balance yourself cancels both.*'
+      : '💡 *You can place a sell order manually from Open Orders.*');
+
+    return lines.join('\n');
+  }
+
+  formatMonitoredStops(exits: SpotExit[]): string {
+    const monitored = exits.filter(e => e.sl_mode === 'monitored' && e.sl_price);
+    if (monitored.length === 0) return '';
+
+    return [
+      '🤖 **Bot-Monitored Stops**',
+      ...monitored.map((exit, index) =>
+        `S${index + 1}. 🔴 SELL ${exit.quantity} ${exit.symbol.replace('USDT', '')} at market if ≤ $${exit.sl_price}`
+      )
+    ].join('\n');
+  }
+
+  /**
+   * PnL of a filled exit against the spot entry price; undefined when nothing was sold by the exit
+   */
+  static realizedPnl(event: SpotExitEvent): number | undefined {
+    if (event.reason === 'sold_manually' || !event.price) return undefined;
+    return (event.price - parseFloat(event.exit.entry_price)) * parseFloat(event.exit.quantity);
+  }
+
+  formatClosedNotification(event: SpotExitEvent): string {
+    const { exit } = event;
+    const asset = exit.symbol.replace('USDT', '');
+    const price = event.price ? event.price.toFixed(event.price < 1 ? 6 : 2) : undefined;
+
+    switch (event.reason) {
+      case 'tp_filled':
+        return `🎯 **Take Profit Filled**\n\n**${exit.quantity} ${asset}** sold${price ? ` @ $${price}` : ''}.${exit.sl_price ? ' The stop loss was cancelled.' : ''}`;
+      case 'sl_filled':
+        return `🛡️ **Stop Loss Triggered**\n\n**${exit.quantity} ${asset}** sold${price ? ` near $${price}` : ''}.${exit.tp_order_id ? ' The take profit was cancelled.' : ''}`;
+      case 'sold_manually':
+        return `ℹ️ **Spot Exit Cancelled**\n\nYour ${asset} balance was sold elsewhere, so its TP/SL orders were cancelled.`;
+    }
+  }
+}
@@ -0,0 +1,423 @@
+import { AsterApiClient } from '../aster';
+import { DatabaseManager } from '../db';
+import { ApiClientService } from './ApiClientService';
+import { PaperApiClient } from './PaperApiClient';
+import { OrderResponse, PositionInfo, TpLadder, TpLadderRung } from '../types';
+
+export interface TpLadderRungPlan {
+  targetPercent: number;
+  sharePercent: number;
+  price: string;
+  quantity: string;
+}
+
+export interface TpLadderPlan {
+  symbol: string;
+  positionSide: 'LONG' | 'SHORT';
+  entryPrice: number;
+  positionQuantity: number;
+  rungs: TpLadderRungPlan[];
+}
+
+export interface TpLadderPlacement {
+  plan: TpLadderPlan;
+  placed: TpLadderRung[];
+  // Exchange responses for the placed rungs, for the order history
+  orders: OrderResponse[];
+  failed: Array<{ rung: TpLadderRungPlan; error: string }>;
+}
+
+export class TpLadderService {
+  static readonly DEFAULT_INTERVAL_MS = 30 * 1000;
+  // The last rung is the runner and keeps half the position; earlier rungs split the rest
+  static readonly RUNNER_SHARE = 50;
+
+  private static readonly DEAD_ORDER_STATUSES = ['CANCELED', 'EXPIRED', 'REJECTED'];
+
+  private db: DatabaseManager;
+  private apiClientService: ApiClientService;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sweeping = false;
+
+  constructor(db: DatabaseManager, apiClientService: ApiClientService) {
+    this.db = db;
+    this.apiClientService = apiClientService;
+  }
+
+  /**
+   * Share of the position closed at each target, e.g. 25/25/50 for three presets
+   */
+  static rungShares(count: number): number[] {
+    if (count <= 1) return [100];
+    const early = (100 - TpLadderService.RUNNER_SHARE) / (count - 1);
+    return [...Array(count - 1).fill(early), TpLadderService.RUNNER_SHARE];
+  }
+
+  /**
+   * Rung prices and sizes for the open position, using the take-profit presets in ascending order.
+   * positionSide picks the leg of a hedged symbol.
+   */
+  async plan(apiClient: AsterApiClient, symbol: string, presets: number[], positionSide?: 'LONG' | 'SHORT'): Promise<TpLadderPlan> {
+    const targets = [...new Set(presets)].filter(p => p > 0).sort((a, b) => a - b);
+    if (targets.length === 0) {
+      throw new Error('No take profit presets configured. Add some in settings first.');
+    }
+
+    const positions = await apiClient.getPositionRisk();
+    const position = AsterApiClient.findPosition(positions, symbol, positionSide);
+    if (!position) {
+      throw new Error(`No open ${positionSide ? positionSide + ' ' : ''}position found for ${symbol}`);
+    }
+
+    const leg = AsterApiClient.legOf(position);
+    const entryPrice = parseFloat(position.entryPrice);
+    const positionQuantity = Math.abs(parseFloat(position.positionAmt));
+    const shares = TpLadderService.rungShares(targets.length);
+    const quantities = await this.splitQuantity(apiClient, symbol, positionQuantity, shares);
+
+    if (quantities.some(quantity => parseFloat(quantity) <= 0)) {
+      throw new Error(`The ${symbol} position is too small to split into ${targets.length} take profits`);
+    }
+
+    const rungs: TpLadderRungPlan[] = [];
+    for (const [i, targetPercent] of targets.entries()) {
+      const direction = leg === 'LONG' ? 1 : -1;
+      rungs.push({
+        targetPercent,
+        sharePercent: shares[i],
+        price: await apiClient.formatPriceWithPrecision(symbol, entryPrice * (1 + direction * targetPercent / 100)),
+        quantity: quantities[i]
+      });
+    }
+
+    return { symbol, positionSide: leg, entryPrice, positionQuantity, rungs };
+  }
+
+  /**
+   * Place every rung as a reduce-only limit and store the ladder, replacing any active ladder on the same leg
+   */
+  async place(userId: number, apiClient: AsterApiClient, plan: TpLadderPlan): Promise<TpLadderPlacement> {
+    await this.cancel(userId, apiClient, plan.symbol, plan.positionSide);
+
+    const closeSide = plan.positionSide === 'LONG' ? 'SELL' : 'BUY';
+    const placedRungs: Array<{ index: number; rung: TpLadderRungPlan; order: OrderResponse }> = [];
+    const failed: TpLadderPlacement['failed'] = [];
+
+    for (const [index, rung] of plan.rungs.entries()) {
+      try {
+        const order = await this.placeRungOrder(apiClient, plan.symbol, closeSide, plan.positionSide, rung.price, rung.quantity);
+        placedRungs.push({ index, rung, order });
+      } catch (error: any) {
+        console.error(`[TpLadderService] Rung ${index + 1} failed for ${plan.symbol}:`, error);
+        failed.push({ rung, error: error.message || 'Unknown error' });
+      }
+    }
+
+    if (placedRungs.length === 0) {
+      return { plan, placed: [], orders: [], failed };
+    }
+
+    const { rungs } = await this.db.createTpLadder(
+      {
+        user_id: userId,
+        symbol: plan.symbol,
+        position_side: plan.positionSide,
+        entry_price: String(plan.entryPrice),
+        paper: apiClient instanceof PaperApiClient
+      },
+      placedRungs.map(({ index, rung, order }) => ({
+        rung_index: index,
+        target_percent: String(rung.targetPercent),
+        share_percent: String(rung.sharePercent),
+        price: order.price || rung.price,
+        quantity: order.origQty || rung.quantity,
+        order_id: String(order.orderId)
+      }))
+    );
+
+    return { plan, placed: rungs, orders: placedRungs.map(({ order }) => order), failed };
+  }
+
+  async getActive(userId: number, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<{ ladder: TpLadder; rungs: TpLadderRung[] } | null> {
+    const ladder = await this.db.getActiveTpLadder(userId, symbol, positionSide);
+    if (!ladder) return null;
+    return { ladder, rungs: await this.db.getTpLadderRungs(ladder.id) };
+  }
+
+  /**
+   * Cancel the active ladder on a symbol, or on one leg of it in hedge mode, and its open rung orders.
+   * Resolves false when nothing was active.
+   */
+  async cancel(userId: number, apiClient: AsterApiClient, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<boolean> {
+    const ladder = await this.db.getActiveTpLadder(userId, symbol, positionSide);
+    if (!ladder || !(await this.db.closeTpLadder(ladder.id, 'cancelled'))) {
+      return false;
+    }
+
+    await this.cancelOpenRungs(apiClient, ladder, await this.db.getTpLadderRungs(ladder.id));
+    return true;
+  }
+
+  /**
+   * Start the background sweep that tracks rung fills and re-sizes rungs after partial closes
+   */
+  start(intervalMs = TpLadderService.DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => console.error('[TpLadderService] Sweep failed:', error));
+    }, intervalMs);
+
+    console.log(`[TpLadderService] Worker started (every ${intervalMs / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Reconcile every active ladder with the exchange. Resolves the number of rungs re-sized.
+   */
+  async sweep(): Promise<number> {
+    if (this.sweeping) return 0;
+    this.sweeping = true;
+
+    try {
+      const ladders = await this.db.getActiveTpLadders();
+      const byUser = new Map<number, TpLadder[]>();
+      ladders.forEach(ladder => byUser.set(ladder.user_id, [...(byUser.get(ladder.user_id) || []), ladder]));
+
+      let resized = 0;
+      for (const [userId, userLadders] of byUser) {
+        try {
+          const apiClient = await this.apiClientService.getOrCreateClient(userId);
+          const [positions, openOrders] = await Promise.all([apiClient.getPositionRisk(), apiClient.getOpenOrders()]);
+          const openById = new Map(openOrders.map(order => [String(order.orderId), order]));
+
+          for (const ladder of userLadders) {
+            resized += await this.reconcile(apiClient, ladder, positions, openById);
+          }
+        } catch (error) {
+          console.warn(`[TpLadderService] Skipping user ${userId}:`, error);
+        }
+      }
+
+      return resized;
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  private async reconcile(
+    apiClient: AsterApiClient,
+    ladder: TpLadder,
+    positions: PositionInfo[],
+    openById: Map<string, OrderResponse>
+  ): Promise<number> {
+    const rungs = await this.db.getTpLadderRungs(ladder.id);
+    const position = AsterApiClient.findPosition(positions, ladder.symbol, ladder.position_side);
+
+    // Position closed or flipped: nothing left to take profit on
+    if (!position) {
+      if (await this.db.closeTpLadder(ladder.id, 'closed')) {
+        await this.cancelOpenRungs(apiClient, ladder, rungs);
+      }
+      return 0;
+    }
+
+    const open: TpLadderRung[] = [];
+    for (const rung of rungs.filter(r => r.status === 'open')) {
+      if (rung.order_id && openById.has(rung.order_id)) {
+        open.push(rung);
+        continue;
+      }
+
+      const status = rung.order_id
+        ? (await apiClient.getOrder(ladder.symbol, Number(rung.order_id))).status
+        : 'CANCELED';
+      if (status === 'FILLED') {
+        await this.db.setTpLadderRungStatus(rung.id, 'filled');
+      } else if (TpLadderService.DEAD_ORDER_STATUSES.includes(status)) {
+        await this.db.setTpLadderRungStatus(rung.id, 'cancelled');
+      }
+    }
+
+    if (open.length === 0) {
+      await this.db.closeTpLadder(ladder.id, 'closed');
+      return 0;
+    }
+
+    return this.resize(apiClient, ladder, open, openById, Math.abs(parseFloat(position.positionAmt)));
+  }
+
+  /**
+   * Spread the current position over the open rungs in their original proportions.
+   * Partly filled rungs keep their remaining size; the others are replaced at the same price.
+   */
+  private async resize(
+    apiClient: AsterApiClient,
+    ladder: TpLadder,
+    open: TpLadderRung[],
+    openById: Map<string, OrderResponse>,
+    positionQuantity: number
+  ): Promise<number> {
+    const remainingOf = (rung: TpLadderRung) => {
+      const order = openById.get(rung.order_id!)!;
+      return parseFloat(order.origQty) - parseFloat(order.executedQty);
+    };
+
+    const partlyFilled = open.filter(rung => parseFloat(openById.get(rung.order_id!)!.executedQty) > 0);
+    const resizable = open.filter(rung => !partlyFilled.includes(rung));
+    if (resizable.length === 0) return 0;
+
+    const available = positionQuantity - partlyFilled.reduce((sum, rung) => sum + remainingOf(rung), 0);
+    const totalShare = resizable.reduce((sum, rung) => sum + parseFloat(rung.share_percent), 0);
+    const quantities = await this.splitQuantity(
+      apiClient,
+      ladder.symbol,
+      Math.max(available, 0),
+      resizable.map(rung => parseFloat(rung.share_percent) / totalShare * 100)
+    );
+
+    const closeSide = ladder.position_side === 'LONG' ? 'SELL' : 'BUY';
+    let resized = 0;
+
+    for (const [i, rung] of resizable.entries()) {
+      const quantity = quantities[i];
+      if (parseFloat(quantity) === remainingOf(rung)) continue;
+
+      // Cancel first: if the rung filled in the meantime the cancel fails and no replacement is placed
+      try {
+        await apiClient.cancelOrder(ladder.symbol, Number(rung.order_id));
+      } catch (error) {
+        console.warn(`[TpLadderService] Could not cancel rung ${rung.order_id} for ${ladder.symbol}:`, error);
+        continue;
+      }
+
+      if (parseFloat(quantity) <= 0) {
+        await this.db.setTpLadderRungStatus(rung.id, 'cancelled');
+        continue;
+      }
+
+      try {
+        const order = await this.placeRungOrder(apiClient, ladder.symbol, closeSide, ladder.position_side, rung.price, quantity);
+        await this.db.updateTpLadderRung(rung.id, order.origQty || quantity, String(order.orderId));
+        resized++;
+      } catch (error) {
+        console.error(`[TpLadderService] Could not re-size rung ${rung.rung_index + 1} for ${ladder.symbol}:`, error);
+        await this.db.setTpLadderRungStatus(rung.id, 'cancelled');
+      }
+    }
+
+    return resized;
+  }
+
+  /**
+   * Split a quantity by percentage shares at the symbol's step size; the last part takes the rounding remainder
+   */
+  private async splitQuantity(apiClient: AsterApiClient, symbol: string, total: number, shares: number[]): Promise<string[]> {
+    const quantities: string[] = [];
+    let allocated = 0;
+
+    for (const share of shares.slice(0, -1)) {
+      const quantity = await apiClient.formatQuantityWithPrecision(symbol, total * share / 100);
+      quantities.push(quantity);
+      allocated += parseFloat(quantity);
+    }
+
+    quantities.push(await apiClient.formatQuantityWithPrecision(symbol, Math.max(total - allocated, 0)));
+    return quantities;
+  }
+
+  private placeRungOrder(
+    apiClient: AsterApiClient,
+    symbol: string,
+    side: 'BUY' | 'SELL',
+    positionSide: 'LONG' | 'SHORT',
+    price: string,
+    quantity: string
+  ): Promise<OrderResponse> {
+    return apiClient.createOrder({
+      symbol,
+      side,
+      positionSide,
+      type: 'LIMIT',
+      price,
+      quantity,
+      timeInForce: 'GTC',
+      reduceOnly: true
+    });
+  }
+
+  private async cancelOpenRungs(apiClient: AsterApiClient, ladder: TpLadder, rungs: TpLadderRung[]): Promise<void> {
+    for (const rung of rungs.filter(r => r.status === 'open')) {
+      await this.db.setTpLadderRungStatus(rung.id, 'cancelled');
+      if (!rung.order_id) continue;
+
+      try {
+        await apiClient.cancelOrder(ladder.symbol, Number(rung.order_id));
+      } catch (error) {
+        // Already filled, cancelled or expired on the exchange
+        console.warn(`[TpLadderService] Could not cancel rung ${rung.order_id} for ${ladder.symbol}:`, error);
+      }
+    }
+  }
+
+  formatPlanPreview(plan: TpLadderPlan, active: { ladder: TpLadder; rungs: TpLadderRung[] } | null): string {
+    const asset = plan.symbol.replace('USDT', '');
+    const lines = [
+      `📶 **TP Ladder: ${plan.symbol}**`,
+      '',
+      `**Position:** ${plan.positionSide} ${plan.positionQuantity} ${asset} @ $${plan.entryPrice}`,
+      '',
+      ...plan.rungs.map((rung, i) =>
+        `${i + 1}. ${TpLadderService.formatShare(rung.sharePercent)}% at +${rung.targetPercent}% → $${rung.price} (${rung.quantity} ${asset})`
+      ),
+      '',
+      'Each rung is a reduce-only limit order. If you close part of the position, the open rungs shrink to match.'
+    ];
+
+    if (active) {
+      lines.push('', '⚠️ Placing this replaces the active TP ladder on this symbol.');
+    }
+
+    lines.push('', 'Targets come from your take profit presets in settings.');
+    if (plan.rungs.length > 1) {
+      lines.push(`The split is fixed: the last target always keeps ${TpLadderService.RUNNER_SHARE}% as a runner and the earlier ones share the rest evenly.`);
+    }
+    return lines.join('\n');
+  }
+
+  formatPlacement(placement: TpLadderPlacement): string {
+    const lines = [
+      placement.failed.length === 0 ? '✅ **TP Ladder Placed**' : placement.placed.length > 0 ? '⚠️ **TP Ladder Partially Placed**' : '❌ **TP Ladder Failed**',
+      '',
+      `**Symbol:** ${placement.plan.symbol} (${placement.plan.positionSide})`,
+      '',
+      ...placement.placed.map(rung => TpLadderService.formatRung(rung)),
+      ...placement.failed.map(({ rung, error }) => `❌ +${rung.targetPercent}% → $${rung.price} • ${error}`)
+    ];
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Rung status lines for the position management menu
+   */
+  formatStatus(rungs: TpLadderRung[]): string {
+    return ['📶 **TP Ladder**', ...rungs.map(rung => TpLadderService.formatRung(rung))].join('\n');
+  }
+
+  private static formatRung(rung: TpLadderRung): string {
+    const icon = rung.status === 'filled' ? '✅' : rung.status === 'cancelled' ? '❌' : '⏳';
+    const state = rung.status === 'open' ? '' : ` • ${rung.status}`;
+    return `${icon} +${parseFloat(rung.target_percent)}% → $${parseFloat(rung.price)} • ${parseFloat(rung.quantity)}${state}`;
+  }
+
+  private static formatShare(share: number): string {
+    return Number.isInteger(share) ? String(share) : share.toFixed(1);
+  }
+}
@@ -0,0 +1,282 @@
+import { AsterApiClient } from '../aster';
+import { DatabaseManager } from '../db';
+import { SymbolFilters } from '../filters';
+import { ApiClientService } from './ApiClientService';
+import { PaperApiClient } from './PaperApiClient';
+import { PriceService } from './PriceService';
+import { PositionInfo, TrailingStop } from '../types';
+
+export interface TrailingStopPlacement {
+  // 'native' uses the exchange's TRAILING_STOP_MARKET; 'managed' is a STOP_MARKET the bot ratchets
+  mode: 'native' | 'managed';
+  symbol: string;
+  positionSide: 'LONG' | 'SHORT';
+  callbackRate: number;
+  markPrice: number;
+  stopPrice?: string;
+  order: any;
+}
+
+export class TrailingStopService {
+  static readonly MIN_CALLBACK_RATE = 0.1;
+  static readonly MAX_CALLBACK_RATE = 5;
+  static readonly PRESET_RATES = [0.5, 1, 2, 3];
+  static readonly DEFAULT_INTERVAL_MS = 15 * 1000;
+
+  private db: DatabaseManager;
+  private apiClientService: ApiClientService;
+  private priceService: PriceService;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private evaluating = false;
+  private tickSizes = new Map<string, number>();
+
+  constructor(db: DatabaseManager, apiClientService: ApiClientService, priceService: PriceService) {
+    this.db = db;
+    this.apiClientService = apiClientService;
+    this.priceService = priceService;
+  }
+
+  static validateCallbackRate(rate: number): string | null {
+    if (!Number.isFinite(rate) || rate < TrailingStopService.MIN_CALLBACK_RATE || rate > TrailingStopService.MAX_CALLBACK_RATE) {
+      return `Trailing distance must be between ${TrailingStopService.MIN_CALLBACK_RATE}% and ${TrailingStopService.MAX_CALLBACK_RATE}%.`;
+    }
+    return null;
+  }
+
+  /**
+   * Stop price that trails the best price by callbackRate percent
+   */
+  static stopFromBest(bestPrice: number, callbackRate: number, positionSide: 'LONG' | 'SHORT'): number {
+    const factor = callbackRate / 100;
+    return positionSide === 'LONG' ? bestPrice * (1 - factor) : bestPrice * (1 + factor);
+  }
+
+  /**
+   * Protect an open position with a trailing stop, replacing any bot-managed one on the same symbol.
+   * Uses the exchange's TRAILING_STOP_MARKET when the symbol lists it, otherwise a STOP_MARKET the worker ratchets.
+   * positionSide picks the leg of a hedged symbol.
+   */
+  async placeTrailingStop(
+    userId: number,
+    apiClient: AsterApiClient,
+    symbol: string,
+    callbackRate: number,
+    positionSide?: 'LONG' | 'SHORT'
+  ): Promise<TrailingStopPlacement> {
+    const rateError = TrailingStopService.validateCallbackRate(callbackRate);
+    if (rateError) {
+      throw new Error(rateError);
+    }
+
+    const positions = await apiClient.getPositionRisk();
+    const position = AsterApiClient.findPosition(positions, symbol, positionSide);
+    if (!position) {
+      throw new Error(`No open ${positionSide ? positionSide + ' ' : ''}position found for ${symbol}`);
+    }
+
+    const leg = AsterApiClient.legOf(position);
+    const markPrices = await apiClient.getMarkPrice(symbol);
+    const markPrice = parseFloat(markPrices[0]?.markPrice || '0');
+    if (markPrice <= 0) {
+      throw new Error(`No mark price available for ${symbol}`);
+    }
+
+    await this.cancelManaged(userId, apiClient, symbol, leg);
+
+    if (await apiClient.supportsOrderType(symbol, 'TRAILING_STOP_MARKET')) {
+      const order = await apiClient.setTrailingStop(symbol, callbackRate, undefined, undefined, leg);
+      return { mode: 'native', symbol, positionSide: leg, callbackRate, markPrice, order };
+    }
+
+    const order = await apiClient.setStopLoss(symbol, TrailingStopService.stopFromBest(markPrice, callbackRate, leg), undefined, leg);
+    const stopPrice = order.stopPrice || String(TrailingStopService.stopFromBest(markPrice, callbackRate, leg));
+
+    await this.db.createTrailingStop({
+      user_id: userId,
+      symbol,
+      position_side: leg,
+      callback_rate: String(callbackRate),
+      best_price: String(markPrice),
+      stop_price: stopPrice,
+      stop_order_id: String(order.orderId),
+      paper: apiClient instanceof PaperApiClient
+    });
+
+    return { mode: 'managed', symbol, positionSide: leg, callbackRate, markPrice, stopPrice, order };
+  }
+
+  async getActive(userId: number, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<TrailingStop | null> {
+    return this.db.getActiveTrailingStop(userId, symbol, positionSide);
+  }
+
+  /**
+   * Stop trailing a symbol, or one leg of it in hedge mode, and cancel the working stop order.
+   * Resolves false when nothing was active.
+   */
+  async cancelManaged(userId: number, apiClient: AsterApiClient, symbol: string, positionSide?: 'LONG' | 'SHORT'): Promise<boolean> {
+    const active = await this.db.getActiveTrailingStop(userId, symbol, positionSide);
+    if (!active) return false;
+
+    await this.cancelStopOrder(apiClient, active);
+    await this.db.setTrailingStopStatus(active.id, 'cancelled');
+    return true;
+  }
+
+  /**
+   * Start the background worker that ratchets bot-managed trailing stops
+   */
+  start(intervalMs = TrailingStopService.DEFAULT_INTERVAL_MS): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.evaluate().catch(error => console.error('[TrailingStopService] Evaluation failed:', error));
+    }, intervalMs);
+
+    console.log(`[TrailingStopService] Worker started (every ${intervalMs / 1000}s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Move every active stop towards the mark price. Resolves the number of stops moved.
+   */
+  async evaluate(): Promise<number> {
+    // Overlapping ticks would replace the same stop order twice
+    if (this.evaluating) return 0;
+    this.evaluating = true;
+
+    try {
+      const stops = await this.db.getActiveTrailingStops();
+      if (stops.length === 0) return 0;
+
+      const markPrices = await this.priceService.getMarkPrices([...new Set(stops.map(s => s.symbol))]);
+      const byUser = new Map<number, TrailingStop[]>();
+      stops.forEach(stop => byUser.set(stop.user_id, [...(byUser.get(stop.user_id) || []), stop]));
+
+      let moved = 0;
+      for (const [userId, userStops] of byUser) {
+        try {
+          const apiClient = await this.apiClientService.getOrCreateClient(userId);
+          const positions = await apiClient.getPositionRisk();
+
+          for (const stop of userStops) {
+            if (await this.ratchet(apiClient, stop, positions, markPrices.get(stop.symbol))) {
+              moved++;
+            }
+          }
+        } catch (error) {
+          console.warn(`[TrailingStopService] Skipping user ${userId}:`, error);
+        }
+      }
+
+      return moved;
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  private async ratchet(apiClient: AsterApiClient, stop: TrailingStop, positions: PositionInfo[], markPrice: number | undefined): Promise<boolean> {
+    const position = AsterApiClient.findPosition(positions, stop.symbol, stop.position_side);
+
+    // Stop filled, position closed elsewhere, or flipped to the other side
+    if (!position) {
+      await this.cancelStopOrder(apiClient, stop);
+      await this.db.setTrailingStopStatus(stop.id, 'closed');
+      return false;
+    }
+
+    if (markPrice === undefined || !Number.isFinite(markPrice) || markPrice <= 0) {
+      return false;
+    }
+
+    const bestPrice = parseFloat(stop.best_price);
+    const isLong = stop.position_side === 'LONG';
+    if (isLong ? markPrice <= bestPrice : markPrice >= bestPrice) {
+      return false;
+    }
+
+    const currentStop = parseFloat(stop.stop_price);
+    const nextStop = TrailingStopService.stopFromBest(markPrice, parseFloat(stop.callback_rate), stop.position_side);
+    const tickSize = await this.getTickSize(apiClient, stop.symbol);
+    const improvement = isLong ? nextStop - currentStop : currentStop - nextStop;
+
+    if (improvement < tickSize) {
+      await this.db.updateTrailingStop(stop.id, String(markPrice), stop.stop_price, stop.stop_order_id);
+      return false;
+    }
+
+    // Place the new stop before cancelling the old one so the position is never unprotected
+    const order = await apiClient.setStopLoss(stop.symbol, nextStop, undefined, stop.position_side);
+    await this.cancelStopOrder(apiClient, stop);
+    await this.db.updateTrailingStop(stop.id, String(markPrice), order.stopPrice || String(nextStop), String(order.orderId));
+    return true;
+  }
+
+  private async cancelStopOrder(apiClient: AsterApiClient, stop: TrailingStop): Promise<void> {
+    if (!stop.stop_order_id) return;
+
+    try {
+      await apiClient.cancelOrder(stop.symbol, Number(stop.stop_order_id));
+    } catch (error) {
+      // Already triggered or cancelled on the exchange
+      console.warn(`[TrailingStopService] Could not cancel stop ${stop.stop_order_id} for ${stop.symbol}:`, error);
+    }
+  }
+
+  private async getTickSize(apiClient: AsterApiClient, symbol: string): Promise<number> {
+    if (this.tickSizes.has(symbol)) {
+      return this.tickSizes.get(symbol)!;
+    }
+
+    const exchangeInfo = await apiClient.getExchangeInfo();
+    const symbolInfo = exchangeInfo.symbols.find(s => s.symbol === symbol);
+    const tickSize = symbolInfo ? new SymbolFilters(symbolInfo).getTickSize() : 0;
+
+    this.tickSizes.set(symbol, tickSize);
+    return tickSize;
+  }
+
+  formatRateMenu(symbol: string, active: TrailingStop | null): string {
+    const lines = [
+      `📉 **Trailing Stop: ${symbol}**`,
+      '',
+      'The stop follows the best mark price and closes the position when price pulls back by the chosen distance.',
+      ''
+    ];
+
+    if (active) {
+      lines.push(`**Active:** ${parseFloat(active.callback_rate)}% • stop at $${active.stop_price}`);
+      lines.push('');
+    }
+
+    lines.push(`Pick a distance, or use \`trail1.5%\` in a trade command (${TrailingStopService.MIN_CALLBACK_RATE}%–${TrailingStopService.MAX_CALLBACK_RATE}%).`);
+    return lines.join('\n');
+  }
+
+  formatPlaced(placement: TrailingStopPlacement): string {
+    const lines = [
+      '✅ **Trailing Stop Set**',
+      '',
+      `**Symbol:** ${placement.symbol} (${placement.positionSide})`,
+      `**Distance:** ${placement.callbackRate}% from the best mark price`,
+      `**Mark Price:** $${placement.markPrice}`
+    ];
+
+    if (placement.mode === 'managed') {
+      lines.push(`**Current Stop:** $${placement.stopPrice}`);
+    }
+
+    lines.push(`**Order ID:** ${placement.order?.orderId ?? 'N/A'}`);
+    lines.push('');
+    lines.push(placement.mode === 'managed'
+      ? `🤖 The bot moves this stop every ${TrailingStopService.DEFAULT_INTERVAL_MS / 1000}s as price moves in your favour.`
+      : '⚡ Managed by the exchange as a trailing stop order.');
+
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,336 @@
+import { AsterApiClient } from '../aster';
+import { DatabaseManager } from '../db';
+import { BotEventEmitter, EventTypes } from '../events/EventEmitter';
+import { ApiClientService } from './ApiClientService';
+import { AccountUpdateEvent, MarginCallEvent, OrderTradeUpdateEvent, UserStreamEvent } from '../types';
+
+/**
+ * The subset of the WebSocket API the stream relies on, so tests can plug in a local stand-in
+ */
+export interface StreamSocket {
+  onopen: (() => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: (() => void) | null;
+  onerror: ((error: unknown) => void) | null;
+  close(): void;
+}
+
+export type StreamSocketFactory = (url: string) => StreamSocket;
+
+export interface UserDataStreamOptions {
+  wsUrl: string;
+  socketFactory?: StreamSocketFactory;
+  keepAliveIntervalMs?: number;
+  maxReconnectDelayMs?: number;
+}
+
+interface StreamConnection {
+  userId: number;
+  telegramId: number;
+  client: AsterApiClient;
+  listenKey: string;
+  socket: StreamSocket | null;
+  open: boolean;
+  keepAliveTimer: ReturnType<typeof setInterval> | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+  reconnectAttempts: number;
+  stopped: boolean;
+}
+
+export class UserDataStreamService {
+  // Listen keys expire after 60 minutes without a keepalive
+  private static readonly DEFAULT_KEEPALIVE_MS = 30 * 60 * 1000;
+  private static readonly DEFAULT_MAX_RECONNECT_MS = 60 * 1000;
+  private static readonly PROTECTIVE_ORDER_TYPES = ['STOP', 'STOP_MARKET', 'TAKE_PROFIT', 'TAKE_PROFIT_MARKET', 'TRAILING_STOP_MARKET'];
+
+  private db: DatabaseManager;
+  private apiClientService: ApiClientService;
+  private eventEmitter: BotEventEmitter;
+  private options: Required<UserDataStreamOptions>;
+  private connections = new Map<number, StreamConnection>();
+
+  constructor(
+    db: DatabaseManager,
+    apiClientService: ApiClientService,
+    eventEmitter: BotEventEmitter,
+    options: UserDataStreamOptions
+  ) {
+    this.db = db;
+    this.apiClientService = apiClientService;
+    this.eventEmitter = eventEmitter;
+    this.options = {
+      wsUrl: options.wsUrl.replace(/\/$/, ''),
+      socketFactory: options.socketFactory ?? ((url: string) => new WebSocket(url) as unknown as StreamSocket),
+      keepAliveIntervalMs: options.keepAliveIntervalMs ?? UserDataStreamService.DEFAULT_KEEPALIVE_MS,
+      maxReconnectDelayMs: options.maxReconnectDelayMs ?? UserDataStreamService.DEFAULT_MAX_RECONNECT_MS
+    };
+  }
+
+  /**
+   * Open streams for every linked user, e.g. on startup. Users in paper mode get
+   * their fills from the simulator instead.
+   */
+  async startAll(): Promise<void> {
+    const users = (await this.db.getLinkedUsers()).filter(user => !user.paper_mode);
+
+    for (const user of users) {
+      try {
+        await this.start(user.user_id, user.tg_id);
+      } catch (error) {
+        console.error(`[UserDataStream] Failed to start stream for user ${user.user_id}:`, error);
+      }
+    }
+
+    console.log(`[UserDataStream] Started ${this.connections.size}/${users.length} user streams`);
+  }
+
+  /**
+   * Open (or reopen) the stream for one user
+   */
+  async start(userId: number, telegramId: number): Promise<void> {
+    await this.stop(userId);
+
+    const client = await this.apiClientService.getOrCreateClient(userId);
+    const listenKey = await client.createListenKey();
+
+    const connection: StreamConnection = {
+      userId,
+      telegramId,
+      client,
+      listenKey,
+      socket: null,
+      open: false,
+      keepAliveTimer: null,
+      reconnectTimer: null,
+      reconnectAttempts: 0,
+      stopped: false
+    };
+
+    connection.keepAliveTimer = setInterval(() => {
+      this.keepAlive(connection).catch(error =>
+        console.error(`[UserDataStream] Keepalive failed for user ${userId}:`, error)
+      );
+    }, this.options.keepAliveIntervalMs);
+
+    this.connections.set(userId, connection);
+    this.connect(connection);
+  }
+
+  /**
+   * Close one user's stream and release the listen key
+   */
+  async stop(userId: number): Promise<void> {
+    const connection = this.connections.get(userId);
+    if (!connection) return;
+
+    this.connections.delete(userId);
+    this.teardown(connection);
+
+    try {
+      await connection.client.closeListenKey();
+    } catch (error) {
+      console.warn(`[UserDataStream] Failed to close listen key for user ${userId}:`, error);
+    }
+  }
+
+  async stopAll(): Promise<void> {
+    await Promise.all([...this.connections.keys()].map(userId => this.stop(userId)));
+  }
+
+  isConnected(userId: number): boolean {
+    return this.connections.get(userId)?.open ?? false;
+  }
+
+  /**
+   * Route one raw stream message. Public so tests can drive it without a socket.
+   */
+  handleMessage(connection: Pick<StreamConnection, 'userId' | 'telegramId'>, raw: unknown): void {
+    let event: UserStreamEvent;
+    try {
+      event = JSON.parse(typeof raw === 'string' ? raw : String(raw));
+    } catch (error) {
+      console.warn(`[UserDataStream] Ignoring malformed message for user ${connection.userId}`);
+      return;
+    }
+
+    const base = {
+      timestamp: new Date(event.E || Date.now()),
+      userId: connection.userId,
+      telegramId: connection.telegramId
+    };
+
+    switch (event.e) {
+      case 'ORDER_TRADE_UPDATE':
+        UserDataStreamService.emitOrderUpdate(this.eventEmitter, base, (event as OrderTradeUpdateEvent).o);
+        break;
+
+      case 'ACCOUNT_UPDATE':
+        this.eventEmitter.emitEvent({ type: EventTypes.ACCOUNT_UPDATED, ...base, account: (event as AccountUpdateEvent).a });
+        break;
+
+      case 'MARGIN_CALL': {
+        const marginCall = event as MarginCallEvent;
+        this.eventEmitter.emitEvent({
+          type: EventTypes.MARGIN_CALL,
+          ...base,
+          crossWalletBalance: marginCall.cw,
+          positions: marginCall.p
+        });
+        break;
+      }
+
+      case 'listenKeyExpired': {
+        const active = this.connections.get(connection.userId);
+        if (active) {
+          console.warn(`[UserDataStream] Listen key expired for user ${connection.userId}, restarting`);
+          this.start(active.userId, active.telegramId).catch(error =>
+            console.error(`[UserDataStream] Failed to restart stream for user ${connection.userId}:`, error)
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Raise ORDER_UPDATED and, once filled, the event that says what kind of fill it was.
+   * The paper trading simulator uses this too so its fills reach the same listeners.
+   */
+  static emitOrderUpdate(
+    eventEmitter: BotEventEmitter,
+    base: { timestamp: Date; userId: number; telegramId: number; paper?: boolean },
+    order: OrderTradeUpdateEvent['o']
+  ): void {
+    eventEmitter.emitEvent({ type: EventTypes.ORDER_UPDATED, ...base, order });
+
+    if (order.X !== 'FILLED') return;
+
+    if (UserDataStreamService.isLiquidation(order)) {
+      eventEmitter.emitEvent({ type: EventTypes.POSITION_LIQUIDATED, ...base, order });
+    } else if (UserDataStreamService.PROTECTIVE_ORDER_TYPES.includes(order.ot || order.o)) {
+      eventEmitter.emitEvent({ type: EventTypes.PROTECTIVE_ORDER_TRIGGERED, ...base, order });
+    } else {
+      eventEmitter.emitEvent({ type: EventTypes.ORDER_FILLED, ...base, order });
+    }
+  }
+
+  static isLiquidation(order: OrderTradeUpdateEvent['o']): boolean {
+    return order.o === 'LIQUIDATION' || order.c.startsWith('autoclose-') || order.c.startsWith('adl_autoclose');
+  }
+
+  formatFillNotification(order: OrderTradeUpdateEvent['o']): string {
+    const emoji = order.S === 'BUY' ? '🟢' : '🔴';
+    const price = parseFloat(order.ap || order.L || '0');
+    const realized = parseFloat(order.rp || '0');
+
+    let output = `${emoji} **Order Filled**\n\n`;
+    output += `**${order.S} ${order.s}** • ${order.o}\n`;
+    output += `**Quantity:** ${order.z}\n`;
+    output += `**Avg Price:** $${price.toFixed(price < 1 ? 6 : 2)}\n`;
+    if (realized !== 0) {
+      output += `**Realized PnL:** ${realized > 0 ? '+' : ''}$${realized.toFixed(2)}\n`;
+    }
+    return output;
+  }
+
+  formatProtectiveNotification(order: OrderTradeUpdateEvent['o']): string {
+    const isTakeProfit = (order.ot || order.o).startsWith('TAKE_PROFIT');
+    const isTrailing = (order.ot || order.o) === 'TRAILING_STOP_MARKET';
+    const label = isTakeProfit ? '🎯 **Take Profit Hit**' : isTrailing ? '📉 **Trailing Stop Hit**' : '🛡️ **Stop Loss Hit**';
+    const price = parseFloat(order.ap || order.L || '0');
+    const realized = parseFloat(order.rp || '0');
+
+    let output = `${label}\n\n`;
+    output += `**${order.s}** • ${order.S} ${order.z}\n`;
+    output += `**Fill Price:** $${price.toFixed(price < 1 ? 6 : 2)}\n`;
+    if (order.sp && parseFloat(order.sp) > 0) {
+      output += `**Trigger:** $${parseFloat(order.sp).toFixed(price < 1 ? 6 : 2)}\n`;
+    }
+    output += `**Realized PnL:** ${realized >= 0 ? '+' : ''}$${realized.toFixed(2)}\n`;
+    return output;
+  }
+
+  formatLiquidationNotification(order: OrderTradeUpdateEvent['o']): string {
+    const price = parseFloat(order.ap || order.L || '0');
+    const realized = parseFloat(order.rp || '0');
+
+    let output = '💥 **Position Liquidated**\n\n';
+    output += `**${order.s}** • ${order.z} closed at $${price.toFixed(price < 1 ? 6 : 2)}\n`;
+    output += `**Realized PnL:** $${realized.toFixed(2)}\n\n`;
+    output += '💡 Consider lower leverage or a stop loss on future positions.';
+    return output;
+  }
+
+  formatMarginCallNotification(positions: MarginCallEvent['p']): string {
+    let output = '⚠️ **Margin Call**\n\n';
+    output += 'These positions are close to liquidation:\n';
+    positions.forEach(position => {
+      output += `• **${position.s}** ${position.pa} @ mark $${parseFloat(position.mp).toFixed(2)} (uPnL $${parseFloat(position.up).toFixed(2)})\n`;
+    });
+    output += '\n💡 Add margin or reduce the position to avoid liquidation.';
+    return output;
+  }
+
+  private connect(connection: StreamConnection): void {
+    if (connection.stopped) return;
+
+    const socket = this.options.socketFactory(`${this.options.wsUrl}/ws/${connection.listenKey}`);
+    connection.socket = socket;
+
+    socket.onopen = () => {
+      connection.open = true;
+      connection.reconnectAttempts = 0;
+      console.log(`[UserDataStream] Connected for user ${connection.userId}`);
+      this.eventEmitter.emitEvent({
+        type: EventTypes.STREAM_CONNECTED,
+        timestamp: new Date(),
+        userId: connection.userId,
+        telegramId: connection.telegramId
+      });
+    };
+
+    socket.onmessage = (event) => this.handleMessage(connection, event.data);
+
+    socket.onerror = (error) => {
+      console.warn(`[UserDataStream] Socket error for user ${connection.userId}:`, error);
+    };
+
+    socket.onclose = () => {
+      if (connection.socket !== socket) return;
+      connection.socket = null;
+      connection.open = false;
+
+      this.eventEmitter.emitEvent({
+        type: EventTypes.STREAM_DISCONNECTED,
+        timestamp: new Date(),
+        userId: connection.userId,
+        telegramId: connection.telegramId
+      });
+
+      if (connection.stopped) return;
+
+      // Exponential backoff so an exchange outage doesn't turn into a reconnect storm
+      const delay = Math.min(1000 * 2 ** connection.reconnectAttempts, this.options.maxReconnectDelayMs);
+      connection.reconnectAttempts++;
+      console.warn(`[UserDataStream] Disconnected for user ${connection.userId}, reconnecting in ${delay}ms`);
+      connection.reconnectTimer = setTimeout(() => this.connect(connection), delay);
+    };
+  }
+
+  private async keepAlive(connection: StreamConnection): Promise<void> {
+    if (connection.stopped) return;
+    await connection.client.keepAliveListenKey();
+  }
+
+  private teardown(connection: StreamConnection): void {
+    connection.stopped = true;
+
+    if (connection.keepAliveTimer) clearInterval(connection.keepAliveTimer);
+    if (connection.reconnectTimer) clearTimeout(connection.reconnectTimer);
+
+    const socket = connection.socket;
+    connection.socket = null;
+    connection.open = false;
+    socket?.close();
+  }
+}
@@ -0,0 +1,77 @@
+import { DatabaseManager } from '../db';
+
+export interface Watchlist {
+  symbols: string[];
+  // False while the user still sees the default list
+  isCustom: boolean;
+}
+
+export class WatchlistService {
+  static readonly DEFAULT_SYMBOLS = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'XRPUSDT', 'ASTERUSDT'];
+  static readonly MAX_SYMBOLS = 20;
+
+  private db: DatabaseManager;
+
+  constructor(db: DatabaseManager) {
+    this.db = db;
+  }
+
+  /**
+   * Get the user's watchlist, falling back to the defaults until they customize it.
+   * A customized list may be empty.
+   */
+  async getWatchlist(userId: number): Promise<Watchlist> {
+    const { symbols, customized } = await this.db.getWatchlist(userId);
+
+    if (!customized) {
+      return { symbols: [...WatchlistService.DEFAULT_SYMBOLS], isCustom: false };
+    }
+
+    return { symbols, isCustom: true };
+  }
+
+  async contains(userId: number, symbol: string): Promise<boolean> {
+    const { symbols } = await this.getWatchlist(userId);
+    return symbols.includes(symbol);
+  }
+
+  /**
+   * Add the symbol if missing, otherwise remove it. Resolves true when it was added.
+   */
+  async toggle(userId: number, symbol: string): Promise<boolean> {
+    const { symbols } = await this.getWatchlist(userId);
+
+    if (symbols.includes(symbol)) {
+      await this.db.replaceWatchlist(userId, symbols.filter(s => s !== symbol));
+      return false;
+    }
+
+    if (symbols.length >= WatchlistService.MAX_SYMBOLS) {
+      throw new Error(`Your watchlist is full (${WatchlistService.MAX_SYMBOLS} symbols). Remove one first.`);
+    }
+
+    await this.db.replaceWatchlist(userId, [...symbols, symbol]);
+    return true;
+  }
+
+  async remove(userId: number, symbol: string): Promise<void> {
+    const { symbols } = await this.getWatchlist(userId);
+    await this.db.replaceWatchlist(userId, symbols.filter(s => s !== symbol));
+  }
+
+  /**
+   * Move a symbol one place up or down
+   */
+  async move(userId: number, symbol: string, direction: 'up' | 'down'): Promise<void> {
+    const { symbols } = await this.getWatchlist(userId);
+    const index = symbols.indexOf(symbol);
+    const target = direction === 'up' ? index - 1 : index + 1;
+
+    if (index === -1 || target < 0 || target >= symbols.length) {
+      return;
+    }
+
+    [symbols[index], symbols[target]] = [symbols[target], symbols[index]];
+    await this.db.replaceWatchlist(userId, symbols);
+  }
+}
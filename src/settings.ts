@@ -10,6 +10,8 @@ export interface SettingsUpdateRequest {
   tp_presets?: number[];
   sl_presets?: number[];
   daily_loss_cap?: number | null;
+  pin_order_threshold?: number | null;
+  margin_alert_levels?: number[];
 }
 
 export interface SettingsValidationResult {
@@ -31,6 +33,8 @@ export class SettingsManager {
     tp_presets: [2, 4, 8], // 2%, 4%, 8%
     sl_presets: [1, 2], // 1%, 2%
     daily_loss_cap: null,
+    pin_order_threshold: 1000,
+    margin_alert_levels: [], // Off until the user picks levels
     pin_hash: null,
   };
 
@@ -42,8 +46,21 @@ export class SettingsManager {
     tp_presets: { min: 0.1, max: 100, maxItems: 10 }, // 0.1% to 100%
     sl_presets: { min: 0.1, max: 50, maxItems: 10 }, // 0.1% to 50%
     daily_loss_cap: { min: 1, max: 100000 },
+    pin_order_threshold: { min: 10, max: 1000000 },
+    margin_alert_levels: { min: 10, max: 99, maxItems: 5 }, // Margin ratio 10% to 99%
   };
 
+  // Size preset profiles offered in the settings menu
+  static readonly SIZE_PRESET_PROFILES = {
+    conservative: [10, 25, 50],
+    moderate: [25, 50, 100],
+    aggressive: [100, 250, 500],
+  };
+
+  // Failed PIN entries allowed before PIN entry is locked
+  static readonly MAX_PIN_ATTEMPTS = 5;
+  static readonly PIN_LOCKOUT_MINUTES = 15;
+
   constructor(db: DatabaseManager, encryption: EncryptionManager) {
     this.db = db;
     this.encryption = encryption;
@@ -87,8 +104,28 @@ export class SettingsManager {
     }
 
     try {
+      // One of the two leverage fields may change without the other, so check them merged
+      const sanitized = validation.sanitized!;
+      if (sanitized.leverage_cap !== undefined || sanitized.default_leverage !== undefined) {
+        const current = await this.getUserSettings(userId);
+        const leverageCap = sanitized.leverage_cap ?? current.leverage_cap;
+        const defaultLeverage = sanitized.default_leverage ?? current.default_leverage;
+
+        if (defaultLeverage > leverageCap) {
+          if (sanitized.default_leverage !== undefined) {
+            return {
+              success: false,
+              errors: [`Default leverage cannot exceed your leverage cap of ${leverageCap}x`],
+              warnings: validation.warnings,
+            };
+          }
+          sanitized.default_leverage = leverageCap;
+          validation.warnings.push(`Default leverage lowered to ${leverageCap}x to fit the new cap`);
+        }
+      }
+
       // Apply sanitized updates
-      await this.db.updateUserSettings(userId, validation.sanitized!);
+      await this.db.updateUserSettings(userId, sanitized);
       
       return {
         success: true,
@@ -144,15 +181,20 @@ export class SettingsManager {
         if (updates.size_presets.length > maxItems) {
           errors.push(`Maximum ${maxItems} size presets allowed`);
         } else {
+          // Whole USDT only, since presets are carried in button callbacks
           const validPresets = updates.size_presets
-            .filter(preset => typeof preset === 'number' && preset >= min && preset <= max)
+            .filter(preset => Number.isInteger(preset) && preset >= min && preset <= max)
             .sort((a, b) => a - b);
           
           if (validPresets.length !== updates.size_presets.length) {
-            warnings.push(`Some size presets were filtered out (must be ${min}-${max})`);
+            warnings.push(`Some size presets were filtered out (must be whole numbers ${min}-${max})`);
           }
           
-          sanitized.size_presets = validPresets;
+          if (validPresets.length === 0) {
+            errors.push('At least one valid size preset is required');
+          } else {
+            sanitized.size_presets = validPresets;
+          }
         }
       }
     }
@@ -188,7 +230,11 @@ export class SettingsManager {
             warnings.push(`Some TP presets were filtered out (must be ${min}%-${max}%)`);
           }
           
-          sanitized.tp_presets = validPresets;
+          if (validPresets.length === 0) {
+            errors.push('At least one valid take profit preset is required');
+          } else {
+            sanitized.tp_presets = validPresets;
+          }
         }
       }
     }
@@ -211,7 +257,11 @@ export class SettingsManager {
             warnings.push(`Some SL presets were filtered out (must be ${min}%-${max}%)`);
           }
           
-          sanitized.sl_presets = validPresets;
+          if (validPresets.length === 0) {
+            errors.push('At least one valid stop loss preset is required');
+          } else {
+            sanitized.sl_presets = validPresets;
+          }
         }
       }
     }
@@ -233,6 +283,43 @@ export class SettingsManager {
       }
     }
 
+    // Validate pin_order_threshold
+    if (updates.pin_order_threshold !== undefined) {
+      if (updates.pin_order_threshold === null) {
+        sanitized.pin_order_threshold = null;
+      } else {
+        const { min, max } = SettingsManager.VALIDATION_RULES.pin_order_threshold;
+        if (updates.pin_order_threshold < min || updates.pin_order_threshold > max) {
+          errors.push(`PIN order threshold must be between $${min} and $${max}`);
+        } else {
+          sanitized.pin_order_threshold = Math.round(updates.pin_order_threshold * 100) / 100;
+        }
+      }
+    }
+
+    // Validate margin_alert_levels
+    if (updates.margin_alert_levels !== undefined) {
+      if (!Array.isArray(updates.margin_alert_levels)) {
+        errors.push('Margin alert levels must be an array');
+      } else {
+        const { min, max, maxItems } = SettingsManager.VALIDATION_RULES.margin_alert_levels;
+        
+        if (updates.margin_alert_levels.length > maxItems) {
+          errors.push(`Maximum ${maxItems} margin alert levels allowed`);
+        } else {
+          const validLevels = updates.margin_alert_levels
+            .filter(level => typeof level === 'number' && level >= min && level <= max)
+            .map(level => Math.round(level));
+          
+          if (validLevels.length !== updates.margin_alert_levels.length) {
+            errors.push(`Margin alert levels must be between ${min}% and ${max}%`);
+          } else {
+            sanitized.margin_alert_levels = [...new Set(validLevels)].sort((a, b) => a - b);
+          }
+        }
+      }
+    }
+
     // Cross-validation
     if (sanitized.default_leverage && sanitized.leverage_cap) {
       if (sanitized.default_leverage > sanitized.leverage_cap) {
@@ -287,6 +374,71 @@ export class SettingsManager {
     }
   }
 
+  // Verify PIN, counting failures and locking entry after too many
+  async verifyPinWithLockout(
+    userId: number, 
+    pin: string
+  ): Promise<{ success: boolean; attemptsRemaining?: number; lockedUntil?: Date; error?: string }> {
+    try {
+      const attempts = await this.db.getPinAttempts(userId);
+      if (attempts.locked_until && new Date(attempts.locked_until) > new Date()) {
+        return {
+          success: false,
+          lockedUntil: new Date(attempts.locked_until),
+          error: 'PIN entry is locked after too many failed attempts',
+        };
+      }
+
+      if (await this.verifyPin(userId, pin)) {
+        await this.db.resetPinAttempts(userId);
+        return { success: true };
+      }
+
+      const updated = await this.db.recordFailedPinAttempt(
+        userId,
+        SettingsManager.MAX_PIN_ATTEMPTS,
+        SettingsManager.PIN_LOCKOUT_MINUTES
+      );
+
+      if (updated.locked_until && new Date(updated.locked_until) > new Date()) {
+        return {
+          success: false,
+          lockedUntil: new Date(updated.locked_until),
+          error: 'Too many failed attempts',
+        };
+      }
+
+      return {
+        success: false,
+        attemptsRemaining: Math.max(0, SettingsManager.MAX_PIN_ATTEMPTS - updated.failed_attempts),
+        error: 'Incorrect PIN',
+      };
+    } catch (error) {
+      console.error('PIN verification error:', error);
+      return {
+        success: false,
+        error: 'Failed to verify PIN. Please try again.',
+      };
+    }
+  }
+
+  // Get the time PIN entry unlocks, if it is currently locked
+  async getPinLockout(userId: number): Promise<Date | null> {
+    const attempts = await this.db.getPinAttempts(userId);
+    if (attempts.locked_until && new Date(attempts.locked_until) > new Date()) {
+      return new Date(attempts.locked_until);
+    }
+    return null;
+  }
+
+  // Check whether an order of this notional needs the PIN
+  requiresPinForOrder(settings: UserSettings, notional: number): boolean {
+    if (!settings.pin_hash || settings.pin_order_threshold === null || settings.pin_order_threshold === undefined) {
+      return false;
+    }
+    return notional >= parseFloat(String(settings.pin_order_threshold));
+  }
+
   // Check if user has PIN set
   async hasPinSet(userId: number): Promise<boolean> {
     try {
@@ -298,6 +450,20 @@ export class SettingsManager {
     }
   }
 
+  // Remove the PIN once the caller has verified it
+  async clearPin(userId: number): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.db.updateUserSettings(userId, { pin_hash: null });
+      return { success: true };
+    } catch (error) {
+      console.error('Failed to clear PIN:', error);
+      return {
+        success: false,
+        error: 'Failed to remove PIN. Please try again.',
+      };
+    }
+  }
+
   // Remove user PIN
   async removePin(userId: number, currentPin: string): Promise<{ success: boolean; error?: string }> {
     const isValid = await this.verifyPin(userId, currentPin);
@@ -355,8 +521,12 @@ export class SettingsManager {
       lines.push(`• ${sl}%`);
     });
     
+    lines.push(`\n⚠️ **Margin Alerts**`);
+    lines.push(`• ${settings.margin_alert_levels.length > 0 ? `At margin ratio ${settings.margin_alert_levels.join('%, ')}%` : 'Disabled'}`);
+    
     lines.push(`\n🔐 **Security**`);
     lines.push(`• PIN Protection: ${settings.pin_hash ? 'Enabled' : 'Disabled'}`);
+    lines.push(`• PIN Required Above: ${settings.pin_order_threshold !== null ? `$${settings.pin_order_threshold}` : 'Never'}`);
     
     return lines.join('\n');
   }
@@ -393,6 +563,26 @@ export class SettingsManager {
     }
   }
 
+  // Reset slippage, daily loss cap and TP/SL presets
+  async resetRiskSettings(userId: number): Promise<{ success: boolean; errors: string[]; warnings: string[] }> {
+    const { slippage_bps, daily_loss_cap, tp_presets, sl_presets } = SettingsManager.DEFAULT_SETTINGS;
+    return this.updateSettings(userId, { slippage_bps, daily_loss_cap, tp_presets, sl_presets });
+  }
+
+  // Reset the PIN order threshold, keeping the PIN itself
+  async resetSecuritySettings(userId: number): Promise<{ success: boolean; errors: string[]; warnings: string[] }> {
+    return this.updateSettings(userId, { pin_order_threshold: SettingsManager.DEFAULT_SETTINGS.pin_order_threshold });
+  }
+
+  // Parse a typed preset list such as "25, 50, 100"
+  static parsePresetList(text: string): number[] | null {
+    const parts = text.split(/[\s,]+/).map(part => part.replace(/[$%u]/gi, '')).filter(Boolean);
+    if (parts.length === 0) return null;
+
+    const values = parts.map(part => Number(part));
+    return values.every(value => Number.isFinite(value)) ? values : null;
+  }
+
   // Merge settings with defaults (handle missing fields)
   private mergeWithDefaults(settings: UserSettings): UserSettings {
     return {
@@ -404,6 +594,10 @@ export class SettingsManager {
       tp_presets: settings.tp_presets ?? SettingsManager.DEFAULT_SETTINGS.tp_presets,
       sl_presets: settings.sl_presets ?? SettingsManager.DEFAULT_SETTINGS.sl_presets,
       daily_loss_cap: settings.daily_loss_cap ?? SettingsManager.DEFAULT_SETTINGS.daily_loss_cap,
+      pin_order_threshold: settings.pin_order_threshold === undefined
+        ? SettingsManager.DEFAULT_SETTINGS.pin_order_threshold
+        : settings.pin_order_threshold,
+      margin_alert_levels: settings.margin_alert_levels ?? SettingsManager.DEFAULT_SETTINGS.margin_alert_levels,
       pin_hash: settings.pin_hash ?? SettingsManager.DEFAULT_SETTINGS.pin_hash,
     };
   }
@@ -426,6 +620,8 @@ export class SettingsManager {
       tp_presets: settings.tp_presets,
       sl_presets: settings.sl_presets,
       daily_loss_cap: settings.daily_loss_cap,
+      pin_order_threshold: settings.pin_order_threshold,
+      margin_alert_levels: settings.margin_alert_levels,
       has_pin: !!settings.pin_hash,
     };
   }
@@ -444,6 +640,8 @@ export class SettingsManager {
         tp_presets: settingsData.tp_presets,
         sl_presets: settingsData.sl_presets,
         daily_loss_cap: settingsData.daily_loss_cap,
+        pin_order_threshold: settingsData.pin_order_threshold,
+        margin_alert_levels: settingsData.margin_alert_levels,
       };
 
       return await this.updateSettings(userId, updates);
@@ -1,4 +1,4 @@
-import { TradeCommand, TradePreview, TradeCommandSchema, UserSettings, OrderBookDepth } from './types';
+import { TradeCommand, TradePreview, TradeCommandSchema, UserSettings, OrderBookDepth, LadderSpec } from './types';
 import { FiltersManager } from './filters';
 import { PriceProtectionManager } from './priceguard';
 import { PriceUtils } from './filters';
@@ -53,6 +53,10 @@ export class TradeParser {
     /trail=(\d+(?:\.\d+)?)%?/i,
   ];
 
+  // ladder 3 from 3200 to 3000 [linear|geometric] [equal|pyramid|front]
+  private static readonly LADDER_PATTERN =
+    /\bladder\s+(\d+)\s+from\s+(\d+(?:\.\d+)?)\s+to\s+(\d+(?:\.\d+)?)(?:\s+(linear|lin|geometric|geo))?(?:\s+(equal|pyramid|front))?/i;
+
   private static readonly ORDER_TYPE_PATTERNS = [
     /\b(market|mkt|m)\b/i,
     /\b(limit|lmt|l)\b/i,
@@ -84,8 +88,20 @@ export class TradeParser {
         };
       }
 
+      // Pull the ladder clause out first so its prices are not read as size or symbol
+      const ladderMatch = input.match(this.LADDER_PATTERN);
+      const ladder = ladderMatch ? this.extractLadder(ladderMatch) : undefined;
+      if (typeof ladder === 'string') {
+        return {
+          success: false,
+          errors: [ladder],
+          suggestions: ['Try: /buy ETHUSDT 500u ladder 3 from 3200 to 3000'],
+        };
+      }
+      const body = ladderMatch ? input.replace(this.LADDER_PATTERN, ' ') : input;
+
       // Extract symbol
-      const symbol = this.extractSymbol(input);
+      const symbol = this.extractSymbol(body);
       if (!symbol) {
         return {
           success: false,
@@ -95,7 +111,7 @@ export class TradeParser {
       }
 
       // Extract size and determine if it's base or quote
-      const sizeInfo = this.extractSize(input);
+      const sizeInfo = this.extractSize(body);
       if (!sizeInfo) {
         return {
           success: false,
@@ -105,12 +121,12 @@ export class TradeParser {
       }
 
       // Extract optional parameters
-      const leverage = this.extractLeverage(input);
-      const stopLoss = this.extractStopLoss(input);
-      const takeProfit = this.extractTakeProfit(input);
-      const trailing = this.extractTrailing(input);
-      const orderType = this.extractOrderType(input);
-      const reduceOnly = this.extractReduceOnly(input);
+      const leverage = this.extractLeverage(body);
+      const stopLoss = this.extractStopLoss(body);
+      const takeProfit = this.extractTakeProfit(body);
+      const trailing = this.extractTrailing(body);
+      const orderType = this.extractOrderType(body);
+      const reduceOnly = this.extractReduceOnly(body);
 
       const command: TradeCommand = {
         action,
@@ -122,6 +138,7 @@ export class TradeParser {
         stopLoss,
         takeProfit,
         trailing,
+        ladder,
         reduceOnly,
       };
 
@@ -289,6 +306,27 @@ export class TradeParser {
     return undefined;
   }
 
+  private static extractLadder(match: RegExpMatchArray): LadderSpec | string {
+    const count = parseInt(match[1], 10);
+    const from = parseFloat(match[2]);
+    const to = parseFloat(match[3]);
+
+    if (count < 2 || count > 10) {
+      return 'A ladder needs between 2 and 10 levels';
+    }
+    if (from <= 0 || to <= 0 || from === to) {
+      return 'Ladder prices must be positive and different';
+    }
+
+    return {
+      count,
+      from,
+      to,
+      spacing: match[4]?.toLowerCase().startsWith('geo') ? 'geometric' : 'linear',
+      weighting: (match[5]?.toLowerCase() as LadderSpec['weighting']) || 'equal',
+    };
+  }
+
   private static extractOrderType(input: string): 'MARKET' | 'LIMIT' | undefined {
     for (const pattern of this.ORDER_TYPE_PATTERNS) {
       const match = input.match(pattern);
@@ -321,6 +359,7 @@ export class TradeParser {
       '/buy SOLUSDT mkt 250u tp2%',
       '/sell ADAUSDT limit 1000u x2 sl2% tp5%',
       '/buy LINKUSDT 50u x10 trail1%',
+      '/buy ETHUSDT 500u x5 ladder 3 from 3200 to 3000',
     ];
   }
 
@@ -553,6 +592,10 @@ export class TradePreviewGenerator {
       lines.push(`• Take Profit: ${preview.command.takeProfit}% ($${tpPrice.toFixed(4)})`);
     }
 
+    if (preview.command.trailing) {
+      lines.push(`• Trailing Stop: ${preview.command.trailing}% from the best mark price`);
+    }
+
     if (preview.command.reduceOnly) {
       lines.push('• **Reduce Only**: This will only reduce your position');
     }
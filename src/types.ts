@@ -9,6 +9,7 @@ export interface User {
   referral_code: string | null;
   invited_by: number | null;
   is_group_admin: boolean;
+  paper_mode: boolean;
 }
 
 export interface ApiCredentials {
@@ -28,10 +29,14 @@ export interface UserSettings {
   tp_presets: number[];
   sl_presets: number[];
   daily_loss_cap: number | null;
+  pin_order_threshold: number | null;
+  margin_alert_levels: number[];
   pin_hash: string | null;
 }
 
 
+export type OrderPurpose = 'entry' | 'tp' | 'sl' | 'close' | 'sell';
+
 export interface Order {
   id?: number;
   user_id: number;
@@ -41,10 +46,215 @@ export interface Order {
   size: string;
   leverage: number;
   status: string;
-  tx: string | null;
+  tx: string | null; // exchange order ID
+  market?: 'spot' | 'perps';
+  order_type?: string | null;
+  purpose?: OrderPurpose | null;
+  price?: string | null;
+  filled_qty?: string | null;
+  paper?: boolean;
   created_at: Date;
 }
 
+export interface OrderHistoryFilters {
+  symbol?: string;
+  side?: 'BUY' | 'SELL';
+  market?: 'spot' | 'perps';
+  // Set from the user's current mode so paper and live history stay apart
+  paper?: boolean;
+}
+
+export type AlertMetric = 'price' | 'change_24h';
+export type AlertDirection = 'above' | 'below';
+export type AlertStatus = 'active' | 'paused' | 'triggered';
+
+export interface PriceAlert {
+  id: number;
+  user_id: number;
+  symbol: string;
+  metric: AlertMetric;
+  direction: AlertDirection;
+  threshold: string;
+  status: AlertStatus;
+  triggered_at: Date | null;
+  created_at: Date;
+}
+
+export type TrailingStopStatus = 'active' | 'closed' | 'cancelled';
+
+// Trailing stop run by the bot for symbols without native TRAILING_STOP_MARKET support
+export interface TrailingStop {
+  id: number;
+  user_id: number;
+  symbol: string;
+  position_side: 'LONG' | 'SHORT';
+  callback_rate: string;
+  best_price: string;
+  stop_price: string;
+  stop_order_id: string | null;
+  // Placed on the paper simulator rather than the live exchange
+  paper: boolean;
+  status: TrailingStopStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type BracketStatus = 'active' | 'closed' | 'cancelled';
+
+// Linked TP/SL pair for one position; when one leg fills the other is cancelled
+export interface OrderBracket {
+  id: number;
+  user_id: number;
+  symbol: string;
+  position_side: 'LONG' | 'SHORT';
+  tp_order_id: string | null;
+  sl_order_id: string | null;
+  paper: boolean;
+  status: BracketStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type SpotExitStatus = 'active' | 'tp_filled' | 'sl_filled' | 'cancelled';
+
+// Take-profit and stop-loss sells protecting a spot buy
+export interface SpotExit {
+  id: number;
+  user_id: number;
+  symbol: string;
+  quantity: string;
+  entry_price: string;
+  tp_price: string | null;
+  tp_order_id: string | null;
+  sl_price: string | null;
+  // 'exchange' rests a STOP_LOSS_LIMIT order; 'monitored' is watched by the bot and sold at market
+  sl_mode: 'exchange' | 'monitored' | null;
+  sl_order_id: string | null;
+  paper: boolean;
+  status: SpotExitStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type TpLadderStatus = 'active' | 'closed' | 'cancelled';
+export type TpLadderRungStatus = 'open' | 'filled' | 'cancelled';
+
+// Partial take-profits on one position, one reduce-only limit per rung
+export interface TpLadder {
+  id: number;
+  user_id: number;
+  symbol: string;
+  position_side: 'LONG' | 'SHORT';
+  entry_price: string;
+  paper: boolean;
+  status: TpLadderStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TpLadderRung {
+  id: number;
+  ladder_id: number;
+  rung_index: number;
+  // Distance from the entry price and share of the original position, both in percent
+  target_percent: string;
+  share_percent: string;
+  price: string;
+  quantity: string;
+  order_id: string | null;
+  status: TpLadderRungStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type PaperWallet = 'spot' | 'futures';
+export type PaperOrderStatus = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'EXPIRED';
+
+// Simulated balance; futures margin only holds USDT
+export interface PaperBalance {
+  user_id: number;
+  wallet: PaperWallet;
+  asset: string;
+  free: string;
+  locked: string;
+}
+
+// One-way futures position in the paper account, kept at zero size to remember the leverage
+export interface PaperPosition {
+  user_id: number;
+  symbol: string;
+  position_amt: string;
+  entry_price: string;
+  leverage: number;
+  last_funding_at: Date | null;
+  updated_at: Date;
+}
+
+export interface PaperOrder {
+  id: number;
+  user_id: number;
+  market: 'spot' | 'perps';
+  symbol: string;
+  client_order_id: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  // Type as placed; stop-limit orders become LIMIT once triggered
+  orig_type: string;
+  time_in_force: string | null;
+  price: string | null;
+  stop_price: string | null;
+  quantity: string;
+  quote_quantity: string | null;
+  executed_qty: string;
+  cum_quote: string;
+  reduce_only: boolean;
+  close_position: boolean;
+  callback_rate: string | null;
+  activation_price: string | null;
+  // Best price seen since a trailing stop activated
+  best_price: string | null;
+  status: PaperOrderStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PaperTrade {
+  id: number;
+  user_id: number;
+  market: 'spot' | 'perps';
+  symbol: string;
+  order_id: number;
+  side: 'BUY' | 'SELL';
+  price: string;
+  qty: string;
+  quote_qty: string;
+  commission: string;
+  commission_asset: string;
+  realized_pnl: string;
+  is_maker: boolean;
+  created_at: Date;
+}
+
+export interface PaperIncome {
+  id: number;
+  user_id: number;
+  symbol: string;
+  income_type: 'REALIZED_PNL' | 'COMMISSION' | 'FUNDING_FEE' | 'INSURANCE_CLEAR';
+  amount: string;
+  asset: string;
+  order_id: number | null;
+  created_at: Date;
+}
+
+// Everything one simulator step changed, written in a single transaction
+export interface PaperAccountChanges {
+  balances: Array<Pick<PaperBalance, 'wallet' | 'asset' | 'free' | 'locked'>>;
+  positions: Array<Pick<PaperPosition, 'symbol' | 'position_amt' | 'entry_price' | 'leverage' | 'last_funding_at'>>;
+  orders: PaperOrder[];
+  trades: Array<Omit<PaperTrade, 'id' | 'user_id' | 'created_at'>>;
+  income: Array<Omit<PaperIncome, 'id' | 'user_id' | 'created_at'>>;
+}
+
 // ========== Aster API Types ==========
 
 export const OrderSideSchema = z.enum(['BUY', 'SELL']);
@@ -148,6 +358,7 @@ export interface AccountInfo {
   totalOpenOrderInitialMargin: string;
   totalCrossWalletBalance: string;
   totalCrossUnPnl: string;
+  totalMaintMargin?: string;
   availableBalance: string;
   maxWithdrawAmount: string;
   assets: AssetInfo[];
@@ -169,6 +380,9 @@ export interface AssetInfo {
   maxWithdrawAmount: string;
 }
 
+// BOTH in one-way mode; hedge mode reports a LONG and a SHORT row per symbol
+export type PositionSide = 'BOTH' | 'LONG' | 'SHORT';
+
 export interface PositionInfo {
   symbol: string;
   initialMargin: string;
@@ -180,19 +394,36 @@ export interface PositionInfo {
   isolated: boolean;
   entryPrice: string;
   maxNotional: string;
-  positionSide: string;
+  positionSide: PositionSide;
   positionAmt: string;
   notional: string;
   isolatedWallet: string;
   updateTime: number;
   bidNotional: string;
   askNotional: string;
+  // Only returned by positionRisk
+  markPrice?: string;
+  liquidationPrice?: string;
+}
+
+export interface LeverageBracket {
+  bracket: number;
+  initialLeverage: number;
+  notionalCap: number;
+  notionalFloor: number;
+  maintMarginRatio: number;
+  cum: number;
+}
+
+export interface SymbolLeverageBrackets {
+  symbol: string;
+  brackets: LeverageBracket[];
 }
 
 export interface NewOrderRequest {
   symbol: string;
   side: 'BUY' | 'SELL';
-  type: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_MARKET' | 'TAKE_PROFIT' | 'TAKE_PROFIT_MARKET';
+  type: 'MARKET' | 'LIMIT' | 'STOP' | 'STOP_MARKET' | 'TAKE_PROFIT' | 'TAKE_PROFIT_MARKET' | 'TRAILING_STOP_MARKET';
   quantity?: string;
   quoteOrderQty?: string;
   price?: string;
@@ -202,6 +433,8 @@ export interface NewOrderRequest {
   callbackRate?: string;
   timeInForce?: 'GTC' | 'IOC' | 'FOK' | 'GTX';
   reduceOnly?: boolean;
+  // Required in hedge mode, where reduceOnly is rejected and the leg decides open vs close
+  positionSide?: PositionSide;
   newClientOrderId?: string;
   workingType?: 'MARK_PRICE' | 'CONTRACT_PRICE';
   priceProtect?: boolean;
@@ -347,6 +580,7 @@ export interface TradeCommand {
   stopLoss?: string;
   takeProfit?: string;
   trailing?: string;
+  ladder?: LadderSpec;
   reduceOnly?: boolean;
 }
 
@@ -361,6 +595,13 @@ export const TradeCommandSchema = z.object({
   stopLoss: z.string().optional(),
   takeProfit: z.string().optional(),
   trailing: z.string().optional(),
+  ladder: z.object({
+    count: z.number().int().min(2).max(10),
+    from: z.number().positive(),
+    to: z.number().positive(),
+    spacing: z.enum(['linear', 'geometric']),
+    weighting: z.enum(['equal', 'pyramid', 'front']),
+  }).optional(),
   reduceOnly: z.boolean().optional(),
 });
 
@@ -376,14 +617,122 @@ export interface TradePreview {
   priceImpact?: string;
   slippageWarning?: boolean;
   maxSlippageExceeded?: boolean;
+  // Set once the preview is shown; its order's client ID is derived from it
+  nonce?: string;
+}
+
+// Market order parked while the user confirms a price protection warning.
+// clientOrderId is the ID derived for the original tap, reused when the order resumes.
+export type PendingMarketOrder =
+  | { kind: 'spot_execute'; symbol: string; side: 'BUY' | 'SELL'; amount: number; tpValue?: number | null; slValue?: number | null; clientOrderId?: string }
+  | { kind: 'perps_execute'; symbol: string; side: 'BUY' | 'SELL'; amount: number; leverage: number; tpValue?: number | null; slValue?: number | null; clientOrderId?: string }
+  | { kind: 'spot_sale'; asset: string; percentage: number; clientOrderId?: string }
+  | { kind: 'spot_direct_sell'; symbol: string; amount: number; amountType: string; clientOrderId?: string }
+  | { kind: 'command_trade'; preview: TradePreview }
+  | { kind: 'position_close'; symbol: string; percentage: number; positionSide?: 'LONG' | 'SHORT'; clientOrderId?: string };
+
+export type LimitTimeInForce = 'GTC' | 'IOC' | 'FOK' | 'GTX';
+
+// Limit order being built through the button flow; price and amount fill in step by step
+export interface LimitOrderDraft {
+  market: 'spot' | 'perps';
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  leverage?: number;
+  marginMode?: 'cross' | 'isolated';
+  price?: string;
+  // USDT notional, converted to base quantity at the limit price
+  quoteAmount?: number;
+  quantity?: string;
+  timeInForce: LimitTimeInForce;
+  // Set on the confirmation screen; the order's client ID is derived from it
+  nonce?: string;
+}
+
+export type LadderSpacing = 'linear' | 'geometric';
+
+// equal: same size per level, pyramid: larger towards the far end, front: larger at the first level
+export type LadderWeighting = 'equal' | 'pyramid' | 'front';
+
+export interface LadderSpec {
+  count: number;
+  // First and last level prices; levels are spread between them inclusive
+  from: number;
+  to: number;
+  spacing: LadderSpacing;
+  weighting: LadderWeighting;
+}
+
+// Scaled entry or take-profit being built from a trade command or the button flow
+export interface LadderDraft {
+  purpose: 'entry' | 'take_profit';
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  leverage?: number;
+  marginMode?: 'cross' | 'isolated';
+  // Entries are sized in USDT or base units, take-profits as a share of the open position
+  quoteAmount?: number;
+  baseQuantity?: string;
+  closePercent?: number;
+  count: number;
+  from?: number;
+  to?: number;
+  spacing: LadderSpacing;
+  weighting: LadderWeighting;
+  // Set on the confirmation screen; the ladder's client order IDs are derived from it
+  nonce?: string;
+}
+
+// Perps entry sized from a max loss and stop distance instead of a fixed amount
+export interface RiskSizingDraft {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  // Leverage picked earlier in the flow; raised if the position needs more margin than is free
+  leverage: number;
+  marginMode: 'cross' | 'isolated';
+  maxLoss?: { type: 'percent' | 'usdt'; value: number };
+  stopPercent?: number;
+}
+
+// Global kill switch state, set by admins with /panic
+export interface TradingHaltState {
+  halted: boolean;
+  reason: string | null;
+  since: string | null;
+  by: number | null;
 }
 
+export type PanicMode = 'halt' | 'flatten' | 'resume';
+
+// Isolated margin change waiting for an amount or confirmation
+export interface PendingMarginAdjust {
+  symbol: string;
+  positionSide?: 'LONG' | 'SHORT';
+  marginType: 'add' | 'reduce';
+  amount?: number;
+}
+
+// Sensitive action parked until the user enters their PIN
+export type PendingPinAction =
+  | { kind: 'unlink' }
+  | { kind: 'close_all' }
+  | { kind: 'export_settings' }
+  | { kind: 'market_order'; order: PendingMarketOrder }
+  | { kind: 'command_trade'; preview: TradePreview }
+  | { kind: 'limit_order'; order: LimitOrderDraft }
+  | { kind: 'ladder_order'; draft: LadderDraft }
+  | { kind: 'change_pin' }
+  | { kind: 'disable_pin' }
+  | { kind: 'reset_security' };
+
 // ========== Bot State Types ==========
 
 export interface UserState {
   userId: number;
   telegramId: number;
   isLinked: boolean;
+  // Trading goes to the simulated exchange; isLinked is true even without API keys
+  isPaper?: boolean;
   settings: UserSettings;
   currentCommand?: string;
   pendingTrade?: TradePreview;
@@ -394,15 +743,26 @@ export interface UserState {
     isBlocked: boolean;
   };
   conversationState?: {
-    step: 'waiting_api_key' | 'waiting_api_secret' | 'waiting_pin' | 'confirming_unlink' | 'price' | 'amount' | 'waiting_custom_pair' | 'waiting_custom_amount' | 'waiting_referral_code';
+    step: 'waiting_api_key' | 'waiting_api_secret' | 'waiting_pin' | 'confirming_unlink' | 'price' | 'amount' | 'waiting_custom_pair' | 'waiting_custom_amount' | 'waiting_referral_code' | 'confirming_trade' | 'confirming_market_order' | 'confirming_panic' | 'waiting_limit_price' | 'waiting_limit_amount' | 'confirming_limit_order' | 'waiting_amend_price' | 'waiting_ladder_range' | 'waiting_ladder_amount' | 'confirming_ladder' | 'waiting_risk_loss' | 'waiting_risk_stop' | 'confirming_risk_order' | 'waiting_margin_amount' | 'confirming_margin' | 'waiting_settings_presets' | 'waiting_new_pin';
     data?: {
       apiKey?: string;
       pendingAction?: 'link' | 'unlink';
       tradingType?: 'spot' | 'perps';
       action?: string;
       symbol?: string;
+      positionSide?: 'LONG' | 'SHORT';
       mode?: 'spot' | 'perps';
       side?: 'BUY' | 'SELL';
+      pendingTrade?: TradePreview;
+      pendingOrder?: PendingMarketOrder;
+      pendingPinAction?: PendingPinAction;
+      panic?: { mode: PanicMode; reason: string | null; armed: boolean };
+      limitOrder?: LimitOrderDraft;
+      ladder?: LadderDraft;
+      riskSizing?: RiskSizingDraft;
+      marginAdjust?: PendingMarginAdjust;
+      settingsField?: 'size_presets' | 'tp_presets' | 'sl_presets';
+      amendOrder?: { market: 'spot' | 'perps'; symbol: string; orderId: number };
     };
     type?: 'expecting_stop_loss' | 'expecting_take_profit' | 'expecting_margin';
     symbol?: string;
@@ -439,9 +799,11 @@ export interface BotConfig {
   telegram: {
     token: string;
     adminIds: number[];
+    apiRoot?: string;
   };
   aster: {
     baseUrl: string;
+    wsUrl: string;
     defaultRecvWindow: number;
     maxLeverage: number;
   };
@@ -472,9 +834,12 @@ export const BotConfigSchema = z.object({
   telegram: z.object({
     token: z.string(),
     adminIds: z.array(z.number()),
+    // Bot API host override, only set when running against a local stand-in
+    apiRoot: z.string().url().optional(),
   }),
   aster: z.object({
     baseUrl: z.string().url(),
+    wsUrl: z.string().url().default('wss://fstream.asterdex.com'),
     defaultRecvWindow: z.number().default(5000),
     maxLeverage: z.number().default(20),
   }),
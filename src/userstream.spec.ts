@@ -0,0 +1,160 @@
+import { BotEventEmitter, EventTypes } from './events/EventEmitter';
+import { StreamSocket, UserDataStreamService } from './services/UserDataStreamService';
+import { ApiClientService } from './services/ApiClientService';
+import { DatabaseManager } from './db';
+
+/**
+ * Local stand-in for the exchange WebSocket, driven directly by the tests
+ */
+class FakeSocket implements StreamSocket {
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  closed = false;
+
+  constructor(public url: string) {}
+
+  open(): void {
+    this.onopen?.();
+  }
+
+  push(payload: object): void {
+    this.onmessage?.({ data: JSON.stringify(payload) });
+  }
+
+  drop(): void {
+    this.onclose?.();
+  }
+
+  close(): void {
+    this.closed = true;
+    this.onclose?.();
+  }
+}
+
+class FakeListenKeyClient {
+  created = 0;
+  closed = 0;
+
+  async createListenKey(): Promise<string> {
+    this.created++;
+    return `listen-key-${this.created}`;
+  }
+
+  async keepAliveListenKey(): Promise<void> {}
+
+  async closeListenKey(): Promise<void> {
+    this.closed++;
+  }
+}
+
+function orderUpdate(overrides: Record<string, unknown>): object {
+  return {
+    e: 'ORDER_TRADE_UPDATE',
+    E: Date.now(),
+    T: Date.now(),
+    o: {
+      s: 'BTCUSDT', c: 'web_123', S: 'SELL', o: 'LIMIT', f: 'GTC', q: '0.01', p: '50000', ap: '50000',
+      sp: '0', x: 'TRADE', X: 'FILLED', i: 1, l: '0.01', z: '0.01', L: '50000', N: 'USDT', n: '0.1',
+      T: Date.now(), t: 1, b: '0', a: '0', m: false, R: false, wt: 'CONTRACT_PRICE', ot: 'LIMIT',
+      ps: 'BOTH', cp: false, AP: '0', cr: '0', rp: '12.5',
+      ...overrides
+    }
+  };
+}
+
+class UserDataStreamValidator {
+  private results: Array<{ test: string; status: 'PASS' | 'FAIL'; message: string }> = [];
+  private sockets: FakeSocket[] = [];
+  private client = new FakeListenKeyClient();
+  private eventEmitter = new BotEventEmitter();
+  private received: string[] = [];
+  private service: UserDataStreamService;
+
+  constructor() {
+    const apiClientService = { getOrCreateClient: async () => this.client } as unknown as ApiClientService;
+
+    this.service = new UserDataStreamService({} as DatabaseManager, apiClientService, this.eventEmitter, {
+      wsUrl: 'ws://localhost:0/',
+      socketFactory: (url) => {
+        const socket = new FakeSocket(url);
+        this.sockets.push(socket);
+        return socket;
+      },
+      maxReconnectDelayMs: 10
+    });
+
+    for (const type of Object.values(EventTypes).filter(type => type.startsWith('stream.'))) {
+      this.eventEmitter.onEvent(type, () => { this.received.push(type); });
+    }
+  }
+
+  private log(test: string, passed: boolean, message: string): void {
+    this.results.push({ test, status: passed ? 'PASS' : 'FAIL', message });
+    console.log(`${passed ? '✅' : '❌'} ${test}: ${message}`);
+  }
+
+  private lastSocket(): FakeSocket {
+    return this.sockets[this.sockets.length - 1];
+  }
+
+  async runAll(): Promise<boolean> {
+    console.log('🧪 User Data Stream Tests\n');
+
+    await this.service.start(1, 1001);
+    this.log('Connects with listen key', this.lastSocket().url === 'ws://localhost:0/ws/listen-key-1', this.lastSocket().url);
+
+    this.lastSocket().open();
+    this.log('Reports connected', this.service.isConnected(1), `connected=${this.service.isConnected(1)}`);
+
+    this.received = [];
+    this.lastSocket().push(orderUpdate({}));
+    this.log('Limit fill', this.received.join(',') === 'stream.order.updated,stream.order.filled', this.received.join(','));
+
+    this.received = [];
+    this.lastSocket().push(orderUpdate({ X: 'PARTIALLY_FILLED' }));
+    this.log('Partial fill only updates', this.received.join(',') === 'stream.order.updated', this.received.join(','));
+
+    this.received = [];
+    this.lastSocket().push(orderUpdate({ o: 'MARKET', ot: 'STOP_MARKET', sp: '49000', rp: '-20' }));
+    this.log('Stop loss trigger', this.received.includes('stream.order.protective_triggered'), this.received.join(','));
+
+    this.received = [];
+    this.lastSocket().push(orderUpdate({ o: 'LIQUIDATION', c: 'autoclose-1', ot: 'LIQUIDATION' }));
+    this.log('Liquidation', this.received.includes('stream.position.liquidated'), this.received.join(','));
+
+    this.received = [];
+    this.lastSocket().push({ e: 'ACCOUNT_UPDATE', E: Date.now(), T: Date.now(), a: { m: 'ORDER', B: [], P: [] } });
+    this.log('Account update', this.received.join(',') === 'stream.account.updated', this.received.join(','));
+
+    this.received = [];
+    this.lastSocket().onmessage?.({ data: 'not json' });
+    this.log('Ignores malformed messages', this.received.length === 0, `${this.received.length} events`);
+
+    const socketsBefore = this.sockets.length;
+    this.lastSocket().drop();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    this.log('Reconnects after drop', this.sockets.length === socketsBefore + 1, `${this.sockets.length - socketsBefore} new socket(s)`);
+
+    await this.service.stop(1);
+    this.log('Stop closes socket and listen key', this.lastSocket().closed && this.client.closed === 1, `closed=${this.client.closed}`);
+
+    const passed = this.results.filter(r => r.status === 'PASS').length;
+    console.log(`\n🎯 ${passed}/${this.results.length} passed`);
+    return passed === this.results.length;
+  }
+}
+
+// Main execution
+async function main() {
+  const validator = new UserDataStreamValidator();
+  const allPassed = await validator.runAll();
+  process.exitCode = allPassed ? 0 : 1;
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export { UserDataStreamValidator };
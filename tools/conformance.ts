@@ -4,6 +4,7 @@ import axios, { AxiosInstance } from 'axios';
 import { AsterSigner } from '../src/signing';
 import crypto from 'crypto';
 import fs from 'fs';
+import { FakeAsterServer } from './fake_aster';
 
 interface ConformanceConfig {
   baseUrl: string;
@@ -343,6 +344,7 @@ class AsterConformanceTest {
       rateLimitHeaders: this.rateLimitHeaders
     };
 
+    fs.mkdirSync('artifacts', { recursive: true });
     const reportPath = 'artifacts/conformance_run.log';
     fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
     console.log(`\n💾 Detailed report saved to: ${reportPath}`);
@@ -358,13 +360,27 @@ async function main() {
     mockMode: process.env.MOCK === 'true'
   };
 
+  // FAKE=true runs the live checks against the local exchange stand-in with throwaway keys
+  const fake = process.env.FAKE === 'true' ? new FakeAsterServer() : null;
+  if (fake) {
+    config.apiKey = crypto.randomBytes(32).toString('hex');
+    config.apiSecret = crypto.randomBytes(32).toString('hex');
+    config.mockMode = false;
+    fake.addAccount({ apiKey: config.apiKey, apiSecret: config.apiSecret });
+    config.baseUrl = fake.start().baseUrl;
+  }
+
   console.log('🔧 Configuration:');
   console.log(`  Base URL: ${config.baseUrl}`);
   console.log(`  Mock Mode: ${config.mockMode}`);
   console.log(`  Has Credentials: ${!!(config.apiKey && config.apiSecret)}`);
 
   const tester = new AsterConformanceTest(config);
-  await tester.runAll();
+  try {
+    await tester.runAll();
+  } finally {
+    fake?.stop();
+  }
 }
 
 if (require.main === module) {
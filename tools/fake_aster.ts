@@ -0,0 +1,1869 @@
+#!/usr/bin/env ts-node
+
+import crypto from 'crypto';
+import { AsterSigner } from '../src/signing';
+import { PaperTradingService } from '../src/services/PaperTradingService';
+
+/**
+ * Local stand-in for the Aster futures (fapi) and spot (sapi) REST APIs plus the futures
+ * user data stream. Signed requests are checked the way the exchange checks them: the HMAC
+ * over the raw query/body up to `signature`, the API key header and the recvWindow. Orders
+ * go through the symbol filters, margin and balance checks, and fill against a synthetic
+ * book built around each symbol's price, so the bot can be driven end to end offline.
+ *
+ * Run standalone with `bun run tools/fake_aster.ts [scenario]`, or start it in-process
+ * from a harness such as tools/e2e.ts.
+ */
+
+// Minimal shape of the Bun server APIs used here; the tools are not part of the tsc build
+declare const Bun: {
+  serve(options: {
+    port: number;
+    hostname?: string;
+    fetch(request: Request, server: BunServer): Response | Promise<Response> | undefined;
+    websocket: {
+      open(ws: StreamClient): void;
+      message(ws: StreamClient, message: string): void;
+      close(ws: StreamClient): void;
+    };
+  }): BunServer;
+};
+
+interface BunServer {
+  port: number;
+  upgrade(request: Request, options: { data: { listenKey: string } }): boolean;
+  stop(closeActiveConnections?: boolean): void;
+}
+
+interface StreamClient {
+  data: { listenKey: string };
+  send(message: string): void;
+  close(): void;
+}
+
+type Market = 'perps' | 'spot';
+type Side = 'BUY' | 'SELL';
+type PositionSide = 'BOTH' | 'LONG' | 'SHORT';
+type Security = 'NONE' | 'USER_STREAM' | 'SIGNED';
+type Params = Record<string, string>;
+
+export interface FakeMarketSpec {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  price: number;
+  tickSize: string;
+  stepSize: string;
+  minQty?: string;
+  maxQty?: string;
+  minNotional?: number;
+  maxLeverage?: number;
+}
+
+export interface FakeAccountSpec {
+  apiKey: string;
+  apiSecret: string;
+  futuresUsdt?: number;
+  spotBalances?: Record<string, number>;
+  // Start in hedge mode, with separate LONG and SHORT legs per symbol
+  dualSidePosition?: boolean;
+}
+
+export interface FakeFault {
+  method: string;
+  path: string;
+  status: number;
+  code: number;
+  msg: string;
+  times?: number;
+}
+
+export type ScenarioStep =
+  | { kind: 'price'; symbol: string; price: number; market?: Market }
+  | { kind: 'fault'; fault: FakeFault }
+  | { kind: 'limits'; weightPerMinute?: number; ordersPer10s?: number; ordersPerMinute?: number }
+  | { kind: 'clock'; offsetMs: number }
+  | { kind: 'status'; symbol: string; status: 'TRADING' | 'BREAK'; market?: Market }
+  | { kind: 'wait'; ms: number };
+
+export interface FakeAsterScenario {
+  name: string;
+  description: string;
+  steps: ScenarioStep[];
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  params: Params;
+  status: number;
+  code?: number;
+  apiKey?: string;
+}
+
+interface FakeMarket extends Required<FakeMarketSpec> {
+  market: Market;
+  status: 'TRADING' | 'BREAK';
+  open: number;
+  high: number;
+  low: number;
+  volume: number;
+  quoteVolume: number;
+}
+
+interface FakeOrder {
+  orderId: number;
+  clientOrderId: string;
+  market: Market;
+  symbol: string;
+  side: Side;
+  type: string;
+  origType: string;
+  timeInForce: string;
+  price: number;
+  stopPrice: number;
+  origQty: number;
+  quoteOrderQty: number;
+  executedQty: number;
+  cumQuote: number;
+  reduceOnly: boolean;
+  closePosition: boolean;
+  positionSide: PositionSide;
+  workingType: string;
+  activationPrice: number;
+  callbackRate: number;
+  bestPrice: number;
+  status: 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELED' | 'EXPIRED';
+  time: number;
+  updateTime: number;
+}
+
+// SHORT legs hold a negative amount, as on the exchange
+interface FakePosition {
+  symbol: string;
+  side: PositionSide;
+  amt: number;
+  entry: number;
+  updateTime: number;
+}
+
+interface FakeAccount {
+  apiKey: string;
+  apiSecret: string;
+  wallet: number;
+  leverage: Map<string, number>;
+  dualSidePosition: boolean;
+  // Keyed by symbol and position side, see positionKey()
+  positions: Map<string, FakePosition>;
+  orders: FakeOrder[];
+  spot: Map<string, { free: number; locked: number }>;
+  income: Array<{ symbol: string; incomeType: string; income: string; asset: string; info: string; time: number; tranId: number; tradeId: string }>;
+  trades: Array<{ market: Market; symbol: string; id: number; orderId: number; side: Side; price: number; qty: number; quoteQty: number; commission: number; commissionAsset: string; realizedPnl: number; maker: boolean; time: number }>;
+  listenKey: string | null;
+}
+
+interface Route {
+  weight: number | ((params: Params) => number);
+  security: Security;
+  isOrder?: boolean;
+  handle(params: Params, account: FakeAccount | null): unknown;
+}
+
+export class FakeExchangeError extends Error {
+  constructor(public status: number, public code: number, message: string) {
+    super(message);
+  }
+}
+
+const DEFAULT_LEVERAGE = 20;
+const TAKER_FEE = 0.0005;
+const MAKER_FEE = 0.0002;
+const SPOT_FEE = 0.001;
+const BOOK_LEVELS = 50;
+const LEVEL_NOTIONAL = 25000;
+const MAX_RECV_WINDOW = 60000;
+
+export const DEFAULT_MARKETS: { perps: FakeMarketSpec[]; spot: FakeMarketSpec[] } = {
+  perps: [
+    { symbol: 'BTCUSDT', baseAsset: 'BTC', quoteAsset: 'USDT', price: 67000, tickSize: '0.1', stepSize: '0.001', minQty: '0.001', maxQty: '1000', minNotional: 5, maxLeverage: 125 },
+    { symbol: 'ETHUSDT', baseAsset: 'ETH', quoteAsset: 'USDT', price: 3200, tickSize: '0.01', stepSize: '0.001', minQty: '0.001', maxQty: '10000', minNotional: 5, maxLeverage: 100 },
+    { symbol: 'SOLUSDT', baseAsset: 'SOL', quoteAsset: 'USDT', price: 150, tickSize: '0.01', stepSize: '0.01', minQty: '0.01', maxQty: '100000', minNotional: 5, maxLeverage: 50 }
+  ],
+  spot: [
+    { symbol: 'BTCUSDT', baseAsset: 'BTC', quoteAsset: 'USDT', price: 67000, tickSize: '0.01', stepSize: '0.00001', minQty: '0.00001', maxQty: '9000', minNotional: 5 },
+    { symbol: 'ETHUSDT', baseAsset: 'ETH', quoteAsset: 'USDT', price: 3200, tickSize: '0.01', stepSize: '0.0001', minQty: '0.0001', maxQty: '90000', minNotional: 5 },
+    { symbol: 'ASTERUSDT', baseAsset: 'ASTER', quoteAsset: 'USDT', price: 1.2, tickSize: '0.0001', stepSize: '0.01', minQty: '0.01', maxQty: '9000000', minNotional: 5 }
+  ]
+};
+
+export const SCENARIOS: Record<string, FakeAsterScenario> = {
+  calm: {
+    name: 'calm',
+    description: 'Prices drift a few ticks either way',
+    steps: [
+      { kind: 'wait', ms: 1000 },
+      { kind: 'price', symbol: 'ETHUSDT', price: 3204.5 },
+      { kind: 'wait', ms: 1000 },
+      { kind: 'price', symbol: 'ETHUSDT', price: 3198.2 }
+    ]
+  },
+  breakout: {
+    name: 'breakout',
+    description: 'ETH rallies 6% in three legs, through resting sells and take profits',
+    steps: [
+      { kind: 'price', symbol: 'ETHUSDT', price: 3264 },
+      { kind: 'wait', ms: 500 },
+      { kind: 'price', symbol: 'ETHUSDT', price: 3328 },
+      { kind: 'wait', ms: 500 },
+      { kind: 'price', symbol: 'ETHUSDT', price: 3392 }
+    ]
+  },
+  flush: {
+    name: 'flush',
+    description: 'ETH drops 15%, hitting stops and liquidating leveraged longs',
+    steps: [
+      { kind: 'price', symbol: 'ETHUSDT', price: 3040 },
+      { kind: 'wait', ms: 500 },
+      { kind: 'price', symbol: 'ETHUSDT', price: 2880 },
+      { kind: 'wait', ms: 500 },
+      { kind: 'price', symbol: 'ETHUSDT', price: 2720 }
+    ]
+  },
+  rejections: {
+    name: 'rejections',
+    description: 'The next futures order fails on margin, the one after on the recvWindow',
+    steps: [
+      { kind: 'fault', fault: { method: 'POST', path: '/fapi/v1/order', status: 400, code: -2019, msg: 'Margin is insufficient.' } },
+      { kind: 'fault', fault: { method: 'POST', path: '/fapi/v1/order', status: 400, code: -1021, msg: 'Timestamp for this request is outside of the recvWindow.' } }
+    ]
+  },
+  throttled: {
+    name: 'throttled',
+    description: 'Request weight is capped at 60 per minute and orders at 2 per 10 seconds',
+    steps: [{ kind: 'limits', weightPerMinute: 60, ordersPer10s: 2 }]
+  },
+  clock_skew: {
+    name: 'clock_skew',
+    description: 'The exchange clock runs 8 seconds ahead, so unsynced signed requests fail',
+    steps: [{ kind: 'clock', offsetMs: 8000 }]
+  },
+  halt: {
+    name: 'halt',
+    description: 'ETHUSDT perps stop trading for two seconds',
+    steps: [
+      { kind: 'status', symbol: 'ETHUSDT', status: 'BREAK' },
+      { kind: 'wait', ms: 2000 },
+      { kind: 'status', symbol: 'ETHUSDT', status: 'TRADING' }
+    ]
+  }
+};
+
+export class FakeAsterServer {
+  private server: BunServer | null = null;
+  private markets = new Map<string, FakeMarket>();
+  private accounts = new Map<string, FakeAccount>();
+  private streams = new Map<string, Set<StreamClient>>();
+  private routes: Record<string, Route>;
+  private faults: FakeFault[] = [];
+  private weights: Array<{ at: number; weight: number }> = [];
+  private orderTimes: number[] = [];
+  private nextOrderId = 1000000;
+  private nextTradeId = 1;
+  private clockOffsetMs = 0;
+  private limits = { weightPerMinute: 2400, ordersPer10s: 300, ordersPerMinute: 1200 };
+
+  readonly requests: RecordedRequest[] = [];
+
+  constructor(markets: { perps: FakeMarketSpec[]; spot: FakeMarketSpec[] } = DEFAULT_MARKETS) {
+    for (const market of ['perps', 'spot'] as const) {
+      for (const spec of markets[market]) {
+        this.markets.set(FakeAsterServer.key(market, spec.symbol), {
+          minQty: spec.stepSize,
+          maxQty: '1000000',
+          minNotional: 5,
+          maxLeverage: market === 'perps' ? 20 : 1,
+          ...spec,
+          market,
+          status: 'TRADING',
+          open: spec.price,
+          high: spec.price,
+          low: spec.price,
+          volume: 0,
+          quoteVolume: 0
+        });
+      }
+    }
+    this.routes = this.buildRoutes();
+  }
+
+  // ========== Lifecycle ==========
+
+  start(port = 0): { baseUrl: string; wsUrl: string } {
+    this.server = Bun.serve({
+      port,
+      hostname: '127.0.0.1',
+      fetch: (request, server) => this.dispatch(request, server),
+      websocket: {
+        open: (ws) => {
+          const clients = this.streams.get(ws.data.listenKey) ?? new Set<StreamClient>();
+          clients.add(ws);
+          this.streams.set(ws.data.listenKey, clients);
+        },
+        message: () => {},
+        close: (ws) => {
+          this.streams.get(ws.data.listenKey)?.delete(ws);
+        }
+      }
+    });
+
+    return { baseUrl: `http://127.0.0.1:${this.server.port}`, wsUrl: `ws://127.0.0.1:${this.server.port}` };
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  // ========== Control ==========
+
+  addAccount(spec: FakeAccountSpec): void {
+    this.accounts.set(spec.apiKey, {
+      apiKey: spec.apiKey,
+      apiSecret: spec.apiSecret,
+      wallet: spec.futuresUsdt ?? 10000,
+      leverage: new Map(),
+      dualSidePosition: spec.dualSidePosition ?? false,
+      positions: new Map(),
+      orders: [],
+      spot: new Map(Object.entries(spec.spotBalances ?? { USDT: 10000 }).map(([asset, free]) => [asset, { free, locked: 0 }])),
+      income: [],
+      trades: [],
+      listenKey: null
+    });
+  }
+
+  /**
+   * Move a symbol's price, then trigger and fill resting orders and liquidate accounts
+   * that no longer cover their maintenance margin
+   */
+  setPrice(symbol: string, price: number, market: Market = 'perps'): void {
+    const fakeMarket = this.requireMarket(market, symbol);
+    fakeMarket.price = price;
+    fakeMarket.high = Math.max(fakeMarket.high, price);
+    fakeMarket.low = Math.min(fakeMarket.low, price);
+
+    for (const account of this.accounts.values()) {
+      this.evaluateOrders(account, fakeMarket);
+      if (market === 'perps') this.checkLiquidation(account);
+    }
+  }
+
+  addFault(fault: FakeFault): void {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  setLimits(limits: Partial<typeof this.limits>): void {
+    this.limits = { ...this.limits, ...limits };
+  }
+
+  setClockOffset(offsetMs: number): void {
+    this.clockOffsetMs = offsetMs;
+  }
+
+  setStatus(symbol: string, status: 'TRADING' | 'BREAK', market: Market = 'perps'): void {
+    this.requireMarket(market, symbol).status = status;
+  }
+
+  async play(scenario: FakeAsterScenario): Promise<void> {
+    for (const step of scenario.steps) {
+      switch (step.kind) {
+        case 'price':
+          this.setPrice(step.symbol, step.price, step.market);
+          break;
+        case 'fault':
+          this.addFault(step.fault);
+          break;
+        case 'limits':
+          this.setLimits(Object.fromEntries(Object.entries(step).filter(([key, value]) => key !== 'kind' && value !== undefined)));
+          break;
+        case 'clock':
+          this.setClockOffset(step.offsetMs);
+          break;
+        case 'status':
+          this.setStatus(step.symbol, step.status, step.market);
+          break;
+        case 'wait':
+          await new Promise(resolve => setTimeout(resolve, step.ms));
+          break;
+      }
+    }
+  }
+
+  // ========== Inspection ==========
+
+  getPosition(apiKey: string, symbol: string, positionSide: PositionSide = 'BOTH'): { amt: number; entry: number } {
+    const position = this.requireAccount(apiKey).positions.get(FakeAsterServer.positionKey(symbol, positionSide));
+    return { amt: position?.amt ?? 0, entry: position?.entry ?? 0 };
+  }
+
+  getOpenOrders(apiKey: string, market: Market = 'perps'): Array<Record<string, unknown>> {
+    return this.requireAccount(apiKey).orders
+      .filter(order => order.market === market && FakeAsterServer.isOpen(order))
+      .map(order => this.toResponse(order));
+  }
+
+  getWallet(apiKey: string): number {
+    return this.requireAccount(apiKey).wallet;
+  }
+
+  getSpotBalance(apiKey: string, asset: string): { free: number; locked: number } {
+    return this.requireAccount(apiKey).spot.get(asset) ?? { free: 0, locked: 0 };
+  }
+
+  // ========== HTTP ==========
+
+  private async dispatch(request: Request, server: BunServer): Promise<Response | undefined> {
+    const url = new URL(request.url);
+
+    const stream = url.pathname.match(/^\/ws\/([A-Za-z0-9]+)$/);
+    if (stream) {
+      if (!this.findByListenKey(stream[1])) {
+        return new Response('Unknown listen key', { status: 400 });
+      }
+      return server.upgrade(request, { data: { listenKey: stream[1] } }) ? undefined : new Response('Upgrade failed', { status: 400 });
+    }
+
+    const method = request.method.toUpperCase();
+    const query = url.search.slice(1);
+    const body = method === 'GET' ? '' : await request.text();
+    const params: Params = Object.fromEntries([...new URLSearchParams(query), ...new URLSearchParams(body)]);
+    const recorded: RecordedRequest = { method, path: url.pathname, params, status: 200 };
+    this.requests.push(recorded);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    try {
+      const route = this.routes[`${method} ${url.pathname}`];
+      if (!route) {
+        throw new FakeExchangeError(404, -1000, `Unknown endpoint ${method} ${url.pathname}`);
+      }
+
+      this.applyRateLimits(route, params, headers);
+      this.applyFault(method, url.pathname);
+
+      const account = this.authenticate(route.security, request.headers.get('X-MBX-APIKEY'), query, body, params);
+      recorded.apiKey = account?.apiKey;
+      const result = route.handle(params, account);
+      return new Response(JSON.stringify(result), { status: 200, headers });
+    } catch (error) {
+      const exchangeError = error instanceof FakeExchangeError
+        ? error
+        : new FakeExchangeError(500, -1000, error instanceof Error ? error.message : 'An unknown error occurred while processing the request.');
+      recorded.status = exchangeError.status;
+      recorded.code = exchangeError.code;
+      return new Response(JSON.stringify({ code: exchangeError.code, msg: exchangeError.message }), { status: exchangeError.status, headers });
+    }
+  }
+
+  /**
+   * Same checks as the exchange: API key, then for signed endpoints a signature that must be
+   * the last parameter and match the HMAC of everything before it, then the recvWindow
+   */
+  private authenticate(security: Security, apiKey: string | null, query: string, body: string, params: Params): FakeAccount | null {
+    if (security === 'NONE') return null;
+
+    if (!apiKey) {
+      throw new FakeExchangeError(401, -2014, 'API-key format invalid.');
+    }
+    const account = this.accounts.get(apiKey);
+    if (!account) {
+      throw new FakeExchangeError(401, -2015, 'Invalid API-key, IP, or permissions for action.');
+    }
+    if (security === 'USER_STREAM') return account;
+
+    const totalParams = query && body ? `${query}${body}` : query || body;
+    const match = totalParams.match(/^(.*)&signature=([0-9a-fA-F]+)$/s);
+    if (!match) {
+      throw new FakeExchangeError(400, -1102, "Mandatory parameter 'signature' was not sent, was empty/null, or malformed.");
+    }
+
+    const expected = AsterSigner.createSignature(account.apiSecret, match[1]);
+    const received = match[2].toLowerCase();
+    if (expected.length !== received.length || !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(received))) {
+      throw new FakeExchangeError(400, -1022, 'Signature for this request is not valid.');
+    }
+
+    const timestamp = parseInt(params.timestamp || '', 10);
+    if (!Number.isFinite(timestamp)) {
+      throw new FakeExchangeError(400, -1102, "Mandatory parameter 'timestamp' was not sent, was empty/null, or malformed.");
+    }
+    const recvWindow = parseInt(params.recvWindow || '5000', 10);
+    if (!Number.isFinite(recvWindow) || recvWindow <= 0 || recvWindow > MAX_RECV_WINDOW) {
+      throw new FakeExchangeError(400, -1131, 'recvWindow must be less than 60000');
+    }
+    const serverTime = this.now();
+    if (timestamp > serverTime + 1000 || serverTime - timestamp > recvWindow) {
+      throw new FakeExchangeError(400, -1021, 'Timestamp for this request is outside of the recvWindow.');
+    }
+
+    return account;
+  }
+
+  private applyRateLimits(route: Route, params: Params, headers: Record<string, string>): void {
+    const now = Date.now();
+    this.weights = this.weights.filter(entry => now - entry.at < 60000);
+    const weight = typeof route.weight === 'function' ? route.weight(params) : route.weight;
+    this.weights.push({ at: now, weight });
+    const usedWeight = this.weights.reduce((sum, entry) => sum + entry.weight, 0);
+    headers['X-MBX-USED-WEIGHT'] = String(usedWeight);
+    headers['X-MBX-USED-WEIGHT-1M'] = String(usedWeight);
+
+    if (usedWeight > this.limits.weightPerMinute) {
+      headers['Retry-After'] = String(Math.ceil((this.weights[0].at + 60000 - now) / 1000));
+      throw new FakeExchangeError(
+        429,
+        -1003,
+        `Too many requests; current limit is ${this.limits.weightPerMinute} request weight per 1 MINUTE. Please use the websocket for live updates to avoid polling the API.`
+      );
+    }
+
+    if (!route.isOrder) return;
+
+    this.orderTimes = this.orderTimes.filter(at => now - at < 60000);
+    this.orderTimes.push(now);
+    const orders10s = this.orderTimes.filter(at => now - at < 10000).length;
+    headers['X-MBX-ORDER-COUNT-10S'] = String(orders10s);
+    headers['X-MBX-ORDER-COUNT-1M'] = String(this.orderTimes.length);
+
+    if (orders10s > this.limits.ordersPer10s) {
+      headers['Retry-After'] = '10';
+      throw new FakeExchangeError(429, -1015, `Too many new orders; current limit is ${this.limits.ordersPer10s} orders per TEN_SECONDS.`);
+    }
+    if (this.orderTimes.length > this.limits.ordersPerMinute) {
+      headers['Retry-After'] = String(Math.ceil((this.orderTimes[0] + 60000 - now) / 1000));
+      throw new FakeExchangeError(429, -1015, `Too many new orders; current limit is ${this.limits.ordersPerMinute} orders per MINUTE.`);
+    }
+  }
+
+  private applyFault(method: string, path: string): void {
+    const index = this.faults.findIndex(fault => fault.method === method && fault.path === path);
+    if (index === -1) return;
+
+    const fault = this.faults[index];
+    fault.times = (fault.times ?? 1) - 1;
+    if (fault.times <= 0) this.faults.splice(index, 1);
+    throw new FakeExchangeError(fault.status, fault.code, fault.msg);
+  }
+
+  private buildRoutes(): Record<string, Route> {
+    const perWeight = (withSymbol: number, without: number) => (params: Params) => params.symbol ? withSymbol : without;
+    const depthWeight = (params: Params) => {
+      const limit = parseInt(params.limit || '500', 10);
+      return limit <= 50 ? 2 : limit <= 100 ? 5 : limit <= 500 ? 10 : 20;
+    };
+
+    const routes: Record<string, Route> = {};
+    for (const [prefix, market] of [['/fapi/v1', 'perps'], ['/api/v1', 'spot']] as const) {
+      routes[`GET ${prefix}/ping`] = { weight: 1, security: 'NONE', handle: () => ({}) };
+      routes[`GET ${prefix}/time`] = { weight: 1, security: 'NONE', handle: () => ({ serverTime: this.now() }) };
+      routes[`GET ${prefix}/exchangeInfo`] = { weight: 1, security: 'NONE', handle: () => this.exchangeInfo(market) };
+      routes[`GET ${prefix}/depth`] = { weight: depthWeight, security: 'NONE', handle: (params) => this.depth(market, params) };
+      routes[`GET ${prefix}/ticker/24hr`] = { weight: perWeight(1, 40), security: 'NONE', handle: (params) => this.ticker24hr(market, params) };
+      routes[`GET ${prefix}/ticker/price`] = { weight: perWeight(1, 2), security: 'NONE', handle: (params) => this.tickerPrice(market, params) };
+      routes[`GET ${prefix}/openOrders`] = { weight: perWeight(1, 40), security: 'SIGNED', handle: (params, account) => this.openOrders(account!, market, params) };
+      routes[`GET ${prefix}/order`] = { weight: 1, security: 'SIGNED', handle: (params, account) => this.queryOrder(account!, market, params) };
+      routes[`DELETE ${prefix}/order`] = { weight: 1, security: 'SIGNED', handle: (params, account) => this.cancelOrder(account!, market, params) };
+      routes[`DELETE ${prefix}/allOpenOrders`] = { weight: 1, security: 'SIGNED', handle: (params, account) => this.cancelAll(account!, market, params) };
+    }
+
+    // Futures
+    routes['GET /fapi/v1/premiumIndex'] = { weight: 1, security: 'NONE', handle: (params) => this.premiumIndex(params) };
+    routes['GET /fapi/v1/fundingRate'] = { weight: 1, security: 'NONE', handle: (params) => this.fundingRate(params) };
+    routes['GET /fapi/v1/trades'] = { weight: 1, security: 'NONE', handle: (params) => this.recentTrades(params) };
+    routes['GET /fapi/v1/account'] = { weight: 5, security: 'SIGNED', handle: (_, account) => this.futuresAccount(account!) };
+    routes['GET /fapi/v1/positionRisk'] = { weight: 5, security: 'SIGNED', handle: (params, account) => this.positionRisk(account!, params) };
+    routes['GET /fapi/v1/leverageBracket'] = { weight: 1, security: 'SIGNED', handle: (params) => this.leverageBracket(params) };
+    routes['POST /fapi/v1/leverage'] = { weight: 1, security: 'SIGNED', handle: (params, account) => this.changeLeverage(account!, params) };
+    routes['GET /fapi/v1/positionSide/dual'] = { weight: 30, security: 'SIGNED', handle: (_, account) => ({ dualSidePosition: account!.dualSidePosition }) };
+    routes['POST /fapi/v1/positionSide/dual'] = { weight: 1, security: 'SIGNED', handle: (params, account) => this.changePositionMode(account!, params) };
+    routes['POST /fapi/v1/order'] = { weight: 1, security: 'SIGNED', isOrder: true, handle: (params, account) => this.placeFuturesOrder(account!, params) };
+    routes['GET /fapi/v1/income'] = { weight: 30, security: 'SIGNED', handle: (params, account) => this.incomeHistory(account!, params) };
+    routes['POST /fapi/v1/listenKey'] = { weight: 1, security: 'USER_STREAM', handle: (_, account) => ({ listenKey: this.openListenKey(account!) }) };
+    routes['PUT /fapi/v1/listenKey'] = { weight: 1, security: 'USER_STREAM', handle: (_, account) => this.keepAliveListenKey(account!) };
+    routes['DELETE /fapi/v1/listenKey'] = { weight: 1, security: 'USER_STREAM', handle: (_, account) => this.closeListenKey(account!) };
+
+    // Spot
+    routes['GET /api/v1/account'] = { weight: 5, security: 'SIGNED', handle: (_, account) => this.spotAccount(account!) };
+    routes['POST /api/v1/order'] = { weight: 1, security: 'SIGNED', isOrder: true, handle: (params, account) => this.placeSpotOrder(account!, params) };
+    routes['GET /api/v1/userTrades'] = { weight: 5, security: 'SIGNED', handle: (params, account) => this.userTrades(account!, params) };
+    // The client asks the futures host for spot fills under the Binance v3 path
+    routes['GET /api/v3/myTrades'] = routes['GET /api/v1/userTrades'];
+
+    return routes;
+  }
+
+  // ========== Market Data ==========
+
+  private exchangeInfo(market: Market): unknown {
+    const symbols = [...this.markets.values()].filter(m => m.market === market).map(m => ({
+      symbol: m.symbol,
+      pair: m.symbol,
+      contractType: market === 'perps' ? 'PERPETUAL' : undefined,
+      status: m.status,
+      baseAsset: m.baseAsset,
+      quoteAsset: m.quoteAsset,
+      marginAsset: market === 'perps' ? m.quoteAsset : undefined,
+      pricePrecision: FakeAsterServer.decimals(m.tickSize),
+      quantityPrecision: FakeAsterServer.decimals(m.stepSize),
+      baseAssetPrecision: 8,
+      quotePrecision: 8,
+      quoteAssetPrecision: 8,
+      orderTypes: market === 'perps'
+        ? ['LIMIT', 'MARKET', 'STOP', 'STOP_MARKET', 'TAKE_PROFIT', 'TAKE_PROFIT_MARKET', 'TRAILING_STOP_MARKET']
+        : ['LIMIT', 'MARKET', 'STOP_LOSS', 'STOP_LOSS_LIMIT', 'TAKE_PROFIT', 'TAKE_PROFIT_LIMIT'],
+      timeInForce: ['GTC', 'IOC', 'FOK', 'GTX'],
+      filters: [
+        { filterType: 'PRICE_FILTER', minPrice: m.tickSize, maxPrice: '10000000', tickSize: m.tickSize },
+        { filterType: 'LOT_SIZE', minQty: m.minQty, maxQty: m.maxQty, stepSize: m.stepSize },
+        { filterType: 'MARKET_LOT_SIZE', minQty: m.minQty, maxQty: m.maxQty, stepSize: m.stepSize },
+        { filterType: 'MAX_NUM_ORDERS', limit: 200 },
+        { filterType: 'MIN_NOTIONAL', notional: String(m.minNotional), minNotional: String(m.minNotional) },
+        { filterType: 'PERCENT_PRICE', multiplierUp: '1.5000', multiplierDown: '0.5000', multiplierDecimal: 4 }
+      ]
+    }));
+
+    return {
+      timezone: 'UTC',
+      serverTime: this.now(),
+      rateLimits: [
+        { rateLimitType: 'REQUEST_WEIGHT', interval: 'MINUTE', intervalNum: 1, limit: this.limits.weightPerMinute },
+        { rateLimitType: 'ORDERS', interval: 'SECOND', intervalNum: 10, limit: this.limits.ordersPer10s },
+        { rateLimitType: 'ORDERS', interval: 'MINUTE', intervalNum: 1, limit: this.limits.ordersPerMinute }
+      ],
+      exchangeFilters: [],
+      symbols
+    };
+  }
+
+  private depth(market: Market, params: Params): unknown {
+    const fakeMarket = this.requireMarket(market, this.required(params, 'symbol'));
+    const limit = Math.min(parseInt(params.limit || '100', 10) || 100, BOOK_LEVELS);
+    const book = this.book(fakeMarket);
+    return {
+      lastUpdateId: this.nextTradeId,
+      E: this.now(),
+      T: this.now(),
+      bids: book.bids.slice(0, limit).map(([price, qty]) => [this.formatPrice(fakeMarket, price), this.formatQty(fakeMarket, qty)]),
+      asks: book.asks.slice(0, limit).map(([price, qty]) => [this.formatPrice(fakeMarket, price), this.formatQty(fakeMarket, qty)])
+    };
+  }
+
+  private ticker24hr(market: Market, params: Params): unknown {
+    const toTicker = (m: FakeMarket) => ({
+      symbol: m.symbol,
+      priceChange: this.formatPrice(m, m.price - m.open),
+      priceChangePercent: ((m.price - m.open) / m.open * 100).toFixed(3),
+      weightedAvgPrice: this.formatPrice(m, m.volume > 0 ? m.quoteVolume / m.volume : m.price),
+      lastPrice: this.formatPrice(m, m.price),
+      lastQty: m.minQty,
+      openPrice: this.formatPrice(m, m.open),
+      highPrice: this.formatPrice(m, m.high),
+      lowPrice: this.formatPrice(m, m.low),
+      volume: this.formatQty(m, m.volume),
+      quoteVolume: m.quoteVolume.toFixed(2),
+      openTime: this.now() - 24 * 60 * 60 * 1000,
+      closeTime: this.now(),
+      count: this.nextTradeId - 1
+    });
+
+    if (params.symbol) return toTicker(this.requireMarket(market, params.symbol));
+    return [...this.markets.values()].filter(m => m.market === market).map(toTicker);
+  }
+
+  private tickerPrice(market: Market, params: Params): unknown {
+    const toPrice = (m: FakeMarket) => ({ symbol: m.symbol, price: this.formatPrice(m, m.price), time: this.now() });
+    if (params.symbol) return toPrice(this.requireMarket(market, params.symbol));
+    return [...this.markets.values()].filter(m => m.market === market).map(toPrice);
+  }
+
+  private premiumIndex(params: Params): unknown {
+    // Always a list, which is what AsterApiClient.getMarkPrice hands to its callers
+    return [...this.markets.values()]
+      .filter(m => m.market === 'perps' && (!params.symbol || m.symbol === params.symbol))
+      .map(m => ({
+        symbol: m.symbol,
+        markPrice: this.formatPrice(m, m.price),
+        indexPrice: this.formatPrice(m, m.price),
+        estimatedSettlePrice: this.formatPrice(m, m.price),
+        lastFundingRate: '0.00010000',
+        interestRate: '0.00010000',
+        nextFundingTime: Math.ceil(this.now() / 28800000) * 28800000,
+        time: this.now()
+      }));
+  }
+
+  private fundingRate(params: Params): unknown {
+    const fundingTime = Math.floor(this.now() / 28800000) * 28800000;
+    return [...this.markets.values()]
+      .filter(m => m.market === 'perps' && (!params.symbol || m.symbol === params.symbol))
+      .map(m => ({ symbol: m.symbol, fundingRate: '0.00010000', fundingTime }));
+  }
+
+  private recentTrades(params: Params): unknown {
+    const fakeMarket = this.requireMarket('perps', this.required(params, 'symbol'));
+    return [{
+      id: this.nextTradeId,
+      price: this.formatPrice(fakeMarket, fakeMarket.price),
+      qty: fakeMarket.minQty,
+      quoteQty: (fakeMarket.price * parseFloat(fakeMarket.minQty)).toFixed(8),
+      time: this.now(),
+      isBuyerMaker: false
+    }];
+  }
+
+  /**
+   * Synthetic book two ticks wide around the price, with the same notional on every level
+   */
+  private book(fakeMarket: FakeMarket): { bids: Array<[number, number]>; asks: Array<[number, number]> } {
+    const tick = parseFloat(fakeMarket.tickSize);
+    const mid = Math.round(fakeMarket.price / tick) * tick;
+    const bids: Array<[number, number]> = [];
+    const asks: Array<[number, number]> = [];
+    for (let level = 1; level <= BOOK_LEVELS; level++) {
+      const bid = mid - level * tick;
+      const ask = mid + level * tick;
+      if (bid > 0) bids.push([bid, this.roundQty(fakeMarket, LEVEL_NOTIONAL / bid)]);
+      asks.push([ask, this.roundQty(fakeMarket, LEVEL_NOTIONAL / ask)]);
+    }
+    return { bids, asks };
+  }
+
+  /**
+   * Walk the book for a taker fill; whatever the book can't absorb fills at its last level
+   */
+  private takerFill(fakeMarket: FakeMarket, side: Side, quantity: number): { qty: number; cost: number } {
+    const levels = side === 'BUY' ? this.book(fakeMarket).asks : this.book(fakeMarket).bids;
+    let remaining = quantity;
+    let cost = 0;
+    for (const [price, size] of levels) {
+      const take = Math.min(size, remaining);
+      cost += take * price;
+      remaining -= take;
+      if (remaining <= 0) break;
+    }
+    if (remaining > 0) cost += remaining * levels[levels.length - 1][0];
+    return { qty: quantity, cost };
+  }
+
+  private bestPrice(fakeMarket: FakeMarket, side: Side): number {
+    const book = this.book(fakeMarket);
+    return side === 'BUY' ? book.asks[0][0] : book.bids[0][0];
+  }
+
+  // ========== Futures Account ==========
+
+  private futuresTotals(account: FakeAccount) {
+    let unrealized = 0;
+    let positionMargin = 0;
+    let maintMargin = 0;
+    for (const position of account.positions.values()) {
+      if (position.amt === 0) continue;
+      const mark = this.requireMarket('perps', position.symbol).price;
+      const notional = Math.abs(position.amt) * mark;
+      unrealized += position.amt * (mark - position.entry);
+      positionMargin += notional / this.leverageOf(account, position.symbol);
+      maintMargin += notional * PaperTradingService.MAINTENANCE_MARGIN_RATE;
+    }
+
+    const orderMargin = account.orders
+      .filter(order => order.market === 'perps' && FakeAsterServer.isOpen(order) && !FakeAsterServer.reduces(order) && order.price > 0)
+      .reduce((sum, order) => sum + (order.origQty - order.executedQty) * order.price / this.leverageOf(account, order.symbol), 0);
+
+    const marginBalance = account.wallet + unrealized;
+    return {
+      unrealized,
+      positionMargin,
+      orderMargin,
+      maintMargin,
+      marginBalance,
+      available: Math.max(0, marginBalance - positionMargin - orderMargin)
+    };
+  }
+
+  private futuresAccount(account: FakeAccount): unknown {
+    const totals = this.futuresTotals(account);
+    const usdt = (value: number) => value.toFixed(8);
+    return {
+      feeTier: 0,
+      canTrade: true,
+      canDeposit: true,
+      canWithdraw: true,
+      updateTime: this.now(),
+      totalWalletBalance: usdt(account.wallet),
+      totalUnrealizedPnl: usdt(totals.unrealized),
+      totalMarginBalance: usdt(totals.marginBalance),
+      totalPositionInitialMargin: usdt(totals.positionMargin),
+      totalOpenOrderInitialMargin: usdt(totals.orderMargin),
+      totalInitialMargin: usdt(totals.positionMargin + totals.orderMargin),
+      totalMaintMargin: usdt(totals.maintMargin),
+      totalCrossWalletBalance: usdt(account.wallet),
+      totalCrossUnPnl: usdt(totals.unrealized),
+      availableBalance: usdt(totals.available),
+      maxWithdrawAmount: usdt(totals.available),
+      assets: [{
+        asset: 'USDT',
+        walletBalance: usdt(account.wallet),
+        unrealizedProfit: usdt(totals.unrealized),
+        unrealizedPnl: usdt(totals.unrealized),
+        marginBalance: usdt(totals.marginBalance),
+        maintMargin: usdt(totals.maintMargin),
+        initialMargin: usdt(totals.positionMargin + totals.orderMargin),
+        positionInitialMargin: usdt(totals.positionMargin),
+        openOrderInitialMargin: usdt(totals.orderMargin),
+        crossWalletBalance: usdt(account.wallet),
+        crossUnPnl: usdt(totals.unrealized),
+        availableBalance: usdt(totals.available),
+        maxWithdrawAmount: usdt(totals.available)
+      }],
+      positions: this.positionRows(account).map(({ markPrice, liquidationPrice, ...row }) => row)
+    };
+  }
+
+  private positionRisk(account: FakeAccount, params: Params): unknown {
+    return this.positionRows(account).filter(row => !params.symbol || row.symbol === params.symbol);
+  }
+
+  /**
+   * One row per perps symbol in one-way mode, or a LONG and a SHORT row per symbol in hedge mode
+   */
+  private positionRows(account: FakeAccount) {
+    const totals = this.futuresTotals(account);
+    const sides: PositionSide[] = account.dualSidePosition ? ['LONG', 'SHORT'] : ['BOTH'];
+    const legs = [...this.markets.values()].filter(m => m.market === 'perps').flatMap(m => sides.map(side => ({ m, side })));
+    return legs.map(({ m, side }) => {
+      const position = this.positionOf(account, m.symbol, side);
+      const leverage = this.leverageOf(account, m.symbol);
+      const notional = position.amt * m.price;
+      const unrealized = position.amt * (m.price - position.entry);
+      const maint = Math.abs(notional) * PaperTradingService.MAINTENANCE_MARGIN_RATE;
+      const liquidationPrice = position.amt === 0
+        ? 0
+        : PaperTradingService.liquidationPrice(position.amt, position.entry, account.wallet, totals.unrealized - unrealized, totals.maintMargin - maint);
+
+      return {
+        symbol: m.symbol,
+        initialMargin: (Math.abs(notional) / leverage).toFixed(8),
+        maintMargin: maint.toFixed(8),
+        unrealizedPnl: unrealized.toFixed(8),
+        unRealizedProfit: unrealized.toFixed(8),
+        positionInitialMargin: (Math.abs(notional) / leverage).toFixed(8),
+        openOrderInitialMargin: '0',
+        leverage: String(leverage),
+        isolated: false,
+        marginType: 'cross',
+        isolatedMargin: '0.00000000',
+        entryPrice: position.entry.toFixed(8),
+        maxNotional: String(this.brackets(m)[0].notionalCap),
+        maxNotionalValue: String(this.brackets(m)[0].notionalCap),
+        positionSide: side,
+        positionAmt: this.formatQty(m, position.amt),
+        notional: notional.toFixed(8),
+        isolatedWallet: '0',
+        updateTime: position.updateTime,
+        bidNotional: '0',
+        askNotional: '0',
+        markPrice: this.formatPrice(m, m.price),
+        liquidationPrice: Math.max(0, liquidationPrice).toFixed(8)
+      };
+    });
+  }
+
+  private brackets(fakeMarket: FakeMarket) {
+    const max = fakeMarket.maxLeverage;
+    return [
+      { bracket: 1, initialLeverage: max, notionalCap: 50000, notionalFloor: 0, maintMarginRatio: PaperTradingService.MAINTENANCE_MARGIN_RATE, cum: 0 },
+      { bracket: 2, initialLeverage: Math.max(1, Math.floor(max / 2)), notionalCap: 250000, notionalFloor: 50000, maintMarginRatio: 0.01, cum: 250 },
+      { bracket: 3, initialLeverage: Math.max(1, Math.floor(max / 5)), notionalCap: 1000000, notionalFloor: 250000, maintMarginRatio: 0.025, cum: 4000 },
+      { bracket: 4, initialLeverage: 1, notionalCap: 50000000, notionalFloor: 1000000, maintMarginRatio: 0.05, cum: 29000 }
+    ];
+  }
+
+  private leverageBracket(params: Params): unknown {
+    const rows = [...this.markets.values()]
+      .filter(m => m.market === 'perps' && (!params.symbol || m.symbol === params.symbol))
+      .map(m => ({ symbol: m.symbol, brackets: this.brackets(m) }));
+    if (params.symbol && rows.length === 0) throw new FakeExchangeError(400, -1121, 'Invalid symbol.');
+    return params.symbol ? rows[0] : rows;
+  }
+
+  private changeLeverage(account: FakeAccount, params: Params): unknown {
+    const fakeMarket = this.requireMarket('perps', this.required(params, 'symbol'));
+    const leverage = parseInt(this.required(params, 'leverage'), 10);
+    if (!Number.isInteger(leverage) || leverage < 1 || leverage > fakeMarket.maxLeverage) {
+      throw new FakeExchangeError(400, -4028, `Leverage ${params.leverage} is not valid`);
+    }
+
+    const bracket = this.brackets(fakeMarket).filter(b => b.initialLeverage >= leverage).pop()!;
+    const size = [...account.positions.values()]
+      .filter(position => position.symbol === fakeMarket.symbol)
+      .reduce((sum, position) => sum + Math.abs(position.amt), 0);
+    if (size * fakeMarket.price > bracket.notionalCap) {
+      throw new FakeExchangeError(400, -2027, 'Exceeded the maximum allowable position at current leverage.');
+    }
+
+    account.leverage.set(fakeMarket.symbol, leverage);
+    return { leverage, maxNotionalValue: String(bracket.notionalCap), symbol: fakeMarket.symbol };
+  }
+
+  /** Switching needs a flat account with no working futures orders, as on the exchange */
+  private changePositionMode(account: FakeAccount, params: Params): unknown {
+    const dualSidePosition = this.required(params, 'dualSidePosition') === 'true';
+    if (dualSidePosition === account.dualSidePosition) {
+      throw new FakeExchangeError(400, -4059, 'No need to change position side.');
+    }
+    if (account.orders.some(order => order.market === 'perps' && FakeAsterServer.isOpen(order))) {
+      throw new FakeExchangeError(400, -4067, 'Position side cannot be changed if there exists open orders.');
+    }
+    if ([...account.positions.values()].some(position => position.amt !== 0)) {
+      throw new FakeExchangeError(400, -4068, 'Position side cannot be changed if there exists position.');
+    }
+
+    account.dualSidePosition = dualSidePosition;
+    account.positions.clear();
+    return { code: 200, msg: 'success' };
+  }
+
+  private incomeHistory(account: FakeAccount, params: Params): unknown {
+    const startTime = params.startTime ? parseInt(params.startTime, 10) : 0;
+    const endTime = params.endTime ? parseInt(params.endTime, 10) : Infinity;
+    const limit = Math.min(parseInt(params.limit || '100', 10) || 100, 1000);
+    return account.income
+      .filter(row => (!params.symbol || row.symbol === params.symbol)
+        && (!params.incomeType || row.incomeType === params.incomeType)
+        && row.time >= startTime && row.time <= endTime)
+      .slice(-limit);
+  }
+
+  private leverageOf(account: FakeAccount, symbol: string): number {
+    return account.leverage.get(symbol) ?? Math.min(DEFAULT_LEVERAGE, this.requireMarket('perps', symbol).maxLeverage);
+  }
+
+  // ========== Futures Orders ==========
+
+  private placeFuturesOrder(account: FakeAccount, params: Params): unknown {
+    const fakeMarket = this.requireTradable('perps', this.required(params, 'symbol'));
+    const side = this.requireSide(params);
+    const type = this.required(params, 'type');
+    const reduceOnly = params.reduceOnly === 'true';
+    const closePosition = params.closePosition === 'true';
+    const positionSide = this.requirePositionSide(account, params);
+    if (account.dualSidePosition && reduceOnly) {
+      throw new FakeExchangeError(400, -1106, "Parameter 'reduceOnly' sent when not required.");
+    }
+    const position = this.positionOf(account, fakeMarket.symbol, positionSide).amt;
+    if (params.newClientOrderId && account.orders.some(order => order.clientOrderId === params.newClientOrderId && FakeAsterServer.isOpen(order))) {
+      throw new FakeExchangeError(400, -4015, 'Client order id is not valid.');
+    }
+
+    const order = this.newOrder(account, 'perps', fakeMarket, side, type, params);
+    order.reduceOnly = reduceOnly;
+    order.closePosition = closePosition;
+    order.positionSide = positionSide;
+    order.workingType = params.workingType || 'CONTRACT_PRICE';
+    const reducing = FakeAsterServer.reduces(order);
+
+    switch (type) {
+      case 'MARKET':
+        break;
+      case 'LIMIT':
+        this.requireTimeInForce(params);
+        order.price = this.checkPrice(fakeMarket, this.required(params, 'price'), 'price');
+        break;
+      case 'STOP':
+      case 'TAKE_PROFIT':
+        order.price = this.checkPrice(fakeMarket, this.required(params, 'price'), 'price');
+        order.stopPrice = this.checkPrice(fakeMarket, this.required(params, 'stopPrice'), 'stopPrice');
+        break;
+      case 'STOP_MARKET':
+      case 'TAKE_PROFIT_MARKET':
+        order.stopPrice = this.checkPrice(fakeMarket, this.required(params, 'stopPrice'), 'stopPrice');
+        break;
+      case 'TRAILING_STOP_MARKET': {
+        const callbackRate = parseFloat(this.required(params, 'callbackRate'));
+        if (!(callbackRate >= 0.1 && callbackRate <= 5)) {
+          throw new FakeExchangeError(400, -1130, "Data sent for parameter 'callbackRate' is not valid.");
+        }
+        order.callbackRate = callbackRate;
+        order.activationPrice = params.activationPrice ? this.checkPrice(fakeMarket, params.activationPrice, 'activationPrice') : 0;
+        break;
+      }
+      default:
+        throw new FakeExchangeError(400, -1116, 'Invalid orderType.');
+    }
+
+    if (closePosition) {
+      if (type !== 'STOP_MARKET' && type !== 'TAKE_PROFIT_MARKET') {
+        throw new FakeExchangeError(400, -4136, 'Target strategy invalid for orderType ' + type + ',closePosition true');
+      }
+      if (params.quantity) {
+        throw new FakeExchangeError(400, -4136, 'Quantity can not be sent with closePosition=true.');
+      }
+    } else {
+      order.origQty = this.checkQuantity(fakeMarket, this.required(params, 'quantity'));
+      const notionalPrice = order.price || order.stopPrice || this.bestPrice(fakeMarket, side);
+      if (!reducing && order.origQty * notionalPrice < fakeMarket.minNotional) {
+        throw new FakeExchangeError(400, -4164, `Order's notional must be no smaller than ${fakeMarket.minNotional.toFixed(1)} (unless you choose reduce only).`);
+      }
+    }
+
+    if (reduceOnly && (position === 0 || Math.sign(position) === (side === 'BUY' ? 1 : -1))) {
+      throw new FakeExchangeError(400, -2022, 'ReduceOnly Order is rejected.');
+    }
+    // A hedge exit that fills straight away needs something on its leg to close
+    if (positionSide !== 'BOTH' && reducing && (type === 'MARKET' || type === 'LIMIT') && position === 0) {
+      throw new FakeExchangeError(400, -2022, 'ReduceOnly Order is rejected.');
+    }
+
+    if (order.stopPrice > 0 && FakeAsterServer.triggered(order, fakeMarket.price)) {
+      throw new FakeExchangeError(400, -2021, 'Order would immediately trigger.');
+    }
+
+    if (!reducing) {
+      const opening = Math.max(0, order.origQty - (Math.sign(position) === (side === 'BUY' ? -1 : 1) ? Math.abs(position) : 0));
+      const price = order.price || this.bestPrice(fakeMarket, side);
+      const required = opening * price / this.leverageOf(account, fakeMarket.symbol);
+      if (required > this.futuresTotals(account).available + 1e-9) {
+        throw new FakeExchangeError(400, -2019, 'Margin is insufficient.');
+      }
+    }
+
+    account.orders.push(order);
+    this.emitOrderUpdate(account, order, 'NEW');
+
+    if (type === 'MARKET') {
+      this.fillFuturesTaker(account, fakeMarket, order);
+    } else if (type === 'LIMIT') {
+      this.processLimit(account, fakeMarket, order, true);
+    }
+
+    return this.toResponse(order);
+  }
+
+  /**
+   * A limit that crosses the book takes liquidity at once; otherwise it rests, unless its
+   * time in force says it must not
+   */
+  private processLimit(account: FakeAccount, fakeMarket: FakeMarket, order: FakeOrder, atPlacement: boolean): void {
+    const best = this.bestPrice(fakeMarket, order.side);
+    const crosses = order.side === 'BUY' ? order.price >= best : order.price <= best;
+
+    if (crosses && atPlacement && order.timeInForce === 'GTX') {
+      this.finish(account, order, 'EXPIRED');
+      return;
+    }
+    if (crosses) {
+      if (order.market === 'perps') {
+        this.fillFutures(account, fakeMarket, order, order.origQty - order.executedQty, atPlacement ? best : order.price, !atPlacement);
+      } else {
+        this.fillSpot(account, fakeMarket, order, order.origQty - order.executedQty, atPlacement ? best : order.price, !atPlacement);
+      }
+      return;
+    }
+    if (order.timeInForce === 'IOC' || order.timeInForce === 'FOK') {
+      this.finish(account, order, 'EXPIRED');
+    }
+  }
+
+  private fillFuturesTaker(account: FakeAccount, fakeMarket: FakeMarket, order: FakeOrder): void {
+    const quantity = order.closePosition
+      ? Math.abs(this.positionOf(account, fakeMarket.symbol, order.positionSide).amt)
+      : order.origQty - order.executedQty;
+    if (order.closePosition) order.origQty = quantity;
+
+    if (quantity <= 0) {
+      this.finish(account, order, 'EXPIRED');
+      return;
+    }
+
+    const { cost } = this.takerFill(fakeMarket, order.side, quantity);
+    this.fillFutures(account, fakeMarket, order, quantity, cost / quantity, false);
+  }
+
+  private fillFutures(account: FakeAccount, fakeMarket: FakeMarket, order: FakeOrder, requested: number, price: number, maker: boolean): void {
+    const position = this.positionOf(account, fakeMarket.symbol, order.positionSide);
+    const direction = order.side === 'BUY' ? 1 : -1;
+
+    // Reduce-only orders and hedge exits never flip the position; anything past flat is dropped
+    const closable = Math.sign(position.amt) === -direction ? Math.abs(position.amt) : 0;
+    const quantity = FakeAsterServer.reduces(order) ? Math.min(requested, closable) : requested;
+    if (quantity <= 0) {
+      this.finish(account, order, 'EXPIRED');
+      return;
+    }
+
+    const closing = Math.min(quantity, closable);
+    const realizedPnl = closing * (price - position.entry) * -direction;
+    const commission = quantity * price * (maker ? MAKER_FEE : TAKER_FEE);
+
+    const newAmt = this.roundQty(fakeMarket, position.amt + direction * quantity);
+    if (newAmt === 0) {
+      position.entry = 0;
+    } else if (Math.sign(newAmt) !== Math.sign(position.amt)) {
+      position.entry = price;
+    } else if (closing === 0) {
+      position.entry = (Math.abs(position.amt) * position.entry + quantity * price) / Math.abs(newAmt);
+    }
+    position.amt = newAmt;
+    position.updateTime = this.now();
+    account.positions.set(FakeAsterServer.positionKey(fakeMarket.symbol, order.positionSide), position);
+
+    account.wallet += realizedPnl - commission;
+    const tradeId = this.recordTrade(account, fakeMarket, order, quantity, price, commission, 'USDT', realizedPnl, maker);
+    if (realizedPnl !== 0) this.recordIncome(account, fakeMarket.symbol, 'REALIZED_PNL', realizedPnl, tradeId);
+    this.recordIncome(account, fakeMarket.symbol, 'COMMISSION', -commission, tradeId);
+
+    order.executedQty += quantity;
+    order.cumQuote += quantity * price;
+    order.status = order.executedQty >= order.origQty - 1e-12 ? 'FILLED' : 'PARTIALLY_FILLED';
+    order.updateTime = this.now();
+
+    this.emitOrderUpdate(account, order, 'TRADE', { quantity, price, commission, realizedPnl, maker, tradeId });
+    this.emitAccountUpdate(account, 'ORDER', fakeMarket.symbol);
+
+    if (order.status === 'PARTIALLY_FILLED' && (order.type === 'MARKET' || order.reduceOnly)) {
+      // Whatever a reduce-only or market order couldn't fill is not left working
+      this.finish(account, order, 'EXPIRED');
+    }
+  }
+
+  /**
+   * Liquidate every position of an account whose margin balance no longer covers the
+   * maintenance margin, clearing any negative balance against the insurance fund
+   */
+  private checkLiquidation(account: FakeAccount): void {
+    const totals = this.futuresTotals(account);
+    if (totals.maintMargin === 0 || totals.marginBalance > totals.maintMargin) return;
+
+    for (const order of account.orders) {
+      if (order.market === 'perps' && FakeAsterServer.isOpen(order)) this.finish(account, order, 'CANCELED');
+    }
+
+    for (const position of account.positions.values()) {
+      if (position.amt === 0) continue;
+      const fakeMarket = this.requireMarket('perps', position.symbol);
+      const order = this.newOrder(account, 'perps', fakeMarket, position.amt > 0 ? 'SELL' : 'BUY', 'LIQUIDATION', {});
+      order.clientOrderId = `autoclose-${order.orderId}`;
+      order.origQty = Math.abs(position.amt);
+      order.reduceOnly = true;
+      order.positionSide = position.side;
+      account.orders.push(order);
+      this.fillFutures(account, fakeMarket, order, order.origQty, fakeMarket.price, false);
+    }
+
+    if (account.wallet < 0) {
+      this.recordIncome(account, '', 'INSURANCE_CLEAR', -account.wallet, 0);
+      account.wallet = 0;
+      this.emitAccountUpdate(account, 'ORDER');
+    }
+  }
+
+  // ========== Spot ==========
+
+  private spotAccount(account: FakeAccount): unknown {
+    return {
+      makerCommission: 10,
+      takerCommission: 10,
+      canTrade: true,
+      canDeposit: true,
+      canWithdraw: true,
+      updateTime: this.now(),
+      balances: [...account.spot.entries()].map(([asset, balance]) => ({
+        asset,
+        free: balance.free.toFixed(8),
+        locked: balance.locked.toFixed(8)
+      }))
+    };
+  }
+
+  private placeSpotOrder(account: FakeAccount, params: Params): unknown {
+    const fakeMarket = this.requireTradable('spot', this.required(params, 'symbol'));
+    const side = this.requireSide(params);
+    const type = this.required(params, 'type');
+    const order = this.newOrder(account, 'spot', fakeMarket, side, type, params);
+
+    if (type === 'MARKET' && params.quoteOrderQty) {
+      order.quoteOrderQty = parseFloat(params.quoteOrderQty);
+      if (!(order.quoteOrderQty >= fakeMarket.minNotional)) {
+        throw new FakeExchangeError(400, -1013, 'Filter failure: MIN_NOTIONAL');
+      }
+      const price = this.bestPrice(fakeMarket, side);
+      order.origQty = this.roundQty(fakeMarket, order.quoteOrderQty / price);
+    } else {
+      order.origQty = this.checkQuantity(fakeMarket, this.required(params, 'quantity'));
+    }
+
+    switch (type) {
+      case 'MARKET':
+      case 'STOP_LOSS':
+      case 'TAKE_PROFIT':
+        if (type !== 'MARKET') order.stopPrice = this.checkPrice(fakeMarket, this.required(params, 'stopPrice'), 'stopPrice');
+        break;
+      case 'LIMIT':
+      case 'STOP_LOSS_LIMIT':
+      case 'TAKE_PROFIT_LIMIT':
+        this.requireTimeInForce(params);
+        order.price = this.checkPrice(fakeMarket, this.required(params, 'price'), 'price');
+        if (type !== 'LIMIT') order.stopPrice = this.checkPrice(fakeMarket, this.required(params, 'stopPrice'), 'stopPrice');
+        break;
+      default:
+        throw new FakeExchangeError(400, -1116, 'Invalid orderType.');
+    }
+
+    const notionalPrice = order.price || order.stopPrice || this.bestPrice(fakeMarket, side);
+    if (order.origQty * notionalPrice < fakeMarket.minNotional) {
+      throw new FakeExchangeError(400, -1013, 'Filter failure: MIN_NOTIONAL');
+    }
+    if (order.stopPrice > 0 && FakeAsterServer.triggered(order, fakeMarket.price)) {
+      throw new FakeExchangeError(400, -2010, 'Stop price would trigger immediately.');
+    }
+
+    // Everything except a market order locks its funds while it rests
+    const { asset, amount } = this.spotRequirement(fakeMarket, order, notionalPrice);
+    const balance = account.spot.get(asset) ?? { free: 0, locked: 0 };
+    if (balance.free + 1e-12 < amount) {
+      throw new FakeExchangeError(400, -2010, 'Account has insufficient balance for requested action.');
+    }
+    if (type !== 'MARKET') {
+      balance.free -= amount;
+      balance.locked += amount;
+      account.spot.set(asset, balance);
+    }
+
+    account.orders.push(order);
+    if (type === 'MARKET') {
+      const { cost } = this.takerFill(fakeMarket, side, order.origQty);
+      this.fillSpot(account, fakeMarket, order, order.origQty, cost / order.origQty, false);
+    } else if (type === 'LIMIT') {
+      this.processLimit(account, fakeMarket, order, true);
+    }
+
+    const fills = account.trades
+      .filter(trade => trade.orderId === order.orderId)
+      .map(trade => ({
+        price: this.formatPrice(fakeMarket, trade.price),
+        qty: this.formatQty(fakeMarket, trade.qty),
+        commission: trade.commission.toFixed(8),
+        commissionAsset: trade.commissionAsset,
+        tradeId: trade.id
+      }));
+    return { ...this.toSpotResponse(order), fills };
+  }
+
+  private spotRequirement(fakeMarket: FakeMarket, order: FakeOrder, price: number): { asset: string; amount: number } {
+    return order.side === 'BUY'
+      ? { asset: fakeMarket.quoteAsset, amount: order.quoteOrderQty || order.origQty * price }
+      : { asset: fakeMarket.baseAsset, amount: order.origQty };
+  }
+
+  private fillSpot(account: FakeAccount, fakeMarket: FakeMarket, order: FakeOrder, quantity: number, price: number, maker: boolean): void {
+    const cost = order.quoteOrderQty && order.executedQty === 0 ? Math.min(order.quoteOrderQty, quantity * price) : quantity * price;
+    const base = account.spot.get(fakeMarket.baseAsset) ?? { free: 0, locked: 0 };
+    const quote = account.spot.get(fakeMarket.quoteAsset) ?? { free: 0, locked: 0 };
+    const resting = order.type !== 'MARKET';
+
+    let commission: number;
+    let commissionAsset: string;
+    if (order.side === 'BUY') {
+      const reserved = order.price > 0 ? quantity * order.price : cost;
+      if (resting) {
+        quote.locked -= reserved;
+        quote.free += reserved - cost;
+      } else {
+        quote.free -= cost;
+      }
+      commission = quantity * SPOT_FEE;
+      commissionAsset = fakeMarket.baseAsset;
+      base.free += quantity - commission;
+    } else {
+      if (resting) base.locked -= quantity;
+      else base.free -= quantity;
+      commission = cost * SPOT_FEE;
+      commissionAsset = fakeMarket.quoteAsset;
+      quote.free += cost - commission;
+    }
+    account.spot.set(fakeMarket.baseAsset, base);
+    account.spot.set(fakeMarket.quoteAsset, quote);
+
+    fakeMarket.volume += quantity;
+    fakeMarket.quoteVolume += cost;
+    this.recordTrade(account, fakeMarket, order, quantity, cost / quantity, commission, commissionAsset, 0, maker);
+
+    order.executedQty += quantity;
+    order.cumQuote += cost;
+    order.status = order.executedQty >= order.origQty - 1e-12 ? 'FILLED' : 'PARTIALLY_FILLED';
+    order.updateTime = this.now();
+  }
+
+  private userTrades(account: FakeAccount, params: Params): unknown {
+    const symbol = this.required(params, 'symbol');
+    const limit = Math.min(parseInt(params.limit || '500', 10) || 500, 1000);
+    return account.trades
+      .filter(trade => trade.market === 'spot' && trade.symbol === symbol)
+      .slice(-limit)
+      .map(trade => ({
+        symbol: trade.symbol,
+        id: trade.id,
+        orderId: trade.orderId,
+        side: trade.side,
+        price: String(trade.price),
+        qty: String(trade.qty),
+        quoteQty: (trade.price * trade.qty).toFixed(8),
+        commission: trade.commission.toFixed(8),
+        commissionAsset: trade.commissionAsset,
+        time: trade.time,
+        buyer: trade.side === 'BUY',
+        isBuyer: trade.side === 'BUY',
+        maker: trade.maker,
+        isMaker: trade.maker
+      }));
+  }
+
+  // ========== Shared Orders ==========
+
+  private openOrders(account: FakeAccount, market: Market, params: Params): unknown {
+    return account.orders
+      .filter(order => order.market === market && FakeAsterServer.isOpen(order) && (!params.symbol || order.symbol === params.symbol))
+      .map(order => market === 'perps' ? this.toResponse(order) : this.toSpotResponse(order));
+  }
+
+  private queryOrder(account: FakeAccount, market: Market, params: Params): unknown {
+    const order = this.findOrder(account, market, params);
+    return market === 'perps' ? this.toResponse(order) : this.toSpotResponse(order);
+  }
+
+  private cancelOrder(account: FakeAccount, market: Market, params: Params): unknown {
+    const order = this.findOrder(account, market, params);
+    if (!FakeAsterServer.isOpen(order)) {
+      throw new FakeExchangeError(400, -2011, 'Unknown order sent.');
+    }
+    this.finish(account, order, 'CANCELED');
+    return market === 'perps' ? this.toResponse(order) : this.toSpotResponse(order);
+  }
+
+  private cancelAll(account: FakeAccount, market: Market, params: Params): unknown {
+    const symbol = this.required(params, 'symbol');
+    const canceled = account.orders.filter(order => order.market === market && order.symbol === symbol && FakeAsterServer.isOpen(order));
+    canceled.forEach(order => this.finish(account, order, 'CANCELED'));
+    return market === 'perps'
+      ? { code: 200, msg: 'The operation of cancel all open order is done.' }
+      : canceled.map(order => this.toSpotResponse(order));
+  }
+
+  private findOrder(account: FakeAccount, market: Market, params: Params): FakeOrder {
+    const symbol = this.required(params, 'symbol');
+    if (!params.orderId && !params.origClientOrderId) {
+      throw new FakeExchangeError(400, -1102, "Param 'origClientOrderId' or 'orderId' must be sent, but both were empty/null!");
+    }
+    const order = account.orders.find(candidate =>
+      candidate.market === market && candidate.symbol === symbol &&
+      (params.orderId ? candidate.orderId === parseInt(params.orderId, 10) : candidate.clientOrderId === params.origClientOrderId)
+    );
+    if (!order) {
+      throw new FakeExchangeError(400, -2013, 'Order does not exist.');
+    }
+    return order;
+  }
+
+  /**
+   * Trigger stops and fill resting limits of one market after its price moved
+   */
+  private evaluateOrders(account: FakeAccount, fakeMarket: FakeMarket): void {
+    const working = account.orders.filter(order =>
+      order.market === fakeMarket.market && order.symbol === fakeMarket.symbol && FakeAsterServer.isOpen(order)
+    );
+
+    for (const order of working) {
+      if (order.stopPrice > 0 || order.origType === 'TRAILING_STOP_MARKET') {
+        if (!this.checkTrigger(order, fakeMarket.price)) continue;
+
+        order.stopPrice = order.origType === 'TRAILING_STOP_MARKET' ? fakeMarket.price : order.stopPrice;
+        if (order.price > 0) {
+          // Stop-limit: the order now works as a plain limit
+          order.type = 'LIMIT';
+          order.stopPrice = 0;
+          this.processLimit(account, fakeMarket, order, false);
+        } else if (fakeMarket.market === 'perps') {
+          order.type = 'MARKET';
+          this.fillFuturesTaker(account, fakeMarket, order);
+        } else {
+          order.type = 'MARKET';
+          const balance = account.spot.get(order.side === 'BUY' ? fakeMarket.quoteAsset : fakeMarket.baseAsset)!;
+          const reserved = order.side === 'BUY' ? order.origQty * order.stopPrice : order.origQty;
+          balance.locked -= reserved;
+          balance.free += reserved;
+          const { cost } = this.takerFill(fakeMarket, order.side, order.origQty);
+          this.fillSpot(account, fakeMarket, order, order.origQty, cost / order.origQty, false);
+        }
+        continue;
+      }
+
+      if (order.type === 'LIMIT') {
+        const best = this.bestPrice(fakeMarket, order.side);
+        const crosses = order.side === 'BUY' ? best <= order.price : best >= order.price;
+        if (crosses) this.processLimit(account, fakeMarket, order, false);
+      }
+    }
+  }
+
+  private checkTrigger(order: FakeOrder, price: number): boolean {
+    if (order.origType !== 'TRAILING_STOP_MARKET') {
+      return FakeAsterServer.triggered(order, price);
+    }
+
+    if (!order.bestPrice) {
+      const activated = !order.activationPrice || (order.side === 'SELL' ? price >= order.activationPrice : price <= order.activationPrice);
+      if (!activated) return false;
+      order.bestPrice = price;
+    }
+    order.bestPrice = order.side === 'SELL' ? Math.max(order.bestPrice, price) : Math.min(order.bestPrice, price);
+    const rate = order.callbackRate / 100;
+    return order.side === 'SELL' ? price <= order.bestPrice * (1 - rate) : price >= order.bestPrice * (1 + rate);
+  }
+
+  private finish(account: FakeAccount, order: FakeOrder, status: 'CANCELED' | 'EXPIRED'): void {
+    if (order.market === 'spot' && order.type !== 'MARKET') {
+      const fakeMarket = this.requireMarket('spot', order.symbol);
+      const remaining = order.origQty - order.executedQty;
+      const { asset, amount } = this.spotRequirement(fakeMarket, { ...order, origQty: remaining, quoteOrderQty: 0 }, order.price || order.stopPrice);
+      const balance = account.spot.get(asset)!;
+      balance.locked -= amount;
+      balance.free += amount;
+    }
+
+    order.status = status;
+    order.updateTime = this.now();
+    if (order.market === 'perps') this.emitOrderUpdate(account, order, status === 'CANCELED' ? 'CANCELED' : 'EXPIRED');
+  }
+
+  private newOrder(account: FakeAccount, market: Market, fakeMarket: FakeMarket, side: Side, type: string, params: Params): FakeOrder {
+    const orderId = this.nextOrderId++;
+    return {
+      orderId,
+      clientOrderId: params.newClientOrderId || `fake_${orderId}`,
+      market,
+      symbol: fakeMarket.symbol,
+      side,
+      type,
+      origType: type,
+      timeInForce: params.timeInForce || 'GTC',
+      price: 0,
+      stopPrice: 0,
+      origQty: 0,
+      quoteOrderQty: 0,
+      executedQty: 0,
+      cumQuote: 0,
+      reduceOnly: false,
+      closePosition: false,
+      positionSide: 'BOTH',
+      workingType: 'CONTRACT_PRICE',
+      activationPrice: 0,
+      callbackRate: 0,
+      bestPrice: 0,
+      status: 'NEW',
+      time: this.now(),
+      updateTime: this.now()
+    };
+  }
+
+  private recordTrade(
+    account: FakeAccount,
+    fakeMarket: FakeMarket,
+    order: FakeOrder,
+    qty: number,
+    price: number,
+    commission: number,
+    commissionAsset: string,
+    realizedPnl: number,
+    maker: boolean
+  ): number {
+    const id = this.nextTradeId++;
+    account.trades.push({
+      market: fakeMarket.market, symbol: fakeMarket.symbol, id, orderId: order.orderId, side: order.side,
+      price, qty, quoteQty: price * qty, commission, commissionAsset, realizedPnl, maker, time: this.now()
+    });
+    return id;
+  }
+
+  private recordIncome(account: FakeAccount, symbol: string, incomeType: string, amount: number, tradeId: number): void {
+    account.income.push({
+      symbol,
+      incomeType,
+      income: amount.toFixed(8),
+      asset: 'USDT',
+      info: incomeType,
+      time: this.now(),
+      tranId: this.nextTradeId++,
+      tradeId: tradeId ? String(tradeId) : ''
+    });
+  }
+
+  private toResponse(order: FakeOrder): Record<string, unknown> {
+    const fakeMarket = this.requireMarket(order.market, order.symbol);
+    return {
+      orderId: order.orderId,
+      symbol: order.symbol,
+      status: order.status,
+      clientOrderId: order.clientOrderId,
+      price: this.formatPrice(fakeMarket, order.price),
+      avgPrice: order.executedQty > 0 ? (order.cumQuote / order.executedQty).toFixed(8) : '0',
+      origQty: this.formatQty(fakeMarket, order.origQty),
+      executedQty: this.formatQty(fakeMarket, order.executedQty),
+      cumQty: this.formatQty(fakeMarket, order.executedQty),
+      cumQuote: order.cumQuote.toFixed(8),
+      timeInForce: order.timeInForce,
+      type: order.type,
+      reduceOnly: order.reduceOnly,
+      closePosition: order.closePosition,
+      side: order.side,
+      positionSide: order.positionSide,
+      stopPrice: this.formatPrice(fakeMarket, order.stopPrice),
+      workingType: order.workingType,
+      priceProtect: false,
+      origType: order.origType,
+      ...(order.origType === 'TRAILING_STOP_MARKET'
+        ? { activatePrice: this.formatPrice(fakeMarket, order.activationPrice), priceRate: String(order.callbackRate) }
+        : {}),
+      time: order.time,
+      updateTime: order.updateTime
+    };
+  }
+
+  private toSpotResponse(order: FakeOrder): Record<string, unknown> {
+    const fakeMarket = this.requireMarket('spot', order.symbol);
+    return {
+      symbol: order.symbol,
+      orderId: order.orderId,
+      clientOrderId: order.clientOrderId,
+      transactTime: order.time,
+      price: this.formatPrice(fakeMarket, order.price),
+      origQty: this.formatQty(fakeMarket, order.origQty),
+      executedQty: this.formatQty(fakeMarket, order.executedQty),
+      cummulativeQuoteQty: order.cumQuote.toFixed(8),
+      status: order.status,
+      timeInForce: order.timeInForce,
+      type: order.type,
+      origType: order.origType,
+      side: order.side,
+      stopPrice: this.formatPrice(fakeMarket, order.stopPrice),
+      time: order.time,
+      updateTime: order.updateTime
+    };
+  }
+
+  // ========== User Data Stream ==========
+
+  private openListenKey(account: FakeAccount): string {
+    account.listenKey = account.listenKey ?? crypto.randomBytes(32).toString('hex');
+    return account.listenKey;
+  }
+
+  private keepAliveListenKey(account: FakeAccount): unknown {
+    if (!account.listenKey) {
+      throw new FakeExchangeError(400, -1125, 'This listenKey does not exist.');
+    }
+    return {};
+  }
+
+  private closeListenKey(account: FakeAccount): unknown {
+    if (account.listenKey) {
+      this.streams.get(account.listenKey)?.forEach(client => client.close());
+      this.streams.delete(account.listenKey);
+    }
+    account.listenKey = null;
+    return {};
+  }
+
+  private findByListenKey(listenKey: string): FakeAccount | undefined {
+    return [...this.accounts.values()].find(account => account.listenKey === listenKey);
+  }
+
+  private push(account: FakeAccount, event: object): void {
+    if (!account.listenKey) return;
+    const payload = JSON.stringify(event);
+    this.streams.get(account.listenKey)?.forEach(client => client.send(payload));
+  }
+
+  private emitOrderUpdate(
+    account: FakeAccount,
+    order: FakeOrder,
+    execution: string,
+    fill?: { quantity: number; price: number; commission: number; realizedPnl: number; maker: boolean; tradeId: number }
+  ): void {
+    if (order.market !== 'perps') return;
+    const fakeMarket = this.requireMarket('perps', order.symbol);
+    this.push(account, {
+      e: 'ORDER_TRADE_UPDATE',
+      E: this.now(),
+      T: this.now(),
+      o: {
+        s: order.symbol,
+        c: order.clientOrderId,
+        S: order.side,
+        o: order.type,
+        f: order.timeInForce,
+        q: this.formatQty(fakeMarket, order.origQty),
+        p: this.formatPrice(fakeMarket, order.price),
+        ap: order.executedQty > 0 ? (order.cumQuote / order.executedQty).toFixed(8) : '0',
+        sp: this.formatPrice(fakeMarket, order.stopPrice),
+        x: execution,
+        X: order.status,
+        i: order.orderId,
+        l: fill ? this.formatQty(fakeMarket, fill.quantity) : '0',
+        z: this.formatQty(fakeMarket, order.executedQty),
+        L: fill ? this.formatPrice(fakeMarket, fill.price) : '0',
+        N: 'USDT',
+        n: fill ? fill.commission.toFixed(8) : '0',
+        T: this.now(),
+        t: fill?.tradeId ?? 0,
+        b: '0',
+        a: '0',
+        m: fill?.maker ?? false,
+        R: order.reduceOnly,
+        wt: order.workingType,
+        ot: order.origType,
+        ps: order.positionSide,
+        cp: order.closePosition,
+        AP: this.formatPrice(fakeMarket, order.activationPrice),
+        cr: String(order.callbackRate),
+        rp: fill ? fill.realizedPnl.toFixed(8) : '0'
+      }
+    });
+  }
+
+  private emitAccountUpdate(account: FakeAccount, reason: string, symbol?: string): void {
+    const positions = [...account.positions.values()]
+      .filter(position => !symbol || position.symbol === symbol)
+      .map(position => {
+        const fakeMarket = this.requireMarket('perps', position.symbol);
+        return {
+          s: position.symbol,
+          pa: this.formatQty(fakeMarket, position.amt),
+          ep: position.entry.toFixed(8),
+          cr: '0',
+          up: (position.amt * (fakeMarket.price - position.entry)).toFixed(8),
+          mt: 'cross',
+          iw: '0',
+          ps: position.side
+        };
+      });
+
+    this.push(account, {
+      e: 'ACCOUNT_UPDATE',
+      E: this.now(),
+      T: this.now(),
+      a: { m: reason, B: [{ a: 'USDT', wb: account.wallet.toFixed(8), cw: account.wallet.toFixed(8), bc: '0' }], P: positions }
+    });
+  }
+
+  // ========== Validation ==========
+
+  private required(params: Params, name: string): string {
+    const value = params[name];
+    if (value === undefined || value === '') {
+      throw new FakeExchangeError(400, -1102, `Mandatory parameter '${name}' was not sent, was empty/null, or malformed.`);
+    }
+    return value;
+  }
+
+  private requireSide(params: Params): Side {
+    const side = this.required(params, 'side');
+    if (side !== 'BUY' && side !== 'SELL') {
+      throw new FakeExchangeError(400, -1117, 'Invalid side.');
+    }
+    return side;
+  }
+
+  /**
+   * One-way accounts take BOTH or nothing; hedge accounts need the leg on every order
+   */
+  private requirePositionSide(account: FakeAccount, params: Params): PositionSide {
+    const positionSide = params.positionSide || 'BOTH';
+    if (!['BOTH', 'LONG', 'SHORT'].includes(positionSide)) {
+      throw new FakeExchangeError(400, -4006, 'Invalid position side.');
+    }
+    if ((positionSide !== 'BOTH') !== account.dualSidePosition) {
+      throw new FakeExchangeError(400, -4061, "Order's position side does not match user's setting.");
+    }
+    return positionSide as PositionSide;
+  }
+
+  private requireTimeInForce(params: Params): void {
+    const timeInForce = this.required(params, 'timeInForce');
+    if (!['GTC', 'IOC', 'FOK', 'GTX'].includes(timeInForce)) {
+      throw new FakeExchangeError(400, -1115, 'Invalid timeInForce.');
+    }
+  }
+
+  private requireTradable(market: Market, symbol: string): FakeMarket {
+    const fakeMarket = this.requireMarket(market, symbol);
+    if (fakeMarket.status !== 'TRADING') {
+      throw new FakeExchangeError(400, -4140, 'Invalid symbol status for opening position.');
+    }
+    return fakeMarket;
+  }
+
+  private requireMarket(market: Market, symbol: string): FakeMarket {
+    const fakeMarket = this.markets.get(FakeAsterServer.key(market, symbol));
+    if (!fakeMarket) {
+      throw new FakeExchangeError(400, -1121, 'Invalid symbol.');
+    }
+    return fakeMarket;
+  }
+
+  private requireAccount(apiKey: string): FakeAccount {
+    const account = this.accounts.get(apiKey);
+    if (!account) throw new Error(`No fake account for API key ${apiKey}`);
+    return account;
+  }
+
+  /**
+   * PRICE_FILTER and PERCENT_PRICE: no more decimals than the tick, a whole number of
+   * ticks, and within the allowed band around the current price
+   */
+  private checkPrice(fakeMarket: FakeMarket, value: string, name: string): number {
+    const price = parseFloat(value);
+    if (!Number.isFinite(price) || price <= 0) {
+      throw new FakeExchangeError(400, -1130, `Data sent for parameter '${name}' is not valid.`);
+    }
+    if (FakeAsterServer.decimals(value) > FakeAsterServer.decimals(fakeMarket.tickSize)) {
+      throw new FakeExchangeError(400, -1111, 'Precision is over the maximum defined for this asset.');
+    }
+    if (!FakeAsterServer.isMultiple(price, fakeMarket.tickSize)) {
+      throw new FakeExchangeError(400, -1013, 'Filter failure: PRICE_FILTER');
+    }
+    if (price > fakeMarket.price * 1.5 || price < fakeMarket.price * 0.5) {
+      throw new FakeExchangeError(400, -1013, 'Filter failure: PERCENT_PRICE');
+    }
+    return price;
+  }
+
+  /**
+   * LOT_SIZE: no more decimals than the step, a whole number of steps, within min and max
+   */
+  private checkQuantity(fakeMarket: FakeMarket, value: string): number {
+    const quantity = parseFloat(value);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      throw new FakeExchangeError(400, -1130, "Data sent for parameter 'quantity' is not valid.");
+    }
+    if (FakeAsterServer.decimals(value) > FakeAsterServer.decimals(fakeMarket.stepSize)) {
+      throw new FakeExchangeError(400, -1111, 'Precision is over the maximum defined for this asset.');
+    }
+    if (!FakeAsterServer.isMultiple(quantity, fakeMarket.stepSize)
+      || quantity < parseFloat(fakeMarket.minQty) || quantity > parseFloat(fakeMarket.maxQty)) {
+      throw new FakeExchangeError(400, -1013, 'Filter failure: LOT_SIZE');
+    }
+    return quantity;
+  }
+
+  // ========== Helpers ==========
+
+  private now(): number {
+    return Date.now() + this.clockOffsetMs;
+  }
+
+  private roundQty(fakeMarket: FakeMarket, quantity: number): number {
+    const factor = 10 ** FakeAsterServer.decimals(fakeMarket.stepSize);
+    return Math.round(quantity * factor) / factor;
+  }
+
+  private formatPrice(fakeMarket: FakeMarket, price: number): string {
+    return price.toFixed(FakeAsterServer.decimals(fakeMarket.tickSize));
+  }
+
+  private formatQty(fakeMarket: FakeMarket, quantity: number): string {
+    return quantity.toFixed(FakeAsterServer.decimals(fakeMarket.stepSize));
+  }
+
+  private static key(market: Market, symbol: string): string {
+    return `${market}:${symbol}`;
+  }
+
+  private static positionKey(symbol: string, positionSide: PositionSide): string {
+    return `${symbol}:${positionSide}`;
+  }
+
+  private positionOf(account: FakeAccount, symbol: string, positionSide: PositionSide): FakePosition {
+    return account.positions.get(FakeAsterServer.positionKey(symbol, positionSide))
+      ?? { symbol, side: positionSide, amt: 0, entry: 0, updateTime: 0 };
+  }
+
+  /**
+   * Reduce-only in one-way mode; in hedge mode a sell on the LONG leg or a buy on the SHORT leg
+   */
+  private static reduces(order: Pick<FakeOrder, 'reduceOnly' | 'closePosition' | 'positionSide' | 'side'>): boolean {
+    if (order.reduceOnly || order.closePosition) return true;
+    return order.positionSide !== 'BOTH' && (order.positionSide === 'LONG') === (order.side === 'SELL');
+  }
+
+  private static isOpen(order: FakeOrder): boolean {
+    return order.status === 'NEW' || order.status === 'PARTIALLY_FILLED';
+  }
+
+  /**
+   * Stops fire as the price moves against the order's side, take profits as it moves with it
+   */
+  private static triggered(order: Pick<FakeOrder, 'origType' | 'side' | 'stopPrice'>, price: number): boolean {
+    const isStop = order.origType.startsWith('STOP');
+    const buy = order.side === 'BUY';
+    return isStop === buy ? price >= order.stopPrice : price <= order.stopPrice;
+  }
+
+  private static decimals(value: string): number {
+    const fraction = value.split('.')[1];
+    return fraction ? fraction.replace(/0+$/, '').length : 0;
+  }
+
+  private static isMultiple(value: number, step: string): boolean {
+    const factor = 10 ** FakeAsterServer.decimals(step);
+    const scaledStep = Math.round(parseFloat(step) * factor);
+    return Math.round(value * factor) % scaledStep === 0;
+  }
+}
+
+// Main execution
+async function main() {
+  const scenarioName = process.argv[2] || 'calm';
+  const scenario = SCENARIOS[scenarioName];
+  if (!scenario) {
+    console.error(`Unknown scenario '${scenarioName}'. Available: ${Object.keys(SCENARIOS).join(', ')}`);
+    process.exit(1);
+  }
+
+  const apiKey = process.env.FAKE_ASTER_API_KEY || crypto.randomBytes(32).toString('hex');
+  const apiSecret = process.env.FAKE_ASTER_API_SECRET || crypto.randomBytes(32).toString('hex');
+
+  const server = new FakeAsterServer();
+  server.addAccount({ apiKey, apiSecret });
+  const { baseUrl, wsUrl } = server.start(parseInt(process.env.FAKE_ASTER_PORT || '4010', 10));
+
+  console.log('🧪 ==========================================');
+  console.log('🧪 FAKE ASTER EXCHANGE - NO REAL ORDERS');
+  console.log('🧪 ==========================================');
+  console.log(`ASTER_BASE_URL=${baseUrl}`);
+  console.log(`ASTER_SPOT_BASE_URL=${baseUrl}`);
+  console.log(`ASTER_WS_URL=${wsUrl}`);
+  console.log(`API key:    ${apiKey}`);
+  console.log(`API secret: ${apiSecret}`);
+  console.log(`\n▶️  Scenario '${scenario.name}': ${scenario.description}`);
+
+  await server.play(scenario);
+  console.log(`✅ Scenario '${scenario.name}' finished; server keeps running until interrupted`);
+
+  process.on('SIGINT', () => {
+    server.stop();
+    process.exit(0);
+  });
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,250 @@
+#!/usr/bin/env ts-node
+
+import zlib from 'zlib';
+
+/**
+ * Local stand-in for the Telegram Bot API. The bot is pointed at it with TELEGRAM_API_ROOT;
+ * every method it calls is recorded and answered the way Telegram would for the calls the
+ * bot makes. Updates are fed to the bot's webhook as a Telegram user would produce them:
+ * typed text (with bot_command entities) and presses on inline buttons of earlier messages.
+ */
+
+// Minimal shape of the Bun server API used here; the tools are not part of the tsc build
+declare const Bun: {
+  serve(options: { port: number; hostname?: string; fetch(request: Request): Response | Promise<Response> }): {
+    port: number;
+    stop(closeActiveConnections?: boolean): void;
+  };
+};
+
+export interface BotApiCall {
+  method: string;
+  payload: Record<string, any>;
+}
+
+interface StoredMessage {
+  message_id: number;
+  chat_id: number;
+  text: string;
+  reply_markup?: { inline_keyboard?: Array<Array<{ text: string; callback_data?: string; url?: string }>> };
+}
+
+export interface FakeUser {
+  id: number;
+  first_name: string;
+  username?: string;
+}
+
+export class FakeTelegramServer {
+  private server: ReturnType<typeof Bun.serve> | null = null;
+  private messages = new Map<number, StoredMessage>();
+  private nextMessageId = 1;
+  private nextUpdateId = 1;
+  private webhook: { url: string; secretToken?: string } | null = null;
+
+  readonly calls: BotApiCall[] = [];
+  readonly botUser = { id: 7000000001, is_bot: true, first_name: 'Aster Test Bot', username: 'aster_test_bot' };
+
+  start(port = 0): { apiRoot: string } {
+    this.server = Bun.serve({
+      port,
+      hostname: '127.0.0.1',
+      fetch: (request) => this.dispatch(request)
+    });
+    return { apiRoot: `http://127.0.0.1:${this.server.port}` };
+  }
+
+  stop(): void {
+    this.server?.stop(true);
+    this.server = null;
+  }
+
+  /**
+   * Deliver a text message from the user, returning the Bot API calls made before the webhook
+   * was answered; handlers that keep working after that show up in `calls` later
+   */
+  async sendText(user: FakeUser, text: string): Promise<BotApiCall[]> {
+    const command = text.match(/^\/[A-Za-z0-9_]+(@[A-Za-z0-9_]+)?/);
+    return this.deliver({
+      message: {
+        message_id: this.nextMessageId++,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: user.id, type: 'private', first_name: user.first_name, username: user.username },
+        from: { ...user, is_bot: false, language_code: 'en' },
+        text,
+        ...(command ? { entities: [{ type: 'bot_command', offset: 0, length: command[0].length }] } : {})
+      }
+    });
+  }
+
+  /**
+   * Press an inline button on the latest message in the user's chat that has one with the
+   * given callback data (or a callback data starting with it, for ids minted at runtime)
+   */
+  async pressButton(user: FakeUser, callbackData: string): Promise<BotApiCall[]> {
+    const candidates = [...this.messages.values()].filter(message => message.chat_id === user.id).reverse();
+    for (const message of candidates) {
+      const button = (message.reply_markup?.inline_keyboard ?? []).flat()
+        .find(b => b.callback_data === callbackData || b.callback_data?.startsWith(callbackData));
+      if (!button) continue;
+
+      return this.deliver({
+        callback_query: {
+          id: String(this.nextUpdateId * 1000),
+          from: { ...user, is_bot: false, language_code: 'en' },
+          chat_instance: String(user.id),
+          data: button.callback_data,
+          message: {
+            message_id: message.message_id,
+            date: Math.floor(Date.now() / 1000),
+            chat: { id: user.id, type: 'private', first_name: user.first_name },
+            from: this.botUser,
+            text: message.text,
+            reply_markup: message.reply_markup
+          }
+        }
+      });
+    }
+    throw new Error(`No button with callback data '${callbackData}' in chat ${user.id}`);
+  }
+
+  lastText(user: FakeUser): string {
+    const messages = [...this.messages.values()].filter(message => message.chat_id === user.id);
+    return messages[messages.length - 1]?.text ?? '';
+  }
+
+  private async deliver(update: Record<string, unknown>): Promise<BotApiCall[]> {
+    if (!this.webhook) {
+      throw new Error('The bot has not registered a webhook yet');
+    }
+
+    const firstCall = this.calls.length;
+    const response = await fetch(this.webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.webhook.secretToken ? { 'X-Telegram-Bot-Api-Secret-Token': this.webhook.secretToken } : {})
+      },
+      body: JSON.stringify({ update_id: this.nextUpdateId++, ...update })
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook answered ${response.status}`);
+    }
+
+    // Telegraf may answer the first allow-listed call (e.g. answerCallbackQuery) in the webhook response
+    const body = await response.text();
+    if (body) {
+      const { method, ...payload } = JSON.parse(body);
+      if (method) this.handle(method, payload);
+    }
+
+    return this.calls.slice(firstCall);
+  }
+
+  private async dispatch(request: Request): Promise<Response> {
+    const match = new URL(request.url).pathname.match(/^\/bot[^/]+\/(\w+)$/);
+    if (!match) {
+      return Response.json({ ok: false, error_code: 404, description: 'Not Found' }, { status: 404 });
+    }
+
+    try {
+      const payload = await FakeTelegramServer.readPayload(request);
+      return Response.json({ ok: true, result: this.handle(match[1], payload) });
+    } catch (error) {
+      return Response.json({ ok: false, error_code: 400, description: (error as Error).message }, { status: 400 });
+    }
+  }
+
+  /**
+   * Telegraf posts JSON, but switches to multipart for some methods (setWebhook among them),
+   * and under Bun the body may arrive gzipped; multipart fields are all strings, with
+   * objects JSON-encoded
+   */
+  private static async readPayload(request: Request): Promise<Record<string, any>> {
+    const contentType = request.headers.get('content-type') ?? '';
+    let body = Buffer.from(await request.arrayBuffer());
+    if (body[0] === 0x1f && body[1] === 0x8b) body = zlib.gunzipSync(body);
+
+    if (contentType.includes('application/json')) {
+      return body.length ? JSON.parse(body.toString('utf8')) : {};
+    }
+    if (!contentType.includes('multipart/form-data') && !contentType.includes('application/x-www-form-urlencoded')) {
+      return {};
+    }
+
+    const payload: Record<string, any> = {};
+    const form = await new Response(body, { headers: { 'content-type': contentType } }).formData();
+    for (const [key, value] of form.entries()) {
+      if (typeof value !== 'string') continue;
+      try {
+        payload[key] = /^[[{]/.test(value) ? JSON.parse(value) : value;
+      } catch {
+        payload[key] = value;
+      }
+    }
+    return payload;
+  }
+
+  private handle(method: string, payload: Record<string, any>): unknown {
+    this.calls.push({ method, payload });
+
+    switch (method) {
+      case 'getMe':
+        return this.botUser;
+      case 'setWebhook':
+        this.webhook = { url: payload.url, secretToken: payload.secret_token };
+        return true;
+      case 'deleteWebhook':
+        this.webhook = null;
+        return true;
+      case 'getWebhookInfo':
+        return { url: this.webhook?.url ?? '', has_custom_certificate: false, pending_update_count: 0 };
+      case 'getChatMember':
+        return { status: 'member', user: { id: payload.user_id, is_bot: false, first_name: 'Test' } };
+      case 'sendMessage':
+      case 'sendPhoto': {
+        const message: StoredMessage = {
+          message_id: this.nextMessageId++,
+          chat_id: Number(payload.chat_id),
+          text: payload.text ?? payload.caption ?? '',
+          reply_markup: payload.reply_markup
+        };
+        this.messages.set(message.message_id, message);
+        return {
+          message_id: message.message_id,
+          date: Math.floor(Date.now() / 1000),
+          chat: { id: message.chat_id, type: 'private' },
+          from: this.botUser,
+          text: message.text,
+          reply_markup: message.reply_markup
+        };
+      }
+      case 'editMessageText':
+      case 'editMessageReplyMarkup': {
+        const message = this.messages.get(Number(payload.message_id));
+        if (!message) {
+          throw new Error('Bad Request: message to edit not found');
+        }
+        if (method === 'editMessageText' && message.text === payload.text
+          && JSON.stringify(message.reply_markup) === JSON.stringify(payload.reply_markup)) {
+          throw new Error('Bad Request: message is not modified');
+        }
+        if (payload.text !== undefined) message.text = payload.text;
+        message.reply_markup = payload.reply_markup;
+        return {
+          message_id: message.message_id,
+          date: Math.floor(Date.now() / 1000),
+          chat: { id: message.chat_id, type: 'private' },
+          text: message.text,
+          reply_markup: message.reply_markup
+        };
+      }
+      case 'deleteMessage':
+        this.messages.delete(Number(payload.message_id));
+        return true;
+      default:
+        // answerCallbackQuery, setMyCommands, setChatMenuButton, sendChatAction, ...
+        return true;
+    }
+  }
+}
@@ -0,0 +1,210 @@
+#!/usr/bin/env ts-node
+
+import crypto from 'crypto';
+import { AsterApiClient } from '../src/aster';
+import { DatabaseManager } from '../src/db';
+import { OpenOrdersService } from '../src/services/OpenOrdersService';
+import { PositionInfo } from '../src/types';
+import { FakeAsterServer } from './fake_aster';
+
+/**
+ * Hedge-mode order routing against the fake exchange: which leg each order lands on, how
+ * positions are picked per leg, closing one leg, and amending a hedge stop or take-profit
+ */
+class HedgeModeValidator {
+  private results: Array<{ test: string; status: 'PASS' | 'FAIL'; message: string }> = [];
+  private exchange = new FakeAsterServer();
+  private baseUrl = '';
+
+  // Amending only touches the order history, which these runs don't keep
+  private db = {
+    getOrderByClientId: async () => null,
+    updateOrderStatus: async () => {},
+    relinkAmendedOrder: async () => {},
+    isPaperMode: async () => false,
+    storeOrder: async () => {}
+  } as unknown as DatabaseManager;
+
+  private log(test: string, passed: boolean, message: string): void {
+    this.results.push({ test, status: passed ? 'PASS' : 'FAIL', message });
+    console.log(`${passed ? '✅' : '❌'} ${test}: ${message}`);
+  }
+
+  private account(dualSidePosition: boolean): { apiKey: string; client: AsterApiClient } {
+    const apiKey = crypto.randomBytes(32).toString('hex');
+    const apiSecret = crypto.randomBytes(32).toString('hex');
+    this.exchange.addAccount({ apiKey, apiSecret, futuresUsdt: 10000, dualSidePosition });
+    return { apiKey, client: new AsterApiClient(this.baseUrl, apiKey, apiSecret) };
+  }
+
+  private orderRequests(): number {
+    return this.exchange.requests.filter(r => r.method === 'POST' && r.path === '/fapi/v1/order').length;
+  }
+
+  private lastOrderParams(): Record<string, string> {
+    const orders = this.exchange.requests.filter(r => r.method === 'POST' && r.path === '/fapi/v1/order');
+    return orders[orders.length - 1]?.params ?? {};
+  }
+
+  private async check(test: string, run: () => Promise<{ passed: boolean; message: string }>): Promise<void> {
+    try {
+      const { passed, message } = await run();
+      this.log(test, passed, message);
+    } catch (error: any) {
+      this.log(test, false, `Threw: ${error?.response?.data?.msg || error.message}`);
+    }
+  }
+
+  async runAll(): Promise<boolean> {
+    console.log('🧪 Hedge Mode Tests\n');
+    this.baseUrl = this.exchange.start().baseUrl;
+
+    try {
+      await this.oneWay();
+      await this.hedge();
+    } finally {
+      this.exchange.stop();
+    }
+
+    const passed = this.results.filter(r => r.status === 'PASS').length;
+    console.log(`\n🎯 ${passed}/${this.results.length} passed`);
+    return passed === this.results.length;
+  }
+
+  private async oneWay(): Promise<void> {
+    const { apiKey, client } = this.account(false);
+
+    await this.check('One-way orders carry no position side', async () => {
+      await client.createOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: '0.01' });
+      const params = this.lastOrderParams();
+      const position = this.exchange.getPosition(apiKey, 'BTCUSDT');
+      return {
+        passed: params.positionSide === undefined && position.amt === 0.01,
+        message: `positionSide=${params.positionSide} amt=${position.amt}`
+      };
+    });
+
+    await this.check('Mode switch refused with a position open', async () => {
+      const error = await client.changePositionMode(true).then(() => null, (e: any) => e);
+      return { passed: error !== null, message: error ? error.message : 'switched' };
+    });
+
+    await this.check('Position rows without a side are not read as hedge mode', async () => {
+      const { client: bare } = this.account(false);
+      // Some responses leave positionSide out; the mode then comes from the position mode endpoint
+      (bare as any).axios.interceptors.response.use((response: any) => {
+        if (response.config.url?.includes('/fapi/v1/positionRisk')) {
+          response.data = response.data.map(({ positionSide, ...row }: any) => row);
+        }
+        return response;
+      });
+
+      await bare.getPositionRisk();
+      const before = this.orderRequests();
+      await bare.createOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: '0.01' });
+      const sent = this.orderRequests() - before;
+      const params = this.lastOrderParams();
+      return {
+        passed: sent === 1 && params.positionSide === undefined,
+        message: `orders sent=${sent} positionSide=${params.positionSide}`
+      };
+    });
+  }
+
+  private async hedge(): Promise<void> {
+    const { apiKey, client } = this.account(true);
+
+    await this.check('Entries open the leg of their side', async () => {
+      await client.createOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: '0.01' });
+      const buyLeg = this.lastOrderParams().positionSide;
+      await client.createOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'MARKET', quantity: '0.02' });
+      const sellLeg = this.lastOrderParams().positionSide;
+
+      const long = this.exchange.getPosition(apiKey, 'BTCUSDT', 'LONG').amt;
+      const short = this.exchange.getPosition(apiKey, 'BTCUSDT', 'SHORT').amt;
+      return {
+        passed: buyLeg === 'LONG' && sellLeg === 'SHORT' && long === 0.01 && short === -0.02,
+        message: `BUY->${buyLeg} SELL->${sellLeg} long=${long} short=${short}`
+      };
+    });
+
+    await this.check('Reduce-only exit becomes a leg close', async () => {
+      await client.createOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: '0.005', reduceOnly: true });
+      const params = this.lastOrderParams();
+      const short = this.exchange.getPosition(apiKey, 'BTCUSDT', 'SHORT').amt;
+      const long = this.exchange.getPosition(apiKey, 'BTCUSDT', 'LONG').amt;
+      return {
+        passed: params.positionSide === 'SHORT' && params.reduceOnly === undefined && short === -0.015 && long === 0.01,
+        message: `positionSide=${params.positionSide} reduceOnly=${params.reduceOnly} long=${long} short=${short}`
+      };
+    });
+
+    await this.check('Positions are picked per leg', async () => {
+      const positions = await client.getPositionRisk();
+      const ambiguous = (() => {
+        try {
+          AsterApiClient.findPosition(positions, 'BTCUSDT');
+          return false;
+        } catch {
+          return true;
+        }
+      })();
+      const short = AsterApiClient.findPosition(positions, 'BTCUSDT', 'SHORT');
+      const flatLeg = AsterApiClient.findPosition(positions, 'ETHUSDT', 'LONG');
+      const oneWayShort = AsterApiClient.legOf({ positionAmt: '-1', positionSide: 'BOTH' } as PositionInfo);
+      return {
+        passed: ambiguous && short?.positionAmt === '-0.015' && short !== undefined && AsterApiClient.legOf(short) === 'SHORT'
+          && flatLeg === undefined && oneWayShort === 'SHORT',
+        message: `ambiguous=${ambiguous} short=${short?.positionAmt} leg=${short && AsterApiClient.legOf(short)} one-way=${oneWayShort}`
+      };
+    });
+
+    await this.check('Closing one leg leaves the other', async () => {
+      await client.closePosition('BTCUSDT', 100, undefined, 'LONG');
+      const long = this.exchange.getPosition(apiKey, 'BTCUSDT', 'LONG').amt;
+      const short = this.exchange.getPosition(apiKey, 'BTCUSDT', 'SHORT').amt;
+      return { passed: long === 0 && short === -0.015, message: `long=${long} short=${short}` };
+    });
+
+    const openOrders = new OpenOrdersService(this.db, client);
+    const amend = async (type: 'STOP_MARKET' | 'TAKE_PROFIT_MARKET', place: () => Promise<{ orderId: number }>, price: number) => {
+      const placed = await place();
+      const result = await openOrders.amendPrice(1, 'perps', 'BTCUSDT', placed.orderId, price);
+      const replacement = this.exchange.getOpenOrders(apiKey).find(o => o.orderId === result.response.orderId);
+      const originalOpen = this.exchange.getOpenOrders(apiKey).some(o => o.orderId === placed.orderId);
+      return {
+        passed: replacement?.type === type && replacement.side === 'BUY' && replacement.positionSide === 'SHORT'
+          && parseFloat(String(replacement.stopPrice)) === price && !originalOpen,
+        message: `${replacement?.side} ${replacement?.type} ${replacement?.positionSide} @ ${replacement?.stopPrice}`
+      };
+    };
+
+    await this.check('Amended hedge stop-loss stays on its leg', () =>
+      amend('STOP_MARKET', () => client.setStopLoss('BTCUSDT', 68000, undefined, 'SHORT'), 68500)
+    );
+
+    await this.check('Amended hedge take-profit stays on its leg', () =>
+      amend('TAKE_PROFIT_MARKET', () => client.setTakeProfit('BTCUSDT', 66000, undefined, 'SHORT'), 65500)
+    );
+
+    await this.check('Amended stop closes the short instead of opening a long', async () => {
+      this.exchange.setPrice('BTCUSDT', 68600);
+      const long = this.exchange.getPosition(apiKey, 'BTCUSDT', 'LONG').amt;
+      const short = this.exchange.getPosition(apiKey, 'BTCUSDT', 'SHORT').amt;
+      return { passed: long === 0 && short === 0, message: `long=${long} short=${short}` };
+    });
+  }
+}
+
+// Main execution
+async function main() {
+  const validator = new HedgeModeValidator();
+  const allPassed = await validator.runAll();
+  process.exitCode = allPassed ? 0 : 1;
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
+
+export { HedgeModeValidator };